@@ -24,8 +24,10 @@ const SYSTEM_PROMPT = `You are a workflow builder agent. You take natural langua
 Step types: automation, user, decision (with branches), foreach, callActivity
 
 ## Patch Rules
-- Use 0-based JSON Pointer paths
-- To append use "-": /stages/-, /stages/0/groups/0/steps/-
+- Address existing elements by their id, never by position: /stages[id=stage_x]/name, /stages[id=stage_x]/groups[id=group_y]/steps[id=step_z]/name, /personas[id=persona_a]
+- Copy ids exactly from the current Case IR; a path naming an id that doesn't exist is rejected
+- To append use "-": /stages/-, /stages[id=stage_x]/groups[id=group_y]/steps/-
+- For move, address "from" by id too; its "path" is the target array position (e.g. .../steps/-)
 - Always include id (short unique like "step_abc123"), type, name for new elements
 - Never reuse existing IDs
 - Generate IDs as step_XXXXX, stage_XXXXX, group_XXXXX, persona_XXXXX, rule_XXXXX, field_XXXXX (6 random chars)`;
@@ -9,7 +9,7 @@ const openai = new OpenAI();
 const SYSTEM_PROMPT = `You are a workflow review agent. You validate proposed JSON Patch operations before they are applied to a workflow Case IR.
 
 Check for:
-1. **Path correctness**: Do the JSON Pointer paths reference valid locations in the Case IR?
+1. **Path correctness**: Do the paths address existing elements by id (/stages[id=…]/groups[id=…]/steps[id=…]) rather than by array index, and do those ids exist in the Case IR?
 2. **ID uniqueness**: Are new element IDs unique and not reusing existing ones?
 3. **Required fields**: Do new elements include all required fields (id, name, type for steps, etc.)?
 4. **Type validity**: Are step types valid (automation, user, decision, foreach, callActivity)?
@@ -18,8 +18,8 @@ export const TOOLS = {
             type: "object",
             properties: {
               op: { type: "string", enum: ["add", "remove", "replace", "move", "copy"] },
-              path: { type: "string", description: "JSON Pointer path" },
-              from: { type: "string", description: "Source path for move/copy" },
+              path: { type: "string", description: "JSON Pointer path addressing array elements by id, e.g. /stages[id=stage_x]/groups[id=group_y]/steps[id=step_z]/name; \"-\" appends" },
+              from: { type: "string", description: "Source path for move/copy, addressed by id like path" },
               value: { description: "Value for add/replace operations" },
             },
             required: ["op", "path"],
@@ -51,7 +51,7 @@ export const TOOLS = {
               title: { type: "string" },
               description: { type: "string" },
               suggestion: { type: "string" },
-              affectedPath: { type: "string", description: "JSON Pointer to the affected element" },
+              affectedPath: { type: "string", description: "Id path to the affected element, e.g. /stages[id=stage_x]/groups[id=group_y]/steps[id=step_z]" },
             },
             required: ["category", "severity", "title", "description"],
           },
@@ -98,7 +98,7 @@ export const TOOLS = {
             type: "object",
             properties: {
               op: { type: "string" },
-              path: { type: "string" },
+              path: { type: "string", description: "Id path, like generate_patch's path" },
               from: { type: "string" },
               value: {},
             },
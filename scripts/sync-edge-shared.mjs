@@ -0,0 +1,75 @@
+/**
+ * Copies the src/lib modules the edge functions share into supabase/functions/_shared.
+ * Deno cannot import from src/ (the functions are deployed on their own and Deno needs
+ * explicit `.ts` extensions), so the copies get their relative imports rewritten and a
+ * header naming their source. Edit the sources, then run `npm run sync:edge`;
+ * `--check` fails when a copy is out of date, and runs as part of `npm test`.
+ */
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, normalize, posix } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+const SOURCE = join(ROOT, "src/lib");
+const TARGET = join(ROOT, "supabase/functions/_shared");
+
+/** Shared modules, relative to src/lib; they may only import each other */
+const SHARED = [
+  "expression/builtins.ts",
+  "expression/diagnostics.ts",
+  "expression/evaluate.ts",
+  "expression/lexer.ts",
+  "expression/parser.ts",
+  "expression/types.ts",
+  "questionnaire/evaluation.ts",
+  "questionnaire/submission.ts",
+];
+
+const HEADER = "// Generated from src/lib/";
+const IMPORT = /(\bfrom\s+|\bimport\s+)"([^"]+)"/g;
+
+function render(file) {
+  const text = readFileSync(join(SOURCE, file), "utf8");
+  const body = text.replace(IMPORT, (match, keyword, specifier) => {
+    const resolved = specifier.startsWith(".") ? posix.join(posix.dirname(file), `${specifier}.ts`) : null;
+    if (!resolved || !SHARED.includes(resolved)) {
+      throw new Error(`src/lib/${file} imports "${specifier}", which is not one of the shared modules`);
+    }
+    return `${keyword}"${specifier}.ts"`;
+  });
+  return `${HEADER}${file} by npm run sync:edge – do not edit\n${body}`;
+}
+
+/** Copies under _shared whose module is no longer shared; hand-written files are left alone */
+function strayFiles(dir = TARGET, prefix = "") {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const file = posix.join(prefix, entry.name);
+    if (entry.isDirectory()) return strayFiles(join(dir, entry.name), file);
+    const generated = readFileSync(join(dir, entry.name), "utf8").startsWith(HEADER);
+    return generated && !SHARED.includes(file) ? [file] : [];
+  });
+}
+
+const check = process.argv.includes("--check");
+const stale = [];
+for (const file of SHARED) {
+  const target = normalize(join(TARGET, file));
+  const content = render(file);
+  if (existsSync(target) && readFileSync(target, "utf8") === content) continue;
+  stale.push(file);
+  if (!check) {
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+  }
+}
+const stray = strayFiles();
+if (!check) stray.forEach(file => rmSync(join(TARGET, file)));
+
+if (check && (stale.length || stray.length)) {
+  for (const file of stale) console.error(`supabase/functions/_shared/${file} is out of date`);
+  for (const file of stray) console.error(`supabase/functions/_shared/${file} has no source in src/lib`);
+  console.error("Run npm run sync:edge");
+  process.exit(1);
+}
+if (!check) console.log(stale.length || stray.length ? `Updated ${stale.length} and removed ${stray.length} shared module(s)` : "Shared modules are up to date");
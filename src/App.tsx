@@ -12,6 +12,7 @@ import FormBuilderPage from "./pages/FormBuilderPage";
 import ModuleConfigPage from "./pages/ModuleConfigPage";
 import AllTemplates from "./pages/AllTemplates";
 import AllWorkflows from "./pages/AllWorkflows";
+import WorkflowHistoryPage from "./pages/WorkflowHistoryPage";
 import ProfilePage from "./pages/ProfilePage";
 import TechDocsPage from "./pages/TechDocsPage";
 import FormBuilderDocsPage from "./pages/FormBuilderDocsPage";
@@ -27,6 +28,7 @@ import AuthzDocsPage from "./pages/docs/AuthzDocsPage";
 import NotFound from "./pages/NotFound";
 import AuthPage from "./pages/AuthPage";
 import ResetPasswordPage from "./pages/ResetPasswordPage";
+import QuestionnaireFillPage from "./pages/QuestionnaireFillPage";
 import { AuthzProvider } from "./contexts/AuthzContext";
 import ProtectedRoute from "./components/authz/ProtectedRoute";
 import AdminUsersPage from "./pages/admin/AdminUsersPage";
@@ -36,6 +38,7 @@ import AdminRolesPage from "./pages/admin/AdminRolesPage";
 import AdminPoliciesPage from "./pages/admin/AdminPoliciesPage";
 import AdminAuditPage from "./pages/admin/AdminAuditPage";
 import AdminRoleTemplatesPage from "./pages/admin/AdminRoleTemplatesPage";
+import AdminCalendarsPage from "./pages/admin/AdminCalendarsPage";
 import AdminLayout from "./pages/admin/AdminLayout";
 
 const queryClient = new QueryClient();
@@ -50,6 +53,7 @@ const App = () => (
           <Routes>
             <Route path="/auth" element={<AuthPage />} />
             <Route path="/reset-password" element={<ResetPasswordPage />} />
+            <Route path="/fill/:flowId" element={<QuestionnaireFillPage />} />
             <Route element={<ProtectedRoute><AppLayout /></ProtectedRoute>}>
               <Route path="/" element={<ProtectedRoute perm="navigation.view.dashboard"><Landing /></ProtectedRoute>} />
               <Route path="/create" element={<ProtectedRoute perm="workflow.create"><CreateWorkflowWizard /></ProtectedRoute>} />
@@ -59,6 +63,7 @@ const App = () => (
               <Route path="/studio/module-config" element={<ProtectedRoute perm="workflow.update"><ModuleConfigPage /></ProtectedRoute>} />
               <Route path="/templates" element={<ProtectedRoute perm="navigation.view.templates"><AllTemplates /></ProtectedRoute>} />
               <Route path="/workflows" element={<ProtectedRoute perm="navigation.view.workflowStudio"><AllWorkflows /></ProtectedRoute>} />
+              <Route path="/workflows/:workflowId/history" element={<ProtectedRoute perm="navigation.view.workflowStudio"><WorkflowHistoryPage /></ProtectedRoute>} />
               <Route path="/profile" element={<ProfilePage />} />
               <Route path="/docs" element={<TechDocsPage />} />
               <Route path="/docs/form-builder" element={<FormBuilderDocsPage />} />
@@ -79,6 +84,7 @@ const App = () => (
                 <Route path="roles" element={<AdminRolesPage />} />
                 <Route path="policies" element={<AdminPoliciesPage />} />
                 <Route path="role-templates" element={<AdminRoleTemplatesPage />} />
+                <Route path="calendars" element={<AdminCalendarsPage />} />
                 <Route path="audit" element={<AdminAuditPage />} />
               </Route>
             </Route>
@@ -2,8 +2,10 @@
  * FlowGraphView – ReactFlow-based visual flowchart for the questionnaire.
  * Shows question nodes, branching edges (with option labels), converging paths,
  * subprocess references, and entry-point markers. Click a node to select it.
+ * Flow analysis issues (loops, unreachable and dead-end questions, unrouted options)
+ * are marked on the nodes, and the shortest or longest path can be highlighted.
  */
-import { useMemo, useCallback } from "react";
+import { useMemo, useCallback, useEffect, useState } from "react";
 import ReactFlow, {
   Node,
   Edge,
@@ -23,9 +25,10 @@ import { memo } from "react";
 import { Handle } from "reactflow";
 import {
   Flag, List, CircleDot, Type, AlignLeft, Calendar, CheckSquare,
-  Hash, FileUp, GitBranch, ExternalLink,
+  Hash, FileUp, GitBranch, ExternalLink, Repeat, EyeOff, OctagonX, Route,
 } from "lucide-react";
 import type { QuestionType } from "@/types/questionnaire";
+import { analyzeFlow, type FlowAnalysis, type FlowIssueKind, type FlowPath } from "@/lib/questionnaire/flowAnalysis";
 
 /* ─── Custom Node Components ─── */
 
@@ -48,14 +51,31 @@ interface QuestionNodeData {
   optionCount: number;
   branchCount: number;
   mandatory: boolean;
+  /** Flow analysis findings on this question */
+  issues: FlowIssueKind[];
+  unroutedCount: number;
+  onPath: boolean;
+}
+
+const ISSUE_BADGES: Partial<Record<FlowIssueKind, { label: string; className: string; icon: React.ReactNode }>> = {
+  endlessLoop: { label: "Endless loop", className: "bg-destructive/10 text-destructive", icon: <Repeat size={8} /> },
+  loop: { label: "Loop", className: "bg-amber-500/10 text-amber-700", icon: <Repeat size={8} /> },
+  deadEnd: { label: "Dead end", className: "bg-destructive/10 text-destructive", icon: <OctagonX size={8} /> },
+  unreachable: { label: "Unreachable", className: "bg-muted text-muted-foreground", icon: <EyeOff size={8} /> },
+};
+
+function questionBorder(data: QuestionNodeData): string {
+  if (data.isSelected) return "border-primary bg-primary/5 shadow-md shadow-primary/10";
+  if (data.issues.includes("endlessLoop") || data.issues.includes("deadEnd")) return "border-destructive/70 bg-destructive/5";
+  if (data.issues.includes("loop")) return "border-amber-500/70 bg-card";
+  if (data.onPath) return "border-primary/70 bg-card ring-2 ring-primary/20";
+  return "border-border bg-card hover:border-primary/40";
 }
 
 const QuestionNode = memo(({ data }: { data: QuestionNodeData }) => (
   <div
-    className={`rounded-lg border-2 px-3 py-2 min-w-[180px] max-w-[220px] shadow-sm transition-all ${
-      data.isSelected
-        ? "border-primary bg-primary/5 shadow-md shadow-primary/10"
-        : "border-border bg-card hover:border-primary/40"
+    className={`rounded-lg border-2 px-3 py-2 min-w-[180px] max-w-[220px] shadow-sm transition-all ${questionBorder(data)} ${
+      data.issues.includes("unreachable") ? "border-dashed opacity-60" : ""
     }`}
   >
     <Handle type="target" position={Position.Top} className="!w-2 !h-2 !bg-primary/40 !border-primary/60" />
@@ -68,6 +88,23 @@ const QuestionNode = memo(({ data }: { data: QuestionNodeData }) => (
       )}
     </div>
     <div className="text-[11px] font-medium text-foreground leading-tight truncate">{data.label || "Untitled"}</div>
+    {(data.issues.length > 0 || data.unroutedCount > 0) && (
+      <div className="flex items-center gap-1 flex-wrap mt-1">
+        {data.issues.map((kind) => {
+          const badge = ISSUE_BADGES[kind];
+          return badge && (
+            <span key={kind} className={`flex items-center gap-0.5 text-[8px] px-1 py-0 rounded ${badge.className}`}>
+              {badge.icon} {badge.label}
+            </span>
+          );
+        })}
+        {data.unroutedCount > 0 && (
+          <span className="text-[8px] px-1 py-0 rounded bg-amber-500/10 text-amber-700">
+            {data.unroutedCount} unrouted option{data.unroutedCount !== 1 ? "s" : ""}
+          </span>
+        )}
+      </div>
+    )}
     {(data.optionCount > 0 || data.branchCount > 0) && (
       <div className="flex items-center gap-2 mt-1 text-[9px] text-muted-foreground">
         {data.optionCount > 0 && <span>{data.optionCount} opt{data.optionCount !== 1 ? "s" : ""}</span>}
@@ -225,6 +262,9 @@ function layoutGraph(
         optionCount: q.options.length,
         branchCount,
         mandatory: q.mandatory === "True",
+        issues: [],
+        unroutedCount: 0,
+        onPath: false,
       } as QuestionNodeData,
     });
     nodeIds.add(q.questionId);
@@ -279,6 +319,7 @@ function layoutGraph(
         id: `${q.questionId}-${optId}-${targetId}`,
         source: q.questionId,
         target: targetId,
+        data: { optionIds: [optId] } as EdgeData,
         label: edgeLabel,
         type: "smoothstep",
         animated: branch.nextEntityType === "subprocess",
@@ -302,6 +343,77 @@ function layoutGraph(
   return { nodes, edges };
 }
 
+interface EdgeData {
+  /** Options the edge stands for; null for a question without options */
+  optionIds: (string | null)[];
+}
+
+/**
+ * Adds the fall-through routes the analysis follows (questions without options, options
+ * without a branch) as dotted edges, and marks issues and the highlighted path.
+ */
+function decorateGraph(
+  graph: { nodes: Node[]; edges: Edge[] },
+  analysis: FlowAnalysis,
+  path: FlowPath | null,
+): { nodes: Node[]; edges: Edge[] } {
+  const issuesOf = new Map<string, FlowIssueKind[]>();
+  const unrouted = new Map<string, number>();
+  for (const issue of analysis.issues) {
+    for (const id of issue.questionIds) {
+      if (issue.kind === "unroutedOption") unrouted.set(id, (unrouted.get(id) ?? 0) + 1);
+      else issuesOf.set(id, [...(issuesOf.get(id) ?? []), issue.kind]);
+    }
+  }
+  const loopOf = new Map<string, { index: number; endless: boolean }>();
+  analysis.loops.forEach((loop, index) => {
+    const endless = analysis.issues.some((i) => i.kind === "endlessLoop" && i.questionIds[0] === loop[0]);
+    for (const id of loop) loopOf.set(id, { index, endless });
+  });
+  const onPath = new Set(path?.questionIds ?? []);
+  const pathSteps = new Set(path?.questionIds.map((id, i) => `${id}|${path.optionIds[i] ?? ""}`) ?? []);
+
+  const implicit = new Map<string, Edge>();
+  for (const r of analysis.routes) {
+    if (!r.implicit || r.to.type !== "question") continue;
+    const key = `${r.from}->${r.to.id}`;
+    const existing = implicit.get(key);
+    if (existing) {
+      (existing.data as EdgeData).optionIds.push(r.optionId);
+      continue;
+    }
+    implicit.set(key, {
+      id: `${r.from}-next-${r.to.id}`,
+      source: r.from,
+      target: r.to.id,
+      data: { optionIds: [r.optionId] } as EdgeData,
+      type: "smoothstep",
+      style: { stroke: "hsl(var(--muted-foreground) / 0.5)", strokeWidth: 1, strokeDasharray: "3 3" },
+      markerEnd: { type: MarkerType.ArrowClosed, width: 10, height: 10 },
+    });
+  }
+
+  const edges = [...graph.edges, ...implicit.values()].map((e) => {
+    const data = e.data as EdgeData | undefined;
+    const highlighted = !!data?.optionIds.some((opt) => pathSteps.has(`${e.source}|${opt ?? ""}`))
+      && (onPath.has(e.target) || path?.questionIds[path.questionIds.length - 1] === e.source);
+    const fromLoop = loopOf.get(e.source);
+    const inLoop = !!fromLoop && loopOf.get(e.target)?.index === fromLoop.index;
+    if (highlighted) return { ...e, animated: true, style: { ...e.style, stroke: "hsl(var(--primary))", strokeWidth: 2.5 } };
+    if (inLoop) return { ...e, style: { ...e.style, stroke: fromLoop.endless ? "hsl(var(--destructive))" : "#f59e0b", strokeWidth: 2 } };
+    return e;
+  });
+
+  const nodes = graph.nodes.map((n) => n.type === "question"
+    ? { ...n, data: { ...n.data, issues: issuesOf.get(n.id) ?? [], unroutedCount: unrouted.get(n.id) ?? 0, onPath: onPath.has(n.id) } }
+    : n);
+  return { nodes, edges };
+}
+
+function pathLength(path: FlowPath | null): string {
+  return path ? `${path.questionIds.length} question${path.questionIds.length !== 1 ? "s" : ""}` : "—";
+}
+
 /* ─── Main Component ─── */
 
 interface FlowGraphViewProps {
@@ -311,9 +423,12 @@ interface FlowGraphViewProps {
 
 export default function FlowGraphView({ onSelectQuestion, selectedQuestionId }: FlowGraphViewProps) {
   const { questions, flow } = useQuestionnaireStore();
+  const [highlight, setHighlight] = useState<"shortest" | "longest" | null>(null);
+
+  const analysis = useMemo(() => analyzeFlow(questions, flow.firstQuestions), [questions, flow.firstQuestions]);
 
   const { nodes: initialNodes, edges: initialEdges } = useMemo(() => {
-    const result = layoutGraph(questions, flow.firstQuestions);
+    const result = decorateGraph(layoutGraph(questions, flow.firstQuestions), analysis, highlight ? analysis[highlight] : null);
     // Mark selected node
     return {
       nodes: result.nodes.map((n) => {
@@ -324,10 +439,20 @@ export default function FlowGraphView({ onSelectQuestion, selectedQuestionId }:
       }),
       edges: result.edges,
     };
-  }, [questions, flow.firstQuestions, selectedQuestionId]);
+  }, [questions, flow.firstQuestions, selectedQuestionId, analysis, highlight]);
+
+  const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+
+  // The state hooks only take their initial value; follow edits, selection and highlighting
+  useEffect(() => setNodes(initialNodes), [initialNodes, setNodes]);
+  useEffect(() => setEdges(initialEdges), [initialEdges, setEdges]);
 
-  const [nodes, , onNodesChange] = useNodesState(initialNodes);
-  const [edges, , onEdgesChange] = useEdgesState(initialEdges);
+  const issueCounts = useMemo(() => {
+    const counts: Partial<Record<FlowIssueKind, number>> = {};
+    for (const i of analysis.issues) counts[i.kind] = (counts[i.kind] ?? 0) + 1;
+    return counts;
+  }, [analysis]);
 
   const onNodeClick = useCallback(
     (_: React.MouseEvent, node: Node) => {
@@ -361,7 +486,7 @@ export default function FlowGraphView({ onSelectQuestion, selectedQuestionId }:
   return (
     <div className="flex-1 flex flex-col h-full">
       {/* Stats bar */}
-      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-border bg-card text-[10px] text-muted-foreground">
+      <div className="flex items-center flex-wrap gap-x-3 gap-y-1 px-3 py-1.5 border-b border-border bg-card text-[10px] text-muted-foreground">
         <span>{initialNodes.filter((n) => n.type === "question").length} questions</span>
         <span>{initialEdges.length} connections</span>
         {convergingCount > 0 && (
@@ -370,6 +495,26 @@ export default function FlowGraphView({ onSelectQuestion, selectedQuestionId }:
         {subprocessCount > 0 && (
           <span className="text-amber-600 font-medium">{subprocessCount} subprocess{subprocessCount !== 1 ? "es" : ""}</span>
         )}
+        <span className="w-px h-3 bg-border" />
+        <span className="flex items-center gap-0.5"><Route size={10} /> {analysis.pathCount.toLocaleString()} path{analysis.pathCount !== 1 ? "s" : ""} to an end</span>
+        {(["shortest", "longest"] as const).map((which) => (
+          <button
+            key={which}
+            disabled={!analysis[which]}
+            onClick={() => setHighlight((h) => (h === which ? null : which))}
+            className={`px-1.5 py-0.5 rounded transition-colors disabled:opacity-50 ${
+              highlight === which ? "bg-primary text-primary-foreground" : "hover:bg-muted hover:text-foreground"
+            }`}
+            title={analysis[which] ? analysis[which]!.questionIds.join(" → ") : "No path reaches an end"}
+          >
+            {which} {pathLength(analysis[which])}
+          </button>
+        ))}
+        {(issueCounts.endlessLoop ?? 0) > 0 && <span className="text-destructive font-medium">{issueCounts.endlessLoop} endless loop{issueCounts.endlessLoop !== 1 ? "s" : ""}</span>}
+        {(issueCounts.loop ?? 0) > 0 && <span className="text-amber-600 font-medium">{issueCounts.loop} loop{issueCounts.loop !== 1 ? "s" : ""}</span>}
+        {(issueCounts.deadEnd ?? 0) > 0 && <span className="text-destructive font-medium">{issueCounts.deadEnd} dead end{issueCounts.deadEnd !== 1 ? "s" : ""}</span>}
+        {(issueCounts.unreachable ?? 0) > 0 && <span className="font-medium">{issueCounts.unreachable} unreachable</span>}
+        {(issueCounts.unroutedOption ?? 0) > 0 && <span className="text-amber-600 font-medium">{issueCounts.unroutedOption} unrouted option{issueCounts.unroutedOption !== 1 ? "s" : ""}</span>}
       </div>
 
       <div className="flex-1">
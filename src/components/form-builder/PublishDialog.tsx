@@ -0,0 +1,153 @@
+/**
+ * PublishDialog – Publishes the questionnaire for respondents at /fill/:flowId, optionally
+ * starting a process instance with every submission, and archives it again.
+ */
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Archive, Check, Copy, Globe, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import { useQuestionnaireStore } from "@/stores/questionnaireStore";
+import { usePublishedQuestionnaires } from "@/stores/publishedQuestionnaireStore";
+import { fillUrl } from "@/lib/questionnaire/fillApi";
+
+interface PublishDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function PublishDialog({ open, onOpenChange }: PublishDialogProps) {
+  const { flow, validate, exportDocument, setFlowField } = useQuestionnaireStore();
+  const { questionnaires, load, publish, archive } = usePublishedQuestionnaires();
+  const [startProcessKey, setStartProcessKey] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const flowId = flow.flowId.trim();
+  const published = questionnaires.find((q) => q.flowId === flowId);
+  const issues = open ? validate() : [];
+  const errors = issues.filter((i) => i.type === "error");
+  const warnings = issues.length - errors.length;
+  const link = flowId ? fillUrl(flowId) : "";
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  useEffect(() => {
+    setStartProcessKey(published?.startProcessKey ?? "");
+  }, [published?.startProcessKey]);
+
+  const handlePublish = async () => {
+    setBusy(true);
+    try {
+      const result = await publish(exportDocument(), startProcessKey);
+      setFlowField("status", "Published");
+      toast.success(`Published version ${result.version} of ${result.name}`);
+    } catch (err) {
+      console.error("Publishing the questionnaire failed", err);
+      toast.error(err instanceof Error ? err.message : "Could not publish the questionnaire");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!confirm(`Stop accepting answers for ${flowId}? Saved answers and submissions are kept.`)) return;
+    setBusy(true);
+    try {
+      await archive(flowId);
+      setFlowField("status", "Archived");
+      toast.success(`${flowId} no longer accepts answers`);
+    } catch (err) {
+      console.error("Archiving the questionnaire failed", err);
+      toast.error(err instanceof Error ? err.message : "Could not archive the questionnaire");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Globe size={18} /> Publish Questionnaire</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can fill in a published questionnaire. Answers are saved as they go and can be resumed later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-[12px]">
+          <div className="flex items-center gap-2">
+            <span className="font-mono">{flowId || "—"}</span>
+            {published && (
+              <Badge variant={published.status === "Published" ? "secondary" : "outline"} className="text-[10px]">
+                {published.status} · v{published.version}
+              </Badge>
+            )}
+          </div>
+
+          {errors.length > 0 ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 space-y-1">
+              <p className="font-medium text-destructive">Fix {errors.length} error(s) before publishing:</p>
+              {errors.slice(0, 5).map((e, i) => <p key={i} className="text-[11px] text-destructive">{e.message}</p>)}
+            </div>
+          ) : warnings > 0 && (
+            <p className="text-[11px] text-amber-600">{warnings} warning(s) – see Validate for details.</p>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-[11px]">Start process (optional)</Label>
+            <Input
+              className="h-8 text-[12px] font-mono"
+              value={startProcessKey}
+              onChange={(e) => setStartProcessKey(e.target.value)}
+              placeholder="Process definition key, e.g. loan-application"
+            />
+            <p className="text-[10px] text-muted-foreground">
+              Each submission starts an instance of this process with the answers as variables.
+              Leave empty to only record submissions. Answers given for a user task complete that task instead.
+            </p>
+          </div>
+
+          {published?.status === "Published" && (
+            <div className="space-y-1">
+              <Label className="text-[11px]">Fill-in link</Label>
+              <div className="flex items-center gap-1">
+                <Input className="h-8 text-[11px] font-mono" value={link} readOnly />
+                <Button variant="outline" size="icon" className="h-8 w-8 flex-shrink-0" onClick={handleCopy} title="Copy link">
+                  {copied ? <Check size={14} /> : <Copy size={14} />}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <div>
+            {published?.status === "Published" && (
+              <Button variant="outline" size="sm" className="text-[12px]" onClick={handleArchive} disabled={busy}>
+                <Archive size={14} className="mr-1" /> Archive
+              </Button>
+            )}
+          </div>
+          <Button size="sm" className="text-[12px]" onClick={handlePublish} disabled={busy || !flowId || errors.length > 0}>
+            {busy ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Globe size={14} className="mr-1" />}
+            {published ? "Republish" : "Publish"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -35,7 +35,10 @@ import {
   CheckSquare,
   Hash,
   FileUp,
+  Eye,
+  Sigma,
 } from "lucide-react";
+import { hasLogic, ruleProblems } from "@/lib/questionnaire/logic";
 import type { Question, QuestionType, OptionBranch } from "@/types/questionnaire";
 
 const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
@@ -96,6 +99,7 @@ export default function QuestionCard({
   } = useQuestionnaireStore();
 
   const [advancedOpen, setAdvancedOpen] = useState(false);
+  const [logicOpen, setLogicOpen] = useState(() => hasLogic(question));
 
   const isEntry = flow.firstQuestions.includes(question.questionId);
   const showOptions = HAS_OPTIONS.includes(question.questionType);
@@ -126,6 +130,16 @@ export default function QuestionCard({
             <GitBranch size={9} className="mr-0.5" /> {branchCount}
           </Badge>
         )}
+        {question.visibleWhen?.trim() && (
+          <Badge variant="outline" className="text-[9px] px-1.5 h-4 flex-shrink-0" title={`Shown when ${question.visibleWhen}`}>
+            <Eye size={9} />
+          </Badge>
+        )}
+        {question.computedValue?.trim() && (
+          <Badge variant="outline" className="text-[9px] px-1.5 h-4 flex-shrink-0" title={`Computed: ${question.computedValue}`}>
+            <Sigma size={9} />
+          </Badge>
+        )}
         <ChevronRight size={14} className="text-muted-foreground flex-shrink-0" />
       </div>
     );
@@ -243,6 +257,39 @@ export default function QuestionCard({
           />
         )}
 
+        {/* Show-when condition + computed value */}
+        <Collapsible open={logicOpen} onOpenChange={setLogicOpen}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 text-[11px] text-muted-foreground w-full justify-start">
+              <Eye size={12} className="mr-1.5" />
+              Logic
+              {logicOpen ? <ChevronDown size={12} className="ml-auto" /> : <ChevronRight size={12} className="ml-auto" />}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-2.5 pt-2">
+            <LogicField
+              label="Show when"
+              value={question.visibleWhen ?? ""}
+              onChange={(v) => updateQuestion(question.questionId, { visibleWhen: v })}
+              placeholder='e.g., Q002 = "Yes" and Q004 > 10000'
+              questions={questions}
+              index={index}
+            />
+            <LogicField
+              label="Computed value (makes the question read-only)"
+              value={question.computedValue ?? ""}
+              onChange={(v) => updateQuestion(question.questionId, { computedValue: v })}
+              placeholder="e.g., Q004 * 12"
+              questions={questions}
+              index={index}
+            />
+            <p className="text-[10px] text-muted-foreground">
+              FEEL over earlier answers by question ID
+              {index > 0 ? `: ${questions.slice(0, index).map((q) => q.questionId).join(", ")}` : " – this is the first question"}
+            </p>
+          </CollapsibleContent>
+        </Collapsible>
+
         {/* Advanced fields toggle */}
         <Collapsible open={advancedOpen} onOpenChange={setAdvancedOpen}>
           <CollapsibleTrigger asChild>
@@ -314,6 +361,41 @@ export default function QuestionCard({
   );
 }
 
+/* ── Logic rule field ── */
+function LogicField({
+  label,
+  value,
+  onChange,
+  placeholder,
+  questions,
+  index,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  placeholder: string;
+  questions: Question[];
+  index: number;
+}) {
+  const problems = ruleProblems(questions, index, value);
+  return (
+    <div>
+      <Label className="text-[11px] text-muted-foreground">{label}</Label>
+      <Input
+        className="h-7 text-[11px] mt-1 font-mono"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+      />
+      {problems.map((p) => (
+        <p key={p.message} className={`text-[10px] mt-0.5 ${p.severity === "error" ? "text-destructive" : "text-amber-600"}`}>
+          {p.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
 /* ── Options sub-component ── */
 function OptionsPanel({
   question,
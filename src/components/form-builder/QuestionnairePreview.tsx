@@ -1,17 +1,26 @@
 /**
  * QuestionnairePreview – Step-by-step form preview with branching navigation & progress.
  * Page 1 always shows ALL firstQuestions together. Subsequent pages follow branching logic.
+ * Questions whose show-when condition is false are hidden and skipped; computed questions
+ * show their live value read-only. The language switch shows the translated texts; answers
+ * keep the source option labels so branching and logic work the same in every language.
+ *
+ * The public fill-in page runs the same component on a published questionnaire: it passes
+ * the saved answers and progress in, saves on every change and submits at the end.
  */
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import {
   ChevronLeft, ChevronRight, RotateCcw, CheckCircle2, Circle,
-  ChevronDown, Type, Hash, Calendar, Upload, List,
+  ChevronDown, Type, Hash, Calendar, Upload, List, Sigma, Send, Loader2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { useQuestionnaireStore } from "@/stores/questionnaireStore";
-import type { Question, QuestionType } from "@/types/questionnaire";
+import { evaluateLogic, formatLogicValue, type Answers } from "@/lib/questionnaire/logic";
+import { localizeQuestion, sourceLocale } from "@/lib/questionnaire/translations";
+import type { FillProblem, FillProgress } from "@/lib/questionnaire/fillApi";
+import type { Flow, Question, QuestionOption, QuestionType } from "@/types/questionnaire";
 
 const TYPE_ICONS: Record<QuestionType, React.ReactNode> = {
   Dropdown: <ChevronDown size={14} />,
@@ -27,13 +36,47 @@ const TYPE_ICONS: Record<QuestionType, React.ReactNode> = {
 /** Each page holds one or more questionIds displayed together */
 interface PreviewState {
   pages: string[][]; // pages[0] = firstQuestions, pages[1+] = single-question pages from branching
-  answers: Record<string, string | string[]>;
+  // pending[i] = branch targets still to visit after page i, when a page leads to several
+  pending: string[][];
+  answers: Answers;
   currentPage: number;
   completed: boolean;
 }
 
-export default function QuestionnairePreview() {
-  const { questions, flow } = useQuestionnaireStore();
+interface QuestionnairePreviewProps {
+  /** The questionnaire to run; defaults to the one open in the builder */
+  source?: { flow: Flow; questions: Question[] };
+  /** Saved answers and position to resume from */
+  initial?: { answers: Answers; progress?: Partial<FillProgress>; locale?: string | null };
+  /** Called on every answer, page change and language change */
+  onChange?: (snapshot: { answers: Answers; progress: FillProgress; locale: string | null }) => void;
+  /** Turns the preview into a real run: the completion page submits the answers on the path */
+  onSubmit?: (submission: { answers: Answers; path: string[]; locale: string | null }) => void;
+  submitting?: boolean;
+  /** Findings of a rejected submission */
+  problems?: FillProblem[];
+}
+
+const isBlank = (a: string | string[] | undefined) => a === undefined || (Array.isArray(a) ? a.length === 0 : a.trim() === "");
+
+/** Saved progress, if it still fits the questionnaire */
+function restoredState(progress: Partial<FillProgress> | undefined, answers: Answers, known: Set<string>): PreviewState | null {
+  const pages = progress?.pages;
+  if (!Array.isArray(pages) || pages.length === 0) return null;
+  if (!pages.every((p) => Array.isArray(p) && p.length > 0 && p.every((id) => known.has(id)))) return null;
+  const pending = pages.map((_, i) => (progress?.pending?.[i] ?? []).filter((id) => known.has(id)));
+  const currentPage = Math.min(Math.max(0, Number(progress?.currentPage) || 0), pages.length - 1);
+  return { pages, pending, answers, currentPage, completed: false };
+}
+
+export default function QuestionnairePreview({ source, initial, onChange, onSubmit, submitting, problems = [] }: QuestionnairePreviewProps) {
+  const store = useQuestionnaireStore();
+  const questions = source?.questions ?? store.questions;
+  const flow = source?.flow ?? store.flow;
+  const locales = flow.locales ?? [];
+  /** Null shows the source texts */
+  const [locale, setLocale] = useState<string | null>(initial?.locale ?? null);
+  const activeLocale = locale && locales.includes(locale) ? locale : null;
 
   const questionMap = useMemo(() => {
     const m = new Map<string, Question>();
@@ -48,15 +91,57 @@ export default function QuestionnairePreview() {
       ? [questions[0].questionId]
       : [];
 
-  const [state, setState] = useState<PreviewState>({
-    pages: firstPage.length > 0 ? [firstPage] : [],
-    answers: {},
-    currentPage: 0,
-    completed: false,
-  });
+  const [state, setState] = useState<PreviewState>(() =>
+    restoredState(initial?.progress, initial?.answers ?? {}, new Set(questionMap.keys())) ?? {
+      pages: firstPage.length > 0 ? [firstPage] : [],
+      pending: firstPage.length > 0 ? [[]] : [],
+      answers: initial?.answers ?? {},
+      currentPage: 0,
+      completed: false,
+    });
+  // Required questions left blank on the current page, shown after a Next attempt
+  const [unanswered, setUnanswered] = useState<Set<string>>(new Set());
 
   const currentPageQIds = state.pages[state.currentPage] ?? [];
 
+  useEffect(() => {
+    onChange?.({
+      answers: state.answers,
+      progress: { pages: state.pages, pending: state.pending, currentPage: state.currentPage },
+      locale: activeLocale,
+    });
+  }, [onChange, state, activeLocale]);
+
+  /** Translated option label of a source option */
+  const optionLabel = useCallback(
+    (q: Question, opt: QuestionOption) => localizeQuestion(q, activeLocale).options.find((o) => o.id === opt.id)?.display || opt.id,
+    [activeLocale],
+  );
+
+  /** An answer as the respondent saw it: option answers in the preview language */
+  const displayAnswer = useCallback(
+    (q: Question, ans: string | string[]): string => {
+      const one = (v: string) => {
+        const opt = q.options.find((o) => o.display === v);
+        return opt ? optionLabel(q, opt) : v;
+      };
+      return Array.isArray(ans) ? ans.map(one).join(", ") : one(ans);
+    },
+    [optionLabel],
+  );
+
+  const logic = useMemo(() => evaluateLogic(questions, state.answers), [questions, state.answers]);
+
+  /** The answer a question routes by: its computed value, nothing when hidden */
+  const routingAnswer = useCallback(
+    (q: Question): string | string[] => {
+      if (logic.hidden.has(q.questionId)) return "";
+      if (q.computedValue?.trim()) return formatLogicValue(logic.values[q.questionId]);
+      return state.answers[q.questionId] ?? "";
+    },
+    [logic, state.answers],
+  );
+
   /** Resolve next question for a single question based on its answer */
   const resolveNextForQuestion = useCallback(
     (question: Question, answer: string | string[]): string | null => {
@@ -69,7 +154,8 @@ export default function QuestionnairePreview() {
         if (opt) {
           const branch = branches[opt.id];
           if (branch) {
-            if (branch.nextEntityType === "end") return "__end__";
+            // A subprocess takes over from the questionnaire, so it ends it like an end does
+            if (branch.nextEntityType === "end" || branch.nextEntityType === "subprocess") return "__end__";
             if (branch.nextEntityType === "question" && branch.targetId) return branch.targetId;
           }
         }
@@ -83,53 +169,82 @@ export default function QuestionnairePreview() {
     [questions],
   );
 
+  /** Hidden questions are skipped: continue where they would lead without an answer */
+  const skipHidden = useCallback(
+    (id: string | null): string | null => {
+      let nextId = id;
+      const skipped = new Set<string>();
+      while (nextId && logic.hidden.has(nextId) && !skipped.has(nextId)) {
+        skipped.add(nextId);
+        const hiddenQ = questionMap.get(nextId);
+        nextId = hiddenQ ? resolveNextForQuestion(hiddenQ, "") : null;
+      }
+      return nextId && logic.hidden.has(nextId) ? null : nextId;
+    },
+    [logic, questionMap, resolveNextForQuestion],
+  );
+
   const handleAnswer = useCallback(
     (questionId: string, value: string | string[]) => {
       setState((s) => ({
         ...s,
         answers: { ...s.answers, [questionId]: value },
       }));
+      setUnanswered((u) => {
+        if (!u.has(questionId)) return u;
+        const next = new Set(u);
+        next.delete(questionId);
+        return next;
+      });
     },
     [],
   );
 
   const handleNext = useCallback(() => {
-    // Collect all next targets from current page's questions
-    const nextIds = new Set<string>();
-    let hasEnd = false;
+    // A real run does not move on past required questions left blank
+    if (onSubmit) {
+      const blank = currentPageQIds.filter((id) => {
+        const q = questionMap.get(id);
+        return q && q.mandatory === "True" && !q.computedValue?.trim() && q.questionType !== "FileUpload"
+          && !logic.hidden.has(id) && isBlank(state.answers[id]);
+      });
+      setUnanswered(new Set(blank));
+      if (blank.length > 0) return;
+    }
 
+    // Next targets of the current page's questions first, then branches queued by earlier pages
+    const targets: string[] = [];
     for (const qId of currentPageQIds) {
       const q = questionMap.get(qId);
       if (!q) continue;
-      const answer = state.answers[qId] ?? "";
-      const nextId = resolveNextForQuestion(q, answer);
-      if (nextId === "__end__") hasEnd = true;
-      else if (nextId) nextIds.add(nextId);
+      const nextId = skipHidden(resolveNextForQuestion(q, routingAnswer(q)));
+      if (nextId && nextId !== "__end__") targets.push(nextId);
+    }
+    for (const qId of state.pending[state.currentPage] ?? []) {
+      const nextId = skipHidden(qId);
+      if (nextId && nextId !== "__end__") targets.push(nextId);
     }
 
-    // Remove any IDs already on the current page (avoid self-loops)
-    for (const qId of currentPageQIds) nextIds.delete(qId);
+    // Drop questions already visited (avoids loops) and duplicates
+    const visited = new Set(state.pages.slice(0, state.currentPage + 1).flat());
+    const queue = [...new Set(targets)].filter((id) => !visited.has(id));
 
-    if (nextIds.size === 0 || (hasEnd && nextIds.size === 0)) {
+    if (queue.length === 0) {
       setState((s) => ({ ...s, completed: true }));
       return;
     }
 
-    // Each next target becomes its own page (single question per page after the first)
-    const newPages: string[][] = [];
-    for (const id of nextIds) {
-      newPages.push([id]);
-    }
-
-    setState((s) => {
-      const trimmed = s.pages.slice(0, s.currentPage + 1);
-      // If multiple branches diverge, show first one; others queued
-      const combined = [...trimmed, ...newPages];
-      return { ...s, pages: combined, currentPage: trimmed.length };
-    });
-  }, [currentPageQIds, questionMap, state.answers, resolveNextForQuestion]);
+    // One question per page after the first; further branches wait their turn
+    setState((s) => ({
+      ...s,
+      pages: [...s.pages.slice(0, s.currentPage + 1), [queue[0]]],
+      pending: [...s.pending.slice(0, s.currentPage + 1), queue.slice(1)],
+      currentPage: s.currentPage + 1,
+    }));
+  }, [onSubmit, currentPageQIds, questionMap, logic, state, skipHidden, routingAnswer, resolveNextForQuestion]);
 
   const handleBack = useCallback(() => {
+    setUnanswered(new Set());
     setState((s) => {
       if (s.completed) return { ...s, completed: false };
       if (s.currentPage <= 0) return s;
@@ -138,8 +253,10 @@ export default function QuestionnairePreview() {
   }, []);
 
   const handleRestart = useCallback(() => {
+    setUnanswered(new Set());
     setState({
       pages: firstPage.length > 0 ? [firstPage] : [],
+      pending: firstPage.length > 0 ? [[]] : [],
       answers: {},
       currentPage: 0,
       completed: false,
@@ -171,7 +288,21 @@ export default function QuestionnairePreview() {
   }
 
   // Flatten all visited question IDs for the summary
-  const allVisitedQIds = state.pages.slice(0, state.currentPage + 1).flat();
+  const allVisitedQIds = state.pages.slice(0, state.currentPage + 1).flat().filter((id) => !logic.hidden.has(id));
+  const visiblePageQIds = currentPageQIds.filter((id) => !logic.hidden.has(id));
+  const problemsOf = (qId: string) => problems.filter((p) => p.questionId === qId);
+  const generalProblems = problems.filter((p) => !p.questionId || !allVisitedQIds.includes(p.questionId));
+
+  /** The answers on the visited path, computed values included */
+  const handleSubmit = () => {
+    const answers: Answers = {};
+    for (const qId of allVisitedQIds) {
+      const q = questionMap.get(qId);
+      const ans = q?.computedValue?.trim() ? formatLogicValue(logic.values[qId]) : state.answers[qId];
+      if (!isBlank(ans)) answers[qId] = ans!;
+    }
+    onSubmit?.({ answers, path: allVisitedQIds, locale: activeLocale });
+  };
 
   return (
     <div className="flex flex-col h-full">
@@ -182,7 +313,20 @@ export default function QuestionnairePreview() {
             Page {state.currentPage + 1} of ~{totalEstimate}
             {currentPageQIds.length > 1 && ` (${currentPageQIds.length} questions)`}
           </span>
-          <span>{progressPercent}%</span>
+          <span className="flex items-center gap-2">
+            {locales.length > 0 && (
+              <select
+                className="h-6 rounded border border-input bg-background px-1 text-xs text-foreground"
+                value={activeLocale ?? ""}
+                onChange={(e) => setLocale(e.target.value || null)}
+                title="Preview language"
+              >
+                <option value="">{sourceLocale(questions)}</option>
+                {locales.map((l) => <option key={l} value={l}>{l}</option>)}
+              </select>
+            )}
+            {progressPercent}%
+          </span>
         </div>
         <Progress value={progressPercent} className="h-2" />
         {/* Page dots */}
@@ -194,7 +338,7 @@ export default function QuestionnairePreview() {
             return (
               <button
                 key={i}
-                onClick={() => !state.completed && i <= state.currentPage && setState((s) => ({ ...s, currentPage: i }))}
+                onClick={() => i <= state.currentPage && setState((s) => ({ ...s, currentPage: i, completed: false }))}
                 className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium transition-colors ${
                   isCurrent
                     ? "bg-primary text-primary-foreground"
@@ -219,18 +363,33 @@ export default function QuestionnairePreview() {
             <CheckCircle2 size={48} className="text-primary" />
             <h3 className="text-lg font-semibold text-foreground">Form Complete</h3>
             <p className="text-sm text-muted-foreground text-center max-w-xs">
-              All questions have been answered. Review your answers below.
+              {onSubmit
+                ? "Review your answers below, then submit them."
+                : "All questions have been answered. Review your answers below."}
             </p>
+            {generalProblems.length > 0 && (
+              <div className="w-full max-w-md rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 space-y-1">
+                {generalProblems.map((p, i) => (
+                  <p key={i} className="text-xs text-destructive">{p.message}</p>
+                ))}
+              </div>
+            )}
             <div className="w-full max-w-md space-y-2 mt-4">
               {allVisitedQIds.map((qId) => {
                 const q = questionMap.get(qId);
-                const ans = state.answers[qId];
+                const shown = q ? localizeQuestion(q, activeLocale) : undefined;
+                const ans = q?.computedValue?.trim() ? formatLogicValue(logic.values[qId]) : state.answers[qId];
                 return (
-                  <div key={qId} className="flex justify-between items-start gap-3 text-sm border-b border-border pb-2">
-                    <span className="text-muted-foreground truncate max-w-[60%]">{q?.content || qId}</span>
-                    <span className="font-medium text-foreground text-right">
-                      {Array.isArray(ans) ? ans.join(", ") : ans || "—"}
-                    </span>
+                  <div key={qId} className="text-sm border-b border-border pb-2">
+                    <div className="flex justify-between items-start gap-3">
+                      <span className="text-muted-foreground truncate max-w-[60%]">{shown?.content || qId}</span>
+                      <span className="font-medium text-foreground text-right">
+                        {(q && ans ? displayAnswer(q, ans) : "") || "—"}
+                      </span>
+                    </div>
+                    {problemsOf(qId).map((p, i) => (
+                      <p key={i} className="text-xs text-destructive mt-1">{p.message}</p>
+                    ))}
                   </div>
                 );
               })}
@@ -238,9 +397,16 @@ export default function QuestionnairePreview() {
           </div>
         ) : (
           <div className="max-w-lg mx-auto space-y-8">
-            {currentPageQIds.map((qId) => {
+            {visiblePageQIds.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                The show-when conditions hide every question on this page. Continue with Next.
+              </p>
+            )}
+            {visiblePageQIds.map((qId) => {
               const question = questionMap.get(qId);
               if (!question) return null;
+              const computed = Boolean(question.computedValue?.trim());
+              const shown = localizeQuestion(question, activeLocale);
               return (
                 <div key={qId} className="space-y-4">
                   {/* Question header */}
@@ -248,22 +414,42 @@ export default function QuestionnairePreview() {
                     <div className="flex items-center gap-2">
                       <span className="text-muted-foreground">{TYPE_ICONS[question.questionType]}</span>
                       <Badge variant="outline" className="text-[9px]">{question.questionType}</Badge>
-                      {question.mandatory === "True" && (
+                      {question.mandatory === "True" && !computed && (
                         <Badge variant="destructive" className="text-[9px]">Required</Badge>
                       )}
+                      {computed && (
+                        <Badge variant="secondary" className="text-[9px]">Computed</Badge>
+                      )}
                     </div>
                     <h2 className="text-xl font-semibold text-foreground leading-tight">
-                      {question.content || "Untitled Question"}
+                      {shown.content || "Untitled Question"}
                     </h2>
-                    {question.contentAbstract && (
-                      <p className="text-sm text-muted-foreground">{question.contentAbstract}</p>
+                    {shown.contentAbstract && (
+                      <p className="text-sm text-muted-foreground">{shown.contentAbstract}</p>
                     )}
                   </div>
-                  <QuestionInput
-                    question={question}
-                    value={state.answers[qId]}
-                    onChange={(v) => handleAnswer(qId, v)}
-                  />
+                  {computed ? (
+                    <div className="flex items-center gap-2 w-full min-h-10 rounded-md border border-input bg-muted/40 px-3 py-2 text-sm text-foreground">
+                      <Sigma size={14} className="text-muted-foreground flex-shrink-0" />
+                      {formatLogicValue(logic.values[qId]) || <span className="text-muted-foreground">—</span>}
+                    </div>
+                  ) : (
+                    <QuestionInput
+                      question={question}
+                      value={state.answers[qId]}
+                      onChange={(v) => handleAnswer(qId, v)}
+                      optionLabel={(opt) => optionLabel(question, opt)}
+                    />
+                  )}
+                  {logic.errors[qId] && (
+                    <p className="text-xs text-destructive">{logic.errors[qId]}</p>
+                  )}
+                  {unanswered.has(qId) && (
+                    <p className="text-xs text-destructive">This question is required.</p>
+                  )}
+                  {problemsOf(qId).map((p, i) => (
+                    <p key={i} className="text-xs text-destructive">{p.message}</p>
+                  ))}
                 </div>
               );
             })}
@@ -277,25 +463,33 @@ export default function QuestionnairePreview() {
           variant="outline"
           size="sm"
           onClick={handleBack}
-          disabled={state.currentPage === 0 && !state.completed}
+          disabled={(state.currentPage === 0 && !state.completed) || submitting}
         >
           <ChevronLeft size={14} className="mr-1" /> Back
         </Button>
 
-        <Button variant="ghost" size="sm" onClick={handleRestart} className="text-muted-foreground">
-          <RotateCcw size={14} className="mr-1" /> Restart
-        </Button>
+        {!onSubmit && (
+          <Button variant="ghost" size="sm" onClick={handleRestart} className="text-muted-foreground">
+            <RotateCcw size={14} className="mr-1" /> Restart
+          </Button>
+        )}
 
         {!state.completed && (
           <Button size="sm" onClick={handleNext}>
             Next <ChevronRight size={14} className="ml-1" />
           </Button>
         )}
-        {state.completed && (
+        {state.completed && !onSubmit && (
           <Button size="sm" variant="outline" onClick={handleRestart}>
             Start Over
           </Button>
         )}
+        {state.completed && onSubmit && (
+          <Button size="sm" onClick={handleSubmit} disabled={submitting}>
+            {submitting ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Send size={14} className="mr-1" />}
+            Submit
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -306,10 +500,13 @@ function QuestionInput({
   question,
   value,
   onChange,
+  optionLabel,
 }: {
   question: Question;
   value?: string | string[];
   onChange: (v: string | string[]) => void;
+  /** Option text in the preview language; the answer stays the source label */
+  optionLabel: (opt: QuestionOption) => string;
 }) {
   const strVal = (typeof value === "string" ? value : "") ?? "";
   const arrVal = Array.isArray(value) ? value : [];
@@ -324,7 +521,7 @@ function QuestionInput({
         >
           <option value="">— Select an option —</option>
           {question.options.map((opt) => (
-            <option key={opt.id} value={opt.display}>{opt.display || opt.id}</option>
+            <option key={opt.id} value={opt.display}>{optionLabel(opt)}</option>
           ))}
         </select>
       );
@@ -348,7 +545,7 @@ function QuestionInput({
                 onChange={() => onChange(opt.display)}
                 className="accent-primary"
               />
-              <span className="text-sm text-foreground">{opt.display || opt.id}</span>
+              <span className="text-sm text-foreground">{optionLabel(opt)}</span>
             </label>
           ))}
         </div>
@@ -374,7 +571,7 @@ function QuestionInput({
                   }
                   className="accent-primary"
                 />
-                <span className="text-sm text-foreground">{opt.display || opt.id}</span>
+                <span className="text-sm text-foreground">{optionLabel(opt)}</span>
               </label>
             );
           })}
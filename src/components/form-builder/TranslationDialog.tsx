@@ -0,0 +1,237 @@
+/**
+ * TranslationDialog – Side-by-side translation grid for the questionnaire's locales with a
+ * missing-translation report and CSV / XLIFF export and import for external translators.
+ */
+import { useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Download, Languages, Plus, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { useQuestionnaireStore } from "@/stores/questionnaireStore";
+import {
+  getTranslation,
+  missingTranslations,
+  normalizeLocale,
+  sourceLocale,
+  translationUnits,
+  translationsFromCsv,
+  translationsFromXliff,
+  translationsToCsv,
+  translationsToXliff,
+} from "@/lib/questionnaire/translations";
+
+function languageName(locale: string): string {
+  try {
+    return new Intl.DisplayNames([navigator.language], { type: "language" }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+}
+
+function download(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+interface TranslationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function TranslationDialog({ open, onOpenChange }: TranslationDialogProps) {
+  const { flow, questions, addLocale, removeLocale, setTranslation, importTranslations } = useQuestionnaireStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [newLocale, setNewLocale] = useState("");
+  // Keys that were missing when the filter was turned on, so rows stay put while typing
+  const [missingFilter, setMissingFilter] = useState<Set<string> | null>(null);
+  const [xliffLocale, setXliffLocale] = useState("");
+
+  const locales = useMemo(() => flow.locales ?? [], [flow.locales]);
+  const source = sourceLocale(questions);
+  const units = useMemo(() => translationUnits(questions), [questions]);
+  const questionMap = useMemo(() => new Map(questions.map((q) => [q.questionId, q])), [questions]);
+  const missing = useMemo(() => missingTranslations(questions, locales), [questions, locales]);
+  const missingKeys = useMemo(() => new Set(missing.map((m) => m.unit.key)), [missing]);
+  const rows = missingFilter ? units.filter((u) => missingFilter.has(u.key)) : units;
+  const fileBase = flow.flowId || "questionnaire";
+  const exportLocale = locales.includes(xliffLocale) ? xliffLocale : locales[0] ?? "";
+
+  const handleAddLocale = () => {
+    const locale = normalizeLocale(newLocale);
+    if (!locale) {
+      toast.error(`"${newLocale}" is not a locale such as de or fr-CA`);
+      return;
+    }
+    if (locale === source) {
+      toast.error(`${locale} is the source language`);
+      return;
+    }
+    addLocale(locale);
+    setNewLocale("");
+  };
+
+  const handleRemoveLocale = (locale: string) => {
+    if (!confirm(`Remove ${locale} and all its translations?`)) return;
+    removeLocale(locale);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const text = reader.result as string;
+        const imported = /\.csv$/i.test(file.name) ? translationsFromCsv(text) : translationsFromXliff(text);
+        const result = importTranslations(imported);
+        toast.success(`Imported ${result.applied} translation(s) for ${imported.locales.join(", ") || "no locale"}`);
+        if (result.unknown.length > 0) {
+          toast.warning(`${result.unknown.length} text(s) match no question or option`, { description: result.unknown.slice(0, 5).join(", ") });
+        }
+      } catch (err) {
+        console.error("Translation import failed", err);
+        toast.error(err instanceof Error ? err.message : "Could not read the translation file");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><Languages size={18} /> Translations</DialogTitle>
+          <DialogDescription>
+            Source language: {languageName(source)} ({source}). Untranslated texts fall back to the source text.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Locales + missing-translation report */}
+        <div className="flex items-center gap-2 flex-wrap">
+          {locales.map((locale) => {
+            const missingCount = missing.filter((m) => m.locale === locale).length;
+            const done = units.length === 0 ? 100 : Math.round(((units.length - missingCount) / units.length) * 100);
+            return (
+              <Badge key={locale} variant={missingCount === 0 ? "secondary" : "outline"} className="text-[11px] gap-1 pr-1" title={languageName(locale)}>
+                {locale} · {done}%{missingCount > 0 && ` (${missingCount} missing)`}
+                <button className="ml-0.5 hover:text-destructive" onClick={() => handleRemoveLocale(locale)} title={`Remove ${locale}`}>
+                  <X size={11} />
+                </button>
+              </Badge>
+            );
+          })}
+          <div className="flex items-center gap-1">
+            <Input
+              className="h-7 w-28 text-[11px] font-mono"
+              value={newLocale}
+              onChange={(e) => setNewLocale(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && newLocale.trim() && handleAddLocale()}
+              placeholder="e.g., de, fr-CA"
+            />
+            <Button variant="outline" size="sm" className="h-7 text-[11px]" onClick={handleAddLocale} disabled={!newLocale.trim()}>
+              <Plus size={11} className="mr-1" /> Add Language
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 text-[11px]">
+          <Checkbox
+            id="translations-only-missing"
+            checked={missingFilter !== null}
+            onCheckedChange={(v) => setMissingFilter(v === true ? missingKeys : null)}
+          />
+          <label htmlFor="translations-only-missing" className="cursor-pointer">Only texts with missing translations</label>
+          <span className="ml-auto text-muted-foreground">{rows.length} of {units.length} texts</span>
+        </div>
+
+        {/* Side-by-side grid */}
+        <div className="flex-1 overflow-auto border border-border rounded-md">
+          {locales.length === 0 ? (
+            <p className="text-[12px] text-muted-foreground text-center py-12">Add a language to start translating.</p>
+          ) : (
+            <table className="w-full text-[11px]">
+              <thead className="sticky top-0 bg-card z-10">
+                <tr className="border-b border-border text-left text-muted-foreground">
+                  <th className="px-2 py-1.5 font-medium w-24">Question</th>
+                  <th className="px-2 py-1.5 font-medium">{source} (source)</th>
+                  {locales.map((l) => <th key={l} className="px-2 py-1.5 font-medium">{l}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((unit, i) => {
+                  const q = questionMap.get(unit.questionId)!;
+                  const firstOfQuestion = i === 0 || rows[i - 1].questionId !== unit.questionId;
+                  return (
+                    <tr key={unit.key} className={`align-top ${firstOfQuestion ? "border-t border-border" : ""}`}>
+                      <td className="px-2 py-1 font-mono text-muted-foreground">{firstOfQuestion ? unit.questionId : ""}</td>
+                      <td className="px-2 py-1">
+                        <div className="text-foreground">{unit.source}</div>
+                        <div className="text-[10px] text-muted-foreground">{unit.field === "option" ? "option" : unit.label}</div>
+                      </td>
+                      {locales.map((locale) => {
+                        const value = getTranslation(q, locale, unit.field, unit.optionId);
+                        return (
+                          <td key={locale} className="px-2 py-1">
+                            <Input
+                              className={`h-7 text-[11px] ${value ? "" : "border-amber-500/50"}`}
+                              value={value}
+                              onChange={(e) => setTranslation(unit.questionId, locale, unit.field, e.target.value, unit.optionId)}
+                              placeholder={unit.source}
+                            />
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="text-[12px]" onClick={() => fileInputRef.current?.click()}>
+              <Upload size={14} className="mr-1" /> Import CSV / XLIFF
+            </Button>
+            <input ref={fileInputRef} type="file" accept=".csv,.xlf,.xliff,.xml" className="hidden" onChange={handleFile} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline" size="sm" className="text-[12px]" disabled={locales.length === 0}
+              onClick={() => download(translationsToCsv(questions, locales), `${fileBase}.translations.csv`, "text/csv")}
+            >
+              <Download size={14} className="mr-1" /> CSV
+            </Button>
+            <Select value={exportLocale} onValueChange={setXliffLocale} disabled={locales.length === 0}>
+              <SelectTrigger className="h-8 w-24 text-[12px]"><SelectValue placeholder="Locale" /></SelectTrigger>
+              <SelectContent>
+                {locales.map((l) => <SelectItem key={l} value={l}>{l}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline" size="sm" className="text-[12px]" disabled={!exportLocale}
+              onClick={() => download(translationsToXliff(questions, exportLocale, fileBase), `${fileBase}.${exportLocale}.xlf`, "application/xliff+xml")}
+            >
+              <Download size={14} className="mr-1" /> XLIFF
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -24,7 +24,8 @@ function Breadcrumbs() {
 
   if (pathname === "/") return null;
 
-  const label = ROUTE_LABELS[pathname] ?? pathname.replace("/", "");
+  const label = ROUTE_LABELS[pathname]
+    ?? (/^\/workflows\/[^/]+\/history$/.test(pathname) ? "Revision History" : pathname.replace("/", ""));
 
   return (
     <nav className="app-breadcrumb">
@@ -6,7 +6,7 @@ import { useState, useRef, useEffect } from "react";
 import { Sparkles, Send, RotateCcw, Loader2, Bot, Zap } from "lucide-react";
 import axios from "axios";
 import type { CaseIR, JsonPatch } from "@/types/caseIr";
-import { applyCaseIRPatch } from "@/lib/patchUtils";
+import { resolveIdPatch, PatchPathError } from "@/lib/patchUtils";
 import "./studio.css";
 
 // ── Types ────────────────────────────────────────────────────────────────────
@@ -16,14 +16,17 @@ interface ChatMessage {
   role: "user" | "assistant" | "system";
   content: string;
   patch?: JsonPatch;
-  undoSnapshot?: CaseIR;
+  /** History entry recorded when the patch was applied — used to revert just this change */
+  historyEntryId?: string;
   agentsUsed?: string[];
 }
 
 interface AiChatPanelProps {
   caseIr: CaseIR;
-  onApplyPatch: (patch: JsonPatch) => void;
-  onUndoTo?: (snapshot: CaseIR) => void;
+  /** Applies the patch and returns the id of the history entry it was recorded under */
+  onApplyPatch: (patch: JsonPatch, label?: string) => string | undefined;
+  /** Reverts one history entry, keeping later edits; throws if they conflict */
+  onRevert?: (historyEntryId: string) => void;
 }
 
 type AgentMode = "simple" | "multi-agent";
@@ -159,7 +162,7 @@ function MessageBubble({ msg, onUndo }: { msg: ChatMessage; onUndo?: () => void
 
 // ── Main Panel ───────────────────────────────────────────────────────────────
 
-export default function AiChatPanel({ caseIr, onApplyPatch, onUndoTo }: AiChatPanelProps) {
+export default function AiChatPanel({ caseIr, onApplyPatch, onRevert }: AiChatPanelProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([WELCOME_MESSAGE]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -182,8 +185,6 @@ export default function AiChatPanel({ caseIr, onApplyPatch, onUndoTo }: AiChatPa
     setInput("");
     setIsLoading(true);
 
-    const snapshot = JSON.parse(JSON.stringify(caseIr)) as CaseIR;
-
     try {
       let patch: JsonPatch = [];
       let summary = "";
@@ -200,8 +201,16 @@ export default function AiChatPanel({ caseIr, onApplyPatch, onUndoTo }: AiChatPa
         summary = result.summary;
       }
 
+      let historyEntryId: string | undefined;
       if (patch.length > 0) {
-        onApplyPatch(patch);
+        // Reject references to elements that don't exist before touching the workflow
+        try {
+          resolveIdPatch(caseIr, patch);
+        } catch (e) {
+          if (e instanceof PatchPathError) throw new Error(`I couldn't make that change because it refers to something that isn't in your workflow. ${e.message}`);
+          throw e;
+        }
+        historyEntryId = onApplyPatch(patch, `AI: ${summary || text}`);
       }
 
       const assistantMsg: ChatMessage = {
@@ -209,7 +218,7 @@ export default function AiChatPanel({ caseIr, onApplyPatch, onUndoTo }: AiChatPa
         role: "assistant",
         content: summary || (patch.length === 0 ? "Hmm, I couldn't figure out what to change. Could you describe it differently?" : "Done! Your workflow has been updated."),
         patch,
-        undoSnapshot: snapshot,
+        historyEntryId,
         agentsUsed,
       };
       setMessages(prev => [...prev, assistantMsg]);
@@ -227,12 +236,18 @@ export default function AiChatPanel({ caseIr, onApplyPatch, onUndoTo }: AiChatPa
   };
 
   const handleUndo = (msg: ChatMessage) => {
-    if (msg.undoSnapshot && onUndoTo) {
-      onUndoTo(msg.undoSnapshot);
+    if (!msg.historyEntryId || !onRevert) return;
+    try {
+      onRevert(msg.historyEntryId);
       setMessages(prev => [
         ...prev,
         { id: uid(), role: "system", content: "Change undone ↩" },
       ]);
+    } catch (e) {
+      setMessages(prev => [
+        ...prev,
+        { id: uid(), role: "system", content: e instanceof Error ? e.message : "Could not undo this change." },
+      ]);
     }
   };
 
@@ -292,7 +307,7 @@ export default function AiChatPanel({ caseIr, onApplyPatch, onUndoTo }: AiChatPa
           <MessageBubble
             key={msg.id}
             msg={msg}
-            onUndo={msg.patch && msg.patch.length > 0 && msg.undoSnapshot ? () => handleUndo(msg) : undefined}
+            onUndo={msg.patch && msg.patch.length > 0 && msg.historyEntryId ? () => handleUndo(msg) : undefined}
           />
         ))}
 
@@ -5,6 +5,7 @@ import { useState } from "react";
 import { Sparkles, Send, Eye, Check, X, ChevronDown, ChevronUp, AlertTriangle } from "lucide-react";
 import axios from "axios";
 import type { CaseIR, JsonPatch } from "@/types/caseIr";
+import { resolveIdPatch } from "@/lib/patchUtils";
 import "./studio.css";
 
 const AI_PLAN_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-plan`;
@@ -58,6 +59,8 @@ export default function AiPromptBar({ caseIr, onApplyPatch }: AiPromptBarProps)
 
     try {
       const result = await callAiPlan(prompt.trim(), caseIr);
+      // Surface bad element references now rather than when the patch is applied
+      resolveIdPatch(caseIr, result.patch);
       setPendingPatch(result.patch);
       setSummary(result.summary);
     } catch (e) {
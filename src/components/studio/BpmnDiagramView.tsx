@@ -144,6 +144,8 @@ const STEP_COLORS: Record<string, string> = {
   foreach: "hsl(268 62% 52%)",
   callActivity: "hsl(193 72% 40%)",
   intermediateEvent: "hsl(199 80% 42%)",
+  parallel: "hsl(340 65% 48%)",
+  inclusive: "hsl(24 80% 46%)",
 };
 
 const STEP_LABELS: Record<string, string> = {
@@ -153,6 +155,8 @@ const STEP_LABELS: Record<string, string> = {
   foreach: "Sub-Process",
   callActivity: "Call Activity",
   intermediateEvent: "Catch Event",
+  parallel: "Parallel Gateway",
+  inclusive: "Inclusive Gateway",
 };
 
 // ─── Layout constants ────────────────────────────────────────────────────────
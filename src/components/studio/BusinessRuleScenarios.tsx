@@ -0,0 +1,104 @@
+/**
+ * BusinessRuleScenarios – saved test scenarios for one business rule: a fact per
+ * data model field and the expected outcome, with results from the last test run.
+ */
+import { Plus, Trash2, CheckCircle2, XCircle } from "lucide-react";
+import type { BusinessRule, BusinessRuleScenario, DataField, JsonPatch } from "@/types/caseIr";
+import { Button } from "@/components/ui/button";
+import { formatValue } from "@/lib/dmn/evaluate";
+import type { ScenarioResult } from "@/lib/businessRules/scenarios";
+import { Cell } from "./DecisionTableEditor";
+
+function uid() { return `scn_${Math.random().toString(36).slice(2, 8)}`; }
+
+interface BusinessRuleScenariosProps {
+  rule: BusinessRule;
+  dataModel: DataField[];
+  /** Results by scenario id from the last run; absent until tests are run */
+  results?: Map<string, ScenarioResult>;
+  onPatch: (patch: JsonPatch) => void;
+}
+
+export default function BusinessRuleScenarios({ rule, dataModel, results, onPatch }: BusinessRuleScenariosProps) {
+  const base = `/businessRules[id=${rule.id}]`;
+  const scenarios = rule.scenarios ?? [];
+  const set = (path: string, value: unknown) => onPatch([{ op: "add", path: `${base}/${path}`, value }]);
+
+  const addScenario = () => {
+    const scenario: BusinessRuleScenario = {
+      id: uid(),
+      name: `Scenario ${scenarios.length + 1}`,
+      facts: {},
+      expected: rule.ruleType === "condition" || rule.ruleType === "validation" ? "true" : "",
+    };
+    onPatch([rule.scenarios
+      ? { op: "add", path: `${base}/scenarios/-`, value: scenario }
+      : { op: "add", path: `${base}/scenarios`, value: [scenario] }]);
+  };
+
+  const setFact = (s: number, field: string, value: string) => {
+    const path = `${base}/scenarios/${s}/facts/${field}`;
+    onPatch([value.trim() ? { op: "add", path, value } : { op: "remove", path }]);
+  };
+
+  return (
+    <div className="px-2 py-2">
+      {scenarios.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="w-5" />
+                <th className="px-1 text-left font-normal">Scenario</th>
+                {dataModel.map(f => (
+                  <th key={f.id} className="px-1 text-left font-normal">
+                    {f.name} <span className="font-mono text-[10px]">{f.dataType}</span>
+                  </th>
+                ))}
+                <th className="px-1 text-left font-normal">Expected</th>
+                <th className="px-1 text-left font-normal">Actual</th>
+                <th className="w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.map((scenario, s) => {
+                const res = results?.get(scenario.id);
+                return (
+                  <tr key={scenario.id} className="align-top">
+                    <td className="pt-1.5">
+                      {res && (res.passed
+                        ? <CheckCircle2 size={13} className="text-success" />
+                        : <XCircle size={13} className="text-destructive" />)}
+                    </td>
+                    <td className="px-1"><Cell value={scenario.name} onCommit={v => set(`scenarios/${s}/name`, v)} /></td>
+                    {dataModel.map(f => (
+                      <td key={f.id} className="px-1">
+                        <Cell value={scenario.facts[f.name] ?? ""} kind="output" placeholder="unset" onCommit={v => setFact(s, f.name, v)} />
+                      </td>
+                    ))}
+                    <td className="px-1">
+                      <Cell value={scenario.expected} kind="output" placeholder="null" onCommit={v => set(`scenarios/${s}/expected`, v)} />
+                    </td>
+                    <td className={`px-1.5 pt-1 font-mono text-[11px] ${res && !res.passed ? "text-destructive" : "text-muted-foreground"}`}>
+                      {!res ? "—" : res.error ?? formatValue(res.actual)}
+                    </td>
+                    <td>
+                      <button className="p-1 text-muted-foreground hover:text-destructive" title="Remove scenario"
+                        onClick={() => onPatch([{ op: "remove", path: `${base}/scenarios[id=${scenario.id}]` }])}>
+                        <Trash2 size={11} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {dataModel.length === 0 && (
+        <p className="text-[11px] text-muted-foreground mb-1">Add fields to the data model to give scenarios facts.</p>
+      )}
+      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={addScenario}><Plus size={12} /> Scenario</Button>
+    </div>
+  );
+}
@@ -1,13 +1,29 @@
-import { useState } from "react";
-import { Plus, Trash2, Scale } from "lucide-react";
-import type { CaseIR, JsonPatch, BusinessRule, BusinessRuleType } from "@/types/caseIr";
+import { Fragment, useEffect, useState } from "react";
+import { Plus, Trash2, Scale, Table2, FlaskConical, ChevronRight, ChevronDown } from "lucide-react";
+import { toast } from "sonner";
+import type { CaseIR, JsonPatch, BusinessRule, BusinessRuleType, DecisionTable } from "@/types/caseIr";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { runRuleSuites, type ScenarioResult } from "@/lib/businessRules/scenarios";
+import { useBusinessCalendars } from "@/stores/businessCalendarStore";
+import DecisionTableEditor from "./DecisionTableEditor";
+import BusinessRuleScenarios from "./BusinessRuleScenarios";
 
-function uid() { return `rule_${Math.random().toString(36).slice(2, 8)}`; }
+function uid(prefix = "rule") { return `${prefix}_${Math.random().toString(36).slice(2, 8)}`; }
+
+function newDecisionTable(existing: DecisionTable[]): DecisionTable {
+  return {
+    id: uid("Decision"),
+    name: `Decision ${existing.length + 1}`,
+    hitPolicy: "UNIQUE",
+    inputs: [{ id: uid("Input"), label: "Input 1", expression: "", typeRef: "string" }],
+    outputs: [{ id: uid("Output"), label: "Output 1", name: "result", typeRef: "string" }],
+    rules: [],
+  };
+}
 
 const RULE_TYPES: { value: BusinessRuleType; label: string }[] = [
   { value: "condition", label: "Condition" },
@@ -23,6 +39,9 @@ const RULE_BADGE_VARIANT: Record<string, "default" | "secondary" | "destructive"
   sla: "destructive",
 };
 
+/** Select value for "no calendar" – Radix selects cannot hold an empty value */
+const WALL_CLOCK = "__wall_clock";
+
 interface BusinessRulesPanelProps {
   caseIr: CaseIR;
   onPatch: (patch: JsonPatch) => void;
@@ -34,6 +53,27 @@ export default function BusinessRulesPanel({ caseIr, onPatch }: BusinessRulesPan
   const [newName, setNewName] = useState("");
   const [newType, setNewType] = useState<BusinessRuleType>("condition");
   const [newExpr, setNewExpr] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [results, setResults] = useState<Map<string, ScenarioResult> | null>(null);
+  const calendars = useBusinessCalendars(s => s.calendars);
+
+  // Results describe the case as it was when the tests ran
+  useEffect(() => setResults(null), [caseIr]);
+
+  const scenarioCount = rules.reduce((n, r) => n + (r.scenarios?.length ?? 0), 0);
+
+  const handleRunTests = () => {
+    const suites = runRuleSuites(caseIr);
+    const all = suites.flatMap(s => s.results);
+    setResults(new Map(all.map(({ scenario, result }) => [scenario.id, result])));
+    const failing = suites.filter(s => s.results.some(r => !r.result.passed));
+    if (failing.length) {
+      setExpanded(failing[0].rule.id);
+      toast.error(`${all.filter(r => !r.result.passed).length} of ${all.length} scenarios failed`);
+    } else {
+      toast.success(`All ${all.length} scenarios passed`);
+    }
+  };
 
   const handleAdd = () => {
     if (!newName.trim()) return;
@@ -46,8 +86,25 @@ export default function BusinessRulesPanel({ caseIr, onPatch }: BusinessRulesPan
     setNewName(""); setNewExpr(""); setNewType("condition"); setAdding(false);
   };
 
-  const handleDelete = (idx: number) => {
-    onPatch([{ op: "remove", path: `/businessRules/${idx}` }]);
+  /** SLA rules count their duration in a business calendar, or in wall-clock time */
+  const handleCalendar = (rule: BusinessRule, key: string) => {
+    onPatch([key === WALL_CLOCK
+      ? { op: "remove", path: `/businessRules[id=${rule.id}]/calendarRef` }
+      : { op: "add", path: `/businessRules[id=${rule.id}]/calendarRef`, value: key }]);
+  };
+
+  const handleDelete = (id: string) => {
+    onPatch([{ op: "remove", path: `/businessRules[id=${id}]` }]);
+  };
+
+  const tables = caseIr.decisionTables ?? [];
+  const handleAddTable = () => {
+    const table = newDecisionTable(tables);
+    if (!caseIr.decisionTables) {
+      onPatch([{ op: "add", path: "/decisionTables", value: [table] }]);
+    } else {
+      onPatch([{ op: "add", path: "/decisionTables/-", value: table }]);
+    }
   };
 
   return (
@@ -59,9 +116,14 @@ export default function BusinessRulesPanel({ caseIr, onPatch }: BusinessRulesPan
           </h2>
           <p className="text-sm text-muted-foreground mt-1">Define conditions, validations, SLAs and routing logic.</p>
         </div>
-        <Button size="sm" onClick={() => setAdding(true)} disabled={adding}>
-          <Plus size={14} /> Add Rule
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={handleRunTests} disabled={scenarioCount === 0}>
+            <FlaskConical size={14} /> Run tests
+          </Button>
+          <Button size="sm" onClick={() => setAdding(true)} disabled={adding}>
+            <Plus size={14} /> Add Rule
+          </Button>
+        </div>
       </div>
 
       {adding && (
@@ -90,29 +152,93 @@ export default function BusinessRulesPanel({ caseIr, onPatch }: BusinessRulesPan
               <TableHead>Name</TableHead>
               <TableHead>Type</TableHead>
               <TableHead>Expression</TableHead>
+              <TableHead>Tests</TableHead>
               <TableHead className="w-[60px]"></TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {rules.map((r, i) => (
-              <TableRow key={r.id}>
-                <TableCell className="font-medium">{r.name}</TableCell>
-                <TableCell>
-                  <Badge variant={RULE_BADGE_VARIANT[r.ruleType] ?? "default"} className="text-[10px]">
-                    {r.ruleType}
-                  </Badge>
-                </TableCell>
-                <TableCell className="font-mono text-xs">{r.expression || "—"}</TableCell>
-                <TableCell>
-                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(i)}>
-                    <Trash2 size={13} className="text-destructive" />
-                  </Button>
-                </TableCell>
-              </TableRow>
-            ))}
+            {rules.map(r => {
+              const scenarios = r.scenarios ?? [];
+              const failed = results ? scenarios.filter(s => !results.get(s.id)?.passed).length : 0;
+              return (
+                <Fragment key={r.id}>
+                  <TableRow>
+                    <TableCell className="font-medium">{r.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={RULE_BADGE_VARIANT[r.ruleType] ?? "default"} className="text-[10px]">
+                        {r.ruleType}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {r.expression || "—"}
+                      {r.ruleType === "sla" && (
+                        <Select value={r.calendarRef ?? WALL_CLOCK} onValueChange={v => handleCalendar(r, v)}>
+                          <SelectTrigger className="h-7 mt-1 w-[180px] text-xs font-sans"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={WALL_CLOCK}>Wall-clock time</SelectItem>
+                            {calendars.map(c => <SelectItem key={c.key} value={c.key}>{c.name}</SelectItem>)}
+                            {r.calendarRef && !calendars.some(c => c.key === r.calendarRef) && (
+                              <SelectItem value={r.calendarRef}>{r.calendarRef} (not found)</SelectItem>
+                            )}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <button
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                        onClick={() => setExpanded(expanded === r.id ? null : r.id)}
+                      >
+                        {expanded === r.id ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                        {scenarios.length} scenario{scenarios.length === 1 ? "" : "s"}
+                        {results && scenarios.length > 0 && (
+                          <Badge variant={failed ? "destructive" : "secondary"} className="text-[10px] ml-1">
+                            {failed ? `${failed} failing` : "passing"}
+                          </Badge>
+                        )}
+                      </button>
+                    </TableCell>
+                    <TableCell>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(r.id)}>
+                        <Trash2 size={13} className="text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {expanded === r.id && (
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell colSpan={5} className="p-0 bg-muted/20">
+                        <BusinessRuleScenarios rule={r} dataModel={caseIr.dataModel ?? []} results={results ?? undefined} onPatch={onPatch} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
           </TableBody>
         </Table>
       )}
+
+      <div className="flex items-center justify-between mt-10 mb-4">
+        <div>
+          <h3 className="text-base font-bold text-foreground flex items-center gap-2">
+            <Table2 size={18} className="text-primary" /> Decision Tables
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">DMN tables evaluated by business rule tasks; exported next to the BPMN.</p>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleAddTable}>
+          <Plus size={14} /> Add Table
+        </Button>
+      </div>
+
+      {tables.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground text-sm border rounded-lg border-dashed">
+          No decision tables defined.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {tables.map(t => <DecisionTableEditor key={t.id} caseIr={caseIr} table={t} onPatch={onPatch} />)}
+        </div>
+      )}
     </div>
   );
 }
@@ -35,8 +35,8 @@ export default function DataModelPanel({ caseIr, onPatch }: DataModelPanelProps)
     setNewName(""); setNewType("string"); setNewReq(false); setAdding(false);
   };
 
-  const handleDelete = (idx: number) => {
-    onPatch([{ op: "remove", path: `/dataModel/${idx}` }]);
+  const handleDelete = (id: string) => {
+    onPatch([{ op: "remove", path: `/dataModel[id=${id}]` }]);
   };
 
   return (
@@ -87,14 +87,14 @@ export default function DataModelPanel({ caseIr, onPatch }: DataModelPanelProps)
             </TableRow>
           </TableHeader>
           <TableBody>
-            {fields.map((f, i) => (
+            {fields.map(f => (
               <TableRow key={f.id}>
                 <TableCell className="font-medium">{f.name}</TableCell>
                 <TableCell><Badge variant="outline" className="text-[10px] font-mono">{f.dataType}</Badge></TableCell>
                 <TableCell>{f.required ? "✓" : "—"}</TableCell>
                 <TableCell className="text-xs">{f.defaultValue || "—"}</TableCell>
                 <TableCell>
-                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(i)}>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(f.id)}>
                     <Trash2 size={13} className="text-destructive" />
                   </Button>
                 </TableCell>
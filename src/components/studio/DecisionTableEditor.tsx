@@ -0,0 +1,343 @@
+/**
+ * DecisionTableEditor – authoring for one DMN decision table: inputs, outputs, hit
+ * policy and rule rows with FEEL cell checks, plus saved test cases evaluated locally.
+ * Cells commit on blur so typing does not flood the undo history.
+ */
+import { useEffect, useMemo, useState } from "react";
+import { Plus, Trash2, Table2, CheckCircle2, XCircle, X, Link2 } from "lucide-react";
+import { toast } from "sonner";
+import type {
+  CaseIR, JsonPatch, DecisionTable, DmnHitPolicy, DmnAggregation, DmnTypeRef, DmnTestCase,
+} from "@/types/caseIr";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { checkFeelCell } from "@/lib/expression/diagnostics";
+import { formatValue, runTestCase } from "@/lib/dmn/evaluate";
+import { renameDecisionRefs, stepsUsingDecision } from "@/lib/dmn/links";
+
+function uid(prefix: string) { return `${prefix}_${Math.random().toString(36).slice(2, 8)}`; }
+
+const HIT_POLICIES: { value: DmnHitPolicy; label: string }[] = [
+  { value: "UNIQUE", label: "Unique" },
+  { value: "FIRST", label: "First" },
+  { value: "PRIORITY", label: "Priority" },
+  { value: "ANY", label: "Any" },
+  { value: "COLLECT", label: "Collect" },
+  { value: "RULE ORDER", label: "Rule order" },
+  { value: "OUTPUT ORDER", label: "Output order" },
+];
+
+const AGGREGATIONS: DmnAggregation[] = ["SUM", "MIN", "MAX", "COUNT"];
+const TYPE_REFS: DmnTypeRef[] = ["string", "integer", "double", "boolean", "date"];
+
+/** Decision keys end up as XML ids and in `decisionRef` attributes */
+const DECISION_KEY = /^[A-Za-z_][\w.-]*$/;
+
+export function Cell({ value, onCommit, placeholder, kind, className = "" }: {
+  value: string;
+  onCommit: (v: string) => void;
+  placeholder?: string;
+  /** FEEL cells are checked: unary tests for inputs, expressions for outputs */
+  kind?: "input" | "output";
+  className?: string;
+}) {
+  const [text, setText] = useState(value);
+  useEffect(() => setText(value), [value]);
+  const issue = useMemo(() => (kind ? checkFeelCell(text, kind)[0] : undefined), [text, kind]);
+  const tone = issue?.severity === "error" ? "border-destructive/60 bg-destructive/5"
+    : issue ? "border-warning/60" : "border-transparent";
+  return (
+    <input
+      className={`w-full min-w-[70px] bg-transparent px-1.5 py-1 text-xs rounded border focus:border-primary focus:outline-none ${kind ? "font-mono" : ""} ${tone} ${className}`}
+      value={text}
+      title={issue?.message}
+      placeholder={placeholder}
+      onChange={e => setText(e.target.value)}
+      onBlur={() => { if (text !== value) onCommit(text); }}
+      onKeyDown={e => {
+        if (e.key === "Enter") e.currentTarget.blur();
+        if (e.key === "Escape") setText(value);
+      }}
+    />
+  );
+}
+
+function TypeSelect({ value, onChange }: { value: DmnTypeRef; onChange: (v: DmnTypeRef) => void }) {
+  return (
+    <select
+      className="bg-transparent text-[10px] font-mono text-muted-foreground focus:outline-none"
+      value={value}
+      onChange={e => onChange(e.target.value as DmnTypeRef)}
+    >
+      {TYPE_REFS.map(t => <option key={t} value={t}>{t}</option>)}
+    </select>
+  );
+}
+
+interface DecisionTableEditorProps {
+  caseIr: CaseIR;
+  table: DecisionTable;
+  onPatch: (patch: JsonPatch) => void;
+}
+
+export default function DecisionTableEditor({ caseIr, table, onPatch }: DecisionTableEditorProps) {
+  const base = `/decisionTables[id=${table.id}]`;
+  const testCases = table.testCases ?? [];
+  const [selectedTest, setSelectedTest] = useState<string | null>(null);
+  const usage = stepsUsingDecision(caseIr, table.id);
+  const results = useMemo(() => new Map((table.testCases ?? []).map(tc => [tc.id, runTestCase(table, tc)])), [table]);
+  const highlighted = new Set(selectedTest ? results.get(selectedTest)?.matched ?? [] : []);
+  const passed = [...results.values()].filter(r => r.passed).length;
+
+  const set = (path: string, value: unknown) => onPatch([{ op: "add", path: `${base}/${path}`, value }]);
+
+  const renameKey = (key: string) => {
+    const next = key.trim();
+    if (next === table.id) return;
+    if (!DECISION_KEY.test(next)) { toast.error("Decision keys start with a letter and use letters, digits, _ . or -"); return; }
+    if (caseIr.decisionTables?.some(t => t.id === next)) { toast.error(`A decision with key "${next}" already exists`); return; }
+    onPatch([{ op: "replace", path: `${base}/id`, value: next }, ...renameDecisionRefs(caseIr, table.id, next)]);
+  };
+
+  const deleteTable = () => {
+    const note = usage.length ? ` ${usage.length} business rule task(s) reference it.` : "";
+    if (!confirm(`Delete decision table "${table.name}"?${note}`)) return;
+    onPatch([{ op: "remove", path: base }]);
+  };
+
+  const addInput = () => {
+    const input = { id: uid("Input"), label: `Input ${table.inputs.length + 1}`, expression: "", typeRef: "string" as const };
+    onPatch([
+      { op: "add", path: `${base}/inputs/-`, value: input },
+      ...table.rules.map(r => ({ op: "add" as const, path: `${base}/rules[id=${r.id}]/inputEntries/-`, value: "-" })),
+    ]);
+  };
+
+  const removeInput = (k: number) => {
+    const id = table.inputs[k].id;
+    onPatch([
+      { op: "remove", path: `${base}/inputs/${k}` },
+      ...table.rules.filter(r => r.inputEntries.length > k)
+        .map(r => ({ op: "remove" as const, path: `${base}/rules[id=${r.id}]/inputEntries/${k}` })),
+      ...testCases.filter(tc => id in tc.inputs)
+        .map(tc => ({ op: "remove" as const, path: `${base}/testCases[id=${tc.id}]/inputs/${id}` })),
+    ]);
+  };
+
+  const addOutput = () => {
+    const output = { id: uid("Output"), label: `Output ${table.outputs.length + 1}`, name: `output${table.outputs.length + 1}`, typeRef: "string" as const };
+    onPatch([
+      { op: "add", path: `${base}/outputs/-`, value: output },
+      ...table.rules.map(r => ({ op: "add" as const, path: `${base}/rules[id=${r.id}]/outputEntries/-`, value: "" })),
+    ]);
+  };
+
+  const removeOutput = (k: number) => {
+    const id = table.outputs[k].id;
+    onPatch([
+      { op: "remove", path: `${base}/outputs/${k}` },
+      ...table.rules.filter(r => r.outputEntries.length > k)
+        .map(r => ({ op: "remove" as const, path: `${base}/rules[id=${r.id}]/outputEntries/${k}` })),
+      ...testCases.filter(tc => id in tc.expected)
+        .map(tc => ({ op: "remove" as const, path: `${base}/testCases[id=${tc.id}]/expected/${id}` })),
+    ]);
+  };
+
+  const addRule = () => {
+    onPatch([{
+      op: "add",
+      path: `${base}/rules/-`,
+      value: { id: uid("Rule"), inputEntries: table.inputs.map(() => "-"), outputEntries: table.outputs.map(() => "") },
+    }]);
+  };
+
+  const addTestCase = () => {
+    const tc: DmnTestCase = { id: uid("Test"), name: `Case ${testCases.length + 1}`, inputs: {}, expected: {} };
+    onPatch([table.testCases
+      ? { op: "add", path: `${base}/testCases/-`, value: tc }
+      : { op: "add", path: `${base}/testCases`, value: [tc] }]);
+  };
+
+  return (
+    <div className="rounded-lg border">
+      <div className="flex items-center gap-2 flex-wrap px-3 py-2 border-b bg-muted/30">
+        <Table2 size={14} className="text-primary" />
+        <Cell value={table.name} onCommit={v => set("name", v || table.name)} className="max-w-[200px] font-semibold" />
+        <span className="text-[10px] text-muted-foreground">key</span>
+        <Cell value={table.id} onCommit={renameKey} className="max-w-[160px] font-mono" />
+        <Select value={table.hitPolicy} onValueChange={v => set("hitPolicy", v)}>
+          <SelectTrigger className="h-7 w-[130px] text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {HIT_POLICIES.map(h => <SelectItem key={h.value} value={h.value}>{h.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {table.hitPolicy === "COLLECT" && (
+          <Select value={table.aggregation ?? "none"} onValueChange={v => onPatch([v === "none"
+            ? { op: "remove", path: `${base}/aggregation` }
+            : { op: "add", path: `${base}/aggregation`, value: v }])}>
+            <SelectTrigger className="h-7 w-[110px] text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">List</SelectItem>
+              {AGGREGATIONS.map(a => <SelectItem key={a} value={a}>{a}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        )}
+        {usage.length > 0 && (
+          <Badge variant="outline" className="text-[10px] gap-1" title={usage.map(u => u.step.name).join(", ")}>
+            <Link2 size={10} /> {usage.length} task{usage.length > 1 ? "s" : ""}
+          </Badge>
+        )}
+        <div className="flex-1" />
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={addInput}><Plus size={12} /> Input</Button>
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={addOutput}><Plus size={12} /> Output</Button>
+        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={deleteTable} title="Delete table">
+          <Trash2 size={13} className="text-destructive" />
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b align-top">
+              <th className="w-8 px-2 py-1.5 text-left text-muted-foreground font-mono" title="Hit policy">{table.hitPolicy[0]}</th>
+              {table.inputs.map((input, k) => (
+                <th key={input.id} className="px-1 py-1 text-left font-normal border-l bg-primary/5">
+                  <div className="flex items-center gap-1">
+                    <Cell value={input.label} onCommit={v => set(`inputs/${k}/label`, v)} className="font-semibold" />
+                    <button className="text-muted-foreground hover:text-destructive" onClick={() => removeInput(k)} title="Remove input"><X size={11} /></button>
+                  </div>
+                  <Cell value={input.expression} kind="output" placeholder="variable" onCommit={v => set(`inputs/${k}/expression`, v)} />
+                  <TypeSelect value={input.typeRef} onChange={v => set(`inputs/${k}/typeRef`, v)} />
+                </th>
+              ))}
+              {table.outputs.map((output, k) => (
+                <th key={output.id} className="px-1 py-1 text-left font-normal border-l bg-success/5">
+                  <div className="flex items-center gap-1">
+                    <Cell value={output.label} onCommit={v => set(`outputs/${k}/label`, v)} className="font-semibold" />
+                    <button className="text-muted-foreground hover:text-destructive" onClick={() => removeOutput(k)} title="Remove output"><X size={11} /></button>
+                  </div>
+                  <Cell value={output.name} placeholder="result name" onCommit={v => set(`outputs/${k}/name`, v.trim() || output.name)} className="font-mono" />
+                  <div className="flex items-center gap-1">
+                    <TypeSelect value={output.typeRef} onChange={v => set(`outputs/${k}/typeRef`, v)} />
+                    <Cell
+                      value={(output.outputValues ?? []).join(", ")}
+                      placeholder="priority values"
+                      onCommit={v => {
+                        const values = v.split(",").map(x => x.trim()).filter(Boolean);
+                        onPatch([values.length
+                          ? { op: "add", path: `${base}/outputs/${k}/outputValues`, value: values }
+                          : { op: "remove", path: `${base}/outputs/${k}/outputValues` }]);
+                      }}
+                    />
+                  </div>
+                </th>
+              ))}
+              <th className="px-2 py-1.5 text-left font-normal text-muted-foreground border-l">Annotation</th>
+              <th className="w-8" />
+            </tr>
+          </thead>
+          <tbody>
+            {table.rules.map((rule, r) => (
+              <tr key={rule.id} className={`border-b ${highlighted.has(r) ? "bg-primary/10" : ""}`}>
+                <td className="px-2 text-muted-foreground font-mono">{r + 1}</td>
+                {table.inputs.map((input, k) => (
+                  <td key={input.id} className="px-1 border-l">
+                    <Cell value={rule.inputEntries[k] ?? "-"} kind="input" onCommit={v => set(`rules/${r}/inputEntries/${k}`, v.trim() || "-")} />
+                  </td>
+                ))}
+                {table.outputs.map((output, k) => (
+                  <td key={output.id} className="px-1 border-l">
+                    <Cell value={rule.outputEntries[k] ?? ""} kind="output" onCommit={v => set(`rules/${r}/outputEntries/${k}`, v)} />
+                  </td>
+                ))}
+                <td className="px-1 border-l">
+                  <Cell value={rule.description ?? ""} onCommit={v => set(`rules/${r}/description`, v)} />
+                </td>
+                <td>
+                  <button className="p-1 text-muted-foreground hover:text-destructive" title="Remove rule"
+                    onClick={() => onPatch([{ op: "remove", path: `${base}/rules[id=${rule.id}]` }])}>
+                    <Trash2 size={11} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="px-3 py-1.5 border-b">
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={addRule}><Plus size={12} /> Rule</Button>
+      </div>
+
+      <div className="px-3 py-2">
+        <div className="flex items-center gap-2 mb-1.5">
+          <span className="text-xs font-semibold">Test cases</span>
+          {testCases.length > 0 && (
+            <Badge variant={passed === testCases.length ? "secondary" : "destructive"} className="text-[10px]">
+              {passed}/{testCases.length} passing
+            </Badge>
+          )}
+          <div className="flex-1" />
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={addTestCase}><Plus size={12} /> Test case</Button>
+        </div>
+        {testCases.length > 0 && (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="w-5" />
+                <th className="px-1 text-left font-normal">Name</th>
+                {table.inputs.map(i => <th key={i.id} className="px-1 text-left font-normal">{i.label}</th>)}
+                {table.outputs.map(o => <th key={o.id} className="px-1 text-left font-normal">expected {o.label}</th>)}
+                <th className="w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {testCases.map((tc, t) => {
+                const res = results.get(tc.id)!;
+                return (
+                  <tr
+                    key={tc.id}
+                    className={`align-top cursor-pointer ${selectedTest === tc.id ? "bg-muted/50" : ""}`}
+                    onClick={() => setSelectedTest(tc.id)}
+                    title="Select to highlight the matching rules"
+                  >
+                    <td className="pt-1.5">
+                      {res.passed ? <CheckCircle2 size={13} className="text-success" /> : <XCircle size={13} className="text-destructive" />}
+                    </td>
+                    <td className="px-1"><Cell value={tc.name} onCommit={v => set(`testCases/${t}/name`, v)} /></td>
+                    {table.inputs.map(i => (
+                      <td key={i.id} className="px-1">
+                        <Cell value={tc.inputs[i.id] ?? ""} kind="output" placeholder="null" onCommit={v => set(`testCases/${t}/inputs/${i.id}`, v)} />
+                      </td>
+                    ))}
+                    {table.outputs.map(o => (
+                      <td key={o.id} className="px-1">
+                        <Cell value={tc.expected[o.id] ?? ""} kind="output" placeholder="any" onCommit={v => set(`testCases/${t}/expected/${o.id}`, v)} />
+                        {!res.error && (res.failed.includes(o.id) || !tc.expected[o.id]?.trim()) && (
+                          <div className={`px-1.5 font-mono text-[10px] ${res.failed.includes(o.id) ? "text-destructive" : "text-muted-foreground"}`}>
+                            = {formatValue(res.actual[o.id])}
+                          </div>
+                        )}
+                      </td>
+                    ))}
+                    <td>
+                      <button className="p-1 text-muted-foreground hover:text-destructive" title="Remove test case"
+                        onClick={e => { e.stopPropagation(); onPatch([{ op: "remove", path: `${base}/testCases[id=${tc.id}]` }]); }}>
+                        <Trash2 size={11} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        {[...results.entries()].filter(([, r]) => r.error).map(([id, r]) => (
+          <p key={id} className="mt-1 text-[11px] text-destructive">
+            {testCases.find(tc => tc.id === id)?.name}: {r.error}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
  * Custom React Flow nodes for the Pega-style workflow diagram
  */
 import { Handle, Position, type NodeProps } from "reactflow";
-import { Bot, User, GitBranch, Repeat2, ExternalLink, Zap, Plus, Bell, type LucideIcon } from "lucide-react";
+import { Bot, User, GitBranch, GitFork, GitMerge, Repeat2, ExternalLink, Zap, Plus, Bell, type LucideIcon } from "lucide-react";
 import type { Step, StepType } from "@/types/caseIr";
 import "./studio.css";
 
@@ -15,6 +15,8 @@ export const STEP_TYPE_CONFIG: Record<StepType, { label: string; icon: LucideIco
   foreach:          { label: "For Each",      icon: Repeat2,      colorVar: "hsl(var(--step-foreach))" },
   callActivity:     { label: "Subprocess",    icon: ExternalLink, colorVar: "hsl(var(--step-call))" },
   intermediateEvent:{ label: "Wait / Event",  icon: Bell,         colorVar: "hsl(var(--step-event, 199 80% 42%))" },
+  parallel:         { label: "Parallel",      icon: GitFork,      colorVar: "hsl(var(--step-parallel, 340 65% 48%))" },
+  inclusive:        { label: "Inclusive",     icon: GitMerge,     colorVar: "hsl(var(--step-inclusive, 24 80% 46%))" },
 };
 
 // ─── Step card node ───────────────────────────────────────────────────────────
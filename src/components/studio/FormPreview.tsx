@@ -1,10 +1,11 @@
 /**
  * FormPreview – Renders a live preview of configured form fields
- * as they would appear to end users.
+ * as they would appear to end users, enforcing their validation rules as they are filled in.
  */
 import type { ModuleConfigField } from "@/types/caseIr";
-import { useState } from "react";
-import { Star } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Plus, Star, X } from "lucide-react";
+import { requiredKeys, validateForm, type FormErrors } from "@/lib/forms/validation";
 import "./studio.css";
 
 interface FormPreviewProps {
@@ -13,6 +14,12 @@ interface FormPreviewProps {
 
 export default function FormPreview({ fields }: FormPreviewProps) {
   const [values, setValues] = useState<Record<string, unknown>>({});
+  // Errors show once a field was changed, or for all fields after Submit
+  const [touched, setTouched] = useState<Set<string>>(new Set());
+  const [submitted, setSubmitted] = useState(false);
+
+  const errors = useMemo(() => validateForm(fields, values), [fields, values]);
+  const required = useMemo(() => requiredKeys(fields, values), [fields, values]);
 
   if (fields.length === 0) {
     return (
@@ -23,7 +30,17 @@ export default function FormPreview({ fields }: FormPreviewProps) {
   }
 
   const grouped = groupFields(fields);
-  const update = (key: string, val: unknown) => setValues(prev => ({ ...prev, [key]: val }));
+  const update = (key: string, val: unknown) => {
+    setValues(prev => ({ ...prev, [key]: val }));
+    setTouched(prev => new Set(prev).add(key));
+  };
+  const reset = () => {
+    setValues({});
+    setTouched(new Set());
+    setSubmitted(false);
+  };
+  const shownErrors = submitted ? errors : visibleErrors(errors, touched);
+  const errorCount = Object.keys(errors).length;
 
   return (
     <div className="fp-container">
@@ -32,22 +49,37 @@ export default function FormPreview({ fields }: FormPreviewProps) {
           <fieldset key={group} className="fp-group">
             {group !== "__ungrouped" && <legend className="fp-group-legend">{group}</legend>}
             {gFields.map(field => (
-              <div key={field.key} className="fp-field">
+              <div key={field.key} className={`fp-field ${shownErrors[field.key] ? "fp-field--invalid" : ""}`}>
                 <label className="fp-field-label">
                   {field.label || field.key}
-                  {field.required && <span className="fp-required">*</span>}
+                  {required.has(field.key) && <span className="fp-required">*</span>}
                 </label>
                 {field.hint && <p className="fp-hint">{field.hint}</p>}
-                <FieldRenderer field={field} value={values[field.key]} onChange={v => update(field.key, v)} />
+                {field.type === "repeatable" ? (
+                  <RepeatableRenderer
+                    field={field}
+                    rows={Array.isArray(values[field.key]) ? values[field.key] as Record<string, unknown>[] : []}
+                    errors={shownErrors}
+                    onChange={rows => update(field.key, rows)}
+                  />
+                ) : (
+                  <FieldRenderer field={field} value={values[field.key]} onChange={v => update(field.key, v)} />
+                )}
+                {shownErrors[field.key] && <p className="fp-error">{shownErrors[field.key]}</p>}
               </div>
             ))}
           </fieldset>
         ))}
         <div className="fp-actions">
-          <button className="fp-submit-btn" type="button" onClick={() => setValues({})}>
+          {submitted && (
+            <span className={`fp-result ${errorCount > 0 ? "fp-result--invalid" : ""}`}>
+              {errorCount > 0 ? `${errorCount} field(s) need attention` : "All rules pass"}
+            </span>
+          )}
+          <button className="fp-submit-btn" type="button" onClick={reset}>
             Reset
           </button>
-          <button className="fp-submit-btn fp-submit-btn--primary" type="button">
+          <button className="fp-submit-btn fp-submit-btn--primary" type="button" onClick={() => setSubmitted(true)}>
             Submit
           </button>
         </div>
@@ -56,6 +88,11 @@ export default function FormPreview({ fields }: FormPreviewProps) {
   );
 }
 
+/** Errors of the touched fields; a touched repeatable group shows the errors of its rows */
+function visibleErrors(errors: FormErrors, touched: Set<string>): FormErrors {
+  return Object.fromEntries(Object.entries(errors).filter(([path]) => touched.has(path.split("[")[0])));
+}
+
 function groupFields(fields: ModuleConfigField[]) {
   const map = new Map<string, ModuleConfigField[]>();
   for (const f of fields) {
@@ -170,7 +207,12 @@ function FieldRenderer({ field, value, onChange }: { field: ModuleConfigField; v
 
     case "file":
       return (
-        <input className="fp-input fp-file-input" type="file" accept={field.accept} />
+        <input
+          className="fp-input fp-file-input"
+          type="file"
+          accept={field.accept}
+          onChange={e => onChange(e.target.files?.[0])}
+        />
       );
 
     case "color":
@@ -215,14 +257,57 @@ function FieldRenderer({ field, value, onChange }: { field: ModuleConfigField; v
         </div>
       );
 
-    case "repeatable":
-      return (
-        <div className="fp-repeatable-placeholder">
-          <span className="text-[11px] text-foreground-muted italic">Repeatable group preview not yet supported</span>
-        </div>
-      );
-
     default:
       return <input className="fp-input" type="text" value={strVal} onChange={e => onChange(e.target.value)} />;
   }
 }
+
+function RepeatableRenderer({ field, rows, errors, onChange }: {
+  field: ModuleConfigField;
+  rows: Record<string, unknown>[];
+  errors: FormErrors;
+  onChange: (rows: Record<string, unknown>[]) => void;
+}) {
+  const subFields = field.repeatableFields ?? [];
+  if (subFields.length === 0) {
+    return (
+      <div className="fp-repeatable-placeholder">
+        <span className="text-[11px] text-foreground-muted italic">This group has no fields yet</span>
+      </div>
+    );
+  }
+
+  const updateRow = (index: number, key: string, val: unknown) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, [key]: val } : row)));
+
+  return (
+    <div className="fp-repeatable">
+      {rows.map((row, i) => (
+        <div key={i} className="fp-repeatable-row">
+          <div className="fp-repeatable-row-header">
+            <span>{field.label || field.key} {i + 1}</span>
+            <button type="button" className="fp-repeatable-remove" onClick={() => onChange(rows.filter((_, j) => j !== i))} title="Remove row">
+              <X size={12} />
+            </button>
+          </div>
+          {subFields.map(sub => {
+            const error = errors[`${field.key}[${i}].${sub.key}`];
+            return (
+              <div key={sub.key} className={`fp-field ${error ? "fp-field--invalid" : ""}`}>
+                <label className="fp-field-label">
+                  {sub.label || sub.key}
+                  {sub.required && <span className="fp-required">*</span>}
+                </label>
+                <FieldRenderer field={sub} value={row[sub.key]} onChange={v => updateRow(i, sub.key, v)} />
+                {error && <p className="fp-error">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+      <button type="button" className="fp-submit-btn fp-repeatable-add" onClick={() => onChange([...rows, {}])}>
+        <Plus size={12} /> Add {field.label || "row"}
+      </button>
+    </div>
+  );
+}
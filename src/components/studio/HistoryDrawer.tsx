@@ -0,0 +1,86 @@
+/**
+ * History drawer – labelled list of applied patches with undo/redo position
+ * and per-entry revert that keeps later edits.
+ */
+import { History, Undo2, Redo2, RotateCcw, Sparkles, User } from "lucide-react";
+import type { PatchHistory, HistoryEntry } from "@/lib/history/patchHistory";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+
+interface HistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  history: PatchHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (entryId: string) => void;
+  error?: string | null;
+}
+
+function EntryIcon({ entry }: { entry: HistoryEntry }) {
+  if (entry.source === "ai") return <Sparkles size={11} className="text-primary" />;
+  if (entry.source === "revert") return <RotateCcw size={11} className="text-muted-foreground" />;
+  return <User size={11} className="text-muted-foreground" />;
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export default function HistoryDrawer({ open, onOpenChange, history, onUndo, onRedo, onRevert, error }: HistoryDrawerProps) {
+  const past = [...history.past].reverse();
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-[360px] sm:max-w-[360px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2 text-base"><History size={16} /> History</SheetTitle>
+          <SheetDescription className="text-xs">
+            Ctrl+Z to undo, Ctrl+Shift+Z to redo. Revert undoes a single change and keeps everything after it.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2 mt-3">
+          <Button size="sm" variant="outline" disabled={history.past.length === 0} onClick={onUndo}><Undo2 size={13} /> Undo</Button>
+          <Button size="sm" variant="outline" disabled={history.future.length === 0} onClick={onRedo}><Redo2 size={13} /> Redo</Button>
+        </div>
+        {error && <div className="mt-2 text-[11px] text-destructive">{error}</div>}
+
+        <div className="flex-1 overflow-auto mt-3 space-y-1">
+          {history.future.length > 0 && (
+            <>
+              {history.future.slice().reverse().map(entry => (
+                <div key={entry.id} className="flex items-center gap-2 px-2 py-1.5 rounded text-[12px] opacity-50">
+                  <EntryIcon entry={entry} />
+                  <span className="flex-1 truncate line-through">{entry.label}</span>
+                  <span className="text-[10px] font-mono text-muted-foreground">undone</span>
+                </div>
+              ))}
+              <div className="border-t my-1" />
+            </>
+          )}
+          {past.length === 0 && history.future.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground text-xs border rounded-lg border-dashed">
+              No changes yet.
+            </div>
+          )}
+          {past.map((entry, i) => (
+            <div key={entry.id} className={`group flex items-center gap-2 px-2 py-1.5 rounded text-[12px] hover:bg-muted/60 ${i === 0 ? "bg-muted/40" : ""}`}>
+              <EntryIcon entry={entry} />
+              <div className="flex-1 min-w-0">
+                <div className={`truncate ${entry.revertedBy ? "line-through text-muted-foreground" : "text-foreground"}`}>{entry.label}</div>
+                <div className="text-[10px] font-mono text-muted-foreground">{formatTime(entry.at)} · {entry.patch.length} op{entry.patch.length === 1 ? "" : "s"}</div>
+              </div>
+              {!entry.revertedBy && (
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-[11px] opacity-0 group-hover:opacity-100"
+                  onClick={() => onRevert(entry.id)} title="Revert only this change">
+                  <RotateCcw size={11} /> Revert
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -3,18 +3,21 @@
  * Hierarchy: Section (Stage) → Groups → Steps
  * Visual design: Pega-style horizontal cards with group sub-sections inside each stage.
  */
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import {
   Plus, MoreHorizontal, ChevronDown, ChevronRight,
   Pencil, Copy, Trash2, GitBranch, Bot, User,
   Repeat2, ExternalLink, Zap, Bell, Layers,
   ArrowUp, ArrowDown, Timer, Mail, Radio, Play,
   Square, AlertTriangle, Settings, ZoomIn, ZoomOut, Maximize2, Minimize2, X,
-  Workflow, GripVertical, Users, UserPlus, Check,
+  Workflow, GripVertical, Users, UserPlus, Check, GitFork, GitMerge,
+  Undo2, ShieldAlert, TrendingUp, ToggleRight, Clock,
   type LucideIcon,
 } from "lucide-react";
-import type { CaseIR, Stage, Group, Step, StepType, SelectionTarget, Trigger, EndEvent, BoundaryEvent, FormTemplate, Persona } from "@/types/caseIr";
-import { getNodeDef } from "./automationNodes";
+import type { CaseIR, Stage, Group, Step, StepType, SelectionTarget, Trigger, EndEvent, BoundaryEvent, FormTemplate, Persona, EventSubProcess } from "@/types/caseIr";
+import { useNodeRegistry, getPinnedNodeDef, getNodeUpgrade } from "@/stores/nodeRegistryStore";
+import { estimatePath, formatSpan, type DurationEstimate, type StageEstimate } from "@/lib/sla/estimate";
+import { useBusinessCalendars } from "@/stores/businessCalendarStore";
 import ModulePicker from "./ModulePicker";
 import "./studio.css";
 
@@ -27,8 +30,30 @@ const STEP_TYPE_META: Record<StepType, { label: string; color: string; Icon: Luc
   foreach:           { label: "For Each",    color: "hsl(268 62% 52%)",  Icon: Repeat2 },
   callActivity:      { label: "Subprocess",  color: "hsl(193 72% 40%)",  Icon: ExternalLink },
   intermediateEvent: { label: "Wait/Event",  color: "hsl(199 80% 42%)",  Icon: Bell },
+  parallel:          { label: "Parallel",    color: "hsl(340 65% 48%)",  Icon: GitFork },
+  inclusive:         { label: "Inclusive",   color: "hsl(24 80% 46%)",   Icon: GitMerge },
 };
 
+/** Token-simulator overlay: the step holding the token and the steps already executed. */
+export interface SimulationHighlight {
+  activeStepId?: string;
+  visitedStepIds?: string[];
+}
+
+/** Another collaborator's selected step, drawn as a coloured outline. */
+export interface PeerHighlight {
+  clientId: string;
+  name: string;
+  color: string;
+  stepId: string;
+}
+
+function simStateOf(simulation: SimulationHighlight | undefined, stepId: string): "active" | "visited" | undefined {
+  if (!simulation) return undefined;
+  if (simulation.activeStepId === stepId) return "active";
+  return simulation.visitedStepIds?.includes(stepId) ? "visited" : undefined;
+}
+
 const SECTION_COLORS = [
   "hsl(152 68% 38%)",
   "hsl(252 60% 52%)",
@@ -83,10 +108,50 @@ function ContextMenu({ menu, onRename, onDuplicate, onDelete, onMoveUp, onMoveDo
   );
 }
 
+// ─── Gateway branch lanes ──────────────────────────────────────────────────────
+
+/** Side-by-side lanes for parallel / inclusive steps; nested blocks render recursively. */
+function BranchLanes({ step, simulation }: { step: Step; simulation?: SimulationHighlight }) {
+  if (step.type !== "parallel" && step.type !== "inclusive") return null;
+  const meta = STEP_TYPE_META[step.type];
+  return (
+    <div className="flex gap-1 mt-1.5 items-stretch">
+      {step.branches.map(br => (
+        <div key={br.id} className="branch-lane flex-1 min-w-0 rounded-sm px-1.5 py-1 space-y-0.5"
+          style={{ "--dynamic-color": meta.color } as React.CSSProperties}>
+          <div className="text-[9px] font-semibold text-foreground truncate" title={br.label}>
+            {br.label}
+            {step.type === "inclusive" && step.defaultBranchId === br.id && (
+              <span className="ml-1 text-[8px] font-normal italic text-foreground-subtle">default</span>
+            )}
+          </div>
+          {step.type === "inclusive" && br.condition && (
+            <div className="text-[8px] font-mono truncate text-foreground-subtle" title={br.condition}>{br.condition}</div>
+          )}
+          {br.steps.map(s => {
+            const sim = simStateOf(simulation, s.id);
+            return (
+              <div key={s.id} className={`branch-lane-chip rounded px-1 py-0.5 ${sim ? `branch-lane-chip--sim-${sim}` : ""}`}>
+                <div className="flex items-center gap-1 text-[9px] min-w-0">
+                  <div className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ background: STEP_TYPE_META[s.type].color }} />
+                  <span className="truncate text-foreground">{s.name}</span>
+                </div>
+                <BranchLanes step={s} simulation={simulation} />
+              </div>
+            );
+          })}
+          {br.steps.length === 0 && <div className="text-[8px] italic text-foreground-subtle">—</div>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // ─── Step row ──────────────────────────────────────────────────────────────────
 
-function StepRow({ step, color, selected, onSelect, onContextMenu, onBoundaryClick, onDropNewForm, onDropNode, stageId, groupId, formTemplates, personas, onTogglePersona }: {
-  step: Step; color: string; selected: boolean;
+function StepRow({ step, color, selected, simState, simulation, peers, onSelect, onContextMenu, onBoundaryClick, onDropNewForm, onDropNode, stageId, groupId, formTemplates, personas, onTogglePersona }: {
+  step: Step; color: string; selected: boolean; simState?: "active" | "visited"; simulation?: SimulationHighlight;
+  peers?: PeerHighlight[];
   onSelect: () => void; onContextMenu: (e: React.MouseEvent) => void;
   onBoundaryClick?: (boundaryEventId: string) => void;
   onDropNewForm?: (stageId: string, groupId: string, stepId: string) => void;
@@ -100,6 +165,8 @@ function StepRow({ step, color, selected, onSelect, onContextMenu, onBoundaryCli
   const [dragOver, setDragOver] = useState(false);
   const [showPersonaPicker, setShowPersonaPicker] = useState(false);
   const personaPickerRef = useRef<HTMLDivElement>(null);
+  // Re-render node badges once published node versions load
+  useNodeRegistry(s => s.versions);
   const meta = STEP_TYPE_META[step.type];
   const inputCount = step.tech?.inputParameters?.length ?? 0;
   const outputCount = step.tech?.outputParameters?.length ?? 0;
@@ -111,11 +178,13 @@ function StepRow({ step, color, selected, onSelect, onContextMenu, onBoundaryCli
     if (step.messageRef) subLabel += ` · ${step.messageRef}`;
   }
   if (step.type === "foreach") subLabel = `For Each · ${step.elementVariable || step.collectionExpression}`;
+  if (step.type === "parallel" || step.type === "inclusive") subLabel = `${meta.label} · ${step.branches.length} branches`;
 
   return (
     <div
-      className={`group relative rounded-md cursor-pointer transition-all step-row ${selected ? "step-row--selected" : ""} ${dragOver ? "ring-2 ring-primary ring-offset-1" : ""}`}
-      style={{ "--dynamic-color": color } as React.CSSProperties}
+      className={`group relative rounded-md cursor-pointer transition-all step-row ${selected ? "step-row--selected" : ""} ${simState ? `step-row--sim-${simState}` : ""} ${dragOver ? "ring-2 ring-primary ring-offset-1" : ""}`}
+      style={{ "--dynamic-color": color, ...(peers?.length ? { "--peer-color": peers[0].color } : {}) } as React.CSSProperties}
+      data-peer-selected={peers?.length ? "" : undefined}
       onClick={onSelect} onMouseEnter={() => setHover(true)} onMouseLeave={() => setHover(false)}
       onDragOver={(e) => {
         if (e.dataTransfer.types.includes("application/x-new-form") || e.dataTransfer.types.includes("application/x-automation-node")) {
@@ -143,6 +212,13 @@ function StepRow({ step, color, selected, onSelect, onContextMenu, onBoundaryCli
         }
       }}
     >
+      {peers && peers.length > 0 && (
+        <div className="step-peer-tags">
+          {peers.map(p => (
+            <span key={p.clientId} className="step-peer-tag" style={{ "--peer-color": p.color } as React.CSSProperties}>{p.name}</span>
+          ))}
+        </div>
+      )}
       <div className="flex items-start gap-2.5 px-2.5 py-2">
         <div className="step-type-indicator" style={{ "--dynamic-color": meta.color } as React.CSSProperties} />
         <div className="flex-1 min-w-0">
@@ -157,15 +233,22 @@ function StepRow({ step, color, selected, onSelect, onContextMenu, onBoundaryCli
             </div>
           )}
           {step.moduleRef && (() => {
-            const nd = getNodeDef(step.moduleRef.moduleId);
+            const nd = getPinnedNodeDef(step.moduleRef);
             if (!nd) return null;
+            const upgrade = getNodeUpgrade(step.moduleRef);
             return (
               <div className="flex items-center gap-1 mt-1">
                 <span className="text-[9px] px-1.5 py-0.5 rounded font-medium flex items-center gap-0.5"
                   style={{ background: `${nd.color}18`, color: nd.color, border: `1px solid ${nd.color}30` }}>
                   <Zap size={7} />
                   {nd.name}
+                  <span className="font-mono opacity-70">v{nd.version}</span>
                 </span>
+                {upgrade && (
+                  <span className="step-node-upgrade text-[9px] px-1 py-0.5 rounded font-mono" title={`Version ${upgrade.version} is available – select the step to upgrade`}>
+                    ↑ {upgrade.version}
+                  </span>
+                )}
               </div>
             );
           })()}
@@ -202,6 +285,7 @@ function StepRow({ step, color, selected, onSelect, onContextMenu, onBoundaryCli
               )}
             </div>
           )}
+          <BranchLanes step={step} simulation={simulation} />
           {step.boundaryEvents && step.boundaryEvents.length > 0 && (
             <div className="flex items-center gap-1 mt-1 flex-wrap">
               {step.boundaryEvents.map(be => (
@@ -217,6 +301,15 @@ function StepRow({ step, color, selected, onSelect, onContextMenu, onBoundaryCli
               ))}
             </div>
            )}
+          {step.compensation && (
+            <div className="flex items-center gap-1 mt-1">
+              <span className="compensation-badge text-[8px] px-1.5 py-0.5 rounded-full font-medium flex items-center gap-0.5"
+                title={`Compensated by "${step.compensation.activity.name}"`}>
+                <Undo2 size={7} />
+                Undo: {step.compensation.activity.name}
+              </span>
+            </div>
+          )}
           {/* Persona badges */}
           {(step.personaIds && step.personaIds.length > 0) && (
             <div className="flex items-center gap-1 mt-1 flex-wrap">
@@ -286,8 +379,9 @@ function StepRow({ step, color, selected, onSelect, onContextMenu, onBoundaryCli
 
 // ─── Group sub-section ─────────────────────────────────────────────────────────
 
-function GroupSection({ group, stageId, color, selection, onSelectGroup, onSelectStep, onAddStep, onInsertModule, onGroupCtx, onStepCtx, formTemplates, onAttachForm, onCreateNewForm, onDropNewForm, onDropNode, personas, onTogglePersona }: {
-  group: Group; stageId: string; color: string; selection: SelectionTarget;
+function GroupSection({ group, stageId, color, selection, simulation, peers, onSelectGroup, onSelectStep, onAddStep, onInsertModule, onGroupCtx, onStepCtx, formTemplates, onAttachForm, onCreateNewForm, onDropNewForm, onDropNode, personas, onTogglePersona }: {
+  group: Group; stageId: string; color: string; selection: SelectionTarget; simulation?: SimulationHighlight;
+  peers?: PeerHighlight[];
   onSelectGroup: (stageId: string, groupId: string) => void;
   onSelectStep: (stageId: string, groupId: string, stepId: string) => void;
   onAddStep: (stageId: string, groupId: string) => void;
@@ -360,6 +454,9 @@ function GroupSection({ group, stageId, color, selection, onSelectGroup, onSelec
               step={step}
               color={color}
               selected={selection?.kind === "step" && selection.stepId === step.id}
+              simState={simStateOf(simulation, step.id)}
+              simulation={simulation}
+              peers={peers?.filter(p => p.stepId === step.id)}
               onSelect={() => onSelectStep(stageId, group.id, step.id)}
               onContextMenu={e => onStepCtx(e, group.id, step.id)}
               onDropNewForm={onDropNewForm}
@@ -391,8 +488,22 @@ function GroupSection({ group, stageId, color, selection, onSelectGroup, onSelec
 
 // ─── Section card (Stage) ──────────────────────────────────────────────────────
 
-function SectionCard({ stage, stageIdx, color, selection, onSelectStage, onSelectGroup, onSelectStep, onAddStep, onInsertModule, onAddGroup, onStageCtx, onGroupCtx, onStepCtx, formTemplates, onAttachForm, onCreateNewForm, onDropNewForm, onDropNode, personas, onTogglePersona }: {
-  stage: Stage; stageIdx: number; color: string; selection: SelectionTarget;
+/** Expected duration from step SLAs and timers; "+n" counts steps nothing estimates */
+function ExpectedDuration({ estimate }: { estimate: DurationEstimate }) {
+  if (!estimate.expectedMs && !estimate.unestimated) return null;
+  return (
+    <span className="flex items-center gap-1 text-[10px] font-mono text-foreground-subtle"
+      title={estimate.unestimated ? `${estimate.unestimated} step(s) have no SLA or timer and are not counted` : "Expected duration from SLA targets and timers"}>
+      <Clock size={10} />~{formatSpan(estimate.expectedMs)}
+      {estimate.unestimated > 0 && <span className="opacity-70">+{estimate.unestimated}?</span>}
+    </span>
+  );
+}
+
+function SectionCard({ stage, stageIdx, color, selection, simulation, peers, estimate, onSelectStage, onSelectGroup, onSelectStep, onAddStep, onInsertModule, onAddGroup, onStageCtx, onGroupCtx, onStepCtx, formTemplates, onAttachForm, onCreateNewForm, onDropNewForm, onDropNode, personas, onTogglePersona }: {
+  stage: Stage; stageIdx: number; color: string; selection: SelectionTarget; simulation?: SimulationHighlight;
+  peers?: PeerHighlight[];
+  estimate?: StageEstimate;
   onSelectStage: (id: string) => void;
   onSelectGroup: (stageId: string, groupId: string) => void;
   onSelectStep: (stageId: string, groupId: string, stepId: string) => void;
@@ -444,6 +555,18 @@ function SectionCard({ stage, stageIdx, color, selection, onSelectStage, onSelec
         )}
       </div>
 
+      {estimate && (estimate.expectedMs > 0 || estimate.unestimated > 0 || estimate.targetMs !== null) && (
+        <div className="flex items-center gap-2 px-3 pb-1.5">
+          <ExpectedDuration estimate={estimate} />
+          {estimate.targetMs !== null && (
+            <span className={`text-[10px] font-mono ${estimate.expectedMs > estimate.targetMs ? "text-destructive" : "text-foreground-subtle"}`}
+              title={estimate.expectedMs > estimate.targetMs ? "Expected duration exceeds the stage SLA" : "Stage SLA target"}>
+              SLA {formatSpan(estimate.targetMs)}
+            </span>
+          )}
+        </div>
+      )}
+
       <div className="section-divider mx-3" />
 
       {!collapsed && (
@@ -455,6 +578,8 @@ function SectionCard({ stage, stageIdx, color, selection, onSelectStage, onSelec
               stageId={stage.id}
               color={color}
               selection={selection}
+              simulation={simulation}
+              peers={peers}
               onSelectGroup={onSelectGroup}
               onSelectStep={onSelectStep}
               onAddStep={onAddStep}
@@ -615,6 +740,50 @@ function AddBoundaryPicker({ steps, eventTypes, onAdd, onClose }: {
   );
 }
 
+// ─── Event handlers lane ───────────────────────────────────────────────────────
+
+const ESP_ICONS: Record<string, LucideIcon> = {
+  error: AlertTriangle, escalation: TrendingUp, message: Mail, signal: Radio,
+  timer: Timer, conditional: ToggleRight, compensation: Undo2,
+};
+
+function EventHandlerCard({ esp, selected, onClick }: {
+  esp: EventSubProcess; selected: boolean; onClick: () => void;
+}) {
+  const Icon = ESP_ICONS[esp.triggerType] ?? ShieldAlert;
+  const interrupting = esp.triggerType !== "compensation" && esp.interrupting !== false;
+  return (
+    <button
+      className={`event-handler-card flex-shrink-0 w-[220px] text-left rounded-xl border-2 border-dashed p-3 transition-all ${selected ? "event-handler-card--selected" : ""}`}
+      onClick={onClick}
+    >
+      <div className="flex items-center gap-2">
+        <div className="event-handler-icon w-7 h-7 rounded-full flex items-center justify-center flex-shrink-0">
+          <Icon size={13} />
+        </div>
+        <div className="min-w-0 flex-1">
+          <div className="text-[12px] font-semibold truncate text-foreground">{esp.name}</div>
+          <div className="text-[10px] truncate text-foreground-muted">
+            {esp.triggerType.charAt(0).toUpperCase() + esp.triggerType.slice(1)}
+            {esp.expression ? ` · ${esp.expression}` : ""}
+          </div>
+        </div>
+      </div>
+      {esp.triggerType !== "compensation" && (
+        <span className={`inline-block mt-2 text-[8px] px-1.5 py-0.5 rounded-full font-medium ${interrupting ? "boundary-badge--interrupting" : "boundary-badge--non-interrupting"}`}>
+          {interrupting ? "Interrupting" : "Non-interrupting"}
+        </span>
+      )}
+      <div className="flex items-center gap-1 mt-2 flex-wrap">
+        {esp.steps.map(s => (
+          <span key={s.id} className="branch-lane-chip text-[9px] px-1.5 py-0.5 rounded truncate max-w-[180px]">{s.name}</span>
+        ))}
+        {esp.steps.length === 0 && <span className="text-[9px] text-foreground-subtle">No steps</span>}
+      </div>
+    </button>
+  );
+}
+
 // ─── Main diagram ──────────────────────────────────────────────────────────────
 
 interface LifecycleDiagramProps {
@@ -657,6 +826,11 @@ interface LifecycleDiagramProps {
   onDropNewForm?: (stageId: string, groupId: string, stepId: string) => void;
   onDropNode?: (stageId: string, groupId: string, nodeId: string) => void;
   onToggleStepPersona?: (stageId: string, groupId: string, stepId: string, personaId: string) => void;
+  onSelectEventSubProcess: (eventSubProcessId: string) => void;
+  onAddEventSubProcess: () => void;
+  simulation?: SimulationHighlight;
+  /** Steps selected by other people editing the same workflow */
+  peers?: PeerHighlight[];
 }
 
 export default function LifecycleDiagram({
@@ -673,7 +847,7 @@ export default function LifecycleDiagram({
   onDuplicateAltStep, onDuplicateAltStage,
   onMoveAltStage, onMoveAltGroup, onMoveAltStep,
   formTemplates, onAttachForm, onCreateNewForm, onDropNewForm, onDropNode,
-  onToggleStepPersona,
+  onToggleStepPersona, onSelectEventSubProcess, onAddEventSubProcess, simulation, peers,
 }: LifecycleDiagramProps) {
   const [ctxMenu, setCtxMenu] = useState<CtxMenu | null>(null);
   const [altCtxMenu, setAltCtxMenu] = useState<CtxMenu | null>(null);
@@ -799,6 +973,11 @@ export default function LifecycleDiagram({
 
   // ── Alt path context menu handlers ──
   const altPaths = caseIr.alternativePaths ?? [];
+  const eventHandlers = caseIr.eventSubProcesses ?? [];
+  const calendars = useBusinessCalendars(s => s.calendars);
+  const mainEstimate = useMemo(() => estimatePath(caseIr.stages, caseIr.businessRules, calendars), [caseIr.stages, caseIr.businessRules, calendars]);
+  // Each alternative-path stage is a path of its own
+  const altEstimate = useMemo(() => estimatePath(caseIr.alternativePaths ?? [], caseIr.businessRules, calendars), [caseIr.alternativePaths, caseIr.businessRules, calendars]);
 
   const openAltStageCtx = useCallback((e: React.MouseEvent, stageId: string) => {
     e.preventDefault();
@@ -883,6 +1062,7 @@ export default function LifecycleDiagram({
         <div className="flex items-center gap-2 mb-3 px-1">
           <Workflow size={14} className="text-foreground-muted" />
           <span className="text-[11px] font-bold uppercase tracking-widest text-foreground-muted">Main Flow</span>
+          <ExpectedDuration estimate={mainEstimate} />
           <div className="lane-divider--solid flex-1 h-px" />
         </div>
         <div className="flex gap-3 items-start">
@@ -893,7 +1073,8 @@ export default function LifecycleDiagram({
           </div>
           {caseIr.stages.map((stage, i) => (
             <SectionCard key={stage.id} stage={stage} stageIdx={i}
-              color={stage.color || SECTION_COLORS[i % SECTION_COLORS.length]} selection={selection}
+              color={stage.color || SECTION_COLORS[i % SECTION_COLORS.length]} selection={selection} simulation={simulation} peers={peers}
+              estimate={mainEstimate.stages[i]}
               onSelectStage={onSelectStage} onSelectGroup={onSelectGroup} onSelectStep={onSelectStep}
               onAddStep={onAddStep} onInsertModule={onInsertModule} onAddGroup={onAddGroup}
               onStageCtx={openStageCtx} onGroupCtx={openGroupCtx} onStepCtx={openStepCtx}
@@ -922,7 +1103,8 @@ export default function LifecycleDiagram({
         <div className="flex gap-3 items-start">
           {altPaths.map((stage, i) => (
             <SectionCard key={stage.id} stage={stage} stageIdx={i}
-              color={stage.color || SECTION_COLORS[(i + 3) % SECTION_COLORS.length]} selection={selection}
+              color={stage.color || SECTION_COLORS[(i + 3) % SECTION_COLORS.length]} selection={selection} simulation={simulation} peers={peers}
+              estimate={altEstimate.stages[i]}
               onSelectStage={onSelectStage} onSelectGroup={onSelectGroup} onSelectStep={onSelectStep}
               onAddStep={onAddAltStep} onInsertModule={onInsertModule} onAddGroup={onAddAltGroup}
               onStageCtx={openAltStageCtx} onGroupCtx={openAltGroupCtx} onStepCtx={openAltStepCtx}
@@ -935,6 +1117,31 @@ export default function LifecycleDiagram({
           </button>
         </div>
       </div>
+
+      {/* Event Handlers lane (event sub-processes) */}
+      <div className="mt-3">
+        <div className="flex items-center gap-2 mb-3 px-1">
+          <ShieldAlert size={14} className="text-foreground-muted" />
+          <span className="text-[11px] font-bold uppercase tracking-widest text-foreground-muted">
+            Event Handlers
+            {eventHandlers.length > 0 && (
+              <span className="alt-path-count ml-1.5 text-[9px] font-mono px-1 py-0.5 rounded">{eventHandlers.length}</span>
+            )}
+          </span>
+          <div className="lane-divider--dashed flex-1 h-px" />
+        </div>
+        <div className="flex gap-3 items-start">
+          {eventHandlers.map(esp => (
+            <EventHandlerCard key={esp.id} esp={esp}
+              selected={selection?.kind === "eventSubProcess" && selection.eventSubProcessId === esp.id}
+              onClick={() => onSelectEventSubProcess(esp.id)} />
+          ))}
+          <button className="add-section-btn add-alt-btn flex-shrink-0 flex flex-col items-center justify-center gap-1 rounded-xl border-2 border-dashed transition-all"
+            onClick={onAddEventSubProcess}>
+            <ShieldAlert size={18} /><span className="text-[10px] font-medium">Add Handler</span>
+          </button>
+        </div>
+      </div>
     </div>
   );
 
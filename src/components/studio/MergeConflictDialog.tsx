@@ -0,0 +1,105 @@
+/**
+ * MergeConflictDialog – resolves conflicts between the Studio's unsaved edits and a
+ * revision someone else saved meanwhile. Each conflict shows base / yours / theirs side by side.
+ */
+import { useState } from "react";
+import { GitMerge } from "lucide-react";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { ConflictChoice, MergeConflict } from "@/lib/revisions/threeWayMerge";
+
+interface MergeConflictDialogProps {
+  open: boolean;
+  conflicts: MergeConflict[];
+  /** Label for the other side, e.g. "Revision #12 by ana@example.com" */
+  theirsLabel: string;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onCancel: () => void;
+}
+
+function formatValue(v: unknown): string {
+  if (v === undefined) return "(absent)";
+  if (typeof v === "string") return v;
+  return JSON.stringify(v, null, 2);
+}
+
+function ValueCell({ value, selected, onClick }: { value: unknown; selected?: boolean; onClick?: () => void }) {
+  const body = <pre className="text-[11px] whitespace-pre-wrap break-all font-mono max-h-32 overflow-y-auto">{formatValue(value)}</pre>;
+  if (!onClick) return <div className="rounded-md border bg-muted/40 px-2 py-1.5 text-muted-foreground">{body}</div>;
+  return (
+    <button
+      onClick={onClick}
+      className={`rounded-md border px-2 py-1.5 text-left transition-colors ${selected ? "border-primary bg-primary/10" : "hover:bg-accent"}`}
+    >
+      {body}
+    </button>
+  );
+}
+
+export default function MergeConflictDialog({ open, conflicts, theirsLabel, onResolve, onCancel }: MergeConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const choose = (key: string, choice: ConflictChoice) => setChoices(prev => ({ ...prev, [key]: choice }));
+  const chooseAll = (choice: ConflictChoice) => setChoices(Object.fromEntries(conflicts.map(c => [c.key, choice])));
+  const resolved = conflicts.every(c => choices[c.key]);
+
+  const handleClose = () => {
+    setChoices({});
+    onCancel();
+  };
+
+  const handleResolve = () => {
+    onResolve(choices);
+    setChoices({});
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={v => { if (!v) handleClose(); }}>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge size={18} className="text-primary" />
+            Resolve merge conflicts
+          </DialogTitle>
+          <DialogDescription>
+            {theirsLabel} was saved while you were editing. Non-conflicting changes were merged automatically;
+            pick a side for each of the {conflicts.length} conflict{conflicts.length === 1 ? "" : "s"} below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-xs">
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => chooseAll("ours")}>Keep all mine</Button>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => chooseAll("theirs")}>Take all theirs</Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+          <div className="grid grid-cols-3 gap-2 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground sticky top-0 bg-background py-1">
+            <span>Base</span><span>Yours</span><span>Theirs</span>
+          </div>
+          {conflicts.map(c => (
+            <div key={c.key} className="space-y-1.5">
+              <div className="text-xs">
+                <span className="font-semibold">{c.element}</span>
+                <span className="text-muted-foreground"> › {c.field || "(element)"}</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <ValueCell value={c.base} />
+                <ValueCell value={c.ours} selected={choices[c.key] === "ours"} onClick={() => choose(c.key, "ours")} />
+                <ValueCell value={c.theirs} selected={choices[c.key] === "theirs"} onClick={() => choose(c.key, "theirs")} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="flex gap-2 sm:gap-2">
+          <Button variant="outline" size="sm" onClick={handleClose}>Cancel</Button>
+          <Button size="sm" onClick={handleResolve} disabled={!resolved} className="gap-1.5">
+            <GitMerge size={14} />
+            Save merged revision
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,9 +22,9 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ArrowRight, GripVertical, Zap, ChevronRight, Save, Loader2 } from "lucide-react";
-import type { Step } from "@/types/caseIr";
+import type { NodeIoMapping, Step } from "@/types/caseIr";
 import type { AutomationNodeDef, NodeIoField } from "./automationNodes";
-import { getNodeDef } from "./automationNodes";
+import { useNodeRegistry, getPinnedNodeDef } from "@/stores/nodeRegistryStore";
 import { supabase } from "@/integrations/supabase/client";
 import NodeRaciSection, { EMPTY_RACI, type NodeRaci } from "./NodeRaciSection";
 import NodeAccessRulesSection from "./NodeAccessRulesSection";
@@ -38,15 +38,11 @@ interface NodeConfigDialogProps {
   onSave: (config: Record<string, unknown>, inputMappings: IoMapping[], outputMappings: IoMapping[]) => void;
 }
 
-export interface IoMapping {
-  sourceVariable: string;
-  sourceField: string;
-  targetField: string;
-}
+export type IoMapping = NodeIoMapping;
 
 function getStepNodeDef(step: Step | null): AutomationNodeDef | undefined {
   if (!step?.moduleRef) return undefined;
-  return getNodeDef(step.moduleRef.moduleId);
+  return getPinnedNodeDef(step.moduleRef);
 }
 
 function getPreviousOutputs(step: Step | null): NodeIoField[] {
@@ -159,6 +155,8 @@ export default function NodeConfigDialog({
   workflowId,
   onSave,
 }: NodeConfigDialogProps) {
+  // Re-render once published node versions load
+  useNodeRegistry(s => s.versions);
   const nodeDef = getStepNodeDef(currentStep);
   const prevDef = getStepNodeDef(previousStep);
 
@@ -177,8 +175,8 @@ export default function NodeConfigDialog({
       if (existing[key] !== undefined) initial[key] = existing[key];
     }
     setConfig(initial);
-    setInputMappings([]);
-    setOutputMappings([]);
+    setInputMappings(currentStep.moduleRef.inputMappings ?? []);
+    setOutputMappings(currentStep.moduleRef.outputMappings ?? []);
     setRaci(EMPTY_RACI);
 
     if (workflowId && currentStep.id && nodeDef.id) {
@@ -262,6 +260,7 @@ export default function NodeConfigDialog({
           <DialogTitle className="flex items-center gap-2 text-base">
             <Zap size={16} className="text-primary" />
             Configure: {nodeDef.name}
+            <Badge variant="outline" className="text-[10px] font-mono">v{nodeDef.version}</Badge>
           </DialogTitle>
           <DialogDescription className="text-xs">
             Map inputs from previous step, configure this node, and define outputs for downstream nodes.
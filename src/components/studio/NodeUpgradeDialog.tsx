@@ -0,0 +1,127 @@
+/**
+ * NodeUpgradeDialog – guided upgrade of a step to a newer automation node version.
+ * Lists what changed between the pinned and the new version, asks for the settings
+ * the new schema needs, and shows which current settings will be dropped.
+ */
+import { useState } from "react";
+import { AlertTriangle, ArrowUpCircle, Info } from "lucide-react";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { ModuleRef } from "@/types/caseIr";
+import { applyNodeUpgrade, valueFits, type NodeUpgradePlan, type UpgradeField } from "./nodeVersions";
+
+interface NodeUpgradeDialogProps {
+  plan: NodeUpgradePlan;
+  onUpgrade: (moduleRef: ModuleRef) => void;
+  onCancel: () => void;
+}
+
+function formatValue(v: unknown): string {
+  if (v === undefined || v === "") return "(empty)";
+  return typeof v === "string" ? v : JSON.stringify(v);
+}
+
+function FieldInput({ field, value, onChange }: { field: UpgradeField; value: unknown; onChange: (v: unknown) => void }) {
+  if (field.prop.enum) {
+    return (
+      <select className="studio-select w-full text-[12px] rounded-md px-2.5 py-1.5" value={String(value ?? "")} onChange={e => onChange(e.target.value)}>
+        <option value="">Select…</option>
+        {field.prop.enum.map(o => <option key={o} value={o}>{o}</option>)}
+      </select>
+    );
+  }
+  if (field.prop.type === "boolean") {
+    return <Switch checked={value === true || value === "true"} onCheckedChange={onChange} />;
+  }
+  return (
+    <Input
+      className="h-8 text-xs"
+      type={field.prop.type === "integer" || field.prop.type === "number" ? "number" : "text"}
+      value={String(value ?? "")}
+      placeholder={field.field?.hint ?? field.prop.description}
+      onChange={e => onChange(e.target.value)}
+    />
+  );
+}
+
+export default function NodeUpgradeDialog({ plan, onUpgrade, onCancel }: NodeUpgradeDialogProps) {
+  const [answers, setAnswers] = useState<Record<string, unknown>>({});
+  const required = (f: UpgradeField) => plan.to.inputSchema.required.includes(f.key);
+  const ready = plan.needsInput.every(f => valueFits(f.prop, answers[f.key], required(f)));
+  const dropped = Object.entries(plan.dropped);
+
+  return (
+    <Dialog open onOpenChange={v => { if (!v) onCancel(); }}>
+      <DialogContent className="sm:max-w-xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowUpCircle size={18} className="text-primary" />
+            Upgrade {plan.to.name}
+          </DialogTitle>
+          <DialogDescription>
+            From version {plan.from.version} to {plan.to.version}.
+            {plan.changes.length === 0 && " The node's settings and outputs are unchanged."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {plan.changes.length > 0 && (
+            <section className="space-y-1.5">
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">What changed</h4>
+              {plan.changes.map(c => (
+                <div key={`${c.kind}:${c.field}`} className="flex items-start gap-2 text-xs">
+                  {c.breaking
+                    ? <AlertTriangle size={12} className="text-destructive mt-0.5 flex-shrink-0" />
+                    : <Info size={12} className="text-muted-foreground mt-0.5 flex-shrink-0" />}
+                  <span>{c.message}</span>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {plan.needsInput.length > 0 && (
+            <section className="space-y-2">
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Settings to fill in</h4>
+              {plan.needsInput.map(f => (
+                <div key={f.key} className="space-y-1">
+                  <Label className="text-xs">
+                    {f.field?.label ?? f.key}
+                    {required(f) && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <FieldInput field={f} value={answers[f.key]} onChange={v => setAnswers(prev => ({ ...prev, [f.key]: v }))} />
+                  <p className="text-[10px] text-muted-foreground">
+                    {f.reason}{f.current !== undefined && f.current !== "" ? ` (currently ${formatValue(f.current)})` : ""}
+                  </p>
+                </div>
+              ))}
+            </section>
+          )}
+
+          {dropped.length > 0 && (
+            <section className="space-y-1">
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Settings that will be removed</h4>
+              {dropped.map(([k, v]) => (
+                <div key={k} className="text-xs font-mono">
+                  {k} <span className="text-muted-foreground">= {formatValue(v)}</span>
+                </div>
+              ))}
+            </section>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 sm:gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>Cancel</Button>
+          <Button size="sm" disabled={!ready} onClick={() => onUpgrade(applyNodeUpgrade(plan, answers))} className="gap-1.5">
+            <ArrowUpCircle size={14} />
+            Upgrade to {plan.to.version}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,19 +1,25 @@
 /**
  * NodesPanel – draggable automation node palette for the Studio.
  * Nodes can be dragged onto stages/groups in the lifecycle diagram.
+ * Lists the newest version of every node in the registry (built-in and published).
  */
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   Mail, FileSpreadsheet, Brain, Columns3, Send,
   ChevronDown, ChevronRight, GripVertical, ArrowRight,
-  ShieldCheck,
+  ShieldCheck, Puzzle, Database, Globe, Webhook, FileText, MessageSquare, Bell, Cloud, Code, PackagePlus,
   type LucideIcon,
 } from "lucide-react";
-import { AUTOMATION_NODES, type AutomationNodeDef } from "./automationNodes";
+import type { AutomationNodeDef } from "./automationNodes";
+import PublishNodeDialog from "./PublishNodeDialog";
+import { useAuthz } from "@/contexts/AuthzContext";
+import { useNodeRegistry, latestNodeDefs } from "@/stores/nodeRegistryStore";
 import "./studio.css";
 
+/** Icons a node definition may name; anything else falls back to Puzzle */
 const ICON_MAP: Record<string, LucideIcon> = {
   Mail, FileSpreadsheet, Brain, Columns3, Send, ShieldCheck,
+  Puzzle, Database, Globe, Webhook, FileText, MessageSquare, Bell, Cloud, Code,
 };
 
 const CATEGORY_LABELS: Record<string, string> = {
@@ -25,7 +31,7 @@ const CATEGORY_LABELS: Record<string, string> = {
 };
 
 function NodeCard({ node }: { node: AutomationNodeDef }) {
-  const Icon = ICON_MAP[node.icon] ?? Mail;
+  const Icon = ICON_MAP[node.icon] ?? Puzzle;
 
   return (
     <div
@@ -45,7 +51,10 @@ function NodeCard({ node }: { node: AutomationNodeDef }) {
         <Icon size={14} />
       </div>
       <div className="flex-1 min-w-0">
-        <div className="text-[11px] font-semibold text-foreground truncate">{node.name}</div>
+        <div className="flex items-center gap-1">
+          <span className="text-[11px] font-semibold text-foreground truncate">{node.name}</span>
+          <span className="text-[8px] font-mono text-foreground-subtle flex-shrink-0">v{node.version}</span>
+        </div>
         <div className="text-[9px] text-foreground-muted truncate">{node.description}</div>
       </div>
       <ArrowRight size={10} className="text-foreground-subtle flex-shrink-0 opacity-40" />
@@ -75,13 +84,26 @@ function CategoryGroup({ category, nodes }: { category: string; nodes: Automatio
 }
 
 export default function NodesPanel() {
-  const categories = Array.from(new Set(AUTOMATION_NODES.map(n => n.category)));
+  const { can } = useAuthz();
+  const versions = useNodeRegistry(s => s.versions);
+  const nodes = useMemo(() => latestNodeDefs(versions), [versions]);
+  const categories = Array.from(new Set(nodes.map(n => n.category)));
+  const [publishOpen, setPublishOpen] = useState(false);
 
   return (
     <div className="h-full flex flex-col">
       <div className="px-3 py-2 border-b flex-shrink-0">
-        <div className="text-[10px] font-bold uppercase tracking-widest text-foreground-muted">
+        <div className="flex items-center text-[10px] font-bold uppercase tracking-widest text-foreground-muted">
           Automation Nodes
+          {can("node.add") && (
+            <button
+              className="ml-auto text-foreground-subtle hover:text-foreground transition-colors"
+              onClick={() => setPublishOpen(true)}
+              title="Publish a node or a new node version"
+            >
+              <PackagePlus size={12} />
+            </button>
+          )}
         </div>
         <div className="text-[9px] text-foreground-subtle mt-0.5">
           Drag a node onto any group to add it as a step
@@ -93,7 +115,7 @@ export default function NodesPanel() {
           <CategoryGroup
             key={cat}
             category={cat}
-            nodes={AUTOMATION_NODES.filter(n => n.category === cat)}
+            nodes={nodes.filter(n => n.category === cat)}
           />
         ))}
       </div>
@@ -117,6 +139,8 @@ export default function NodesPanel() {
           <span className="px-1.5 py-0.5 rounded" style={{ background: "hsl(0 70% 50% / 0.12)" }}>Failure / End</span>
         </div>
       </div>
+
+      <PublishNodeDialog open={publishOpen} onOpenChange={setPublishOpen} nodes={nodes} />
     </div>
   );
 }
@@ -59,8 +59,8 @@ export default function PersonasPanel({ caseIr, onPatch }: PersonasPanelProps) {
     setNewName(""); setNewRole(""); setAdding(false); setBusy(false);
   };
 
-  const handleDelete = (idx: number) => {
-    onPatch([{ op: "remove", path: `/personas/${idx}` }]);
+  const handleDelete = (id: string) => {
+    onPatch([{ op: "remove", path: `/personas[id=${id}]` }]);
   };
 
   return (
@@ -101,7 +101,7 @@ export default function PersonasPanel({ caseIr, onPatch }: PersonasPanelProps) {
             </TableRow>
           </TableHeader>
           <TableBody>
-            {personas.map((p, i) => (
+            {personas.map(p => (
               <TableRow key={p.id}>
                 <TableCell className="font-medium">{p.name}</TableCell>
                 <TableCell>{p.role}</TableCell>
@@ -111,7 +111,7 @@ export default function PersonasPanel({ caseIr, onPatch }: PersonasPanelProps) {
                   )) : <span className="text-muted-foreground text-xs">—</span>}
                 </TableCell>
                 <TableCell>
-                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(i)}>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(p.id)}>
                     <Trash2 size={13} className="text-destructive" />
                   </Button>
                 </TableCell>
@@ -0,0 +1,34 @@
+/**
+ * PresenceAvatars – who else has this workflow open in the Studio.
+ * One avatar per person, even when they have several tabs open.
+ */
+import type { Collaborator } from "@/hooks/use-collaboration";
+import "./studio.css";
+
+const MAX_SHOWN = 4;
+
+function initials(name: string): string {
+  const parts = name.replace(/@.*/, "").split(/[\s._-]+/).filter(Boolean);
+  return (parts.length > 1 ? parts[0][0] + parts[1][0] : name.slice(0, 2)).toUpperCase();
+}
+
+export default function PresenceAvatars({ peers }: { peers: Collaborator[] }) {
+  const people = [...new Map(peers.map(p => [p.userId, p])).values()];
+  if (people.length === 0) return null;
+  const hidden = people.length - MAX_SHOWN;
+
+  return (
+    <div className="flex items-center" title={`Also editing: ${people.map(p => p.name).join(", ")}`}>
+      {people.slice(0, MAX_SHOWN).map(p => (
+        <div key={p.userId} className="presence-avatar" style={{ "--peer-color": p.color } as React.CSSProperties}>
+          {initials(p.name)}
+        </div>
+      ))}
+      {hidden > 0 && (
+        <div className="presence-avatar" style={{ "--peer-color": "hsl(var(--foreground-muted))" } as React.CSSProperties}>
+          +{hidden}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * Problems panel – lint issues for the current case, grouped by severity.
+ * Clicking an issue selects the offending element in the diagram.
+ */
+import { useState } from "react";
+import { AlertCircle, AlertTriangle, Info, X, CheckCircle2, type LucideIcon } from "lucide-react";
+import type { LintIssue, LintSeverity } from "@/lib/linter/types";
+import { countBySeverity } from "@/lib/linter/linter";
+import "./studio.css";
+
+const SEVERITY_META: Record<LintSeverity, { icon: LucideIcon; label: string }> = {
+  error: { icon: AlertCircle, label: "Errors" },
+  warning: { icon: AlertTriangle, label: "Warnings" },
+  info: { icon: Info, label: "Info" },
+};
+
+const SEVERITIES: LintSeverity[] = ["error", "warning", "info"];
+
+export default function ProblemsPanel({ issues, onSelectIssue, onClose }: {
+  issues: LintIssue[];
+  onSelectIssue: (issue: LintIssue) => void;
+  onClose: () => void;
+}) {
+  const [hidden, setHidden] = useState<Set<LintSeverity>>(new Set());
+  const counts = countBySeverity(issues);
+  const visible = issues.filter(i => !hidden.has(i.severity));
+
+  const toggle = (s: LintSeverity) => setHidden(prev => {
+    const next = new Set(prev);
+    if (next.has(s)) next.delete(s);
+    else next.add(s);
+    return next;
+  });
+
+  return (
+    <div className="problems-panel h-[180px] flex-shrink-0 border-t flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b flex-shrink-0">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-foreground-muted">Problems</span>
+        {SEVERITIES.map(s => {
+          const { icon: Icon, label } = SEVERITY_META[s];
+          return (
+            <button
+              key={s}
+              onClick={() => toggle(s)}
+              className={`problem-filter problem-filter--${s} inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium transition-opacity ${hidden.has(s) ? "opacity-40" : ""}`}
+              title={`${hidden.has(s) ? "Show" : "Hide"} ${label.toLowerCase()}`}
+            >
+              <Icon size={10} /> {counts[s]}
+            </button>
+          );
+        })}
+        <button
+          onClick={onClose}
+          className="hover-btn ml-auto w-6 h-6 rounded flex items-center justify-center transition-colors"
+          title="Close Problems"
+        >
+          <X size={12} />
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        {issues.length === 0 ? (
+          <div className="flex items-center gap-2 px-3 py-3 text-[11px] text-foreground-muted">
+            <CheckCircle2 size={12} className="text-primary" /> No problems found
+          </div>
+        ) : (
+          visible.map((issue, i) => {
+            const Icon = SEVERITY_META[issue.severity].icon;
+            return (
+              <button
+                key={`${issue.ruleId}:${issue.path}:${i}`}
+                onClick={() => onSelectIssue(issue)}
+                disabled={!issue.target}
+                className="problem-row w-full flex items-start gap-2 px-3 py-1 text-left text-[11px] transition-colors"
+              >
+                <Icon size={11} className={`problem-icon--${issue.severity} mt-0.5 flex-shrink-0`} />
+                <span className="flex-1 min-w-0 text-foreground">{issue.message}</span>
+                <span className="flex-shrink-0 font-mono text-[9px] text-foreground-subtle truncate max-w-[40%]" title={issue.path}>
+                  {issue.ruleId} · {issue.path || "/"}
+                </span>
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@
 import { X, Settings2, PanelRightClose, PanelRightOpen } from "lucide-react";
 import type { CaseIR, SelectionTarget, Stage, Group, JsonPatch } from "@/types/caseIr";
 import StepPropertiesPanel from "./properties/StepPropertiesPanel";
-import { TriggerPropertiesPanel, EndEventPropertiesPanel, BoundaryEventPropertiesPanel } from "./properties/EventPropertiesPanel";
+import { TriggerPropertiesPanel, EndEventPropertiesPanel, BoundaryEventPropertiesPanel, EventSubProcessPropertiesPanel } from "./properties/EventPropertiesPanel";
 import { StagePropertiesPanel, GroupPropertiesPanel, ProcessPropertiesPanel } from "./properties/ProcessPropertiesPanel";
 import "./studio.css";
 
@@ -156,10 +156,27 @@ export default function PropertiesPanel({
     if (!step?.boundaryEvents) return null;
     const be = step.boundaryEvents.find(b => b.id === selection.boundaryEventId);
     if (!be) return null;
-    const bePath = `${loc.arrayPath}/${loc.index}/groups/${gi}/steps/${sti}/boundaryEvents/${step.boundaryEvents.indexOf(be)}`;
+    const bePath = `${loc.arrayPath}[id=${loc.stage.id}]/groups[id=${group.id}]/steps[id=${step.id}]/boundaryEvents[id=${be.id}]`;
     return (
       <PanelShell title="Boundary Event" subtitle={be.name} onClose={onClose} onToggleCollapse={onToggleCollapse}>
-        <BoundaryEventPropertiesPanel boundaryEvent={be} basePath={bePath} onPatch={onPatch} />
+        <BoundaryEventPropertiesPanel boundaryEvent={be} basePath={bePath} calendarRef={step.calendarRef} onPatch={onPatch} />
+      </PanelShell>
+    );
+  }
+
+  if (selection.kind === "eventSubProcess") {
+    const handlers = caseIr.eventSubProcesses ?? [];
+    const ei = handlers.findIndex(e => e.id === selection.eventSubProcessId);
+    if (ei < 0) return null;
+    const esp = handlers[ei];
+    return (
+      <PanelShell title="Event Handler" subtitle={esp.name} onClose={onClose} onToggleCollapse={onToggleCollapse}>
+        <EventSubProcessPropertiesPanel
+          eventSubProcess={esp}
+          basePath={`/eventSubProcesses[id=${esp.id}]`}
+          onPatch={onPatch}
+          onDelete={() => { onPatch([{ op: "remove", path: `/eventSubProcesses[id=${esp.id}]` }]); onClose(); }}
+        />
       </PanelShell>
     );
   }
@@ -168,7 +185,8 @@ export default function PropertiesPanel({
   const loc = findStageLocation(caseIr, selection.stageId);
   if (!loc) return null;
   const { stage, arrayPath, index: si } = loc;
-  const stagePath = `${arrayPath}/${si}`;
+  // Panels address elements by id so their edits survive reorders
+  const stagePath = `${arrayPath}[id=${stage.id}]`;
 
   let title = "Stage";
   let subtitle = stage.name;
@@ -184,14 +202,14 @@ export default function PropertiesPanel({
     if (selection.kind === "group") {
       title = "Group";
       subtitle = group.name;
-      content = <GroupPropertiesPanel group={group} basePath={`${stagePath}/groups/${gi}`} onPatch={onPatch} />;
+      content = <GroupPropertiesPanel group={group} basePath={`${stagePath}/groups[id=${group.id}]`} onPatch={onPatch} />;
     } else {
       const sti = findStepIndex(group, selection.stepId);
       const step = group.steps[sti];
       if (!step) return null;
       title = "Step";
       subtitle = step.name;
-      content = <StepPropertiesPanel step={step} basePath={`${stagePath}/groups/${gi}/steps/${sti}`} onPatch={onPatch} formTemplates={caseIr.formTemplates ?? []} caseIr={caseIr} />;
+      content = <StepPropertiesPanel step={step} basePath={`${stagePath}/groups[id=${group.id}]/steps[id=${step.id}]`} onPatch={onPatch} formTemplates={caseIr.formTemplates ?? []} caseIr={caseIr} />;
     }
   }
 
@@ -0,0 +1,146 @@
+/**
+ * PublishNodeDialog – publish a custom automation node, or a new version of an existing one,
+ * to the node registry. The definition is edited as JSON (AutomationNodeDef).
+ */
+import { useMemo, useState } from "react";
+import { Loader2, PackagePlus } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { auditLog } from "@/lib/audit/log";
+import { useNodeRegistry } from "@/stores/nodeRegistryStore";
+import type { AutomationNodeDef } from "./automationNodes";
+import { bumpMinor, compareSemver, normalizeNodeDef, validateNodeDef } from "./nodeVersions";
+
+interface PublishNodeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Latest version of every node, offered as starting points */
+  nodes: AutomationNodeDef[];
+}
+
+const NEW_NODE_TEMPLATE = {
+  id: "my-connector",
+  version: "1.0.0",
+  name: "My Connector",
+  description: "What the node does",
+  icon: "Puzzle",
+  color: "hsl(220 14% 46%)",
+  topic: "my-connector-execute",
+  category: "communication",
+  inputSchema: {
+    type: "object",
+    properties: {
+      outputVariable: { type: "string", description: "Variable name for downstream nodes", default: "myConnectorResult" },
+    },
+    required: ["outputVariable"],
+  },
+  outputSchema: { type: "object", properties: {}, required: [] },
+  defaultConfig: { outputVariable: "myConnectorResult" },
+};
+
+function templateFor(node: AutomationNodeDef | undefined): string {
+  return JSON.stringify(node ? { ...node, version: bumpMinor(node.version) } : NEW_NODE_TEMPLATE, null, 2);
+}
+
+export default function PublishNodeDialog({ open, onOpenChange, nodes }: PublishNodeDialogProps) {
+  const publish = useNodeRegistry(s => s.publish);
+  const [baseId, setBaseId] = useState("");
+  const [json, setJson] = useState(() => templateFor(undefined));
+  const [changelog, setChangelog] = useState("");
+  const [publishing, setPublishing] = useState(false);
+
+  const { def, errors } = useMemo(() => {
+    let parsed: AutomationNodeDef;
+    try {
+      parsed = JSON.parse(json);
+    } catch (e) {
+      return { def: null, errors: [`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+    const errs = validateNodeDef(parsed);
+    const latest = nodes.find(n => n.id === parsed.id);
+    if (latest && parsed.version && compareSemver(parsed.version, latest.version) <= 0) {
+      errs.push(`version must be greater than the latest published version ${latest.version}`);
+    }
+    return { def: parsed, errors: errs };
+  }, [json, nodes]);
+
+  const startFrom = (id: string) => {
+    setBaseId(id);
+    setJson(templateFor(nodes.find(n => n.id === id)));
+  };
+
+  const handlePublish = async () => {
+    if (!def || errors.length > 0) return;
+    setPublishing(true);
+    try {
+      const record = await publish(normalizeNodeDef(def), changelog.trim());
+      await auditLog({
+        action: "node.version.publish", resourceType: "automation_node", resourceId: record.def.id,
+        decision: "ALLOW", metadata: { version: record.def.version },
+      });
+      toast.success(`Published ${record.def.name} ${record.def.version}`);
+      setChangelog("");
+      onOpenChange(false);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Publish failed");
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackagePlus size={18} className="text-primary" />
+            Publish automation node
+          </DialogTitle>
+          <DialogDescription>
+            Published versions are immutable. Steps stay on the version they were created with until a designer upgrades them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+          <div className="space-y-1">
+            <Label className="text-xs">Start from</Label>
+            <select className="studio-select w-full text-[12px] rounded-md px-2.5 py-1.5" value={baseId} onChange={e => startFrom(e.target.value)}>
+              <option value="">New node</option>
+              {nodes.map(n => <option key={n.id} value={n.id}>New version of {n.name} (latest {n.version})</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Definition</Label>
+            <Textarea className="font-mono text-[11px] min-h-[320px]" value={json} onChange={e => setJson(e.target.value)} spellCheck={false} />
+            <p className="text-[10px] text-muted-foreground">
+              Config fields are derived from inputSchema when <code>configFields</code> is left out.
+            </p>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Changelog</Label>
+            <Input className="h-8 text-xs" value={changelog} onChange={e => setChangelog(e.target.value)} placeholder="What changed in this version" />
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-[11px] text-destructive space-y-0.5 list-disc pl-4">
+              {errors.map(e => <li key={e}>{e}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 sm:gap-2">
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button size="sm" disabled={!def || errors.length > 0 || publishing} onClick={handlePublish} className="gap-1.5">
+            {publishing ? <Loader2 size={14} className="animate-spin" /> : <PackagePlus size={14} />}
+            Publish
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
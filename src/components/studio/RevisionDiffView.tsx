@@ -0,0 +1,91 @@
+/**
+ * RevisionDiffView – renders a structured CaseIR diff grouped by element type,
+ * with per-field before → after values.
+ */
+import { Plus, Minus, Pencil } from "lucide-react";
+import type { ChangeKind, DiffElementType, ElementChange, RevisionDiff } from "@/lib/revisions/revisionDiff";
+import { Badge } from "@/components/ui/badge";
+
+const TYPE_LABELS: Record<DiffElementType, string> = {
+  process: "Process",
+  trigger: "Trigger",
+  endEvent: "End Event",
+  stage: "Stages",
+  group: "Groups",
+  step: "Steps",
+  eventSubProcess: "Event Handlers",
+  formTemplate: "Form Templates",
+  persona: "Personas",
+  businessRule: "Business Rules",
+  dataField: "Data Model",
+};
+
+const TYPE_ORDER = Object.keys(TYPE_LABELS) as DiffElementType[];
+
+const KIND_META: Record<ChangeKind, { icon: typeof Plus; className: string; label: string }> = {
+  added: { icon: Plus, className: "text-emerald-600", label: "Added" },
+  removed: { icon: Minus, className: "text-destructive", label: "Removed" },
+  changed: { icon: Pencil, className: "text-amber-600", label: "Changed" },
+};
+
+function formatValue(v: unknown): string {
+  if (v === undefined) return "—";
+  if (typeof v === "string") return v === "" ? '""' : v;
+  return JSON.stringify(v);
+}
+
+function ChangeRow({ change }: { change: ElementChange }) {
+  const meta = KIND_META[change.kind];
+  const Icon = meta.icon;
+  return (
+    <div className="rounded-md border px-3 py-2 space-y-1.5">
+      <div className="flex items-center gap-2 text-[12px]">
+        <Icon size={12} className={meta.className} />
+        <span className="font-medium">{change.name}</span>
+        <span className="font-mono text-[10px] text-muted-foreground">{change.id}</span>
+        {change.location && <span className="ml-auto text-[10px] text-muted-foreground truncate">{change.location}</span>}
+      </div>
+      {change.fields.length > 0 && (
+        <table className="w-full text-[11px]">
+          <tbody>
+            {change.fields.map(f => (
+              <tr key={f.field} className="align-top">
+                <td className="pr-3 py-0.5 font-mono text-muted-foreground whitespace-nowrap">{f.field}</td>
+                <td className="pr-2 py-0.5 text-destructive line-through break-all">{formatValue(f.before)}</td>
+                <td className="py-0.5 text-emerald-700 break-all">{formatValue(f.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function RevisionDiffView({ diff }: { diff: RevisionDiff }) {
+  if (diff.changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">The two revisions are identical.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        {(Object.keys(KIND_META) as ChangeKind[]).map(kind => (
+          <Badge key={kind} variant="outline" className={`text-[10px] ${KIND_META[kind].className}`}>
+            {diff.counts[kind]} {KIND_META[kind].label.toLowerCase()}
+          </Badge>
+        ))}
+      </div>
+      {TYPE_ORDER.map(type => {
+        const changes = diff.changes.filter(c => c.elementType === type);
+        if (changes.length === 0) return null;
+        return (
+          <section key={type} className="space-y-1.5">
+            <h3 className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">{TYPE_LABELS[type]}</h3>
+            {changes.map(c => <ChangeRow key={`${c.kind}:${c.id}`} change={c} />)}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
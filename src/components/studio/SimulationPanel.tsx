@@ -0,0 +1,212 @@
+/**
+ * Simulation panel – drives the local token simulator and shows variable state per step.
+ * The simulation state lives in WorkflowStudio so the Lifecycle diagram can highlight the token.
+ * The simulated clock starts at a chosen time; due dates, SLA deadlines and timer waits
+ * are worked out in the steps' business calendars.
+ */
+import { useState } from "react";
+import { Play, StepForward, FastForward, RotateCcw, Zap, FlaskConical, AlertTriangle, CheckCircle2 } from "lucide-react";
+import type { CaseIR } from "@/types/caseIr";
+import type { SimulationState, SimulationVariables } from "@/lib/simulator/types";
+import {
+  startSimulation, stepSimulation, runSimulation,
+  getActiveStep, getAvailableBoundaryEvents, fireBoundaryEvent, setSimulationVariables,
+} from "@/lib/simulator/engine";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { useBusinessCalendars } from "@/stores/businessCalendarStore";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface SimulationPanelProps {
+  caseIr: CaseIR;
+  state: SimulationState | null;
+  onStateChange: (state: SimulationState | null) => void;
+}
+
+function parseVariables(text: string): { vars?: SimulationVariables; error?: string } {
+  if (!text.trim()) return { vars: {} };
+  try {
+    const parsed = JSON.parse(text);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return { error: "Variables must be a JSON object" };
+    return { vars: parsed as SimulationVariables };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/** Value for a datetime-local input, in the browser's time zone */
+function localInputValue(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function formatClock(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+const STATUS_VARIANT: Record<SimulationState["status"], "default" | "secondary" | "destructive"> = {
+  running: "default",
+  completed: "secondary",
+  failed: "destructive",
+};
+
+export default function SimulationPanel({ caseIr, state, onStateChange }: SimulationPanelProps) {
+  const [initialText, setInitialText] = useState("{\n  \n}");
+  const [liveText, setLiveText] = useState("");
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [altTarget, setAltTarget] = useState<string>("");
+  const [inspectSeq, setInspectSeq] = useState<number | null>(null);
+  const [startAt, setStartAt] = useState(() => localInputValue(new Date()));
+  const calendars = useBusinessCalendars(s => s.calendars);
+
+  const activeStep = state ? getActiveStep(caseIr, state) : undefined;
+  const boundaryEvents = state ? getAvailableBoundaryEvents(caseIr, state) : [];
+  const altPaths = caseIr.alternativePaths ?? [];
+
+  const update = (next: SimulationState) => {
+    onStateChange(next);
+    setLiveText(JSON.stringify(next.variables, null, 2));
+    setInspectSeq(null);
+  };
+
+  const handleStart = () => {
+    const { vars, error } = parseVariables(initialText);
+    if (error) { setInputError(error); return; }
+    const start = new Date(startAt);
+    if (Number.isNaN(start.getTime())) { setInputError("Pick a start time"); return; }
+    setInputError(null);
+    update(startSimulation(caseIr, vars, start));
+  };
+
+  const handleApplyVariables = () => {
+    if (!state) return;
+    const { vars, error } = parseVariables(liveText);
+    if (error) { setInputError(error); return; }
+    setInputError(null);
+    onStateChange(setSimulationVariables(state, vars!));
+  };
+
+  const handleFire = (boundaryEventId: string) => {
+    if (!state) return;
+    try {
+      update(fireBoundaryEvent(caseIr, state, boundaryEventId, altTarget || undefined, calendars));
+    } catch (e) {
+      setInputError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const inspected = state?.trace.find(t => t.seq === inspectSeq);
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b flex-shrink-0">
+        <span className="text-[12px] font-semibold text-foreground flex items-center gap-1.5">
+          <FlaskConical size={13} className="text-primary" /> Simulation
+        </span>
+        {state && <Badge variant={STATUS_VARIANT[state.status]} className="text-[10px]">{state.status}</Badge>}
+      </div>
+
+      <div className="flex-1 overflow-auto p-3 space-y-3">
+        {!state ? (
+          <div className="space-y-2">
+            <label className="text-[11px] font-medium text-muted-foreground">Initial variables (JSON)</label>
+            <Textarea value={initialText} onChange={e => setInitialText(e.target.value)} rows={8} className="font-mono text-[11px]" />
+            <label className="text-[11px] font-medium text-muted-foreground">Start time</label>
+            <Input type="datetime-local" value={startAt} onChange={e => setStartAt(e.target.value)} className="h-8 text-[11px]" />
+            <Button size="sm" className="w-full" onClick={handleStart}><Play size={13} /> Start simulation</Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-1.5">
+              <Button size="sm" variant="outline" disabled={state.status !== "running"} onClick={() => update(stepSimulation(caseIr, state, calendars))}>
+                <StepForward size={13} /> Step
+              </Button>
+              <Button size="sm" variant="outline" disabled={state.status !== "running"} onClick={() => update(runSimulation(caseIr, state, calendars))}>
+                <FastForward size={13} /> Run
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => { onStateChange(null); setInputError(null); }}>
+                <RotateCcw size={13} /> Reset
+              </Button>
+              <span className="ml-auto text-[10px] font-mono text-muted-foreground" title="Simulated time">{formatClock(state.clock)}</span>
+            </div>
+
+            {state.status === "running" && activeStep && (
+              <div className="rounded-lg border p-2.5 space-y-2">
+                <div className="text-[10px] uppercase tracking-wider text-muted-foreground">Active step</div>
+                <div className="text-[12px] font-semibold text-foreground">{activeStep.name}</div>
+                <div className="text-[10px] font-mono text-muted-foreground">{activeStep.type} · {activeStep.id}</div>
+                {state.foreachStack.length > 0 && (
+                  <div className="text-[10px] text-muted-foreground">
+                    {state.foreachStack.map(f => f.kind === "foreach"
+                      ? `${f.elementVariable} ${f.index + 1}/${f.items.length}`
+                      : `branch ${f.index + 1}/${f.branchIds.length}`).join(" › ")}
+                  </div>
+                )}
+                {boundaryEvents.length > 0 && (
+                  <div className="space-y-1.5 pt-1 border-t">
+                    <div className="text-[10px] uppercase tracking-wider text-muted-foreground">Boundary events</div>
+                    {altPaths.length > 0 && (
+                      <Select value={altTarget || "__first"} onValueChange={v => setAltTarget(v === "__first" ? "" : v)}>
+                        <SelectTrigger className="h-7 text-[11px]"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__first">Route to first alternative path</SelectItem>
+                          {altPaths.map(a => <SelectItem key={a.id} value={a.id}>Route to {a.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {boundaryEvents.map(be => (
+                      <Button key={be.id} size="sm" variant="outline" className="w-full justify-start h-7 text-[11px]" onClick={() => handleFire(be.id)}>
+                        <Zap size={11} /> Fire {be.name}
+                        <span className="ml-auto text-[9px] text-muted-foreground">{be.cancelActivity === false ? "non-interrupting" : "interrupting"}</span>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {state.status === "failed" && state.error && (
+              <div className="flex items-start gap-1.5 text-[11px] text-destructive">
+                <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" /> {state.error}
+              </div>
+            )}
+            {state.status === "completed" && (
+              <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                <CheckCircle2 size={12} className="text-primary" /> Case completed after {state.trace.length} events
+              </div>
+            )}
+
+            <div className="space-y-1.5">
+              <label className="text-[11px] font-medium text-muted-foreground">Current variables</label>
+              <Textarea value={liveText} onChange={e => setLiveText(e.target.value)} rows={6} className="font-mono text-[11px]" />
+              <Button size="sm" variant="outline" className="w-full" disabled={state.status !== "running"} onClick={handleApplyVariables}>
+                Apply variables
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-[10px] uppercase tracking-wider text-muted-foreground">Trace</div>
+              {state.trace.map(t => (
+                <button key={t.seq}
+                  className={`w-full text-left rounded px-2 py-1 text-[11px] transition-colors ${inspectSeq === t.seq ? "bg-muted" : "hover:bg-muted/60"}`}
+                  onClick={() => setInspectSeq(s => s === t.seq ? null : t.seq)}>
+                  <span className="font-mono text-[9px] text-muted-foreground mr-1.5" title={formatClock(t.at)}>{t.seq}</span>
+                  {t.stepName && <span className="font-medium text-foreground">{t.stepName}: </span>}
+                  <span className={t.kind === "error" ? "text-destructive" : t.kind === "warning" ? "text-amber-600" : "text-muted-foreground"}>{t.detail}</span>
+                </button>
+              ))}
+              {inspected && (
+                <pre className="rounded border bg-muted/30 p-2 text-[10px] font-mono overflow-auto max-h-48">
+                  {JSON.stringify(inspected.variables, null, 2)}
+                </pre>
+              )}
+            </div>
+          </>
+        )}
+        {inputError && <div className="text-[11px] text-destructive">{inputError}</div>}
+      </div>
+    </div>
+  );
+}
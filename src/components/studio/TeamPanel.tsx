@@ -31,8 +31,8 @@ export default function TeamPanel({ caseIr, onPatch }: TeamPanelProps) {
     setNewName(""); setNewEmail(""); setNewDept(""); setAdding(false);
   };
 
-  const handleDelete = (idx: number) => {
-    onPatch([{ op: "remove", path: `/teamMembers/${idx}` }]);
+  const handleDelete = (id: string) => {
+    onPatch([{ op: "remove", path: `/teamMembers[id=${id}]` }]);
   };
 
   const getPersonaName = (personaId?: string) => {
@@ -80,14 +80,14 @@ export default function TeamPanel({ caseIr, onPatch }: TeamPanelProps) {
             </TableRow>
           </TableHeader>
           <TableBody>
-            {members.map((m, i) => (
+            {members.map(m => (
               <TableRow key={m.id}>
                 <TableCell className="font-medium">{m.name}</TableCell>
                 <TableCell>{m.email || "—"}</TableCell>
                 <TableCell>{getPersonaName(m.personaId)}</TableCell>
                 <TableCell>{m.department || "—"}</TableCell>
                 <TableCell>
-                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(i)}>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleDelete(m.id)}>
                     <Trash2 size={13} className="text-destructive" />
                   </Button>
                 </TableCell>
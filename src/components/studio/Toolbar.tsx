@@ -3,21 +3,51 @@
  */
 import { useState, useRef } from "react";
 import {
-  Upload, FileJson, Code, AlertTriangle, CheckCircle, X, Loader2, FormInput
+  Upload, FileJson, Code, AlertTriangle, CheckCircle, X, Loader2, FormInput,
+  Undo2, Redo2, History, Save, GitCommitVertical, Table2,
 } from "lucide-react";
 import type { CaseIR } from "@/types/caseIr";
 import { importBpmn } from "@/lib/bpmnImporter";
-import { exportBpmn } from "@/lib/bpmnExporter";
+import { exportBpmn, BpmnMergeError } from "@/lib/bpmnExporter";
+import { exportDmn } from "@/lib/dmn/exporter";
+import { lintCaseIr } from "@/lib/linter/linter";
+import { calendarTimers, timerSchedules } from "@/lib/linter/rules";
+import { ENGINE_HAS_CALENDAR_BEAN } from "@/lib/calendar/timerExpression";
+import { useBusinessCalendars } from "@/stores/businessCalendarStore";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import type { Collaborator } from "@/hooks/use-collaboration";
+import PresenceAvatars from "./PresenceAvatars";
 import "./studio.css";
 
+/** "merged" – another revision was merged in first; "conflicts" – a resolution dialog is open instead */
+export type SaveRevisionOutcome = "saved" | "merged" | "conflicts";
+
 interface ToolbarProps {
   caseIr: CaseIR | null;
   onImportBpmn: (ir: CaseIR, warnings: string[]) => void;
   onLoadSample: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onOpenHistory?: () => void;
+  /** Persist the current CaseIR as a new workflow revision (only when a workflow is loaded) */
+  onSaveRevision?: (message: string) => Promise<SaveRevisionOutcome>;
+  onOpenRevisions?: () => void;
+  /** True when the CaseIR differs from the last saved revision */
+  unsaved?: boolean;
+  /** Other people with this workflow open */
+  collaborators?: Collaborator[];
 }
 
-export default function Toolbar({ caseIr, onImportBpmn, onLoadSample }: ToolbarProps) {
+export default function Toolbar({ caseIr, onImportBpmn, onLoadSample, canUndo, canRedo, onUndo, onRedo, onOpenHistory, onSaveRevision, onOpenRevisions, unsaved, collaborators }: ToolbarProps) {
   const [importing, setImporting] = useState(false);
+  const calendars = useBusinessCalendars(s => s.calendars);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [saveMessage, setSaveMessage] = useState("");
+  const [saving, setSaving] = useState(false);
   const [notification, setNotification] = useState<{ type: "success" | "error" | "warn"; msg: string } | null>(null);
   const fileRef = useRef<HTMLInputElement>(null);
 
@@ -47,10 +77,39 @@ export default function Toolbar({ caseIr, onImportBpmn, onLoadSample }: ToolbarP
     }
   };
 
+  const handleSaveRevision = async () => {
+    if (!onSaveRevision) return;
+    setSaving(true);
+    try {
+      const outcome = await onSaveRevision(saveMessage.trim());
+      setSaveOpen(false);
+      setSaveMessage("");
+      if (outcome === "saved") notify("success", "Revision saved");
+      else if (outcome === "merged") notify("success", "Revision saved – merged with changes saved by someone else");
+      else notify("warn", "Someone else saved this workflow – resolve the conflicts to save");
+    } catch (err) {
+      notify("error", "Save failed: " + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleExportBpmn = () => {
     if (!caseIr) return;
+    const timerIssues = lintCaseIr(caseIr, [timerSchedules, calendarTimers], { calendarBean: ENGINE_HAS_CALENDAR_BEAN });
+    const timerErrors = timerIssues.filter(i => i.severity === "error");
+    if (timerErrors.length && !confirm(`${timerErrors.length} timer(s) will not deploy:\n\n${timerErrors.map(i => `• ${i.message}`).join("\n")}\n\nExport anyway?`)) return;
     try {
-      const xml = exportBpmn(caseIr);
+      let xml: string;
+      let rebuilt = false;
+      try {
+        xml = exportBpmn(caseIr, calendars, { calendarBean: ENGINE_HAS_CALENDAR_BEAN });
+      } catch (err) {
+        if (!(err instanceof BpmnMergeError)) throw err;
+        if (!confirm(`Your edits could not be merged into the imported BPMN file:\n\n${err.message}\n\nExport a regenerated file instead? It loses the original diagram layout, joins and extension elements.`)) return;
+        xml = exportBpmn(caseIr, calendars, { rebuildOnMergeFailure: true, calendarBean: ENGINE_HAS_CALENDAR_BEAN });
+        rebuilt = true;
+      }
       const blob = new Blob([xml], { type: "application/xml" });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
@@ -58,12 +117,29 @@ export default function Toolbar({ caseIr, onImportBpmn, onLoadSample }: ToolbarP
       a.download = `${caseIr.id}.bpmn`;
       a.click();
       URL.revokeObjectURL(url);
-      notify("success", "BPMN XML exported successfully");
+      const timerWarnings = timerIssues.filter(i => i.severity === "warning");
+      if (rebuilt) notify("warn", "Exported a regenerated BPMN file – the original diagram layout was not kept");
+      else if (timerWarnings.length) notify("warn", `Exported with ${timerWarnings.length} timer warning(s): ${timerWarnings[0].message}`);
+      else notify("success", "BPMN XML exported successfully");
     } catch (err) {
       notify("error", "Export failed: " + (err instanceof Error ? err.message : String(err)));
     }
   };
 
+  const handleExportDmn = () => {
+    if (!caseIr) return;
+    const xml = exportDmn(caseIr);
+    if (!xml) return;
+    const blob = new Blob([xml], { type: "application/xml" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${caseIr.id}.dmn`;
+    a.click();
+    URL.revokeObjectURL(url);
+    notify("success", `DMN exported – ${caseIr.decisionTables!.length} decision table(s)`);
+  };
+
   const handleExportJson = () => {
     if (!caseIr) return;
     const json = JSON.stringify(caseIr, null, 2);
@@ -107,8 +183,27 @@ export default function Toolbar({ caseIr, onImportBpmn, onLoadSample }: ToolbarP
         </button>
       )}
 
+      {caseIr && onUndo && (
+        <div className="flex items-center gap-0.5">
+          <button className="toolbar-btn w-8 h-8 rounded-lg flex items-center justify-center transition-all disabled:opacity-40"
+            onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+            <Undo2 size={13} />
+          </button>
+          <button className="toolbar-btn w-8 h-8 rounded-lg flex items-center justify-center transition-all disabled:opacity-40"
+            onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 size={13} />
+          </button>
+          <button className="toolbar-btn w-8 h-8 rounded-lg flex items-center justify-center transition-all"
+            onClick={onOpenHistory} title="History">
+            <History size={13} />
+          </button>
+        </div>
+      )}
+
       <div className="flex-1" />
 
+      {collaborators && <PresenceAvatars peers={collaborators} />}
+
       {/* Notification */}
       {notification && (
         <div className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-[12px] font-medium animate-fade-in ${
@@ -144,6 +239,47 @@ export default function Toolbar({ caseIr, onImportBpmn, onLoadSample }: ToolbarP
         Import BPMN
       </button>
 
+      {onOpenRevisions && (
+        <button
+          className="toolbar-btn flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium transition-all"
+          onClick={onOpenRevisions}
+          title="Saved revisions of this workflow"
+        >
+          <GitCommitVertical size={13} />
+          Revisions
+        </button>
+      )}
+
+      {caseIr && onSaveRevision && (
+        <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+          <PopoverTrigger asChild>
+            <button
+              className="toolbar-btn flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium transition-all"
+              title="Save a new revision"
+            >
+              <Save size={13} />
+              Save
+              {unsaved && <span className="w-1.5 h-1.5 rounded-full bg-primary" />}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-2">
+            <div className="text-[12px] font-semibold">Save revision</div>
+            <Input
+              autoFocus
+              value={saveMessage}
+              onChange={e => setSaveMessage(e.target.value)}
+              onKeyDown={e => { if (e.key === "Enter" && !saving) handleSaveRevision(); }}
+              placeholder="What changed? (optional)"
+              className="h-8 text-[12px]"
+            />
+            <Button size="sm" className="w-full" onClick={handleSaveRevision} disabled={saving}>
+              {saving && <Loader2 size={12} className="animate-spin" />}
+              Save revision
+            </Button>
+          </PopoverContent>
+        </Popover>
+      )}
+
       {caseIr && (
         <>
           <button
@@ -154,6 +290,17 @@ export default function Toolbar({ caseIr, onImportBpmn, onLoadSample }: ToolbarP
             Export IR
           </button>
 
+          {!!caseIr.decisionTables?.length && (
+            <button
+              className="toolbar-btn flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium transition-all"
+              onClick={handleExportDmn}
+              title="Decision tables referenced by business rule tasks"
+            >
+              <Table2 size={13} />
+              Export DMN
+            </button>
+          )}
+
           <button
             className="toolbar-btn--primary flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[12px] font-medium transition-all"
             onClick={handleExportBpmn}
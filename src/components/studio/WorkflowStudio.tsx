@@ -2,12 +2,12 @@
  * WorkflowStudio – main orchestrator
  * Hierarchy: Stage (Section) → Group → Step
  */
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
-import type { CaseIR, SelectionTarget, JsonPatch, Step, StepType, BoundaryEventType, ModuleConfigField, FormTemplate, FormRef, ModuleRef } from "@/types/caseIr";
+import type { CaseIR, SelectionTarget, JsonPatch, Step, StepType, BoundaryEventType, ModuleConfigField, FormTemplate, FormRef, ModuleRef, Stage } from "@/types/caseIr";
 import { importBpmn } from "@/lib/bpmnImporter";
 import { createApprovalPipelineCaseIR } from "@/lib/sampleApprovalPipeline";
-import { applyCaseIRPatch } from "@/lib/patchUtils";
+import { EMPTY_HISTORY, recordPatch, undo, redo, revertEntry, canUndo, canRedo, appliedPatch, type PatchHistory, type HistorySource } from "@/lib/history/patchHistory";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import Toolbar from "./Toolbar";
 import LifecycleDiagram from "./LifecycleDiagram";
@@ -18,20 +18,71 @@ import FormBuilderDialog from "./FormBuilderDialog";
 import NodeConfigDialog from "./NodeConfigDialog";
 import type { IoMapping } from "./NodeConfigDialog";
 import NodesPanel from "./NodesPanel";
-import { getNodeDef } from "./automationNodes";
 import PersonasPanel from "./PersonasPanel";
 import TeamPanel from "./TeamPanel";
 import BusinessRulesPanel from "./BusinessRulesPanel";
 import DataModelPanel from "./DataModelPanel";
 import DeploymentPanel from "./DeploymentPanel";
 import FormBuilderPanel from "./FormBuilderPanel";
-import { Upload, FileText, Workflow, Shield, Users, Scale, Database, Rocket, FormInput, MessageSquare, PanelLeftClose, PanelLeftOpen, LayoutGrid, Diamond, UserCog, Eye } from "lucide-react";
+import SimulationPanel from "./SimulationPanel";
+import HistoryDrawer from "./HistoryDrawer";
+import ProblemsPanel from "./ProblemsPanel";
+import MergeConflictDialog from "./MergeConflictDialog";
+import type { SaveRevisionOutcome } from "./Toolbar";
+import type { SimulationState } from "@/lib/simulator/types";
+import { getActiveStep } from "@/lib/simulator/engine";
+import { lintCaseIr, countBySeverity } from "@/lib/linter/linter";
+import { BUILT_IN_RULES } from "@/lib/linter/rules";
+import { ENGINE_HAS_CALENDAR_BEAN } from "@/lib/calendar/timerExpression";
+import { createRevision, getLatestRevision, type WorkflowRevision } from "@/lib/revisions/revisionStore";
+import { mergeCaseIr, mergePatch, type ConflictChoice, type MergeConflict } from "@/lib/revisions/threeWayMerge";
+import type { LintIssue } from "@/lib/linter/types";
+import { Upload, FileText, Workflow, Shield, Users, Scale, Database, Rocket, FormInput, MessageSquare, PanelLeftClose, PanelLeftOpen, LayoutGrid, Diamond, UserCog, Eye, FlaskConical, AlertCircle } from "lucide-react";
 import WorkflowMembersPanel from "./WorkflowMembersPanel";
 import { useWorkflowRole } from "@/hooks/use-workflow-role";
+import { useCollaboration } from "@/hooks/use-collaboration";
+import { fromIdOps, type IdOperation } from "@/lib/collab/idOps";
+import { applyCaseIRPatch, stagePath, groupPath, stepPath } from "@/lib/patchUtils";
+import { useNodeRegistry, getNodeDef, dataFlowNodeResolver } from "@/stores/nodeRegistryStore";
+import { useBusinessCalendars } from "@/stores/businessCalendarStore";
+import { parkStudioIr, setStudioBase, studioReturnPath } from "@/lib/studioSession";
 import "./studio.css";
 
 function uid() { return `el_${Math.random().toString(36).slice(2, 8)}`; }
 
+/** Stamp an edited IR: bump updatedAt. */
+function markEdited(ir: CaseIR): CaseIR {
+  if (!ir.alternativePaths) ir.alternativePaths = [];
+  ir.metadata = {
+    ...ir.metadata,
+    updatedAt: new Date().toISOString(),
+  };
+  return ir;
+}
+
+type Lane = "stages" | "alternativePaths";
+
+/** A stage and the lane holding it, looking in the main flow first */
+function findStage(ir: CaseIR, stageId: string): { stage: Stage; lane: Lane } | null {
+  const main = ir.stages.find(s => s.id === stageId);
+  if (main) return { stage: main, lane: "stages" };
+  const alt = ir.alternativePaths?.find(s => s.id === stageId);
+  return alt ? { stage: alt, lane: "alternativePaths" } : null;
+}
+
+/** Id path of a step, or null when its stage, group or the step itself is gone */
+function findStepPath(ir: CaseIR, stageId: string, groupId: string, stepId: string): string | null {
+  const found = findStage(ir, stageId);
+  const step = found?.stage.groups.find(g => g.id === groupId)?.steps.find(s => s.id === stepId);
+  return found && step ? stepPath(stageId, groupId, stepId, found.lane) : null;
+}
+
+function isTextInput(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  return el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.tagName === "SELECT" || el.isContentEditable;
+}
+
 function EmptyState({ onImport }: { onImport: (ir: CaseIR, w: string[]) => void }) {
   const fileRef = useRef<HTMLInputElement>(null);
   const [dragging, setDragging] = useState(false);
@@ -113,13 +164,17 @@ interface WorkflowStudioProps {
   workflowId?: string;
   initialCaseIr?: CaseIR | null;
   initialWarnings?: string[];
+  /** Revision the initial CaseIR was loaded from; concurrent saves are merged against it */
+  baseRevisionId?: string;
+  /** CaseIR of baseRevisionId when initialCaseIr carries unsaved edits on top of it */
+  baseCaseIr?: CaseIR;
   pendingFormTemplate?: { template: FormTemplate; stepBasePath: string };
   onFormTemplateConsumed?: () => void;
   pendingModuleConfig?: { config: Record<string, unknown>; stepBasePath: string };
   onModuleConfigConsumed?: () => void;
 }
 
-export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarnings, pendingFormTemplate, onFormTemplateConsumed, pendingModuleConfig, onModuleConfigConsumed }: WorkflowStudioProps = {}) {
+export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarnings, baseRevisionId: initialRevisionId, baseCaseIr, pendingFormTemplate, onFormTemplateConsumed, pendingModuleConfig, onModuleConfigConsumed }: WorkflowStudioProps = {}) {
   const { role: wfRole, canEdit: wfCanEdit } = useWorkflowRole(workflowId);
   const readOnly = !!workflowId && !wfCanEdit;
   const [caseIr, setCaseIr] = useState<CaseIR | null>(initialCaseIr ?? null);
@@ -132,18 +187,86 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
   const [formFields, setFormFields] = useState<ModuleConfigField[]>([]);
   const [newFormTarget, setNewFormTarget] = useState<{ stageId: string; groupId: string; stepId: string } | null>(null);
   const [nodeConfigTarget, setNodeConfigTarget] = useState<{ stepId: string; stageId: string; groupId: string } | null>(null);
+  const [history, setHistory] = useState<PatchHistory>(EMPTY_HISTORY);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [simState, setSimState] = useState<SimulationState | null>(null);
+  const [problemsOpen, setProblemsOpen] = useState(false);
+  // Last CaseIR persisted as a workflow revision; patches always produce a new object
+  const [savedIr, setSavedIr] = useState<CaseIR | null>(baseCaseIr ?? initialCaseIr ?? null);
+  const [baseRevisionId, setBaseRevisionId] = useState<string | null>(initialRevisionId ?? null);
+  // Trips to the form builder / module config come back to this workflow and revision
+  useEffect(() => { setStudioBase(workflowId, baseRevisionId); }, [workflowId, baseRevisionId]);
+  const [pendingMerge, setPendingMerge] = useState<{ theirs: WorkflowRevision; message: string; conflicts: MergeConflict[] } | null>(null);
+
+  // Live collaboration: remote ops apply outside the undo stack, whose entries address elements by
+  // id and so survive a peer's inserts, deletes and reorders; local history changes are broadcast
+  const caseIrRef = useRef(caseIr);
+  caseIrRef.current = caseIr;
+
+  /** Throws when the ops no longer fit our document; the collaboration hook then resyncs. */
+  const handleRemotePatch = useCallback((ops: IdOperation[]) => {
+    const current = caseIrRef.current;
+    if (!current) return;
+    const next = markEdited(applyCaseIRPatch(current, fromIdOps(current, ops)));
+    caseIrRef.current = next;
+    setCaseIr(next);
+  }, []);
+
+  const handleRemoteSnapshot = useCallback((ir: CaseIR) => {
+    if (!ir.alternativePaths) ir.alternativePaths = [];
+    caseIrRef.current = ir;
+    setCaseIr(ir);
+    setHistory(EMPTY_HISTORY);
+  }, []);
+
+  const { peers, broadcastPatch, broadcastSnapshot } = useCollaboration({
+    workflowId,
+    selection,
+    getSnapshot: () => caseIrRef.current,
+    onRemotePatch: handleRemotePatch,
+    onSnapshot: handleRemoteSnapshot,
+  });
+
+  const lastLocal = useRef({ caseIr, history });
+  useEffect(() => {
+    const prev = lastLocal.current;
+    lastLocal.current = { caseIr, history };
+    if (readOnly || history === prev.history || !prev.caseIr) return;
+    const patch = appliedPatch(prev.history, history);
+    if (patch) broadcastPatch(prev.caseIr, patch);
+  }, [caseIr, history, readOnly, broadcastPatch]);
+
+  const peerHighlights = useMemo(() => peers.flatMap(p =>
+    p.selection?.kind === "step" ? [{ clientId: p.clientId, name: p.name, color: p.color, stepId: p.selection.stepId }] : []),
+  [peers]);
+
+  // Published automation nodes and versions, on top of the built-in ones
+  const loadNodeRegistry = useNodeRegistry(s => s.load);
+  useEffect(() => { loadNodeRegistry(); }, [loadNodeRegistry]);
+
+  // Business calendars that steps, SLAs and the exporter count working time in
+  const loadCalendars = useBusinessCalendars(s => s.load);
+  useEffect(() => { loadCalendars(); }, [loadCalendars]);
+
+  // Variable checks read the schemas of the node versions steps are pinned to
+  const nodeVersions = useNodeRegistry(s => s.versions);
+  const lintIssues = useMemo(
+    () => (caseIr ? lintCaseIr(caseIr, BUILT_IN_RULES, { resolveNode: dataFlowNodeResolver(nodeVersions), calendarBean: ENGINE_HAS_CALENDAR_BEAN }) : []),
+    [caseIr, nodeVersions],
+  );
+  const lintCounts = countBySeverity(lintIssues);
 
   // Handle pending form template from form builder page
   useEffect(() => {
     if (!pendingFormTemplate || !caseIr) return;
     const { template, stepBasePath } = pendingFormTemplate;
     const existing = caseIr.formTemplates ?? [];
-    const idx = existing.findIndex(t => t.id === template.id);
-    
     // Add/update the template
     let patch: JsonPatch;
-    if (idx >= 0) {
-      patch = [{ op: "replace" as const, path: `/formTemplates/${idx}`, value: template }];
+    if (existing.some(t => t.id === template.id)) {
+      patch = [{ op: "replace" as const, path: `/formTemplates[id=${template.id}]`, value: template }];
     } else if (existing.length === 0) {
       patch = [{ op: "add" as const, path: "/formTemplates", value: [template] }];
     } else {
@@ -158,9 +281,9 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
     });
     
     try {
-      const updated = applyCaseIRPatch(caseIr, patch);
-      if (!updated.alternativePaths) updated.alternativePaths = [];
-      setCaseIr(updated);
+      const recorded = recordPatch(history, caseIr, patch, `Attached form ${template.name}`);
+      setCaseIr(markEdited(recorded.caseIr));
+      setHistory(recorded.history);
     } catch (e) {
       console.error("Failed to apply form template:", e);
     }
@@ -178,9 +301,9 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
       value: config,
     }];
     try {
-      const updated = applyCaseIRPatch(caseIr, patch);
-      if (!updated.alternativePaths) updated.alternativePaths = [];
-      setCaseIr(updated);
+      const recorded = recordPatch(history, caseIr, patch, "Configured module");
+      setCaseIr(markEdited(recorded.caseIr));
+      setHistory(recorded.history);
     } catch (e) {
       console.error("Failed to apply module config:", e);
     }
@@ -190,30 +313,80 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
   const handleImportBpmn = (ir: CaseIR, w: string[]) => {
     if (!ir.alternativePaths) ir.alternativePaths = [];
     setCaseIr(ir); setWarnings(w); setSelection(null);
+    setHistory(EMPTY_HISTORY);
+    if (!readOnly) broadcastSnapshot(ir);
   };
 
-  const handlePatch = useCallback((patch: JsonPatch) => {
+  /** Apply a patch through the history stack; returns the history entry id. */
+  const handlePatch = useCallback((patch: JsonPatch, label?: string, source: HistorySource = "user"): string | undefined => {
     if (!caseIr) return;
     try {
-      const updated = applyCaseIRPatch(caseIr, patch);
-      if (!updated.alternativePaths) updated.alternativePaths = [];
-      updated.metadata = {
-        ...updated.metadata,
-        updatedAt: new Date().toISOString(),
-        originalBpmnXml: undefined,
-        originalDiagramXml: undefined,
-      };
-      setCaseIr(updated);
+      const recorded = recordPatch(history, caseIr, patch, label, source);
+      setCaseIr(markEdited(recorded.caseIr));
+      setHistory(recorded.history);
+      setHistoryError(null);
+      return recorded.entry.id;
     } catch (e) { console.error("Patch failed:", e); }
-  }, [caseIr]);
+  }, [caseIr, history]);
+
+  const handleAiPatch = useCallback((patch: JsonPatch, label?: string) => handlePatch(patch, label, "ai"), [handlePatch]);
+
+  const handleUndo = useCallback(() => {
+    if (!caseIr) return;
+    try {
+      const r = undo(history, caseIr);
+      if (!r) return;
+      setCaseIr(markEdited(r.caseIr));
+      setHistory(r.history);
+      setHistoryError(null);
+    } catch (e) { setHistoryError(e instanceof Error ? e.message : String(e)); }
+  }, [caseIr, history]);
+
+  const handleRedo = useCallback(() => {
+    if (!caseIr) return;
+    try {
+      const r = redo(history, caseIr);
+      if (!r) return;
+      setCaseIr(markEdited(r.caseIr));
+      setHistory(r.history);
+      setHistoryError(null);
+    } catch (e) { setHistoryError(e instanceof Error ? e.message : String(e)); }
+  }, [caseIr, history]);
+
+  /** Revert one past change, keeping later edits. Throws when they conflict. */
+  const handleRevert = useCallback((entryId: string) => {
+    if (!caseIr) return;
+    const r = revertEntry(history, caseIr, entryId);
+    setCaseIr(markEdited(r.caseIr));
+    setHistory(r.history);
+    setHistoryError(null);
+  }, [caseIr, history]);
 
-  const handleUndoTo = useCallback((snapshot: CaseIR) => { setCaseIr(snapshot); setSelection(null); }, []);
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) — leave text fields to their native undo
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) { e.preventDefault(); handleUndo(); }
+      else if ((key === "z" && e.shiftKey) || key === "y") { e.preventDefault(); handleRedo(); }
+    };
+    document.addEventListener("keydown", handler);
+    return () => document.removeEventListener("keydown", handler);
+  }, [handleUndo, handleRedo]);
 
   const handleSelectTrigger = useCallback(() => { setSelection({ kind: "trigger" }); setPropsCollapsed(false); }, []);
   const handleSelectEndEvent = useCallback(() => { setSelection({ kind: "endEvent" }); setPropsCollapsed(false); }, []);
   const handleSelectProcess = useCallback(() => { setSelection({ kind: "process" }); setPropsCollapsed(false); }, []);
   const handleSelectBoundaryEvent = useCallback((stageId: string, groupId: string, stepId: string, boundaryEventId: string) =>
     { setSelection({ kind: "boundaryEvent", stageId, groupId, stepId, boundaryEventId }); setPropsCollapsed(false); }, []);
+  const handleSelectEventSubProcess = useCallback((eventSubProcessId: string) =>
+    { setSelection({ kind: "eventSubProcess", eventSubProcessId }); setPropsCollapsed(false); }, []);
+  const handleSelectIssue = useCallback((issue: LintIssue) => {
+    if (!issue.target) return;
+    setSelection(issue.target);
+    setPropsCollapsed(false);
+    setFlowView("lifecycle");
+  }, []);
 
   const handleSelectStage = useCallback((stageId: string) => { setSelection({ kind: "stage", stageId }); setPropsCollapsed(false); }, []);
 
@@ -224,85 +397,44 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
     { setSelection({ kind: "step", stageId, groupId, stepId }); setPropsCollapsed(false); }, []);
 
   const handleAddStep = useCallback((stageId: string, groupId: string) => {
-    if (!caseIr) return;
-    const si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    const gi = caseIr.stages[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
     const newStep = { id: uid(), name: "New Task", type: "automation" as StepType };
-    handlePatch([{ op: "add", path: `/stages/${si}/groups/${gi}/steps/-`, value: newStep }]);
-  }, [caseIr, handlePatch]);
+    handlePatch([{ op: "add", path: `${groupPath(stageId, groupId)}/steps/-`, value: newStep }]);
+  }, [handlePatch]);
 
   const handleInsertModule = useCallback((stageId: string, groupId: string, steps: Step[]) => {
     if (!caseIr) return;
-    const si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si >= 0) {
-      const gi = caseIr.stages[si].groups.findIndex(g => g.id === groupId);
-      if (gi < 0) return;
-      const ops = steps.map(step => ({ op: "add" as const, path: `/stages/${si}/groups/${gi}/steps/-`, value: step }));
-      handlePatch(ops);
-      return;
-    }
-    if (caseIr.alternativePaths) {
-      const ai = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-      if (ai < 0) return;
-      const gi = caseIr.alternativePaths[ai].groups.findIndex(g => g.id === groupId);
-      if (gi < 0) return;
-      const ops = steps.map(step => ({ op: "add" as const, path: `/alternativePaths/${ai}/groups/${gi}/steps/-`, value: step }));
-      handlePatch(ops);
-    }
+    const lane = caseIr.stages.some(s => s.id === stageId) ? "stages" : "alternativePaths";
+    handlePatch(steps.map(step => ({ op: "add" as const, path: `${groupPath(stageId, groupId, lane)}/steps/-`, value: step })));
   }, [caseIr, handlePatch]);
 
   const handleAddGroup = useCallback((stageId: string) => {
-    if (!caseIr) return;
-    const si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    handlePatch([{ op: "add", path: `/stages/${si}/groups/-`, value: { id: uid(), name: "New Group", steps: [] } }]);
-  }, [caseIr, handlePatch]);
+    handlePatch([{ op: "add", path: `${stagePath(stageId)}/groups/-`, value: { id: uid(), name: "New Group", steps: [] } }]);
+  }, [handlePatch]);
 
   const handleAddStage = useCallback(() => {
     handlePatch([{ op: "add", path: "/stages/-", value: { id: uid(), name: "New Stage", groups: [{ id: uid(), name: "Main", steps: [] }] } }]);
   }, [handlePatch]);
 
   const handleDeleteStage = useCallback((stageId: string) => {
-    if (!caseIr) return;
-    const si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    handlePatch([{ op: "remove", path: `/stages/${si}` }]);
+    handlePatch([{ op: "remove", path: stagePath(stageId) }]);
     setSelection(null);
-  }, [caseIr, handlePatch]);
+  }, [handlePatch]);
 
   const handleDeleteGroup = useCallback((stageId: string, groupId: string) => {
-    if (!caseIr) return;
-    const si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    const gi = caseIr.stages[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
-    handlePatch([{ op: "remove", path: `/stages/${si}/groups/${gi}` }]);
+    handlePatch([{ op: "remove", path: groupPath(stageId, groupId) }]);
     setSelection(null);
-  }, [caseIr, handlePatch]);
+  }, [handlePatch]);
 
   const handleDeleteStep = useCallback((stageId: string, groupId: string, stepId: string) => {
-    if (!caseIr) return;
-    const si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    const gi = caseIr.stages[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
-    const sti = caseIr.stages[si].groups[gi].steps.findIndex(s => s.id === stepId);
-    if (sti < 0) return;
-    handlePatch([{ op: "remove", path: `/stages/${si}/groups/${gi}/steps/${sti}` }]);
+    handlePatch([{ op: "remove", path: stepPath(stageId, groupId, stepId) }]);
     setSelection(null);
-  }, [caseIr, handlePatch]);
+  }, [handlePatch]);
 
   const handleDuplicateStep = useCallback((stageId: string, groupId: string, stepId: string) => {
     if (!caseIr) return;
-    const si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    const gi = caseIr.stages[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
-    const step = caseIr.stages[si].groups[gi].steps.find(s => s.id === stepId);
+    const step = caseIr.stages.find(s => s.id === stageId)?.groups.find(g => g.id === groupId)?.steps.find(s => s.id === stepId);
     if (!step) return;
-    handlePatch([{ op: "add", path: `/stages/${si}/groups/${gi}/steps/-`, value: { ...step, id: uid(), name: `${step.name} (copy)` } }]);
+    handlePatch([{ op: "add", path: `${groupPath(stageId, groupId)}/steps/-`, value: { ...step, id: uid(), name: `${step.name} (copy)` } }]);
   }, [caseIr, handlePatch]);
 
   const handleDuplicateStage = useCallback((stageId: string) => {
@@ -318,7 +450,7 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
     const si = caseIr.stages.findIndex(s => s.id === stageId);
     const ti = si + dir;
     if (si < 0 || ti < 0 || ti >= caseIr.stages.length) return;
-    handlePatch([{ op: "move", path: `/stages/${ti}`, from: `/stages/${si}` }]);
+    handlePatch([{ op: "move", path: `/stages/${ti}`, from: stagePath(stageId) }]);
   }, [caseIr, handlePatch]);
 
   const handleMoveStep = useCallback((stageId: string, groupId: string, stepId: string, dir: -1 | 1) => {
@@ -330,7 +462,7 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
     const sti = caseIr.stages[si].groups[gi].steps.findIndex(s => s.id === stepId);
     const ti = sti + dir;
     if (sti < 0 || ti < 0 || ti >= caseIr.stages[si].groups[gi].steps.length) return;
-    handlePatch([{ op: "move", path: `/stages/${si}/groups/${gi}/steps/${ti}`, from: `/stages/${si}/groups/${gi}/steps/${sti}` }]);
+    handlePatch([{ op: "move", path: `${groupPath(stageId, groupId)}/steps/${ti}`, from: stepPath(stageId, groupId, stepId) }]);
   }, [caseIr, handlePatch]);
 
   const handleMoveGroup = useCallback((stageId: string, groupId: string, dir: -1 | 1) => {
@@ -340,7 +472,7 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
     const gi = caseIr.stages[si].groups.findIndex(g => g.id === groupId);
     const ti = gi + dir;
     if (gi < 0 || ti < 0 || ti >= caseIr.stages[si].groups.length) return;
-    handlePatch([{ op: "move", path: `/stages/${si}/groups/${ti}`, from: `/stages/${si}/groups/${gi}` }]);
+    handlePatch([{ op: "move", path: `${stagePath(stageId)}/groups/${ti}`, from: groupPath(stageId, groupId) }]);
   }, [caseIr, handlePatch]);
 
   // ── Alt Path handlers ───────────────────────────────────────────────────────
@@ -356,61 +488,34 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
   }, [caseIr, handlePatch]);
 
   const handleAddAltGroup = useCallback((stageId: string) => {
-    if (!caseIr?.alternativePaths) return;
-    const si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    handlePatch([{ op: "add", path: `/alternativePaths/${si}/groups/-`, value: { id: uid(), name: "New Group", steps: [] } }]);
-  }, [caseIr, handlePatch]);
+    handlePatch([{ op: "add", path: `${stagePath(stageId, "alternativePaths")}/groups/-`, value: { id: uid(), name: "New Group", steps: [] } }]);
+  }, [handlePatch]);
 
   const handleAddAltStep = useCallback((stageId: string, groupId: string) => {
-    if (!caseIr?.alternativePaths) return;
-    const si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    const gi = caseIr.alternativePaths[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
     const newStep = { id: uid(), name: "New Task", type: "automation" as StepType };
-    handlePatch([{ op: "add", path: `/alternativePaths/${si}/groups/${gi}/steps/-`, value: newStep }]);
-  }, [caseIr, handlePatch]);
+    handlePatch([{ op: "add", path: `${groupPath(stageId, groupId, "alternativePaths")}/steps/-`, value: newStep }]);
+  }, [handlePatch]);
 
   const handleDeleteAltStage = useCallback((stageId: string) => {
-    if (!caseIr?.alternativePaths) return;
-    const si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    handlePatch([{ op: "remove", path: `/alternativePaths/${si}` }]);
+    handlePatch([{ op: "remove", path: stagePath(stageId, "alternativePaths") }]);
     setSelection(null);
-  }, [caseIr, handlePatch]);
+  }, [handlePatch]);
 
   const handleDeleteAltGroup = useCallback((stageId: string, groupId: string) => {
-    if (!caseIr?.alternativePaths) return;
-    const si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    const gi = caseIr.alternativePaths[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
-    handlePatch([{ op: "remove", path: `/alternativePaths/${si}/groups/${gi}` }]);
+    handlePatch([{ op: "remove", path: groupPath(stageId, groupId, "alternativePaths") }]);
     setSelection(null);
-  }, [caseIr, handlePatch]);
+  }, [handlePatch]);
 
   const handleDeleteAltStep = useCallback((stageId: string, groupId: string, stepId: string) => {
-    if (!caseIr?.alternativePaths) return;
-    const si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    const gi = caseIr.alternativePaths[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
-    const sti = caseIr.alternativePaths[si].groups[gi].steps.findIndex(s => s.id === stepId);
-    if (sti < 0) return;
-    handlePatch([{ op: "remove", path: `/alternativePaths/${si}/groups/${gi}/steps/${sti}` }]);
+    handlePatch([{ op: "remove", path: stepPath(stageId, groupId, stepId, "alternativePaths") }]);
     setSelection(null);
-  }, [caseIr, handlePatch]);
+  }, [handlePatch]);
 
   const handleDuplicateAltStep = useCallback((stageId: string, groupId: string, stepId: string) => {
     if (!caseIr?.alternativePaths) return;
-    const si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-    if (si < 0) return;
-    const gi = caseIr.alternativePaths[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
-    const step = caseIr.alternativePaths[si].groups[gi].steps.find(s => s.id === stepId);
+    const step = caseIr.alternativePaths.find(s => s.id === stageId)?.groups.find(g => g.id === groupId)?.steps.find(s => s.id === stepId);
     if (!step) return;
-    handlePatch([{ op: "add", path: `/alternativePaths/${si}/groups/${gi}/steps/-`, value: { ...step, id: uid(), name: `${step.name} (copy)` } }]);
+    handlePatch([{ op: "add", path: `${groupPath(stageId, groupId, "alternativePaths")}/steps/-`, value: { ...step, id: uid(), name: `${step.name} (copy)` } }]);
   }, [caseIr, handlePatch]);
 
   const handleDuplicateAltStage = useCallback((stageId: string) => {
@@ -426,7 +531,7 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
     const si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
     const ti = si + dir;
     if (si < 0 || ti < 0 || ti >= caseIr.alternativePaths.length) return;
-    handlePatch([{ op: "move", path: `/alternativePaths/${ti}`, from: `/alternativePaths/${si}` }]);
+    handlePatch([{ op: "move", path: `/alternativePaths/${ti}`, from: stagePath(stageId, "alternativePaths") }]);
   }, [caseIr, handlePatch]);
 
   const handleMoveAltStep = useCallback((stageId: string, groupId: string, stepId: string, dir: -1 | 1) => {
@@ -438,7 +543,7 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
     const sti = caseIr.alternativePaths[si].groups[gi].steps.findIndex(s => s.id === stepId);
     const ti = sti + dir;
     if (sti < 0 || ti < 0 || ti >= caseIr.alternativePaths[si].groups[gi].steps.length) return;
-    handlePatch([{ op: "move", path: `/alternativePaths/${si}/groups/${gi}/steps/${ti}`, from: `/alternativePaths/${si}/groups/${gi}/steps/${sti}` }]);
+    handlePatch([{ op: "move", path: `${groupPath(stageId, groupId, "alternativePaths")}/steps/${ti}`, from: stepPath(stageId, groupId, stepId, "alternativePaths") }]);
   }, [caseIr, handlePatch]);
 
   const handleMoveAltGroup = useCallback((stageId: string, groupId: string, dir: -1 | 1) => {
@@ -448,26 +553,28 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
     const gi = caseIr.alternativePaths[si].groups.findIndex(g => g.id === groupId);
     const ti = gi + dir;
     if (gi < 0 || ti < 0 || ti >= caseIr.alternativePaths[si].groups.length) return;
-    handlePatch([{ op: "move", path: `/alternativePaths/${si}/groups/${ti}`, from: `/alternativePaths/${si}/groups/${gi}` }]);
+    handlePatch([{ op: "move", path: `${stagePath(stageId, "alternativePaths")}/groups/${ti}`, from: groupPath(stageId, groupId, "alternativePaths") }]);
   }, [caseIr, handlePatch]);
 
-  const handleAddBoundaryEvent = useCallback((stageId: string, groupId: string, stepId: string, eventType: BoundaryEventType) => {
+  // ── Event handler (event sub-process) handlers ──────────────────────────────
+  const handleAddEventSubProcess = useCallback(() => {
     if (!caseIr) return;
-    let basePath = "";
-    let si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si >= 0) {
-      basePath = `/stages/${si}`;
-    } else if (caseIr.alternativePaths) {
-      si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-      if (si >= 0) basePath = `/alternativePaths/${si}`;
+    const esp = { id: uid(), name: "Error Handler", triggerType: "error", interrupting: true, steps: [] };
+    if (!caseIr.eventSubProcesses) {
+      handlePatch([{ op: "add", path: "/eventSubProcesses", value: [esp] }]);
+    } else {
+      handlePatch([{ op: "add", path: "/eventSubProcesses/-", value: esp }]);
     }
-    if (!basePath) return;
-    const stageArr = basePath.startsWith("/stages") ? caseIr.stages : caseIr.alternativePaths!;
-    const gi = stageArr[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
-    const sti = stageArr[si].groups[gi].steps.findIndex(s => s.id === stepId);
-    if (sti < 0) return;
-    const step = stageArr[si].groups[gi].steps[sti];
+    setSelection({ kind: "eventSubProcess", eventSubProcessId: esp.id });
+    setPropsCollapsed(false);
+  }, [caseIr, handlePatch]);
+
+  const handleAddBoundaryEvent = useCallback((stageId: string, groupId: string, stepId: string, eventType: BoundaryEventType) => {
+    if (!caseIr) return;
+    const found = findStage(caseIr, stageId);
+    const step = found?.stage.groups.find(g => g.id === groupId)?.steps.find(s => s.id === stepId);
+    if (!found || !step) return;
+    const path = `${stepPath(stageId, groupId, stepId, found.lane)}/boundaryEvents`;
     const existingCount = step.boundaryEvents?.length ?? 0;
     const newBe = {
       id: uid(),
@@ -476,9 +583,9 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
       cancelActivity: true,
     };
     if (existingCount === 0) {
-      handlePatch([{ op: "add", path: `${basePath}/groups/${gi}/steps/${sti}/boundaryEvents`, value: [newBe] }]);
+      handlePatch([{ op: "add", path, value: [newBe] }]);
     } else {
-      handlePatch([{ op: "add", path: `${basePath}/groups/${gi}/steps/${sti}/boundaryEvents/-`, value: newBe }]);
+      handlePatch([{ op: "add", path: `${path}/-`, value: newBe }]);
     }
     setSelection({ kind: "boundaryEvent", stageId, groupId, stepId, boundaryEventId: newBe.id });
   }, [caseIr, handlePatch]);
@@ -508,56 +615,33 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
       },
       moduleRef: {
         moduleId: nodeDef.id,
+        version: nodeDef.version,
         instanceConfig,
       } satisfies ModuleRef,
     };
 
     // Find stage in main flow or alt paths
-    let basePath = "";
-    let si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si >= 0) {
-      basePath = `/stages/${si}`;
-    } else if (caseIr.alternativePaths) {
-      si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-      if (si >= 0) basePath = `/alternativePaths/${si}`;
-    }
-    if (!basePath) return;
-
-    const stageArr = basePath.startsWith("/stages") ? caseIr.stages : caseIr.alternativePaths!;
-    const gi = stageArr[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
+    const lane = caseIr.stages.some(s => s.id === stageId) ? "stages" : "alternativePaths";
+    const stage = (lane === "stages" ? caseIr.stages : caseIr.alternativePaths ?? []).find(s => s.id === stageId);
+    if (!stage?.groups.some(g => g.id === groupId)) return;
 
-    handlePatch([{ op: "add", path: `${basePath}/groups/${gi}/steps/-`, value: newStep }]);
+    handlePatch([{ op: "add", path: `${groupPath(stageId, groupId, lane)}/steps/-`, value: newStep }]);
     // Open config dialog for the newly dropped node
     setNodeConfigTarget({ stepId: newStep.id, stageId, groupId });
   }, [caseIr, handlePatch]);
 
   const handleToggleStepPersona = useCallback((stageId: string, groupId: string, stepId: string, personaId: string) => {
     if (!caseIr) return;
+    const found = findStage(caseIr, stageId);
+    const step = found?.stage.groups.find(g => g.id === groupId)?.steps.find(s => s.id === stepId);
+    if (!found || !step) return;
 
-    let basePath = "";
-    let si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si >= 0) {
-      basePath = `/stages/${si}`;
-    } else if (caseIr.alternativePaths) {
-      si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-      if (si >= 0) basePath = `/alternativePaths/${si}`;
-    }
-    if (!basePath) return;
-
-    const stageArr = basePath.startsWith("/stages") ? caseIr.stages : caseIr.alternativePaths!;
-    const gi = stageArr[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
-    const stepi = stageArr[si].groups[gi].steps.findIndex(s => s.id === stepId);
-    if (stepi < 0) return;
-
-    const step = stageArr[si].groups[gi].steps[stepi];
     const current = step.personaIds ?? [];
     const newPersonaIds = current.includes(personaId)
       ? current.filter(id => id !== personaId)
       : [...current, personaId];
 
-    handlePatch([{ op: "replace", path: `${basePath}/groups/${gi}/steps/${stepi}/personaIds`, value: newPersonaIds }]);
+    handlePatch([{ op: "replace", path: `${stepPath(stageId, groupId, stepId, found.lane)}/personaIds`, value: newPersonaIds }]);
   }, [caseIr, handlePatch]);
 
   const [createdForm, setCreatedForm] = useState<{ id: string; name: string } | null>(null);
@@ -565,22 +649,8 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
   const handleCreateFormFromDialog = useCallback((formName: string, fields?: ModuleConfigField[]) => {
     if (!caseIr || !newFormTarget) return;
     const { stageId, groupId, stepId } = newFormTarget;
-
-    let basePath = "";
-    let si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si >= 0) {
-      basePath = `/stages/${si}`;
-    } else if (caseIr.alternativePaths) {
-      si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-      if (si >= 0) basePath = `/alternativePaths/${si}`;
-    }
-    if (!basePath) return;
-
-    const stageArr = basePath.startsWith("/stages") ? caseIr.stages : caseIr.alternativePaths!;
-    const gi = stageArr[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
-    const sti = stageArr[si].groups[gi].steps.findIndex(s => s.id === stepId);
-    if (sti < 0) return;
+    const targetPath = findStepPath(caseIr, stageId, groupId, stepId);
+    if (!targetPath) return;
 
     const templateId = uid();
     const template: FormTemplate = {
@@ -601,18 +671,19 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
     } else {
       patch.push({ op: "add", path: "/formTemplates/-", value: template });
     }
-    patch.push({ op: "add", path: `${basePath}/groups/${gi}/steps/${sti}/formRef`, value: formRef });
+    patch.push({ op: "add", path: `${targetPath}/formRef`, value: formRef });
 
     try {
-      const updated = applyCaseIRPatch(caseIr, patch);
-      if (!updated.alternativePaths) updated.alternativePaths = [];
+      const recorded = recordPatch(history, caseIr, patch, `Added form ${formName}`);
+      const updated = markEdited(recorded.caseIr);
       setCaseIr(updated);
-      sessionStorage.setItem("studio_caseIr", JSON.stringify(updated));
+      setHistory(recorded.history);
+      parkStudioIr(updated);
       setCreatedForm({ id: templateId, name: formName });
     } catch (e) {
       console.error("Failed to create form:", e);
     }
-  }, [caseIr, newFormTarget]);
+  }, [caseIr, history, newFormTarget]);
 
   const handleCloseFormDialog = useCallback(() => {
     setNewFormTarget(null);
@@ -622,18 +693,8 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
   const handleAttachForm = useCallback((stageId: string, groupId: string, formTemplate: FormTemplate) => {
     if (!caseIr) return;
     // Find the group and add a user step with the form attached
-    let basePath = "";
-    let si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si >= 0) {
-      basePath = `/stages/${si}`;
-    } else if (caseIr.alternativePaths) {
-      si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-      if (si >= 0) basePath = `/alternativePaths/${si}`;
-    }
-    if (!basePath) return;
-    const stageArr = basePath.startsWith("/stages") ? caseIr.stages : caseIr.alternativePaths!;
-    const gi = stageArr[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
+    const found = findStage(caseIr, stageId);
+    if (!found?.stage.groups.some(g => g.id === groupId)) return;
 
     const newStep: Step = {
       id: uid(),
@@ -641,52 +702,112 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
       type: "user",
       formRef: { formId: formTemplate.id, fieldOverrides: {} },
     };
-    handlePatch([{ op: "add", path: `${basePath}/groups/${gi}/steps/-`, value: newStep }]);
+    handlePatch([{ op: "add", path: `${groupPath(stageId, groupId, found.lane)}/steps/-`, value: newStep }]);
   }, [caseIr, handlePatch]);
 
   const handleCreateNewForm = useCallback((stageId: string, groupId: string) => {
     if (!caseIr) return;
-    let basePath = "";
-    let si = caseIr.stages.findIndex(s => s.id === stageId);
-    if (si >= 0) {
-      basePath = `/stages/${si}`;
-    } else if (caseIr.alternativePaths) {
-      si = caseIr.alternativePaths.findIndex(s => s.id === stageId);
-      if (si >= 0) basePath = `/alternativePaths/${si}`;
-    }
-    if (!basePath) return;
-    const stageArr = basePath.startsWith("/stages") ? caseIr.stages : caseIr.alternativePaths!;
-    const gi = stageArr[si].groups.findIndex(g => g.id === groupId);
-    if (gi < 0) return;
+    const found = findStage(caseIr, stageId);
+    if (!found?.stage.groups.some(g => g.id === groupId)) return;
 
     // Add a placeholder step and compute the updated IR
     const newStep: Step = { id: uid(), name: "New Form Step", type: "user" };
-    const stepPath = `${basePath}/groups/${gi}/steps/${stageArr[si].groups[gi].steps.length}`;
-    const patch: JsonPatch = [{ op: "add", path: `${basePath}/groups/${gi}/steps/-`, value: newStep }];
+    // Id path: stays valid however the group is edited while the form builder is open
+    const newStepPath = stepPath(stageId, groupId, newStep.id, found.lane);
+    const patch: JsonPatch = [{ op: "add", path: `${groupPath(stageId, groupId, found.lane)}/steps/-`, value: newStep }];
     
     try {
-      const updatedIr = applyCaseIRPatch(caseIr, patch);
-      if (!updatedIr.alternativePaths) updatedIr.alternativePaths = [];
+      const recorded = recordPatch(history, caseIr, patch, "Added step New Form Step");
+      const updatedIr = markEdited(recorded.caseIr);
       setCaseIr(updatedIr);
+      setHistory(recorded.history);
       
       // Persist to sessionStorage so it survives navigation
-      sessionStorage.setItem("studio_caseIr", JSON.stringify(updatedIr));
+      parkStudioIr(updatedIr);
       
       nav("/studio/form-builder", {
         state: {
-          returnTo: "/studio",
-          stepBasePath: stepPath,
+          returnTo: studioReturnPath(),
+          stepBasePath: newStepPath,
           existingTemplates: updatedIr.formTemplates ?? [],
         },
       });
     } catch (e) {
       console.error("Failed to add form step:", e);
     }
-  }, [caseIr, nav]);
+  }, [caseIr, history, nav]);
+
+  /** Apply a merge result through the history stack, then persist it as the new revision. */
+  const saveMerged = useCallback(async (merged: CaseIR, theirs: WorkflowRevision, message: string) => {
+    if (!workflowId || !caseIr) return;
+    let next = caseIr;
+    const patch = mergePatch(caseIr, merged);
+    if (patch.length > 0) {
+      const recorded = recordPatch(history, caseIr, patch, `Merged revision #${theirs.revisionNumber}`);
+      next = markEdited(recorded.caseIr);
+      setCaseIr(next);
+      setHistory(recorded.history);
+    }
+    const created = await createRevision(workflowId, next, message);
+    setSavedIr(next);
+    setBaseRevisionId(created.id);
+  }, [workflowId, caseIr, history]);
+
+  const handleSaveRevision = useCallback(async (message: string): Promise<SaveRevisionOutcome> => {
+    if (!workflowId || !caseIr) return "saved";
+    const msg = message || "Saved from Studio";
+    // Someone else saved since we loaded: merge their revision into ours instead of overwriting it
+    const latest = await getLatestRevision(workflowId);
+    if (latest && latest.id !== baseRevisionId && savedIr) {
+      const { merged, conflicts } = mergeCaseIr(savedIr, caseIr, latest.caseIr);
+      if (conflicts.length > 0) {
+        setPendingMerge({ theirs: latest, message: msg, conflicts });
+        return "conflicts";
+      }
+      await saveMerged(merged, latest, msg);
+      return "merged";
+    }
+    const created = await createRevision(workflowId, caseIr, msg);
+    setSavedIr(caseIr);
+    setBaseRevisionId(created.id);
+    return "saved";
+  }, [workflowId, caseIr, savedIr, baseRevisionId, saveMerged]);
+
+  const handleResolveMerge = useCallback(async (choices: Record<string, ConflictChoice>) => {
+    if (!pendingMerge || !savedIr || !caseIr) return;
+    const { theirs, message } = pendingMerge;
+    setPendingMerge(null);
+    try {
+      await saveMerged(mergeCaseIr(savedIr, caseIr, theirs.caseIr, choices).merged, theirs, message);
+    } catch (e) {
+      console.error("Failed to save merged revision:", e);
+    }
+  }, [pendingMerge, savedIr, caseIr, saveMerged]);
+
+  const unsaved = !!workflowId && caseIr !== savedIr;
+
+  const handleOpenRevisions = useCallback(() => {
+    if (!workflowId) return;
+    if (unsaved && !confirm("You have unsaved changes. Leave the Studio without saving a revision?")) return;
+    nav(`/workflows/${workflowId}/history`);
+  }, [workflowId, unsaved, nav]);
 
   return (
     <div className="flex flex-col h-full overflow-hidden bg-background">
-      <Toolbar caseIr={caseIr} onImportBpmn={handleImportBpmn} onLoadSample={() => {}} />
+      <Toolbar
+        caseIr={caseIr}
+        onImportBpmn={handleImportBpmn}
+        onLoadSample={() => {}}
+        canUndo={canUndo(history)}
+        canRedo={canRedo(history)}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onOpenHistory={() => setHistoryOpen(true)}
+        onSaveRevision={workflowId && !readOnly ? handleSaveRevision : undefined}
+        onOpenRevisions={workflowId ? handleOpenRevisions : undefined}
+        unsaved={unsaved}
+        collaborators={workflowId ? peers : undefined}
+      />
 
       {warnings.length > 0 && (
         <div className="warning-banner flex items-center gap-2 px-4 py-1.5 text-[12px] flex-shrink-0">
@@ -728,7 +849,7 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
                       <PanelLeftClose size={13} />
                     </button>
                   </div>
-                  <AiChatPanel caseIr={caseIr} onApplyPatch={handlePatch} onUndoTo={handleUndoTo} />
+                  <AiChatPanel caseIr={caseIr} onApplyPatch={handleAiPatch} onRevert={handleRevert} />
                 </>
               )}
             </div>
@@ -778,12 +899,42 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
                     >
                       <Diamond size={11} /> BPMN
                     </button>
+                    <button
+                      onClick={() => setProblemsOpen(o => !o)}
+                      className={`ml-auto inline-flex items-center gap-1 px-2 py-1 rounded text-[11px] font-medium transition-colors ${
+                        problemsOpen
+                          ? "bg-primary text-primary-foreground"
+                          : "hover-btn text-foreground-muted"
+                      }`}
+                      title="Structural problems in this case"
+                    >
+                      <AlertCircle size={11} /> Problems
+                      {lintCounts.error > 0 && <span className="problems-count--error px-1 rounded text-[9px] font-mono">{lintCounts.error}</span>}
+                      {lintCounts.warning > 0 && <span className="problems-count--warning px-1 rounded text-[9px] font-mono">{lintCounts.warning}</span>}
+                    </button>
+                    <button
+                      onClick={() => { setSimulating(s => !s); setSimState(null); setFlowView("lifecycle"); }}
+                      className={`inline-flex items-center gap-1 px-2 py-1 rounded text-[11px] font-medium transition-colors ${
+                        simulating
+                          ? "bg-primary text-primary-foreground"
+                          : "hover-btn text-foreground-muted"
+                      }`}
+                      title="Walk a token through the case locally"
+                    >
+                      <FlaskConical size={11} /> Simulate
+                    </button>
                   </div>
                   {flowView === "lifecycle" ? (
-                    <div className="flex-1 overflow-hidden">
+                    <div className="flex-1 overflow-hidden flex">
+                      <div className="flex-1 overflow-hidden">
                       <LifecycleDiagram
                         caseIr={caseIr}
                         selection={selection}
+                        peers={peerHighlights}
+                        simulation={simulating && simState ? {
+                          activeStepId: simState.status === "running" ? getActiveStep(caseIr, simState)?.id : undefined,
+                          visitedStepIds: simState.trace.flatMap(t => t.stepId ? [t.stepId] : []),
+                        } : undefined}
                         onSelectTrigger={handleSelectTrigger}
                         onSelectEndEvent={handleSelectEndEvent}
                         onSelectProcess={handleSelectProcess}
@@ -821,7 +972,15 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
                         onDropNewForm={handleDropNewForm}
                         onDropNode={handleDropNode}
                         onToggleStepPersona={handleToggleStepPersona}
+                        onSelectEventSubProcess={handleSelectEventSubProcess}
+                        onAddEventSubProcess={handleAddEventSubProcess}
                       />
+                      </div>
+                      {simulating && (
+                        <div className="w-[300px] flex-shrink-0 border-l overflow-hidden">
+                          <SimulationPanel caseIr={caseIr} state={simState} onStateChange={setSimState} />
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="flex-1 overflow-hidden">
@@ -831,6 +990,9 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
                       />
                     </div>
                   )}
+                  {problemsOpen && (
+                    <ProblemsPanel issues={lintIssues} onSelectIssue={handleSelectIssue} onClose={() => setProblemsOpen(false)} />
+                  )}
                 </TabsContent>
                 <TabsContent value="personas" className="flex-1 overflow-auto mt-0">
                   <PersonasPanel caseIr={caseIr} onPatch={handlePatch} />
@@ -854,9 +1016,8 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
                     formTemplates={caseIr.formTemplates ?? []}
                     onSaveTemplate={(template: FormTemplate) => {
                       const existing = caseIr.formTemplates ?? [];
-                      const idx = existing.findIndex(t => t.id === template.id);
-                      if (idx >= 0) {
-                        handlePatch([{ op: "replace", path: `/formTemplates/${idx}`, value: template }]);
+                      if (existing.some(t => t.id === template.id)) {
+                        handlePatch([{ op: "replace", path: `/formTemplates[id=${template.id}]`, value: template }]);
                       } else {
                         if (existing.length === 0) {
                           handlePatch([{ op: "add", path: "/formTemplates", value: [template] }]);
@@ -866,8 +1027,7 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
                       }
                     }}
                     onDeleteTemplate={(templateId: string) => {
-                      const idx = (caseIr.formTemplates ?? []).findIndex(t => t.id === templateId);
-                      if (idx >= 0) handlePatch([{ op: "remove", path: `/formTemplates/${idx}` }]);
+                      if ((caseIr.formTemplates ?? []).some(t => t.id === templateId)) handlePatch([{ op: "remove", path: `/formTemplates[id=${templateId}]` }]);
                     }}
                   />
                 </TabsContent>
@@ -896,6 +1056,30 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
         )}
       </div>
 
+      <HistoryDrawer
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        history={history}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onRevert={(entryId) => {
+          try { handleRevert(entryId); }
+          catch (e) { setHistoryError(e instanceof Error ? e.message : String(e)); }
+        }}
+        error={historyError}
+      />
+
+      {/* Merge Conflict Dialog for saves that raced another revision */}
+      {pendingMerge && (
+        <MergeConflictDialog
+          open
+          conflicts={pendingMerge.conflicts}
+          theirsLabel={`Revision #${pendingMerge.theirs.revisionNumber}${pendingMerge.theirs.authorEmail ? ` by ${pendingMerge.theirs.authorEmail}` : ""}`}
+          onResolve={handleResolveMerge}
+          onCancel={() => setPendingMerge(null)}
+        />
+      )}
+
       {/* Form Builder Dialog for drag-drop */}
       <FormBuilderDialog
         open={!!newFormTarget && !createdForm}
@@ -923,17 +1107,23 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
       {/* Node Config Dialog for drag-drop */}
       {(() => {
         if (!nodeConfigTarget || !caseIr) return null;
-        const allStages = [...caseIr.stages, ...(caseIr.alternativePaths ?? [])];
+        const lanes: Array<[Lane, Stage[]]> = [["stages", caseIr.stages], ["alternativePaths", caseIr.alternativePaths ?? []]];
         let currentStep: Step | null = null;
         let previousStep: Step | null = null;
-        for (const s of allStages) {
-          for (const g of s.groups) {
-            const idx = g.steps.findIndex(st => st.id === nodeConfigTarget.stepId);
-            if (idx >= 0) {
-              currentStep = g.steps[idx];
-              previousStep = idx > 0 ? g.steps[idx - 1] : null;
-              break;
+        // Wherever the step is now – collaborators may have moved it since it was dropped
+        let currentPath: string | null = null;
+        for (const [lane, stages] of lanes) {
+          for (const s of stages) {
+            for (const g of s.groups) {
+              const idx = g.steps.findIndex(st => st.id === nodeConfigTarget.stepId);
+              if (idx >= 0) {
+                currentStep = g.steps[idx];
+                previousStep = idx > 0 ? g.steps[idx - 1] : null;
+                currentPath = stepPath(s.id, g.id, currentStep.id, lane);
+                break;
+              }
             }
+            if (currentStep) break;
           }
           if (currentStep) break;
         }
@@ -945,30 +1135,13 @@ export default function WorkflowStudio({ workflowId, initialCaseIr, initialWarni
             previousStep={previousStep}
             workflowId={caseIr.id}
             onSave={(config, inputMappings, outputMappings) => {
-              if (!currentStep?.moduleRef) return;
-              const allStages2 = [...caseIr.stages, ...(caseIr.alternativePaths ?? [])];
-              for (const s of allStages2) {
-                let basePath = "";
-                let si = caseIr.stages.findIndex(st => st.id === s.id);
-                if (si >= 0) basePath = `/stages/${si}`;
-                else if (caseIr.alternativePaths) {
-                  si = caseIr.alternativePaths.findIndex(st => st.id === s.id);
-                  if (si >= 0) basePath = `/alternativePaths/${si}`;
-                }
-                if (!basePath) continue;
-                const stageArr = basePath.startsWith("/stages") ? caseIr.stages : caseIr.alternativePaths!;
-                for (let gi = 0; gi < stageArr[si].groups.length; gi++) {
-                  const sti = stageArr[si].groups[gi].steps.findIndex(st => st.id === nodeConfigTarget.stepId);
-                  if (sti >= 0) {
-                    handlePatch([{
-                      op: "replace",
-                      path: `${basePath}/groups/${gi}/steps/${sti}/moduleRef/instanceConfig`,
-                      value: config,
-                    }]);
-                    return;
-                  }
-                }
-              }
+              if (!currentStep?.moduleRef || !currentPath) return;
+              // Mappings live on the step too, so the variable checks can see them
+              handlePatch([{
+                op: "replace",
+                path: `${currentPath}/moduleRef`,
+                value: { ...currentStep.moduleRef, instanceConfig: config, inputMappings, outputMappings },
+              }]);
             }}
           />
         );
@@ -402,7 +402,3 @@ export const AUTOMATION_NODES: AutomationNodeDef[] = [
     ],
   },
 ];
-
-export function getNodeDef(nodeId: string): AutomationNodeDef | undefined {
-  return AUTOMATION_NODES.find(n => n.id === nodeId);
-}
@@ -5,7 +5,8 @@
  *  - which element types the group applies to
  */
 
-export type PropFieldType = "text" | "boolean" | "select" | "expression" | "multiline" | "table";
+/** `decision` picks one of the case's decision tables (see BusinessRulesPanel) */
+export type PropFieldType = "text" | "boolean" | "select" | "expression" | "multiline" | "table" | "decision" | "timer";
 
 export interface PropField {
   key: string;            // JSON key in tech/step object
@@ -85,6 +86,42 @@ export const CAMUNDA_PROP_GROUPS: PropGroup[] = [
     ],
   },
 
+  // ── Business Rule Task ────────────────────────────────────────────────────
+  {
+    id: "business-rule-task",
+    title: "Business Rule Task",
+    appliesTo: ["automation"],
+    appliesIfBpmnType: ["businessRuleTask"],
+    fields: [
+      { key: "tech.decisionRef", label: "Decision", type: "decision", placeholder: "— not linked —", hint: "Decision table evaluated by this task" },
+      {
+        key: "tech.decisionRefBinding",
+        label: "Binding",
+        type: "select",
+        default: "latest",
+        options: [
+          { label: "Latest", value: "latest" },
+          { label: "Version", value: "version" },
+          { label: "Version Tag", value: "versionTag" },
+        ],
+      },
+      { key: "tech.decisionRefVersion", label: "Version / Tag", type: "text", placeholder: "1", mono: true, hint: "Used with the Version or Version Tag binding" },
+      {
+        key: "tech.mapDecisionResult",
+        label: "Map Decision Result",
+        type: "select",
+        default: "resultList",
+        options: [
+          { label: "Result list", value: "resultList" },
+          { label: "Single entry", value: "singleEntry" },
+          { label: "Single result", value: "singleResult" },
+          { label: "Collect entries", value: "collectEntries" },
+        ],
+      },
+      { key: "tech.resultVariable", label: "Result Variable", type: "text", placeholder: "decisionResult", mono: true },
+    ],
+  },
+
   // ── Script Task ───────────────────────────────────────────────────────────
   {
     id: "script-task",
@@ -108,8 +145,8 @@ export const CAMUNDA_PROP_GROUPS: PropGroup[] = [
       { key: "tech.assignee",           label: "Assignee",             type: "expression", placeholder: "${initiator}",       hint: "Single user assigned to this task" },
       { key: "tech.candidateUsers",     label: "Candidate Users",      type: "text",       placeholder: "user1, user2",       hint: "Comma-separated list of users" },
       { key: "tech.candidateGroups",    label: "Candidate Groups",     type: "text",       placeholder: "managers, hr",       hint: "Comma-separated list of groups" },
-      { key: "tech.dueDate",            label: "Due Date",             type: "expression", placeholder: "${now() + duration('P3D')}", hint: "ISO 8601 date or FEEL expression" },
-      { key: "tech.followUpDate",       label: "Follow-up Date",       type: "expression", placeholder: "${now() + duration('P1D')}" },
+      { key: "tech.dueDate",            label: "Due Date",             type: "expression", placeholder: "${now() + duration('P3D')}", hint: "ISO 8601 date or FEEL expression; a duration such as P3D counts in the step's business calendar" },
+      { key: "tech.followUpDate",       label: "Follow-up Date",       type: "expression", placeholder: "${now() + duration('P1D')}", hint: "Like the due date, durations count in the step's business calendar" },
       { key: "tech.priority",           label: "Priority",             type: "expression", placeholder: "50",                 hint: "0–100, higher means more urgent" },
     ],
   },
@@ -170,7 +207,7 @@ export const CAMUNDA_PROP_GROUPS: PropGroup[] = [
   {
     id: "gateway",
     title: "Gateway",
-    appliesTo: ["decision"],
+    appliesTo: ["decision", "parallel", "inclusive"],
     fields: [
       { key: "tech.asyncBefore",   label: "Async Before", type: "boolean", default: false },
       { key: "tech.asyncAfter",    label: "Async After",  type: "boolean", default: false },
@@ -192,11 +229,12 @@ export const CAMUNDA_PROP_GROUPS: PropGroup[] = [
           { label: "Signal",     value: "signal" },
           { label: "Error",      value: "error" },
           { label: "Escalation", value: "escalation" },
+          { label: "Compensate (throw)", value: "compensate" },
           { label: "Generic",    value: "generic" },
         ]
       },
       { key: "messageRef",      label: "Message Name",      type: "text",       placeholder: "myMessage",    mono: true },
-      { key: "timerExpression", label: "Timer Expression",  type: "expression", placeholder: "PT5M",         hint: "ISO 8601 duration, date, or cron" },
+      { key: "timerExpression", label: "Timer Expression",  type: "timer",      placeholder: "PT5M",         hint: "ISO 8601 duration or date, or Camunda cron; durations count in the step's business calendar" },
     ],
   },
 
@@ -255,7 +293,7 @@ export const TRIGGER_PROP_GROUPS: PropGroup[] = [
         ],
       },
       { key: "name", label: "Name", type: "text", placeholder: "Start Event name" },
-      { key: "expression", label: "Timer Expression", type: "expression", placeholder: "R/PT5M", hint: "ISO 8601 cycle, date, or duration" },
+      { key: "expression", label: "Timer Expression", type: "timer", placeholder: "R/PT5M", hint: "ISO 8601 cycle, date or duration, or Camunda cron" },
       { key: "messageRef", label: "Message Name", type: "text", placeholder: "myStartMessage", mono: true, hint: "Message reference for message start" },
     ],
   },
@@ -0,0 +1,225 @@
+/**
+ * Automation node versioning – semver helpers, definition checks for publishing,
+ * and the schema diff / config migration behind the Studio's guided node upgrade.
+ */
+import type { ModuleConfigField, ModuleRef } from "@/types/caseIr";
+import type { AutomationNodeDef, JsonSchemaObject, JsonSchemaProperty } from "./automationNodes";
+
+// ─── Semver ───────────────────────────────────────────────────────────────────
+
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)$/;
+
+export function parseSemver(v: string): [number, number, number] | null {
+  const m = SEMVER.exec(v.trim());
+  return m ? [Number(m[1]), Number(m[2]), Number(m[3])] : null;
+}
+
+/** Negative when a < b; invalid versions sort first */
+export function compareSemver(a: string, b: string): number {
+  const pa = parseSemver(a) ?? [-1, -1, -1];
+  const pb = parseSemver(b) ?? [-1, -1, -1];
+  return pa[0] - pb[0] || pa[1] - pb[1] || pa[2] - pb[2];
+}
+
+export function bumpMinor(v: string): string {
+  const [major, minor] = parseSemver(v) ?? [1, 0, 0];
+  return `${major}.${minor + 1}.0`;
+}
+
+// ─── Publishing ───────────────────────────────────────────────────────────────
+
+export const NODE_CATEGORIES: AutomationNodeDef["category"][] = ["communication", "extraction", "ai", "notification", "governance"];
+
+const SCHEMA_TYPES = new Set(["string", "integer", "number", "boolean", "array", "object"]);
+
+function checkSchema(label: string, schema: unknown, errors: string[]) {
+  const s = schema as JsonSchemaObject | undefined;
+  if (!s || s.type !== "object" || typeof s.properties !== "object" || !Array.isArray(s.required)) {
+    errors.push(`${label} must be { type: "object", properties: {...}, required: [...] }`);
+    return;
+  }
+  for (const [key, prop] of Object.entries(s.properties)) {
+    if (!SCHEMA_TYPES.has(prop?.type)) errors.push(`${label}.properties.${key}.type must be one of ${[...SCHEMA_TYPES].join(", ")}`);
+  }
+  for (const key of s.required) {
+    if (!(key in s.properties)) errors.push(`${label}.required lists unknown property "${key}"`);
+  }
+}
+
+/** Problems that block publishing `def`; empty when it can be published */
+export function validateNodeDef(def: Partial<AutomationNodeDef>): string[] {
+  const errors: string[] = [];
+  if (!def.id || !/^[a-z][a-z0-9-]*$/.test(def.id)) errors.push("id must be lower-case letters, digits and dashes (e.g. \"sftp-upload\")");
+  if (!def.version || !parseSemver(def.version)) errors.push("version must be a semantic version like 1.2.0");
+  if (!def.name?.trim()) errors.push("name is required");
+  if (!def.topic?.trim()) errors.push("topic is required (the Camunda external task topic)");
+  if (!def.category || !NODE_CATEGORIES.includes(def.category)) errors.push(`category must be one of ${NODE_CATEGORIES.join(", ")}`);
+  checkSchema("inputSchema", def.inputSchema, errors);
+  checkSchema("outputSchema", def.outputSchema, errors);
+  if (def.defaultConfig !== undefined && (typeof def.defaultConfig !== "object" || Array.isArray(def.defaultConfig))) {
+    errors.push("defaultConfig must be an object");
+  }
+  for (const key of ["inputs", "outputs", "configFields"] as const) {
+    if (def[key] !== undefined && !Array.isArray(def[key])) errors.push(`${key} must be an array`);
+  }
+  return errors;
+}
+
+function configFieldFor(key: string, prop: JsonSchemaProperty, required: boolean): ModuleConfigField {
+  const label = key.replace(/([A-Z])/g, " $1").replace(/^./, c => c.toUpperCase());
+  const type: ModuleConfigField["type"] = prop.enum ? "select"
+    : prop.type === "boolean" ? "boolean"
+    : prop.type === "integer" || prop.type === "number" ? "number"
+    : "string";
+  return {
+    key, label, type, required,
+    defaultValue: prop.default === undefined ? undefined : String(prop.default),
+    options: prop.enum, hint: prop.description, min: prop.minimum, max: prop.maximum,
+  };
+}
+
+/** Fill optional presentation fields a published definition may leave out (config fields come from inputSchema) */
+export function normalizeNodeDef(def: AutomationNodeDef): AutomationNodeDef {
+  const configFields = def.configFields?.length
+    ? def.configFields
+    : Object.entries(def.inputSchema.properties).map(([k, p]) => configFieldFor(k, p, def.inputSchema.required.includes(k)));
+  return {
+    ...def,
+    description: def.description ?? "",
+    icon: def.icon || "Puzzle",
+    color: def.color || "hsl(220 14% 46%)",
+    defaultConfig: def.defaultConfig ?? {},
+    inputs: def.inputs ?? [],
+    outputs: def.outputs ?? Object.entries(def.outputSchema.properties).map(([name, p]) => ({
+      name, type: p.type === "array" || p.type === "object" ? p.type : "string", description: p.description ?? "",
+    })),
+    configFields,
+  };
+}
+
+// ─── Upgrade ──────────────────────────────────────────────────────────────────
+
+export type NodeChangeKind =
+  | "input-added" | "input-removed" | "input-type-changed" | "input-options-changed" | "input-now-required"
+  | "output-removed" | "output-type-changed" | "topic-changed";
+
+export interface NodeSchemaChange {
+  kind: NodeChangeKind;
+  field: string;
+  message: string;
+  /** Could break the step or steps reading its output */
+  breaking: boolean;
+}
+
+/** Schema-level differences between two versions of one node */
+export function diffNodeVersions(from: AutomationNodeDef, to: AutomationNodeDef): NodeSchemaChange[] {
+  const out: NodeSchemaChange[] = [];
+  const fi = from.inputSchema.properties, ti = to.inputSchema.properties;
+  for (const [key, prop] of Object.entries(ti)) {
+    const before = fi[key];
+    const required = to.inputSchema.required.includes(key);
+    if (!before) {
+      out.push({ kind: "input-added", field: key, message: `New ${required ? "required " : ""}setting "${key}" (${prop.type})`, breaking: required && to.defaultConfig[key] === undefined });
+      continue;
+    }
+    if (before.type !== prop.type) {
+      out.push({ kind: "input-type-changed", field: key, message: `"${key}" changed from ${before.type} to ${prop.type}`, breaking: true });
+    }
+    if (prop.enum && (before.enum ?? []).some(v => !prop.enum!.includes(v))) {
+      out.push({ kind: "input-options-changed", field: key, message: `"${key}" no longer accepts ${(before.enum ?? []).filter(v => !prop.enum!.includes(v)).join(", ")}`, breaking: true });
+    }
+    if (required && !from.inputSchema.required.includes(key)) {
+      out.push({ kind: "input-now-required", field: key, message: `"${key}" is now required`, breaking: to.defaultConfig[key] === undefined });
+    }
+  }
+  for (const key of Object.keys(fi)) {
+    if (!ti[key]) out.push({ kind: "input-removed", field: key, message: `Setting "${key}" was removed`, breaking: false });
+  }
+  const fo = from.outputSchema.properties, to_ = to.outputSchema.properties;
+  for (const [key, prop] of Object.entries(fo)) {
+    if (!to_[key]) out.push({ kind: "output-removed", field: key, message: `Output "${key}" was removed; steps reading it will get nothing`, breaking: true });
+    else if (to_[key].type !== prop.type) out.push({ kind: "output-type-changed", field: key, message: `Output "${key}" changed from ${prop.type} to ${to_[key].type}`, breaking: true });
+  }
+  if (from.topic !== to.topic) {
+    out.push({ kind: "topic-changed", field: "topic", message: `Topic changed from ${from.topic} to ${to.topic}`, breaking: false });
+  }
+  return out;
+}
+
+function isEmpty(v: unknown): boolean {
+  return v === undefined || v === null || v === "";
+}
+
+/**
+ * Whether a config value satisfies the property. Lenient about strings, since
+ * the properties panel stores numbers and booleans as text.
+ */
+export function valueFits(prop: JsonSchemaProperty, value: unknown, required: boolean): boolean {
+  if (isEmpty(value)) return !required;
+  if (prop.enum) return prop.enum.includes(String(value));
+  const n = Number(value);
+  switch (prop.type) {
+    case "integer":
+    case "number":
+      if (typeof value === "boolean" || !Number.isFinite(n) || (prop.type === "integer" && !Number.isInteger(n))) return false;
+      return (prop.minimum === undefined || n >= prop.minimum) && (prop.maximum === undefined || n <= prop.maximum);
+    case "boolean":
+      return value === true || value === false || value === "true" || value === "false";
+    case "string":
+      if (typeof value !== "string" && typeof value !== "number") return false;
+      return !prop.pattern || new RegExp(prop.pattern).test(String(value));
+    default:
+      return true;
+  }
+}
+
+export interface UpgradeField {
+  key: string;
+  prop: JsonSchemaProperty;
+  field?: ModuleConfigField;
+  current: unknown;
+  reason: string;
+}
+
+export interface NodeUpgradePlan {
+  from: AutomationNodeDef;
+  to: AutomationNodeDef;
+  changes: NodeSchemaChange[];
+  /** Config proposed for the new version before the designer's answers */
+  config: Record<string, unknown>;
+  /** Settings the designer must fill in before upgrading */
+  needsInput: UpgradeField[];
+  /** Config keys the new version no longer knows, with their current values */
+  dropped: Record<string, unknown>;
+}
+
+export function planNodeUpgrade(from: AutomationNodeDef, to: AutomationNodeDef, current: Record<string, unknown>): NodeUpgradePlan {
+  const config: Record<string, unknown> = {};
+  const needsInput: UpgradeField[] = [];
+  const known = new Set([...Object.keys(to.inputSchema.properties), ...to.configFields.map(f => f.key)]);
+
+  for (const key of known) {
+    const prop = to.inputSchema.properties[key] ?? { type: "string" };
+    const required = to.inputSchema.required.includes(key);
+    const field = to.configFields.find(f => f.key === key);
+    if (!isEmpty(current[key])) {
+      // Never swap a designer's value for a default silently
+      if (valueFits(prop, current[key], required)) config[key] = current[key];
+      else needsInput.push({ key, prop, field, current: current[key], reason: "The current value is not valid for the new version" });
+    } else if (to.defaultConfig[key] !== undefined && valueFits(prop, to.defaultConfig[key], required)) {
+      config[key] = to.defaultConfig[key];
+    } else if (required) {
+      needsInput.push({ key, prop, field, current: current[key], reason: "Required by the new version" });
+    } else if (key in current) {
+      config[key] = current[key];
+    }
+  }
+
+  const dropped = Object.fromEntries(Object.entries(current).filter(([k]) => !known.has(k)));
+  return { from, to, changes: diffNodeVersions(from, to), config, needsInput, dropped };
+}
+
+/** The step's moduleRef pinned to the new version, with the designer's answers applied */
+export function applyNodeUpgrade(plan: NodeUpgradePlan, answers: Record<string, unknown>): ModuleRef {
+  return { moduleId: plan.to.id, version: plan.to.version, instanceConfig: { ...plan.config, ...answers } };
+}
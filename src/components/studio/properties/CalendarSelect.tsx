@@ -0,0 +1,20 @@
+/**
+ * Business calendar picker for steps, SLA policies and SLA rules. Calendars come from the
+ * admin-managed store; a reference to a calendar that no longer exists stays selectable
+ * so it is visible rather than silently dropped.
+ */
+import { useBusinessCalendars } from "@/stores/businessCalendarStore";
+import { describeHours } from "@/lib/calendar/calculator";
+import { SelectInput } from "./PropertyFields";
+
+export function CalendarSelect({ value, onChange, emptyLabel }: {
+  value: string | undefined;
+  onChange: (key: string | undefined) => void;
+  /** Label of the "no calendar" choice, e.g. "Wall-clock time" */
+  emptyLabel: string;
+}) {
+  const calendars = useBusinessCalendars(s => s.calendars);
+  const options = calendars.map(c => ({ label: `${c.name} – ${describeHours(c)} (${c.timeZone})`, value: c.key }));
+  if (value && !calendars.some(c => c.key === value)) options.push({ label: `${value} (not found, standard hours apply)`, value });
+  return <SelectInput value={value ?? ""} onChange={v => onChange(v || undefined)} options={options} placeholder={emptyLabel} />;
+}
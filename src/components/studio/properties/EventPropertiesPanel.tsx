@@ -1,13 +1,17 @@
 /**
- * Trigger, EndEvent, and BoundaryEvent property editors.
+ * Trigger, EndEvent, BoundaryEvent, and event sub-process property editors.
  */
 import { useState, useEffect, useCallback } from "react";
-import type { Trigger, EndEvent, BoundaryEvent, JsonPatch } from "@/types/caseIr";
+import { X } from "lucide-react";
+import type { Trigger, EndEvent, BoundaryEvent, EventSubProcess, EventSubProcessTrigger, JsonPatch, StepType } from "@/types/caseIr";
 import { TRIGGER_PROP_GROUPS } from "../camundaSchema";
+import { STEP_TYPE_CONFIG } from "../FlowNodes";
+import { BRANCH_STEP_TYPES, newBranchStep } from "./branchSteps";
 import {
-  deepGet, deepSet, SectionHeader, Field, TextInput,
+  deepGet, deepSet, SectionHeader, Field, TextInput, MultilineInput,
   ExpressionInput, Toggle, SelectInput, FieldRenderer,
 } from "./PropertyFields";
+import { TimerExpressionInput } from "./TimerExpressionInput";
 
 // ─── Trigger ──────────────────────────────────────────────────────────────────
 
@@ -77,7 +81,9 @@ export function TriggerPropertiesPanel({
                   }
                   return (
                     <Field key={field.key} label={field.label} hint={field.hint}>
-                      <FieldRenderer field={field} value={val} onChange={v => handleChange(field.key, v)} />
+                      {field.type === "timer"
+                        ? <TimerExpressionInput value={String(val ?? "")} onChange={v => handleChange(field.key, v)} usage="start" placeholder={field.placeholder} />
+                        : <FieldRenderer field={field} value={val} onChange={v => handleChange(field.key, v)} />}
                     </Field>
                   );
                 })}
@@ -175,9 +181,12 @@ export function EndEventPropertiesPanel({
 // ─── Boundary Event ───────────────────────────────────────────────────────────
 
 export function BoundaryEventPropertiesPanel({
-  boundaryEvent, basePath, onPatch,
+  boundaryEvent, basePath, calendarRef, onPatch,
 }: {
-  boundaryEvent: BoundaryEvent; basePath: string; onPatch: (p: JsonPatch) => void;
+  boundaryEvent: BoundaryEvent; basePath: string;
+  /** Business calendar of the step the event is attached to */
+  calendarRef?: string;
+  onPatch: (p: JsonPatch) => void;
 }) {
   const [draft, setDraft] = useState<Record<string, unknown>>(
     boundaryEvent as unknown as Record<string, unknown>
@@ -222,9 +231,14 @@ export function BoundaryEventPropertiesPanel({
           <TextInput value={String(draft.name ?? "")} onChange={v => handleChange("name", v)} placeholder="Boundary event name" />
         </Field>
         <Toggle checked={draft.cancelActivity !== false} onChange={v => handleChange("cancelActivity", v)} label="Interrupting (Cancel Activity)" />
-        {(evtType === "timer" || evtType === "error" || evtType === "message") && (
-          <Field label="Expression" hint={evtType === "timer" ? "Timer duration/cycle" : evtType === "error" ? "Error code" : "Message name"}>
-            <ExpressionInput value={String(draft.expression ?? "")} onChange={v => handleChange("expression", v)} placeholder={evtType === "timer" ? "PT5M" : "ref"} />
+        {evtType === "timer" && (
+          <Field label="Expression" hint="Timer duration, date or cycle; durations count in the step's business calendar">
+            <TimerExpressionInput value={String(draft.expression ?? "")} onChange={v => handleChange("expression", v)} usage="boundary" calendarRef={calendarRef} placeholder="PT5M" />
+          </Field>
+        )}
+        {(evtType === "error" || evtType === "message") && (
+          <Field label="Expression" hint={evtType === "error" ? "Error code" : "Message name"}>
+            <ExpressionInput value={String(draft.expression ?? "")} onChange={v => handleChange("expression", v)} placeholder="ref" />
           </Field>
         )}
       </div>
@@ -242,3 +256,143 @@ export function BoundaryEventPropertiesPanel({
     </div>
   );
 }
+
+// ─── Event Sub-Process ────────────────────────────────────────────────────────
+
+const ESP_TRIGGER_OPTIONS: { label: string; value: EventSubProcessTrigger }[] = [
+  { label: "Error", value: "error" }, { label: "Escalation", value: "escalation" },
+  { label: "Message", value: "message" }, { label: "Signal", value: "signal" },
+  { label: "Timer", value: "timer" }, { label: "Conditional", value: "conditional" },
+  { label: "Compensation", value: "compensation" },
+];
+
+const ESP_EXPRESSION_HINT: Partial<Record<EventSubProcessTrigger, { hint: string; placeholder: string }>> = {
+  error: { hint: "Error code (empty catches any error)", placeholder: "PAYMENT_FAILED" },
+  escalation: { hint: "Escalation code (empty catches any escalation)", placeholder: "LATE_DELIVERY" },
+  message: { hint: "Message name", placeholder: "orderCancelled" },
+  signal: { hint: "Signal name", placeholder: "shutdown" },
+  timer: { hint: "Timer cycle, date or duration, or Camunda cron", placeholder: "R/PT1H" },
+  conditional: { hint: "Condition expression", placeholder: "${status == 'blocked'}" },
+};
+
+/** Compensation handlers undo completed work rather than cancel the process, so the flag does not apply */
+const NO_INTERRUPT_FLAG = new Set<EventSubProcessTrigger>(["compensation"]);
+
+export function EventSubProcessPropertiesPanel({
+  eventSubProcess, basePath, onPatch, onDelete,
+}: {
+  eventSubProcess: EventSubProcess; basePath: string;
+  onPatch: (p: JsonPatch) => void; onDelete?: () => void;
+}) {
+  // The draft only holds the handler's own fields; its step list is patched directly
+  const [draft, setDraft] = useState<Record<string, unknown>>(() => espHeader(eventSubProcess));
+  const [dirty, setDirty] = useState(false);
+
+  // Selecting another handler starts a fresh draft (reset while rendering, not in an effect)
+  const [draftFor, setDraftFor] = useState(eventSubProcess.id);
+  if (draftFor !== eventSubProcess.id) {
+    setDraftFor(eventSubProcess.id);
+    setDraft(espHeader(eventSubProcess));
+    setDirty(false);
+  }
+
+  const handleChange = useCallback((key: string, value: unknown) => {
+    setDraft(d => deepSet(d, key, value));
+    setDirty(true);
+  }, []);
+
+  const handleSave = () => {
+    onPatch([{ op: "replace", path: basePath, value: { ...eventSubProcess, ...draft } }]);
+    setDirty(false);
+  };
+
+  const trigger = (draft.triggerType ?? "error") as EventSubProcessTrigger;
+  const exprMeta = ESP_EXPRESSION_HINT[trigger];
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-2 flex-wrap px-4 py-3 border-b border-border">
+        <div className="type-badge--boundary px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide">
+          Event Handler · {trigger}
+        </div>
+        {draft.interrupting === false && (
+          <span className="text-[10px] text-foreground-muted">non-interrupting</span>
+        )}
+      </div>
+      <div className="px-4 py-3 space-y-3">
+        <Field label="Name">
+          <TextInput value={String(draft.name ?? "")} onChange={v => handleChange("name", v)} placeholder="e.g. Handle payment failure" />
+        </Field>
+        <Field label="Trigger">
+          <SelectInput value={trigger} onChange={v => handleChange("triggerType", v)} options={ESP_TRIGGER_OPTIONS} />
+        </Field>
+        {exprMeta && trigger === "timer" && (
+          <Field label="Expression" hint={exprMeta.hint}>
+            <TimerExpressionInput value={String(draft.expression ?? "")} onChange={v => handleChange("expression", v)} usage="handler" placeholder={exprMeta.placeholder} />
+          </Field>
+        )}
+        {exprMeta && trigger !== "timer" && (
+          <Field label="Expression" hint={exprMeta.hint}>
+            <ExpressionInput value={String(draft.expression ?? "")} onChange={v => handleChange("expression", v)} placeholder={exprMeta.placeholder} />
+          </Field>
+        )}
+        {!NO_INTERRUPT_FLAG.has(trigger) && (
+          <Toggle checked={draft.interrupting !== false} onChange={v => handleChange("interrupting", v)} label="Interrupting (Cancel Process)" />
+        )}
+        <Field label="Description">
+          <MultilineInput value={String(draft.description ?? "")} onChange={v => handleChange("description", v)} placeholder="When and why this handler runs" />
+        </Field>
+      </div>
+
+      <div className="px-4 py-3 space-y-1.5 border-t border-border">
+        <div className="text-[10px] font-bold uppercase tracking-widest text-foreground-muted">Handler Steps</div>
+        {eventSubProcess.steps.map(s => (
+          <div key={s.id} className="flex items-center gap-1.5">
+            <span
+              className="step-type-badge px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wide flex-shrink-0"
+              style={{ "--dynamic-color": STEP_TYPE_CONFIG[s.type].colorVar } as React.CSSProperties}
+            >
+              {STEP_TYPE_CONFIG[s.type].label}
+            </span>
+            <TextInput
+              value={s.name}
+              onChange={v => onPatch([{ op: "replace", path: `${basePath}/steps[id=${s.id}]/name`, value: v }])}
+            />
+            <button
+              className="p-1 rounded text-foreground-subtle hover:text-destructive"
+              title="Remove step"
+              onClick={() => onPatch([{ op: "remove", path: `${basePath}/steps[id=${s.id}]` }])}
+            >
+              <X size={11} />
+            </button>
+          </div>
+        ))}
+        {eventSubProcess.steps.length === 0 && (
+          <div className="text-[11px] text-foreground-subtle">No steps yet (the handler starts and ends immediately)</div>
+        )}
+        <SelectInput
+          value=""
+          placeholder="+ Add step…"
+          options={BRANCH_STEP_TYPES.map(t => ({ value: t, label: STEP_TYPE_CONFIG[t].label }))}
+          onChange={v => v && onPatch([{ op: "add", path: `${basePath}/steps/-`, value: newBranchStep(v as StepType) }])}
+        />
+      </div>
+
+      <div className="p-4 border-t border-border mt-auto space-y-2">
+        <button className={`w-full py-2 rounded-md text-sm font-semibold transition-all ${dirty ? "save-btn--active" : "save-btn--inactive"}`} onClick={handleSave}>
+          {dirty ? "Save Changes" : "No Changes"}
+        </button>
+        {onDelete && (
+          <button className="w-full text-[11px] text-destructive hover:underline" onClick={onDelete}>
+            Delete Event Handler
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function espHeader(esp: EventSubProcess): Record<string, unknown> {
+  const { steps: _steps, ...rest } = esp;
+  return rest as unknown as Record<string, unknown>;
+}
@@ -0,0 +1,178 @@
+/**
+ * Validation rules of one form field: conditional requirement, pattern, range, accepted file
+ * types, comparisons with other fields, unique values in repeatable groups and custom error
+ * messages. Controlled: emits one property at a time (undefined clears it), so the step's
+ * field overrides can record each rule separately.
+ */
+import { Plus, X } from "lucide-react";
+import type {
+  FieldComparison, FieldComparisonOperator, FieldValidationMessages, ModuleConfigField,
+} from "@/types/caseIr";
+import { compilePattern, describeComparison, fieldRuleProblems } from "@/lib/forms/validation";
+import { Field, TextInput, Toggle } from "./PropertyFields";
+
+type RuleProp = "requiredWhen" | "pattern" | "min" | "max" | "accept" | "compare" | "uniqueFields" | "messages";
+
+const OPERATORS: FieldComparisonOperator[] = [">", ">=", "<", "<=", "=", "!="];
+const TEXT_TYPES = ["string", "multiline", "email", "url", "password", "richtext"];
+const NUMBER_TYPES = ["number", "slider", "rating"];
+
+const MESSAGE_LABELS: Record<keyof FieldValidationMessages, string> = {
+  required: "When missing",
+  pattern: "When the pattern does not match",
+  range: "When outside min / max",
+  accept: "When the file type is not accepted",
+  unique: "When a value repeats",
+};
+
+function numberOrUndefined(text: string): number | undefined {
+  return text.trim() === "" || Number.isNaN(Number(text)) ? undefined : Number(text);
+}
+
+export function FieldRulesEditor({ field, fields, onChange }: {
+  field: ModuleConfigField;
+  /** All fields of the form, for cross-field rules */
+  fields: ModuleConfigField[];
+  onChange: (prop: RuleProp, value: unknown) => void;
+}) {
+  const compare = field.compare ?? [];
+  const others = fields.filter((f) => f.key !== field.key && f.type !== "repeatable");
+  const subFields = field.repeatableFields ?? [];
+  const unique = field.uniqueFields ?? [];
+  const messages = field.messages ?? {};
+  const problems = fieldRuleProblems(field, fields);
+
+  const setCompare = (next: FieldComparison[]) => onChange("compare", next.length > 0 ? next : undefined);
+  const setRule = (i: number, patch: Partial<FieldComparison>) =>
+    setCompare(compare.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+  const setMessage = (kind: keyof FieldValidationMessages, text: string) => {
+    const next = { ...messages, [kind]: text || undefined };
+    if (!text) delete next[kind];
+    onChange("messages", Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const messageKinds: (keyof FieldValidationMessages)[] = [
+    "required",
+    ...(field.pattern ? ["pattern" as const] : []),
+    ...(field.min !== undefined || field.max !== undefined ? ["range" as const] : []),
+    ...(field.type === "file" && field.accept ? ["accept" as const] : []),
+    ...(unique.length > 0 ? ["unique" as const] : []),
+  ];
+
+  return (
+    <div className="space-y-2">
+      <Field label="Required When" hint={'FEEL over the form\'s field keys, e.g. country = "US"'}>
+        <TextInput mono value={field.requiredWhen ?? ""} onChange={(v) => onChange("requiredWhen", v || undefined)} placeholder="Always optional" />
+      </Field>
+
+      {TEXT_TYPES.includes(field.type) && (
+        <Field label="Pattern" hint="Regular expression the whole value must match">
+          <TextInput mono value={field.pattern ?? ""} onChange={(v) => onChange("pattern", v || undefined)} placeholder="e.g. [A-Z]{2}[0-9]{6}" />
+          {field.pattern && !compilePattern(field.pattern) && (
+            <p className="text-[10px] text-destructive">Invalid pattern – it is not enforced until fixed</p>
+          )}
+        </Field>
+      )}
+
+      {NUMBER_TYPES.includes(field.type) && (
+        <div className="grid grid-cols-2 gap-1.5">
+          <Field label="Min">
+            <TextInput value={field.min === undefined ? "" : String(field.min)} onChange={(v) => onChange("min", numberOrUndefined(v))} placeholder="None" />
+          </Field>
+          <Field label="Max">
+            <TextInput value={field.max === undefined ? "" : String(field.max)} onChange={(v) => onChange("max", numberOrUndefined(v))} placeholder="None" />
+          </Field>
+        </div>
+      )}
+
+      {field.type === "file" && (
+        <Field label="Accepted Types" hint="Extensions or MIME types, e.g. .pdf,image/*">
+          <TextInput mono value={field.accept ?? ""} onChange={(v) => onChange("accept", v || undefined)} placeholder="Any file" />
+        </Field>
+      )}
+
+      {field.type !== "repeatable" && (
+        <div className="space-y-1">
+          <label className="text-[11px] font-medium text-foreground-muted">Compare With</label>
+          {compare.map((rule, i) => (
+            <div key={i} className="space-y-1">
+              <div className="flex items-center gap-1">
+                <select
+                  className="studio-select text-[11px] px-1.5 py-1 rounded"
+                  value={rule.operator}
+                  onChange={(e) => setRule(i, { operator: e.target.value as FieldComparisonOperator })}
+                >
+                  {OPERATORS.map((op) => (
+                    <option key={op} value={op}>{describeComparison(op, field.type === "date")}</option>
+                  ))}
+                </select>
+                <select
+                  className="studio-select flex-1 min-w-0 text-[11px] px-1.5 py-1 rounded"
+                  value={rule.field}
+                  onChange={(e) => setRule(i, { field: e.target.value })}
+                >
+                  {!others.some((f) => f.key === rule.field) && <option value={rule.field}>{rule.field || "— Field —"}</option>}
+                  {others.map((f) => (
+                    <option key={f.key} value={f.key}>{f.label || f.key}</option>
+                  ))}
+                </select>
+                <button className="step-form-icon-btn" onClick={() => setCompare(compare.filter((_, j) => j !== i))} title="Remove rule">
+                  <X size={10} />
+                </button>
+              </div>
+              <TextInput
+                value={rule.message ?? ""}
+                onChange={(v) => setRule(i, { message: v || undefined })}
+                placeholder="Error message (optional)"
+              />
+            </div>
+          ))}
+          <button
+            className="step-form-action-btn w-full justify-center gap-1"
+            onClick={() => setCompare([...compare, { operator: field.type === "date" ? ">" : ">=", field: others[0]?.key ?? "" }])}
+            disabled={others.length === 0}
+          >
+            <Plus size={10} /> Add Comparison
+          </button>
+        </div>
+      )}
+
+      {field.type === "repeatable" && subFields.length > 0 && (
+        <div className="space-y-0.5">
+          <label className="text-[11px] font-medium text-foreground-muted">Unique Per Row</label>
+          {subFields.map((sub) => (
+            <Toggle
+              key={sub.key}
+              checked={unique.includes(sub.key)}
+              onChange={(v) => {
+                const next = v ? [...unique, sub.key] : unique.filter((k) => k !== sub.key);
+                onChange("uniqueFields", next.length > 0 ? next : undefined);
+              }}
+              label={sub.label || sub.key}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <label className="text-[11px] font-medium text-foreground-muted">Error Messages</label>
+        {messageKinds.map((kind) => (
+          <TextInput
+            key={kind}
+            value={messages[kind] ?? ""}
+            onChange={(v) => setMessage(kind, v)}
+            placeholder={`${MESSAGE_LABELS[kind]} (default text)`}
+          />
+        ))}
+      </div>
+
+      {problems.length > 0 && (
+        <div className="space-y-0.5">
+          {problems.map((p, i) => (
+            <p key={i} className={`text-[10px] ${p.severity === "error" ? "text-destructive" : "expression-warning"}`}>{p.message}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * Branch lanes editor for parallel / inclusive gateway steps.
+ * Each branch owns a nested step list; edits are emitted as JSON patches against the block step.
+ */
+import { Plus, X } from "lucide-react";
+import type { GatewayBlockStep, JsonPatch, StepType } from "@/types/caseIr";
+import type { VariableDef } from "@/lib/dataflow/types";
+import { STEP_TYPE_CONFIG } from "../FlowNodes";
+import { SectionHeader, Field, TextInput, ExpressionInput, SelectInput } from "./PropertyFields";
+import { BRANCH_STEP_TYPES, newBranchStep } from "./branchSteps";
+
+export function GatewayBranchesSection({ step, basePath, onPatch, open, onToggle, variables }: {
+  step: GatewayBlockStep;
+  basePath: string;
+  onPatch: (p: JsonPatch) => void;
+  open: boolean;
+  onToggle: () => void;
+  /** Variables offered in branch conditions */
+  variables?: VariableDef[];
+}) {
+  const isInclusive = step.type === "inclusive";
+
+  return (
+    <div>
+      <SectionHeader title="Branches" open={open} onToggle={onToggle} />
+      {open && (
+        <div className="px-4 py-3 space-y-3">
+          {step.branches.map(branch => {
+            const branchPath = `${basePath}/branches[id=${branch.id}]`;
+            return (
+              <div key={branch.id} className="branch-card rounded-lg border p-3 space-y-2.5">
+                <Field label="Label">
+                  <TextInput
+                    value={branch.label}
+                    onChange={v => onPatch([{ op: "replace", path: `${branchPath}/label`, value: v }])}
+                    placeholder="e.g. Notify customer"
+                  />
+                </Field>
+                {isInclusive && (
+                  <>
+                    <Field label="Condition" hint="The branch runs when this evaluates to true. Several branches may run.">
+                      <ExpressionInput
+                        value={branch.condition ?? ""}
+                        onChange={v => onPatch([{ op: "replace", path: `${branchPath}/condition`, value: v }])}
+                        placeholder="e.g. ${amount > 1000}"
+                        variables={variables}
+                      />
+                    </Field>
+                    <label className="flex items-center gap-2 text-[11px] text-foreground-muted cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`default-${step.id}`}
+                        checked={step.defaultBranchId === branch.id}
+                        onChange={() => onPatch([{
+                          op: step.defaultBranchId ? "replace" : "add",
+                          path: `${basePath}/defaultBranchId`,
+                          value: branch.id,
+                        }])}
+                      />
+                      Default branch
+                    </label>
+                  </>
+                )}
+
+                <div className="space-y-1.5">
+                  <div className="text-[10px] font-bold uppercase tracking-widest text-foreground-muted">Steps</div>
+                  {branch.steps.map(s => (
+                    <div key={s.id} className="flex items-center gap-1.5">
+                      <span
+                        className="step-type-badge px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wide flex-shrink-0"
+                        style={{ "--dynamic-color": STEP_TYPE_CONFIG[s.type].colorVar } as React.CSSProperties}
+                      >
+                        {STEP_TYPE_CONFIG[s.type].label}
+                      </span>
+                      <TextInput
+                        value={s.name}
+                        onChange={v => onPatch([{ op: "replace", path: `${branchPath}/steps[id=${s.id}]/name`, value: v }])}
+                      />
+                      <button
+                        className="p-1 rounded text-foreground-subtle hover:text-destructive"
+                        title="Remove step"
+                        onClick={() => onPatch([{ op: "remove", path: `${branchPath}/steps[id=${s.id}]` }])}
+                      >
+                        <X size={11} />
+                      </button>
+                    </div>
+                  ))}
+                  {branch.steps.length === 0 && (
+                    <div className="text-[11px] text-foreground-subtle">Empty branch (passes straight to the join)</div>
+                  )}
+                  <SelectInput
+                    value=""
+                    placeholder="+ Add step…"
+                    options={BRANCH_STEP_TYPES.map(t => ({ value: t, label: STEP_TYPE_CONFIG[t].label }))}
+                    onChange={v => v && onPatch([{ op: "add", path: `${branchPath}/steps/-`, value: newBranchStep(v as StepType) }])}
+                  />
+                </div>
+
+                <button
+                  className="text-[10px] text-destructive hover:underline"
+                  onClick={() => {
+                    const patch: JsonPatch = [{ op: "remove", path: branchPath }];
+                    if (isInclusive && step.defaultBranchId === branch.id) {
+                      patch.push({ op: "remove", path: `${basePath}/defaultBranchId` });
+                    }
+                    onPatch(patch);
+                  }}
+                >
+                  Remove branch
+                </button>
+              </div>
+            );
+          })}
+          <button
+            className="flex items-center gap-1 text-[11px] text-primary hover:underline font-medium"
+            onClick={() => onPatch([{
+              op: "add",
+              path: `${basePath}/branches/-`,
+              value: {
+                id: `branch_${Date.now()}`,
+                label: `Branch ${step.branches.length + 1}`,
+                ...(isInclusive ? { condition: "" } : {}),
+                steps: [],
+              },
+            }])}
+          >
+            <Plus size={11} /> Add Branch
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,8 +2,9 @@
  * Process, Stage, and Group property editors.
  */
 import { useState, useEffect, useCallback } from "react";
-import type { CaseIR, Stage, Group, ProcessProperties, JsonPatch } from "@/types/caseIr";
+import type { CaseIR, Stage, Group, ProcessProperties, JsonPatch, SlaPolicy } from "@/types/caseIr";
 import { Field, TextInput, ExpressionInput, Toggle } from "./PropertyFields";
+import { SlaEditor } from "./SlaEditor";
 
 // ─── Stage ────────────────────────────────────────────────────────────────────
 
@@ -13,7 +14,10 @@ export function StagePropertiesPanel({
   stage: Stage; basePath: string; stageIndex: number; onPatch: (p: JsonPatch) => void;
 }) {
   const [name, setName] = useState(stage.name);
+  const [sla, setSla] = useState<SlaPolicy | undefined>(stage.sla);
   useEffect(() => setName(stage.name), [stage.id]);
+  // Saving, undo and collaborators' edits replace the policy, so the draft follows it
+  useEffect(() => setSla(stage.sla), [stage.id, stage.sla]);
   const totalSteps = stage.groups.reduce((n, g) => n + g.steps.length, 0);
 
   return (
@@ -31,12 +35,18 @@ export function StagePropertiesPanel({
           <div className="text-[10px] text-foreground-muted">Steps</div>
         </div>
       </div>
+      <Field label="SLA" hint="Expected end-to-end time of the stage; enforced by timers when the stage is a BPMN sub-process">
+        <SlaEditor value={sla} onChange={setSla} subject="stage" />
+      </Field>
       <button
         className="save-btn--active w-full py-2 rounded-md text-sm font-semibold"
         onClick={() => {
-          if (name !== stage.name) {
-            onPatch([{ op: "replace", path: `${basePath}/name`, value: name }]);
+          const patch: JsonPatch = [];
+          if (name !== stage.name) patch.push({ op: "replace", path: `${basePath}/name`, value: name });
+          if (JSON.stringify(sla) !== JSON.stringify(stage.sla)) {
+            patch.push(sla ? { op: "add", path: `${basePath}/sla`, value: sla } : { op: "remove", path: `${basePath}/sla` });
           }
+          if (patch.length) onPatch(patch);
         }}
       >
         Save Stage
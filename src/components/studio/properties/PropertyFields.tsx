@@ -2,12 +2,15 @@
  * Shared property editor UI primitives.
  * Used by all PropertiesPanel sub-components.
  */
-import React from "react";
+import React, { useMemo, useRef, useState } from "react";
 import {
   ChevronRight, ChevronDown, Plus, Trash2,
   ArrowRight, Settings2,
 } from "lucide-react";
 import type { IoParam } from "@/types/caseIr";
+import type { VariableDef } from "@/lib/dataflow/types";
+import { completionContext, completionItems, type CompletionItem } from "@/lib/dataflow/completion";
+import { checkExpression, highlightTokens, type ExpressionDiagnostic } from "@/lib/expression/diagnostics";
 import type { PropField } from "../camundaSchema";
 import "../../studio/studio.css";
 
@@ -105,18 +108,144 @@ export function MultilineInput({ value, onChange, placeholder, mono }: InputProp
   );
 }
 
-export function ExpressionInput({ value, onChange, placeholder }: InputProps) {
+/**
+ * Syntax-coloured copy of the input's text, drawn behind a transparent input.
+ * Segments overlapping the diagnostic range get a wavy underline.
+ */
+const ExpressionHighlight = React.forwardRef<HTMLDivElement, {
+  value: string;
+  className: string;
+  diagnostic?: ExpressionDiagnostic;
+}>(({ value, className, diagnostic }, ref) => {
+  const segments = useMemo(() => highlightTokens(value), [value]);
+  const { start, end } = diagnostic?.range ?? { start: -1, end: -1 };
   return (
-    <div className="relative">
-      <span className="expression-prefix absolute left-2.5 top-1/2 -translate-y-1/2 text-[10px] font-mono select-none">
-        fx
-      </span>
+    <div ref={ref} aria-hidden className={`${className} expression-highlight absolute inset-0 pointer-events-none overflow-hidden whitespace-pre`}>
+      {segments.map(seg => (
+        <span
+          key={seg.start}
+          className={`expression-token--${seg.kind} ${seg.start < end && seg.end > start ? `expression-token--${diagnostic!.severity}` : ""}`}
+        >
+          {value.slice(seg.start, seg.end)}
+        </span>
+      ))}
+    </div>
+  );
+});
+ExpressionHighlight.displayName = "ExpressionHighlight";
+
+/**
+ * Text input that suggests variables while the caret is inside `${...}` or `=` FEEL.
+ * Without `variables` it behaves like a plain input; with `highlight` the text is
+ * syntax-coloured and the first diagnostic is underlined.
+ */
+function CompletingInput({ value, onChange, placeholder, className, variables, highlight }: {
+  value: string;
+  onChange: (v: string) => void;
+  placeholder?: string;
+  className: string;
+  variables?: VariableDef[];
+  highlight?: { diagnostic?: ExpressionDiagnostic };
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const mirrorRef = useRef<HTMLDivElement>(null);
+  const [suggest, setSuggest] = useState<{ items: CompletionItem[]; from: number; caret: number } | null>(null);
+  const [active, setActive] = useState(0);
+
+  const refresh = (text: string, caret: number | null) => {
+    const ctx = variables && caret !== null ? completionContext(text, caret) : null;
+    const items = ctx ? completionItems(variables!, ctx) : [];
+    setSuggest(ctx && items.length ? { items, from: ctx.from, caret: caret! } : null);
+    setActive(0);
+  };
+
+  const accept = (item: CompletionItem) => {
+    if (!suggest) return;
+    const next = value.slice(0, suggest.from) + item.label + value.slice(suggest.caret);
+    const caret = suggest.from + item.label.length;
+    onChange(next);
+    setSuggest(null);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(caret, caret));
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggest) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const n = suggest.items.length;
+      setActive(a => (a + (e.key === "ArrowDown" ? 1 : n - 1)) % n);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      accept(suggest.items[active]);
+    } else if (e.key === "Escape") {
+      setSuggest(null);
+    }
+  };
+
+  return (
+    <div className="relative flex-1 min-w-0">
+      {highlight && <ExpressionHighlight ref={mirrorRef} value={value} className={className} diagnostic={highlight.diagnostic} />}
       <input
-        className="studio-input studio-input--mono w-full pl-7 pr-2.5 py-1.5 rounded-md border text-[12px] transition-colors focus:outline-none"
+        ref={inputRef}
+        className={`${className} ${highlight ? "expression-input--highlighted relative" : ""}`}
         value={value}
-        onChange={e => onChange(e.target.value)}
+        onChange={e => { onChange(e.target.value); refresh(e.target.value, e.target.selectionStart); }}
+        onKeyDown={onKeyDown}
+        onClick={e => refresh(value, e.currentTarget.selectionStart)}
+        onBlur={() => setSuggest(null)}
+        // Keep the coloured copy aligned when long expressions scroll horizontally
+        onScroll={e => { if (mirrorRef.current) mirrorRef.current.scrollLeft = e.currentTarget.scrollLeft; }}
         placeholder={placeholder}
+        spellCheck={highlight ? false : undefined}
       />
+      {suggest && (
+        <ul className="expression-suggest absolute left-0 right-0 top-full mt-1 z-50 max-h-48 overflow-y-auto rounded-md border py-1 text-[11px]">
+          {suggest.items.map((item, i) => (
+            <li
+              key={item.label}
+              className={`flex items-center gap-2 px-2.5 py-1 cursor-pointer ${i === active ? "expression-suggest-item--active" : ""}`}
+              // Keep focus in the input so the blur handler does not close the list first
+              onMouseDown={e => { e.preventDefault(); accept(item); }}
+              onMouseEnter={() => setActive(i)}
+            >
+              <span className="font-mono text-foreground">{item.label}</span>
+              <span className="text-[10px] text-foreground-subtle">{item.type}</span>
+              {item.detail && <span className="ml-auto truncate text-[10px] text-foreground-subtle">{item.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Expression field: `${...}` is JUEL, a leading `=` is FEEL, anything else is plain text.
+ * Highlights syntax, completes variables and shows the first error or warning inline.
+ */
+export function ExpressionInput({ value, onChange, placeholder, variables }: Omit<InputProps, "mono"> & { variables?: VariableDef[] }) {
+  const diagnostics = useMemo(() => checkExpression(value), [value]);
+  const diagnostic = diagnostics.find(d => d.severity === "error") ?? diagnostics[0];
+  return (
+    <div>
+      <div className="relative">
+        <span className="expression-prefix absolute left-2.5 top-1/2 -translate-y-1/2 text-[10px] font-mono select-none z-10">
+          fx
+        </span>
+        <CompletingInput
+          className="studio-input studio-input--mono w-full pl-7 pr-2.5 py-1.5 rounded-md border text-[12px] transition-colors focus:outline-none"
+          value={value}
+          onChange={onChange}
+          placeholder={placeholder}
+          variables={variables}
+          highlight={{ diagnostic }}
+        />
+      </div>
+      {diagnostic && (
+        <p className={`mt-1 text-[10px] ${diagnostic.severity === "error" ? "text-destructive" : "expression-warning"}`}>
+          {diagnostic.message}
+        </p>
+      )}
     </div>
   );
 }
@@ -162,12 +291,14 @@ export function SelectInput({
 // ─── IO Parameter table ───────────────────────────────────────────────────────
 
 export function IoParamTable({
-  params, label, accent, onChange,
+  params, label, accent, onChange, variables,
 }: {
   params: IoParam[];
   label: string;
   accent: string;
   onChange: (updated: IoParam[]) => void;
+  /** Variables offered while typing a value expression */
+  variables?: VariableDef[];
 }) {
   const update = (i: number, field: keyof IoParam, val: string) => {
     const next = params.map((p, idx) => idx === i ? { ...p, [field]: val } : p);
@@ -202,11 +333,12 @@ export function IoParamTable({
                 placeholder="name"
               />
               <ArrowRight size={9} className="text-foreground-subtle flex-shrink-0" />
-              <input
-                className="io-param-input flex-1 min-w-0 px-2 py-1 rounded text-[11px] font-mono focus:outline-none border"
+              <CompletingInput
+                className="io-param-input w-full px-2 py-1 rounded text-[11px] font-mono focus:outline-none border"
                 value={p.value}
-                onChange={e => update(i, "value", e.target.value)}
+                onChange={v => update(i, "value", v)}
                 placeholder="${expression}"
+                variables={variables}
               />
               <button
                 className="flex-shrink-0 w-5 h-5 flex items-center justify-center rounded hover:bg-destructive/20 text-destructive"
@@ -225,11 +357,15 @@ export function IoParamTable({
 // ─── Dynamic field renderer ───────────────────────────────────────────────────
 
 export function FieldRenderer({
-  field, value, onChange,
+  field, value, onChange, variables, decisions,
 }: {
   field: PropField;
   value: unknown;
   onChange: (v: unknown) => void;
+  /** Variables offered in expression fields */
+  variables?: VariableDef[];
+  /** Decision tables offered in `decision` fields */
+  decisions?: { id: string; name: string }[];
 }) {
   const str = (v: unknown) => (v !== undefined && v !== null ? String(v) : "");
 
@@ -251,8 +387,14 @@ export function FieldRenderer({
           placeholder={field.placeholder}
         />
       );
+    case "decision": {
+      const options = (decisions ?? []).map(d => ({ label: `${d.name} (${d.id})`, value: d.id }));
+      // Keep references to decisions deployed elsewhere selectable
+      if (str(value) && !options.some(o => o.value === str(value))) options.push({ label: `${str(value)} (not in this case)`, value: str(value) });
+      return <SelectInput value={str(value)} onChange={onChange} options={options} placeholder={field.placeholder} />;
+    }
     case "expression":
-      return <ExpressionInput value={str(value)} onChange={onChange} placeholder={field.placeholder} />;
+      return <ExpressionInput value={str(value)} onChange={onChange} placeholder={field.placeholder} variables={variables} />;
     case "multiline":
       return <MultilineInput value={str(value)} onChange={onChange} placeholder={field.placeholder} mono={field.mono} />;
     default:
@@ -0,0 +1,117 @@
+/**
+ * SLA policy editor shared by the step and stage property panels.
+ * Controlled: emits the whole policy (or undefined to clear it) on every edit.
+ */
+import { Plus, X } from "lucide-react";
+import type { SlaEscalation, SlaPolicy } from "@/types/caseIr";
+import { slaProblems } from "@/lib/sla/policy";
+import { Field, TextInput, SelectInput, Toggle } from "./PropertyFields";
+import { CalendarSelect } from "./CalendarSelect";
+
+const SOURCE_LABELS = {
+  approval: "the approval node's SLA hours",
+  rule: "an SLA business rule",
+} as const;
+
+function describe(policy: SlaPolicy): string {
+  const escalations = policy.escalations?.length ?? 0;
+  return escalations ? `${policy.target}, ${escalations} escalation${escalations > 1 ? "s" : ""}` : policy.target;
+}
+
+export function SlaEditor({ value, derived, onChange, subject = "step" }: {
+  value: SlaPolicy | undefined;
+  /** Policy the step would get without its own SLA, and where it comes from */
+  derived?: { policy: SlaPolicy; source: keyof typeof SOURCE_LABELS } | null;
+  onChange: (policy: SlaPolicy | undefined) => void;
+  subject?: "step" | "stage";
+}) {
+  if (!value) {
+    return (
+      <div className="space-y-2">
+        {derived && (
+          <p className="text-[11px] text-foreground-muted">
+            SLA <span className="font-mono">{describe(derived.policy)}</span> comes from {SOURCE_LABELS[derived.source]}.
+            Setting one here overrides it.
+          </p>
+        )}
+        <Toggle
+          checked={false}
+          onChange={() => onChange(derived ? { ...derived.policy } : { target: "P1D", warningPercent: 80 })}
+          label={`Set an SLA on this ${subject}`}
+        />
+      </div>
+    );
+  }
+
+  const escalations = value.escalations ?? [];
+  const setEscalation = (i: number, patch: Partial<SlaEscalation>) =>
+    onChange({ ...value, escalations: escalations.map((e, j) => (j === i ? { ...e, ...patch } : e)) });
+  const problems = slaProblems(value);
+
+  return (
+    <div className="space-y-3">
+      <Toggle checked onChange={() => onChange(undefined)} label={`Set an SLA on this ${subject}`} />
+      <Field label="Target" hint="ISO 8601 duration, e.g. PT8H or P3D – P3D is three business days with a calendar">
+        <TextInput mono value={value.target} onChange={v => onChange({ ...value, target: v })} placeholder="P1D" />
+      </Field>
+      <Field label="Warn At (% of target)" hint="Leave empty for no warning">
+        <TextInput
+          value={value.warningPercent === undefined ? "" : String(value.warningPercent)}
+          onChange={v => onChange({ ...value, warningPercent: v.trim() === "" || Number.isNaN(Number(v)) ? undefined : Number(v) })}
+          placeholder="80"
+        />
+      </Field>
+      <Field label="Business Calendar" hint="Durations count working time only; weekends and holidays are skipped">
+        <CalendarSelect
+          value={value.calendarRef}
+          onChange={calendarRef => onChange({ ...value, calendarRef })}
+          emptyLabel={subject === "step" ? "Step calendar, else wall-clock time" : "Wall-clock time"}
+        />
+      </Field>
+
+      <div className="space-y-1.5">
+        <div className="text-[10px] font-bold uppercase tracking-widest text-foreground-muted">Escalations</div>
+        {escalations.map((e, i) => (
+          <div key={e.id} className="branch-card rounded-lg border p-2.5 space-y-2">
+            <div className="flex items-center gap-1.5">
+              <span className="text-[11px] font-medium text-foreground flex-1">Level {i + 1}</span>
+              <button
+                className="p-1 rounded text-foreground-subtle hover:text-destructive"
+                title="Remove escalation"
+                onClick={() => onChange({ ...value, escalations: escalations.filter((_, j) => j !== i) })}
+              >
+                <X size={11} />
+              </button>
+            </div>
+            <Field label="After Breach">
+              <TextInput mono value={e.after} onChange={v => setEscalation(i, { after: v })} placeholder="PT4H" />
+            </Field>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label="Action">
+                <SelectInput
+                  value={e.action}
+                  onChange={v => setEscalation(i, { action: v as SlaEscalation["action"] })}
+                  options={[{ label: "Notify", value: "notify" }, { label: "Reassign", value: "reassign" }]}
+                />
+              </Field>
+              <Field label="To">
+                <TextInput value={e.to} onChange={v => setEscalation(i, { to: v })} placeholder="user or group" />
+              </Field>
+            </div>
+          </div>
+        ))}
+        <button
+          className="flex items-center gap-1 text-[11px] text-primary hover:underline font-medium"
+          onClick={() => onChange({
+            ...value,
+            escalations: [...escalations, { id: `esc_${Date.now()}`, after: escalations.length ? "P1D" : "PT0S", action: "notify", to: "" }],
+          })}
+        >
+          <Plus size={11} /> Add Escalation
+        </button>
+      </div>
+
+      {problems.map(p => <p key={p} className="text-[10px] text-destructive">{p}</p>)}
+    </div>
+  );
+}
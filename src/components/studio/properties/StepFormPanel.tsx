@@ -1,12 +1,17 @@
 /**
  * StepFormPanel – lets users attach a reusable form template to a step,
  * create new form templates inline, and optionally override field-level settings.
+ * A user task can instead be bound to a published questionnaire, filled at /fill/:flowId.
+ * Fields carry validation rules, authored per template field or overridden per step.
  */
-import { useState, useMemo } from "react";
-import { Plus, X, Eye, Settings2, ChevronDown, ChevronRight, Save } from "lucide-react";
+import { useState, useMemo, useEffect } from "react";
+import { Plus, X, Eye, Settings2, ChevronDown, ChevronRight, Save, ClipboardList, ShieldCheck } from "lucide-react";
 import type { FormTemplate, FormRef, ModuleConfigField, JsonPatch } from "@/types/caseIr";
+import { usePublishedQuestionnaires } from "@/stores/publishedQuestionnaireStore";
+import { boundQuestionnaireFlowId, questionnaireFormId } from "@/lib/questionnaire/binding";
 import FormPreview from "../FormPreview";
 import { SectionHeader, Field, TextInput, Toggle } from "./PropertyFields";
+import { FieldRulesEditor } from "./FieldRulesEditor";
 import "../studio.css";
 
 const FIELD_TYPE_OPTIONS: { value: ModuleConfigField["type"]; label: string }[] = [
@@ -20,8 +25,23 @@ const FIELD_TYPE_OPTIONS: { value: ModuleConfigField["type"]; label: string }[]
   { value: "email", label: "Email" },
   { value: "url", label: "URL" },
   { value: "file", label: "File Upload" },
+  { value: "repeatable", label: "Repeatable Group" },
 ];
 
+/** What a step override stores to switch off a rule of the template */
+const CLEARED_RULES: Partial<Record<keyof ModuleConfigField, unknown>> = {
+  requiredWhen: "", pattern: "", accept: "", compare: [], uniqueFields: [], messages: {},
+};
+
+/** Drop properties set to undefined, which JSON patches cannot carry */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+function fieldKey(label: string, fallback: string) {
+  return label ? label.toLowerCase().replace(/\s+/g, '_') : fallback;
+}
+
 function uid() { return `fld_${Math.random().toString(36).slice(2, 8)}`; }
 function templateUid() { return `ftpl_${Math.random().toString(36).slice(2, 10)}`; }
 
@@ -38,6 +58,14 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
   const [creatingNew, setCreatingNew] = useState(false);
   const [newFormName, setNewFormName] = useState("");
   const [newFormFields, setNewFormFields] = useState<ModuleConfigField[]>([]);
+  const [rulesOpenFor, setRulesOpenFor] = useState<number | null>(null);
+  const { questionnaires, status: questionnaireStatus, load: loadQuestionnaires } = usePublishedQuestionnaires();
+  const boundFlowId = boundQuestionnaireFlowId(formRef);
+  const boundQuestionnaire = questionnaires.find((q) => q.flowId === boundFlowId);
+
+  useEffect(() => {
+    if (questionnaireStatus === "idle") loadQuestionnaires();
+  }, [questionnaireStatus, loadQuestionnaires]);
 
   const selectedTemplate = useMemo(
     () => formTemplates.find((t) => t.id === formRef?.formId),
@@ -95,11 +123,18 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
   };
 
   const handleNewFieldChange = (index: number, updates: Partial<ModuleConfigField>) => {
-    setNewFormFields(prev => prev.map((f, i) => i === index ? { ...f, ...updates } : f));
+    setNewFormFields(prev => prev.map((f, i) => i === index ? withoutUndefined({ ...f, ...updates }) : f));
+  };
+
+  const handleSubFieldsChange = (index: number, subFields: ModuleConfigField[]) => {
+    const keys = new Set(subFields.map((f) => f.key));
+    const unique = newFormFields[index].uniqueFields?.filter((k) => keys.has(k));
+    handleNewFieldChange(index, { repeatableFields: subFields, uniqueFields: unique?.length ? unique : undefined });
   };
 
   const handleRemoveNewField = (index: number) => {
     setNewFormFields(prev => prev.filter((_, i) => i !== index));
+    setRulesOpenFor(null);
   };
 
   const handleSaveNewTemplate = () => {
@@ -128,6 +163,7 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
     setCreatingNew(false);
     setNewFormName("");
     setNewFormFields([]);
+    setRulesOpenFor(null);
   };
 
   return (
@@ -147,6 +183,16 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
                   {t.name} ({t.fields.length} fields)
                 </option>
               ))}
+              {(questionnaires.some((q) => q.status === "Published") || boundFlowId) && (
+                <optgroup label="Published questionnaires">
+                  {questionnaires.filter((q) => q.status === "Published").map((q) => (
+                    <option key={q.flowId} value={questionnaireFormId(q.flowId)}>{q.name} (v{q.version})</option>
+                  ))}
+                  {boundFlowId && boundQuestionnaire?.status !== "Published" && (
+                    <option value={questionnaireFormId(boundFlowId)}>{boundFlowId} (not published)</option>
+                  )}
+                </optgroup>
+              )}
             </select>
             {formRef && (
               <button className="step-form-icon-btn" onClick={handleDetach} title="Detach form">
@@ -166,6 +212,17 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
           </button>
         )}
 
+        {boundFlowId && (
+          <div className="flex items-start gap-1.5 text-[10px] text-foreground-muted px-1">
+            <ClipboardList size={11} className="flex-shrink-0 mt-px" />
+            <span>
+              Assignees fill in the questionnaire at <span className="font-mono">/fill/{boundFlowId}?task=&lt;task id&gt;</span>;
+              submitting completes the task with the answers as variables.
+              {boundQuestionnaire?.status !== "Published" && " Publish the questionnaire in the Form Builder first."}
+            </span>
+          </div>
+        )}
+
         {selectedTemplate?.description && (
           <div className="text-[10px] text-foreground-muted italic px-1">
             {selectedTemplate.description}
@@ -194,7 +251,7 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
                 <div className="flex items-center gap-1.5">
                   <TextInput
                     value={field.label}
-                    onChange={(v) => handleNewFieldChange(idx, { label: v, key: v ? v.toLowerCase().replace(/\s+/g, '_') : field.key })}
+                    onChange={(v) => handleNewFieldChange(idx, { label: v, key: fieldKey(v, field.key) })}
                     placeholder="Field label"
                   />
                   <select
@@ -216,7 +273,23 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
                     onChange={(v) => handleNewFieldChange(idx, { required: v })}
                     label="Required"
                   />
+                  <button
+                    className={`step-form-action-btn ml-auto gap-1 ${rulesOpenFor === idx ? "step-form-action-btn--active" : ""}`}
+                    onClick={() => setRulesOpenFor(rulesOpenFor === idx ? null : idx)}
+                  >
+                    <ShieldCheck size={10} /> Rules
+                  </button>
                 </div>
+                {field.type === "repeatable" && (
+                  <SubFieldList fields={field.repeatableFields ?? []} onChange={(sub) => handleSubFieldsChange(idx, sub)} />
+                )}
+                {rulesOpenFor === idx && (
+                  <FieldRulesEditor
+                    field={field}
+                    fields={newFormFields}
+                    onChange={(prop, value) => handleNewFieldChange(idx, { [prop]: value })}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -243,7 +316,7 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
             </button>
             <button
               className="step-form-action-btn px-3"
-              onClick={() => { setCreatingNew(false); setNewFormName(""); setNewFormFields([]); }}
+              onClick={() => { setCreatingNew(false); setNewFormName(""); setNewFormFields([]); setRulesOpenFor(null); }}
             >
               Cancel
             </button>
@@ -291,6 +364,7 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
                   <FieldOverrideRow
                     key={field.key}
                     field={field}
+                    fields={effectiveFields}
                     override={override}
                     hasOverrides={hasOverrides}
                     onChange={(prop, val) => handleOverrideChange(field.key, prop, val)}
@@ -309,9 +383,11 @@ export default function StepFormPanel({ formRef, formTemplates, basePath, onPatc
 /* ─── Field Override Row ─────────────────────────────────────────────────────── */
 
 function FieldOverrideRow({
-  field, override, hasOverrides, onChange, onRemove,
+  field, fields, override, hasOverrides, onChange, onRemove,
 }: {
   field: ModuleConfigField;
+  /** The form's fields with this step's overrides applied */
+  fields: ModuleConfigField[];
   override: Partial<ModuleConfigField>;
   hasOverrides: boolean;
   onChange: (prop: string, value: unknown) => void;
@@ -319,6 +395,15 @@ function FieldOverrideRow({
 }) {
   const [expanded, setExpanded] = useState(hasOverrides);
 
+  // Back to the template's value drops the override; clearing a template rule stores an empty one
+  const handleRuleChange = (prop: keyof ModuleConfigField, value: unknown) => {
+    if (JSON.stringify(value) === JSON.stringify(field[prop])) onRemove(prop);
+    else if (value === undefined) {
+      if (prop in CLEARED_RULES) onChange(prop, CLEARED_RULES[prop]);
+      else onRemove(prop);
+    } else onChange(prop, value);
+  };
+
   return (
     <div className={`step-form-override-card ${hasOverrides ? "step-form-override-card--modified" : ""}`}>
       <button className="step-form-override-header" onClick={() => setExpanded(!expanded)}>
@@ -350,8 +435,52 @@ function FieldOverrideRow({
               placeholder={field.hint ?? "No hint"}
             />
           </Field>
+          <div className="text-[10px] font-bold uppercase tracking-widest text-foreground-muted pt-1">Validation</div>
+          <FieldRulesEditor field={{ ...field, ...override }} fields={fields} onChange={handleRuleChange} />
         </div>
       )}
     </div>
   );
 }
+
+/* ─── Repeatable Group Fields ────────────────────────────────────────────────── */
+
+function SubFieldList({ fields, onChange }: {
+  fields: ModuleConfigField[];
+  onChange: (fields: ModuleConfigField[]) => void;
+}) {
+  const update = (index: number, updates: Partial<ModuleConfigField>) =>
+    onChange(fields.map((f, i) => (i === index ? { ...f, ...updates } : f)));
+
+  return (
+    <div className="space-y-1 pl-2 border-l border-border">
+      {fields.map((sub, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <TextInput
+            value={sub.label}
+            onChange={(v) => update(i, { label: v, key: fieldKey(v, sub.key) })}
+            placeholder="Group field label"
+          />
+          <select
+            className="studio-select text-[11px] px-1.5 py-1 rounded"
+            value={sub.type}
+            onChange={(e) => update(i, { type: e.target.value as ModuleConfigField["type"] })}
+          >
+            {FIELD_TYPE_OPTIONS.filter((o) => o.value !== "repeatable").map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+          <button className="step-form-icon-btn" onClick={() => onChange(fields.filter((_, j) => j !== i))} title="Remove group field">
+            <X size={10} />
+          </button>
+        </div>
+      ))}
+      <button
+        className="step-form-action-btn w-full justify-center gap-1"
+        onClick={() => onChange([...fields, { key: uid(), label: "", type: "string", required: false }])}
+      >
+        <Plus size={10} /> Add Group Field
+      </button>
+    </div>
+  );
+}
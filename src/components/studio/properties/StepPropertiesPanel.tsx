@@ -2,17 +2,59 @@
  * Step properties editor sub-panel.
  */
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { ArrowRight, Package, FileText, X, Pencil, Eye, Settings2, Zap } from "lucide-react";
+import { ArrowRight, ArrowUpCircle, Package, FileText, X, Pencil, Eye, Settings2, Zap } from "lucide-react";
 import { useNavigate } from "react-router-dom";
-import type { Step, IoParam, JsonPatch, FormTemplate, FormRef } from "@/types/caseIr";
+import type { Step, StepType, IoParam, JsonPatch, FormTemplate, FormRef, CompensationHandler, ModuleRef, SlaPolicy } from "@/types/caseIr";
 import FormPreview from "../FormPreview";
 import { STEP_TYPE_CONFIG } from "../FlowNodes";
 import { CAMUNDA_PROP_GROUPS } from "../camundaSchema";
-import { getNodeDef } from "../automationNodes";
+import { useNodeRegistry, getPinnedNodeDef, getNodeUpgrade, dataFlowNodeResolver } from "@/stores/nodeRegistryStore";
+import { analyzeDataFlow } from "@/lib/dataflow/analysis";
+import type { VariableDef } from "@/lib/dataflow/types";
+import { planNodeUpgrade, type NodeUpgradePlan } from "../nodeVersions";
+import NodeUpgradeDialog from "../NodeUpgradeDialog";
 import {
-  deepGet, deepSet, SectionHeader, Field, TextInput,
-  MultilineInput, Toggle, IoParamTable, FieldRenderer,
+  deepGet, deepSet, SectionHeader, Field, TextInput, ExpressionInput,
+  MultilineInput, Toggle, SelectInput, IoParamTable, FieldRenderer,
 } from "./PropertyFields";
+import { GatewayBranchesSection } from "./GatewayBranchesSection";
+import { SlaEditor } from "./SlaEditor";
+import { effectiveStepSla, slaSourceOf, SLA_STEP_TYPES } from "@/lib/sla/policy";
+import { CalendarSelect } from "./CalendarSelect";
+import { TimerExpressionInput } from "./TimerExpressionInput";
+import { useBusinessCalendars } from "@/stores/businessCalendarStore";
+import { parkStudioIr, studioReturnPath } from "@/lib/studioSession";
+import { addBusinessTime, findCalendar, formatInTimeZone, parseBusinessDuration, STANDARD_CALENDAR } from "@/lib/calendar/calculator";
+
+/** Step types that can carry a compensation handler (mirrors compensationSchema in caseIrSchema) */
+const COMPENSABLE_TYPES = new Set<StepType>(["automation", "user", "foreach", "callActivity"]);
+
+/** Step types whose durations can count in a business calendar (mirrors calendarRef in caseIrSchema) */
+const CALENDAR_TYPES = new Set<StepType>(["automation", "user", "intermediateEvent"]);
+
+/* ─── Working time sub-section ─────────────────────────────────────────────── */
+
+/** When each of the step's durations would fall if the step started now */
+function WorkingTimePreview({ calendarRef, durations }: { calendarRef: string; durations: Array<{ label: string; value: unknown }> }) {
+  const calendars = useBusinessCalendars(s => s.calendars);
+  const calendar = findCalendar(calendars, calendarRef) ?? STANDARD_CALENDAR;
+  const rows = durations.flatMap(({ label, value }) => {
+    const d = typeof value === "string" ? parseBusinessDuration(value) : null;
+    return d ? [{ label, value: value as string, at: formatInTimeZone(addBusinessTime(new Date(), d, calendar), calendar.timeZone) }] : [];
+  });
+  if (!rows.length) return null;
+  return (
+    <div className="space-y-1">
+      <div className="text-[10px] font-bold uppercase tracking-widest text-foreground-muted">If started now ({calendar.timeZone})</div>
+      {rows.map(r => (
+        <div key={r.label} className="flex items-center gap-2 text-[11px]">
+          <span className="text-foreground-muted flex-1">{r.label} <span className="font-mono">{r.value}</span></span>
+          <span className="font-mono text-foreground">{r.at}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 /* ─── Form management sub-section ──────────────────────────────────────────── */
 
@@ -52,10 +94,10 @@ function StepFormSection({ step, basePath, onPatch, formTemplates, openGroups, t
 
   const handleEditForm = () => {
     if (!selectedTemplate) return;
-    if (caseIr) sessionStorage.setItem("studio_caseIr", JSON.stringify(caseIr));
+    if (caseIr) parkStudioIr(caseIr);
     navigate("/studio/form-builder", {
       state: {
-        returnTo: "/studio",
+        returnTo: studioReturnPath(),
         stepBasePath: basePath,
         existingTemplates: formTemplates,
         editTemplate: selectedTemplate,
@@ -64,10 +106,10 @@ function StepFormSection({ step, basePath, onPatch, formTemplates, openGroups, t
   };
 
   const handleCreateNewForm = () => {
-    if (caseIr) sessionStorage.setItem("studio_caseIr", JSON.stringify(caseIr));
+    if (caseIr) parkStudioIr(caseIr);
     navigate("/studio/form-builder", {
       state: {
-        returnTo: "/studio",
+        returnTo: studioReturnPath(),
         stepBasePath: basePath,
         existingTemplates: formTemplates,
       },
@@ -163,6 +205,21 @@ export default function StepPropertiesPanel({
   const [inputParams, setInputParams] = useState<IoParam[]>(step.tech?.inputParameters ?? []);
   const [outputParams, setOutputParams] = useState<IoParam[]>(step.tech?.outputParameters ?? []);
   const [dirty, setDirty] = useState(false);
+  const [upgradePlan, setUpgradePlan] = useState<NodeUpgradePlan | null>(null);
+  // Re-render once published node versions load
+  const nodeVersions = useNodeRegistry(s => s.versions);
+
+  // Variables set upstream, for autocomplete; output parameters also see the step's own results
+  const dataFlow = useMemo(
+    () => (caseIr ? analyzeDataFlow(caseIr, dataFlowNodeResolver(nodeVersions)) : null),
+    [caseIr, nodeVersions],
+  );
+  const variablesBefore = useMemo(() => dataFlow?.scopes.get(step.id) ?? [], [dataFlow, step.id]);
+  const variablesInStep = useMemo(() => {
+    const byName = new Map<string, VariableDef>();
+    for (const v of [...variablesBefore, ...(dataFlow?.outputs.get(step.id) ?? [])]) byName.set(v.name, v);
+    return [...byName.values()];
+  }, [dataFlow, variablesBefore, step.id]);
 
   useEffect(() => {
     setDraft(step as unknown as Record<string, unknown>);
@@ -195,6 +252,23 @@ export default function StepPropertiesPanel({
     setDirty(false);
   };
 
+  const handleNodeUpgrade = (moduleRef: ModuleRef) => {
+    if (!upgradePlan) return;
+    const patch: JsonPatch = [{ op: "replace", path: `${basePath}/moduleRef`, value: moduleRef }];
+    setDraft(d => deepSet(d, "moduleRef", moduleRef));
+    // Follow a topic rename unless the designer pointed the step at a custom topic
+    const { from, to } = upgradePlan;
+    const topic = step.tech?.topic;
+    if (from.topic !== to.topic && (!topic || topic === from.topic)) {
+      patch.push(step.tech
+        ? { op: "add", path: `${basePath}/tech/topic`, value: to.topic }
+        : { op: "add", path: `${basePath}/tech`, value: { implementationType: "external", topic: to.topic } });
+      setDraft(d => deepSet(d, "tech.topic", to.topic));
+    }
+    onPatch(patch);
+    setUpgradePlan(null);
+  };
+
   const cfg = STEP_TYPE_CONFIG[step.type];
   const bpmnType = step.source?.bpmnElementType ?? "";
 
@@ -206,7 +280,8 @@ export default function StepPropertiesPanel({
     return true;
   });
 
-  const groups = step.type === "decision"
+  const isGateway = step.type === "decision" || step.type === "parallel" || step.type === "inclusive";
+  const groups = isGateway
     ? applicableGroups.filter(g => g.id !== "async" && g.id !== "job")
     : applicableGroups.filter(g => g.id !== "gateway");
 
@@ -250,6 +325,16 @@ export default function StepPropertiesPanel({
               if (newType === "decision" && !Array.isArray((draft as any).branches)) {
                 handleChange("branches", []);
               }
+              // Parallel / inclusive branches own nested step lists; start with two empty lanes
+              if (newType === "parallel" || newType === "inclusive") {
+                const prev = Array.isArray(draft.branches) ? draft.branches as Array<{ id: string; label: string; condition?: string }> : [];
+                const lanes = prev.length >= 2 ? prev : [{ id: "branch_a", label: "Branch A" }, { id: "branch_b", label: "Branch B" }];
+                handleChange("branches", lanes.map(b => ({
+                  id: b.id, label: b.label,
+                  ...(newType === "inclusive" ? { condition: b.condition ?? "" } : {}),
+                  steps: [],
+                })));
+              }
             }}
           >
             {Object.entries(STEP_TYPE_CONFIG).map(([key, cfg]) => (
@@ -277,7 +362,9 @@ export default function StepPropertiesPanel({
                   }
                   return (
                     <Field key={field.key} label={field.label} hint={field.hint}>
-                      <FieldRenderer field={field} value={val} onChange={v => handleChange(field.key, v)} />
+                      {field.type === "timer"
+                        ? <TimerExpressionInput value={String(val ?? "")} onChange={v => handleChange(field.key, v)} usage="wait" calendarRef={draft.calendarRef as string | undefined} placeholder={field.placeholder} />
+                        : <FieldRenderer field={field} value={val} onChange={v => handleChange(field.key, v)} variables={variablesBefore} decisions={caseIr?.decisionTables} />}
                     </Field>
                   );
                 })}
@@ -292,7 +379,7 @@ export default function StepPropertiesPanel({
           <SectionHeader title="Branches" open={openGroups.has("branches")} onToggle={() => toggleGroup("branches")} />
           {openGroups.has("branches") && (
             <div className="px-4 py-3 space-y-3">
-              {(step.branches ?? []).map((branch, bi) => {
+              {(step.branches ?? []).map(branch => {
                 const allSteps: { id: string; name: string; lane: string }[] = [];
                 if (caseIr) {
                   (caseIr.stages ?? []).forEach(st => st.groups.forEach(g => g.steps.forEach(s => {
@@ -307,22 +394,23 @@ export default function StepPropertiesPanel({
                     <Field label="Label">
                       <TextInput
                         value={branch.label}
-                        onChange={v => onPatch([{ op: "replace", path: `${basePath}/branches/${bi}/label`, value: v }])}
+                        onChange={v => onPatch([{ op: "replace", path: `${basePath}/branches[id=${branch.id}]/label`, value: v }])}
                         placeholder="e.g. Approved"
                       />
                     </Field>
                     <Field label="Condition">
-                      <TextInput
+                      <ExpressionInput
                         value={branch.condition}
-                        onChange={v => onPatch([{ op: "replace", path: `${basePath}/branches/${bi}/condition`, value: v }])}
-                        placeholder="e.g. approved === true"
+                        onChange={v => onPatch([{ op: "replace", path: `${basePath}/branches[id=${branch.id}]/condition`, value: v }])}
+                        placeholder="e.g. ${approved == true}"
+                        variables={variablesBefore}
                       />
                     </Field>
                     <Field label="Target Step">
                       <select
                         className="studio-select w-full text-[12px] rounded-md px-2.5 py-1.5"
                         value={branch.targetStepId ?? ""}
-                        onChange={e => onPatch([{ op: "replace", path: `${basePath}/branches/${bi}/targetStepId`, value: e.target.value || undefined }])}
+                        onChange={e => onPatch([{ op: "replace", path: `${basePath}/branches[id=${branch.id}]/targetStepId`, value: e.target.value || undefined }])}
                       >
                         <option value="">— Next step (default) —</option>
                         {allSteps.map(s => (
@@ -332,7 +420,7 @@ export default function StepPropertiesPanel({
                     </Field>
                     <button
                       className="text-[10px] text-destructive hover:underline"
-                      onClick={() => onPatch([{ op: "remove", path: `${basePath}/branches/${bi}` }])}
+                      onClick={() => onPatch([{ op: "remove", path: `${basePath}/branches[id=${branch.id}]` }])}
                     >
                       Remove branch
                     </button>
@@ -354,6 +442,17 @@ export default function StepPropertiesPanel({
         </div>
       )}
 
+      {(step.type === "parallel" || step.type === "inclusive") && (
+        <GatewayBranchesSection
+          step={step}
+          basePath={basePath}
+          onPatch={onPatch}
+          open={openGroups.has("branches")}
+          onToggle={() => toggleGroup("branches")}
+          variables={variablesBefore}
+        />
+      )}
+
       {step.type === "callActivity" && (
         <div>
           <SectionHeader title="Variable Mappings" open={openGroups.has("ca-mappings")} onToggle={() => toggleGroup("ca-mappings")} />
@@ -391,7 +490,8 @@ export default function StepPropertiesPanel({
       )}
 
       {step.moduleRef && (() => {
-        const nodeDef = getNodeDef(step.moduleRef.moduleId);
+        const nodeDef = getPinnedNodeDef(step.moduleRef);
+        const upgrade = getNodeUpgrade(step.moduleRef);
         if (nodeDef) {
           return (
             <div>
@@ -405,9 +505,21 @@ export default function StepPropertiesPanel({
                   <div className="flex items-center gap-2 mb-2">
                     <Zap size={12} style={{ color: nodeDef.color }} />
                     <span className="text-[10px] font-mono text-foreground-muted">
-                      topic: {nodeDef.topic}
+                      topic: {nodeDef.topic} · v{nodeDef.version}
                     </span>
                   </div>
+                  {upgrade && (
+                    <div className="step-node-upgrade flex items-center gap-2 rounded-md px-2.5 py-2 text-[11px]">
+                      <ArrowUpCircle size={12} className="flex-shrink-0" />
+                      <span>Version {upgrade.version} is available</span>
+                      <button
+                        className="step-form-action-btn ml-auto px-2 py-1"
+                        onClick={() => setUpgradePlan(planNodeUpgrade(nodeDef, upgrade, step.moduleRef?.instanceConfig ?? {}))}
+                      >
+                        Review upgrade
+                      </button>
+                    </div>
+                  )}
                   {nodeDef.configFields.map(field => {
                     const config = (step.moduleRef?.instanceConfig ?? {}) as Record<string, unknown>;
                     const val = config[field.key] ?? field.defaultValue ?? "";
@@ -496,10 +608,10 @@ export default function StepPropertiesPanel({
             <button
               className="step-form-action-btn w-full justify-center gap-1.5 py-2"
               onClick={() => {
-                if (caseIr) sessionStorage.setItem("studio_caseIr", JSON.stringify(caseIr));
+                if (caseIr) parkStudioIr(caseIr);
                 navigate("/studio/module-config", {
                   state: {
-                    returnTo: "/studio",
+                    returnTo: studioReturnPath(),
                     stepBasePath: basePath,
                     moduleRef: step.moduleRef,
                   },
@@ -523,12 +635,92 @@ export default function StepPropertiesPanel({
         caseIr={caseIr}
       />
 
+      {COMPENSABLE_TYPES.has(step.type) && (() => {
+        const comp = draft.compensation as CompensationHandler | undefined;
+        return (
+          <div>
+            <SectionHeader title="Compensation" open={openGroups.has("compensation")} onToggle={() => toggleGroup("compensation")} />
+            {openGroups.has("compensation") && (
+              <div className="px-4 py-3 space-y-3">
+                <Toggle
+                  checked={!!comp}
+                  onChange={v => handleChange("compensation", v
+                    ? { activity: { id: `${step.id}_undo`, type: "automation", name: `Undo ${step.name}` } }
+                    : undefined)}
+                  label="Undo this step when compensation is thrown"
+                />
+                {comp && (
+                  <>
+                    <Field label="Handler Name">
+                      <TextInput value={comp.activity.name} onChange={v => handleChange("compensation.activity.name", v)} />
+                    </Field>
+                    <Field label="Handler Type">
+                      <SelectInput
+                        value={comp.activity.type}
+                        onChange={v => handleChange("compensation.activity.type", v)}
+                        options={[{ label: "Automation", value: "automation" }, { label: "User Task", value: "user" }]}
+                      />
+                    </Field>
+                    {comp.activity.type === "automation" && (
+                      <Field label="Topic" hint="External task topic of the undo worker">
+                        <TextInput mono value={comp.activity.tech?.topic ?? ""} onChange={v => handleChange("compensation.activity.tech.topic", v)} placeholder="e.g. refund-payment" />
+                      </Field>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })()}
+
+      {CALENDAR_TYPES.has(step.type) && (
+        <div>
+          <SectionHeader title="Working Time" open={openGroups.has("calendar")} onToggle={() => toggleGroup("calendar")} />
+          {openGroups.has("calendar") && (
+            <div className="px-4 py-3 space-y-3">
+              <Field label="Business Calendar" hint="Durations in due dates, follow-up dates, timers and the SLA skip non-working hours and holidays">
+                <CalendarSelect value={draft.calendarRef as string | undefined} onChange={v => handleChange("calendarRef", v)} emptyLabel="Wall-clock time" />
+              </Field>
+              {typeof draft.calendarRef === "string" && (
+                <WorkingTimePreview
+                  calendarRef={draft.calendarRef}
+                  durations={[
+                    { label: "Due", value: deepGet(draft as Record<string, unknown>, "tech.dueDate") },
+                    { label: "Follow-up", value: deepGet(draft as Record<string, unknown>, "tech.followUpDate") },
+                    { label: "Timer", value: draft.timerExpression },
+                  ]}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {SLA_STEP_TYPES.has(step.type) && (() => {
+        // What the step would fall back to without its own SLA (approval node or SLA rule)
+        const rules = caseIr?.businessRules ?? [];
+        const inherited = { ...(draft as unknown as Step), sla: undefined };
+        const source = slaSourceOf(inherited, rules);
+        const derived = source && source !== "step" ? { policy: effectiveStepSla(inherited, rules)!, source } : null;
+        return (
+          <div>
+            <SectionHeader title="SLA" open={openGroups.has("sla")} onToggle={() => toggleGroup("sla")} />
+            {openGroups.has("sla") && (
+              <div className="px-4 py-3">
+                <SlaEditor value={draft.sla as SlaPolicy | undefined} derived={derived} onChange={v => handleChange("sla", v)} />
+              </div>
+            )}
+          </div>
+        );
+      })()}
+
       <div>
         <SectionHeader title="Input / Output Parameters" open={openGroups.has("io")} onToggle={() => toggleGroup("io")} />
         {openGroups.has("io") && (
           <div className="px-4 py-3 space-y-4">
-            <IoParamTable params={inputParams} label="Input Parameters" accent="hsl(213 80% 50%)" onChange={p => { setInputParams(p); setDirty(true); }} />
-            <IoParamTable params={outputParams} label="Output Parameters" accent="hsl(134 58% 38%)" onChange={p => { setOutputParams(p); setDirty(true); }} />
+            <IoParamTable params={inputParams} label="Input Parameters" accent="hsl(213 80% 50%)" onChange={p => { setInputParams(p); setDirty(true); }} variables={variablesBefore} />
+            <IoParamTable params={outputParams} label="Output Parameters" accent="hsl(134 58% 38%)" onChange={p => { setOutputParams(p); setDirty(true); }} variables={variablesInStep} />
           </div>
         )}
       </div>
@@ -541,6 +733,10 @@ export default function StepPropertiesPanel({
           {dirty ? "Save Changes" : "No Changes"}
         </button>
       </div>
+
+      {upgradePlan && (
+        <NodeUpgradeDialog plan={upgradePlan} onUpgrade={handleNodeUpgrade} onCancel={() => setUpgradePlan(null)} />
+      )}
     </div>
   );
 }
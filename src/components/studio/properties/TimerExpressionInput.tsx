@@ -0,0 +1,141 @@
+/**
+ * Timer field for start events, waits, boundary events and timer event handlers. Validates
+ * ISO 8601 durations, dates and cycles and Camunda cron as you type, offers fixes for
+ * common mistakes, a builder for the usual schedules and the next fire times in your
+ * time zone.
+ */
+import { useMemo, useState } from "react";
+import { Wand2 } from "lucide-react";
+import { useBusinessCalendars } from "@/stores/businessCalendarStore";
+import {
+  analyzeTimer, describeTimer, formatFireTime, localTimeZone, nextFireTimes, PREVIEW_COUNT, type TimerUsage,
+} from "@/lib/timer/schedule";
+import {
+  BUILDER_WEEKDAYS, buildTimerExpression, builderModes, DEFAULT_TIMER_DRAFT, TIMER_UNITS, type TimerDraft,
+} from "@/lib/timer/builder";
+import { ExpressionInput, SelectInput, TextInput } from "./PropertyFields";
+
+function TimerBuilder({ usage, onApply }: { usage: TimerUsage; onApply: (expression: string) => void }) {
+  const [draft, setDraft] = useState<TimerDraft>(() => ({ ...DEFAULT_TIMER_DRAFT, mode: usage === "wait" ? "after" : "every" }));
+  const set = (patch: Partial<TimerDraft>) => setDraft(d => ({ ...d, ...patch }));
+  const expression = buildTimerExpression(draft);
+  const numberInput = (value: number, onChange: (n: number) => void, title: string) => (
+    <input
+      type="number" min={0} title={title}
+      className="studio-input w-16 px-2 py-1 rounded-md border text-[12px] focus:outline-none"
+      value={value} onChange={e => onChange(Number(e.target.value))}
+    />
+  );
+  const timeInput = (
+    <input type="time" className="studio-input px-2 py-1 rounded-md border text-[12px] focus:outline-none" value={draft.time} onChange={e => set({ time: e.target.value })} />
+  );
+
+  return (
+    <div className="rounded-md border border-border p-2 space-y-2">
+      <SelectInput value={draft.mode} onChange={v => set({ mode: v as TimerDraft["mode"] })} options={builderModes(usage)} />
+      {(draft.mode === "after" || draft.mode === "every") && (
+        <div className="flex items-center gap-1.5 text-[11px] text-foreground-muted">
+          {numberInput(draft.amount, amount => set({ amount }), "Amount")}
+          <select className="studio-select text-[12px] rounded-md px-2 py-1" value={draft.unit} onChange={e => set({ unit: e.target.value as TimerDraft["unit"] })}>
+            {TIMER_UNITS.map(u => <option key={u.value} value={u.value}>{u.label}</option>)}
+          </select>
+          {draft.mode === "every" && <>{numberInput(draft.times, times => set({ times }), "Number of fires, 0 = forever")} times (0 = forever)</>}
+        </div>
+      )}
+      {draft.mode === "at" && (
+        <input type="datetime-local" className="studio-input w-full px-2 py-1 rounded-md border text-[12px] focus:outline-none" value={draft.at} onChange={e => set({ at: e.target.value })} />
+      )}
+      {(draft.mode === "daily" || draft.mode === "weekly" || draft.mode === "monthly") && (
+        <div className="flex items-center gap-1.5 flex-wrap text-[11px] text-foreground-muted">
+          {timeInput}
+          {draft.mode === "weekly" && BUILDER_WEEKDAYS.map(day => (
+            <label key={day} className="flex items-center gap-0.5">
+              <input
+                type="checkbox" checked={draft.weekdays.includes(day)}
+                onChange={e => set({ weekdays: e.target.checked ? [...draft.weekdays, day] : draft.weekdays.filter(d => d !== day) })}
+              />
+              {day.slice(0, 2)}
+            </label>
+          ))}
+          {draft.mode === "monthly" && (
+            <>
+              on day
+              <select className="studio-select text-[12px] rounded-md px-2 py-1" value={draft.dayOfMonth} onChange={e => set({ dayOfMonth: e.target.value })}>
+                {Array.from({ length: 31 }, (_, i) => String(i + 1)).map(d => <option key={d} value={d}>{d}</option>)}
+                <option value="L">last</option>
+              </select>
+            </>
+          )}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <code className="flex-1 text-[11px] font-mono text-foreground truncate">{expression || "—"}</code>
+        <button
+          className="px-2 py-0.5 rounded text-[11px] font-semibold border border-border hover:bg-muted disabled:opacity-50"
+          disabled={!expression}
+          onClick={() => onApply(expression)}
+        >
+          Use
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function TimerExpressionInput({ value, onChange, usage, calendarRef, placeholder }: {
+  value: string;
+  onChange: (v: string) => void;
+  usage: TimerUsage;
+  /** Business calendar of the owning step, for waits and boundary timers */
+  calendarRef?: string;
+  placeholder?: string;
+}) {
+  const calendars = useBusinessCalendars(s => s.calendars);
+  const [building, setBuilding] = useState(false);
+  const timeZone = localTimeZone();
+  const analysis = useMemo(() => analyzeTimer(value, { usage, calendarRef }), [value, usage, calendarRef]);
+  const runs = useMemo(
+    () => (analysis.schedule ? nextFireTimes(analysis.schedule, new Date(), PREVIEW_COUNT, calendars) : []),
+    [analysis.schedule, calendars],
+  );
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-start gap-1">
+        <div className="flex-1 min-w-0">
+          {/* Engine expressions get the expression editor; schedules are plain text */}
+          {/^[$#]\{/.test(value.trim())
+            ? <ExpressionInput value={value} onChange={onChange} placeholder={placeholder} />
+            : <TextInput value={value} onChange={onChange} placeholder={placeholder} mono />}
+        </div>
+        <button
+          className={`p-1.5 rounded-md border border-border ${building ? "bg-muted text-foreground" : "text-foreground-subtle hover:text-foreground"}`}
+          title="Build a schedule"
+          onClick={() => setBuilding(b => !b)}
+        >
+          <Wand2 size={12} />
+        </button>
+      </div>
+      {building && <TimerBuilder usage={usage} onApply={v => { onChange(v); setBuilding(false); }} />}
+      {analysis.schedule && <p className="text-[10px] text-foreground-muted">{describeTimer(analysis.schedule, timeZone)}</p>}
+      {analysis.problems.map(p => (
+        <p key={p.message} className={`text-[10px] ${p.severity === "error" ? "text-destructive" : p.severity === "warning" ? "expression-warning" : "text-foreground-subtle"}`}>
+          {p.message}
+          {p.fix && (
+            <button className="ml-1 underline font-mono" onClick={() => onChange(p.fix!)}>Use {p.fix}</button>
+          )}
+        </p>
+      ))}
+      {runs.length > 0 && (
+        <div className="space-y-0.5">
+          <div className="text-[10px] font-bold uppercase tracking-widest text-foreground-muted">
+            {runs.length === 1 ? "Fires" : `Next ${runs.length} runs`} if started now ({timeZone})
+          </div>
+          {runs.map(at => (
+            <div key={at.getTime()} className="text-[11px] font-mono text-foreground">{formatFireTime(at, timeZone)}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * Inline step creation for nested step lists: gateway branch lanes and event handlers.
+ */
+import type { Step, StepType } from "@/types/caseIr";
+
+/** Step types that can be created inline inside a branch lane (also reused by event handler step lists) */
+export const BRANCH_STEP_TYPES: StepType[] = ["automation", "user", "intermediateEvent", "callActivity"];
+
+export function newBranchStep(type: StepType): Step {
+  const id = `step_${Date.now()}`;
+  switch (type) {
+    case "intermediateEvent":
+      return { id, type, name: "New Event", eventSubType: "message" };
+    case "callActivity":
+      return { id, type, name: "New Call Activity", calledElement: "" };
+    case "user":
+      return { id, type, name: "New User Task" };
+    default:
+      return { id, type: "automation", name: "New Task" };
+  }
+}
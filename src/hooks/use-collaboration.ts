@@ -0,0 +1,156 @@
+/**
+ * useCollaboration — live presence and edit broadcast for one workflow over a Supabase Realtime channel.
+ * Every browser tab is one participant. Applied patches are sent as id-anchored ops;
+ * a joining tab asks the longest-present peer for a snapshot of the live document.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuthz } from "@/contexts/AuthzContext";
+import { toIdOps, type IdOperation } from "@/lib/collab/idOps";
+import { filterStale, type Stamp } from "@/lib/collab/lastWriterWins";
+import type { CaseIR, JsonPatch, SelectionTarget } from "@/types/caseIr";
+
+export interface Collaborator {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  selection: SelectionTarget;
+  joinedAt: string;
+}
+
+interface PatchMessage {
+  from: string;
+  stamp: Stamp;
+  ops: IdOperation[];
+}
+
+interface SnapshotMessage {
+  from: string;
+  /** Requesting client, or undefined for a snapshot meant for everyone (e.g. after a BPMN import) */
+  to?: string;
+  caseIr: CaseIR;
+}
+
+interface CollaborationOptions {
+  workflowId?: string;
+  selection: SelectionTarget;
+  /** The live document, read when a peer asks for a snapshot */
+  getSnapshot: () => CaseIR | null;
+  /** Apply remote ops; throw if they cannot be applied and a snapshot will be requested */
+  onRemotePatch: (ops: IdOperation[]) => void;
+  onSnapshot: (caseIr: CaseIR) => void;
+}
+
+const PEER_COLORS = [
+  "hsl(4 74% 52%)", "hsl(206 78% 46%)", "hsl(142 55% 38%)", "hsl(282 56% 52%)",
+  "hsl(30 88% 48%)", "hsl(180 62% 36%)", "hsl(330 68% 50%)", "hsl(52 80% 40%)",
+];
+
+function colorFor(userId: string): string {
+  let h = 0;
+  for (const ch of userId) h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return PEER_COLORS[h % PEER_COLORS.length];
+}
+
+export function useCollaboration({ workflowId, selection, getSnapshot, onRemotePatch, onSnapshot }: CollaborationOptions) {
+  const { user } = useAuthz();
+  const clientId = useMemo(() => `tab_${Math.random().toString(36).slice(2, 10)}`, []);
+  const joinedAt = useMemo(() => new Date().toISOString(), []);
+  const [peers, setPeers] = useState<Collaborator[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const joined = useRef(false);
+  const clock = useRef(0);
+  const stamps = useRef(new Map<string, Stamp>());
+
+  // Callbacks change every render; the channel subscription must not
+  const handlers = useRef({ getSnapshot, onRemotePatch, onSnapshot });
+  handlers.current = { getSnapshot, onRemotePatch, onSnapshot };
+
+  const self = useMemo<Collaborator | null>(() => user && {
+    clientId, userId: user.id, name: user.name || user.email, color: colorFor(user.id), selection, joinedAt,
+  }, [user, clientId, selection, joinedAt]);
+
+  const selfRef = useRef(self);
+  selfRef.current = self;
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!workflowId || !userId) return;
+    const channel = supabase.channel(`workflow:${workflowId}`, {
+      config: { presence: { key: clientId }, broadcast: { self: false } },
+    });
+    channelRef.current = channel;
+
+    const everyone = () => Object.values(channel.presenceState<Collaborator>())
+      .flat()
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt) || a.clientId.localeCompare(b.clientId));
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        setPeers(everyone().filter(c => c.clientId !== clientId));
+      })
+      .on("broadcast", { event: "patch" }, ({ payload }: { payload: PatchMessage }) => {
+        clock.current = Math.max(clock.current, payload.stamp.clock);
+        const ops = filterStale(payload.ops, payload.stamp, stamps.current);
+        if (ops.length === 0) return;
+        try {
+          handlers.current.onRemotePatch(ops);
+        } catch (e) {
+          // Our document diverged (e.g. the element was deleted here meanwhile): take a fresh snapshot
+          console.error("Remote patch failed, resyncing:", e);
+          channel.send({ type: "broadcast", event: "sync-request", payload: { from: clientId } });
+        }
+      })
+      .on("broadcast", { event: "sync-request" }, ({ payload }: { payload: { from: string } }) => {
+        // Only the longest-present participant answers, so the joiner gets exactly one snapshot
+        const responder = everyone().find(c => c.clientId !== payload.from);
+        const caseIr = handlers.current.getSnapshot();
+        if (responder?.clientId !== clientId || !caseIr) return;
+        channel.send({ type: "broadcast", event: "snapshot", payload: { from: clientId, to: payload.from, caseIr } satisfies SnapshotMessage });
+      })
+      .on("broadcast", { event: "snapshot" }, ({ payload }: { payload: SnapshotMessage }) => {
+        if (payload.to && payload.to !== clientId) return;
+        stamps.current.clear();
+        handlers.current.onSnapshot(payload.caseIr);
+      })
+      .subscribe(async status => {
+        if (status !== "SUBSCRIBED" || !selfRef.current) return;
+        joined.current = true;
+        await channel.track(selfRef.current);
+        channel.send({ type: "broadcast", event: "sync-request", payload: { from: clientId } });
+      });
+
+    return () => {
+      channelRef.current = null;
+      joined.current = false;
+      supabase.removeChannel(channel);
+    };
+  }, [workflowId, userId, clientId]);
+
+  // Keep our presence (selection outline) current
+  useEffect(() => {
+    if (self && joined.current) channelRef.current?.track(self);
+  }, [self]);
+
+  /** Broadcast a locally applied patch; `before` is the document it was applied to. */
+  const broadcastPatch = useCallback((before: CaseIR, patch: JsonPatch) => {
+    const channel = channelRef.current;
+    if (!channel) return;
+    const ops = toIdOps(before, patch);
+    if (ops.length === 0) return;
+    clock.current += 1;
+    const stamp: Stamp = { clock: clock.current, clientId };
+    filterStale(ops, stamp, stamps.current);
+    channel.send({ type: "broadcast", event: "patch", payload: { from: clientId, stamp, ops } satisfies PatchMessage });
+  }, [clientId]);
+
+  /** Replace everyone's document, e.g. after importing a BPMN file. */
+  const broadcastSnapshot = useCallback((caseIr: CaseIR) => {
+    stamps.current.clear();
+    channelRef.current?.send({ type: "broadcast", event: "snapshot", payload: { from: clientId, caseIr } satisfies SnapshotMessage });
+  }, [clientId]);
+
+  return { self, peers, broadcastPatch, broadcastSnapshot };
+}
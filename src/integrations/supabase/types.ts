@@ -76,6 +76,78 @@ export type Database = {
           },
         ]
       }
+      automation_node_versions: {
+        Row: {
+          changelog: string
+          created_at: string
+          definition: Json
+          id: string
+          node_id: string
+          published_by: string | null
+          version: string
+          version_major: number
+          version_minor: number
+          version_patch: number
+        }
+        Insert: {
+          changelog?: string
+          created_at?: string
+          definition: Json
+          id?: string
+          node_id: string
+          published_by?: string | null
+          version: string
+          version_major: number
+          version_minor: number
+          version_patch: number
+        }
+        Update: {
+          changelog?: string
+          created_at?: string
+          definition?: Json
+          id?: string
+          node_id?: string
+          published_by?: string | null
+          version?: string
+          version_major?: number
+          version_minor?: number
+          version_patch?: number
+        }
+        Relationships: []
+      }
+      business_calendars: {
+        Row: {
+          holidays: Json
+          hours: Json
+          id: string
+          key: string
+          name: string
+          time_zone: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          holidays?: Json
+          hours?: Json
+          id?: string
+          key: string
+          name: string
+          time_zone?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          holidays?: Json
+          hours?: Json
+          id?: string
+          key?: string
+          name?: string
+          time_zone?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       node_access_rules: {
         Row: {
           action: string
@@ -344,6 +416,164 @@ export type Database = {
         }
         Relationships: []
       }
+      questionnaire_responses: {
+        Row: {
+          answers: Json
+          created_at: string
+          id: string
+          locale: string | null
+          progress: Json
+          questionnaire_id: string
+          respondent_id: string | null
+          resume_token: string
+          status: string
+          submitted_at: string | null
+          task_id: string | null
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          answers?: Json
+          created_at?: string
+          id?: string
+          locale?: string | null
+          progress?: Json
+          questionnaire_id: string
+          respondent_id?: string | null
+          resume_token?: string
+          status?: string
+          submitted_at?: string | null
+          task_id?: string | null
+          updated_at?: string
+          version: number
+        }
+        Update: {
+          answers?: Json
+          created_at?: string
+          id?: string
+          locale?: string | null
+          progress?: Json
+          questionnaire_id?: string
+          respondent_id?: string | null
+          resume_token?: string
+          status?: string
+          submitted_at?: string | null
+          task_id?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questionnaire_responses_questionnaire_id_fkey"
+            columns: ["questionnaire_id"]
+            isOneToOne: false
+            referencedRelation: "questionnaires"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      questionnaire_submissions: {
+        Row: {
+          answers: Json
+          created_at: string
+          dispatch_error: string | null
+          dispatch_status: string
+          dispatched_at: string | null
+          id: string
+          kind: string
+          path: Json
+          process_instance_id: string | null
+          process_key: string | null
+          questionnaire_id: string
+          response_id: string
+          task_id: string | null
+          version: number
+        }
+        Insert: {
+          answers: Json
+          created_at?: string
+          dispatch_error?: string | null
+          dispatch_status?: string
+          dispatched_at?: string | null
+          id?: string
+          kind: string
+          path: Json
+          process_instance_id?: string | null
+          process_key?: string | null
+          questionnaire_id: string
+          response_id: string
+          task_id?: string | null
+          version: number
+        }
+        Update: {
+          answers?: Json
+          created_at?: string
+          dispatch_error?: string | null
+          dispatch_status?: string
+          dispatched_at?: string | null
+          id?: string
+          kind?: string
+          path?: Json
+          process_instance_id?: string | null
+          process_key?: string | null
+          questionnaire_id?: string
+          response_id?: string
+          task_id?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questionnaire_submissions_questionnaire_id_fkey"
+            columns: ["questionnaire_id"]
+            isOneToOne: false
+            referencedRelation: "questionnaires"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questionnaire_submissions_response_id_fkey"
+            columns: ["response_id"]
+            isOneToOne: true
+            referencedRelation: "questionnaire_responses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      questionnaires: {
+        Row: {
+          document: Json
+          flow_id: string
+          id: string
+          name: string
+          start_process_key: string | null
+          status: string
+          updated_at: string
+          updated_by: string | null
+          version: number
+        }
+        Insert: {
+          document: Json
+          flow_id: string
+          id?: string
+          name?: string
+          start_process_key?: string | null
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+        }
+        Update: {
+          document?: Json
+          flow_id?: string
+          id?: string
+          name?: string
+          start_process_key?: string | null
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
       resources: {
         Row: {
           attributes: Json
@@ -905,6 +1135,54 @@ export type Database = {
           },
         ]
       }
+      workflow_revisions: {
+        Row: {
+          author_id: string | null
+          case_ir: Json
+          created_at: string
+          id: string
+          message: string
+          restored_from: string | null
+          revision_number: number
+          workflow_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          case_ir: Json
+          created_at?: string
+          id?: string
+          message?: string
+          restored_from?: string | null
+          revision_number?: number
+          workflow_id: string
+        }
+        Update: {
+          author_id?: string | null
+          case_ir?: Json
+          created_at?: string
+          id?: string
+          message?: string
+          restored_from?: string | null
+          revision_number?: number
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "workflow_revisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_revisions_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflow_role_templates: {
         Row: {
           created_at: string
@@ -0,0 +1,37 @@
+/**
+ * Event definition ↔ event sub-process trigger mapping, shared by the importer and both exporters.
+ * Error / escalation / message / signal definitions point at a root-level element that holds
+ * the business key the Case IR stores as the trigger expression.
+ */
+import type { EventSubProcessTrigger } from "@/types/caseIr";
+
+export const TRIGGER_BY_EVENT_DEFINITION: Record<string, EventSubProcessTrigger> = {
+  errorEventDefinition: "error",
+  escalationEventDefinition: "escalation",
+  messageEventDefinition: "message",
+  signalEventDefinition: "signal",
+  timerEventDefinition: "timer",
+  conditionalEventDefinition: "conditional",
+  compensateEventDefinition: "compensation",
+};
+
+export interface EventRootRef {
+  /** Attribute on the event definition, e.g. errorRef */
+  refAttr: string;
+  /** Root element tag, e.g. error */
+  tag: string;
+  /** Attribute on the root element holding the code / name */
+  keyAttr: string;
+}
+
+export const EVENT_ROOT_REFS: Partial<Record<EventSubProcessTrigger, EventRootRef>> = {
+  error: { refAttr: "errorRef", tag: "error", keyAttr: "errorCode" },
+  escalation: { refAttr: "escalationRef", tag: "escalation", keyAttr: "escalationCode" },
+  message: { refAttr: "messageRef", tag: "message", keyAttr: "name" },
+  signal: { refAttr: "signalRef", tag: "signal", keyAttr: "name" },
+};
+
+/** Event definition tag for a trigger type (`compensation` → compensateEventDefinition). */
+export function eventDefinitionTag(trigger: EventSubProcessTrigger): string {
+  return trigger === "compensation" ? "compensateEventDefinition" : `${trigger}EventDefinition`;
+}
@@ -2,10 +2,22 @@
  * BPMN Exporter – Case IR → Camunda 7 BPMN 2.0 XML
  *
  * Strategy (priority order):
- * 1. If original BPMN XML was captured on import → re-emit verbatim (perfect lossless round-trip).
+ * 1. If original BPMN XML was captured on import → merge IR edits into it (see bpmnMergeExporter);
+ *    an unedited IR round-trips byte-for-byte.
  * 2. If no original XML (manually-built IR) → generate full XML with auto-layout diagram.
+ *
+ * A failed merge throws BpmnMergeError instead of silently regenerating, since the rebuild drops the
+ * original's DI, joins and extension elements. Callers may retry with `rebuildOnMergeFailure` once the
+ * user has accepted that.
  */
-import type { CaseIR, Stage, Step, DecisionStep, ForeachStep, CallActivityStep, IoParam } from "@/types/caseIr";
+import { mergeBpmn } from "./bpmnMergeExporter";
+import { EVENT_ROOT_REFS, eventDefinitionTag } from "./bpmnEventRefs";
+import { compileSla, SLA_PROPERTY, type SlaTimerSpec } from "./sla/compile";
+import { effectiveStepSla } from "./sla/policy";
+import { CALENDAR_PROPERTY, calendarDateAttr, calendarTimer } from "./calendar/timerExpression";
+import type { BusinessCalendar } from "./calendar/types";
+import { boundQuestionnaireFlowId, questionnaireFormId } from "./questionnaire/binding";
+import type { CaseIR, Stage, Step, DecisionStep, ForeachStep, CallActivityStep, IoParam, GatewayBlockStep, EventSubProcess, BusinessRule } from "@/types/caseIr";
 
 // ─── Utilities ────────────────────────────────────────────────────────────────
 
@@ -14,6 +26,12 @@ function escapeXml(str: string): string {
 }
 
 let _uidCounter = 0;
+/** Business rules of the case being exported – `sla` rules feed step SLAs */
+let _businessRules: BusinessRule[] = [];
+/** Business calendars SLA warnings are sized against */
+let _calendars: BusinessCalendar[] = [];
+/** Whether the engine has the businessCalendar bean that calendar durations are exported for */
+let _calendarBean = false;
 function uid(prefix = "el"): string {
   return `${prefix}_${(++_uidCounter).toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
 }
@@ -22,6 +40,15 @@ function stepId(step: Step): string {
   return step.source?.bpmnElementId ?? step.id;
 }
 
+function joinId(step: GatewayBlockStep): string {
+  return step.joinSource?.bpmnElementId ?? `${stepId(step)}_join`;
+}
+
+/** Id of the element the flow leaves a step from — the join for parallel/inclusive blocks. */
+function exitId(step: Step): string {
+  return step.type === "parallel" || step.type === "inclusive" ? joinId(step) : stepId(step);
+}
+
 // ─── Collect all steps flat ───────────────────────────────────────────────────
 
 function collectAllSteps(ir: CaseIR): Step[] {
@@ -53,6 +80,20 @@ function camundaAttrs(step: Step): string {
   return parts.length ? " " + parts.join(" ") : "";
 }
 
+/** camunda:decisionRef and friends for a business rule task */
+function decisionAttrs(step: Step): string {
+  const tech = step.tech ?? {};
+  const parts = [`camunda:decisionRef="${escapeXml(tech.decisionRef ?? "")}"`];
+  if (tech.decisionRefBinding) parts.push(`camunda:decisionRefBinding="${tech.decisionRefBinding}"`);
+  if (tech.decisionRefVersion && tech.decisionRefBinding === "version") parts.push(`camunda:decisionRefVersion="${escapeXml(tech.decisionRefVersion)}"`);
+  if (tech.decisionRefVersion && tech.decisionRefBinding === "versionTag") parts.push(`camunda:decisionRefVersionTag="${escapeXml(tech.decisionRefVersion)}"`);
+  if (tech.mapDecisionResult) parts.push(`camunda:mapDecisionResult="${escapeXml(tech.mapDecisionResult)}"`);
+  if (tech.resultVariable) parts.push(`camunda:resultVariable="${escapeXml(tech.resultVariable)}"`);
+  if (tech.asyncBefore) parts.push(`camunda:asyncBefore="true"`);
+  if (tech.asyncAfter) parts.push(`camunda:asyncAfter="true"`);
+  return " " + parts.join(" ");
+}
+
 function moduleConfigToIoParams(step: Step): IoParam[] {
   if (!step.moduleRef?.instanceConfig) return [];
   return Object.entries(step.moduleRef.instanceConfig)
@@ -60,17 +101,76 @@ function moduleConfigToIoParams(step: Step): IoParam[] {
     .map(([name, value]) => ({ name, value: String(value) }));
 }
 
-function camundaIoXml(step: Step, ind: string): string {
-  const moduleParams = moduleConfigToIoParams(step);
-  const params = [...(step.tech?.inputParameters ?? []), ...moduleParams];
-  const outParams = step.tech?.outputParameters ?? [];
+function ioParamsXml(params: IoParam[], outParams: IoParam[], ind: string): string {
   if (!params.length && !outParams.length) return "";
   const ins = params.map(p => `${ind}      <camunda:inputParameter name="${escapeXml(p.name)}">${escapeXml(p.value ?? "")}</camunda:inputParameter>`).join("\n");
   const outs = outParams.map(p => `${ind}      <camunda:outputParameter name="${escapeXml(p.name)}">${escapeXml(p.value ?? "")}</camunda:outputParameter>`).join("\n");
   return `${ind}    <camunda:inputOutput>\n${[ins, outs].filter(Boolean).join("\n")}\n${ind}    </camunda:inputOutput>`;
 }
 
+/** camunda:inputOutput plus the step's own SLA policy and calendar as camunda:properties, so they survive a re-import */
+function camundaIoXml(step: Step, ind: string): string {
+  const moduleParams = moduleConfigToIoParams(step);
+  const io = ioParamsXml([...(step.tech?.inputParameters ?? []), ...moduleParams], step.tech?.outputParameters ?? [], ind);
+  const properties = [
+    ...(step.sla ? [[SLA_PROPERTY, JSON.stringify(step.sla)]] : []),
+    ...(step.calendarRef ? [[CALENDAR_PROPERTY, step.calendarRef]] : []),
+  ].map(([name, value]) => `${ind}      <camunda:property name="${name}" value="${escapeXml(value)}" />`);
+  const props = properties.length
+    ? `${ind}    <camunda:properties>\n${properties.join("\n")}\n${ind}    </camunda:properties>`
+    : "";
+  return [io, props].filter(Boolean).join("\n");
+}
+
 function renderStepElement(step: Step, ind: string): string {
+  const parts = [renderStepCore(step, ind)];
+  if (step.compensation) parts.push(renderCompensationXml(step, ind));
+  const timers = slaTimersOf(step);
+  if (timers.length) parts.push(renderSlaXml(stepId(step), timers, ind));
+  return parts.join("\n");
+}
+
+function slaTimersOf(step: Step): SlaTimerSpec[] {
+  const policy = effectiveStepSla(step, _businessRules);
+  return policy ? compileSla(stepId(step), step.name, policy, _calendars, _calendarBean) : [];
+}
+
+/** Per SLA milestone: non-interrupting timer on the host → SLA worker task → end event. */
+function renderSlaXml(hostId: string, timers: SlaTimerSpec[], ind: string): string {
+  return timers.map(t => [
+    `${ind}<bpmn:boundaryEvent id="${t.id}" name="${escapeXml(t.name)}" cancelActivity="false" attachedToRef="${hostId}">`,
+    `${ind}  <bpmn:timerEventDefinition>`,
+    `${ind}    <bpmn:${t.timer.type} xsi:type="bpmn:tFormalExpression">${escapeXml(t.timer.expression)}</bpmn:${t.timer.type}>`,
+    `${ind}  </bpmn:timerEventDefinition>`,
+    `${ind}</bpmn:boundaryEvent>`,
+    `${ind}<bpmn:serviceTask id="${t.task.id}" name="${escapeXml(t.task.name)}" camunda:type="external" camunda:topic="${t.task.topic}">`,
+    `${ind}  <bpmn:extensionElements>`,
+    ioParamsXml(t.task.inputs, [], ind),
+    `${ind}  </bpmn:extensionElements>`,
+    `${ind}</bpmn:serviceTask>`,
+    `${ind}<bpmn:endEvent id="${t.endId}" />`,
+    `${ind}<bpmn:sequenceFlow id="${t.id}_flow" sourceRef="${t.id}" targetRef="${t.task.id}" />`,
+    `${ind}<bpmn:sequenceFlow id="${t.task.id}_flow" sourceRef="${t.task.id}" targetRef="${t.endId}" />`,
+  ].join("\n")).join("\n");
+}
+
+function compensationBoundaryId(step: Step): string {
+  return step.compensation?.boundarySource?.bpmnElementId ?? `${stepId(step)}_compensation`;
+}
+
+/** Compensation boundary event on the step, the isForCompensation activity and the association between them. */
+function renderCompensationXml(step: Step, ind: string): string {
+  const beId = compensationBoundaryId(step);
+  const activity = step.compensation!.activity;
+  const handlerXml = renderStepCore(activity, ind).replace(/^(\s*<bpmn:\w+ id="[^"]*")/, `$1 isForCompensation="true"`);
+  return [
+    `${ind}<bpmn:boundaryEvent id="${beId}" attachedToRef="${stepId(step)}">\n${ind}  <bpmn:compensateEventDefinition />\n${ind}</bpmn:boundaryEvent>`,
+    handlerXml,
+    `${ind}<bpmn:association id="${beId}_assoc" associationDirection="One" sourceRef="${beId}" targetRef="${stepId(activity)}" />`,
+  ].join("\n");
+}
+
+function renderStepCore(step: Step, ind: string): string {
   const id = stepId(step);
   const name = escapeXml(step.name);
   const io = camundaIoXml(step, ind);
@@ -78,21 +178,35 @@ function renderStepElement(step: Step, ind: string): string {
 
   switch (step.type) {
     case "automation": {
+      const tag = step.tech?.decisionRef ? "businessRuleTask" : "serviceTask";
+      const attrs = step.tech?.decisionRef ? decisionAttrs(step) : camundaAttrs(step);
       if (io || docXml) {
-        return `${ind}<bpmn:serviceTask id="${id}" name="${name}"${camundaAttrs(step)}>\n${docXml}${io ? `${ind}  <bpmn:extensionElements>\n${io}\n${ind}  </bpmn:extensionElements>\n` : ""}${ind}</bpmn:serviceTask>`;
+        return `${ind}<bpmn:${tag} id="${id}" name="${name}"${attrs}>\n${docXml}${io ? `${ind}  <bpmn:extensionElements>\n${io}\n${ind}  </bpmn:extensionElements>\n` : ""}${ind}</bpmn:${tag}>`;
       }
-      return `${ind}<bpmn:serviceTask id="${id}" name="${name}"${camundaAttrs(step)} />`;
+      return `${ind}<bpmn:${tag} id="${id}" name="${name}"${attrs} />`;
     }
     case "user": {
       const assignee = step.assignee ? ` camunda:assignee="${escapeXml(step.assignee)}"` : "";
       const grps = step.candidateGroups?.length ? ` camunda:candidateGroups="${step.candidateGroups.map(escapeXml).join(",")}"` : "";
+      const questionnaire = boundQuestionnaireFlowId(step.formRef);
+      const formKey = questionnaire ? ` camunda:formKey="${escapeXml(questionnaireFormId(questionnaire))}"` : "";
+      const dates = (["dueDate", "followUpDate"] as const)
+        .map(attr => (step.tech?.[attr] ? ` camunda:${attr}="${escapeXml(calendarDateAttr(step.tech[attr]!, step.calendarRef, _calendarBean))}"` : ""))
+        .join("");
       if (io || docXml) {
-        return `${ind}<bpmn:userTask id="${id}" name="${name}"${assignee}${grps}>\n${docXml}${io ? `${ind}  <bpmn:extensionElements>\n${io}\n${ind}  </bpmn:extensionElements>\n` : ""}${ind}</bpmn:userTask>`;
+        return `${ind}<bpmn:userTask id="${id}" name="${name}"${assignee}${grps}${formKey}${dates}>\n${docXml}${io ? `${ind}  <bpmn:extensionElements>\n${io}\n${ind}  </bpmn:extensionElements>\n` : ""}${ind}</bpmn:userTask>`;
       }
-      return `${ind}<bpmn:userTask id="${id}" name="${name}"${assignee}${grps} />`;
+      return `${ind}<bpmn:userTask id="${id}" name="${name}"${assignee}${grps}${formKey}${dates} />`;
     }
     case "decision":
       return `${ind}<bpmn:exclusiveGateway id="${id}" name="${name}" />`;
+    case "parallel":
+    case "inclusive": {
+      const tag = step.type === "parallel" ? "parallelGateway" : "inclusiveGateway";
+      const inner = step.branches.flatMap(b => b.steps.map(s => renderStepElement(s, ind)));
+      const dflt = step.type === "inclusive" && step.defaultBranchId ? ` default="${gatewayFlowId(step, step.defaultBranchId)}"` : "";
+      return [`${ind}<bpmn:${tag} id="${id}" name="${name}"${dflt} />`, ...inner, `${ind}<bpmn:${tag} id="${joinId(step)}" />`].join("\n");
+    }
     case "foreach": {
       const fs = step as ForeachStep;
       const nestedSteps = fs.steps ?? [];
@@ -116,8 +230,13 @@ function renderStepElement(step: Step, ind: string): string {
         const msgId = uid("msg");
         return `${ind}<bpmn:intermediateCatchEvent id="${evtId}" name="${name}">${doc}\n${ind}  <bpmn:messageEventDefinition id="${msgId}" messageRef="${msgId}_ref" />\n${ind}</bpmn:intermediateCatchEvent>`;
       }
+      if (step.eventSubType === "compensate") {
+        return `${ind}<bpmn:intermediateThrowEvent id="${evtId}" name="${name}">${doc}\n${ind}  <bpmn:compensateEventDefinition />\n${ind}</bpmn:intermediateThrowEvent>`;
+      }
       if (step.eventSubType === "timer" && step.timerExpression) {
-        return `${ind}<bpmn:intermediateCatchEvent id="${evtId}" name="${name}">${doc}\n${ind}  <bpmn:timerEventDefinition>\n${ind}    <bpmn:timeCycle xsi:type="tFormalExpression">${escapeXml(step.timerExpression)}</bpmn:timeCycle>\n${ind}  </bpmn:timerEventDefinition>\n${ind}</bpmn:intermediateCatchEvent>`;
+        // Waits counted in a business calendar become a calendar date; anything else is written as entered
+        const timer = calendarTimer(step.timerExpression, step.calendarRef, _calendarBean) ?? { type: "timeCycle", expression: step.timerExpression };
+        return `${ind}<bpmn:intermediateCatchEvent id="${evtId}" name="${name}">${doc}\n${ind}  <bpmn:timerEventDefinition>\n${ind}    <bpmn:${timer.type} xsi:type="tFormalExpression">${escapeXml(timer.expression)}</bpmn:${timer.type}>\n${ind}  </bpmn:timerEventDefinition>\n${ind}</bpmn:intermediateCatchEvent>`;
       }
       return `${ind}<bpmn:intermediateCatchEvent id="${evtId}" name="${name}" />${doc ? `\n${ind}  ${doc.trim()}` : ""}`;
     }
@@ -138,24 +257,102 @@ function renderFlatStepsXml(steps: Step[], ind: string): string {
   const firstTarget = steps.length > 0 ? stepId(steps[0]) : endId;
   lines.push(`${ind}<bpmn:sequenceFlow id="${uid("sf")}" sourceRef="${startId}" targetRef="${firstTarget}" />`);
 
-  for (let i = 0; i < steps.length; i++) {
-    const step = steps[i];
+  emitChainFlows(steps, endId, () => true, flow => lines.push(renderFlowXml(flow, ind)));
+  return lines.join("\n");
+}
+
+// ─── Event sub-processes ──────────────────────────────────────────────────────
+
+function espRootId(esp: EventSubProcess): string {
+  return `${EVENT_ROOT_REFS[esp.triggerType]?.tag ?? "ref"}_${esp.id}`;
+}
+
+function espStartId(esp: EventSubProcess): string {
+  return esp.startSource?.bpmnElementId ?? `${esp.id}_start`;
+}
+
+function renderEspRootXml(esp: EventSubProcess): string | null {
+  const root = EVENT_ROOT_REFS[esp.triggerType];
+  if (!root || !esp.expression) return null;
+  return `  <bpmn:${root.tag} id="${espRootId(esp)}" name="${escapeXml(esp.expression)}" ${root.keyAttr === "name" ? "" : `${root.keyAttr}="${escapeXml(esp.expression)}" `}/>`;
+}
+
+function renderEspStartXml(esp: EventSubProcess, ind: string): string {
+  const interrupting = esp.interrupting === false ? ` isInterrupting="false"` : "";
+  const open = `${ind}<bpmn:startEvent id="${espStartId(esp)}"${interrupting}>`;
+  const expr = escapeXml(esp.expression ?? "");
+  const root = EVENT_ROOT_REFS[esp.triggerType];
+  let def: string;
+  if (root) def = `<bpmn:${eventDefinitionTag(esp.triggerType)}${esp.expression ? ` ${root.refAttr}="${espRootId(esp)}"` : ""} />`;
+  else if (esp.triggerType === "timer") def = `<bpmn:timerEventDefinition>\n${ind}    <bpmn:timeCycle xsi:type="bpmn:tFormalExpression">${expr}</bpmn:timeCycle>\n${ind}  </bpmn:timerEventDefinition>`;
+  else if (esp.triggerType === "conditional") def = `<bpmn:conditionalEventDefinition>\n${ind}    <bpmn:condition xsi:type="bpmn:tFormalExpression">${expr}</bpmn:condition>\n${ind}  </bpmn:conditionalEventDefinition>`;
+  else def = `<bpmn:compensateEventDefinition />`;
+  return `${open}\n${ind}  ${def}\n${ind}</bpmn:startEvent>`;
+}
+
+function renderEventSubProcessXml(esp: EventSubProcess, ind: string, emit: (f: FlowSpec) => void): string {
+  const endId = `${esp.id}_end`;
+  const lines = [`${ind}<bpmn:subProcess id="${esp.id}" name="${escapeXml(esp.name)}" triggeredByEvent="true">`];
+  if (esp.description) lines.push(`${ind}  <bpmn:documentation>${escapeXml(esp.description)}</bpmn:documentation>`);
+  lines.push(renderEspStartXml(esp, ind + "  "));
+  esp.steps.forEach(step => lines.push(renderStepElement(step, ind + "  ")));
+  lines.push(`${ind}  <bpmn:endEvent id="${endId}" />`);
+  const flow = (f: FlowSpec) => { lines.push(renderFlowXml(f, ind + "  ")); emit(f); };
+  flow({ id: uid("sf"), src: espStartId(esp), tgt: esp.steps.length > 0 ? stepId(esp.steps[0]) : endId });
+  emitChainFlows(esp.steps, endId, id => esp.steps.some(s => stepId(s) === id), flow);
+  lines.push(`${ind}</bpmn:subProcess>`);
+  return lines.join("\n");
+}
+
+// ─── Sequence flows ───────────────────────────────────────────────────────────
+
+interface FlowSpec { id: string; src: string; tgt: string; name?: string; condition?: string; }
+
+function renderFlowXml(f: FlowSpec, ind: string): string {
+  const name = f.name !== undefined ? ` name="${escapeXml(f.name)}"` : "";
+  if (!f.condition || f.condition === "${default}") return `${ind}<bpmn:sequenceFlow id="${f.id}"${name} sourceRef="${f.src}" targetRef="${f.tgt}" />`;
+  return `${ind}<bpmn:sequenceFlow id="${f.id}"${name} sourceRef="${f.src}" targetRef="${f.tgt}">\n${ind}  <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">${escapeXml(f.condition)}</bpmn:conditionExpression>\n${ind}</bpmn:sequenceFlow>`;
+}
+
+/** Flow id for a split branch: reuse the imported flow id (`branch_<flowId>`) so exports stay stable. */
+function gatewayFlowId(step: GatewayBlockStep, branchId: string): string {
+  return branchId.startsWith("branch_") ? branchId.slice("branch_".length) : `sf_${stepId(step)}_${branchId}`;
+}
+
+/**
+ * Emit the outgoing flows of each step in a chain; the last step flows to `endTarget`.
+ * Decision targets outside `isKnown` fall back to the next step; targets in `processEnd.ids`
+ * (the case's end event) go to the process end.
+ */
+function emitChainFlows(
+  steps: Step[],
+  endTarget: string,
+  isKnown: (id: string) => boolean,
+  emit: (f: FlowSpec) => void,
+  processEnd?: { ids: ReadonlySet<string>; id: string },
+) {
+  steps.forEach((step, i) => {
     const sid = stepId(step);
-    const nextTarget = i + 1 < steps.length ? stepId(steps[i + 1]) : endId;
+    const nextTarget = i + 1 < steps.length ? stepId(steps[i + 1]) : endTarget;
     if (step.type === "decision") {
-      const ds = step as DecisionStep;
-      ds.branches.forEach((b, bi) => {
-        const target = b.targetStepId ?? nextTarget;
-        const cond = b.condition && b.condition !== "${default}"
-          ? `\n${ind}  <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">${escapeXml(b.condition)}</bpmn:conditionExpression>\n${ind}`
-          : "";
-        lines.push(`${ind}<bpmn:sequenceFlow id="${uid("sf")}" name="${escapeXml(b.label)}" sourceRef="${sid}" targetRef="${target}">${cond}</bpmn:sequenceFlow>`);
+      (step as DecisionStep).branches.forEach(b => {
+        const target = !b.targetStepId ? nextTarget
+          : processEnd?.ids.has(b.targetStepId) ? processEnd.id
+          : isKnown(b.targetStepId) ? b.targetStepId : nextTarget;
+        emit({ id: uid("sf"), src: sid, tgt: target, name: b.label, condition: b.condition });
       });
+    } else if (step.type === "parallel" || step.type === "inclusive") {
+      const join = joinId(step);
+      for (const b of step.branches) {
+        const first = b.steps.length > 0 ? stepId(b.steps[0]) : join;
+        emit({ id: gatewayFlowId(step, b.id), src: sid, tgt: first, name: b.label, condition: step.type === "inclusive" ? b.condition : undefined });
+        emitChainFlows(b.steps, join, isKnown, emit, processEnd);
+      }
+      emit({ id: uid("sf"), src: join, tgt: nextTarget });
     } else {
-      lines.push(`${ind}<bpmn:sequenceFlow id="${uid("sf")}" sourceRef="${sid}" targetRef="${nextTarget}" />`);
+      emit({ id: uid("sf"), src: sid, tgt: nextTarget });
     }
-  }
-  return lines.join("\n");
+  });
 }
 
 // ─── Trigger ──────────────────────────────────────────────────────────────────
@@ -194,11 +391,43 @@ interface AutoRect { id: string; x: number; y: number; w: number; h: number; exp
 interface AutoEdge { flowId: string; points: { x: number; y: number }[]; }
 
 function stepDimensions(step: Step): { w: number; h: number } {
-  if (step.type === "decision") return { w: AL_GW_W, h: AL_GW_H };
+  if (step.type === "decision" || step.type === "parallel" || step.type === "inclusive") return { w: AL_GW_W, h: AL_GW_H };
   if (step.type === "intermediateEvent") return { w: AL_EVT_W, h: AL_EVT_H };
   return { w: AL_TASK_W, h: AL_TASK_H };
 }
 
+/** Vertical space a step needs — gateway blocks stack their branches. */
+function stepHeight(step: Step): number {
+  if (step.type !== "parallel" && step.type !== "inclusive") return stepDimensions(step).h;
+  return Math.max(AL_GW_H, step.branches.reduce((sum, b) => sum + branchHeight(b.steps) + AL_GAP, -AL_GAP));
+}
+
+function branchHeight(steps: Step[]): number {
+  return Math.max(AL_TASK_H, ...steps.map(stepHeight));
+}
+
+/** Lay a chain out left to right centred on `cy`; returns the x after the last shape. */
+function layoutChain(steps: Step[], x: number, cy: number, place: (r: AutoRect) => void): number {
+  let cx = x;
+  for (const step of steps) {
+    const dim = stepDimensions(step);
+    place({ id: stepId(step), x: cx, y: cy - dim.h / 2, w: dim.w, h: dim.h });
+    cx += dim.w + AL_GAP;
+    if (step.type === "parallel" || step.type === "inclusive") {
+      let top = cy - stepHeight(step) / 2;
+      let maxX = cx;
+      for (const b of step.branches) {
+        const h = branchHeight(b.steps);
+        maxX = Math.max(maxX, layoutChain(b.steps, cx, top + h / 2, place));
+        top += h + AL_GAP;
+      }
+      place({ id: joinId(step), x: maxX, y: cy - AL_GW_H / 2, w: AL_GW_W, h: AL_GW_H });
+      cx = maxX + AL_GW_W + AL_GAP;
+    }
+  }
+  return cx;
+}
+
 // ─── Build definitions tag ────────────────────────────────────────────────────
 
 function buildDefinitionsTag(ir: CaseIR, processId: string): string {
@@ -229,12 +458,37 @@ function buildDefinitionsTag(ir: CaseIR, processId: string): string {
 
 // ─── Main export ──────────────────────────────────────────────────────────────
 
-export function exportBpmn(ir: CaseIR): string {
+/** Raised when IR edits cannot be merged into the original BPMN document. */
+export class BpmnMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BpmnMergeError";
+  }
+}
+
+export interface ExportBpmnOptions {
+  /** Regenerate the whole document when the merge fails instead of throwing BpmnMergeError */
+  rebuildOnMergeFailure?: boolean;
+  /**
+   * The engine has the `businessCalendar` bean, so durations counted in a business calendar
+   * export as bean calls; without it they export as plain ISO durations (wall-clock time)
+   */
+  calendarBean?: boolean;
+}
+
+export function exportBpmn(ir: CaseIR, calendars: BusinessCalendar[] = [], options: ExportBpmnOptions = {}): string {
   _uidCounter = 0;
+  _businessRules = ir.businessRules ?? [];
+  _calendars = calendars;
+  _calendarBean = options.calendarBean ?? false;
 
-  // ── STRATEGY 1: Verbatim round-trip ─────────────────────────────────────────
+  // ── STRATEGY 1: Merge into the original document ───────────────────────────
   if (ir.metadata.originalBpmnXml) {
-    return ir.metadata.originalBpmnXml;
+    try {
+      return mergeBpmn(ir, calendars, _calendarBean);
+    } catch (e) {
+      if (!options.rebuildOnMergeFailure) throw new BpmnMergeError(e instanceof Error ? e.message : String(e));
+    }
   }
 
   // ── STRATEGY 2: Reconstruct from IR (new/manually-built workflows) ─────────
@@ -273,30 +527,20 @@ export function exportBpmn(ir: CaseIR): string {
   const flowLines: string[] = [];
   const flowMeta: { id: string; src: string; tgt: string }[] = []; // for diagram edges
 
+  // Event sub-processes carry their own inner flows; error/message/... definitions go at the root
+  const eventSubProcesses = ir.eventSubProcesses ?? [];
+  const espElements = eventSubProcesses.map(esp => renderEventSubProcessXml(esp, "    ", f => flowMeta.push({ id: f.id, src: f.src, tgt: f.tgt }))).join("\n\n");
+  const rootElements = eventSubProcesses.map(renderEspRootXml).filter(Boolean).join("\n");
+
+  // Decisions may end the case by targeting its end event
+  const processEnd = { ids: new Set([ir.endEvent.id, ir.endEvent.source?.bpmnElementId, endId].filter((id): id is string => !!id)), id: endId };
+
   // Helper: get next step in a linear list, or endId
   function buildFlowsForList(steps: Step[], fallbackEndId: string) {
-    for (let i = 0; i < steps.length; i++) {
-      const step = steps[i];
-      const sid = stepId(step);
-      const nextTarget = i + 1 < steps.length ? stepId(steps[i + 1]) : fallbackEndId;
-
-      if (step.type === "decision") {
-        const ds = step as DecisionStep;
-        ds.branches.forEach((b) => {
-          const target = b.targetStepId && allStepIds.has(b.targetStepId) ? b.targetStepId : nextTarget;
-          const fid = uid("sf");
-          const cond = b.condition && b.condition !== "${default}"
-            ? `\n      <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">${escapeXml(b.condition)}</bpmn:conditionExpression>\n    `
-            : "";
-          flowLines.push(`    <bpmn:sequenceFlow id="${fid}" name="${escapeXml(b.label)}" sourceRef="${sid}" targetRef="${target}">${cond}</bpmn:sequenceFlow>`);
-          flowMeta.push({ id: fid, src: sid, tgt: target });
-        });
-      } else {
-        const fid = uid("sf");
-        flowLines.push(`    <bpmn:sequenceFlow id="${fid}" sourceRef="${sid}" targetRef="${nextTarget}" />`);
-        flowMeta.push({ id: fid, src: sid, tgt: nextTarget });
-      }
-    }
+    emitChainFlows(steps, fallbackEndId, id => allStepIds.has(id), flow => {
+      flowLines.push(renderFlowXml(flow, "    "));
+      flowMeta.push({ id: flow.id, src: flow.src, tgt: flow.tgt });
+    }, processEnd);
   }
 
   // Flow: trigger → first main step
@@ -325,15 +569,10 @@ export function exportBpmn(ir: CaseIR): string {
   posMap.set(triggerId, trigShape);
   cx += AL_EVT_W + AL_GAP;
 
+  const place = (shape: AutoRect) => { shapes.push(shape); posMap.set(shape.id, shape); };
+
   // Main steps
-  for (const step of mainSteps) {
-    const sid = stepId(step);
-    const dim = stepDimensions(step);
-    const shape: AutoRect = { id: sid, x: cx, y: AL_MAIN_Y - dim.h / 2, w: dim.w, h: dim.h };
-    shapes.push(shape);
-    posMap.set(sid, shape);
-    cx += dim.w + AL_GAP;
-  }
+  cx = layoutChain(mainSteps, cx, AL_MAIN_Y, place);
 
   // End event
   const endShape: AutoRect = { id: endId, x: cx, y: AL_MAIN_Y - AL_EVT_H / 2, w: AL_EVT_W, h: AL_EVT_H };
@@ -341,14 +580,65 @@ export function exportBpmn(ir: CaseIR): string {
   posMap.set(endId, endShape);
 
   // Alt path steps below
-  let acx = 200;
-  for (const step of altSteps) {
-    const sid = stepId(step);
-    const dim = stepDimensions(step);
-    const shape: AutoRect = { id: sid, x: acx, y: AL_ALT_Y - dim.h / 2, w: dim.w, h: dim.h };
-    shapes.push(shape);
-    posMap.set(sid, shape);
-    acx += dim.w + AL_GAP;
+  layoutChain(altSteps, 200, AL_ALT_Y, place);
+
+  // Event sub-processes: expanded boxes stacked under the alternative paths
+  let espTop = AL_ALT_Y + AL_TASK_H + AL_GAP * 2;
+  for (const esp of eventSubProcesses) {
+    const inner: AutoRect[] = [];
+    const h = Math.max(AL_TASK_H, ...esp.steps.map(stepHeight)) + AL_GAP * 2;
+    const cy = espTop + h / 2;
+    inner.push({ id: espStartId(esp), x: 200 + AL_GAP, y: cy - AL_EVT_H / 2, w: AL_EVT_W, h: AL_EVT_H });
+    const endX = layoutChain(esp.steps, 200 + AL_GAP * 2 + AL_EVT_W, cy, r => inner.push(r));
+    inner.push({ id: `${esp.id}_end`, x: endX, y: cy - AL_EVT_H / 2, w: AL_EVT_W, h: AL_EVT_H });
+    place({ id: esp.id, x: 200, y: espTop, w: endX + AL_EVT_W + AL_GAP - 200, h, expanded: true });
+    inner.forEach(place);
+    espTop += h + AL_GAP;
+  }
+
+  // Compensation: boundary event on the host's bottom edge, handler activity underneath
+  const associationEdges: AutoEdge[] = [];
+  const compensated: Step[] = [];
+  const collectCompensated = (steps: Step[]) => steps.forEach(s => {
+    if (s.compensation) compensated.push(s);
+    if (s.type === "parallel" || s.type === "inclusive") s.branches.forEach(b => collectCompensated(b.steps));
+  });
+  collectCompensated([...allSteps, ...eventSubProcesses.flatMap(e => e.steps)]);
+  for (const step of compensated) {
+    const host = posMap.get(stepId(step));
+    if (!host) continue;
+    const beId = compensationBoundaryId(step);
+    const be: AutoRect = { id: beId, x: host.x + host.w - AL_EVT_W - 8, y: host.y + host.h - AL_EVT_H / 2, w: AL_EVT_W, h: AL_EVT_H };
+    const handler: AutoRect = { id: stepId(step.compensation!.activity), x: host.x + host.w + AL_GAP / 2, y: host.y + host.h + AL_GAP, w: AL_TASK_W, h: AL_TASK_H };
+    place(be);
+    place(handler);
+    associationEdges.push({ flowId: `${beId}_assoc`, points: [{ x: be.x + be.w / 2, y: be.y + be.h }, { x: be.x + be.w / 2, y: handler.y + handler.h / 2 }, { x: handler.x, y: handler.y + handler.h / 2 }] });
+  }
+
+  // SLA timers: boundary events along the host's bottom edge, a worker task and end event under each
+  const slaEdges: AutoEdge[] = [];
+  const slaHosts: Step[] = [];
+  const collectSlaHosts = (steps: Step[]) => steps.forEach(s => {
+    if (slaTimersOf(s).length) slaHosts.push(s);
+    if (s.type === "parallel" || s.type === "inclusive") s.branches.forEach(b => collectSlaHosts(b.steps));
+  });
+  collectSlaHosts([...allSteps, ...eventSubProcesses.flatMap(e => e.steps)]);
+  for (const step of slaHosts) {
+    const host = posMap.get(stepId(step));
+    if (!host) continue;
+    const top = host.y + host.h + AL_GAP + (step.compensation ? AL_TASK_H + AL_GAP : 0);
+    slaTimersOf(step).forEach((t, k) => {
+      const be: AutoRect = { id: t.id, x: host.x + 4 + k * (AL_EVT_W / 2 + 4), y: host.y + host.h - AL_EVT_H / 2, w: AL_EVT_W, h: AL_EVT_H };
+      const task: AutoRect = { id: t.task.id, x: host.x + k * (AL_TASK_W + AL_GAP / 2), y: top, w: AL_TASK_W, h: AL_TASK_H };
+      const end: AutoRect = { id: t.endId, x: task.x + (AL_TASK_W - AL_EVT_W) / 2, y: top + AL_TASK_H + AL_GAP / 2, w: AL_EVT_W, h: AL_EVT_H };
+      [be, task, end].forEach(place);
+      const bx = be.x + be.w / 2;
+      const tx = task.x + task.w / 2;
+      slaEdges.push(
+        { flowId: `${t.id}_flow`, points: [{ x: bx, y: be.y + be.h }, { x: bx, y: top - AL_GAP / 2 }, { x: tx, y: top - AL_GAP / 2 }, { x: tx, y: top }] },
+        { flowId: `${t.task.id}_flow`, points: [{ x: tx, y: top + AL_TASK_H }, { x: tx, y: end.y }] },
+      );
+    });
   }
 
   // Build edges from flowMeta
@@ -385,9 +675,11 @@ export function exportBpmn(ir: CaseIR): string {
     }
   }
 
+  edges.push(...associationEdges, ...slaEdges);
+
   // Render diagram XML
   const shapeXmls = shapes.map(s => {
-    return `    <bpmndi:BPMNShape id="Shape_${s.id}" bpmnElement="${s.id}">\n      <dc:Bounds x="${Math.round(s.x)}" y="${Math.round(s.y)}" width="${Math.round(s.w)}" height="${Math.round(s.h)}" />\n    </bpmndi:BPMNShape>`;
+    return `    <bpmndi:BPMNShape id="Shape_${s.id}" bpmnElement="${s.id}"${s.expanded ? ` isExpanded="true"` : ""}>\n      <dc:Bounds x="${Math.round(s.x)}" y="${Math.round(s.y)}" width="${Math.round(s.w)}" height="${Math.round(s.h)}" />\n    </bpmndi:BPMNShape>`;
   });
   const edgeXmls = edges.map(e => {
     const wps = e.points.map(p => `      <di:waypoint x="${Math.round(p.x)}" y="${Math.round(p.y)}" />`).join("\n");
@@ -399,13 +691,13 @@ export function exportBpmn(ir: CaseIR): string {
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 ${defsTag}
-
+${rootElements ? `\n${rootElements}\n` : ""}
   <bpmn:process id="${processId}" name="${processName}" isExecutable="true">
 
 ${trigger.xml}
 
 ${stepElements}
-
+${espElements ? `\n${espElements}\n` : ""}
     <bpmn:endEvent id="${endId}" />
 
 ${flowLines.join("\n")}
@@ -0,0 +1,114 @@
+/**
+ * Parallel / inclusive gateway pairing – finds split→join blocks inside one BPMN container
+ * (a process or subProcess) by walking its sequence flows.
+ * Shared by the importer (to build GatewayBlockSteps) and the merge exporter (to remove whole blocks).
+ *
+ * A block is recognised only when every branch is a simple chain (nested blocks allowed)
+ * that reaches the same join gateway of the same kind. Anything else is left unpaired.
+ */
+
+export type GatewayKind = "parallel" | "inclusive";
+
+export interface GatewayBlockBranch {
+  /** Id of the split's outgoing sequence flow that starts this branch */
+  flowId: string;
+  /** Branch-level element ids in flow order (nested splits appear as their split id) */
+  elementIds: string[];
+}
+
+export interface GatewayBlock {
+  kind: GatewayKind;
+  splitId: string;
+  joinId: string;
+  branches: GatewayBlockBranch[];
+}
+
+const KIND_BY_TAG: Record<string, GatewayKind> = { parallelGateway: "parallel", inclusiveGateway: "inclusive" };
+const MAX_CHAIN = 500;
+
+function lname(el: Element): string { return el.localName ?? el.tagName.split(":").pop()!; }
+
+export function gatewayKindOf(el: Element): GatewayKind | undefined {
+  return KIND_BY_TAG[lname(el)];
+}
+
+/** All split→join blocks of a container, keyed by split id. Nested blocks are included. */
+export function findGatewayBlocks(container: Element): Map<string, GatewayBlock> {
+  const nodes = new Map<string, Element>();
+  const outgoing = new Map<string, Element[]>();
+  const incomingCount = new Map<string, number>();
+  for (const el of Array.from(container.children)) {
+    const id = el.getAttribute("id");
+    if (!id) continue;
+    if (lname(el) === "sequenceFlow") {
+      const src = el.getAttribute("sourceRef") ?? "";
+      const tgt = el.getAttribute("targetRef") ?? "";
+      outgoing.set(src, [...(outgoing.get(src) ?? []), el]);
+      incomingCount.set(tgt, (incomingCount.get(tgt) ?? 0) + 1);
+    } else {
+      nodes.set(id, el);
+    }
+  }
+
+  const isSplit = (id: string) => { const el = nodes.get(id); return !!el && !!gatewayKindOf(el) && (outgoing.get(id)?.length ?? 0) >= 2; };
+  const isJoin = (id: string) => { const el = nodes.get(id); return !!el && !!gatewayKindOf(el) && (incomingCount.get(id) ?? 0) >= 2 && (outgoing.get(id)?.length ?? 0) <= 1; };
+
+  const blocks = new Map<string, GatewayBlock>();
+  const failed = new Set<string>();
+
+  function walkBranch(flow: Element): { elementIds: string[]; joinId: string } | null {
+    const elementIds: string[] = [];
+    let cur = flow.getAttribute("targetRef") ?? "";
+    for (let guard = 0; guard < MAX_CHAIN; guard++) {
+      if (!nodes.has(cur)) return null;
+      if (isJoin(cur)) return { elementIds, joinId: cur };
+      let next: Element[] | undefined;
+      if (isSplit(cur)) {
+        const nested = analyze(cur);
+        if (!nested) return null;
+        elementIds.push(cur);
+        next = outgoing.get(nested.joinId);
+      } else {
+        elementIds.push(cur);
+        next = outgoing.get(cur);
+      }
+      if (next?.length !== 1) return null;
+      cur = next[0].getAttribute("targetRef") ?? "";
+    }
+    return null;
+  }
+
+  function analyze(splitId: string): GatewayBlock | null {
+    if (blocks.has(splitId)) return blocks.get(splitId)!;
+    if (failed.has(splitId)) return null;
+    failed.add(splitId); // guards against cycles while walking
+    const split = nodes.get(splitId)!;
+    const kind = gatewayKindOf(split)!;
+    const branches: GatewayBlockBranch[] = [];
+    let joinId: string | undefined;
+    for (const flow of outgoing.get(splitId) ?? []) {
+      const walked = walkBranch(flow);
+      if (!walked || (joinId && walked.joinId !== joinId)) return null;
+      joinId = walked.joinId;
+      branches.push({ flowId: flow.getAttribute("id")!, elementIds: walked.elementIds });
+    }
+    if (!joinId || gatewayKindOf(nodes.get(joinId)!) !== kind) return null;
+    failed.delete(splitId);
+    const block = { kind, splitId, joinId, branches };
+    blocks.set(splitId, block);
+    return block;
+  }
+
+  for (const id of nodes.keys()) if (isSplit(id)) analyze(id);
+  return blocks;
+}
+
+/** Ids consumed by blocks (joins and everything inside branches) — these are not top-level steps. */
+export function consumedByBlocks(blocks: Map<string, GatewayBlock>): Set<string> {
+  const consumed = new Set<string>();
+  for (const b of blocks.values()) {
+    consumed.add(b.joinId);
+    for (const br of b.branches) br.elementIds.forEach(id => consumed.add(id));
+  }
+  return consumed;
+}
@@ -7,8 +7,14 @@ import type {
   CaseIR, Stage, Step, AutomationStep, UserStep, DecisionStep,
   ForeachStep, CallActivityStep, IntermediateEventStep,
   Trigger, ImportResult, Camunda7Tech, DecisionBranch, IoParam,
-  BoundaryEvent, EndEvent, ProcessProperties,
+  BoundaryEvent, EndEvent, ProcessProperties, GatewayBlockStep,
+  EventSubProcess, EventSubProcessTrigger, CompensationHandler, SlaPolicy,
 } from "@/types/caseIr";
+import { findGatewayBlocks, consumedByBlocks, type GatewayBlock } from "./bpmnGateways";
+import { TRIGGER_BY_EVENT_DEFINITION, EVENT_ROOT_REFS } from "./bpmnEventRefs";
+import { isSlaElementId, parseSlaProperty, SLA_PROPERTY } from "./sla/compile";
+import { CALENDAR_PROPERTY, parseBusinessTimeExpression, parseCalendarDateAttr } from "./calendar/timerExpression";
+import { QUESTIONNAIRE_FORM_PREFIX } from "./questionnaire/binding";
 
 function uid(): string { return `ir_${Math.random().toString(36).slice(2, 10)}`; }
 function now(): string { return new Date().toISOString(); }
@@ -37,10 +43,49 @@ function parseDocumentation(el: Element): string | undefined {
   return text || undefined;
 }
 
+function camundaProperty(el: Element, name: string): string | undefined {
+  const ext = firstChild(el, "extensionElements");
+  const props = ext ? firstChild(ext, "properties") : undefined;
+  const prop = props ? childrenByLocalName(props, "property").find(p => attr(p, "name") === name) : undefined;
+  return prop ? attr(prop, "value") ?? "" : undefined;
+}
+
+/** SLA policy stored as a `sla` camunda:property by the exporters */
+function parseSlaPolicy(el: Element): SlaPolicy | undefined {
+  const value = camundaProperty(el, SLA_PROPERTY);
+  return value === undefined ? undefined : parseSlaProperty(value);
+}
+
+/**
+ * Business calendar of a task: the `businessCalendar` camunda:property the exporters
+ * write, else the calendar a due / follow-up date expression counts in.
+ */
+function parseCalendarRef(el: Element): string | undefined {
+  const dates = ["camunda:dueDate", "camunda:followUpDate"].map(name => parseCalendarDateAttr(attr(el, name) ?? ""));
+  return camundaProperty(el, CALENDAR_PROPERTY) || dates.find(d => d.calendarKey)?.calendarKey;
+}
+
 function parseCamundaExtensions(el: Element): Camunda7Tech {
   const tech: Camunda7Tech = {};
   const topic = attr(el, "camunda:topic") ?? attr(el, "topic");
   if (topic) tech.topic = topic;
+  const decisionRef = attr(el, "camunda:decisionRef");
+  if (decisionRef) {
+    tech.decisionRef = decisionRef;
+    const binding = attr(el, "camunda:decisionRefBinding");
+    if (binding === "latest" || binding === "version" || binding === "versionTag") tech.decisionRefBinding = binding;
+    const version = attr(el, "camunda:decisionRefVersion") ?? attr(el, "camunda:decisionRefVersionTag");
+    if (version) tech.decisionRefVersion = version;
+    const mapResult = attr(el, "camunda:mapDecisionResult");
+    if (mapResult) tech.mapDecisionResult = mapResult;
+  }
+  const resultVariable = attr(el, "camunda:resultVariable");
+  if (resultVariable) tech.resultVariable = resultVariable;
+  // Calendar date expressions are read back as the business duration they were generated from
+  const dueDate = attr(el, "camunda:dueDate");
+  if (dueDate) tech.dueDate = parseCalendarDateAttr(dueDate).value;
+  const followUpDate = attr(el, "camunda:followUpDate");
+  if (followUpDate) tech.followUpDate = parseCalendarDateAttr(followUpDate).value;
   if (attr(el, "camunda:asyncBefore") === "true") tech.asyncBefore = true;
   if (attr(el, "camunda:asyncAfter") === "true") tech.asyncAfter = true;
   const miEl = firstChild(el, "multiInstanceLoopCharacteristics");
@@ -66,7 +111,7 @@ const TASK_LIKE_TAGS = new Set([
 ]);
 const INTERMEDIATE_EVENT_TAGS = new Set(["intermediateCatchEvent", "intermediateThrowEvent"]);
 
-function getEventSubType(el: Element): { subType: string; messageRef?: string; timerExpr?: string } {
+function getEventSubType(el: Element): { subType: string; messageRef?: string; timerExpr?: string; calendarRef?: string } {
   if (firstChild(el, "messageEventDefinition")) {
     const msgDef = firstChild(el, "messageEventDefinition");
     return { subType: "message", messageRef: msgDef ? (attr(msgDef, "messageRef") ?? undefined) : undefined };
@@ -74,13 +119,33 @@ function getEventSubType(el: Element): { subType: string; messageRef?: string; t
   if (firstChild(el, "timerEventDefinition")) {
     const t = firstChild(el, "timerEventDefinition")!;
     const expr = textContent(firstChild(t, "timeCycle")) || textContent(firstChild(t, "timeDate")) || textContent(firstChild(t, "timeDuration"));
+    const calendar = parseBusinessTimeExpression(expr);
+    if (calendar) return { subType: "timer", timerExpr: calendar.duration, calendarRef: calendar.calendarKey };
     return { subType: "timer", timerExpr: expr || undefined };
   }
   if (firstChild(el, "signalEventDefinition")) return { subType: "signal" };
   if (firstChild(el, "errorEventDefinition")) return { subType: "error" };
+  if (firstChild(el, "escalationEventDefinition")) return { subType: "escalation" };
+  if (firstChild(el, "conditionalEventDefinition")) return { subType: "conditional" };
+  if (firstChild(el, "compensateEventDefinition")) return { subType: "compensate" };
   return { subType: "generic" };
 }
 
+/** Event sub-processes are handlers, not part of the sequence flow */
+function isEventSubProcess(el: Element): boolean {
+  return lname(el) === "subProcess" && attr(el, "triggeredByEvent") === "true";
+}
+
+/** SLA timers, worker tasks and end events are generated from the host's SLA policy on export */
+function isSlaElement(el: Element): boolean {
+  return isSlaElementId(attr(el, "id") ?? "");
+}
+
+/** Compensation activities hang off a compensation boundary event, outside the sequence flow */
+function isCompensationActivity(el: Element): boolean {
+  return attr(el, "isForCompensation") === "true";
+}
+
 function parseFlowElement(el: Element, sequenceFlows: Map<string, Element>): Step | null {
   const tag = lname(el);
   const id = attr(el, "id") ?? uid();
@@ -88,12 +153,18 @@ function parseFlowElement(el: Element, sequenceFlows: Map<string, Element>): Ste
   const tech = parseCamundaExtensions(el);
   const description = parseDocumentation(el);
   const source = { bpmnElementId: id, bpmnElementType: tag };
+  const sla = parseSlaPolicy(el);
+  const calendarRef = parseCalendarRef(el);
 
   switch (tag) {
     case "serviceTask": case "scriptTask": case "sendTask": case "receiveTask": case "businessRuleTask":
-      return { id, name, type: "automation", tech, source, description } as AutomationStep;
-    case "userTask": case "manualTask":
-      return { id, name, type: "user", assignee: attr(el, "camunda:assignee"), candidateGroups: attr(el, "camunda:candidateGroups")?.split(",").map(s => s.trim()), tech, source, description } as UserStep;
+      return { id, name, type: "automation", tech, source, description, sla, calendarRef } as AutomationStep;
+    case "userTask": case "manualTask": {
+      // A questionnaire form key binds the published questionnaire; other form keys are not modelled
+      const formKey = attr(el, "camunda:formKey");
+      const formRef = formKey?.startsWith(QUESTIONNAIRE_FORM_PREFIX) ? { formId: formKey } : undefined;
+      return { id, name, type: "user", assignee: attr(el, "camunda:assignee"), candidateGroups: attr(el, "camunda:candidateGroups")?.split(",").map(s => s.trim()), tech, source, description, sla, calendarRef, formRef } as UserStep;
+    }
     case "exclusiveGateway": case "inclusiveGateway": case "complexGateway": {
       const outgoing = Array.from(el.children).filter(c => lname(c) === "outgoing").map(o => o.textContent?.trim() ?? "").filter(Boolean);
       const branches: DecisionBranch[] = outgoing.map((flowId, idx) => {
@@ -108,7 +179,7 @@ function parseFlowElement(el: Element, sequenceFlows: Map<string, Element>): Ste
       if (miEl) {
         return { id, name, type: "foreach", collectionExpression: miEl.getAttribute("camunda:collection") ?? "", elementVariable: miEl.getAttribute("camunda:elementVariable") ?? "", isSequential: miEl.getAttribute("isSequential") === "true", steps: parseInnerFlowElements(el, sequenceFlows), tech, source, description } as ForeachStep;
       }
-      return { id, name, type: "automation", tech, source, description } as AutomationStep;
+      return { id, name, type: "automation", tech, source, description, sla, calendarRef } as AutomationStep;
     }
     case "callActivity": {
       const extEl = firstChild(el, "extensionElements");
@@ -122,15 +193,60 @@ function parseFlowElement(el: Element, sequenceFlows: Map<string, Element>): Ste
 
 const INNER_SKIP_TAGS = new Set(["startEvent", "endEvent", "boundaryEvent", "sequenceFlow", "textAnnotation", "association", "dataObject", "dataStore", "dataStoreReference", "dataObjectReference", "message", "error", "signal", "messageEventDefinition", "timerEventDefinition", "errorEventDefinition", "signalEventDefinition", "multiInstanceLoopCharacteristics"]);
 
+function parseIntermediateEvent(el: Element): IntermediateEventStep {
+  const id = attr(el, "id") ?? uid();
+  const { subType, messageRef, timerExpr, calendarRef } = getEventSubType(el);
+  return { id, name: attr(el, "name") ?? "Wait", type: "intermediateEvent", eventSubType: subType, messageRef, timerExpression: timerExpr, calendarRef, tech: parseCamundaExtensions(el), source: { bpmnElementId: id, bpmnElementType: lname(el) }, description: parseDocumentation(el) };
+}
+
+/** Build a parallel/inclusive step from a paired split→join block, parsing each branch chain. */
+function parseGatewayBlock(container: Element, block: GatewayBlock, blocks: Map<string, GatewayBlock>, sequenceFlows: Map<string, Element>): GatewayBlockStep {
+  const byId = new Map(Array.from(container.children).map(c => [attr(c, "id") ?? "", c]));
+  const split = byId.get(block.splitId)!;
+  const defaultFlow = attr(split, "default");
+  const branches = block.branches.map((br, idx) => {
+    const flow = sequenceFlows.get(br.flowId);
+    const steps: Step[] = [];
+    for (const id of br.elementIds) {
+      const el = byId.get(id);
+      if (!el) continue;
+      if (blocks.has(id)) steps.push(parseGatewayBlock(container, blocks.get(id)!, blocks, sequenceFlows));
+      else if (INTERMEDIATE_EVENT_TAGS.has(lname(el))) steps.push(parseIntermediateEvent(el));
+      else {
+        const step = parseFlowElement(el, sequenceFlows);
+        if (step) steps.push(step);
+      }
+    }
+    const condition = block.kind === "inclusive" ? (textContent(flow ? firstChild(flow, "conditionExpression") : undefined) || undefined) : undefined;
+    return { id: `branch_${br.flowId}`, label: (flow && attr(flow, "name")) ?? `Branch ${idx + 1}`, condition, steps };
+  });
+  const base = {
+    id: block.splitId,
+    name: attr(split, "name") ?? (block.kind === "parallel" ? "Parallel" : "Inclusive"),
+    branches,
+    tech: parseCamundaExtensions(split),
+    source: { bpmnElementId: block.splitId, bpmnElementType: lname(split) },
+    joinSource: { bpmnElementId: block.joinId, bpmnElementType: lname(byId.get(block.joinId)!) },
+    description: parseDocumentation(split),
+  };
+  if (block.kind === "parallel") return { ...base, type: "parallel" };
+  return { ...base, type: "inclusive", defaultBranchId: defaultFlow ? `branch_${defaultFlow}` : undefined };
+}
+
 function parseInnerFlowElements(container: Element, sequenceFlows: Map<string, Element>): Step[] {
   const steps: Step[] = [];
+  const blocks = findGatewayBlocks(container);
+  const consumed = consumedByBlocks(blocks);
   for (const el of Array.from(container.children)) {
     const tag = lname(el);
-    if (INNER_SKIP_TAGS.has(tag)) continue;
+    const id = attr(el, "id") ?? "";
+    if (INNER_SKIP_TAGS.has(tag) || consumed.has(id) || isEventSubProcess(el) || isCompensationActivity(el) || isSlaElement(el)) continue;
+    if (blocks.has(id)) {
+      steps.push(parseGatewayBlock(container, blocks.get(id)!, blocks, sequenceFlows));
+      continue;
+    }
     if (INTERMEDIATE_EVENT_TAGS.has(tag)) {
-      const id = attr(el, "id") ?? uid();
-      const { subType, messageRef, timerExpr } = getEventSubType(el);
-      steps.push({ id, name: attr(el, "name") ?? "Wait", type: "intermediateEvent", eventSubType: subType, messageRef, timerExpression: timerExpr, tech: parseCamundaExtensions(el), source: { bpmnElementId: id, bpmnElementType: tag }, description: parseDocumentation(el) } as IntermediateEventStep);
+      steps.push(parseIntermediateEvent(el));
       continue;
     }
     if (TASK_LIKE_TAGS.has(tag) || tag === "subProcess") {
@@ -180,6 +296,7 @@ function resolveMessageNames(steps: Step[], messageMap: Map<string, string>) {
   for (const step of steps) {
     if (step.type === "intermediateEvent" && step.messageRef) step.messageRef = messageMap.get(step.messageRef) ?? step.messageRef;
     if (step.type === "foreach") resolveMessageNames(step.steps, messageMap);
+    if (step.type === "parallel" || step.type === "inclusive") step.branches.forEach(b => resolveMessageNames(b.steps, messageMap));
   }
 }
 
@@ -188,7 +305,7 @@ function resolveMessageNames(steps: Step[], messageMap: Map<string, string>) {
 function parseBoundaryEvents(container: Element): BoundaryEvent[] {
   const events: BoundaryEvent[] = [];
   for (const el of Array.from(container.children)) {
-    if (lname(el) !== "boundaryEvent") continue;
+    if (lname(el) !== "boundaryEvent" || firstChild(el, "compensateEventDefinition") || isSlaElement(el)) continue;
     const id = attr(el, "id") ?? uid();
     const name = attr(el, "name") ?? "Boundary Event";
     const attachedTo = attr(el, "attachedToRef");
@@ -220,20 +337,17 @@ function attachBoundaryEventsToSteps(stages: Stage[], boundaryEvents: BoundaryEv
     beMap.get(attachedTo)!.push(be);
   }
   if (beMap.size === 0) return;
-  for (const stage of stages) {
-    for (const group of stage.groups) {
-      for (const step of group.steps) {
-        const matching = beMap.get(step.source?.bpmnElementId ?? "");
-        if (matching) step.boundaryEvents = matching;
-        if (step.type === "foreach") {
-          // Also check nested steps
-          for (const nested of step.steps) {
-            const m = beMap.get(nested.source?.bpmnElementId ?? "");
-            if (m) nested.boundaryEvents = m;
-          }
-        }
-      }
+  const attach = (steps: Step[]) => {
+    for (const step of steps) {
+      const matching = beMap.get(step.source?.bpmnElementId ?? "");
+      if (matching) step.boundaryEvents = matching;
+      // Also check nested steps
+      if (step.type === "foreach") attach(step.steps);
+      if (step.type === "parallel" || step.type === "inclusive") step.branches.forEach(b => attach(b.steps));
     }
+  };
+  for (const stage of stages) {
+    for (const group of stage.groups) attach(group.steps);
     // Also check if boundary is attached to the stage (subProcess) itself
     const stageBeList = beMap.get(stage.source?.bpmnElementId ?? "");
     if (stageBeList) {
@@ -257,10 +371,89 @@ function attachBoundaryEventsToSteps(stages: Stage[], boundaryEvents: BoundaryEv
   }
 }
 
+// ─── Event sub-process & compensation parsers ─────────────────────────────────
+
+function parseEventSubProcessTrigger(start: Element, doc: Document): { triggerType: EventSubProcessTrigger; expression?: string } | null {
+  const def = Array.from(start.children).find(c => TRIGGER_BY_EVENT_DEFINITION[lname(c)]);
+  if (!def) return null;
+  const triggerType = TRIGGER_BY_EVENT_DEFINITION[lname(def)];
+  if (triggerType === "timer") {
+    return { triggerType, expression: textContent(firstChild(def, "timeCycle")) || textContent(firstChild(def, "timeDate")) || textContent(firstChild(def, "timeDuration")) || undefined };
+  }
+  if (triggerType === "conditional") return { triggerType, expression: textContent(firstChild(def, "condition")) || undefined };
+  const ref = EVENT_ROOT_REFS[triggerType];
+  const refId = ref ? attr(def, ref.refAttr) : undefined;
+  if (!ref || !refId) return { triggerType };
+  const target = Array.from(doc.getElementsByTagNameNS("*", ref.tag)).find(el => attr(el, "id") === refId);
+  return { triggerType, expression: (target && attr(target, ref.keyAttr)) ?? refId };
+}
+
+/** Top-level event sub-processes of the process. Nested ones are left in the BPMN untouched. */
+function parseEventSubProcesses(processEl: Element, sequenceFlows: Map<string, Element>, messageMap: Map<string, string>, warnings: string[]): EventSubProcess[] {
+  const result: EventSubProcess[] = [];
+  for (const el of Array.from(processEl.children)) {
+    if (!isEventSubProcess(el)) continue;
+    const id = attr(el, "id") ?? uid();
+    const start = firstChild(el, "startEvent");
+    const trigger = start ? parseEventSubProcessTrigger(start, processEl.ownerDocument) : null;
+    if (!start || !trigger) {
+      warnings.push(`Event sub-process "${attr(el, "name") ?? id}" has no typed start event – skipped.`);
+      continue;
+    }
+    const steps = parseInnerFlowElements(el, sequenceFlows);
+    resolveMessageNames(steps, messageMap);
+    result.push({
+      id,
+      name: attr(el, "name") ?? "Event Handler",
+      description: parseDocumentation(el),
+      ...trigger,
+      interrupting: attr(start, "isInterrupting") !== "false",
+      steps,
+      tech: parseCamundaExtensions(el),
+      source: { bpmnElementId: id, bpmnElementType: "subProcess:event" },
+      startSource: { bpmnElementId: attr(start, "id"), bpmnElementType: "startEvent" },
+    });
+  }
+  const nested = Array.from(processEl.getElementsByTagNameNS("*", "subProcess")).filter(el => isEventSubProcess(el) && el.parentElement !== processEl);
+  if (nested.length) warnings.push(`${nested.length} event sub-process(es) nested inside sub-processes are kept as-is and not shown.`);
+  return result;
+}
+
+/** Compensation handlers keyed by host element id: compensation boundary event → association → isForCompensation activity. */
+function parseCompensationHandlers(processEl: Element, sequenceFlows: Map<string, Element>): Map<string, CompensationHandler> {
+  const handlers = new Map<string, CompensationHandler>();
+  const associations = Array.from(processEl.getElementsByTagNameNS("*", "association"));
+  for (const be of Array.from(processEl.getElementsByTagNameNS("*", "boundaryEvent"))) {
+    if (!firstChild(be, "compensateEventDefinition")) continue;
+    const beId = attr(be, "id");
+    const hostId = attr(be, "attachedToRef");
+    const targetId = associations.find(a => attr(a, "sourceRef") === beId)?.getAttribute("targetRef");
+    const target = targetId ? Array.from(be.parentElement?.children ?? []).find(c => attr(c, "id") === targetId) : undefined;
+    const activity = target ? parseFlowElement(target, sequenceFlows) : null;
+    if (!hostId || !activity || (activity.type !== "automation" && activity.type !== "user")) continue;
+    handlers.set(hostId, { activity, boundarySource: { bpmnElementId: beId, bpmnElementType: "boundaryEvent:compensate" } });
+  }
+  return handlers;
+}
+
+function attachCompensationHandlers(steps: Step[], handlers: Map<string, CompensationHandler>) {
+  for (const step of steps) {
+    const handler = handlers.get(step.source?.bpmnElementId ?? "");
+    if (handler) step.compensation = handler;
+    if (step.type === "foreach") attachCompensationHandlers(step.steps, handlers);
+    if (step.type === "parallel" || step.type === "inclusive") step.branches.forEach(b => attachCompensationHandlers(b.steps, handlers));
+  }
+}
+
 // ─── End event parser ─────────────────────────────────────────────────────────
 
+/** The container's own end event – not one that closes an SLA branch */
+function mainEndEvent(container: Element): Element | undefined {
+  return Array.from(container.children).find(el => lname(el) === "endEvent" && !isSlaElement(el));
+}
+
 function parseEndEvent(processEl: Element): EndEvent {
-  const endEl = Array.from(processEl.children).find(el => lname(el) === "endEvent");
+  const endEl = mainEndEvent(processEl);
   if (!endEl) return { id: uid(), eventType: "none" };
   const id = attr(endEl, "id") ?? uid();
   const name = attr(endEl, "name");
@@ -311,6 +504,9 @@ function buildStages(processEl: Element, sequenceFlows: Map<string, Element>, me
 
   const SKIP_TOP = new Set(["startEvent", "endEvent", "sequenceFlow", "boundaryEvent", "textAnnotation", "association", "dataObject", "dataStore", "dataStoreReference", "dataObjectReference", "message", "error", "signal", "laneSet", "lane", "collaboration", "participant"]);
 
+  const blocks = findGatewayBlocks(processEl);
+  const consumed = consumedByBlocks(blocks);
+
   let flatBuffer: Step[] = [];
   const flushBuffer = () => {
     if (!flatBuffer.length) return;
@@ -321,8 +517,11 @@ function buildStages(processEl: Element, sequenceFlows: Map<string, Element>, me
 
   for (const child of Array.from(processEl.children)) {
     const tag = lname(child);
-    if (SKIP_TOP.has(tag)) continue;
-    if (tag === "subProcess") {
+    const childId = attr(child, "id") ?? "";
+    if (SKIP_TOP.has(tag) || consumed.has(childId) || isEventSubProcess(child) || isCompensationActivity(child) || isSlaElement(child)) continue;
+    if (blocks.has(childId)) {
+      flatBuffer.push(parseGatewayBlock(processEl, blocks.get(childId)!, blocks, sequenceFlows));
+    } else if (tag === "subProcess") {
       flushBuffer();
       const miEl = firstChild(child, "multiInstanceLoopCharacteristics");
       const stageId = attr(child, "id") ?? uid();
@@ -334,14 +533,15 @@ function buildStages(processEl: Element, sequenceFlows: Map<string, Element>, me
         name: stageName,
         groups: [makeGroup("Main", innerSteps, stageId)],
         source: { bpmnElementId: stageId, bpmnElementType: miEl ? "subProcess-multi" : "subProcess" },
+        sla: parseSlaPolicy(child),
       });
     } else if (TASK_LIKE_TAGS.has(tag)) {
       const step = parseFlowElement(child, sequenceFlows);
       if (step) flatBuffer.push(step);
     } else if (INTERMEDIATE_EVENT_TAGS.has(tag)) {
       const id = attr(child, "id") ?? uid();
-      const { subType, messageRef, timerExpr } = getEventSubType(child);
-      flatBuffer.push({ id, name: attr(child, "name") ?? "Wait", type: "intermediateEvent", eventSubType: subType, messageRef: messageRef ? (messageMap.get(messageRef) ?? messageRef) : undefined, timerExpression: timerExpr, tech: parseCamundaExtensions(child), source: { bpmnElementId: id, bpmnElementType: tag }, description: parseDocumentation(child) } as IntermediateEventStep);
+      const { subType, messageRef, timerExpr, calendarRef } = getEventSubType(child);
+      flatBuffer.push({ id, name: attr(child, "name") ?? "Wait", type: "intermediateEvent", eventSubType: subType, messageRef: messageRef ? (messageMap.get(messageRef) ?? messageRef) : undefined, timerExpression: timerExpr, calendarRef, tech: parseCamundaExtensions(child), source: { bpmnElementId: id, bpmnElementType: tag }, description: parseDocumentation(child) } as IntermediateEventStep);
     }
   }
   flushBuffer();
@@ -424,7 +624,7 @@ export async function importBpmn(bpmnXml: string, fileName?: string): Promise<Im
 
   // Capture original start/end event IDs from the top-level process
   const topLevelStartEvent = Array.from(processEl.children).find(el => lname(el) === "startEvent");
-  const topLevelEndEvent = Array.from(processEl.children).find(el => lname(el) === "endEvent");
+  const topLevelEndEvent = mainEndEvent(processEl);
   const originalStartEventId = topLevelStartEvent ? (attr(topLevelStartEvent, "id") ?? undefined) : undefined;
   const originalEndEventId = topLevelEndEvent ? (attr(topLevelEndEvent, "id") ?? undefined) : undefined;
 
@@ -435,7 +635,7 @@ export async function importBpmn(bpmnXml: string, fileName?: string): Promise<Im
     const spId = attr(child, "id");
     if (!spId) continue;
     const spStart = Array.from(child.children).find(el => lname(el) === "startEvent");
-    const spEnd = Array.from(child.children).find(el => lname(el) === "endEvent");
+    const spEnd = mainEndEvent(child);
     const spFlows = Array.from(child.children)
       .filter(el => lname(el) === "sequenceFlow")
       .map(el => attr(el, "id") ?? uid());
@@ -456,17 +656,26 @@ export async function importBpmn(bpmnXml: string, fileName?: string): Promise<Im
   // Parse end event, process properties, and boundary events
   const endEvent = parseEndEvent(processEl);
   const processProperties = parseProcessProperties(processEl);
+  const eventSubProcesses = parseEventSubProcesses(processEl, sequenceFlows, messageMap, warnings);
   const boundaryEvents = parseBoundaryEvents(processEl);
-  // Also parse boundary events inside subProcesses
+  // Also parse boundary events inside subProcesses (stages and event sub-processes)
   for (const child of Array.from(processEl.children)) {
     if (lname(child) === "subProcess") {
       boundaryEvents.push(...parseBoundaryEvents(child));
     }
   }
-  attachBoundaryEventsToSteps(stages, boundaryEvents);
+  // Event sub-process steps are wrapped as stages only for attaching; the step arrays are shared
+  const handlerStages: Stage[] = eventSubProcesses.map(esp => ({ id: esp.id, name: esp.name, groups: [{ id: esp.id, name: "Main", steps: esp.steps }] }));
+  attachBoundaryEventsToSteps([...stages, ...handlerStages], boundaryEvents);
+  const compensation = parseCompensationHandlers(processEl, sequenceFlows);
+  if (compensation.size > 0) {
+    for (const stage of stages) stage.groups.forEach(g => attachCompensationHandlers(g.steps, compensation));
+    eventSubProcesses.forEach(esp => attachCompensationHandlers(esp.steps, compensation));
+  }
 
   const caseIr: CaseIR = {
     id: processId, name: processName, version: "1.0.0", trigger, endEvent, processProperties, stages,
+    ...(eventSubProcesses.length > 0 ? { eventSubProcesses } : {}),
     metadata: {
       createdAt: now(), updatedAt: now(), sourceFile: fileName, exportedFrom: "bpmn",
       originalBpmnXml: bpmnXml,
@@ -0,0 +1,1272 @@
+/**
+ * BPMN Merge Exporter – patches the originally imported BPMN document in place.
+ *
+ * Only elements the Case IR knows about are touched:
+ *  - existing elements get their names, Camunda attributes, I/O, conditions and timers synced
+ *  - elements deleted in the IR are removed and their neighbours reconnected
+ *  - new steps / branches / boundary events are inserted with a local layout next to their predecessor
+ *  - event sub-processes and compensation handlers are synced like steps; nested event
+ *    sub-processes the IR does not model are left alone
+ *  - SLA timers, worker tasks and end events are regenerated from each step's / stage's
+ *    effective SLA policy and updated in place by their deterministic ids
+ *  - due dates, follow-up dates and timer waits of steps with a business calendar become
+ *    calendar date expressions
+ * Everything else — BPMNDI shapes of untouched elements, parallel gateways, joins, lanes,
+ * custom extension elements — is kept byte-for-byte in the DOM. When nothing changed,
+ * the original XML string is returned verbatim.
+ *
+ * Reordering existing steps re-points the sequence flows between them and moves their elements
+ * into the new document order; their shapes stay where they are.
+ */
+import type { CaseIR, Camunda7Tech, Stage, Step, BoundaryEvent, IoParam, DecisionStep, GatewayBlockStep, EventSubProcess, SlaPolicy } from "@/types/caseIr";
+import { findGatewayBlocks, type GatewayBlock } from "./bpmnGateways";
+import { EVENT_ROOT_REFS, eventDefinitionTag } from "./bpmnEventRefs";
+import { compileSla, isSlaElementId, SLA_PROPERTY, type SlaTimerSpec } from "./sla/compile";
+import { effectiveStageSla, effectiveStepSla } from "./sla/policy";
+import { CALENDAR_PROPERTY, calendarDateAttr, calendarTimer, parseBusinessTimeExpression } from "./calendar/timerExpression";
+import type { BusinessCalendar } from "./calendar/types";
+import { boundQuestionnaireFlowId, questionnaireFormId, QUESTIONNAIRE_FORM_PREFIX } from "./questionnaire/binding";
+
+const BPMN_NS = "http://www.omg.org/spec/BPMN/20100524/MODEL";
+const BPMNDI_NS = "http://www.omg.org/spec/BPMN/20100524/DI";
+const DC_NS = "http://www.omg.org/spec/DD/20100524/DC";
+const DI_NS = "http://www.omg.org/spec/DD/20100524/DI";
+const CAMUNDA_NS = "http://camunda.org/schema/1.0/bpmn";
+const XSI_NS = "http://www.w3.org/2001/XMLSchema-instance";
+
+const TASK_W = 100; const TASK_H = 80;
+const GW_SIZE = 50; const EVT_SIZE = 36;
+const GAP = 40;
+
+/** Tags the importer turns into IR elements — only these may be removed when missing from the IR. */
+const IR_OWNED_TAGS = new Set([
+  "serviceTask", "scriptTask", "sendTask", "receiveTask", "businessRuleTask",
+  "userTask", "manualTask", "exclusiveGateway", "inclusiveGateway", "complexGateway",
+  "callActivity", "subProcess", "intermediateCatchEvent", "intermediateThrowEvent", "boundaryEvent",
+]);
+
+const EXPECTED_TAGS: Record<Step["type"], string[]> = {
+  automation: ["serviceTask", "scriptTask", "sendTask", "receiveTask", "businessRuleTask", "subProcess"],
+  user: ["userTask", "manualTask"],
+  decision: ["exclusiveGateway", "inclusiveGateway", "complexGateway"],
+  foreach: ["subProcess"],
+  callActivity: ["callActivity"],
+  intermediateEvent: ["intermediateCatchEvent", "intermediateThrowEvent", "boundaryEvent"],
+  parallel: ["parallelGateway"],
+  inclusive: ["inclusiveGateway"],
+};
+
+const DEFAULT_TAG: Record<Step["type"], string> = {
+  automation: "serviceTask",
+  user: "userTask",
+  decision: "exclusiveGateway",
+  foreach: "subProcess",
+  callActivity: "callActivity",
+  intermediateEvent: "intermediateCatchEvent",
+  parallel: "parallelGateway",
+  inclusive: "inclusiveGateway",
+};
+
+interface Bounds { x: number; y: number; width: number; height: number; }
+
+/** Where a chain of steps attaches to the surrounding flow. */
+interface ChainEnds {
+  /** Element flowing into the first step (start event, split gateway) — null for alternative paths */
+  entryId: string | null;
+  /** Element after the last step (end event, join gateway) */
+  exitId: string | null;
+  /** Flow to splice when inserting at the head of the chain (a split's branch flow) */
+  entryFlow?: Element;
+  /** Vertical slot for new shapes at the head of the chain (branch index) */
+  row?: number;
+}
+
+interface MergeContext {
+  doc: Document;
+  bpmnPrefix: string | null;
+  camundaPrefix: string;
+  plane: Element | null;
+  byId: Map<string, Element>;
+  /** IR step id → BPMN element id */
+  irToBpmn: Map<string, string>;
+  /** Ids of elements that existed in the original document */
+  originalIds: Set<string>;
+  /** Paired parallel/inclusive split→join blocks of the original document, keyed by split id */
+  blocks: Map<string, GatewayBlock>;
+  /** IR gateway-block step id → BPMN id of its join gateway */
+  joins: Map<string, string>;
+  /** The engine has the businessCalendar bean (see calendar/timerExpression) */
+  calendarBean: boolean;
+  dirty: boolean;
+  counter: number;
+}
+
+// ─── DOM helpers ──────────────────────────────────────────────────────────────
+
+function lname(el: Element): string { return el.localName ?? el.tagName.split(":").pop()!; }
+function childrenByLocalName(el: Element, tag: string): Element[] { return Array.from(el.children).filter(c => lname(c) === tag); }
+function firstChild(el: Element, tag: string): Element | undefined { return childrenByLocalName(el, tag)[0]; }
+
+function newId(ctx: MergeContext, prefix: string): string {
+  let id: string;
+  do { id = `${prefix}_${(++ctx.counter).toString(36)}${Math.random().toString(36).slice(2, 6)}`; } while (ctx.byId.has(id));
+  return id;
+}
+
+function createBpmn(ctx: MergeContext, tag: string): Element {
+  return ctx.doc.createElementNS(BPMN_NS, ctx.bpmnPrefix ? `${ctx.bpmnPrefix}:${tag}` : tag);
+}
+
+function setAttr(ctx: MergeContext, el: Element, name: string, value: string | undefined) {
+  const current = el.getAttribute(name);
+  if (value === undefined || value === "") {
+    if (current !== null) { el.removeAttribute(name); ctx.dirty = true; }
+    return;
+  }
+  if (current === value) return;
+  el.setAttribute(name, value);
+  ctx.dirty = true;
+}
+
+function setCamundaAttr(ctx: MergeContext, el: Element, name: string, value: string | undefined) {
+  const qname = `${ctx.camundaPrefix}:${name}`;
+  const current = el.getAttributeNS(CAMUNDA_NS, name) ?? el.getAttribute(qname);
+  if (value === undefined || value === "") {
+    if (current !== null) { el.removeAttributeNS(CAMUNDA_NS, name); el.removeAttribute(qname); ctx.dirty = true; }
+    return;
+  }
+  if (current === value) return;
+  el.setAttributeNS(CAMUNDA_NS, qname, value);
+  ctx.dirty = true;
+}
+
+/** Only questionnaire bindings are modelled; any other form key of the original is kept */
+function syncQuestionnaireFormKey(ctx: MergeContext, el: Element, formRef: Step["formRef"]) {
+  const flowId = boundQuestionnaireFlowId(formRef);
+  const current = el.getAttributeNS(CAMUNDA_NS, "formKey") ?? el.getAttribute(`${ctx.camundaPrefix}:formKey`);
+  if (flowId || current?.startsWith(QUESTIONNAIRE_FORM_PREFIX)) {
+    setCamundaAttr(ctx, el, "formKey", flowId ? questionnaireFormId(flowId) : undefined);
+  }
+}
+
+function setText(ctx: MergeContext, el: Element, text: string) {
+  if ((el.textContent ?? "").trim() === text) return;
+  el.textContent = text;
+  ctx.dirty = true;
+}
+
+function register(ctx: MergeContext, el: Element) {
+  const id = el.getAttribute("id");
+  if (id) ctx.byId.set(id, el);
+}
+
+function removeNode(ctx: MergeContext, el: Element) {
+  const id = el.getAttribute("id");
+  if (id) ctx.byId.delete(id);
+  el.parentNode?.removeChild(el);
+  ctx.dirty = true;
+}
+
+/** Insert a child respecting BPMN order: documentation → extensionElements → incoming/outgoing → rest. */
+function insertOrdered(el: Element, child: Element) {
+  const rank = (tag: string) => tag === "documentation" ? 0 : tag === "extensionElements" ? 1 : tag === "incoming" ? 2 : tag === "outgoing" ? 3 : 4;
+  const r = rank(lname(child));
+  const before = Array.from(el.children).find(c => rank(lname(c)) > r);
+  el.insertBefore(child, before ?? null);
+}
+
+// ─── DI helpers ───────────────────────────────────────────────────────────────
+
+function shapeFor(ctx: MergeContext, bpmnId: string): Element | undefined {
+  if (!ctx.plane) return undefined;
+  return Array.from(ctx.plane.children).find(c => lname(c) === "BPMNShape" && c.getAttribute("bpmnElement") === bpmnId);
+}
+
+function edgeFor(ctx: MergeContext, flowId: string): Element | undefined {
+  if (!ctx.plane) return undefined;
+  return Array.from(ctx.plane.children).find(c => lname(c) === "BPMNEdge" && c.getAttribute("bpmnElement") === flowId);
+}
+
+function boundsOf(ctx: MergeContext, bpmnId: string): Bounds | undefined {
+  const b = shapeFor(ctx, bpmnId) && firstChild(shapeFor(ctx, bpmnId)!, "Bounds");
+  if (!b) return undefined;
+  return { x: Number(b.getAttribute("x")), y: Number(b.getAttribute("y")), width: Number(b.getAttribute("width")), height: Number(b.getAttribute("height")) };
+}
+
+function addShape(ctx: MergeContext, bpmnId: string, bounds: Bounds) {
+  if (!ctx.plane || shapeFor(ctx, bpmnId)) return;
+  const shape = ctx.doc.createElementNS(BPMNDI_NS, "bpmndi:BPMNShape");
+  shape.setAttribute("id", `${bpmnId}_di`);
+  shape.setAttribute("bpmnElement", bpmnId);
+  const b = ctx.doc.createElementNS(DC_NS, "dc:Bounds");
+  b.setAttribute("x", String(Math.round(bounds.x)));
+  b.setAttribute("y", String(Math.round(bounds.y)));
+  b.setAttribute("width", String(bounds.width));
+  b.setAttribute("height", String(bounds.height));
+  shape.appendChild(b);
+  const firstEdge = Array.from(ctx.plane.children).find(c => lname(c) === "BPMNEdge");
+  ctx.plane.insertBefore(shape, firstEdge ?? null);
+  ctx.dirty = true;
+}
+
+function waypoints(src: Bounds, tgt: Bounds): { x: number; y: number }[] {
+  const sx = src.x + src.width; const sy = src.y + src.height / 2;
+  const tx = tgt.x; const ty = tgt.y + tgt.height / 2;
+  if (Math.abs(sy - ty) < 2) return [{ x: sx, y: sy }, { x: tx, y: ty }];
+  const mx = Math.round((sx + tx) / 2);
+  return [{ x: sx, y: sy }, { x: mx, y: sy }, { x: mx, y: ty }, { x: tx, y: ty }];
+}
+
+function setEdge(ctx: MergeContext, flowId: string, srcId: string, tgtId: string) {
+  if (!ctx.plane) return;
+  const src = boundsOf(ctx, srcId);
+  const tgt = boundsOf(ctx, tgtId);
+  if (!src || !tgt) return;
+  let edge = edgeFor(ctx, flowId);
+  if (!edge) {
+    edge = ctx.doc.createElementNS(BPMNDI_NS, "bpmndi:BPMNEdge");
+    edge.setAttribute("id", `${flowId}_di`);
+    edge.setAttribute("bpmnElement", flowId);
+    ctx.plane.appendChild(edge);
+  }
+  for (const wp of childrenByLocalName(edge, "waypoint")) edge.removeChild(wp);
+  for (const p of waypoints(src, tgt)) {
+    const wp = ctx.doc.createElementNS(DI_NS, "di:waypoint");
+    wp.setAttribute("x", String(Math.round(p.x)));
+    wp.setAttribute("y", String(Math.round(p.y)));
+    edge.appendChild(wp);
+  }
+  ctx.dirty = true;
+}
+
+function removeDi(ctx: MergeContext, bpmnId: string) {
+  const shape = shapeFor(ctx, bpmnId) ?? edgeFor(ctx, bpmnId);
+  if (shape) { shape.parentNode?.removeChild(shape); ctx.dirty = true; }
+}
+
+// ─── Sequence flows ───────────────────────────────────────────────────────────
+
+function flowsWhere(container: Element, attr: "sourceRef" | "targetRef", id: string): Element[] {
+  return childrenByLocalName(container, "sequenceFlow").filter(f => f.getAttribute(attr) === id);
+}
+
+function addRef(ctx: MergeContext, nodeId: string, tag: "incoming" | "outgoing", flowId: string) {
+  const node = ctx.byId.get(nodeId);
+  if (!node) return;
+  const ref = createBpmn(ctx, tag);
+  ref.textContent = flowId;
+  insertOrdered(node, ref);
+}
+
+function removeRef(ctx: MergeContext, nodeId: string | null, tag: "incoming" | "outgoing", flowId: string) {
+  const node = nodeId ? ctx.byId.get(nodeId) : undefined;
+  if (!node) return;
+  for (const ref of childrenByLocalName(node, tag)) {
+    if (ref.textContent?.trim() === flowId) node.removeChild(ref);
+  }
+}
+
+function addFlow(ctx: MergeContext, container: Element, srcId: string, tgtId: string, name?: string, condition?: string): Element {
+  const flow = createBpmn(ctx, "sequenceFlow");
+  const id = newId(ctx, "Flow");
+  flow.setAttribute("id", id);
+  if (name) flow.setAttribute("name", name);
+  flow.setAttribute("sourceRef", srcId);
+  flow.setAttribute("targetRef", tgtId);
+  if (condition) setCondition(ctx, flow, condition);
+  container.appendChild(flow);
+  register(ctx, flow);
+  addRef(ctx, srcId, "outgoing", id);
+  addRef(ctx, tgtId, "incoming", id);
+  setEdge(ctx, id, srcId, tgtId);
+  ctx.dirty = true;
+  return flow;
+}
+
+function retargetFlow(ctx: MergeContext, flow: Element, tgtId: string) {
+  const id = flow.getAttribute("id")!;
+  const old = flow.getAttribute("targetRef");
+  if (old === tgtId) return;
+  removeRef(ctx, old, "incoming", id);
+  flow.setAttribute("targetRef", tgtId);
+  addRef(ctx, tgtId, "incoming", id);
+  setEdge(ctx, id, flow.getAttribute("sourceRef")!, tgtId);
+  ctx.dirty = true;
+}
+
+/** Move both ends of an existing flow, keeping its id, name and condition */
+function relinkFlow(ctx: MergeContext, flow: Element, srcId: string, tgtId: string) {
+  const id = flow.getAttribute("id")!;
+  const oldSrc = flow.getAttribute("sourceRef");
+  if (oldSrc === srcId) { retargetFlow(ctx, flow, tgtId); return; }
+  removeRef(ctx, oldSrc, "outgoing", id);
+  flow.setAttribute("sourceRef", srcId);
+  addRef(ctx, srcId, "outgoing", id);
+  retargetFlow(ctx, flow, tgtId);
+  setEdge(ctx, id, srcId, tgtId);
+  ctx.dirty = true;
+}
+
+function removeFlow(ctx: MergeContext, flow: Element) {
+  const id = flow.getAttribute("id")!;
+  removeRef(ctx, flow.getAttribute("sourceRef"), "outgoing", id);
+  removeRef(ctx, flow.getAttribute("targetRef"), "incoming", id);
+  removeDi(ctx, id);
+  removeNode(ctx, flow);
+}
+
+function setCondition(ctx: MergeContext, flow: Element, condition: string | undefined) {
+  const existing = firstChild(flow, "conditionExpression");
+  if (!condition || condition === "${default}") {
+    if (existing) { flow.removeChild(existing); ctx.dirty = true; }
+    return;
+  }
+  if (existing) { setText(ctx, existing, condition); return; }
+  const el = createBpmn(ctx, "conditionExpression");
+  el.setAttributeNS(XSI_NS, "xsi:type", `${ctx.bpmnPrefix ? `${ctx.bpmnPrefix}:` : ""}tFormalExpression`);
+  el.textContent = condition;
+  flow.appendChild(el);
+  ctx.dirty = true;
+}
+
+// ─── Element sync ─────────────────────────────────────────────────────────────
+
+function syncDocumentation(ctx: MergeContext, el: Element, text: string | undefined) {
+  const existing = firstChild(el, "documentation");
+  if (!text) {
+    if (existing) { el.removeChild(existing); ctx.dirty = true; }
+    return;
+  }
+  if (existing) { setText(ctx, existing, text); return; }
+  const doc = createBpmn(ctx, "documentation");
+  doc.textContent = text;
+  insertOrdered(el, doc);
+  ctx.dirty = true;
+}
+
+function extensionElements(ctx: MergeContext, el: Element): Element {
+  let ext = firstChild(el, "extensionElements");
+  if (!ext) {
+    ext = createBpmn(ctx, "extensionElements");
+    insertOrdered(el, ext);
+  }
+  return ext;
+}
+
+function moduleConfigToIoParams(step: Step): IoParam[] {
+  if (!step.moduleRef?.instanceConfig) return [];
+  return Object.entries(step.moduleRef.instanceConfig)
+    .filter(([, v]) => v !== undefined && v !== null && v !== "")
+    .map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function sameParams(a: IoParam[], b: IoParam[]): boolean {
+  return a.length === b.length && a.every((p, i) => p.name === b[i].name && (p.value ?? "") === (b[i].value ?? ""));
+}
+
+function syncInputOutput(ctx: MergeContext, el: Element, inputs: IoParam[], outputs: IoParam[]) {
+  const ext = firstChild(el, "extensionElements");
+  const io = ext ? firstChild(ext, "inputOutput") : undefined;
+  const curIn = io ? childrenByLocalName(io, "inputParameter").map(p => ({ name: p.getAttribute("name") ?? "", value: p.textContent?.trim() ?? "" })) : [];
+  const curOut = io ? childrenByLocalName(io, "outputParameter").map(p => ({ name: p.getAttribute("name") ?? "", value: p.textContent?.trim() ?? "" })) : [];
+  if (sameParams(curIn, inputs) && sameParams(curOut, outputs)) return;
+  ctx.dirty = true;
+  if (io) io.parentNode?.removeChild(io);
+  if (!inputs.length && !outputs.length) return;
+  const newIo = ctx.doc.createElementNS(CAMUNDA_NS, `${ctx.camundaPrefix}:inputOutput`);
+  for (const [tag, params] of [["inputParameter", inputs], ["outputParameter", outputs]] as const) {
+    for (const p of params) {
+      const pe = ctx.doc.createElementNS(CAMUNDA_NS, `${ctx.camundaPrefix}:${tag}`);
+      pe.setAttribute("name", p.name);
+      pe.textContent = p.value ?? "";
+      newIo.appendChild(pe);
+    }
+  }
+  extensionElements(ctx, el).appendChild(newIo);
+}
+
+function syncMappings(ctx: MergeContext, el: Element, tag: "in" | "out", mappings: Array<{ source: string; target: string }>) {
+  const ext = firstChild(el, "extensionElements");
+  const current = ext ? childrenByLocalName(ext, tag) : [];
+  const same = current.length === mappings.length && current.every((c, i) => c.getAttribute("source") === mappings[i].source && c.getAttribute("target") === mappings[i].target);
+  if (same) return;
+  ctx.dirty = true;
+  current.forEach(c => c.parentNode?.removeChild(c));
+  if (!mappings.length) return;
+  const target = extensionElements(ctx, el);
+  for (const m of mappings) {
+    const me = ctx.doc.createElementNS(CAMUNDA_NS, `${ctx.camundaPrefix}:${tag}`);
+    me.setAttribute("source", m.source);
+    me.setAttribute("target", m.target);
+    target.appendChild(me);
+  }
+}
+
+function syncTimer(ctx: MergeContext, el: Element, expression: string | undefined) {
+  const timer = firstChild(el, "timerEventDefinition");
+  if (!timer || expression === undefined) return;
+  const expr = firstChild(timer, "timeCycle") ?? firstChild(timer, "timeDate") ?? firstChild(timer, "timeDuration");
+  // A calendar date whose calendar was taken off the step goes back to the generator's timeCycle
+  if (expr && parseBusinessTimeExpression(expr.textContent ?? "")) { syncTimerDefinition(ctx, el, { type: "timeCycle", expression }); return; }
+  if (expr) { setText(ctx, expr, expression); return; }
+  const cycle = createBpmn(ctx, "timeCycle");
+  cycle.setAttributeNS(XSI_NS, "xsi:type", `${ctx.bpmnPrefix ? `${ctx.bpmnPrefix}:` : ""}tFormalExpression`);
+  cycle.textContent = expression;
+  timer.appendChild(cycle);
+  ctx.dirty = true;
+}
+
+/** Timer of a wait step or of a boundary event on a task: a calendar date expression when it counts in a business calendar */
+function syncWaitTimer(ctx: MergeContext, el: Element, expression: string | undefined, calendarRef: string | undefined) {
+  const calendar = expression !== undefined && firstChild(el, "timerEventDefinition") ? calendarTimer(expression, calendarRef, ctx.calendarBean) : null;
+  if (calendar) syncTimerDefinition(ctx, el, calendar);
+  else syncTimer(ctx, el, expression);
+}
+
+function ensureEventDefinition(ctx: MergeContext, el: Element, eventType: string) {
+  const defs = Array.from(el.children).filter(c => lname(c).endsWith("EventDefinition"));
+  const wanted = eventType === "generic" || eventType === "none" ? null : `${eventType === "compensate" ? "compensate" : eventType}EventDefinition`;
+  if (defs.length === (wanted ? 1 : 0) && (!wanted || lname(defs[0]) === wanted)) return;
+  defs.forEach(d => el.removeChild(d));
+  if (wanted) el.appendChild(createBpmn(ctx, wanted));
+  ctx.dirty = true;
+}
+
+/** Swap an element for one with a different tag, keeping its id and flow references. */
+function replaceTag(ctx: MergeContext, el: Element, tag: string): Element {
+  const fresh = createBpmn(ctx, tag);
+  fresh.setAttribute("id", el.getAttribute("id")!);
+  for (const c of Array.from(el.children)) {
+    if (["incoming", "outgoing", "documentation"].includes(lname(c))) fresh.appendChild(c);
+  }
+  el.parentNode!.replaceChild(fresh, el);
+  register(ctx, fresh);
+  ctx.dirty = true;
+  return fresh;
+}
+
+function syncDecisionRef(ctx: MergeContext, el: Element, tech: Camunda7Tech) {
+  setCamundaAttr(ctx, el, "decisionRef", tech.decisionRef);
+  setCamundaAttr(ctx, el, "decisionRefBinding", tech.decisionRefBinding);
+  setCamundaAttr(ctx, el, "decisionRefVersion", tech.decisionRefBinding === "version" ? tech.decisionRefVersion : undefined);
+  setCamundaAttr(ctx, el, "decisionRefVersionTag", tech.decisionRefBinding === "versionTag" ? tech.decisionRefVersion : undefined);
+  setCamundaAttr(ctx, el, "mapDecisionResult", tech.mapDecisionResult);
+  setCamundaAttr(ctx, el, "resultVariable", tech.resultVariable);
+}
+
+function syncStepElement(ctx: MergeContext, el: Element, step: Step): Element {
+  if (!EXPECTED_TAGS[step.type].includes(lname(el))) el = replaceTag(ctx, el, DEFAULT_TAG[step.type]);
+  // Linking a decision turns a task into a business rule task
+  if (step.type === "automation" && step.tech?.decisionRef && lname(el) !== "businessRuleTask" && lname(el) !== "subProcess") {
+    el = replaceTag(ctx, el, "businessRuleTask");
+  }
+  const tag = lname(el);
+  const tech = step.tech ?? {};
+  setAttr(ctx, el, "name", step.name);
+  syncDocumentation(ctx, el, step.description);
+  setCamundaAttr(ctx, el, "asyncBefore", tech.asyncBefore ? "true" : undefined);
+  setCamundaAttr(ctx, el, "asyncAfter", tech.asyncAfter ? "true" : undefined);
+
+  switch (step.type) {
+    case "automation":
+      if (tag === "businessRuleTask") {
+        syncDecisionRef(ctx, el, tech);
+      } else if (tag !== "subProcess") {
+        if (tech.implementationType === "external") setCamundaAttr(ctx, el, "type", "external");
+        setCamundaAttr(ctx, el, "topic", tech.topic);
+      }
+      break;
+    case "user":
+      setCamundaAttr(ctx, el, "assignee", step.assignee);
+      setCamundaAttr(ctx, el, "candidateGroups", step.candidateGroups?.join(","));
+      setCamundaAttr(ctx, el, "dueDate", tech.dueDate && calendarDateAttr(tech.dueDate, step.calendarRef, ctx.calendarBean));
+      setCamundaAttr(ctx, el, "followUpDate", tech.followUpDate && calendarDateAttr(tech.followUpDate, step.calendarRef, ctx.calendarBean));
+      syncQuestionnaireFormKey(ctx, el, step.formRef);
+      break;
+    case "decision":
+      break;
+    case "foreach": {
+      let mi = firstChild(el, "multiInstanceLoopCharacteristics");
+      if (!mi) {
+        mi = createBpmn(ctx, "multiInstanceLoopCharacteristics");
+        el.insertBefore(mi, Array.from(el.children).find(c => !["documentation", "extensionElements", "incoming", "outgoing"].includes(lname(c))) ?? null);
+        ctx.dirty = true;
+      }
+      setAttr(ctx, mi, "isSequential", step.isSequential ? "true" : "false");
+      setCamundaAttr(ctx, mi, "collection", step.collectionExpression);
+      setCamundaAttr(ctx, mi, "elementVariable", step.elementVariable);
+      break;
+    }
+    case "callActivity":
+      setAttr(ctx, el, "calledElement", step.calledElement);
+      syncMappings(ctx, el, "in", step.inMappings ?? []);
+      syncMappings(ctx, el, "out", step.outMappings ?? []);
+      break;
+    case "intermediateEvent":
+      if (tag !== "boundaryEvent") ensureEventDefinition(ctx, el, step.eventSubType);
+      syncWaitTimer(ctx, el, step.timerExpression, step.calendarRef);
+      break;
+  }
+
+  if (step.type !== "decision" && step.type !== "intermediateEvent" && !isGatewayBlock(step)) {
+    syncInputOutput(ctx, el, [...(tech.inputParameters ?? []), ...moduleConfigToIoParams(step)], tech.outputParameters ?? []);
+  }
+  syncProperty(ctx, el, SLA_PROPERTY, step.sla && JSON.stringify(step.sla));
+  // Timer waits carry their calendar in the expression; tasks keep it as a property like the generator
+  if (step.type === "automation" || step.type === "user") syncProperty(ctx, el, CALENDAR_PROPERTY, step.calendarRef);
+  return el;
+}
+
+// ─── New element placement ────────────────────────────────────────────────────
+
+function isGatewayBlock(step: Step): step is GatewayBlockStep {
+  return step.type === "parallel" || step.type === "inclusive";
+}
+
+function sizeOf(step: Step): { width: number; height: number } {
+  if (step.type === "decision" || isGatewayBlock(step)) return { width: GW_SIZE, height: GW_SIZE };
+  if (step.type === "intermediateEvent") return { width: EVT_SIZE, height: EVT_SIZE };
+  return { width: TASK_W, height: TASK_H };
+}
+
+/** Place a new shape down-right of its predecessor so it never sits on top of original shapes. */
+function layoutNew(ctx: MergeContext, bpmnId: string, step: Step, prevId: string | null, row = 0) {
+  const size = sizeOf(step);
+  const prev = prevId ? boundsOf(ctx, prevId) : undefined;
+  if (prev) {
+    addShape(ctx, bpmnId, { x: prev.x + prev.width + GAP, y: prev.y + prev.height + GAP + row * (TASK_H + GAP), ...size });
+    return;
+  }
+  let maxY = 0;
+  for (const b of ctx.plane ? Array.from(ctx.plane.getElementsByTagNameNS(DC_NS, "Bounds")) : []) {
+    maxY = Math.max(maxY, Number(b.getAttribute("y")) + Number(b.getAttribute("height")));
+  }
+  addShape(ctx, bpmnId, { x: 160, y: maxY + GAP * 2, ...size });
+}
+
+function startEventOf(container: Element): Element | undefined { return firstChild(container, "startEvent"); }
+function endEventOf(container: Element): Element | undefined {
+  return childrenByLocalName(container, "endEvent").find(e => !isSlaElementId(e.getAttribute("id") ?? ""));
+}
+
+/** Chain ends of a process/subProcess body; alternative paths have no entry from the start event. */
+function chainEndsOf(container: Element, fromStart: boolean): ChainEnds {
+  return {
+    entryId: fromStart ? startEventOf(container)?.getAttribute("id") ?? null : null,
+    exitId: endEventOf(container)?.getAttribute("id") ?? null,
+  };
+}
+
+/**
+ * Splice a new element into the flow between its IR predecessor and successor.
+ * `outId` is the element the flow leaves from — the join for gateway blocks, otherwise `id`.
+ */
+function wireNewStep(ctx: MergeContext, container: Element, id: string, outId: string, prevId: string | null, nextId: string | null, ends: ChainEnds) {
+  const sourceId = prevId ?? ends.entryId;
+  if (sourceId) {
+    const outgoing = flowsWhere(container, "sourceRef", sourceId);
+    const source = ctx.byId.get(sourceId);
+    // Splits fan out, so only joins and plain elements have a single flow worth splicing
+    const isSplit = source ? lname(source).endsWith("Gateway") && !isJoinId(ctx, sourceId) : false;
+    const splice = (!prevId ? ends.entryFlow : undefined)
+      ?? (nextId ? outgoing.find(f => f.getAttribute("targetRef") === nextId) : undefined)
+      ?? (!isSplit && outgoing.length === 1 ? outgoing[0] : undefined);
+    if (splice) {
+      const oldTarget = splice.getAttribute("targetRef")!;
+      retargetFlow(ctx, splice, id);
+      addFlow(ctx, container, outId, oldTarget);
+      return;
+    }
+    addFlow(ctx, container, sourceId, id);
+  }
+  const targetId = nextId ?? ends.exitId;
+  if (targetId) addFlow(ctx, container, outId, targetId);
+}
+
+function isJoinId(ctx: MergeContext, id: string): boolean {
+  return Array.from(ctx.joins.values()).includes(id) || Array.from(ctx.blocks.values()).some(b => b.joinId === id);
+}
+
+/** Insert `el` right after `afterId` in document order (or after the container's start event). */
+function insertAfter(ctx: MergeContext, container: Element, el: Element, afterId: string | null) {
+  const prev = afterId ? ctx.byId.get(afterId) : undefined;
+  const anchor = prev?.parentElement === container
+    ? prev.nextElementSibling
+    : (startEventOf(container)?.nextElementSibling ?? firstChild(container, "sequenceFlow"));
+  container.insertBefore(el, anchor ?? null);
+  register(ctx, el);
+  ctx.dirty = true;
+}
+
+/**
+ * Make sure a gateway block has a join of the right kind. A split without one (e.g. a step whose type
+ * was just changed to parallel) gets a new join that takes over the split's current outgoing flows.
+ */
+function ensureJoin(ctx: MergeContext, container: Element, step: GatewayBlockStep, split: Element): Element {
+  const tag = DEFAULT_TAG[step.type];
+  const knownId = ctx.joins.get(step.id) ?? step.joinSource?.bpmnElementId;
+  let join = knownId ? ctx.byId.get(knownId) : undefined;
+  if (join) {
+    if (lname(join) !== tag) join = replaceTag(ctx, join, tag);
+    ctx.joins.set(step.id, join.getAttribute("id")!);
+    return join;
+  }
+  const splitId = split.getAttribute("id")!;
+  join = createBpmn(ctx, tag);
+  const joinId = ctx.byId.has(`${splitId}_join`) ? newId(ctx, "Gateway") : `${splitId}_join`;
+  join.setAttribute("id", joinId);
+  insertAfter(ctx, container, join, splitId);
+  ctx.joins.set(step.id, joinId);
+  const sb = boundsOf(ctx, splitId);
+  const longest = Math.max(1, ...step.branches.map(b => b.steps.length));
+  if (sb) addShape(ctx, joinId, { x: sb.x + GW_SIZE + GAP + longest * (TASK_W + GAP) * 1.5, y: sb.y, width: GW_SIZE, height: GW_SIZE });
+  for (const flow of flowsWhere(container, "sourceRef", splitId)) {
+    const flowId = flow.getAttribute("id")!;
+    removeRef(ctx, splitId, "outgoing", flowId);
+    flow.setAttribute("sourceRef", joinId);
+    addRef(ctx, joinId, "outgoing", flowId);
+    setEdge(ctx, flowId, joinId, flow.getAttribute("targetRef")!);
+  }
+  return join;
+}
+
+/** Sync a parallel/inclusive block: split ↔ branch flows ↔ join, recursing into each branch chain. */
+function syncGatewayBlock(ctx: MergeContext, container: Element, step: GatewayBlockStep, split: Element) {
+  const splitId = split.getAttribute("id")!;
+  const joinId = ensureJoin(ctx, container, step, split).getAttribute("id")!;
+  const outgoing = flowsWhere(container, "sourceRef", splitId);
+  const matched = new Set<Element>();
+  step.branches.forEach((branch, row) => {
+    const flowId = branch.id.startsWith("branch_") ? branch.id.slice("branch_".length) : branch.id;
+    const flow = outgoing.find(f => f.getAttribute("id") === flowId) ?? addFlow(ctx, container, splitId, joinId, branch.label);
+    matched.add(flow);
+    setAttr(ctx, flow, "name", branch.label);
+    setCondition(ctx, flow, step.type === "inclusive" ? branch.condition : undefined);
+    if (step.type === "inclusive" && step.defaultBranchId === branch.id) setAttr(ctx, split, "default", flow.getAttribute("id")!);
+    syncStepList(ctx, container, branch.steps, { entryId: splitId, exitId: joinId, entryFlow: flow, row });
+  });
+  if (step.type !== "inclusive" || !step.defaultBranchId) setAttr(ctx, split, "default", undefined);
+  // Branches removed in the IR: their steps are already gone, drop the leftover split → join flow
+  if (ctx.originalIds.has(splitId)) {
+    for (const f of outgoing) if (!matched.has(f)) removeFlow(ctx, f);
+  }
+}
+
+/** Create a new element in document order, right after its predecessor so importers see it in sequence. */
+function createStepElement(ctx: MergeContext, container: Element, step: Step, prevId: string | null): Element {
+  const el = createBpmn(ctx, DEFAULT_TAG[step.type]);
+  const id = ctx.byId.has(step.id) ? newId(ctx, "Activity") : step.id;
+  el.setAttribute("id", id);
+  if (step.type === "foreach") {
+    const start = createBpmn(ctx, "startEvent");
+    start.setAttribute("id", newId(ctx, "StartEvent"));
+    const end = createBpmn(ctx, "endEvent");
+    end.setAttribute("id", newId(ctx, "EndEvent"));
+    el.appendChild(start);
+    el.appendChild(end);
+    register(ctx, start);
+    register(ctx, end);
+  }
+  insertAfter(ctx, container, el, prevId);
+  ctx.irToBpmn.set(step.id, id);
+  return el;
+}
+
+// ─── Container walk ───────────────────────────────────────────────────────────
+
+function bpmnIdOf(step: Step): string { return step.source?.bpmnElementId ?? step.id; }
+
+/**
+ * Follow the original steps of a chain the IR has reordered: the flows linking them (entry, between
+ * steps, exit) are re-pointed to the IR order and the elements are moved into that document order,
+ * which is the order the importer reads them back in. Chains the walk cannot follow — a decision with
+ * several ways forward, a step moved in from elsewhere — are left as they are.
+ */
+function relinkReordered(ctx: MergeContext, container: Element, steps: Step[], ends: ChainEnds) {
+  const existing = steps.filter(s => ctx.originalIds.has(bpmnIdOf(s)) && ctx.byId.get(bpmnIdOf(s))?.parentElement === container);
+  if (existing.length < 2) return;
+  const ids = existing.map(bpmnIdOf);
+  const outOf = new Map(existing.map(s => [bpmnIdOf(s), isGatewayBlock(s) ? ctx.blocks.get(bpmnIdOf(s))?.joinId ?? s.joinSource?.bpmnElementId : bpmnIdOf(s)]));
+  const outIds = new Set(outOf.values());
+  if (outIds.has(undefined)) return;
+  const targets = new Set(ends.exitId ? [...ids, ends.exitId] : ids);
+  const linksFrom = (id: string) => flowsWhere(container, "sourceRef", id).filter(f => targets.has(f.getAttribute("targetRef")!));
+
+  const links: Element[] = [];
+  const order: string[] = [];
+  let current: string | undefined;
+  if (ends.entryId) {
+    const entry = ends.entryFlow ? [ends.entryFlow] : linksFrom(ends.entryId);
+    if (entry.length !== 1) return;
+    links.push(entry[0]);
+    current = entry[0].getAttribute("targetRef")!;
+  } else {
+    current = ids.find(id => !flowsWhere(container, "targetRef", id).some(f => outIds.has(f.getAttribute("sourceRef")!)));
+  }
+  while (current && current !== ends.exitId) {
+    if (!outOf.has(current) || order.includes(current)) return;
+    order.push(current);
+    const next = linksFrom(outOf.get(current)!);
+    if (next.length === 0 && !ends.exitId) break;
+    if (next.length !== 1) return;
+    links.push(next[0]);
+    current = next[0].getAttribute("targetRef")!;
+  }
+  if (order.length !== ids.length || order.every((id, i) => id === ids[i])) return;
+
+  // Without an entry the chain is reached from elsewhere (a decision branch): follow the new head
+  if (!ends.entryId) {
+    for (const f of flowsWhere(container, "targetRef", order[0])) if (!links.includes(f)) retargetFlow(ctx, f, ids[0]);
+  }
+  const shift = ends.entryId ? 0 : 1;
+  links.forEach((flow, k) => {
+    const j = k + shift;
+    const src = j === 0 ? ends.entryId! : outOf.get(ids[j - 1])!;
+    relinkFlow(ctx, flow, src, j < ids.length ? ids[j] : ends.exitId!);
+  });
+
+  // Same document slots, new occupants
+  const elements = ids.map(id => ctx.byId.get(id)!);
+  const slots = [...elements]
+    .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1))
+    .map(el => {
+      const slot = ctx.doc.createComment("");
+      container.replaceChild(slot, el);
+      return slot;
+    });
+  slots.forEach((slot, i) => container.replaceChild(elements[i], slot));
+  ctx.dirty = true;
+}
+
+function syncStepList(ctx: MergeContext, container: Element, steps: Step[], ends: ChainEnds) {
+  relinkReordered(ctx, container, steps, ends);
+  let prevId: string | null = null;
+  steps.forEach((step, i) => {
+    const existing = ctx.byId.get(bpmnIdOf(step));
+    let el: Element;
+    if (existing && ctx.originalIds.has(bpmnIdOf(step))) {
+      el = syncStepElement(ctx, existing, step);
+      if (isGatewayBlock(step)) syncGatewayBlock(ctx, container, step, el);
+    } else {
+      el = createStepElement(ctx, container, step, prevId ?? ends.entryId);
+      syncStepElement(ctx, el, step);
+      const id = el.getAttribute("id")!;
+      layoutNew(ctx, id, step, prevId ?? ends.entryId, prevId ? 0 : ends.row);
+      // A new block starts as split → join so the chain can be wired through the join
+      const outId = isGatewayBlock(step) ? ensureJoin(ctx, container, step, el).getAttribute("id")! : id;
+      const next = steps.slice(i + 1).map(bpmnIdOf).find(sid => ctx.byId.has(sid) && ctx.originalIds.has(sid)) ?? null;
+      wireNewStep(ctx, container, id, outId, prevId, next, ends);
+      if (isGatewayBlock(step)) syncGatewayBlock(ctx, container, step, el);
+    }
+    if (step.type === "foreach") syncStepList(ctx, el, step.steps, chainEndsOf(el, true));
+    prevId = isGatewayBlock(step) ? ctx.joins.get(step.id) ?? null : el.getAttribute("id");
+  });
+}
+
+function syncDecisionFlows(ctx: MergeContext, step: DecisionStep) {
+  const gwId = ctx.irToBpmn.get(step.id) ?? bpmnIdOf(step);
+  const gw = ctx.byId.get(gwId);
+  const container = gw?.parentElement;
+  if (!gw || !container) return;
+  const outgoing = flowsWhere(container, "sourceRef", gwId);
+  const matched = new Set<Element>();
+  for (const branch of step.branches) {
+    const flowId = branch.id.startsWith("branch_") ? branch.id.slice("branch_".length) : branch.id;
+    const target = branch.targetStepId ? (ctx.irToBpmn.get(branch.targetStepId) ?? branch.targetStepId) : undefined;
+    let flow = outgoing.find(f => f.getAttribute("id") === flowId);
+    if (!flow && target && ctx.byId.has(target)) {
+      flow = addFlow(ctx, container, gwId, target, branch.label, branch.condition);
+    }
+    if (!flow) continue;
+    matched.add(flow);
+    setAttr(ctx, flow, "name", branch.label);
+    setCondition(ctx, flow, branch.condition);
+    if (target && ctx.byId.has(target)) retargetFlow(ctx, flow, target);
+    if (step.defaultBranchId === branch.id) setAttr(ctx, gw, "default", flow.getAttribute("id")!);
+  }
+  if (!step.defaultBranchId) setAttr(ctx, gw, "default", undefined);
+  // Branches removed in the IR: drop their flows, but only those the importer could see as branches
+  // (listed in the original gateway's <outgoing> refs)
+  if (ctx.originalIds.has(gwId)) {
+    const declared = new Set(childrenByLocalName(gw, "outgoing").map(o => o.textContent?.trim()));
+    for (const f of outgoing) if (!matched.has(f) && declared.has(f.getAttribute("id") ?? "")) removeFlow(ctx, f);
+  }
+}
+
+function syncBoundaryEvents(ctx: MergeContext, step: Step) {
+  const hostId = ctx.irToBpmn.get(step.id) ?? bpmnIdOf(step);
+  const host = ctx.byId.get(hostId);
+  if (!host) return;
+  const container = host.parentElement!;
+  (step.boundaryEvents ?? []).forEach((be: BoundaryEvent, i) => {
+    const id = be.source?.bpmnElementId ?? be.id;
+    let el = ctx.byId.get(id);
+    if (!el) {
+      el = createBpmn(ctx, "boundaryEvent");
+      el.setAttribute("id", id);
+      el.setAttribute("attachedToRef", hostId);
+      container.insertBefore(el, firstChild(container, "sequenceFlow") ?? null);
+      register(ctx, el);
+      ensureEventDefinition(ctx, el, be.eventType);
+      const hb = boundsOf(ctx, hostId);
+      if (hb) addShape(ctx, id, { x: hb.x + hb.width - EVT_SIZE - i * (EVT_SIZE + 4), y: hb.y + hb.height - EVT_SIZE / 2, width: EVT_SIZE, height: EVT_SIZE });
+    }
+    setAttr(ctx, el, "name", be.name);
+    setAttr(ctx, el, "cancelActivity", be.cancelActivity === false ? "false" : (el.hasAttribute("cancelActivity") ? "true" : undefined));
+    if (be.eventType === "timer") syncWaitTimer(ctx, el, be.expression, step.calendarRef);
+  });
+}
+
+function forEachStep(steps: Step[], fn: (s: Step) => void) {
+  for (const s of steps) {
+    fn(s);
+    if (s.type === "foreach") forEachStep(s.steps, fn);
+    if (isGatewayBlock(s)) s.branches.forEach(b => forEachStep(b.steps, fn));
+  }
+}
+
+function allStagesOf(ir: CaseIR): Stage[] { return [...ir.stages, ...(ir.alternativePaths ?? [])]; }
+
+/** Top-level step lists: every stage group plus every event sub-process body. */
+function allStepListsOf(ir: CaseIR): Step[][] {
+  return [...allStagesOf(ir).flatMap(st => st.groups.map(g => g.steps)), ...(ir.eventSubProcesses ?? []).map(e => e.steps)];
+}
+
+/** Remove a whole split→join block, reconnecting its predecessors to whatever followed the join. */
+function removeBlock(ctx: MergeContext, block: GatewayBlock) {
+  const split = ctx.byId.get(block.splitId);
+  const join = ctx.byId.get(block.joinId);
+  const container = split?.parentElement;
+  if (!split || !join || !container) return;
+  const after = flowsWhere(container, "sourceRef", block.joinId);
+  const successor = after.length === 1 ? after[0].getAttribute("targetRef") : null;
+  for (const f of flowsWhere(container, "targetRef", block.splitId)) {
+    if (successor) retargetFlow(ctx, f, successor); else removeFlow(ctx, f);
+  }
+  [...flowsWhere(container, "sourceRef", block.splitId), ...flowsWhere(container, "targetRef", block.joinId), ...after].forEach(f => removeFlow(ctx, f));
+  for (const el of [split, join]) {
+    removeDi(ctx, el.getAttribute("id")!);
+    removeNode(ctx, el);
+  }
+}
+
+/** Remove IR-owned elements that no longer exist in the IR, reconnecting single-exit nodes. */
+function removeDeleted(ctx: MergeContext, keep: Set<string>) {
+  const blockGateways = new Set<string>();
+  for (const block of ctx.blocks.values()) {
+    blockGateways.add(block.splitId);
+    blockGateways.add(block.joinId);
+    if (!keep.has(block.splitId)) removeBlock(ctx, block);
+  }
+  const owned = (el: Element) => IR_OWNED_TAGS.has(lname(el)) || blockGateways.has(el.getAttribute("id") ?? "");
+  const doomed = Array.from(ctx.byId.values()).filter(el => owned(el) && !keep.has(el.getAttribute("id") ?? ""));
+  for (const el of doomed) {
+    const id = el.getAttribute("id")!;
+    const container = el.parentElement;
+    if (!container) continue;
+    const incoming = flowsWhere(container, "targetRef", id);
+    const outgoing = flowsWhere(container, "sourceRef", id);
+    if (outgoing.length === 1 && lname(el) !== "boundaryEvent") {
+      const successor = outgoing[0].getAttribute("targetRef")!;
+      incoming.forEach(f => retargetFlow(ctx, f, successor));
+      removeFlow(ctx, outgoing[0]);
+    } else {
+      [...incoming, ...outgoing].forEach(f => removeFlow(ctx, f));
+    }
+    // Boundary events attached to the removed element go with it
+    for (const be of Array.from(container.children).filter(c => lname(c) === "boundaryEvent" && c.getAttribute("attachedToRef") === id)) {
+      flowsWhere(container, "sourceRef", be.getAttribute("id")!).forEach(f => removeFlow(ctx, f));
+      removeDi(ctx, be.getAttribute("id")!);
+      removeNode(ctx, be);
+    }
+    // Shapes of a removed sub-process's contents (start/end events, inner flows) go too
+    for (const d of Array.from(el.getElementsByTagName("*"))) {
+      const did = d.getAttribute("id");
+      if (did && d.namespaceURI === BPMN_NS) { removeDi(ctx, did); ctx.byId.delete(did); }
+    }
+    removeDi(ctx, id);
+    removeNode(ctx, el);
+  }
+  // Associations (e.g. compensation links) whose ends were removed
+  for (const assoc of Array.from(ctx.doc.getElementsByTagNameNS(BPMN_NS, "association"))) {
+    if (ctx.byId.has(assoc.getAttribute("sourceRef") ?? "") && ctx.byId.has(assoc.getAttribute("targetRef") ?? "")) continue;
+    removeDi(ctx, assoc.getAttribute("id") ?? "");
+    removeNode(ctx, assoc);
+  }
+}
+
+// ─── Compensation ─────────────────────────────────────────────────────────────
+
+/** Sync a step's compensation boundary event, isForCompensation activity and the association between them. */
+function syncCompensation(ctx: MergeContext, step: Step) {
+  const handler = step.compensation;
+  const hostId = ctx.irToBpmn.get(step.id) ?? bpmnIdOf(step);
+  const host = ctx.byId.get(hostId);
+  if (!handler || !host?.parentElement) return;
+  const container = host.parentElement;
+  const hb = boundsOf(ctx, hostId);
+
+  const beId = handler.boundarySource?.bpmnElementId ?? `${hostId}_compensation`;
+  let be = ctx.byId.get(beId);
+  if (!be) {
+    be = createBpmn(ctx, "boundaryEvent");
+    be.setAttribute("id", beId);
+    be.setAttribute("attachedToRef", hostId);
+    be.appendChild(createBpmn(ctx, "compensateEventDefinition"));
+    container.insertBefore(be, firstChild(container, "sequenceFlow") ?? null);
+    register(ctx, be);
+    if (hb) addShape(ctx, beId, { x: hb.x + hb.width - EVT_SIZE - 8, y: hb.y + hb.height - EVT_SIZE / 2, width: EVT_SIZE, height: EVT_SIZE });
+    ctx.dirty = true;
+  }
+
+  const activity = handler.activity;
+  const actId = bpmnIdOf(activity);
+  let act = ctx.byId.get(actId);
+  if (!act) {
+    act = createBpmn(ctx, DEFAULT_TAG[activity.type]);
+    act.setAttribute("id", actId);
+    container.insertBefore(act, firstChild(container, "sequenceFlow") ?? null);
+    register(ctx, act);
+    if (hb) addShape(ctx, actId, { x: hb.x + hb.width + GAP / 2, y: hb.y + hb.height + GAP, width: TASK_W, height: TASK_H });
+  }
+  act = syncStepElement(ctx, act, activity);
+  setAttr(ctx, act, "isForCompensation", "true");
+
+  const linked = Array.from(container.children).some(c => lname(c) === "association" && c.getAttribute("sourceRef") === beId && c.getAttribute("targetRef") === actId);
+  if (linked) return;
+  const assoc = createBpmn(ctx, "association");
+  const assocId = newId(ctx, "Association");
+  assoc.setAttribute("id", assocId);
+  assoc.setAttribute("associationDirection", "One");
+  assoc.setAttribute("sourceRef", beId);
+  assoc.setAttribute("targetRef", actId);
+  container.appendChild(assoc);
+  register(ctx, assoc);
+  setEdge(ctx, assocId, beId, actId);
+  ctx.dirty = true;
+}
+
+// ─── SLA ──────────────────────────────────────────────────────────────────────
+
+/** Keep a value (the explicit SLA policy, the step's calendar) as a camunda:property so a re-import restores it. */
+function syncProperty(ctx: MergeContext, el: Element, name: string, value: string | undefined) {
+  const ext = firstChild(el, "extensionElements");
+  const props = ext ? firstChild(ext, "properties") : undefined;
+  const prop = props ? childrenByLocalName(props, "property").find(p => p.getAttribute("name") === name) : undefined;
+  if (value === undefined) {
+    if (!prop) return;
+    props!.removeChild(prop);
+    if (!props!.children.length) props!.parentNode?.removeChild(props!);
+    ctx.dirty = true;
+    return;
+  }
+  if (prop) { setAttr(ctx, prop, "value", value); return; }
+  let container = props;
+  if (!container) {
+    container = ctx.doc.createElementNS(CAMUNDA_NS, `${ctx.camundaPrefix}:properties`);
+    extensionElements(ctx, el).appendChild(container);
+  }
+  const created = ctx.doc.createElementNS(CAMUNDA_NS, `${ctx.camundaPrefix}:property`);
+  created.setAttribute("name", name);
+  created.setAttribute("value", value);
+  container.appendChild(created);
+  ctx.dirty = true;
+}
+
+/** Set the timer definition to exactly `timer`, switching the expression element's tag when it differs. */
+function syncTimerDefinition(ctx: MergeContext, el: Element, timer: { type: string; expression: string }) {
+  let def = firstChild(el, "timerEventDefinition");
+  if (!def) {
+    def = createBpmn(ctx, "timerEventDefinition");
+    el.appendChild(def);
+    ctx.dirty = true;
+  }
+  const current = def.children[0];
+  if (current && lname(current) === timer.type) { setText(ctx, current, timer.expression); return; }
+  if (current) def.removeChild(current);
+  const expr = createBpmn(ctx, timer.type);
+  expr.setAttributeNS(XSI_NS, "xsi:type", `${ctx.bpmnPrefix ? `${ctx.bpmnPrefix}:` : ""}tFormalExpression`);
+  expr.textContent = timer.expression;
+  def.appendChild(expr);
+  ctx.dirty = true;
+}
+
+function slaTimersFor(hostId: string, hostName: string, policy: SlaPolicy | null, calendars: BusinessCalendar[], calendarBean: boolean): SlaTimerSpec[] {
+  return policy ? compileSla(hostId, hostName, policy, calendars, calendarBean) : [];
+}
+
+/** Sync the SLA timers on `hostId`: boundary event → SLA worker task → end event per milestone. */
+function syncSla(ctx: MergeContext, hostId: string, timers: SlaTimerSpec[]) {
+  const host = ctx.byId.get(hostId);
+  if (!timers.length || !host?.parentElement) return;
+  const container = host.parentElement;
+  const hb = boundsOf(ctx, hostId);
+  const ensure = (id: string, tag: string, bounds: Bounds | undefined): Element => {
+    let el = ctx.byId.get(id);
+    if (!el) {
+      el = createBpmn(ctx, tag);
+      el.setAttribute("id", id);
+      container.insertBefore(el, firstChild(container, "sequenceFlow") ?? null);
+      register(ctx, el);
+      if (bounds) addShape(ctx, id, bounds);
+      ctx.dirty = true;
+    }
+    return el;
+  };
+  const link = (srcId: string, tgtId: string) => {
+    if (!flowsWhere(container, "sourceRef", srcId).some(f => f.getAttribute("targetRef") === tgtId)) addFlow(ctx, container, srcId, tgtId);
+  };
+
+  timers.forEach((t, k) => {
+    const top = hb ? hb.y + hb.height + GAP : 0;
+    const taskX = hb ? hb.x + k * (TASK_W + GAP / 2) : 0;
+    const be = ensure(t.id, "boundaryEvent", hb && { x: hb.x + 4 + k * (EVT_SIZE / 2 + 4), y: hb.y + hb.height - EVT_SIZE / 2, width: EVT_SIZE, height: EVT_SIZE });
+    setAttr(ctx, be, "name", t.name);
+    setAttr(ctx, be, "attachedToRef", hostId);
+    setAttr(ctx, be, "cancelActivity", "false");
+    syncTimerDefinition(ctx, be, t.timer);
+
+    const task = ensure(t.task.id, "serviceTask", hb && { x: taskX, y: top, width: TASK_W, height: TASK_H });
+    setAttr(ctx, task, "name", t.task.name);
+    setCamundaAttr(ctx, task, "type", "external");
+    setCamundaAttr(ctx, task, "topic", t.task.topic);
+    syncInputOutput(ctx, task, t.task.inputs, []);
+
+    ensure(t.endId, "endEvent", hb && { x: taskX + (TASK_W - EVT_SIZE) / 2, y: top + TASK_H + GAP, width: EVT_SIZE, height: EVT_SIZE });
+    link(t.id, t.task.id);
+    link(t.task.id, t.endId);
+  });
+}
+
+/** SLA end events are not IR-owned — drop the ones whose timer went away with the policy. */
+function removeStaleSlaEnds(ctx: MergeContext, keep: Set<string>) {
+  const stale = Array.from(ctx.byId.values()).filter(el => {
+    const id = el.getAttribute("id") ?? "";
+    return lname(el) === "endEvent" && isSlaElementId(id) && !keep.has(id);
+  });
+  for (const el of stale) {
+    if (el.parentElement) flowsWhere(el.parentElement, "targetRef", el.getAttribute("id")!).forEach(f => removeFlow(ctx, f));
+    removeDi(ctx, el.getAttribute("id")!);
+    removeNode(ctx, el);
+  }
+}
+
+// ─── Event sub-processes ──────────────────────────────────────────────────────
+
+function syncEspTrigger(ctx: MergeContext, processEl: Element, start: Element, esp: EventSubProcess) {
+  ensureEventDefinition(ctx, start, esp.triggerType === "compensation" ? "compensate" : esp.triggerType);
+  setAttr(ctx, start, "isInterrupting", esp.interrupting === false ? "false" : (start.hasAttribute("isInterrupting") ? "true" : undefined));
+  const def = firstChild(start, eventDefinitionTag(esp.triggerType));
+  if (!def || esp.expression === undefined) return;
+  if (esp.triggerType === "timer") { syncTimer(ctx, start, esp.expression); return; }
+  if (esp.triggerType === "conditional") {
+    let cond = firstChild(def, "condition");
+    if (!cond) {
+      cond = createBpmn(ctx, "condition");
+      cond.setAttributeNS(XSI_NS, "xsi:type", `${ctx.bpmnPrefix ? `${ctx.bpmnPrefix}:` : ""}tFormalExpression`);
+      def.appendChild(cond);
+      ctx.dirty = true;
+    }
+    setText(ctx, cond, esp.expression);
+    return;
+  }
+  const ref = EVENT_ROOT_REFS[esp.triggerType];
+  if (!ref || !esp.expression) return;
+  const refId = def.getAttribute(ref.refAttr);
+  let root = refId ? ctx.byId.get(refId) : undefined;
+  if (!root || lname(root) !== ref.tag) {
+    root = createBpmn(ctx, ref.tag);
+    root.setAttribute("id", newId(ctx, ref.tag.charAt(0).toUpperCase() + ref.tag.slice(1)));
+    root.setAttribute("name", esp.expression);
+    processEl.parentNode!.insertBefore(root, processEl);
+    register(ctx, root);
+    setAttr(ctx, def, ref.refAttr, root.getAttribute("id")!);
+  }
+  setAttr(ctx, root, ref.keyAttr, esp.expression);
+}
+
+/** Create an empty event sub-process (start → end) boxed below the existing diagram. */
+function createEventSubProcess(ctx: MergeContext, processEl: Element, esp: EventSubProcess): Element {
+  const el = createBpmn(ctx, "subProcess");
+  el.setAttribute("id", ctx.byId.has(esp.id) ? newId(ctx, "EventSubProcess") : esp.id);
+  el.setAttribute("triggeredByEvent", "true");
+  const start = createBpmn(ctx, "startEvent");
+  start.setAttribute("id", esp.startSource?.bpmnElementId && !ctx.byId.has(esp.startSource.bpmnElementId) ? esp.startSource.bpmnElementId : newId(ctx, "StartEvent"));
+  const end = createBpmn(ctx, "endEvent");
+  end.setAttribute("id", newId(ctx, "EndEvent"));
+  el.appendChild(start);
+  el.appendChild(end);
+  processEl.insertBefore(el, firstChild(processEl, "sequenceFlow") ?? null);
+  [el, start, end].forEach(e => register(ctx, e));
+  ctx.dirty = true;
+
+  let maxY = 0;
+  for (const b of ctx.plane ? Array.from(ctx.plane.getElementsByTagNameNS(DC_NS, "Bounds")) : []) {
+    maxY = Math.max(maxY, Number(b.getAttribute("y")) + Number(b.getAttribute("height")));
+  }
+  // New inner steps are laid out diagonally from the start event, so size the box for that
+  const n = esp.steps.length;
+  const box = { x: 160, y: maxY + GAP * 2, width: GAP * 3 + EVT_SIZE * 2 + n * (TASK_W + GAP), height: GAP * 2 + EVT_SIZE + n * (TASK_H + GAP) };
+  const elId = el.getAttribute("id")!;
+  addShape(ctx, elId, box);
+  shapeFor(ctx, elId)?.setAttribute("isExpanded", "true");
+  addShape(ctx, start.getAttribute("id")!, { x: box.x + GAP, y: box.y + GAP, width: EVT_SIZE, height: EVT_SIZE });
+  addShape(ctx, end.getAttribute("id")!, { x: box.x + box.width - GAP - EVT_SIZE, y: box.y + box.height - GAP - EVT_SIZE, width: EVT_SIZE, height: EVT_SIZE });
+  addFlow(ctx, el, start.getAttribute("id")!, end.getAttribute("id")!);
+  return el;
+}
+
+function syncEventSubProcesses(ctx: MergeContext, processEl: Element, ir: CaseIR) {
+  for (const esp of ir.eventSubProcesses ?? []) {
+    const existing = esp.source?.bpmnElementId ? ctx.byId.get(esp.source.bpmnElementId) : undefined;
+    const el = existing && ctx.originalIds.has(esp.source!.bpmnElementId!) ? existing : createEventSubProcess(ctx, processEl, esp);
+    setAttr(ctx, el, "name", esp.name);
+    syncDocumentation(ctx, el, esp.description);
+    const start = startEventOf(el);
+    if (start) syncEspTrigger(ctx, processEl, start, esp);
+    syncStepList(ctx, el, esp.steps, chainEndsOf(el, true));
+  }
+}
+
+function syncProcess(ctx: MergeContext, processEl: Element, ir: CaseIR) {
+  setAttr(ctx, processEl, "name", ir.name);
+  const p = ir.processProperties ?? {};
+  if (p.isExecutable !== undefined) setAttr(ctx, processEl, "isExecutable", String(p.isExecutable));
+  setCamundaAttr(ctx, processEl, "versionTag", p.versionTag);
+  setCamundaAttr(ctx, processEl, "historyTimeToLive", p.historyTimeToLive);
+  setCamundaAttr(ctx, processEl, "candidateStarterGroups", p.candidateStarterGroups);
+  setCamundaAttr(ctx, processEl, "candidateStarterUsers", p.candidateStarterUsers);
+  setCamundaAttr(ctx, processEl, "jobPriority", p.jobPriority);
+  setCamundaAttr(ctx, processEl, "taskPriority", p.taskPriority);
+}
+
+function syncEvents(ctx: MergeContext, ir: CaseIR) {
+  const start = ir.metadata.originalStartEventId ? ctx.byId.get(ir.metadata.originalStartEventId) : undefined;
+  if (start) {
+    setAttr(ctx, start, "name", ir.trigger.name);
+    ensureEventDefinition(ctx, start, ir.trigger.type === "manual" ? "none" : ir.trigger.type);
+    if (ir.trigger.type === "timer") syncTimer(ctx, start, ir.trigger.expression);
+  }
+  const end = ir.metadata.originalEndEventId ? ctx.byId.get(ir.metadata.originalEndEventId) : undefined;
+  if (end) {
+    setAttr(ctx, end, "name", ir.endEvent.name);
+    ensureEventDefinition(ctx, end, ir.endEvent.eventType);
+  }
+}
+
+// ─── Main entry ───────────────────────────────────────────────────────────────
+
+export function mergeBpmn(ir: CaseIR, calendars: BusinessCalendar[] = [], calendarBean = false): string {
+  const original = ir.metadata.originalBpmnXml;
+  if (!original) throw new Error("mergeBpmn requires metadata.originalBpmnXml");
+  const doc = new DOMParser().parseFromString(original, "text/xml");
+  if (doc.querySelector("parsererror")) throw new Error("Original BPMN XML could not be parsed");
+
+  const processEl = Array.from(doc.getElementsByTagNameNS(BPMN_NS, "process"))[0];
+  if (!processEl) throw new Error("No <process> element found in original BPMN XML");
+
+  const byId = new Map<string, Element>();
+  for (const el of Array.from(doc.getElementsByTagName("*"))) {
+    const id = el.getAttribute("id");
+    if (id && el.namespaceURI === BPMN_NS) byId.set(id, el);
+  }
+  const planes = Array.from(doc.getElementsByTagNameNS(BPMNDI_NS, "BPMNPlane"));
+  const ctx: MergeContext = {
+    doc,
+    bpmnPrefix: processEl.prefix,
+    camundaPrefix: doc.documentElement.lookupPrefix(CAMUNDA_NS) ?? "camunda",
+    plane: planes.find(p => p.getAttribute("bpmnElement") === processEl.getAttribute("id")) ?? planes[0] ?? null,
+    byId,
+    irToBpmn: new Map(),
+    originalIds: new Set(byId.keys()),
+    blocks: new Map(),
+    joins: new Map(),
+    calendarBean,
+    dirty: false,
+    counter: 0,
+  };
+
+  syncProcess(ctx, processEl, ir);
+  syncEvents(ctx, ir);
+
+  // Everything the IR still references
+  const keep = new Set<string>();
+  const keepSla = (timers: SlaTimerSpec[]) => timers.forEach(t => [t.id, t.task.id, t.endId].forEach(id => keep.add(id)));
+  const rules = ir.businessRules ?? [];
+  for (const stage of allStagesOf(ir)) {
+    if (stage.source?.bpmnElementId) {
+      keep.add(stage.source.bpmnElementId);
+      keepSla(slaTimersFor(stage.source.bpmnElementId, stage.name, effectiveStageSla(stage, rules), calendars, calendarBean));
+    }
+  }
+  for (const esp of ir.eventSubProcesses ?? []) {
+    if (esp.source?.bpmnElementId) keep.add(esp.source.bpmnElementId);
+  }
+  for (const steps of allStepListsOf(ir)) {
+    forEachStep(steps, s => {
+      keep.add(bpmnIdOf(s));
+      keepSla(slaTimersFor(bpmnIdOf(s), s.name, effectiveStepSla(s, rules), calendars, calendarBean));
+      if (isGatewayBlock(s) && s.joinSource?.bpmnElementId) keep.add(s.joinSource.bpmnElementId);
+      for (const be of s.boundaryEvents ?? []) keep.add(be.source?.bpmnElementId ?? be.id);
+      if (s.compensation) {
+        keep.add(bpmnIdOf(s.compensation.activity));
+        if (s.compensation.boundarySource?.bpmnElementId) keep.add(s.compensation.boundarySource.bpmnElementId);
+      }
+    });
+  }
+  // Nested event sub-processes are not modelled in the IR — keep them and everything inside
+  for (const sp of Array.from(processEl.getElementsByTagNameNS(BPMN_NS, "subProcess"))) {
+    if (sp.getAttribute("triggeredByEvent") !== "true" || sp.parentElement === processEl) continue;
+    keep.add(sp.getAttribute("id") ?? "");
+    for (const d of Array.from(sp.getElementsByTagName("*"))) keep.add(d.getAttribute("id") ?? "");
+  }
+  for (const container of [processEl, ...Array.from(processEl.getElementsByTagNameNS(BPMN_NS, "subProcess"))]) {
+    for (const [splitId, block] of findGatewayBlocks(container)) ctx.blocks.set(splitId, block);
+  }
+  removeDeleted(ctx, keep);
+  removeStaleSlaEnds(ctx, keep);
+
+  // Main flow: synthetic stages share the process container, subProcess stages have their own
+  const lanes: Array<{ stages: Stage[]; alt: boolean }> = [{ stages: ir.stages, alt: false }, { stages: ir.alternativePaths ?? [], alt: true }];
+  for (const { stages, alt } of lanes) {
+    let topLevel: Step[] = [];
+    for (const stage of stages) {
+      const stageEl = stage.source?.bpmnElementId ? ctx.byId.get(stage.source.bpmnElementId) : undefined;
+      const steps = stage.groups.flatMap(g => g.steps);
+      if (stageEl && lname(stageEl) === "subProcess") {
+        setAttr(ctx, stageEl, "name", stage.name);
+        syncProperty(ctx, stageEl, SLA_PROPERTY, stage.sla && JSON.stringify(stage.sla));
+        syncStepList(ctx, stageEl, steps, chainEndsOf(stageEl, true));
+      } else {
+        topLevel = [...topLevel, ...steps];
+      }
+    }
+    syncStepList(ctx, processEl, topLevel, chainEndsOf(processEl, !alt));
+  }
+
+  syncEventSubProcesses(ctx, processEl, ir);
+
+  for (const steps of allStepListsOf(ir)) {
+    forEachStep(steps, s => {
+      if (s.type === "decision") syncDecisionFlows(ctx, s);
+      syncBoundaryEvents(ctx, s);
+      syncCompensation(ctx, s);
+      const hostId = ctx.irToBpmn.get(s.id) ?? bpmnIdOf(s);
+      syncSla(ctx, hostId, slaTimersFor(hostId, s.name, effectiveStepSla(s, rules), calendars, calendarBean));
+    });
+  }
+  for (const stage of allStagesOf(ir)) {
+    const stageId = stage.source?.bpmnElementId;
+    if (stageId && lname(ctx.byId.get(stageId) ?? processEl) === "subProcess") {
+      syncSla(ctx, stageId, slaTimersFor(stageId, stage.name, effectiveStageSla(stage, rules), calendars, calendarBean));
+    }
+  }
+
+  if (!ctx.dirty) return original;
+  if (!doc.documentElement.lookupNamespaceURI(ctx.camundaPrefix)) {
+    doc.documentElement.setAttributeNS("http://www.w3.org/2000/xmlns/", `xmlns:${ctx.camundaPrefix}`, CAMUNDA_NS);
+  }
+  const body = new XMLSerializer().serializeToString(doc);
+  const decl = original.match(/^\s*<\?xml[^?]*\?>/)?.[0].trim();
+  return decl && !body.startsWith("<?xml") ? `${decl}\n${body}` : body;
+}
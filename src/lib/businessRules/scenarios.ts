@@ -0,0 +1,89 @@
+/**
+ * Business rule scenarios – evaluates a rule against the facts of each saved scenario
+ * and compares the outcome with the expectation. Shared by the Business Rules panel
+ * and the `test:rules` suite that runs exported Case IR JSON in CI.
+ */
+import type { BusinessRule, BusinessRuleScenario, CaseIR, DataField } from "@/types/caseIr";
+import { detectDialect } from "@/lib/expression/diagnostics";
+import { evaluateExpression, valuesEqual } from "@/lib/expression/evaluate";
+import { ExpressionError, type ExpressionVariables } from "@/lib/expression/types";
+
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenarioError";
+  }
+}
+
+export interface ScenarioResult {
+  passed: boolean;
+  /** Value the rule produced; undefined when evaluation failed */
+  actual?: unknown;
+  error?: string;
+}
+
+export interface RuleSuiteResult {
+  rule: BusinessRule;
+  results: { scenario: BusinessRuleScenario; result: ScenarioResult }[];
+}
+
+function literal(text: string, where: string): unknown {
+  if (!text.trim()) return null;
+  try {
+    return evaluateExpression(text, {}, "feel");
+  } catch (e) {
+    if (e instanceof ExpressionError) throw new ScenarioError(`${where}: ${e.reason}`);
+    throw e;
+  }
+}
+
+/**
+ * Variables for a scenario. Only facts for fields in the data model are set, so a
+ * renamed or deleted field surfaces as an unset variable rather than a stale one.
+ */
+export function scenarioFacts(dataModel: DataField[], scenario: BusinessRuleScenario): ExpressionVariables {
+  const vars: ExpressionVariables = {};
+  for (const field of dataModel) {
+    if (UNSAFE_KEYS.has(field.name) || !Object.prototype.hasOwnProperty.call(scenario.facts, field.name)) continue;
+    vars[field.name] = literal(scenario.facts[field.name], `Fact '${field.name}'`);
+  }
+  return vars;
+}
+
+/**
+ * Value of a rule's expression. `=` (FEEL) and `${...}` (JUEL) are evaluated as usual;
+ * bare text such as `amount > 1000` is taken as a JUEL expression body.
+ */
+export function evaluateRule(rule: BusinessRule, vars: ExpressionVariables): unknown {
+  const text = rule.expression.trim();
+  if (!text) throw new ScenarioError("Rule has no expression");
+  try {
+    return evaluateExpression(detectDialect(text) ? text : `\${${text}}`, vars);
+  } catch (e) {
+    if (e instanceof ExpressionError) throw new ScenarioError(`Expression: ${e.reason}`);
+    throw e;
+  }
+}
+
+export function runScenario(rule: BusinessRule, scenario: BusinessRuleScenario, dataModel: DataField[] = []): ScenarioResult {
+  try {
+    const expected = literal(scenario.expected, "Expected");
+    const actual = evaluateRule(rule, scenarioFacts(dataModel, scenario));
+    return { passed: valuesEqual(actual, expected), actual };
+  } catch (e) {
+    if (!(e instanceof ScenarioError)) throw e;
+    return { passed: false, error: e.message };
+  }
+}
+
+/** Every scenario of every rule that has any */
+export function runRuleSuites(caseIr: CaseIR): RuleSuiteResult[] {
+  return (caseIr.businessRules ?? [])
+    .filter(rule => rule.scenarios?.length)
+    .map(rule => ({
+      rule,
+      results: rule.scenarios!.map(scenario => ({ scenario, result: runScenario(rule, scenario, caseIr.dataModel) })),
+    }));
+}
@@ -0,0 +1,315 @@
+/**
+ * Business calendar calculator – working-time arithmetic in a calendar's own time zone.
+ * "3 business days" moves to the same time of day three working days later; "4 working
+ * hours" counts only time inside working intervals. Weekends, days without hours and
+ * holidays never count.
+ */
+import type { BusinessCalendar, BusinessDuration, WorkingInterval } from "./types";
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+/** The calculator gives up after this many calendar days (ten years) */
+const MAX_DAYS = 3660;
+
+/** Built-in calendar used when nothing else is configured; a stored calendar with the same key replaces it */
+export const STANDARD_CALENDAR: BusinessCalendar = {
+  key: "standard",
+  name: "Standard",
+  timeZone: "UTC",
+  hours: [[], ...Array.from({ length: 5 }, () => [{ start: "09:00", end: "17:00" }]), []],
+  holidays: [],
+};
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function findCalendar(calendars: BusinessCalendar[], key: string | undefined): BusinessCalendar | undefined {
+  if (!key) return undefined;
+  return calendars.find(c => c.key === key) ?? (key === STANDARD_CALENDAR.key ? STANDARD_CALENDAR : undefined);
+}
+
+// ─── Time zones ──────────────────────────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedFields { year: number; month: number; day: number; hour: number; minute: number; second: number }
+
+function zonedFields(instant: Date, timeZone: string): ZonedFields {
+  const parts: Record<string, number> = {};
+  for (const p of formatterFor(timeZone).formatToParts(instant)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+/** Offset of the zone from UTC at an instant, in ms */
+function offsetAt(instant: number, timeZone: string): number {
+  const f = zonedFields(new Date(instant), timeZone);
+  const wall = Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute, f.second);
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Calendar dates are carried as UTC midnights so that date arithmetic never touches the
+ * zone; `zonedInstant` turns one plus a time of day into a real instant.
+ */
+function localDate(instant: Date, timeZone: string): Date {
+  const f = zonedFields(instant, timeZone);
+  return new Date(Date.UTC(f.year, f.month - 1, f.day));
+}
+
+function addDays(day: Date, n: number): Date {
+  return new Date(day.getTime() + n * MS_PER_DAY);
+}
+
+function isoDate(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+/** The instant `ms` after local midnight of `day`; gaps and overlaps resolve like the engine's java.time */
+function zonedInstant(day: Date, ms: number, timeZone: string): Date {
+  const wall = day.getTime() + ms;
+  const guess = wall - offsetAt(wall, timeZone);
+  return new Date(wall - offsetAt(guess, timeZone));
+}
+
+/** "2026-10-19T09:30" read as wall-clock time in `timeZone`; null when malformed */
+export function parseZonedDateTime(text: string, timeZone: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})$/.exec(text.trim());
+  if (!m || !isValidTimeZone(timeZone)) return null;
+  const day = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return zonedInstant(day, (Number(m[4]) * 60 + Number(m[5])) * MS_PER_MINUTE, timeZone);
+}
+
+/** e.g. "Mon 2026-10-19 09:30" in the given zone */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  const f = zonedFields(instant, timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = new Date(Date.UTC(f.year, f.month - 1, f.day));
+  return `${WEEKDAY_LABELS[day.getUTCDay()]} ${isoDate(day)} ${pad(f.hour)}:${pad(f.minute)}`;
+}
+
+// ─── Calendars ───────────────────────────────────────────────────────────────
+
+function minutesOf(hhmm: string): number | null {
+  const m = /^(\d{2}):(\d{2})$/.exec(hhmm.trim());
+  if (!m) return null;
+  const minutes = Number(m[1]) * 60 + Number(m[2]);
+  return Number(m[2]) > 59 || minutes > 24 * 60 ? null : minutes;
+}
+
+/** Intervals of a weekday as [start, end) ms after midnight */
+function spansOf(intervals: WorkingInterval[] | undefined): Array<[number, number]> {
+  return (intervals ?? [])
+    .map(i => [minutesOf(i.start), minutesOf(i.end)] as const)
+    .filter((s): s is readonly [number, number] => s[0] !== null && s[1] !== null && s[1] > s[0])
+    .map(([s, e]) => [s * MS_PER_MINUTE, e * MS_PER_MINUTE]);
+}
+
+/** Keys are safe inside exported expressions: lowercase letters, digits and dashes */
+export function isCalendarKey(key: string): boolean {
+  return /^[a-z][a-z0-9-]*$/.test(key);
+}
+
+/** Why a calendar cannot be used; empty when it is fine */
+export function calendarProblems(cal: BusinessCalendar): string[] {
+  const problems: string[] = [];
+  if (!isCalendarKey(cal.key)) problems.push("Key must start with a letter and use lowercase letters, digits and dashes");
+  if (!cal.name.trim()) problems.push("Name is required");
+  if (!isValidTimeZone(cal.timeZone)) problems.push(`"${cal.timeZone}" is not a known time zone`);
+  if (cal.hours.length !== 7) problems.push("Working hours need an entry for each weekday");
+  cal.hours.forEach((intervals, day) => {
+    let previousEnd = -1;
+    for (const i of intervals) {
+      const start = minutesOf(i.start);
+      const end = minutesOf(i.end);
+      if (start === null || end === null) {
+        problems.push(`${WEEKDAY_LABELS[day]}: working hours must be HH:mm`);
+      } else if (end <= start) {
+        problems.push(`${WEEKDAY_LABELS[day]}: ${i.start}–${i.end} must end after it starts`);
+      } else if (start < previousEnd) {
+        problems.push(`${WEEKDAY_LABELS[day]}: intervals must be in order and must not overlap`);
+      }
+      if (end !== null) previousEnd = Math.max(previousEnd, end);
+    }
+  });
+  if (!cal.hours.some(intervals => spansOf(intervals).length)) problems.push("Add working hours to at least one weekday");
+  const bad = cal.holidays.find(h => !/^\d{4}-\d{2}-\d{2}$/.test(h.date));
+  if (bad) problems.push(`Holiday "${bad.date}" is not a yyyy-mm-dd date`);
+  return problems;
+}
+
+/** e.g. "Mon–Fri 09:00–17:00" or "Mon–Thu 08:00–12:00, 13:00–17:00; Fri 08:00–12:00" */
+export function describeHours(cal: BusinessCalendar): string {
+  const order = [1, 2, 3, 4, 5, 6, 0];
+  const text = (day: number) => (cal.hours[day] ?? []).map(i => `${i.start}–${i.end}`).join(", ");
+  const groups: Array<{ first: number; last: number; hours: string }> = [];
+  for (const day of order) {
+    const hours = text(day);
+    const prev = groups[groups.length - 1];
+    if (prev && prev.hours === hours && order.indexOf(day) === order.indexOf(prev.last) + 1) prev.last = day;
+    else groups.push({ first: day, last: day, hours });
+  }
+  const working = groups.filter(g => g.hours);
+  if (!working.length) return "No working hours";
+  return working
+    .map(g => `${WEEKDAY_LABELS[g.first]}${g.first === g.last ? "" : `–${WEEKDAY_LABELS[g.last]}`} ${g.hours}`)
+    .join("; ");
+}
+
+/** Working time in one week, ignoring holidays */
+export function weeklyWorkingMs(cal: BusinessCalendar): number {
+  return cal.hours.reduce((sum, intervals) => sum + spansOf(intervals).reduce((n, [s, e]) => n + e - s, 0), 0);
+}
+
+/** Average length of a working day */
+export function workingDayMs(cal: BusinessCalendar): number {
+  const days = cal.hours.filter(intervals => spansOf(intervals).length).length;
+  return days ? weeklyWorkingMs(cal) / days : 0;
+}
+
+/** Working time a duration stands for, with business days at their average length */
+export function workingMsOf(d: BusinessDuration, cal: BusinessCalendar): number {
+  return d.days * workingDayMs(cal) + d.ms;
+}
+
+/** Average wall-clock time a business duration takes */
+export function wallClockEstimate(d: BusinessDuration, cal: BusinessCalendar): number {
+  const weekly = weeklyWorkingMs(cal);
+  const days = cal.hours.filter(intervals => spansOf(intervals).length).length;
+  if (!weekly || !days) return d.days * MS_PER_DAY + d.ms;
+  return d.days * 7 * MS_PER_DAY / days + d.ms * 7 * MS_PER_DAY / weekly;
+}
+
+// ─── Durations ───────────────────────────────────────────────────────────────
+
+const ISO_BUSINESS = /^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+const PHRASE = /^(\d+(?:\.\d+)?)\s*(?:business|working)\s+(day|hour|minute)s?$/i;
+
+/**
+ * A business duration from ISO 8601 without years, months or weeks ("P3D", "PT4H30M")
+ * or from phrases like "3 business days", "4 working hours and 30 working minutes".
+ * Null when the text is neither.
+ */
+export function parseBusinessDuration(text: string): BusinessDuration | null {
+  const trimmed = text.trim();
+  const iso = ISO_BUSINESS.exec(trimmed);
+  if (iso) {
+    if (trimmed.toUpperCase() === "P" || /T$/i.test(trimmed)) return null;
+    const [, d, h, m, s] = iso;
+    return {
+      days: Number(d ?? 0),
+      ms: Math.round(Number(h ?? 0) * MS_PER_HOUR + Number(m ?? 0) * MS_PER_MINUTE + Number(s ?? 0) * 1000),
+    };
+  }
+  const terms = trimmed.split(/\s*(?:,|\band\b)\s*/i).filter(Boolean);
+  if (!terms.length) return null;
+  const result: BusinessDuration = { days: 0, ms: 0 };
+  for (const term of terms) {
+    const m = PHRASE.exec(term);
+    if (!m) return null;
+    const n = Number(m[1]);
+    const unit = m[2].toLowerCase();
+    if (unit === "day") {
+      if (!Number.isInteger(n)) return null;
+      result.days += n;
+    } else {
+      result.ms += Math.round(n * (unit === "hour" ? MS_PER_HOUR : MS_PER_MINUTE));
+    }
+  }
+  return result;
+}
+
+/** ISO form of a business duration; unlike wall-clock durations, hours never roll over into days */
+export function formatBusinessDuration(d: BusinessDuration): string {
+  const hours = Math.floor(d.ms / MS_PER_HOUR);
+  const minutes = Math.floor((d.ms % MS_PER_HOUR) / MS_PER_MINUTE);
+  const seconds = (d.ms % MS_PER_MINUTE) / 1000;
+  const time = `${hours ? `${hours}H` : ""}${minutes ? `${minutes}M` : ""}${seconds ? `${seconds}S` : ""}`;
+  if (!d.days && !time) return "PT0S";
+  return `P${d.days ? `${d.days}D` : ""}${time ? `T${time}` : ""}`;
+}
+
+// ─── Arithmetic ──────────────────────────────────────────────────────────────
+
+function isWorkingDay(day: Date, cal: BusinessCalendar, holidays: Set<string>): boolean {
+  return spansOf(cal.hours[day.getUTCDay()]).length > 0 && !holidays.has(isoDate(day));
+}
+
+/** `ms` of working time after `from`; with 0, the next working moment at or after `from` */
+function addWorkingMs(from: Date, ms: number, cal: BusinessCalendar, holidays: Set<string>): Date {
+  let cursor = from.getTime();
+  let remaining = ms;
+  let day = localDate(from, cal.timeZone);
+  for (let i = 0; i < MAX_DAYS; i++, day = addDays(day, 1)) {
+    if (!isWorkingDay(day, cal, holidays)) continue;
+    for (const [start, end] of spansOf(cal.hours[day.getUTCDay()])) {
+      const open = zonedInstant(day, start, cal.timeZone).getTime();
+      const close = zonedInstant(day, end, cal.timeZone).getTime();
+      if (cursor < open) cursor = open;
+      if (cursor >= close) continue;
+      if (remaining <= close - cursor) return new Date(cursor + remaining);
+      remaining -= close - cursor;
+      cursor = close;
+    }
+  }
+  throw new RangeError("Business time result is more than ten years away");
+}
+
+/** The same time of day `days` working days after `at`, clamped into that day's working hours */
+function addWorkingDays(at: Date, days: number, cal: BusinessCalendar, holidays: Set<string>): Date {
+  let day = localDate(at, cal.timeZone);
+  const timeOfDay = at.getTime() - zonedInstant(day, 0, cal.timeZone).getTime();
+  for (let moved = 0, i = 0; moved < days; i++) {
+    if (i >= MAX_DAYS) throw new RangeError("Business time result is more than ten years away");
+    day = addDays(day, 1);
+    if (isWorkingDay(day, cal, holidays)) moved++;
+  }
+  const spans = spansOf(cal.hours[day.getUTCDay()]);
+  const within = spans.find(([, end]) => timeOfDay < end);
+  const ms = within ? Math.max(timeOfDay, within[0]) : spans[spans.length - 1][1];
+  return zonedInstant(day, ms, cal.timeZone);
+}
+
+/**
+ * The moment a business duration after `from`. Whole days are counted first, from the
+ * next working moment; the remaining working time is added after that.
+ */
+export function addBusinessTime(from: Date, duration: BusinessDuration | string, cal: BusinessCalendar): Date {
+  const d = typeof duration === "string" ? parseBusinessDuration(duration) : duration;
+  if (!d) throw new RangeError(`"${duration}" is not a business duration`);
+  const problems = calendarProblems(cal);
+  if (problems.length) throw new RangeError(problems[0]);
+  if (!d.days && !d.ms) return new Date(from.getTime());
+  const holidays = new Set(cal.holidays.map(h => h.date));
+  let at = addWorkingMs(from, 0, cal, holidays);
+  if (d.days) at = addWorkingDays(at, d.days, cal, holidays);
+  return d.ms ? addWorkingMs(at, d.ms, cal, holidays) : at;
+}
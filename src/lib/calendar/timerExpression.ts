@@ -0,0 +1,84 @@
+/**
+ * Calendar timer expressions – how business durations reach Camunda. A duration counted
+ * in a calendar becomes a date expression evaluated by the engine's `businessCalendar`
+ * bean, e.g. `${businessCalendar.add(now(), "P3D", "emea-support")}`, which must apply the
+ * same rules as the calculator here. Stock Camunda 7 has no such bean, so it is only used
+ * when the deployment says the engine provides it (VITE_CAMUNDA_CALENDAR_BEAN=true);
+ * otherwise the duration is exported as a plain ISO 8601 duration and runs in wall-clock
+ * time. The step's calendar travels as a camunda:property so imports can restore it.
+ */
+import type { BusinessCalendar } from "./types";
+import { findCalendar, formatBusinessDuration, isCalendarKey, parseBusinessDuration, STANDARD_CALENDAR, workingMsOf } from "./calculator";
+
+export const CALENDAR_BEAN = "businessCalendar";
+export const CALENDAR_PROPERTY = "businessCalendar";
+
+/** Whether the engine this Studio deploys to has the `businessCalendar` bean */
+export const ENGINE_HAS_CALENDAR_BEAN = import.meta.env.VITE_CAMUNDA_CALENDAR_BEAN === "true";
+
+/** Whether durations in calendar `key` can be exported as bean calls */
+export function countsInCalendar(key: string | undefined, calendarBean: boolean): key is string {
+  return !!key && calendarBean && isCalendarKey(key);
+}
+
+/** `duration` counted in calendar `key` from the date expression `from` */
+export function businessTimeExpression(duration: string, key: string, from = "now()"): string {
+  return `\${${addCall(duration, key, from)}}`;
+}
+
+function addCall(duration: string, key: string, from: string): string {
+  // The key is written into a string literal; anything but a plain key could break out of it
+  if (!isCalendarKey(key)) throw new Error(`"${key}" is not a valid calendar key`);
+  return `${CALENDAR_BEAN}.add(${from}, "${duration}", "${key}")`;
+}
+
+/** `durations` counted one after another, each in calendar `key`, starting now */
+export function chainedBusinessTimeExpression(durations: string[], key: string): string {
+  return `\${${durations.reduce((from, d) => addCall(d, key, from), "now()")}}`;
+}
+
+const SINGLE = /^\$\{\s*businessCalendar\.add\(\s*now\(\)\s*,\s*"([^"]+)"\s*,\s*"([^"]+)"\s*\)\s*\}$/;
+
+/** Duration and calendar of an expression `businessTimeExpression` generated; null for anything else */
+export function parseBusinessTimeExpression(expr: string): { duration: string; calendarKey: string } | null {
+  const m = SINGLE.exec(expr.trim());
+  return m ? { duration: m[1], calendarKey: m[2] } : null;
+}
+
+/**
+ * Timer definition for a duration-like value (timer wait, due date, follow-up date).
+ * With a calendar and a business duration it becomes a calendar date expression, or the
+ * plain ISO duration when the engine has no calendar bean (or the key is not valid);
+ * anything else – dates, cycles, expressions, no calendar – is left as written.
+ */
+export function calendarTimer(
+  value: string,
+  calendarKey: string | undefined,
+  calendarBean = false,
+): { type: "timeDate" | "timeDuration"; expression: string } | null {
+  if (!calendarKey) return null;
+  const duration = parseBusinessDuration(value);
+  if (!duration) return null;
+  const iso = formatBusinessDuration(duration);
+  return countsInCalendar(calendarKey, calendarBean)
+    ? { type: "timeDate", expression: businessTimeExpression(iso, calendarKey) }
+    : { type: "timeDuration", expression: iso };
+}
+
+/** A due or follow-up date attribute: calendar expression when it applies, else the value as written */
+export function calendarDateAttr(value: string, calendarKey: string | undefined, calendarBean = false): string {
+  return calendarTimer(value, calendarKey, calendarBean)?.expression ?? value;
+}
+
+/** Reverse of `calendarDateAttr`: the duration as the step carries it, and its calendar when there is one */
+export function parseCalendarDateAttr(value: string): { value: string; calendarKey?: string } {
+  const parsed = parseBusinessTimeExpression(value);
+  return parsed ? { value: parsed.duration, calendarKey: parsed.calendarKey } : { value };
+}
+
+/** Working time of a business duration in a referenced calendar (standard calendar when unknown) */
+export function workingMsIn(duration: string, calendarKey: string, calendars: BusinessCalendar[]): number | null {
+  const d = parseBusinessDuration(duration);
+  if (!d) return null;
+  return workingMsOf(d, findCalendar(calendars, calendarKey) ?? STANDARD_CALENDAR);
+}
@@ -0,0 +1,37 @@
+/**
+ * Business calendar types – working hours, time zone and holidays that working-time
+ * durations (due dates, timers, SLAs) are counted in. Calendars are managed in the admin
+ * area; case steps, SLA policies and SLA rules reference them by key.
+ */
+
+/** One working interval of a day in the calendar's time zone, "HH:mm" – "HH:mm" (24:00 allowed as end) */
+export interface WorkingInterval {
+  start: string;
+  end: string;
+}
+
+export interface Holiday {
+  /** yyyy-mm-dd in the calendar's time zone */
+  date: string;
+  name: string;
+}
+
+export interface BusinessCalendar {
+  /** Stable reference used by steps, SLA policies and rules, e.g. "emea-support" */
+  key: string;
+  name: string;
+  /** IANA time zone, e.g. "Europe/Berlin" */
+  timeZone: string;
+  /** Working intervals per weekday, index 0 = Sunday … 6 = Saturday; empty = day off */
+  hours: WorkingInterval[][];
+  holidays: Holiday[];
+}
+
+/**
+ * A duration counted in a business calendar: whole business days move to the same
+ * time of day on a later working day, `ms` counts working time only.
+ */
+export interface BusinessDuration {
+  days: number;
+  ms: number;
+}
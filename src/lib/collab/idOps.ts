@@ -0,0 +1,160 @@
+/**
+ * ID-anchored patch operations for live collaboration.
+ * Local edits are recorded as id paths (`/stages[id=…]/…`, see patchUtils), which may
+ * still contain plain indexes. Before broadcasting, every element of an array of
+ * `{ id }` objects is anchored to its id, and an insert position to the id of the
+ * element it follows. Receivers resolve the anchors against their own document, so
+ * concurrent reorders on another canvas don't make an edit land on the wrong element.
+ *
+ * Why not broadcast id paths: they keep insert positions as indexes, which is right
+ * for undo and history (always replayed on the document they were recorded against)
+ * but wrong on a canvas whose list order differs. The `after` anchor has no id path
+ * spelling, and structured segments let lastWriterWins key overwrites without parsing.
+ */
+import { applyOperation } from "fast-json-patch";
+import type { CaseIR, JsonPatch, PatchOperation } from "@/types/caseIr";
+import { anchorId, escapeSegment, pointerExists, resolveIdPatch, unescapeSegment } from "@/lib/patchUtils";
+
+/**
+ * One path segment: a plain key, an array element by id, an insert position
+ * after an element (`null` = at the start), or an index into an array without ids.
+ */
+export type IdPathSegment = { key: string } | { id: string } | { after: string | null } | { index: string };
+
+export type IdOperation =
+  | { op: "add" | "replace"; path: IdPathSegment[]; value: unknown }
+  | { op: "remove"; path: IdPathSegment[] }
+  | { op: "move"; from: IdPathSegment[]; path: IdPathSegment[] }
+  | { op: "copy"; from: IdPathSegment[]; path: IdPathSegment[] };
+
+/** Raised when an anchor no longer exists on the receiving side (e.g. the element was deleted). */
+export class IdOpResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdOpResolutionError";
+  }
+}
+
+/** `doc` with the value at `pointer` removed – a move's target index refers to this document */
+function withoutValue(doc: unknown, pointer: string): unknown {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return applyOperation(doc as any, { op: "remove", path: pointer }, false, false).newDocument;
+}
+
+/** Rewrite one pointer against `doc`; `insert` marks the target of an add/move/copy. */
+function anchorPath(doc: unknown, pointer: string, insert: boolean): IdPathSegment[] {
+  if (pointer === "") return [];
+  const segments = pointer.split("/").slice(1).map(unescapeSegment);
+  const out: IdPathSegment[] = [];
+  let cur: unknown = doc;
+  segments.forEach((seg, i) => {
+    const last = i === segments.length - 1;
+    if (Array.isArray(cur)) {
+      const index = seg === "-" ? cur.length : Number(seg);
+      if (last && insert) {
+        const prev = index > 0 ? anchorId(cur[index - 1]) : null;
+        out.push(prev !== undefined && (index === 0 || cur.every(el => anchorId(el) !== undefined)) ? { after: prev } : { index: seg });
+        return;
+      }
+      const id = anchorId(cur[index]);
+      out.push(id !== undefined ? { id } : { index: seg });
+      cur = cur[index];
+    } else {
+      out.push({ key: seg });
+      cur = cur && typeof cur === "object" ? (cur as Record<string, unknown>)[seg] : undefined;
+    }
+  });
+  return out;
+}
+
+/**
+ * Convert a patch to id-anchored ops, resolving each op against the document it applies to.
+ * The patch may use element-ID paths, as history entries do.
+ */
+export function toIdOps(before: CaseIR, patch: JsonPatch): IdOperation[] {
+  let doc: unknown = JSON.parse(JSON.stringify(before));
+  const ops: IdOperation[] = [];
+  for (const op of resolveIdPatch(before, patch)) {
+    switch (op.op) {
+      case "add":
+      case "replace":
+        ops.push({ op: op.op, path: anchorPath(doc, op.path, op.op === "add"), value: op.value });
+        break;
+      case "remove":
+        ops.push({ op: "remove", path: anchorPath(doc, op.path, false) });
+        break;
+      case "move":
+        ops.push({ op: "move", from: anchorPath(doc, op.from, false), path: anchorPath(withoutValue(doc, op.from), op.path, true) });
+        break;
+      case "copy":
+        ops.push({ op: "copy", from: anchorPath(doc, op.from, false), path: anchorPath(doc, op.path, true) });
+        break;
+      case "test":
+        continue;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    doc = applyOperation(doc as any, op as any, false, true).newDocument;
+  }
+  return ops;
+}
+
+function resolvePath(doc: unknown, path: IdPathSegment[]): string {
+  let pointer = "";
+  let cur: unknown = doc;
+  for (const seg of path) {
+    if ("key" in seg) {
+      pointer += `/${escapeSegment(seg.key)}`;
+      cur = cur && typeof cur === "object" ? (cur as Record<string, unknown>)[seg.key] : undefined;
+      continue;
+    }
+    if (!Array.isArray(cur)) throw new IdOpResolutionError(`${pointer || "/"} is not a list`);
+    const arr: unknown[] = cur;
+    if ("id" in seg) {
+      const index = arr.findIndex(el => anchorId(el) === seg.id);
+      if (index < 0) throw new IdOpResolutionError(`Element "${seg.id}" no longer exists at ${pointer}`);
+      pointer += `/${index}`;
+      cur = arr[index];
+    } else if ("after" in seg) {
+      let index = 0;
+      if (seg.after !== null) {
+        index = arr.findIndex(el => anchorId(el) === seg.after) + 1;
+        if (index === 0) throw new IdOpResolutionError(`Element "${seg.after}" no longer exists at ${pointer}`);
+      }
+      pointer += `/${index}`;
+      cur = undefined;
+    } else {
+      pointer += `/${seg.index}`;
+      cur = seg.index === "-" ? undefined : arr[Number(seg.index)];
+    }
+  }
+  return pointer;
+}
+
+/**
+ * Resolve id-anchored ops against `doc` into a plain JSON Patch.
+ * Throws `IdOpResolutionError` when an anchor is gone; the caller should resync.
+ */
+export function fromIdOps(doc: CaseIR, ops: IdOperation[]): JsonPatch {
+  let cur: unknown = JSON.parse(JSON.stringify(doc));
+  const patch: JsonPatch = [];
+  for (const op of ops) {
+    let resolved: PatchOperation;
+    if (op.op === "move") {
+      const from = resolvePath(cur, op.from);
+      resolved = { op: "move", from, path: resolvePath(withoutValue(cur, from), op.path) };
+    } else if (op.op === "copy") {
+      resolved = { op: "copy", from: resolvePath(cur, op.from), path: resolvePath(cur, op.path) };
+    } else if (op.op === "remove") {
+      resolved = { op: "remove", path: resolvePath(cur, op.path) };
+    } else {
+      resolved = { op: op.op, path: resolvePath(cur, op.path), value: op.value };
+    }
+    if ((resolved.op === "replace" || resolved.op === "remove") && !pointerExists(cur, resolved.path)) {
+      throw new IdOpResolutionError(`Nothing to ${resolved.op} at ${resolved.path}`);
+    }
+    patch.push(resolved);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    cur = applyOperation(cur as any, resolved as any, false, true).newDocument;
+  }
+  return patch;
+}
@@ -0,0 +1,39 @@
+/**
+ * Last-writer-wins ordering for concurrent overwrites of the same field.
+ * Every broadcast carries a Lamport stamp; when two people set the same value
+ * at once, every canvas keeps the write with the higher stamp, so all
+ * participants converge on the same document.
+ */
+import type { IdOperation } from "./idOps";
+
+export interface Stamp {
+  clock: number;
+  clientId: string;
+}
+
+export function isNewer(a: Stamp, b: Stamp): boolean {
+  return a.clock !== b.clock ? a.clock > b.clock : a.clientId > b.clientId;
+}
+
+/** Key of the value an op overwrites; inserts into lists and removals never conflict this way. */
+export function overwriteKey(op: IdOperation): string | null {
+  if (op.op !== "replace" && op.op !== "add") return null;
+  const last = op.path[op.path.length - 1];
+  if (op.op === "add" && last && !("key" in last)) return null;
+  return JSON.stringify(op.path);
+}
+
+/**
+ * Record stamps for ops and drop the ones that lost to a newer write already applied.
+ * `stamps` is mutated.
+ */
+export function filterStale(ops: IdOperation[], stamp: Stamp, stamps: Map<string, Stamp>): IdOperation[] {
+  return ops.filter(op => {
+    const key = overwriteKey(op);
+    if (!key) return true;
+    const seen = stamps.get(key);
+    if (seen && isNewer(seen, stamp)) return false;
+    stamps.set(key, stamp);
+    return true;
+  });
+}
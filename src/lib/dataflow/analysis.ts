@@ -0,0 +1,381 @@
+/**
+ * Variable data-flow over a CaseIR — which process variables exist when each step
+ * starts, with their types, and checks of the expressions that read them.
+ *
+ * Steps run in document order. Parallel and inclusive branches start from the scope
+ * before the split and merge at the join; a foreach body additionally sees its element
+ * and loop variables. Alternative paths and event handlers can start at any point, so
+ * they see everything the main flow produces.
+ */
+import type { CaseIR, DataField, FormFieldType, Step } from "@/types/caseIr";
+import { findReferences, type VariableReference } from "./references";
+import type {
+  DataFlowIssue, DataFlowNode, DataFlowResult, NodeResolver, VariableDef, VariableOrigin, VariableType,
+} from "./types";
+
+interface Binding {
+  def: VariableDef;
+  /** Outer variable this one hides (loop element) or overwrites with another type */
+  shadows?: VariableDef;
+}
+
+type Scope = Map<string, Binding>;
+
+/** Engine objects available to every expression */
+const CONTEXT_BEANS = new Set(["execution", "task", "authenticatedUserId"]);
+
+const LOOP_VARIABLES = ["loopCounter", "nrOfInstances", "nrOfActiveInstances", "nrOfCompletedInstances"];
+
+export function formFieldType(type: FormFieldType): VariableType {
+  switch (type) {
+    case "number": case "slider": case "rating": return "number";
+    case "boolean": return "boolean";
+    case "date": return "date";
+    case "checkbox-group": case "repeatable": return "array";
+    case "file": return "unknown";
+    default: return "string";
+  }
+}
+
+/** Whether a value of type `actual` can be used where `expected` is needed */
+export function typesCompatible(expected: VariableType, actual: VariableType): boolean {
+  if (expected === actual || expected === "unknown" || actual === "unknown") return true;
+  // Numbers, booleans and dates render to text; dates are ISO strings
+  if (expected === "string") return actual !== "object" && actual !== "array";
+  return expected === "date" && actual === "string";
+}
+
+function describe(def: VariableDef): string {
+  switch (def.origin) {
+    case "dataModel": return "the data model";
+    case "elementVariable": return `the loop element of "${def.stepName}"`;
+    case "loopVariable": return "the multi-instance loop";
+    default: return `"${def.stepName}"`;
+  }
+}
+
+class Analyzer {
+  private scopes = new Map<string, VariableDef[]>();
+  private outputs = new Map<string, VariableDef[]>();
+  private issues: DataFlowIssue[] = [];
+  /** Every variable any step writes, for telling "not set yet" from "never set" */
+  private producers = new Map<string, VariableDef[]>();
+
+  constructor(private caseIr: CaseIR, private resolveNode?: NodeResolver) {}
+
+  run(): DataFlowResult {
+    for (const s of this.allSteps()) {
+      for (const def of this.stepOutputs(s.step, s.path)) {
+        const list = this.producers.get(def.name) ?? [];
+        list.push(def);
+        this.producers.set(def.name, list);
+      }
+    }
+
+    let scope: Scope = new Map();
+    (this.caseIr.dataModel ?? []).forEach((f, i) => scope.set(f.name, { def: dataFieldDef(f, i) }));
+    this.caseIr.stages.forEach((stage, si) => stage.groups.forEach((g, gi) => {
+      scope = this.walk(g.steps, `/stages/${si}/groups/${gi}/steps`, scope);
+    }));
+    const mainScope = scope;
+    (this.caseIr.alternativePaths ?? []).forEach((stage, si) => stage.groups.forEach((g, gi) => {
+      // Each alternative group is entered by a jump from the main flow
+      this.walk(g.steps, `/alternativePaths/${si}/groups/${gi}/steps`, mainScope);
+    }));
+    (this.caseIr.eventSubProcesses ?? []).forEach((esp, ei) => this.walk(esp.steps, `/eventSubProcesses/${ei}/steps`, mainScope));
+
+    return { scopes: this.scopes, outputs: this.outputs, issues: this.issues };
+  }
+
+  private *allSteps(): Generator<{ step: Step; path: string }> {
+    function* walk(steps: Step[], base: string): Generator<{ step: Step; path: string }> {
+      for (let i = 0; i < steps.length; i++) {
+        const step = steps[i];
+        const path = `${base}/${i}`;
+        yield { step, path };
+        if (step.type === "foreach") yield* walk(step.steps, `${path}/steps`);
+        if (step.type === "parallel" || step.type === "inclusive") {
+          for (let bi = 0; bi < step.branches.length; bi++) yield* walk(step.branches[bi].steps, `${path}/branches/${bi}/steps`);
+        }
+        if (step.compensation) yield { step: step.compensation.activity, path: `${path}/compensation/activity` };
+      }
+    }
+    const lanes: Array<[string, CaseIR["stages"]]> = [["/stages", this.caseIr.stages], ["/alternativePaths", this.caseIr.alternativePaths ?? []]];
+    for (const [lanePath, stages] of lanes) {
+      for (let si = 0; si < stages.length; si++) {
+        for (let gi = 0; gi < stages[si].groups.length; gi++) yield* walk(stages[si].groups[gi].steps, `${lanePath}/${si}/groups/${gi}/steps`);
+      }
+    }
+    const esps = this.caseIr.eventSubProcesses ?? [];
+    for (let ei = 0; ei < esps.length; ei++) yield* walk(esps[ei].steps, `/eventSubProcesses/${ei}/steps`);
+  }
+
+  // ─── Scope walk ───────────────────────────────────────────────────────────
+
+  private walk(steps: Step[], base: string, start: Scope): Scope {
+    let scope = start;
+    steps.forEach((step, i) => {
+      scope = this.visit(step, `${base}/${i}`, scope);
+    });
+    return scope;
+  }
+
+  /** Checks `step` against the scope it starts with and returns the scope after it */
+  private visit(step: Step, path: string, before: Scope): Scope {
+    this.scopes.set(step.id, [...before.values()].map(b => b.def));
+    const node = step.moduleRef && this.resolveNode?.(step.moduleRef);
+
+    // Multi-instance steps see their element and loop variables while they run;
+    // foreach steps mirror theirs in collectionExpression / elementVariable
+    let running = before;
+    const mi = step.type === "foreach" ? undefined : step.tech?.multiInstance;
+    if (mi) {
+      this.checkExpression(step, `${path}/tech/multiInstance/collectionExpression`, mi.collectionExpression, before, "array");
+      running = this.withLoop(step, path, mi.elementVariable, `${path}/tech/multiInstance/elementVariable`, before);
+    }
+
+    step.tech?.inputParameters?.forEach((p, i) => {
+      this.checkExpression(step, `${path}/tech/inputParameters/${i}/value`, p.value, running, node?.inputs[p.name]);
+    });
+    step.moduleRef?.inputMappings?.forEach((m, i) => {
+      this.checkExpression(step, `${path}/moduleRef/inputMappings/${i}/sourceVariable`, m.sourceVariable, running, node?.inputs[m.targetField]);
+    });
+    if (step.type === "callActivity") {
+      step.inMappings?.forEach((m, i) => {
+        if (m.source) this.checkExpression(step, `${path}/inMappings/${i}/source`, `\${${m.source}}`, running);
+      });
+    }
+    if (step.type === "decision") {
+      step.branches.forEach((b, bi) => this.checkExpression(step, `${path}/branches/${bi}/condition`, b.condition, running, "boolean"));
+    }
+
+    // Output parameters are evaluated in the step's own scope: its input parameters and results
+    let local = new Map(running);
+    step.tech?.inputParameters?.forEach((p, i) => {
+      if (p.name) local.set(p.name, { def: { name: p.name, type: this.expressionType(p.value, running), origin: "inputParameter", stepId: step.id, stepName: step.name, path: `${path}/tech/inputParameters/${i}/name` } });
+    });
+    for (const def of this.stepOutputs(step, path, node)) {
+      if (def.origin !== "outputParameter") local = this.bind(local, def);
+    }
+    step.tech?.outputParameters?.forEach((p, i) => {
+      this.checkExpression(step, `${path}/tech/outputParameters/${i}/value`, p.value, local);
+    });
+    const outputs = this.stepOutputs(step, path, node, local);
+    this.outputs.set(step.id, outputs);
+
+    let after = before;
+    if (step.type === "foreach") {
+      this.checkExpression(step, `${path}/collectionExpression`, step.collectionExpression, before, "array");
+      const body = this.walk(step.steps, `${path}/steps`, this.withLoop(step, path, step.elementVariable, `${path}/elementVariable`, before));
+      after = this.leaveLoop(body, before, step.elementVariable);
+    }
+    if (step.type === "parallel" || step.type === "inclusive") {
+      after = new Map(before);
+      step.branches.forEach((b, bi) => {
+        if (step.type === "inclusive" && b.condition !== undefined) {
+          this.checkExpression(step, `${path}/branches/${bi}/condition`, b.condition, before, "boolean");
+        }
+        const end = this.walk(b.steps, `${path}/branches/${bi}/steps`, before);
+        for (const [name, binding] of end) if (before.get(name) !== binding) after.set(name, binding);
+      });
+    }
+
+    for (const def of outputs) after = this.bind(after, def, step.id);
+
+    if (step.compensation) {
+      this.visit(step.compensation.activity, `${path}/compensation/activity`, after);
+    }
+    return after;
+  }
+
+  private withLoop(step: Step, path: string, elementVariable: string, elementPath: string, scope: Scope): Scope {
+    let inner = new Map(scope);
+    for (const name of LOOP_VARIABLES) {
+      inner.set(name, { def: { name, type: "number", origin: "loopVariable", description: "Multi-instance loop variable" } });
+    }
+    if (elementVariable.trim()) {
+      inner = this.bind(inner, {
+        name: elementVariable.trim(), type: "unknown", origin: "elementVariable",
+        stepId: step.id, stepName: step.name, path: elementPath,
+      }, step.id);
+    }
+    return inner;
+  }
+
+  /** Drop the loop's own variables; everything the body wrote stays visible */
+  private leaveLoop(body: Scope, outer: Scope, elementVariable: string): Scope {
+    const out = new Map(body);
+    for (const name of [...LOOP_VARIABLES, elementVariable.trim()]) {
+      const prev = outer.get(name);
+      const cur = body.get(name);
+      if (cur && (cur.def.origin === "loopVariable" || cur.def.origin === "elementVariable")) {
+        if (prev) out.set(name, prev);
+        else out.delete(name);
+      }
+    }
+    return out;
+  }
+
+  /** Add `def` to a copy of `scope`; conflicts with the data model are reported when `stepId` is given */
+  private bind(scope: Scope, def: VariableDef, stepId?: string): Scope {
+    const out = new Map(scope);
+    const prev = scope.get(def.name)?.def;
+    if (!prev) {
+      out.set(def.name, { def });
+    } else if (def.origin === "elementVariable" || def.origin === "loopVariable") {
+      out.set(def.name, { def, shadows: prev });
+    } else if (prev.origin === "dataModel") {
+      // Writing a declared variable is an assignment; keep the declared type
+      if (stepId && def.path && !typesCompatible(prev.type, def.type)) {
+        this.issue("type-mismatch", "warning", `"${def.stepName}" writes ${def.type} to "${def.name}", which the data model declares as ${prev.type}`, def.path, stepId);
+      }
+    } else if (prev.type !== def.type && prev.type !== "unknown" && def.type !== "unknown") {
+      out.set(def.name, { def, shadows: prev });
+    } else {
+      out.set(def.name, { def });
+    }
+    return out;
+  }
+
+  // ─── Step outputs ─────────────────────────────────────────────────────────
+
+  /** Variables `step` writes; output parameters are typed from their values when the step's local scope is given */
+  private stepOutputs(step: Step, path: string, node?: DataFlowNode, local?: Scope): VariableDef[] {
+    node ??= step.moduleRef && this.resolveNode?.(step.moduleRef);
+    const out: VariableDef[] = [];
+    const add = (name: string | undefined, type: VariableType, origin: VariableOrigin, at: string, extra: Partial<VariableDef> = {}) => {
+      if (name?.trim()) out.push({ name: name.trim(), type, origin, stepId: step.id, stepName: step.name, path: at, ...extra });
+    };
+
+    if (step.moduleRef) {
+      const configured = step.moduleRef.instanceConfig.outputVariable;
+      const name = typeof configured === "string" && configured.trim() ? configured : node?.defaultOutputVariable;
+      if (name) add(name, "object", "nodeOutput", `${path}/moduleRef/instanceConfig/outputVariable`, { fields: node?.outputs, description: node && `${node.name} output` });
+      step.moduleRef.outputMappings?.forEach((m, i) => {
+        add(m.targetField, node?.outputs[m.sourceField] ?? "unknown", "outputMapping", `${path}/moduleRef/outputMappings/${i}/targetField`);
+      });
+    }
+    const tech = step.tech;
+    if (tech?.resultVariable) {
+      const type: VariableType = tech.mapDecisionResult === "singleResult" ? "object"
+        : tech.mapDecisionResult === "collectEntries" || tech.mapDecisionResult === "resultList" ? "array"
+        : "unknown";
+      add(tech.resultVariable, type, "resultVariable", `${path}/tech/resultVariable`);
+    }
+    if (step.formRef) {
+      const template = this.caseIr.formTemplates?.find(t => t.id === step.formRef!.formId);
+      for (const field of template?.fields ?? []) {
+        const type = step.formRef.fieldOverrides?.[field.key]?.type ?? field.type;
+        add(field.key, formFieldType(type), "formField", `${path}/formRef`, { description: field.label });
+      }
+    }
+    if (step.type === "callActivity") {
+      step.outMappings?.forEach((m, i) => add(m.target, "unknown", "callActivityOut", `${path}/outMappings/${i}/target`));
+    }
+    tech?.outputParameters?.forEach((p, i) => {
+      add(p.name, local ? this.expressionType(p.value, local) : "unknown", "outputParameter", `${path}/tech/outputParameters/${i}/name`);
+    });
+    return out;
+  }
+
+  // ─── Expression checks ────────────────────────────────────────────────────
+
+  /** Type of the value an expression produces, as far as it can be told */
+  private expressionType(expression: string, scope: Scope): VariableType {
+    const refs = findReferences(expression);
+    if (refs.length === 1 && refs[0].whole) return this.referenceType(refs[0], scope);
+    const text = expression.trim();
+    if (!/[$#]\{/.test(text)) {
+      if (text === "true" || text === "false") return "boolean";
+      return text !== "" && Number.isFinite(Number(text)) ? "number" : "string";
+    }
+    return /^[$#]\{[^}]*\}$/.test(text) ? "unknown" : "string";
+  }
+
+  private referenceType(ref: VariableReference, scope: Scope): VariableType {
+    const def = scope.get(ref.root)?.def;
+    if (!def) return "unknown";
+    if (ref.members.length === 0) return def.type;
+    if (ref.members.length === 1 && def.fields?.[ref.members[0]]) return def.fields[ref.members[0]];
+    return "unknown";
+  }
+
+  private checkExpression(step: Step, path: string, expression: string | undefined, scope: Scope, expected?: VariableType) {
+    if (!expression?.trim() || expression.trim() === "${default}") return;
+    for (const ref of findReferences(expression)) {
+      if (CONTEXT_BEANS.has(ref.root)) continue;
+      const binding = scope.get(ref.root);
+      const shown = `\${${[ref.root, ...ref.members].join(".")}}`;
+      if (!binding) {
+        const setters = (this.producers.get(ref.root) ?? []).filter(d => d.stepId !== step.id);
+        if (setters.length) {
+          const names = [...new Set(setters.map(d => `"${d.stepName}"`))].join(", ");
+          this.issue("undefined", "warning", `${shown} in "${step.name}" is not set yet at this point; it is set by ${names}`, path, step.id);
+        } else {
+          this.issue("undefined", "error", `${shown} in "${step.name}" reads "${ref.root}", which no earlier step sets and the data model does not declare`, path, step.id);
+        }
+        continue;
+      }
+      const { def, shadows } = binding;
+      if (shadows) {
+        this.issue("shadowed", "warning", `${shown} in "${step.name}" reads "${ref.root}" from ${describe(def)}, which hides the ${shadows.type} from ${describe(shadows)}`, path, step.id);
+      }
+      this.checkMembers(step, path, ref, def, shown);
+      this.checkUsage(step, path, ref, scope, shown, expected);
+    }
+  }
+
+  private checkMembers(step: Step, path: string, ref: VariableReference, def: VariableDef, shown: string) {
+    const [first] = ref.members;
+    if (first === undefined) return;
+    if (def.type === "array") {
+      if (first !== "size" && first !== "length") {
+        this.issue("type-mismatch", "error", `${shown} in "${step.name}": "${ref.root}" is a list and has no property "${first}"`, path, step.id);
+      }
+    } else if (def.type !== "object" && def.type !== "unknown") {
+      this.issue("type-mismatch", "error", `${shown} in "${step.name}": "${ref.root}" is a ${def.type} and has no property "${first}"`, path, step.id);
+    } else if (def.fields && !(first in def.fields)) {
+      const known = Object.keys(def.fields).join(", ") || "none";
+      this.issue("undefined", "error", `${shown} in "${step.name}": ${describe(def)} output has no field "${first}" (fields: ${known})`, path, step.id);
+    }
+  }
+
+  private checkUsage(step: Step, path: string, ref: VariableReference, scope: Scope, shown: string, expected?: VariableType) {
+    const type = this.referenceType(ref, scope);
+    if (type === "unknown") return;
+    if (ref.whole && expected && !typesCompatible(expected, type)) {
+      // Text may still coerce ("true", "42"); other types never will
+      this.issue("type-mismatch", type === "string" ? "warning" : "error", `${shown} in "${step.name}" is ${article(type)} ${type}, but ${article(expected)} ${expected} is expected here`, path, step.id);
+      return;
+    }
+    if (ref.numeric && type !== "number" && type !== "date") {
+      this.issue("type-mismatch", "warning", `${shown} in "${step.name}" is ${article(type)} ${type} but is used as a number`, path, step.id);
+    } else if (ref.comparedWith && !literalFits(type, ref.comparedWith)) {
+      this.issue("type-mismatch", "warning", `${shown} in "${step.name}" is ${article(type)} ${type} but is compared with a ${ref.comparedWith}`, path, step.id);
+    }
+  }
+
+  private issue(kind: DataFlowIssue["kind"], severity: DataFlowIssue["severity"], message: string, path: string, stepId: string) {
+    this.issues.push({ kind, severity, message, path, stepId });
+  }
+}
+
+function article(type: VariableType): string {
+  return type === "object" || type === "array" || type === "unknown" ? "an" : "a";
+}
+
+/** JUEL coerces numeric text and dates compare as strings; anything else is a real mismatch */
+function literalFits(type: VariableType, literal: "string" | "number" | "boolean"): boolean {
+  if (type === "string" || type === "date") return literal !== "boolean";
+  if (type === "number") return literal !== "boolean";
+  if (type === "boolean") return literal === "boolean";
+  return false;
+}
+
+function dataFieldDef(f: DataField, index: number): VariableDef {
+  return { name: f.name, type: f.dataType, origin: "dataModel", path: `/dataModel/${index}`, description: f.description };
+}
+
+export function analyzeDataFlow(caseIr: CaseIR, resolveNode?: NodeResolver): DataFlowResult {
+  return new Analyzer(caseIr, resolveNode).run();
+}
@@ -0,0 +1,74 @@
+/**
+ * Expression autocomplete – what is being typed at the caret inside `${...}` or an
+ * `=`-prefixed FEEL expression, and which variables or fields can complete it.
+ */
+import type { VariableDef, VariableType } from "./types";
+
+export interface CompletionContext {
+  /** Properties already typed before the partial name, e.g. ["order"] for `${order.to|` */
+  parent: string[];
+  /** Partial name left of the caret */
+  prefix: string;
+  /** Offset where the partial name starts — replace `from..caret` with the suggestion */
+  from: number;
+  /** Typed in FEEL, which has no JUEL methods such as `size` */
+  feel?: boolean;
+}
+
+/** The chain being typed at `caret`; null outside an expression body or inside a string literal */
+export function completionContext(expression: string, caret: number): CompletionContext | null {
+  const before = expression.slice(0, caret);
+  const feel = expression.trimStart().startsWith("=");
+  let body: string;
+  if (feel) {
+    const eq = expression.indexOf("=");
+    if (caret <= eq) return null;
+    body = before.slice(eq + 1);
+    if ((body.match(/"/g)?.length ?? 0) % 2 === 1) return null;
+  } else {
+    const open = Math.max(before.lastIndexOf("${"), before.lastIndexOf("#{"));
+    if (open < 0 || before.indexOf("}", open) >= 0) return null;
+    body = before.slice(open + 2);
+    if ((body.match(/'/g)?.length ?? 0) % 2 === 1 || (body.match(/"/g)?.length ?? 0) % 2 === 1) return null;
+  }
+  const m = /(?:([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\.)?([A-Za-z_$][\w$]*)?$/.exec(body);
+  if (!m) return null;
+  // Method results and indexed values have no known fields
+  const charBefore = body[body.length - m[0].length - 1];
+  if (charBefore !== undefined && /[\w$.)\]]/.test(charBefore)) return null;
+  const prefix = m[2] ?? "";
+  return { parent: m[1] ? m[1].split(".") : [], prefix, from: caret - prefix.length, ...(feel ? { feel } : {}) };
+}
+
+export interface CompletionItem {
+  label: string;
+  type: VariableType;
+  detail?: string;
+}
+
+function originLabel(def: VariableDef): string {
+  switch (def.origin) {
+    case "dataModel": return "data model";
+    case "elementVariable": return `loop element · ${def.stepName}`;
+    case "loopVariable": return "loop";
+    default: return def.stepName ?? "";
+  }
+}
+
+/** Variables (or fields of the parent variable) starting with the typed prefix */
+export function completionItems(variables: VariableDef[], ctx: CompletionContext): CompletionItem[] {
+  const prefix = ctx.prefix.toLowerCase();
+  const matches = (label: string) => label.toLowerCase().startsWith(prefix);
+  if (ctx.parent.length === 0) {
+    return variables
+      .filter(v => matches(v.name))
+      .map(v => ({ label: v.name, type: v.type, detail: originLabel(v) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+  if (ctx.parent.length > 1) return [];
+  const parent = variables.find(v => v.name === ctx.parent[0]);
+  if (parent?.type === "array") return !ctx.feel && matches("size") ? [{ label: "size", type: "number", detail: "list length" }] : [];
+  return Object.entries(parent?.fields ?? {})
+    .filter(([name]) => matches(name))
+    .map(([name, type]) => ({ label: name, type, detail: parent!.name }));
+}
@@ -0,0 +1,132 @@
+/**
+ * Variable references in JUEL-style expressions — finds the property chains read
+ * inside `${...}` / `#{...}` and the context the data-flow checks need
+ * (whole-expression reads, comparisons against literals, arithmetic).
+ * Function and method calls are not references; their arguments are.
+ */
+
+export interface VariableReference {
+  /** Variable name, e.g. `order` in `${order.total}` */
+  root: string;
+  /** Property names after the root, e.g. ["total"] */
+  members: string[];
+  /** Offsets of the chain in the expression string */
+  start: number;
+  end: number;
+  /** The expression is exactly `${chain}` — its value is the variable's value */
+  whole: boolean;
+  /** Type of a literal the chain is compared with (`==`, `<`, …) */
+  comparedWith?: "string" | "number" | "boolean";
+  /** Used as an operand of arithmetic or an ordering comparison */
+  numeric?: boolean;
+}
+
+type Token =
+  | { kind: "num" | "str"; start: number; end: number }
+  | { kind: "ident" | "op"; value: string; start: number; end: number };
+
+const WORD_OPS = new Set(["and", "or", "not", "eq", "ne", "lt", "gt", "le", "ge", "div", "mod", "instanceof"]);
+const WORD_LITERALS = new Set(["true", "false", "null", "empty"]);
+const SYMBOLS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "+", "-", "*", "/", "%", "(", ")", "[", "]", ".", "?", ":", ","];
+const EQUALITY = new Set(["==", "!=", "eq", "ne"]);
+const NUMERIC = new Set(["<", ">", "<=", ">=", "lt", "gt", "le", "ge", "-", "*", "/", "%", "div", "mod"]);
+
+/** Lenient tokenizer: unknown characters are skipped, an unterminated string ends the body */
+function tokenize(src: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (/[0-9]/.test(ch)) {
+      let j = i;
+      while (j < src.length && /[0-9.]/.test(src[j])) j++;
+      tokens.push({ kind: "num", start: offset + i, end: offset + j });
+      i = j;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      let j = i + 1;
+      while (j < src.length && src[j] !== ch) j += src[j] === "\\" ? 2 : 1;
+      tokens.push({ kind: "str", start: offset + i, end: offset + Math.min(j + 1, src.length) });
+      i = j + 1;
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(ch)) {
+      let j = i;
+      while (j < src.length && /[A-Za-z0-9_$]/.test(src[j])) j++;
+      const word = src.slice(i, j);
+      tokens.push({ kind: WORD_OPS.has(word) ? "op" : "ident", value: word, start: offset + i, end: offset + j });
+      i = j;
+      continue;
+    }
+    const sym = SYMBOLS.find(op => src.startsWith(op, i));
+    if (sym) tokens.push({ kind: "op", value: sym, start: offset + i, end: offset + i + sym.length });
+    i += sym?.length ?? 1;
+  }
+  return tokens;
+}
+
+function literalType(t: Token | undefined): VariableReference["comparedWith"] {
+  if (!t) return undefined;
+  if (t.kind === "num") return "number";
+  if (t.kind === "str") return "string";
+  if (t.kind === "ident" && (t.value === "true" || t.value === "false")) return "boolean";
+  return undefined;
+}
+
+function isOp(t: Token | undefined, ops: Set<string>): t is Extract<Token, { kind: "op" }> {
+  return !!t && t.kind === "op" && ops.has(t.value);
+}
+
+function opValue(t: Token | undefined): string | undefined {
+  return t && (t.kind === "op" || t.kind === "ident") ? t.value : undefined;
+}
+
+const EXPRESSION_BODY = /[$#]\{([^}]*)\}/g;
+
+/** Expression bodies with their offsets in `expression` */
+export function expressionBodies(expression: string): Array<{ body: string; start: number }> {
+  const out: Array<{ body: string; start: number }> = [];
+  for (const m of expression.matchAll(EXPRESSION_BODY)) out.push({ body: m[1], start: m.index! + 2 });
+  return out;
+}
+
+export function findReferences(expression: string): VariableReference[] {
+  const bodies = expressionBodies(expression);
+  const single = bodies.length === 1 && expression.trim() === `${expression.trim()[0]}{${bodies[0].body}}`;
+  const refs: VariableReference[] = [];
+  for (const { body, start } of bodies) {
+    const tokens = tokenize(body, start);
+    for (let i = 0; i < tokens.length; i++) {
+      const t = tokens[i];
+      if (t.kind !== "ident" || WORD_LITERALS.has(t.value)) continue;
+      if (opValue(tokens[i - 1]) === ".") continue;
+      if (opValue(tokens[i + 1]) === "(") continue;
+      const members: string[] = [];
+      let j = i + 1;
+      let end = t.end;
+      // A trailing `.name(` is a method call on the chain, not a property
+      while (opValue(tokens[j]) === "." && tokens[j + 1]?.kind === "ident" && opValue(tokens[j + 2]) !== "(") {
+        members.push(opValue(tokens[j + 1])!);
+        end = tokens[j + 1].end;
+        j += 2;
+      }
+      const before = tokens[i - 1];
+      const after = tokens[j];
+      const ref: VariableReference = {
+        root: t.value, members, start: t.start, end,
+        whole: single && i === 0 && j === tokens.length,
+      };
+      if (isOp(after, EQUALITY)) ref.comparedWith = literalType(tokens[j + 1]);
+      else if (isOp(before, EQUALITY)) ref.comparedWith = literalType(tokens[i - 2]);
+      if (isOp(after, NUMERIC) || isOp(before, NUMERIC)) {
+        ref.numeric = true;
+        ref.comparedWith ??= literalType(isOp(after, NUMERIC) ? tokens[j + 1] : tokens[i - 2]);
+      }
+      refs.push(ref);
+      i = j - 1;
+    }
+  }
+  return refs;
+}
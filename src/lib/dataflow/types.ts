@@ -0,0 +1,67 @@
+/**
+ * Variable data-flow types — process variables known at each step and the
+ * problems found in the expressions that read them.
+ */
+import type { ModuleRef } from "@/types/caseIr";
+
+export type VariableType = "string" | "number" | "boolean" | "date" | "object" | "array" | "unknown";
+
+/** What declares or writes a variable */
+export type VariableOrigin =
+  | "dataModel"
+  | "nodeOutput"
+  | "outputMapping"
+  | "outputParameter"
+  | "inputParameter"
+  | "resultVariable"
+  | "formField"
+  | "callActivityOut"
+  | "elementVariable"
+  | "loopVariable";
+
+export interface VariableDef {
+  name: string;
+  type: VariableType;
+  origin: VariableOrigin;
+  /** Producing step; absent for data model fields and engine loop variables */
+  stepId?: string;
+  stepName?: string;
+  /** JSON Pointer to the declaration */
+  path?: string;
+  /** Known properties of object variables, e.g. a node's outputSchema */
+  fields?: Record<string, VariableType>;
+  description?: string;
+}
+
+/** What the analysis needs to know about the automation node a step is pinned to */
+export interface DataFlowNode {
+  name: string;
+  /** Input name → type, from inputSchema and the node's declared inputs */
+  inputs: Record<string, VariableType>;
+  /** Output field → type, from outputSchema */
+  outputs: Record<string, VariableType>;
+  /** Variable the output object is stored under when instanceConfig has no outputVariable */
+  defaultOutputVariable: string;
+}
+
+/** Looks up the node a step's moduleRef is pinned to; undefined for unknown modules */
+export type NodeResolver = (moduleRef: ModuleRef) => DataFlowNode | undefined;
+
+export type DataFlowIssueKind = "undefined" | "shadowed" | "type-mismatch";
+
+export interface DataFlowIssue {
+  kind: DataFlowIssueKind;
+  severity: "error" | "warning";
+  message: string;
+  /** JSON Pointer to the expression or declaration */
+  path: string;
+  stepId: string;
+}
+
+export interface DataFlowResult {
+  /** Variables visible when each step starts, keyed by step id */
+  scopes: Map<string, VariableDef[]>;
+  /** Variables each step declares for its own output parameters and later steps */
+  outputs: Map<string, VariableDef[]>;
+  issues: DataFlowIssue[];
+}
@@ -0,0 +1,190 @@
+/**
+ * Local DMN decision-table evaluator – matches rules with FEEL unary tests, applies the
+ * hit policy and runs a table's saved test cases. Uses the shared expression evaluator,
+ * so cells behave as they do in the simulator.
+ */
+import type { DecisionTable, DmnRule, DmnTestCase } from "@/types/caseIr";
+import { formatDuration, isDuration } from "@/lib/expression/builtins";
+import { evaluateExpression, evaluateUnaryTests, valuesEqual } from "@/lib/expression/evaluate";
+import { ExpressionError, type ExpressionVariables } from "@/lib/expression/types";
+
+export class DecisionTableError extends Error {
+  constructor(message: string, public readonly ruleIndex?: number) {
+    super(message);
+    this.name = "DecisionTableError";
+  }
+}
+
+export type DecisionOutputs = Record<string, unknown>;
+
+export interface DecisionResult {
+  /** Indices of every rule whose input entries matched, in table order */
+  matched: number[];
+  /** Outputs of the rules that make up the result, in result order */
+  outputs: DecisionOutputs[];
+  /**
+   * Single-hit policies: the winning rule's outputs (null when nothing matched).
+   * COLLECT with an aggregation: the aggregate. Other multi-hit policies: `outputs`.
+   */
+  result: unknown;
+}
+
+const VARIABLE_PATH = /^\s*[A-Za-z_][\w]*(?:\.[A-Za-z_][\w]*)*\s*$/;
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+function feel(text: string, vars: ExpressionVariables, where: string, ruleIndex?: number): unknown {
+  if (!text.trim()) return null;
+  try {
+    return evaluateExpression(text, vars, "feel");
+  } catch (e) {
+    if (e instanceof ExpressionError) throw new DecisionTableError(`${where}: ${e.reason}`, ruleIndex);
+    throw e;
+  }
+}
+
+/** Rank of a rule's outputs by the table's output value lists; lower wins */
+function priorityOf(table: DecisionTable, outputs: DecisionOutputs): number[] {
+  return table.outputs.filter(o => o.outputValues?.length).map(o => {
+    const i = o.outputValues!.findIndex(v => valuesEqual(feel(v, {}, `Output '${o.label}' values`), outputs[o.name]));
+    return i < 0 ? Number.MAX_SAFE_INTEGER : i;
+  });
+}
+
+function byPriority(table: DecisionTable, a: DecisionOutputs, b: DecisionOutputs): number {
+  const pa = priorityOf(table, a);
+  const pb = priorityOf(table, b);
+  for (let i = 0; i < pa.length; i++) if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  return 0;
+}
+
+function ruleNumbers(indices: number[]): string {
+  return indices.map(i => i + 1).join(", ");
+}
+
+function aggregate(table: DecisionTable, outputs: DecisionOutputs[]): unknown {
+  if (table.outputs.length !== 1) throw new DecisionTableError(`COLLECT ${table.aggregation} needs exactly one output`);
+  const name = table.outputs[0].name;
+  if (table.aggregation === "COUNT") return outputs.length;
+  const values = outputs.map(o => o[name]);
+  if (values.some(v => typeof v !== "number")) throw new DecisionTableError(`COLLECT ${table.aggregation} needs numeric outputs`);
+  const nums = values as number[];
+  if (!nums.length) return null;
+  if (table.aggregation === "SUM") return nums.reduce((a, b) => a + b, 0);
+  return table.aggregation === "MIN" ? Math.min(...nums) : Math.max(...nums);
+}
+
+/**
+ * Evaluate a decision table. Input values come from the input expressions evaluated
+ * against `vars`, unless `inputValues` supplies a value for the input id.
+ * Throws DecisionTableError for invalid cells and hit-policy violations.
+ */
+export function evaluateDecisionTable(
+  table: DecisionTable,
+  vars: ExpressionVariables,
+  inputValues: Record<string, unknown> = {},
+): DecisionResult {
+  const values = table.inputs.map(input =>
+    Object.prototype.hasOwnProperty.call(inputValues, input.id)
+      ? inputValues[input.id]
+      : feel(input.expression, vars, `Input '${input.label}'`));
+
+  const matches = (rule: DmnRule, r: number) => table.inputs.every((input, k) => {
+    try {
+      return evaluateUnaryTests(rule.inputEntries[k] ?? "-", values[k], vars);
+    } catch (e) {
+      if (e instanceof ExpressionError) throw new DecisionTableError(`Rule ${r + 1}, input '${input.label}': ${e.reason}`, r);
+      throw e;
+    }
+  });
+  const matched = table.rules.flatMap((rule, r) => (matches(rule, r) ? [r] : []));
+  const outputsOf = (r: number): DecisionOutputs => Object.fromEntries(table.outputs.map((o, k) =>
+    [o.name, feel(table.rules[r].outputEntries[k] ?? "", vars, `Rule ${r + 1}, output '${o.label}'`, r)]));
+  const all = matched.map(outputsOf);
+
+  switch (table.hitPolicy) {
+    case "UNIQUE":
+      if (matched.length > 1) throw new DecisionTableError(`UNIQUE hit policy violated: rules ${ruleNumbers(matched)} all match`, matched[1]);
+      return { matched, outputs: all, result: all[0] ?? null };
+    case "ANY":
+      if (all.some(o => !valuesEqual(o, all[0]))) {
+        throw new DecisionTableError(`ANY hit policy violated: rules ${ruleNumbers(matched)} match with different outputs`, matched[1]);
+      }
+      return { matched, outputs: all.slice(0, 1), result: all[0] ?? null };
+    case "FIRST":
+      return { matched, outputs: all.slice(0, 1), result: all[0] ?? null };
+    case "PRIORITY": {
+      const sorted = [...all].sort((a, b) => byPriority(table, a, b));
+      return { matched, outputs: sorted.slice(0, 1), result: sorted[0] ?? null };
+    }
+    case "OUTPUT ORDER": {
+      const sorted = [...all].sort((a, b) => byPriority(table, a, b));
+      return { matched, outputs: sorted, result: sorted };
+    }
+    case "COLLECT":
+      return { matched, outputs: all, result: table.aggregation ? aggregate(table, all) : all };
+    case "RULE ORDER":
+      return { matched, outputs: all, result: all };
+  }
+}
+
+/** What a test case's expectation for `name` is compared with */
+export function actualOutput(table: DecisionTable, result: DecisionResult, name: string): unknown {
+  if (table.hitPolicy === "COLLECT" && table.aggregation) return result.result;
+  if (table.hitPolicy === "COLLECT" || table.hitPolicy === "RULE ORDER" || table.hitPolicy === "OUTPUT ORDER") {
+    return result.outputs.map(o => o[name]);
+  }
+  return (result.result as DecisionOutputs | null)?.[name] ?? null;
+}
+
+export interface TestCaseResult {
+  passed: boolean;
+  /** Actual value per output id */
+  actual: Record<string, unknown>;
+  /** Ids of outputs whose actual value differs from the expectation */
+  failed: string[];
+  matched: number[];
+  error?: string;
+}
+
+/**
+ * Run one saved test case. Inputs whose expression is a plain variable path are also
+ * exposed as variables so output entries can refer to them.
+ */
+export function runTestCase(table: DecisionTable, tc: DmnTestCase): TestCaseResult {
+  try {
+    const vars: ExpressionVariables = {};
+    const inputValues: Record<string, unknown> = {};
+    for (const input of table.inputs) {
+      const value = feel(tc.inputs[input.id] ?? "", {}, `Test input '${input.label}'`);
+      inputValues[input.id] = value;
+      const path = input.expression.trim().split(".");
+      if (!VARIABLE_PATH.test(input.expression) || path.some(k => UNSAFE_KEYS.has(k))) continue;
+      let target = vars;
+      for (const key of path.slice(0, -1)) {
+        if (typeof target[key] !== "object" || target[key] === null) target[key] = {};
+        target = target[key] as ExpressionVariables;
+      }
+      target[path[path.length - 1]] = value;
+    }
+    const result = evaluateDecisionTable(table, vars, inputValues);
+    const actual = Object.fromEntries(table.outputs.map(o => [o.id, actualOutput(table, result, o.name)]));
+    const failed = table.outputs
+      .filter(o => tc.expected[o.id]?.trim() && !valuesEqual(actual[o.id], feel(tc.expected[o.id], {}, `Expected '${o.label}'`)))
+      .map(o => o.id);
+    return { passed: failed.length === 0, actual, failed, matched: result.matched };
+  } catch (e) {
+    if (!(e instanceof DecisionTableError)) throw e;
+    return { passed: false, actual: {}, failed: [], matched: [], error: e.message };
+  }
+}
+
+/** Display a value as a FEEL literal */
+export function formatValue(v: unknown): string {
+  if (v === null || v === undefined) return "null";
+  if (typeof v === "string") return JSON.stringify(v);
+  if (v instanceof Date) return `date and time("${v.toISOString()}")`;
+  if (isDuration(v)) return `duration("${formatDuration(v)}")`;
+  if (Array.isArray(v)) return `[${v.map(formatValue).join(", ")}]`;
+  if (typeof v === "object") return `{${Object.entries(v).map(([k, x]) => `${k}: ${formatValue(x)}`).join(", ")}}`;
+  return String(v);
+}
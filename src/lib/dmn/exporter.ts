@@ -0,0 +1,72 @@
+/**
+ * DMN Exporter – Case IR decision tables → DMN 1.3 XML for the Camunda 7 engine.
+ * Deployed next to the BPMN; businessRuleTask steps reference decisions by id.
+ */
+import type { CaseIR, DecisionTable } from "@/types/caseIr";
+
+const DMN_NS = "https://www.omg.org/spec/DMN/20191111/MODEL/";
+
+function escapeXml(str: string): string {
+  return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+function text(tag: string, id: string, value: string, ind: string): string {
+  return `${ind}<${tag} id="${id}">\n${ind}  <text>${escapeXml(value)}</text>\n${ind}</${tag}>`;
+}
+
+function renderTable(table: DecisionTable, ind: string): string {
+  const hit = table.hitPolicy !== "UNIQUE" ? ` hitPolicy="${table.hitPolicy}"` : "";
+  const agg = table.hitPolicy === "COLLECT" && table.aggregation ? ` aggregation="${table.aggregation}"` : "";
+  const lines: string[] = [
+    `${ind}<decision id="${escapeXml(table.id)}" name="${escapeXml(table.name)}">`,
+    `${ind}  <decisionTable id="${escapeXml(table.id)}_table"${hit}${agg}>`,
+  ];
+  const inner = `${ind}    `;
+  for (const input of table.inputs) {
+    lines.push(
+      `${inner}<input id="${escapeXml(input.id)}" label="${escapeXml(input.label)}">`,
+      `${inner}  <inputExpression id="${escapeXml(input.id)}_expr" typeRef="${input.typeRef}">`,
+      `${inner}    <text>${escapeXml(input.expression)}</text>`,
+      `${inner}  </inputExpression>`,
+      `${inner}</input>`,
+    );
+  }
+  for (const output of table.outputs) {
+    const attrs = `id="${escapeXml(output.id)}" label="${escapeXml(output.label)}" name="${escapeXml(output.name)}" typeRef="${output.typeRef}"`;
+    if (output.outputValues?.length) {
+      lines.push(
+        `${inner}<output ${attrs}>`,
+        text("outputValues", `${escapeXml(output.id)}_values`, output.outputValues.join(","), `${inner}  `),
+        `${inner}</output>`,
+      );
+    } else {
+      lines.push(`${inner}<output ${attrs} />`);
+    }
+  }
+  for (const rule of table.rules) {
+    const rid = escapeXml(rule.id);
+    lines.push(`${inner}<rule id="${rid}">`);
+    if (rule.description) lines.push(`${inner}  <description>${escapeXml(rule.description)}</description>`);
+    table.inputs.forEach((_, k) => {
+      const entry = rule.inputEntries[k]?.trim();
+      lines.push(text("inputEntry", `${rid}_in${k}`, !entry || entry === "-" ? "" : entry, `${inner}  `));
+    });
+    table.outputs.forEach((_, k) => lines.push(text("outputEntry", `${rid}_out${k}`, rule.outputEntries[k] ?? "", `${inner}  `)));
+    lines.push(`${inner}</rule>`);
+  }
+  lines.push(`${ind}  </decisionTable>`, `${ind}</decision>`);
+  return lines.join("\n");
+}
+
+/** DMN 1.3 definitions holding every decision table of the case; null when there are none */
+export function exportDmn(caseIr: CaseIR): string | null {
+  const tables = caseIr.decisionTables ?? [];
+  if (!tables.length) return null;
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<definitions xmlns="${DMN_NS}" id="${escapeXml(caseIr.id)}_decisions" name="${escapeXml(caseIr.name)} decisions" namespace="http://camunda.org/schema/1.0/dmn">`,
+    ...tables.map(t => renderTable(t, "  ")),
+    `</definitions>`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,39 @@
+/**
+ * Links between decision tables and the businessRuleTask steps whose `decisionRef`
+ * points at them – who uses a table, and the patch that follows a key rename.
+ */
+import type { CaseIR, JsonPatch, Step } from "@/types/caseIr";
+import { stepPath } from "@/lib/patchUtils";
+
+export interface DecisionUsage {
+  step: Step;
+  /** Id path of the step, for patches */
+  path: string;
+}
+
+function collect(steps: Step[], path: (s: Step) => string, out: DecisionUsage[]) {
+  for (const step of steps) {
+    const p = path(step);
+    out.push({ step, path: p });
+    if (step.type === "foreach") collect(step.steps ?? [], s => `${p}/steps[id=${s.id}]`, out);
+    if (step.type === "parallel" || step.type === "inclusive") {
+      for (const b of step.branches) collect(b.steps, s => `${p}/branches[id=${b.id}]/steps[id=${s.id}]`, out);
+    }
+  }
+}
+
+/** Steps (at any nesting depth in either lane) whose decisionRef is `decisionId` */
+export function stepsUsingDecision(caseIr: CaseIR, decisionId: string): DecisionUsage[] {
+  const all: DecisionUsage[] = [];
+  for (const lane of ["stages", "alternativePaths"] as const) {
+    for (const stage of caseIr[lane] ?? []) {
+      for (const group of stage.groups) collect(group.steps, s => stepPath(stage.id, group.id, s.id, lane), all);
+    }
+  }
+  return all.filter(u => u.step.tech?.decisionRef === decisionId);
+}
+
+/** Point every step referencing `from` at `to` */
+export function renameDecisionRefs(caseIr: CaseIR, from: string, to: string): JsonPatch {
+  return stepsUsingDecision(caseIr, from).map(u => ({ op: "replace", path: `${u.path}/tech/decisionRef`, value: to }));
+}
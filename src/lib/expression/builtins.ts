@@ -0,0 +1,158 @@
+/**
+ * Whitelisted built-in functions available to expressions. This is the only code an
+ * expression can call – there is no access to globals, constructors or prototypes.
+ * Names follow FEEL; JUEL may call the single-word ones (e.g. `${count(items)}`).
+ */
+import type { Duration } from "./types";
+
+type Builtin = (...args: unknown[]) => unknown;
+
+const MS_PER = { D: 86_400_000, H: 3_600_000, M: 60_000, S: 1000 };
+
+export function isDuration(v: unknown): v is Duration {
+  return typeof v === "object" && v !== null && (v as Duration).kind === "duration";
+}
+
+/** Parse an ISO 8601 duration (P1Y2M, P3DT4H, PT0.5S, -P1D); null when malformed */
+export function parseDuration(text: string): Duration | null {
+  const m = /^(-)?P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(text.trim());
+  if (!m || /^-?PT?$/.test(text.trim())) return null;
+  const [, neg, y, mo, w, d, h, mi, s] = m;
+  const sign = neg ? -1 : 1;
+  const n = (v?: string) => (v ? Number(v) : 0);
+  return {
+    kind: "duration",
+    months: sign * (n(y) * 12 + n(mo)),
+    ms: sign * ((n(w) * 7 + n(d)) * MS_PER.D + n(h) * MS_PER.H + n(mi) * MS_PER.M + n(s) * MS_PER.S),
+  };
+}
+
+/** ISO 8601 text for a duration, e.g. P1DT2H */
+export function formatDuration(d: Duration): string {
+  const neg = d.months < 0 || d.ms < 0;
+  let months = Math.abs(d.months);
+  let ms = Math.abs(d.ms);
+  let out = neg ? "-P" : "P";
+  if (months >= 12) { out += `${Math.floor(months / 12)}Y`; months %= 12; }
+  if (months) out += `${months}M`;
+  const days = Math.floor(ms / MS_PER.D);
+  ms -= days * MS_PER.D;
+  if (days) out += `${days}D`;
+  if (ms) {
+    out += "T";
+    const h = Math.floor(ms / MS_PER.H); ms -= h * MS_PER.H;
+    const mi = Math.floor(ms / MS_PER.M); ms -= mi * MS_PER.M;
+    if (h) out += `${h}H`;
+    if (mi) out += `${mi}M`;
+    if (ms) out += `${ms / 1000}S`;
+  }
+  return out === "P" || out === "-P" ? "PT0S" : out;
+}
+
+/** Add a duration to a date (calendar months first, then exact time) */
+export function addDuration(date: Date, d: Duration, sign = 1): Date {
+  const out = new Date(date.getTime());
+  if (d.months) out.setUTCMonth(out.getUTCMonth() + sign * d.months);
+  out.setTime(out.getTime() + sign * d.ms);
+  return out;
+}
+
+function toDate(v: unknown, fn: string): Date {
+  if (v instanceof Date) return v;
+  if (typeof v === "string" || typeof v === "number") {
+    const d = new Date(v);
+    if (!Number.isNaN(d.getTime())) return d;
+  }
+  throw new TypeError(`${fn}() expects a date, got ${JSON.stringify(v)}`);
+}
+
+function str(v: unknown, fn: string): string {
+  if (typeof v !== "string") throw new TypeError(`${fn}() expects a string`);
+  return v;
+}
+
+function num(v: unknown, fn: string): number {
+  if (typeof v !== "number") throw new TypeError(`${fn}() expects a number`);
+  return v;
+}
+
+/** FEEL list functions accept either a list or the items as separate arguments */
+function items(args: unknown[], fn: string): unknown[] {
+  if (args.length === 1 && Array.isArray(args[0])) return args[0];
+  if (args.length === 1 && args[0] == null) throw new TypeError(`${fn}() expects a list`);
+  return args;
+}
+
+function numbers(args: unknown[], fn: string): number[] {
+  return items(args, fn).map(v => num(v, fn));
+}
+
+/** Format a value the way FEEL's string() does */
+export function stringOf(v: unknown): string {
+  if (v == null) return "null";
+  if (v instanceof Date) return v.toISOString();
+  if (isDuration(v)) return formatDuration(v);
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+const BUILTINS: Record<string, Builtin> = {
+  "not": v => (typeof v === "boolean" ? !v : null),
+  "string": v => stringOf(v),
+  "number": v => {
+    if (typeof v === "number") return v;
+    const n = Number(str(v, "number"));
+    return v === "" || Number.isNaN(n) ? null : n;
+  },
+  "string length": v => str(v, "string length").length,
+  "upper case": v => str(v, "upper case").toUpperCase(),
+  "lower case": v => str(v, "lower case").toLowerCase(),
+  // FEEL positions are 1-based; a negative start counts from the end
+  "substring": (v, start, length) => {
+    const s = str(v, "substring");
+    const from = num(start, "substring");
+    const i = from > 0 ? from - 1 : Math.max(0, s.length + from);
+    return length == null ? s.slice(i) : s.slice(i, i + num(length, "substring"));
+  },
+  "contains": (v, part) => str(v, "contains").includes(str(part, "contains")),
+  "starts with": (v, part) => str(v, "starts with").startsWith(str(part, "starts with")),
+  "ends with": (v, part) => str(v, "ends with").endsWith(str(part, "ends with")),
+  "count": (...args) => items(args, "count").length,
+  "sum": (...args) => numbers(args, "sum").reduce((a, b) => a + b, 0),
+  "min": (...args) => { const n = numbers(args, "min"); return n.length ? Math.min(...n) : null; },
+  "max": (...args) => { const n = numbers(args, "max"); return n.length ? Math.max(...n) : null; },
+  "mean": (...args) => { const n = numbers(args, "mean"); return n.length ? n.reduce((a, b) => a + b, 0) / n.length : null; },
+  "list contains": (list, v) => {
+    if (!Array.isArray(list)) throw new TypeError("list contains() expects a list");
+    return list.includes(v);
+  },
+  "abs": v => Math.abs(num(v, "abs")),
+  "floor": v => Math.floor(num(v, "floor")),
+  "ceiling": v => Math.ceil(num(v, "ceiling")),
+  "decimal": (v, scale) => Number(num(v, "decimal").toFixed(num(scale, "decimal"))),
+  // Sign follows the divisor, as FEEL specifies
+  "modulo": (a, b) => { const d = num(b, "modulo"); return d === 0 ? null : ((num(a, "modulo") % d) + d) % d; },
+  "now": () => new Date(),
+  "today": () => { const d = new Date(); d.setUTCHours(0, 0, 0, 0); return d; },
+  "date": (v, m, d) => {
+    if (m != null) return new Date(Date.UTC(num(v, "date"), num(m, "date") - 1, num(d, "date")));
+    const date = toDate(v, "date");
+    date.setUTCHours(0, 0, 0, 0);
+    return date;
+  },
+  "date and time": v => new Date(toDate(v, "date and time").getTime()),
+  "duration": v => {
+    const d = parseDuration(str(v, "duration"));
+    if (!d) throw new TypeError(`duration() expects an ISO 8601 duration, got "${v}"`);
+    return d;
+  },
+};
+
+export const FEEL_FUNCTION_NAMES = Object.keys(BUILTINS);
+
+/** JUEL identifiers cannot contain spaces, so only single-word built-ins are callable there */
+export const JUEL_FUNCTION_NAMES = FEEL_FUNCTION_NAMES.filter(n => !n.includes(" "));
+
+export function getBuiltin(name: string): Builtin | undefined {
+  return Object.prototype.hasOwnProperty.call(BUILTINS, name) ? BUILTINS[name] : undefined;
+}
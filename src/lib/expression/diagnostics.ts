@@ -0,0 +1,182 @@
+/**
+ * Expression diagnostics – syntax errors and warnings with source ranges, plus the token
+ * classification the Studio's expression fields use for syntax highlighting.
+ */
+import { tokenize, type Token } from "./lexer";
+import { FEEL_FUNCTION_NAMES, JUEL_FUNCTION_NAMES } from "./builtins";
+import { closingBrace, MULTI_WORD_FUNCTIONS, parseExpression, parseFeel, parseUnaryTests } from "./parser";
+import { ExpressionError, type ExpressionDialect, type ExprNode, type SourceRange } from "./types";
+
+export interface ExpressionDiagnostic {
+  severity: "error" | "warning";
+  message: string;
+  range: SourceRange;
+}
+
+export type HighlightKind =
+  | "text" | "delimiter" | "keyword" | "name" | "function" | "number" | "string" | "operator" | "error";
+
+export interface HighlightSegment extends SourceRange {
+  kind: HighlightKind;
+}
+
+/** `=` prefix selects FEEL, `${...}` JUEL, anything else is plain text */
+export function detectDialect(text: string): ExpressionDialect | null {
+  if (text.trimStart().startsWith("=")) return "feel";
+  return /[$#]\{/.test(text) ? "juel" : null;
+}
+
+function children(node: ExprNode): ExprNode[] {
+  switch (node.kind) {
+    case "literal": case "name": return [];
+    case "member": return [node.object];
+    case "index": return [node.object, node.index];
+    case "call": return node.args;
+    case "method": return [node.object, ...node.args];
+    case "unary": return [node.operand];
+    case "binary": return [node.left, node.right];
+    case "conditional": return [node.test, node.consequent, node.alternate];
+    case "list": return node.items;
+    case "context": return node.entries.map(e => e.value);
+    case "range": return [node.low, node.high];
+    case "between": return [node.value, node.low, node.high];
+    case "in": return [node.value, ...node.tests];
+  }
+}
+
+/** Depth-first walk over a syntax tree */
+export function visitNodes(node: ExprNode, visit: (node: ExprNode) => void): void {
+  visit(node);
+  for (const child of children(node)) visitNodes(child, visit);
+}
+
+/** Syntax errors and unknown functions in what a designer typed into an expression field */
+export function checkExpression(text: string): ExpressionDiagnostic[] {
+  let roots: ExprNode[];
+  let dialect: ExpressionDialect;
+  try {
+    const parsed = parseExpression(text);
+    if (parsed.dialect === "plain") return [];
+    dialect = parsed.dialect;
+    roots = parsed.dialect === "feel"
+      ? [parsed.node]
+      : parsed.parts.flatMap(p => (p.kind === "expression" ? [p.node] : []));
+  } catch (e) {
+    if (!(e instanceof ExpressionError)) throw e;
+    return [{ severity: "error", message: e.reason, range: e.range ?? { start: 0, end: text.length } }];
+  }
+  return unknownFunctions(roots, dialect === "feel" ? FEEL_FUNCTION_NAMES : JUEL_FUNCTION_NAMES);
+}
+
+function unknownFunctions(roots: ExprNode[], known: string[]): ExpressionDiagnostic[] {
+  const out: ExpressionDiagnostic[] = [];
+  for (const root of roots) {
+    visitNodes(root, node => {
+      if (node.kind === "call" && !known.includes(node.callee)) {
+        out.push({ severity: "warning", message: `Unknown function '${node.callee}'`, range: { start: node.start, end: node.start + node.callee.length } });
+      }
+    });
+  }
+  return out;
+}
+
+/** Syntax errors in a DMN cell: unary tests for input entries, a FEEL expression for output entries */
+export function checkFeelCell(text: string, kind: "input" | "output"): ExpressionDiagnostic[] {
+  if (!text.trim() || (kind === "input" && text.trim() === "-")) return [];
+  try {
+    const roots = kind === "input" ? parseUnaryTests(text).tests : [parseFeel(text)];
+    return unknownFunctions(roots, FEEL_FUNCTION_NAMES);
+  } catch (e) {
+    if (!(e instanceof ExpressionError)) throw e;
+    return [{ severity: "error", message: e.reason, range: e.range ?? { start: 0, end: text.length } }];
+  }
+}
+
+/** Tokens of `text[start, end)`, stopping at the first character the lexer rejects */
+function safeTokens(text: string, dialect: ExpressionDialect, start: number, end: number): { tokens: Token[]; errorAt: number | null } {
+  try {
+    return { tokens: tokenize(text, dialect, start, end).slice(0, -1), errorAt: null };
+  } catch (e) {
+    if (!(e instanceof ExpressionError) || !e.range) throw e;
+    const errorAt = e.range.start;
+    return { tokens: errorAt > start ? safeTokens(text, dialect, start, errorAt).tokens : [], errorAt };
+  }
+}
+
+function classify(tokens: Token[], dialect: ExpressionDialect, text: string): HighlightSegment[] {
+  const out: HighlightSegment[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (dialect === "feel") {
+      const words = MULTI_WORD_FUNCTIONS.find(ws => ws.every((w, k) => tokens[i + k]?.value === w) && tokens[i + ws.length]?.value === "(");
+      if (words) {
+        out.push({ kind: "function", start: t.start, end: tokens[i + words.length - 1].end });
+        i += words.length - 1;
+        continue;
+      }
+    }
+    let kind: HighlightKind;
+    if (t.kind === "number" || t.kind === "string" || t.kind === "keyword") kind = t.kind;
+    else if (t.kind === "name") kind = tokens[i + 1]?.value === "(" ? "function" : "name";
+    // JUEL word operators (`and`, `eq`, …) read as keywords
+    else kind = /^[a-z]/.test(text.slice(t.start, t.end)) ? "keyword" : "operator";
+    out.push({ kind, start: t.start, end: t.end });
+  }
+  return out;
+}
+
+/**
+ * Split `text` into highlight segments covering every character. Parts the lexer
+ * rejects are marked `error`; plain text (no `=` or `${`) is a single text segment.
+ */
+export function highlightTokens(text: string): HighlightSegment[] {
+  const dialect = detectDialect(text);
+  const out: HighlightSegment[] = [];
+  const push = (kind: HighlightKind, start: number, end: number) => {
+    if (end > start) out.push({ kind, start, end });
+  };
+  const body = (start: number, end: number, d: ExpressionDialect) => {
+    const { tokens, errorAt } = safeTokens(text, d, start, end);
+    let pos = start;
+    for (const seg of classify(tokens, d, text)) {
+      push("text", pos, seg.start);
+      out.push(seg);
+      pos = seg.end;
+    }
+    if (errorAt !== null) {
+      push("text", pos, errorAt);
+      push("error", errorAt, end);
+    } else {
+      push("text", pos, end);
+    }
+  };
+
+  if (dialect === "feel") {
+    const eq = text.indexOf("=");
+    push("text", 0, eq);
+    push("delimiter", eq, eq + 1);
+    body(eq + 1, text.length, "feel");
+  } else if (dialect === "juel") {
+    let i = 0;
+    for (;;) {
+      const found = text.slice(i).search(/[$#]\{/);
+      if (found < 0) break;
+      const open = i + found;
+      push("text", i, open);
+      push("delimiter", open, open + 2);
+      const close = closingBrace(text, open + 2);
+      if (close < 0) {
+        body(open + 2, text.length, "juel");
+        i = text.length;
+        break;
+      }
+      body(open + 2, close, "juel");
+      push("delimiter", close, close + 1);
+      i = close + 1;
+    }
+    push("text", i, text.length);
+  } else {
+    push("text", 0, text.length);
+  }
+  return out;
+}
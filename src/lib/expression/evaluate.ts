@@ -0,0 +1,427 @@
+/**
+ * Sandboxed evaluator for parsed JUEL and FEEL expressions, shared by the simulator, the
+ * business-rule tester and the questionnaire-fill function. It walks the syntax tree directly – nothing is compiled or
+ * passed to `eval` – and can only read own properties of the supplied variables, call the
+ * whitelisted built-ins and a small set of JUEL methods. Evaluation is capped by a step
+ * budget so a pathological expression cannot hang the Studio.
+ */
+import {
+  addDuration, getBuiltin, isDuration, JUEL_FUNCTION_NAMES, stringOf,
+} from "./builtins";
+import { visitNodes } from "./diagnostics";
+import { parseExpression, parseFeel, parseTemplate, parseUnaryTests } from "./parser";
+import {
+  ExpressionError, type Duration, type ExpressionDialect, type ExpressionVariables, type ExprNode,
+  type ParsedExpression, type RangeValue,
+} from "./types";
+
+const MAX_STEPS = 10_000;
+const BLOCKED_PROPERTIES = new Set(["__proto__", "constructor", "prototype"]);
+
+/** Stand-in for the engine's `execution` bean so `${execution.getVariable('x')}` works */
+const EXECUTION = Symbol("execution");
+
+type Scope = Record<string, unknown>;
+
+function own(target: object, key: string): boolean {
+  return !BLOCKED_PROPERTIES.has(key) && Object.prototype.hasOwnProperty.call(target, key);
+}
+
+export function isEmpty(v: unknown): boolean {
+  if (v === null || v === undefined || v === "") return true;
+  if (Array.isArray(v)) return v.length === 0;
+  if (typeof v === "object" && !(v instanceof Date)) return Object.keys(v as object).length === 0;
+  return false;
+}
+
+function isRange(v: unknown): v is RangeValue {
+  return typeof v === "object" && v !== null && (v as RangeValue).kind === "range";
+}
+
+function durationMs(d: Duration): number {
+  return d.months * 30 * 86_400_000 + d.ms;
+}
+
+/** FEEL equality: dates by instant, durations, lists and contexts structurally */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (isDuration(a) && isDuration(b)) return a.months === b.months && a.ms === b.ms;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => valuesEqual(v, b[i]));
+  if (a && b && typeof a === "object" && typeof b === "object" && !Array.isArray(a) && !Array.isArray(b)) {
+    const ka = Object.keys(a);
+    return ka.length === Object.keys(b).length
+      && ka.every(k => valuesEqual((a as Scope)[k], (b as Scope)[k]));
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+/** Ordering for FEEL values of the same type; null when they are not comparable */
+export function compareValues(a: unknown, b: unknown): number | null {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") return a < b ? -1 : a > b ? 1 : 0;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (isDuration(a) && isDuration(b)) return durationMs(a) - durationMs(b);
+  return null;
+}
+
+export function inRange(v: unknown, r: RangeValue): boolean {
+  const low = r.start == null ? -1 : compareValues(v, r.start);
+  const high = r.end == null ? -1 : compareValues(r.end, v);
+  if (low === null || high === null) return false;
+  return (r.start == null || low > 0 || (low === 0 && r.startIncluded))
+    && (r.end == null || high > 0 || (high === 0 && r.endIncluded));
+}
+
+/** Does `v` satisfy one positive unary test value (a range, a list of candidates or a value)? */
+export function matchesTest(v: unknown, test: unknown): boolean {
+  if (isRange(test)) return inRange(v, test);
+  if (Array.isArray(test)) return test.some(t => matchesTest(v, t));
+  if (typeof test === "boolean" && typeof v !== "boolean") return test;
+  return valuesEqual(v, test);
+}
+
+const DATE_PROPERTIES: Record<string, (d: Date) => number> = {
+  year: d => d.getUTCFullYear(),
+  month: d => d.getUTCMonth() + 1,
+  day: d => d.getUTCDate(),
+  weekday: d => d.getUTCDay() || 7,
+  hour: d => d.getUTCHours(),
+  minute: d => d.getUTCMinutes(),
+  second: d => d.getUTCSeconds(),
+};
+
+class Evaluator {
+  private steps = 0;
+
+  constructor(
+    private readonly dialect: ExpressionDialect,
+    private readonly vars: ExpressionVariables,
+    private readonly text: string,
+  ) {}
+
+  private fail(reason: string, node: ExprNode): never {
+    throw new ExpressionError(reason, this.text, { start: node.start, end: node.end });
+  }
+
+  private lookup(name: string, scopes: Scope[]): unknown {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      if (own(scopes[i], name)) return scopes[i][name];
+    }
+    if (own(this.vars, name)) return this.vars[name];
+    if (this.dialect === "juel" && name === "execution") return EXECUTION;
+    return this.dialect === "juel" ? undefined : null;
+  }
+
+  private member(target: unknown, key: string): unknown {
+    if (target === null || target === undefined) return this.dialect === "juel" ? undefined : null;
+    if (this.dialect === "feel") {
+      if (Array.isArray(target)) return target.map(item => this.member(item, key));
+      if (target instanceof Date) return own(DATE_PROPERTIES, key) ? DATE_PROPERTIES[key](target) : null;
+      if (isDuration(target)) {
+        if (key === "years") return Math.trunc(target.months / 12);
+        if (key === "months") return target.months % 12;
+        if (key === "days") return Math.trunc(target.ms / 86_400_000);
+        if (key === "hours") return Math.trunc(target.ms / 3_600_000) % 24;
+        if (key === "minutes") return Math.trunc(target.ms / 60_000) % 60;
+        if (key === "seconds") return (target.ms / 1000) % 60;
+      }
+    } else if (Array.isArray(target) && key === "size") {
+      return target.length;
+    }
+    if ((typeof target === "object" || typeof target === "string") && own(Object(target), key)) {
+      return (target as Record<string, unknown>)[key];
+    }
+    return this.dialect === "juel" ? undefined : null;
+  }
+
+  eval(node: ExprNode, scopes: Scope[] = []): unknown {
+    if (++this.steps > MAX_STEPS) this.fail("Expression is too complex to evaluate", node);
+    switch (node.kind) {
+      case "literal": return node.value;
+      case "name": return this.lookup(node.name, scopes);
+      case "member": return this.member(this.eval(node.object, scopes), node.property);
+      case "index": return this.index(node, scopes);
+      case "call": return this.call(node, scopes);
+      case "method": return this.method(node, scopes);
+      case "unary": return this.unary(node, scopes);
+      case "binary": return this.binary(node, scopes);
+      case "conditional": {
+        const test = this.eval(node.test, scopes);
+        const pass = this.dialect === "juel" ? Boolean(test) : test === true;
+        return this.eval(pass ? node.consequent : node.alternate, scopes);
+      }
+      case "list": return node.items.map(item => this.eval(item, scopes));
+      case "context": {
+        const out: Scope = {};
+        for (const { key, value } of node.entries) {
+          if (BLOCKED_PROPERTIES.has(key)) this.fail(`'${key}' cannot be used as a key`, node);
+          // Later entries can refer to earlier ones, as in FEEL
+          out[key] = this.eval(value, [...scopes, out]);
+        }
+        return out;
+      }
+      case "range": {
+        const range: RangeValue = {
+          kind: "range",
+          start: this.eval(node.low, scopes),
+          end: this.eval(node.high, scopes),
+          startIncluded: node.startIncluded,
+          endIncluded: node.endIncluded,
+        };
+        return range;
+      }
+      case "between": {
+        const v = this.eval(node.value, scopes);
+        const low = compareValues(v, this.eval(node.low, scopes));
+        const high = compareValues(this.eval(node.high, scopes), v);
+        return low === null || high === null ? null : low >= 0 && high >= 0;
+      }
+      case "in": {
+        const v = this.eval(node.value, scopes);
+        return node.tests.some(t => matchesTest(v, this.eval(t, scopes)));
+      }
+    }
+  }
+
+  private index(node: Extract<ExprNode, { kind: "index" }>, scopes: Scope[]): unknown {
+    const target = this.eval(node.object, scopes);
+    if (this.dialect === "juel") {
+      const key = this.eval(node.index, scopes);
+      return key === null || key === undefined ? undefined : this.member(target, String(key));
+    }
+    if (target === null) return null;
+    const list = Array.isArray(target) ? target : [target];
+    const itemScope = (item: unknown): Scope[] => [
+      ...scopes,
+      item && typeof item === "object" && !Array.isArray(item) ? { ...(item as Scope), item } : { item },
+    ];
+    // A numeric selector indexes (1-based, negative from the end); anything else filters
+    const probe = this.eval(node.index, list.length ? itemScope(list[0]) : scopes);
+    if (typeof probe === "number") {
+      const i = probe > 0 ? probe - 1 : list.length + probe;
+      return list[i] ?? null;
+    }
+    return list.filter(item => this.eval(node.index, itemScope(item)) === true);
+  }
+
+  private call(node: Extract<ExprNode, { kind: "call" }>, scopes: Scope[]): unknown {
+    const fn = this.dialect === "feel" || JUEL_FUNCTION_NAMES.includes(node.callee) ? getBuiltin(node.callee) : undefined;
+    if (!fn) this.fail(`Unknown function '${node.callee}'`, node);
+    const args = node.args.map(a => this.eval(a, scopes));
+    try {
+      return fn(...args);
+    } catch (e) {
+      if (e instanceof TypeError) this.fail(e.message, node);
+      throw e;
+    }
+  }
+
+  private method(node: Extract<ExprNode, { kind: "method" }>, scopes: Scope[]): unknown {
+    const target = this.eval(node.object, scopes);
+    const args = node.args.map(a => this.eval(a, scopes));
+    const m = node.method;
+    if (target === EXECUTION) {
+      if (m === "getVariable") return own(this.vars, String(args[0])) ? this.vars[String(args[0])] : null;
+      if (m === "hasVariable") return own(this.vars, String(args[0]));
+      if (m === "getVariables") return { ...this.vars };
+    } else if (typeof target === "string") {
+      const s = String(args[0] ?? "");
+      switch (m) {
+        case "length": return target.length;
+        case "toUpperCase": return target.toUpperCase();
+        case "toLowerCase": return target.toLowerCase();
+        case "trim": return target.trim();
+        case "isEmpty": return target.length === 0;
+        case "contains": return target.includes(s);
+        case "startsWith": return target.startsWith(s);
+        case "endsWith": return target.endsWith(s);
+        case "equals": return target === args[0];
+        case "indexOf": return target.indexOf(s);
+        case "substring": return target.substring(Number(args[0]), args[1] === undefined ? undefined : Number(args[1]));
+      }
+    } else if (Array.isArray(target)) {
+      switch (m) {
+        case "size": return target.length;
+        case "isEmpty": return target.length === 0;
+        case "contains": return target.some(v => valuesEqual(v, args[0]));
+        case "get": return target[Number(args[0])] ?? null;
+      }
+    } else if (target && typeof target === "object") {
+      const key = String(args[0]);
+      switch (m) {
+        case "get": return own(target, key) ? (target as Scope)[key] : null;
+        case "containsKey": return own(target, key);
+        case "size": return Object.keys(target).length;
+        case "isEmpty": return Object.keys(target).length === 0;
+      }
+    } else if (target === null || target === undefined) {
+      this.fail(`Cannot call '${m}()' on null`, node);
+    }
+    return this.fail(`Method '${m}()' is not available`, node);
+  }
+
+  private unary(node: Extract<ExprNode, { kind: "unary" }>, scopes: Scope[]): unknown {
+    const v = this.eval(node.operand, scopes);
+    if (node.op === "!") return !v;
+    if (node.op === "empty") return isEmpty(v);
+    if (this.dialect === "juel") return -Number(v);
+    if (typeof v === "number") return -v;
+    if (isDuration(v)) return { kind: "duration", months: -v.months, ms: -v.ms } satisfies Duration;
+    return null;
+  }
+
+  private binary(node: Extract<ExprNode, { kind: "binary" }>, scopes: Scope[]): unknown {
+    const { op } = node;
+    if (op === "&&" || op === "||") return this.logical(node, scopes);
+    const left = this.eval(node.left, scopes);
+    const right = this.eval(node.right, scopes);
+    return this.dialect === "juel" ? juelBinary(op, left, right) : feelBinary(op, left, right);
+  }
+
+  private logical(node: Extract<ExprNode, { kind: "binary" }>, scopes: Scope[]): unknown {
+    const and = node.op === "&&";
+    if (this.dialect === "juel") {
+      const left = Boolean(this.eval(node.left, scopes));
+      if (and ? !left : left) return left;
+      return Boolean(this.eval(node.right, scopes));
+    }
+    // FEEL three-valued logic: false wins for `and`, true wins for `or`, otherwise null
+    const left = this.eval(node.left, scopes);
+    if (left === !and) return left;
+    const right = this.eval(node.right, scopes);
+    if (right === !and) return right;
+    return left === and && right === and ? and : null;
+  }
+}
+
+function juelBinary(op: string, left: unknown, right: unknown): unknown {
+  switch (op) {
+    case "==":
+    case "!=": {
+      // JUEL coerces numbers and numeric strings for equality
+      const eq = typeof left === "number" || typeof right === "number"
+        ? Number(left) === Number(right)
+        : left === right;
+      return op === "==" ? eq : !eq;
+    }
+    case "<": case ">": case "<=": case ">=": {
+      const strings = typeof left === "string" && typeof right === "string";
+      const a = strings ? left : Number(left);
+      const b = strings ? right : Number(right);
+      return op === "<" ? a < b : op === ">" ? a > b : op === "<=" ? a <= b : a >= b;
+    }
+    case "+":
+    case "-":
+      // Date arithmetic such as `${now() + duration('P3D')}` follows FEEL
+      if (left instanceof Date || right instanceof Date || isDuration(left) || isDuration(right)) return feelBinary(op, left, right);
+      return op === "+" ? Number(left) + Number(right) : Number(left) - Number(right);
+    case "*": return Number(left) * Number(right);
+    case "/": return Number(left) / Number(right);
+    default: return Number(left) % Number(right);
+  }
+}
+
+function feelBinary(op: string, left: unknown, right: unknown): unknown {
+  if (op === "==") return valuesEqual(left, right);
+  if (op === "!=") return !valuesEqual(left, right);
+  if (left === null || left === undefined || right === null || right === undefined) return null;
+  if (op === "<" || op === ">" || op === "<=" || op === ">=") {
+    const c = compareValues(left, right);
+    if (c === null) return null;
+    return op === "<" ? c < 0 : op === ">" ? c > 0 : op === "<=" ? c <= 0 : c >= 0;
+  }
+  if (typeof left === "number" && typeof right === "number") {
+    switch (op) {
+      case "+": return left + right;
+      case "-": return left - right;
+      case "*": return left * right;
+      case "/": return right === 0 ? null : left / right;
+      case "**": return left ** right;
+    }
+  }
+  if (op === "+" && typeof left === "string" && typeof right === "string") return left + right;
+  if (left instanceof Date && isDuration(right) && (op === "+" || op === "-")) return addDuration(left, right, op === "+" ? 1 : -1);
+  if (isDuration(left) && right instanceof Date && op === "+") return addDuration(right, left);
+  if (left instanceof Date && right instanceof Date && op === "-") {
+    return { kind: "duration", months: 0, ms: left.getTime() - right.getTime() } satisfies Duration;
+  }
+  if (isDuration(left) && isDuration(right) && (op === "+" || op === "-")) {
+    const s = op === "+" ? 1 : -1;
+    return { kind: "duration", months: left.months + s * right.months, ms: left.ms + s * right.ms } satisfies Duration;
+  }
+  if (isDuration(left) && typeof right === "number" && (op === "*" || op === "/")) {
+    const f = op === "*" ? right : 1 / right;
+    return { kind: "duration", months: Math.round(left.months * f), ms: Math.round(left.ms * f) } satisfies Duration;
+  }
+  return null;
+}
+
+/** Evaluate one parsed expression node */
+export function evaluateNode(node: ExprNode, text: string, vars: ExpressionVariables, dialect: ExpressionDialect): unknown {
+  return new Evaluator(dialect, vars, text).eval(node);
+}
+
+function evaluateParsed(parsed: ParsedExpression, text: string, vars: ExpressionVariables): unknown {
+  if (parsed.dialect === "plain") return parsed.text;
+  if (parsed.dialect === "feel") return evaluateNode(parsed.node, text, vars, "feel");
+  const evaluator = new Evaluator("juel", vars, text);
+  const meaningful = parsed.parts.filter(p => p.kind === "expression" || p.text.trim());
+  if (meaningful.length === 1 && meaningful[0].kind === "expression") return evaluator.eval(meaningful[0].node);
+  return parsed.parts.map(p => {
+    if (p.kind === "text") return p.text;
+    const v = evaluator.eval(p.node);
+    return v === undefined || v === null ? "" : typeof v === "object" ? stringOf(v) : String(v);
+  }).join("");
+}
+
+/**
+ * Evaluate an expression against the variable map.
+ * - `${expr}` → value of expr; text containing `${expr}` → interpolated string
+ * - `=expr` → FEEL value
+ * - anything else → returned verbatim
+ * Pass `dialect: "feel"` to read the whole text as FEEL without the `=` prefix (DMN cells).
+ */
+export function evaluateExpression(expression: string, vars: ExpressionVariables, dialect?: ExpressionDialect): unknown {
+  if (dialect === "feel") {
+    const lead = expression.length - expression.trimStart().length;
+    const start = expression.trimStart().startsWith("=") ? lead + 1 : 0;
+    return evaluateNode(parseFeel(expression, start), expression, vars, "feel");
+  }
+  if (dialect === "juel") return evaluateParsed({ dialect: "juel", parts: parseTemplate(expression) }, expression, vars);
+  return evaluateParsed(parseExpression(expression), expression, vars);
+}
+
+/**
+ * Evaluate a condition; empty text and a bare `${default}` placeholder (as written by the
+ * importer) never match. Text that is neither JUEL nor FEEL is rejected rather than read as a
+ * truthy string. FEEL must yield true; JUEL coerces like the engine (`true` or the text "true").
+ */
+export function evaluateCondition(expression: string, vars: ExpressionVariables): boolean {
+  const text = expression.trim();
+  if (!text || text === "${default}") return false;
+  const parsed = parseExpression(expression);
+  if (parsed.dialect === "plain") {
+    throw new ExpressionError("Not an expression – write ${...} for JUEL or =... for FEEL", expression);
+  }
+  const value = evaluateParsed(parsed, expression, vars);
+  if (parsed.dialect === "feel") return value === true;
+  return value === true || (typeof value === "string" && value.trim().toLowerCase() === "true");
+}
+
+/**
+ * Does `input` satisfy a DMN input entry? Tests that mention `?` (including the
+ * `< 10` shorthand) must evaluate to true; other tests are values, lists or ranges
+ * the input is matched against.
+ */
+export function evaluateUnaryTests(text: string, input: unknown, vars: ExpressionVariables = {}): boolean {
+  const { negated, tests } = parseUnaryTests(text);
+  if (!tests.length) return true;
+  const scope = { ...vars, "?": input };
+  const hit = tests.some(test => {
+    const value = evaluateNode(test, text, scope, "feel");
+    let usesInput = false;
+    visitNodes(test, n => { if (n.kind === "name" && n.name === "?") usesInput = true; });
+    return usesInput ? value === true : matchesTest(input, value);
+  });
+  return negated ? !hit : hit;
+}
@@ -0,0 +1,282 @@
+/**
+ * Form validation – the rules of form template fields: required (also conditionally, via a
+ * FEEL `requiredWhen` over the form's values), regex patterns, min/max, accepted file types,
+ * comparisons with other fields and values that must be unique within a repeatable group.
+ * Every rule may carry a custom message. The Studio's form preview enforces them live and
+ * the task-form runtime runs the same pure `validateForm` before completing a task.
+ *
+ * Values reach the rules as the form holds them; numbers may arrive as text. Dates are ISO
+ * `yyyy-mm-dd` text, so comparing two dates compares the text. Fields left undefined take
+ * their default value, and a required checkbox must be ticked. Rules that are themselves
+ * broken (a pattern that does not compile, a condition that does not evaluate) never block a
+ * submission – `fieldRuleProblems` reports them to the designer instead. Fields in a
+ * repeatable row see the row's values and those of the form around it.
+ */
+import type { FieldComparisonOperator, ModuleConfigField } from "@/types/caseIr";
+import { compareValues, evaluateExpression, isEmpty } from "@/lib/expression/evaluate";
+import { checkFeelCell, visitNodes } from "@/lib/expression/diagnostics";
+import { parseFeel } from "@/lib/expression/parser";
+import { ExpressionError } from "@/lib/expression/types";
+
+export type FormValues = Record<string, unknown>;
+
+/** The first failed rule per field; fields in repeatable rows are keyed `items[0].name` */
+export type FormErrors = Record<string, string>;
+
+export interface FieldRuleProblem {
+  severity: "error" | "warning";
+  message: string;
+}
+
+const NUMBER_TYPES = new Set<ModuleConfigField["type"]>(["number", "slider", "rating"]);
+const TEXT_TYPES = new Set<ModuleConfigField["type"]>(["string", "multiline", "email", "url", "password", "richtext"]);
+
+const COMPARISON_WORDS: Record<FieldComparisonOperator, { date: string; other: string }> = {
+  "<": { date: "before", other: "less than" },
+  "<=": { date: "on or before", other: "at most" },
+  ">": { date: "after", other: "greater than" },
+  ">=": { date: "on or after", other: "at least" },
+  "=": { date: "the same as", other: "equal to" },
+  "!=": { date: "different from", other: "different from" },
+};
+
+export function describeComparison(operator: FieldComparisonOperator, dates: boolean): string {
+  return COMPARISON_WORDS[operator][dates ? "date" : "other"];
+}
+
+function labelOf(field: ModuleConfigField): string {
+  return field.label || field.key;
+}
+
+/** A field's value with numbers as numbers, booleans as booleans and blanks as null */
+export function fieldValue(field: ModuleConfigField, raw: unknown): unknown {
+  const value = raw === undefined ? field.defaultValue : raw;
+  if (value === undefined || value === null) return null;
+  if (NUMBER_TYPES.has(field.type)) {
+    if (typeof value === "number") return value;
+    if (typeof value !== "string" || value.trim() === "") return null;
+    const n = Number(value);
+    return Number.isNaN(n) ? null : n;
+  }
+  if (field.type === "boolean") return value === true || value === "true";
+  if (typeof value === "string") return value.trim() === "" ? null : value;
+  return isEmpty(value) ? null : value;
+}
+
+function formContext(fields: ModuleConfigField[], values: FormValues, outer: FormValues = {}): FormValues {
+  const context: FormValues = { ...outer };
+  for (const f of fields) context[f.key] = fieldValue(f, values[f.key]);
+  return context;
+}
+
+function conditionHolds(text: string, context: FormValues): boolean {
+  try {
+    return evaluateExpression(text, context, "feel") === true;
+  } catch (e) {
+    if (e instanceof ExpressionError) return false;
+    throw e;
+  }
+}
+
+/**
+ * The pattern as <input pattern> compiles it: anchored, with the `v` flag. Patterns only
+ * valid without a flag (identity escapes such as `\-` outside a class) still apply.
+ */
+export function compilePattern(pattern: string): RegExp | null {
+  for (const flags of ["v", ""]) {
+    try {
+      return new RegExp(`^(?:${pattern})$`, flags);
+    } catch {
+      // try the next flags
+    }
+  }
+  return null;
+}
+
+/** Name of an uploaded file, a File or a plain file name */
+function fileName(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  if (typeof value === "object" && value !== null && typeof (value as { name?: unknown }).name === "string") {
+    return (value as { name: string }).name;
+  }
+  return null;
+}
+
+/** `accept` as in <input type="file">: extensions (`.pdf`), MIME types and `image/*` */
+function acceptsFile(accept: string, value: unknown): boolean {
+  const name = fileName(value)?.toLowerCase();
+  if (!name) return true;
+  const mime = typeof value === "object" && value !== null ? String((value as { type?: unknown }).type ?? "").toLowerCase() : "";
+  return accept.split(",").map((a) => a.trim().toLowerCase()).filter(Boolean).some((a) => {
+    if (a.startsWith(".")) return name.endsWith(a);
+    if (a.endsWith("/*")) return mime.startsWith(a.slice(0, -1));
+    return mime === a;
+  });
+}
+
+function comparisonHolds(operator: FieldComparisonOperator, order: number): boolean {
+  switch (operator) {
+    case "<": return order < 0;
+    case "<=": return order <= 0;
+    case ">": return order > 0;
+    case ">=": return order >= 0;
+    case "=": return order === 0;
+    case "!=": return order !== 0;
+  }
+}
+
+/** Is the field required for these values – always, or because its `requiredWhen` holds? */
+export function isFieldRequired(field: ModuleConfigField, context: FormValues): boolean {
+  if (field.required) return true;
+  const condition = field.requiredWhen?.trim();
+  return condition ? conditionHolds(condition, context) : false;
+}
+
+/** Keys of the fields currently required, for marking them in a form */
+export function requiredKeys(fields: ModuleConfigField[], values: FormValues): Set<string> {
+  const context = formContext(fields, values);
+  return new Set(fields.filter((f) => isFieldRequired(f, context)).map((f) => f.key));
+}
+
+/** Case-insensitive identity of a value for uniqueness checks */
+function uniquenessKey(value: unknown): string {
+  return typeof value === "string" ? value.trim().toLowerCase() : JSON.stringify(value);
+}
+
+function fieldError(
+  field: ModuleConfigField,
+  value: unknown,
+  context: FormValues,
+  byKey: Map<string, ModuleConfigField>,
+): string | null {
+  const label = labelOf(field);
+  const messages = field.messages ?? {};
+
+  if (value === null || (field.type === "boolean" && value === false)) {
+    return isFieldRequired(field, context) ? messages.required || `${label} is required` : null;
+  }
+
+  if (field.pattern && (TEXT_TYPES.has(field.type) || typeof value === "string")) {
+    const re = compilePattern(field.pattern);
+    if (re && !re.test(String(value))) return messages.pattern || `${label} does not have the expected format`;
+  }
+
+  if (typeof value === "number") {
+    if (field.min !== undefined && value < field.min) return messages.range || `${label} must be at least ${field.min}`;
+    if (field.max !== undefined && value > field.max) return messages.range || `${label} must be at most ${field.max}`;
+  }
+
+  if (field.type === "file" && field.accept?.trim() && !acceptsFile(field.accept, value)) {
+    return messages.accept || `${label} must be a file of type ${field.accept}`;
+  }
+
+  for (const rule of field.compare ?? []) {
+    const other = byKey.get(rule.field);
+    const otherValue = context[rule.field];
+    if (!other || otherValue === null || otherValue === undefined) continue;
+    const order = compareValues(value, otherValue);
+    if (order === null || comparisonHolds(rule.operator, order)) continue;
+    const dates = field.type === "date" && other.type === "date";
+    return rule.message || `${label} must be ${describeComparison(rule.operator, dates)} ${labelOf(other)}`;
+  }
+  return null;
+}
+
+function validateFields(
+  fields: ModuleConfigField[],
+  values: FormValues,
+  outer: { context: FormValues; byKey: Map<string, ModuleConfigField> },
+  prefix: string,
+  errors: FormErrors,
+) {
+  const context = formContext(fields, values, outer.context);
+  const byKey = new Map([...outer.byKey, ...fields.map((f) => [f.key, f] as const)]);
+  for (const field of fields) {
+    const path = `${prefix}${field.key}`;
+    const error = fieldError(field, context[field.key], context, byKey);
+    if (error) errors[path] = error;
+    if (field.type !== "repeatable" || !Array.isArray(context[field.key])) continue;
+
+    const rows = context[field.key] as FormValues[];
+    const subFields = field.repeatableFields ?? [];
+    rows.forEach((row, i) => validateFields(subFields, row ?? {}, { context, byKey }, `${path}[${i}].`, errors));
+
+    for (const key of field.uniqueFields ?? []) {
+      const sub = subFields.find((f) => f.key === key);
+      if (!sub) continue;
+      const firstRow = new Map<string, number>();
+      rows.forEach((row, i) => {
+        const value = fieldValue(sub, row?.[key]);
+        if (value === null) return;
+        const id = uniquenessKey(value);
+        const first = firstRow.get(id);
+        if (first === undefined) firstRow.set(id, i);
+        else errors[`${path}[${i}].${key}`] ??= field.messages?.unique || `${labelOf(sub)} must be unique – row ${first + 1} has the same value`;
+      });
+    }
+  }
+}
+
+/** Errors of a filled-in form, empty when every rule passes */
+export function validateForm(fields: ModuleConfigField[], values: FormValues): FormErrors {
+  const errors: FormErrors = {};
+  validateFields(fields, values, { context: {}, byKey: new Map() }, "", errors);
+  return errors;
+}
+
+/** Names a FEEL condition refers to; empty when it does not parse */
+function conditionNames(text: string): string[] {
+  const names = new Set<string>();
+  try {
+    visitNodes(parseFeel(text), (node) => {
+      if (node.kind === "name") names.add(node.name);
+    });
+  } catch (e) {
+    if (!(e instanceof ExpressionError)) throw e;
+  }
+  return [...names];
+}
+
+/** Problems with the rules of `field` itself, for the designer; `fields` are its form's fields */
+export function fieldRuleProblems(field: ModuleConfigField, fields: ModuleConfigField[]): FieldRuleProblem[] {
+  const problems: FieldRuleProblem[] = [];
+  const label = labelOf(field);
+  const byKey = new Map(fields.map((f) => [f.key, f]));
+
+  if (field.pattern && !compilePattern(field.pattern)) {
+    problems.push({ severity: "error", message: `${label}: invalid pattern – it is not a valid regular expression` });
+  }
+  if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+    problems.push({ severity: "error", message: `${label}: min ${field.min} is greater than max ${field.max}` });
+  }
+
+  const condition = field.requiredWhen?.trim();
+  if (condition) {
+    const syntax = checkFeelCell(condition, "output");
+    for (const d of syntax) problems.push({ severity: d.severity, message: `${label} required when: ${d.message}` });
+    if (!syntax.some((d) => d.severity === "error")) {
+      for (const name of conditionNames(condition)) {
+        if (name === "item" || byKey.has(name)) continue;
+        problems.push({ severity: "warning", message: `${label} required when: "${name}" is not a field of this form` });
+      }
+    }
+  }
+
+  for (const rule of field.compare ?? []) {
+    const other = byKey.get(rule.field);
+    if (rule.field === field.key) {
+      problems.push({ severity: "error", message: `${label} is compared with itself` });
+    } else if (!other) {
+      problems.push({ severity: "error", message: `${label} is compared with "${rule.field}", which is not a field of this form` });
+    } else if ((field.type === "date") !== (other.type === "date") || NUMBER_TYPES.has(field.type) !== NUMBER_TYPES.has(other.type)) {
+      problems.push({ severity: "warning", message: `${label} (${field.type}) is compared with ${labelOf(other)} (${other.type}); the rule only applies when both values are of the same kind` });
+    }
+  }
+
+  const subKeys = new Set((field.repeatableFields ?? []).map((f) => f.key));
+  for (const key of field.uniqueFields ?? []) {
+    if (!subKeys.has(key)) problems.push({ severity: "error", message: `${label}: "${key}" must be unique but is not a field of the group` });
+  }
+  for (const sub of field.repeatableFields ?? []) problems.push(...fieldRuleProblems(sub, [...fields, ...(field.repeatableFields ?? [])]));
+  return problems;
+}
@@ -0,0 +1,208 @@
+/**
+ * Edit history for the Studio, stored as forward/inverse JSON Patch pairs.
+ * Pure functions over an immutable `PatchHistory` value — WorkflowStudio owns the state.
+ */
+import type { CaseIR, JsonPatch } from "@/types/caseIr";
+import { applyCaseIRPatch, applyCaseIRPatchWithInverse, PatchPathError, resolveIdPatch, toIdPatch } from "@/lib/patchUtils";
+
+export type HistorySource = "user" | "ai" | "revert";
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  source: HistorySource;
+  patch: JsonPatch;
+  inverse: JsonPatch;
+  at: string;
+  /** Id of the entry that reverted this one, if any */
+  revertedBy?: string;
+  /** For "revert" entries: the id of the entry being reverted */
+  reverts?: string;
+}
+
+export interface PatchHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+export const EMPTY_HISTORY: PatchHistory = { past: [], future: [] };
+
+function uid() { return `hist_${Math.random().toString(36).slice(2, 10)}`; }
+
+// ─── Labels ───────────────────────────────────────────────────────────────────
+
+const COLLECTION_KIND: Record<string, string> = {
+  stages: "stage",
+  alternativePaths: "alternative path",
+  groups: "group",
+  steps: "step",
+  boundaryEvents: "boundary event",
+  personas: "persona",
+  teamMembers: "team member",
+  businessRules: "business rule",
+  dataModel: "data field",
+  formTemplates: "form",
+  branches: "branch",
+};
+
+function nameOf(value: unknown): string | undefined {
+  if (value && typeof value === "object" && "name" in value && typeof (value as { name: unknown }).name === "string") {
+    return (value as { name: string }).name;
+  }
+  return undefined;
+}
+
+function lookup(doc: unknown, segments: string[]): unknown {
+  let cur = doc;
+  for (const seg of segments) {
+    if (cur === null || typeof cur !== "object") return undefined;
+    cur = (cur as Record<string, unknown>)[seg];
+  }
+  return cur;
+}
+
+/** Kind of the innermost collection element a path points into, e.g. "/stages/0/groups/1/name" → "group". */
+function elementKind(segments: string[]): string | undefined {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const kind = COLLECTION_KIND[segments[i]];
+    if (kind && i < segments.length - 1) return kind;
+  }
+  return undefined;
+}
+
+/** Human-readable label for a patch, e.g. "Added stage Validation" or "Renamed step". */
+export function describePatch(patch: JsonPatch, before: CaseIR): string {
+  const ops = patch.filter(op => op.op !== "test");
+  if (ops.length === 0) return "No changes";
+  const op = ops[0];
+  const segments = op.path.split("/").slice(1);
+  const last = segments[segments.length - 1];
+  const collection = COLLECTION_KIND[last] ?? COLLECTION_KIND[segments[segments.length - 2]];
+  const more = ops.length > 1 ? ` (+${ops.length - 1} more)` : "";
+
+  if (op.path === "/name") return `Renamed process${more}`;
+  if (op.op === "add" && collection && (last === "-" || /^\d+$/.test(last) || COLLECTION_KIND[last])) {
+    const value = Array.isArray(op.value) ? op.value[0] : op.value;
+    const n = nameOf(value);
+    return `Added ${collection}${n ? ` ${n}` : ""}${more}`;
+  }
+  if (op.op === "remove" && collection && /^\d+$/.test(last)) {
+    const n = nameOf(lookup(before, segments));
+    return `Removed ${collection}${n ? ` ${n}` : ""}${more}`;
+  }
+  if (op.op === "move") {
+    const kind = elementKind(segments) ?? "element";
+    return `Reordered ${kind}s${more}`;
+  }
+  const kind = elementKind(segments);
+  if (last === "name" && kind) return `Renamed ${kind}${more}`;
+  if (segments[0] === "trigger") return `Edited trigger${more}`;
+  if (segments[0] === "endEvent") return `Edited end event${more}`;
+  return `Edited ${kind ? `${kind} ` : ""}${last}${more}`;
+}
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+/**
+ * Apply a patch and push it onto the history. Clears the redo stack.
+ * Entries store the patch and its inverse with element-ID paths, resolved only when
+ * applied, so undo, redo and revert find their elements after later reorders.
+ */
+export function recordPatch(
+  history: PatchHistory,
+  caseIr: CaseIR,
+  idPatch: JsonPatch,
+  label?: string,
+  source: HistorySource = "user",
+): { caseIr: CaseIR; history: PatchHistory; entry: HistoryEntry } {
+  const patch = resolveIdPatch(caseIr, idPatch);
+  const { result, inverse } = applyCaseIRPatchWithInverse(caseIr, patch);
+  const entry: HistoryEntry = {
+    id: uid(),
+    label: label ?? describePatch(patch, caseIr),
+    source,
+    patch: toIdPatch(caseIr, patch),
+    inverse,
+    at: new Date().toISOString(),
+  };
+  const past = [...history.past, entry].slice(-HISTORY_LIMIT);
+  return { caseIr: result, history: { past, future: [] }, entry };
+}
+
+export function canUndo(history: PatchHistory): boolean { return history.past.length > 0; }
+export function canRedo(history: PatchHistory): boolean { return history.future.length > 0; }
+
+/** Why an entry's patch no longer applies, in a sentence for the history drawer */
+function conflictReason(e: unknown): string {
+  return e instanceof PatchPathError
+    ? "later edits removed an element it changed"
+    : "later edits changed the same elements";
+}
+
+/** Apply one side of an entry; edits by collaborators may have removed what it addresses */
+function applyEntry(caseIr: CaseIR, patch: JsonPatch, action: string, label: string): CaseIR {
+  try {
+    return applyCaseIRPatch(caseIr, patch);
+  } catch (e) {
+    throw new Error(`Cannot ${action} "${label}" — ${conflictReason(e)}`);
+  }
+}
+
+/** Undo the most recent entry. */
+export function undo(history: PatchHistory, caseIr: CaseIR): { caseIr: CaseIR; history: PatchHistory } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  const past = history.past.slice(0, -1).map(e => e.revertedBy === entry.id ? { ...e, revertedBy: undefined } : e);
+  return {
+    caseIr: applyEntry(caseIr, entry.inverse, "undo", entry.label),
+    history: { past, future: [entry, ...history.future] },
+  };
+}
+
+/** Re-apply the most recently undone entry. */
+export function redo(history: PatchHistory, caseIr: CaseIR): { caseIr: CaseIR; history: PatchHistory } | null {
+  const entry = history.future[0];
+  if (!entry) return null;
+  const past = history.past.map(e => e.id === entry.reverts ? { ...e, revertedBy: entry.id } : e);
+  return {
+    caseIr: applyEntry(caseIr, entry.patch, "redo", entry.label),
+    history: { past: [...past, entry], future: history.future.slice(1) },
+  };
+}
+
+/**
+ * The patch that turned the document under `prev` into the one under `next`, when the
+ * two differ by a single step (record, undo, redo or revert). Null for resets.
+ */
+export function appliedPatch(prev: PatchHistory, next: PatchHistory): JsonPatch | null {
+  const prevLast = prev.past[prev.past.length - 1];
+  const nextLast = next.past[next.past.length - 1];
+  if (prevLast && next.future[0]?.id === prevLast.id) return prevLast.inverse;
+  if (nextLast && nextLast.id !== prevLast?.id && next.past.length > 0 &&
+    (prev.future[0]?.id === nextLast.id || !prev.past.some(e => e.id === nextLast.id))) return nextLast.patch;
+  return null;
+}
+
+/**
+ * Revert one past entry while keeping every edit made after it.
+ * Recorded as a new "Revert" entry so it can itself be undone.
+ * Throws when later edits touched the same location (the inverse's `test` ops fail)
+ * or removed an element the inverse addresses by id.
+ */
+export function revertEntry(history: PatchHistory, caseIr: CaseIR, entryId: string): { caseIr: CaseIR; history: PatchHistory } {
+  const target = history.past.find(e => e.id === entryId);
+  if (!target) throw new Error(`History entry ${entryId} not found`);
+  if (target.revertedBy) throw new Error(`"${target.label}" has already been reverted`);
+  let recorded: ReturnType<typeof recordPatch>;
+  try {
+    recorded = recordPatch(history, caseIr, target.inverse, `Reverted: ${target.label}`, "revert");
+  } catch (e) {
+    throw new Error(`Cannot revert "${target.label}" — ${conflictReason(e)}`);
+  }
+  const entry = { ...recorded.entry, reverts: target.id };
+  const past = recorded.history.past.map(e =>
+    e.id === target.id ? { ...e, revertedBy: entry.id } : e.id === entry.id ? entry : e);
+  return { caseIr: recorded.caseIr, history: { past, future: [] } };
+}
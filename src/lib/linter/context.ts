@@ -0,0 +1,66 @@
+/**
+ * Flattens a CaseIR into located steps so rules can stay simple loops.
+ */
+import type { CaseIR, SelectionTarget, Stage, Step } from "@/types/caseIr";
+import type { LintContext, LintOptions, LocatedStep, StepScopeKind } from "./types";
+
+/** A step is addressable by its IR id and by the BPMN id it was imported from. */
+export function stepIds(step: Step): string[] {
+  const bpmnId = step.source?.bpmnElementId;
+  return bpmnId && bpmnId !== step.id ? [step.id, bpmnId] : [step.id];
+}
+
+function idSet(steps: Step[]): Set<string> {
+  return new Set(steps.flatMap(stepIds));
+}
+
+function walkSteps(
+  steps: Step[], basePath: string, target: (step: Step) => SelectionTarget,
+  scope: StepScopeKind, depth: number, out: LocatedStep[],
+) {
+  const siblingIds = idSet(steps);
+  steps.forEach((step, i) => {
+    const path = `${basePath}/${i}`;
+    const stepTarget = target(step);
+    out.push({ step, path, target: stepTarget, scope, siblingIds, depth });
+    // Nested steps select their top-level owner — the properties panel edits them from there
+    const owner = () => stepTarget;
+    if (step.type === "foreach") walkSteps(step.steps, `${path}/steps`, owner, "foreach", depth + 1, out);
+    if (step.type === "parallel" || step.type === "inclusive") {
+      step.branches.forEach((b, bi) => walkSteps(b.steps, `${path}/branches/${bi}/steps`, owner, "branch", depth + 1, out));
+    }
+    if (step.compensation) {
+      out.push({
+        step: step.compensation.activity, path: `${path}/compensation/activity`, target: stepTarget,
+        scope: "compensation", siblingIds: new Set(), depth: depth + 1,
+      });
+    }
+  });
+}
+
+function walkLane(stages: Stage[], arrayPath: string, out: LocatedStep[]) {
+  stages.forEach((stage, si) => {
+    stage.groups.forEach((group, gi) => {
+      walkSteps(
+        group.steps, `${arrayPath}/${si}/groups/${gi}/steps`,
+        step => ({ kind: "step", stageId: stage.id, groupId: group.id, stepId: step.id }),
+        "group", 0, out,
+      );
+    });
+  });
+}
+
+export function buildLintContext(caseIr: CaseIR, options: LintOptions = {}): LintContext {
+  const steps: LocatedStep[] = [];
+  walkLane(caseIr.stages, "/stages", steps);
+  walkLane(caseIr.alternativePaths ?? [], "/alternativePaths", steps);
+  (caseIr.eventSubProcesses ?? []).forEach((esp, ei) => {
+    walkSteps(esp.steps, `/eventSubProcesses/${ei}/steps`, () => ({ kind: "eventSubProcess", eventSubProcessId: esp.id }), "eventSubProcess", 0, steps);
+  });
+
+  const topLevelIds = new Set(
+    steps.filter(s => s.scope === "group").flatMap(s => stepIds(s.step)),
+  );
+  const allIds = new Set(steps.flatMap(s => stepIds(s.step)));
+  return { caseIr, steps, topLevelIds, allIds, resolveNode: options.resolveNode, calendarBean: options.calendarBean ?? false };
+}
@@ -0,0 +1,36 @@
+/**
+ * Case IR linter entry point: runs every rule over a flattened context and
+ * returns issues ordered by severity, then document order.
+ */
+import type { CaseIR } from "@/types/caseIr";
+import { buildLintContext } from "./context";
+import { BUILT_IN_RULES } from "./rules";
+import type { LintIssue, LintOptions, LintRule, LintSeverity } from "./types";
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export function lintCaseIr(caseIr: CaseIR, rules: LintRule[] = BUILT_IN_RULES, options: LintOptions = {}): LintIssue[] {
+  const ctx = buildLintContext(caseIr, options);
+  const issues = rules.flatMap(rule => {
+    try {
+      return rule.check(ctx);
+    } catch (e) {
+      // A broken rule must not hide the others' results
+      return [{
+        ruleId: rule.id,
+        severity: "info" as const,
+        message: `Rule failed: ${e instanceof Error ? e.message : String(e)}`,
+        path: "",
+        target: null,
+      }];
+    }
+  });
+  // Stable sort keeps each severity bucket in rule/document order
+  return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+export function countBySeverity(issues: LintIssue[]): Record<LintSeverity, number> {
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const i of issues) counts[i.severity]++;
+  return counts;
+}
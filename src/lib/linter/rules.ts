@@ -0,0 +1,335 @@
+/**
+ * Built-in Case IR lint rules.
+ * Each rule is a pure function over the flattened context; add new rules to BUILT_IN_RULES.
+ */
+import type { CaseIR, SelectionTarget, Step } from "@/types/caseIr";
+import { analyzeDataFlow } from "@/lib/dataflow/analysis";
+import { analyzeTimer, type TimerOptions } from "@/lib/timer/schedule";
+import { boundQuestionnaireFlowId } from "@/lib/questionnaire/binding";
+import { fieldRuleProblems } from "@/lib/forms/validation";
+import { isCalendarKey, parseBusinessDuration } from "@/lib/calendar/calculator";
+import { effectiveStageSla, effectiveStepSla } from "@/lib/sla/policy";
+import type { LintIssue, LintRule, LintSeverity } from "./types";
+
+function issue(ruleId: string, severity: LintSeverity, message: string, path: string, target: SelectionTarget): LintIssue {
+  return { ruleId, severity, message, path, target };
+}
+
+/** Ids a decision may target besides steps: the process end event. */
+function endEventIds(ir: CaseIR): Set<string> {
+  const ids = new Set([ir.endEvent.id]);
+  if (ir.endEvent.source?.bpmnElementId) ids.add(ir.endEvent.source.bpmnElementId);
+  if (ir.metadata.originalEndEventId) ids.add(ir.metadata.originalEndEventId);
+  return ids;
+}
+
+/** True when the step runs an implementation other than an external task topic. */
+function hasNonTopicImplementation(step: Step): boolean {
+  const tech = step.tech ?? {};
+  if (tech.implementationType && tech.implementationType !== "external") return true;
+  return !!(tech.class || tech.expression || tech.delegateExpression || tech.connectorId || tech.script);
+}
+
+const decisionTargets: LintRule = {
+  id: "decision-branch-target",
+  description: "Decision branches must target an existing step the flow can reach",
+  check: ({ caseIr, steps, topLevelIds, allIds }) => {
+    const out: LintIssue[] = [];
+    const endIds = endEventIds(caseIr);
+    for (const { step, path, target, siblingIds } of steps) {
+      if (step.type !== "decision") continue;
+      step.branches.forEach((b, bi) => {
+        if (!b.targetStepId || endIds.has(b.targetStepId)) return;
+        const at = `${path}/branches/${bi}/targetStepId`;
+        if (!allIds.has(b.targetStepId)) {
+          out.push(issue(decisionTargets.id, "error", `Branch "${b.label}" of "${step.name}" targets missing step "${b.targetStepId}"`, at, target));
+        } else if (!siblingIds.has(b.targetStepId) && !topLevelIds.has(b.targetStepId)) {
+          out.push(issue(decisionTargets.id, "warning", `Branch "${b.label}" of "${step.name}" jumps into a nested scope; it will fall through to the next step on export`, at, target));
+        }
+      });
+    }
+    return out;
+  },
+};
+
+const gatewayDefaults: LintRule = {
+  id: "gateway-default-branch",
+  description: "Decisions need branches and a default; inclusive defaults must name a branch",
+  check: ({ steps }) => {
+    const out: LintIssue[] = [];
+    for (const { step, path, target } of steps) {
+      if (step.type === "decision") {
+        if (step.branches.length === 0) {
+          out.push(issue(gatewayDefaults.id, "error", `Decision "${step.name}" has no branches`, `${path}/branches`, target));
+          continue;
+        }
+        const hasDefault = step.defaultBranchId !== undefined || step.branches.some(b => b.condition === "${default}");
+        if (!hasDefault) {
+          out.push(issue(gatewayDefaults.id, "warning", `Decision "${step.name}" has no default branch; the case stalls when no condition matches`, path, target));
+        }
+      }
+      if ((step.type === "decision" || step.type === "inclusive") && step.defaultBranchId
+        && !step.branches.some(b => b.id === step.defaultBranchId)) {
+        out.push(issue(gatewayDefaults.id, "error", `Default branch "${step.defaultBranchId}" of "${step.name}" does not exist`, `${path}/defaultBranchId`, target));
+      }
+    }
+    return out;
+  },
+};
+
+const gatewayBranches: LintRule = {
+  id: "gateway-branches",
+  description: "Parallel and inclusive gateways should split into at least two branches",
+  check: ({ steps }) => {
+    const out: LintIssue[] = [];
+    for (const { step, path, target } of steps) {
+      if ((step.type === "parallel" || step.type === "inclusive") && step.branches.length < 2) {
+        out.push(issue(gatewayBranches.id, "warning", `"${step.name}" has ${step.branches.length} branch(es); a split needs at least two`, `${path}/branches`, target));
+      }
+    }
+    return out;
+  },
+};
+
+const duplicateIds: LintRule = {
+  id: "duplicate-id",
+  description: "Element ids must be unique across the whole case (they become BPMN ids)",
+  check: ({ caseIr, steps }) => {
+    const seen = new Map<string, { path: string; target: SelectionTarget }>();
+    const out: LintIssue[] = [];
+    const visit = (id: string, path: string, target: SelectionTarget) => {
+      const first = seen.get(id);
+      if (first) out.push(issue(duplicateIds.id, "error", `Duplicate id "${id}" (first used at ${first.path})`, `${path}/id`, target));
+      else seen.set(id, { path, target });
+    };
+    const lanes: Array<[string, typeof caseIr.stages]> = [["/stages", caseIr.stages], ["/alternativePaths", caseIr.alternativePaths ?? []]];
+    for (const [arrayPath, stages] of lanes) {
+      stages.forEach((stage, si) => visit(stage.id, `${arrayPath}/${si}`, { kind: "stage", stageId: stage.id }));
+    }
+    (caseIr.eventSubProcesses ?? []).forEach((esp, ei) => visit(esp.id, `/eventSubProcesses/${ei}`, { kind: "eventSubProcess", eventSubProcessId: esp.id }));
+    for (const { step, path, target } of steps) {
+      visit(step.id, path, target);
+      step.boundaryEvents?.forEach((be, bi) => visit(be.id, `${path}/boundaryEvents/${bi}`, target));
+    }
+    return out;
+  },
+};
+
+const automationTopic: LintRule = {
+  id: "automation-topic",
+  description: "Automation steps need an external task topic (or another implementation)",
+  check: ({ steps }) => steps
+    .filter(({ step }) => step.type === "automation" && !step.tech?.topic && !hasNonTopicImplementation(step))
+    .map(({ step, path, target }) => issue(automationTopic.id, "warning", `Automation step "${step.name}" has no tech.topic; no worker will pick it up`, `${path}/tech/topic`, target)),
+};
+
+const formRefs: LintRule = {
+  id: "form-ref",
+  description: "Form references must point at a template in formTemplates (or bind a questionnaire)",
+  check: ({ caseIr, steps }) => {
+    const formIds = new Set((caseIr.formTemplates ?? []).map(t => t.id));
+    const out: LintIssue[] = [];
+    for (const { step, path, target } of steps) {
+      // Questionnaire bindings resolve against the published questionnaires at fill-in time
+      if (step.formRef && !formIds.has(step.formRef.formId) && !boundQuestionnaireFlowId(step.formRef)) {
+        out.push(issue(formRefs.id, "error", `"${step.name}" uses form "${step.formRef.formId}", which is not in formTemplates`, `${path}/formRef/formId`, target));
+      }
+      step.personaVariants?.forEach((v, vi) => {
+        if (v.formRefOverride && !formIds.has(v.formRefOverride.formId) && !boundQuestionnaireFlowId(v.formRefOverride)) {
+          out.push(issue(formRefs.id, "error", `Persona variant of "${step.name}" uses missing form "${v.formRefOverride.formId}"`, `${path}/personaVariants/${vi}/formRefOverride/formId`, target));
+        }
+      });
+    }
+    return out;
+  },
+};
+
+const formFieldRules: LintRule = {
+  id: "form-field-rules",
+  description: "Validation rules of form fields must compile and refer to fields of the same form",
+  check: ({ caseIr, steps }) => {
+    const templates = caseIr.formTemplates ?? [];
+    const out: LintIssue[] = [];
+    const seen = new Set<string>();
+    for (const { step, path, target } of steps) {
+      const ti = step.formRef ? templates.findIndex(t => t.id === step.formRef!.formId) : -1;
+      if (ti < 0) continue;
+      const overrides = step.formRef!.fieldOverrides ?? {};
+      const fields = templates[ti].fields.map(f => (overrides[f.key] ? { ...f, ...overrides[f.key] } : f));
+      fields.forEach((field, fi) => {
+        // Problems of the template's own rules are reported once, not for every step using it
+        const overridden = Boolean(overrides[field.key]);
+        const at = overridden ? `${path}/formRef/fieldOverrides/${field.key}` : `/formTemplates/${ti}/fields/${fi}`;
+        const where = overridden ? `Form "${templates[ti].name}" on "${step.name}"` : `Form "${templates[ti].name}"`;
+        for (const p of fieldRuleProblems(field, fields)) {
+          if (seen.has(`${at} ${p.message}`)) continue;
+          seen.add(`${at} ${p.message}`);
+          out.push(issue(formFieldRules.id, p.severity, `${where}: ${p.message}`, at, target));
+        }
+      });
+    }
+    return out;
+  },
+};
+
+const personaRefs: LintRule = {
+  id: "persona-ref",
+  description: "Steps may only reference personas defined on the case",
+  check: ({ caseIr, steps }) => {
+    const personaIds = new Set((caseIr.personas ?? []).map(p => p.id));
+    const out: LintIssue[] = [];
+    for (const { step, path, target } of steps) {
+      step.personaIds?.forEach((pid, pi) => {
+        if (!personaIds.has(pid)) out.push(issue(personaRefs.id, "warning", `"${step.name}" references unknown persona "${pid}"`, `${path}/personaIds/${pi}`, target));
+      });
+    }
+    return out;
+  },
+};
+
+const requiredExpressions: LintRule = {
+  id: "required-expression",
+  description: "Foreach collections, called elements and event triggers need a value",
+  check: ({ caseIr, steps }) => {
+    const out: LintIssue[] = [];
+    const push = (message: string, path: string, target: SelectionTarget) => out.push(issue(requiredExpressions.id, "error", message, path, target));
+    for (const { step, path, target } of steps) {
+      if (step.type === "foreach" && !step.collectionExpression.trim()) push(`Foreach "${step.name}" has no collection expression`, `${path}/collectionExpression`, target);
+      if (step.type === "callActivity" && !step.calledElement.trim()) push(`Call activity "${step.name}" has no called element`, `${path}/calledElement`, target);
+      if (step.type === "intermediateEvent" && step.eventSubType === "timer" && !step.timerExpression?.trim()) {
+        push(`Timer event "${step.name}" has no timer expression`, `${path}/timerExpression`, target);
+      }
+    }
+    (caseIr.eventSubProcesses ?? []).forEach((esp, ei) => {
+      if ((esp.triggerType === "timer" || esp.triggerType === "conditional" || esp.triggerType === "message" || esp.triggerType === "signal") && !esp.expression?.trim()) {
+        push(`Event handler "${esp.name}" needs a ${esp.triggerType} expression`, `/eventSubProcesses/${ei}/expression`, { kind: "eventSubProcess", eventSubProcessId: esp.id });
+      }
+    });
+    return out;
+  },
+};
+
+/** Checked before BPMN export too: the engine rejects what the error issues flag */
+export const timerSchedules: LintRule = {
+  id: "timer-schedule",
+  description: "Timers must be valid ISO 8601 or Camunda cron and should not fire more than once a minute",
+  check: ({ caseIr, steps }) => {
+    const out: LintIssue[] = [];
+    const check = (expression: string | undefined, options: TimerOptions, label: string, path: string, target: SelectionTarget) => {
+      if (!expression?.trim()) return;
+      for (const p of analyzeTimer(expression, options).problems) {
+        if (p.severity !== "info") out.push(issue(timerSchedules.id, p.severity, `${label}: ${p.message}`, path, target));
+      }
+    };
+    if (caseIr.trigger.type === "timer") check(caseIr.trigger.expression, { usage: "start" }, "Start timer", "/trigger/expression", { kind: "trigger" });
+    for (const { step, path, target } of steps) {
+      if (step.type === "intermediateEvent" && step.eventSubType === "timer") {
+        check(step.timerExpression, { usage: "wait", calendarRef: step.calendarRef }, `Timer "${step.name}"`, `${path}/timerExpression`, target);
+      }
+      step.boundaryEvents?.forEach((be, bi) => {
+        if (be.eventType !== "timer") return;
+        const beTarget: SelectionTarget = target?.kind === "step" && target.stepId === step.id ? { ...target, kind: "boundaryEvent", boundaryEventId: be.id } : target;
+        check(be.expression, { usage: "boundary", calendarRef: step.calendarRef }, `Timer on "${step.name}"`, `${path}/boundaryEvents/${bi}/expression`, beTarget);
+      });
+    }
+    (caseIr.eventSubProcesses ?? []).forEach((esp, ei) => {
+      if (esp.triggerType === "timer") {
+        check(esp.expression, { usage: "handler" }, `Event handler "${esp.name}"`, `/eventSubProcesses/${ei}/expression`, { kind: "eventSubProcess", eventSubProcessId: esp.id });
+      }
+    });
+    return out;
+  },
+};
+
+/** Checked before BPMN export too: without the engine's bean, calendar durations run in wall-clock time */
+export const calendarTimers: LintRule = {
+  id: "calendar-timer",
+  description: "Durations counted in a business calendar need a valid calendar key and the engine's businessCalendar bean",
+  check: ({ caseIr, steps, calendarBean }) => {
+    const out: LintIssue[] = [];
+    const rules = caseIr.businessRules ?? [];
+    const check = (name: string, uses: Array<[string, string | undefined]>, path: string, target: SelectionTarget) => {
+      const byKey = new Map<string, string[]>();
+      for (const [what, key] of uses) {
+        if (key) byKey.set(key, [...(byKey.get(key) ?? []), what]);
+      }
+      for (const [key, what] of byKey) {
+        const counted = `"${name}" counts its ${listOf(what)} in calendar "${key}"`;
+        if (!isCalendarKey(key)) {
+          out.push(issue(calendarTimers.id, "warning", `${counted}, which is not a valid calendar key; it exports as a plain ISO duration in wall-clock time`, path, target));
+        } else if (!calendarBean) {
+          out.push(issue(calendarTimers.id, "warning", `${counted}, but the engine has no businessCalendar bean; it exports as a plain ISO duration in wall-clock time`, path, target));
+        }
+      }
+    };
+    const business = (value: string | undefined) => !!value && parseBusinessDuration(value) !== null;
+    for (const { step, path, target } of steps) {
+      const key = step.calendarRef;
+      const uses: Array<[string, string | undefined]> = [];
+      if (step.type === "intermediateEvent" && step.eventSubType === "timer" && business(step.timerExpression)) uses.push(["timer", key]);
+      if (step.boundaryEvents?.some(be => be.eventType === "timer" && business(be.expression))) uses.push(["boundary timer", key]);
+      if (business(step.tech?.dueDate)) uses.push(["due date", key]);
+      if (business(step.tech?.followUpDate)) uses.push(["follow-up date", key]);
+      const sla = effectiveStepSla(step, rules);
+      if (sla) uses.push(["SLA", sla.calendarRef]);
+      check(step.name, uses, `${path}/calendarRef`, target);
+    }
+    caseIr.stages.forEach((stage, si) => {
+      const sla = effectiveStageSla(stage, rules);
+      if (sla) check(stage.name, [["SLA", sla.calendarRef]], `/stages/${si}/sla/calendarRef`, { kind: "stage", stageId: stage.id });
+    });
+    return out;
+  },
+};
+
+function listOf(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}` : items[0];
+}
+
+const emptyContainers: LintRule = {
+  id: "empty-container",
+  description: "Stages and foreach loops without steps are usually unfinished",
+  check: ({ caseIr, steps }) => {
+    const out: LintIssue[] = [];
+    const lanes: Array<[string, typeof caseIr.stages]> = [["/stages", caseIr.stages], ["/alternativePaths", caseIr.alternativePaths ?? []]];
+    for (const [arrayPath, stages] of lanes) {
+      stages.forEach((stage, si) => {
+        if (stage.groups.every(g => g.steps.length === 0)) {
+          out.push(issue(emptyContainers.id, "info", `Stage "${stage.name}" has no steps`, `${arrayPath}/${si}/groups`, { kind: "stage", stageId: stage.id }));
+        }
+      });
+    }
+    for (const { step, path, target } of steps) {
+      if (step.type === "foreach" && step.steps.length === 0) {
+        out.push(issue(emptyContainers.id, "info", `Foreach "${step.name}" has an empty body`, `${path}/steps`, target));
+      }
+    }
+    return out;
+  },
+};
+
+const variableFlow: LintRule = {
+  id: "variable-flow",
+  description: "Expressions and mappings must read variables that are set upstream or declared in the data model, with matching types",
+  check: ({ caseIr, steps, resolveNode }) => {
+    const targets = new Map(steps.map(s => [s.step.id, s.target]));
+    return analyzeDataFlow(caseIr, resolveNode).issues
+      .map(i => issue(variableFlow.id, i.severity, i.message, i.path, targets.get(i.stepId) ?? null));
+  },
+};
+
+export const BUILT_IN_RULES: LintRule[] = [
+  decisionTargets,
+  gatewayDefaults,
+  gatewayBranches,
+  duplicateIds,
+  automationTopic,
+  formRefs,
+  formFieldRules,
+  personaRefs,
+  requiredExpressions,
+  timerSchedules,
+  calendarTimers,
+  emptyContainers,
+  variableFlow,
+];
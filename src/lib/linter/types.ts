@@ -0,0 +1,59 @@
+/**
+ * Case IR linter types — semantic checks that the Zod schema cannot express.
+ * Issues carry a JSON Pointer into the IR and the Studio selection that reveals them.
+ */
+import type { CaseIR, SelectionTarget, Step } from "@/types/caseIr";
+import type { NodeResolver } from "@/lib/dataflow/types";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export interface LintIssue {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  /** JSON Pointer to the offending value, e.g. /stages/0/groups/1/steps/2/formRef/formId */
+  path: string;
+  /** Element to select in the Studio; nested steps resolve to their top-level owner */
+  target: SelectionTarget;
+}
+
+/** Where a step list lives: a stage group, a foreach body, a gateway branch, or an event handler. */
+export type StepScopeKind = "group" | "foreach" | "branch" | "eventSubProcess" | "compensation";
+
+/** A step together with its location in the IR. */
+export interface LocatedStep {
+  step: Step;
+  path: string;
+  target: SelectionTarget;
+  scope: StepScopeKind;
+  /** Ids (IR and BPMN) of the steps sharing this step's list */
+  siblingIds: Set<string>;
+  /** Nesting depth: 0 for steps directly in a group or event handler */
+  depth: number;
+}
+
+export interface LintContext {
+  caseIr: CaseIR;
+  /** Every step in the IR, depth-first in document order */
+  steps: LocatedStep[];
+  /** Ids (IR and BPMN) of top-level steps in either lane — reachable by any decision */
+  topLevelIds: Set<string>;
+  /** Ids (IR and BPMN) of every step anywhere in the IR */
+  allIds: Set<string>;
+  /** Automation node schemas, for rules that type-check variables */
+  resolveNode?: NodeResolver;
+  /** The engine has the businessCalendar bean calendar durations are exported for */
+  calendarBean: boolean;
+}
+
+/** Studio state the IR alone does not carry */
+export interface LintOptions {
+  resolveNode?: NodeResolver;
+  calendarBean?: boolean;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  check: (ctx: LintContext) => LintIssue[];
+}
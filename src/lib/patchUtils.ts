@@ -1,11 +1,168 @@
 /**
  * JSON Patch utilities wrapping fast-json-patch
  */
-import { applyPatch, validate as validatePatch } from "fast-json-patch";
+import { applyPatch, applyOperation, getValueByPointer, validate as validatePatch } from "fast-json-patch";
 import type { CaseIR } from "@/types/caseIr";
-import type { JsonPatch } from "@/types/caseIr";
+import type { JsonPatch, PatchOperation } from "@/types/caseIr";
 
-export function applyCaseIRPatch(caseIr: CaseIR, patch: JsonPatch): CaseIR {
+// ─── Element-ID paths ─────────────────────────────────────────────────────────
+//
+// Besides plain JSON Pointers, patch paths may address array elements by id:
+//   /stages[id=stg_x]/groups[id=grp_y]/steps[id=step_z]/name
+// They are resolved to index pointers against the document at apply time, so an
+// edit keeps targeting the same element after reorders and a stale id fails loudly.
+
+/** Raised when an id path names an element that does not exist. */
+export class PatchPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PatchPathError";
+  }
+}
+
+const ID_SEGMENT = /^(.*)\[id=([^\]]+)\]$/;
+
+export function unescapeSegment(seg: string): string {
+  return seg.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+export function escapeSegment(seg: string): string {
+  return seg.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+export function isIdPath(path: string): boolean {
+  return path.includes("[id=");
+}
+
+/** Resolve one id path to a plain JSON Pointer against `doc`. Plain pointers pass through unchanged. */
+export function resolveIdPath(doc: unknown, path: string): string {
+  if (!isIdPath(path)) return path;
+  let pointer = "";
+  let cur: unknown = doc;
+  for (const raw of path.split("/").slice(1)) {
+    const m = ID_SEGMENT.exec(raw);
+    const key = unescapeSegment(m ? m[1] : raw);
+    if (key) {
+      pointer += `/${escapeSegment(key)}`;
+      cur = cur !== null && typeof cur === "object" ? (cur as Record<string, unknown>)[key] : undefined;
+    }
+    if (!m) continue;
+    const id = m[2];
+    if (!Array.isArray(cur)) throw new PatchPathError(`"${pointer || "/"}" is not a list, so it has no element with id "${id}"`);
+    const index = cur.findIndex(el => el !== null && typeof el === "object" && (el as { id?: unknown }).id === id);
+    if (index < 0) throw new PatchPathError(`No element with id "${id}" in "${pointer}"`);
+    pointer += `/${index}`;
+    cur = cur[index];
+  }
+  return pointer;
+}
+
+/**
+ * Resolve every id path in a patch. Ops are resolved in order against the
+ * document as it evolves, so an op may address an element added earlier in the same patch.
+ */
+export function resolveIdPatch(caseIr: CaseIR, patch: JsonPatch): JsonPatch {
+  if (!patch.some(op => isIdPath(op.path) || ("from" in op && isIdPath(op.from)))) return patch;
+  let doc: unknown = JSON.parse(JSON.stringify(caseIr));
+  return patch.map((op, i) => {
+    let resolved: PatchOperation;
+    try {
+      resolved = "from" in op
+        ? { ...op, from: resolveIdPath(doc, op.from), path: resolveIdPath(doc, op.path) }
+        : { ...op, path: resolveIdPath(doc, op.path) };
+    } catch (e) {
+      if (e instanceof PatchPathError) throw new PatchPathError(`Patch operation ${i + 1} (${op.op} ${op.path}): ${e.message}`);
+      throw e;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    doc = applyOperation(doc as any, resolved as any, false, true).newDocument;
+    return resolved;
+  });
+}
+
+/** Id an id path can carry for an array element; ids with `/`, `~` or `]` stay index-addressed */
+export function anchorId(el: unknown): string | undefined {
+  const id = el !== null && typeof el === "object" ? (el as { id?: unknown }).id : undefined;
+  return typeof id === "string" && /^[^/~\]]+$/.test(id) ? id : undefined;
+}
+
+/**
+ * The id path form of a plain pointer into `doc`: each index of an element with an id
+ * becomes `[id=…]`. With `insert` the last segment is an insert position and stays an index.
+ */
+export function toIdPath(doc: unknown, pointer: string, insert = false): string {
+  if (pointer === "" || isIdPath(pointer)) return pointer;
+  const segments = pointer.split("/").slice(1);
+  let out = "";
+  let cur: unknown = doc;
+  segments.forEach((seg, i) => {
+    if (Array.isArray(cur)) {
+      const el: unknown = cur[Number(seg)];
+      const id = insert && i === segments.length - 1 ? undefined : anchorId(el);
+      out += id === undefined ? `/${seg}` : `[id=${id}]`;
+      cur = el;
+    } else {
+      out += `/${seg}`;
+      cur = cur !== null && typeof cur === "object" ? (cur as Record<string, unknown>)[unescapeSegment(seg)] : undefined;
+    }
+  });
+  return out;
+}
+
+function cloneDoc<T>(doc: T): T {
+  return JSON.parse(JSON.stringify(doc)) as T;
+}
+
+/** `op` with id paths, against the document it applies to */
+function anchorOperation(doc: unknown, op: PatchOperation): PatchOperation {
+  switch (op.op) {
+    case "add":
+      return { ...op, path: toIdPath(doc, op.path, true) };
+    case "move": {
+      // The target index of a move refers to the document without the moved value
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const without = applyOperation(cloneDoc(doc) as any, { op: "remove", path: op.from }, false, true).newDocument;
+      return { ...op, from: toIdPath(doc, op.from), path: toIdPath(without, op.path, true) };
+    }
+    case "copy":
+      return { ...op, from: toIdPath(doc, op.from), path: toIdPath(doc, op.path, true) };
+    default:
+      return { ...op, path: toIdPath(doc, op.path) };
+  }
+}
+
+/**
+ * The id path form of a plain patch, so it keeps addressing the same elements after
+ * reorders, inserts and deletes elsewhere. Ops are anchored in order against the
+ * document as it evolves; insert positions stay indexes into an id-addressed parent.
+ */
+export function toIdPatch(doc: unknown, patch: JsonPatch): JsonPatch {
+  let cur: unknown = cloneDoc(doc);
+  return patch.map(op => {
+    const anchored = anchorOperation(cur, op);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if (op.op !== "test") cur = applyOperation(cur as any, op as any, false, true).newDocument;
+    return anchored;
+  });
+}
+
+/** Id path of a stage in the main lane or the alternative-paths lane. */
+export function stagePath(stageId: string, lane: "stages" | "alternativePaths" = "stages"): string {
+  return `/${lane}[id=${stageId}]`;
+}
+
+export function groupPath(stageId: string, groupId: string, lane: "stages" | "alternativePaths" = "stages"): string {
+  return `${stagePath(stageId, lane)}/groups[id=${groupId}]`;
+}
+
+export function stepPath(stageId: string, groupId: string, stepId: string, lane: "stages" | "alternativePaths" = "stages"): string {
+  return `${groupPath(stageId, groupId, lane)}/steps[id=${stepId}]`;
+}
+
+// ─── Apply ────────────────────────────────────────────────────────────────────
+
+export function applyCaseIRPatch(caseIr: CaseIR, idPatch: JsonPatch): CaseIR {
+  const patch = resolveIdPatch(caseIr, idPatch);
   // Deep clone to avoid mutation
   const clone = JSON.parse(JSON.stringify(caseIr)) as CaseIR;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -18,6 +175,88 @@ export function applyCaseIRPatch(caseIr: CaseIR, patch: JsonPatch): CaseIR {
   return result.newDocument as unknown as CaseIR;
 }
 
+// ─── Inverse patches ──────────────────────────────────────────────────────────
+
+function parentPointer(path: string): { parent: string; key: string } {
+  const i = path.lastIndexOf("/");
+  return { parent: path.slice(0, i), key: path.slice(i + 1) };
+}
+
+export function pointerExists(doc: unknown, path: string): boolean {
+  try {
+    return getValueByPointer(doc, path) !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Inverse of a single operation, computed against the document *before* the op is applied;
+ * its plain pointers address the document *after* it. Inverses start with `test` ops so
+ * reverting an old change fails loudly when later edits have since touched the same
+ * location instead of silently clobbering them.
+ */
+function invertOperation(doc: unknown, op: PatchOperation): PatchOperation[] {
+  switch (op.op) {
+    case "add":
+    case "copy": {
+      const value = op.op === "add" ? op.value : getValueByPointer(doc, op.from);
+      const { parent, key } = parentPointer(op.path);
+      const container = op.path === "" ? undefined : getValueByPointer(doc, parent);
+      if (Array.isArray(container)) {
+        const index = key === "-" ? container.length : Number(key);
+        const path = `${parent}/${index}`;
+        return [{ op: "test", path, value }, { op: "remove", path }];
+      }
+      if (pointerExists(doc, op.path)) {
+        return [{ op: "test", path: op.path, value }, { op: "replace", path: op.path, value: getValueByPointer(doc, op.path) }];
+      }
+      return [{ op: "test", path: op.path, value }, { op: "remove", path: op.path }];
+    }
+    case "remove": {
+      const { parent } = parentPointer(op.path);
+      const owner = parentPointer(parent).parent;
+      const ownerId = owner && Array.isArray(getValueByPointer(doc, parent)) ? anchorId(getValueByPointer(doc, owner)) : undefined;
+      // Re-add only into the element it was removed from
+      const guard: PatchOperation[] = ownerId === undefined ? [] : [{ op: "test", path: `${owner}/id`, value: ownerId }];
+      return [...guard, { op: "add", path: op.path, value: getValueByPointer(doc, op.path) }];
+    }
+    case "replace":
+      return [
+        { op: "test", path: op.path, value: op.value },
+        { op: "replace", path: op.path, value: getValueByPointer(doc, op.path) },
+      ];
+    case "move": {
+      const { parent } = parentPointer(op.path);
+      const overwritten = !Array.isArray(getValueByPointer(doc, parent)) && pointerExists(doc, op.path)
+        ? [{ op: "add" as const, path: op.path, value: getValueByPointer(doc, op.path) }]
+        : [];
+      return [{ op: "move", from: op.path, path: op.from }, ...overwritten];
+    }
+    case "test":
+      return [];
+  }
+}
+
+/**
+ * Apply a patch and return the patch that undoes it.
+ * The inverse is built op by op against each intermediate document, then reversed. It
+ * uses id paths, so it still finds its elements after later edits moved them.
+ */
+export function applyCaseIRPatchWithInverse(caseIr: CaseIR, idPatch: JsonPatch): { result: CaseIR; inverse: JsonPatch } {
+  const patch = resolveIdPatch(caseIr, idPatch);
+  const result = applyCaseIRPatch(caseIr, patch);
+  let doc = cloneDoc(caseIr);
+  const inverse: JsonPatch = [];
+  for (const op of patch) {
+    const undo = invertOperation(doc, op);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    doc = applyOperation(doc as any, op as any, false, true).newDocument as unknown as CaseIR;
+    inverse.unshift(...toIdPatch(doc, undo));
+  }
+  return { result, inverse };
+}
+
 /**
  * AI Plan (mock implementation – real AI needs Cloud/backend)
  * Returns plausible mock patches for common commands
@@ -52,23 +291,25 @@ export function mockAiPlan(prompt: string, caseIr: CaseIR): { patch: JsonPatch;
 
   // "add step" pattern
   if (lower.includes("add step") || lower.includes("add task")) {
-    const stageIdx = 0;
+    const stage = caseIr.stages[0];
+    const group = stage?.groups[0];
+    if (!stage || !group) return { patch: [], summary: "Add a stage with a group first, then I can add steps to it" };
     const newStep = {
       id: `step_${Math.random().toString(36).slice(2, 8)}`,
       name: "New Step",
       type: "automation",
     };
     return {
-      patch: [{ op: "add", path: `/stages/${stageIdx}/steps/-`, value: newStep }],
-      summary: `Added automation step to stage 0`,
+      patch: [{ op: "add", path: `${groupPath(stage.id, group.id)}/steps/-`, value: newStep }],
+      summary: `Added automation step to ${stage.name}`,
     };
   }
 
   // "set trigger" pattern
   if (lower.includes("timer trigger") || lower.includes("set trigger to timer")) {
     return {
-      patch: [{ op: "replace", path: "/trigger", value: { type: "timer", expression: "0 0 * * *", name: "Daily Timer" } }],
-      summary: "Set trigger to daily timer (0 0 * * *)",
+      patch: [{ op: "replace", path: "/trigger", value: { type: "timer", expression: "0 0 0 * * ?", name: "Daily Timer" } }],
+      summary: "Set trigger to daily timer (0 0 0 * * ?)",
     };
   }
 
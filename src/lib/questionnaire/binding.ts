@@ -0,0 +1,20 @@
+/**
+ * Questionnaire binding – a user task binds a published questionnaire through its form
+ * reference (`formRef.formId = "questionnaire:<flowId>"`) instead of a form template. The
+ * task is filled at `/fill/<flowId>?task=<taskId>` by its signed-in assignee or a candidate,
+ * submitting completes it, and the BPMN export carries the binding as the task's
+ * `camunda:formKey`, which the fill function checks before it accepts the task.
+ */
+import type { FormRef } from "@/types/caseIr";
+
+export const QUESTIONNAIRE_FORM_PREFIX = "questionnaire:";
+
+export function questionnaireFormId(flowId: string): string {
+  return `${QUESTIONNAIRE_FORM_PREFIX}${flowId}`;
+}
+
+/** The flow ID of the questionnaire a form reference binds, if it binds one */
+export function boundQuestionnaireFlowId(formRef: FormRef | undefined): string | null {
+  const id = formRef?.formId;
+  return id?.startsWith(QUESTIONNAIRE_FORM_PREFIX) ? id.slice(QUESTIONNAIRE_FORM_PREFIX.length) || null : null;
+}
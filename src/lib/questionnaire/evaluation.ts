@@ -0,0 +1,95 @@
+/**
+ * Questionnaire logic evaluation – show/hide conditions and computed values on questions,
+ * evaluated with the shared FEEL evaluator. The form builder's preview and the
+ * questionnaire-fill function both run it, so a submission is checked with exactly the
+ * rules the respondent saw. The function gets a copy (npm run sync:edge), so this module
+ * imports nothing outside src/lib/expression.
+ */
+import { evaluateExpression } from "../expression/evaluate";
+import { ExpressionError } from "../expression/types";
+
+export type Answers = Record<string, string | string[]>;
+
+/** What the logic reads of a question */
+export interface LogicQuestion {
+  questionId: string;
+  questionType: string;
+  visibleWhen?: string;
+  computedValue?: string;
+}
+
+export interface QuestionnaireLogic {
+  /** FEEL value of every question in list order; null when hidden or unanswered */
+  values: Record<string, unknown>;
+  hidden: Set<string>;
+  /** Rules that failed to evaluate, by question */
+  errors: Record<string, string>;
+}
+
+/** The FEEL value of a raw preview answer */
+export function answerValue(question: Pick<LogicQuestion, "questionType">, raw: string | string[] | undefined): unknown {
+  if (raw === undefined) return null;
+  if (Array.isArray(raw)) return raw;
+  if (raw.trim() === "") return null;
+  if (question.questionType === "NumberInput") {
+    const n = Number(raw);
+    return Number.isNaN(n) ? null : n;
+  }
+  return raw;
+}
+
+/** Preview text of a computed value */
+export function formatLogicValue(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  if (Array.isArray(v)) return v.map(formatLogicValue).join(", ");
+  if (v instanceof Date) return v.toISOString().slice(0, 10);
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+function evaluate(text: string, vars: Record<string, unknown>): { value: unknown } | { error: string } {
+  try {
+    return { value: evaluateExpression(text, vars, "feel") };
+  } catch (e) {
+    if (e instanceof ExpressionError) return { error: e.reason };
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Visibility and values of all questions for the current answers. Questions are evaluated
+ * in list order, so a rule sees the earlier questions' final values, hidden ones as null.
+ * A condition that fails to evaluate keeps the question visible.
+ */
+export function evaluateLogic(questions: LogicQuestion[], answers: Answers): QuestionnaireLogic {
+  const values: Record<string, unknown> = {};
+  const hidden = new Set<string>();
+  const errors: Record<string, string> = {};
+
+  for (const q of questions) {
+    const id = q.questionId;
+    const condition = q.visibleWhen?.trim();
+    if (condition) {
+      const result = evaluate(condition, values);
+      if ("error" in result) errors[id] = `Show when: ${result.error}`;
+      else if (result.value !== true) {
+        hidden.add(id);
+        values[id] = null;
+        continue;
+      }
+    }
+    const formula = q.computedValue?.trim();
+    if (formula) {
+      const result = evaluate(formula, values);
+      if ("error" in result) {
+        errors[id] = `Computed value: ${result.error}`;
+        values[id] = null;
+      } else {
+        values[id] = result.value ?? null;
+      }
+    } else {
+      values[id] = answerValue(q, answers[id]);
+    }
+  }
+  return { values, hidden, errors };
+}
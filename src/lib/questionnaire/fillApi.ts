@@ -0,0 +1,98 @@
+/**
+ * Questionnaire fill-in API – client of the questionnaire-fill edge function behind the
+ * public /fill/:flowId route: load a published questionnaire, save answers to resume later
+ * and submit them for server-side validation. A user task is opened first, signed in as its
+ * assignee or a candidate; the function binds it to the response the returned token resumes.
+ */
+import { supabase } from "@/integrations/supabase/client";
+import type { QuestionnaireDocument } from "@/types/questionnaire";
+import type { Answers } from "./logic";
+
+const FILL_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/questionnaire-fill`;
+
+/** Where the preview was: the pages visited so far and the ones still queued */
+export interface FillProgress {
+  pages: string[][];
+  pending: string[][];
+  currentPage: number;
+}
+
+export interface FillProblem {
+  questionId?: string;
+  message: string;
+}
+
+export interface LoadedQuestionnaire {
+  questionnaire: { flowId: string; name: string; version: number; document: QuestionnaireDocument };
+  response: {
+    token: string;
+    status: "in_progress" | "submitted";
+    answers: Answers;
+    progress: Partial<FillProgress>;
+    locale: string | null;
+    /** The questionnaire was republished since the answers were saved */
+    outdated: boolean;
+  } | null;
+}
+
+export interface SubmitResult {
+  token: string;
+  submissionId: string;
+  dispatchStatus: "none" | "pending" | "dispatched" | "failed";
+}
+
+/** A rejected request; `problems` holds the validation findings of a submission */
+export class FillError extends Error {
+  constructor(message: string, readonly status: number, readonly problems: FillProblem[] = []) {
+    super(message);
+    this.name = "FillError";
+  }
+}
+
+export function fillUrl(flowId: string, params: { task?: string; resume?: string } = {}): string {
+  const query = new URLSearchParams(Object.entries(params).filter(([, v]) => v) as [string, string][]).toString();
+  return `${window.location.origin}/fill/${encodeURIComponent(flowId)}${query ? `?${query}` : ""}`;
+}
+
+async function call<T>(body: Record<string, unknown>): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const res = await fetch(FILL_URL, {
+    method: "POST",
+    headers: {
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  const json = await res.json().catch(() => ({ error: `Error ${res.status}` }));
+  if (!res.ok) throw new FillError(json.error || `Error ${res.status}`, res.status, json.problems);
+  return json as T;
+}
+
+/** Checks the task with the engine and returns the token of the response bound to it */
+export async function openTask(flowId: string, taskId: string): Promise<string> {
+  const result = await call<{ token: string }>({ action: "open", flowId, taskId });
+  return result.token;
+}
+
+export function loadQuestionnaire(flowId: string, token?: string | null): Promise<LoadedQuestionnaire> {
+  return call({ action: "load", flowId, token });
+}
+
+export async function saveAnswers(
+  flowId: string,
+  token: string | null,
+  data: { answers: Answers; progress: FillProgress; locale: string | null },
+): Promise<string> {
+  const result = await call<{ token: string }>({ action: "save", flowId, token, ...data });
+  return result.token;
+}
+
+export function submitAnswers(
+  flowId: string,
+  token: string | null,
+  data: { answers: Answers; path: string[]; locale: string | null },
+): Promise<SubmitResult> {
+  return call({ action: "submit", flowId, token, ...data });
+}
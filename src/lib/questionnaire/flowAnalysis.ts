@@ -0,0 +1,287 @@
+/**
+ * Questionnaire flow analysis – treats the questionnaire as a graph over
+ * `Question._branches` and `flow.firstQuestions` and finds loops, unreachable and
+ * dead-end questions and options without a route, and counts the distinct paths from an
+ * entry point to an exit (an end or a subprocess) with the shortest and longest one.
+ *
+ * Routing follows the preview: an option's branch decides where to go; options without a
+ * branch and questions without options continue with the next question in list order,
+ * and the last question ends the questionnaire.
+ */
+import type { Question, ValidationIssue } from "@/types/questionnaire";
+
+export const OPTION_TYPES = ["Dropdown", "RadioButton", "MultiSelect"];
+
+export type RouteTarget =
+  | { type: "question"; id: string }
+  | { type: "end"; id: string }
+  | { type: "subprocess"; id: string }
+  /** Branch to a question that does not exist */
+  | { type: "missing"; id: string };
+
+export interface FlowRoute {
+  from: string;
+  /** Null for a question without options */
+  optionId: string | null;
+  to: RouteTarget;
+  /** Falls through to the next question (or the end) because nothing routes it */
+  implicit: boolean;
+}
+
+export type FlowIssueKind = "endlessLoop" | "loop" | "unreachable" | "deadEnd" | "unroutedOption";
+
+export interface FlowIssue {
+  kind: FlowIssueKind;
+  severity: "error" | "warning";
+  message: string;
+  /** Questions to highlight; a loop lists all its members */
+  questionIds: string[];
+  optionId?: string;
+}
+
+export interface FlowPath {
+  questionIds: string[];
+  /** Option taken at each question, null where the question has none */
+  optionIds: (string | null)[];
+  exit: RouteTarget;
+}
+
+export interface FlowAnalysis {
+  entryIds: string[];
+  routes: FlowRoute[];
+  reachable: Set<string>;
+  /** Groups of questions that can return to themselves */
+  loops: string[][];
+  issues: FlowIssue[];
+  /**
+   * Distinct entry-to-exit paths, where a path is a sequence of questions and chosen
+   * options that asks no question twice: each loop is counted as not taken.
+   */
+  pathCount: number;
+  shortest: FlowPath | null;
+  longest: FlowPath | null;
+}
+
+/** Entry points the way the preview and graph pick them: firstQuestions, else the first question */
+export function entryQuestionIds(questions: Question[], firstQuestions: string[]): string[] {
+  const ids = new Set(questions.map((q) => q.questionId));
+  if (firstQuestions.length > 0) return firstQuestions.filter((id) => ids.has(id));
+  return questions.length > 0 ? [questions[0].questionId] : [];
+}
+
+export function flowRoutes(questions: Question[]): FlowRoute[] {
+  const ids = new Set(questions.map((q) => q.questionId));
+  const routes: FlowRoute[] = [];
+  questions.forEach((q, i) => {
+    const fallThrough: RouteTarget = i < questions.length - 1
+      ? { type: "question", id: questions[i + 1].questionId }
+      : { type: "end", id: "" };
+    const hasOptions = OPTION_TYPES.includes(q.questionType) && q.options.length > 0;
+    if (!hasOptions) {
+      routes.push({ from: q.questionId, optionId: null, to: fallThrough, implicit: true });
+      return;
+    }
+    for (const opt of q.options) {
+      const branch = q._branches?.[opt.id];
+      if (!branch || branch.nextEntityType === "none") {
+        routes.push({ from: q.questionId, optionId: opt.id, to: fallThrough, implicit: true });
+      } else if (branch.nextEntityType === "question") {
+        const type = ids.has(branch.targetId) ? "question" : "missing";
+        routes.push({ from: q.questionId, optionId: opt.id, to: { type, id: branch.targetId }, implicit: false });
+      } else {
+        routes.push({ from: q.questionId, optionId: opt.id, to: { type: branch.nextEntityType, id: branch.targetId }, implicit: false });
+      }
+    }
+  });
+  return routes;
+}
+
+/** Strongly connected components with more than one question or a self-route (Tarjan) */
+function findLoops(ids: string[], next: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const loops: string[][] = [];
+  let counter = 0;
+
+  const visit = (v: string) => {
+    index.set(v, counter);
+    low.set(v, counter++);
+    stack.push(v);
+    onStack.add(v);
+    for (const w of next.get(v) ?? []) {
+      if (!index.has(w)) {
+        visit(w);
+        low.set(v, Math.min(low.get(v)!, low.get(w)!));
+      } else if (onStack.has(w)) {
+        low.set(v, Math.min(low.get(v)!, index.get(w)!));
+      }
+    }
+    if (low.get(v) !== index.get(v)) return;
+    const component: string[] = [];
+    let w: string;
+    do {
+      w = stack.pop()!;
+      onStack.delete(w);
+      component.push(w);
+    } while (w !== v);
+    if (component.length > 1 || (next.get(v) ?? []).includes(v)) loops.push(component.reverse());
+  };
+
+  for (const id of ids) if (!index.has(id)) visit(id);
+  return loops;
+}
+
+function reachableFrom(starts: string[], next: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>(starts);
+  const queue = [...starts];
+  while (queue.length > 0) {
+    for (const w of next.get(queue.shift()!) ?? []) {
+      if (!seen.has(w)) {
+        seen.add(w);
+        queue.push(w);
+      }
+    }
+  }
+  return seen;
+}
+
+interface PathSummary {
+  count: number;
+  shortest: FlowPath | null;
+  longest: FlowPath | null;
+}
+
+/** Deterministic pick between two candidate paths, so ties do not depend on walk order */
+function preferred(a: FlowPath, b: FlowPath | null, longer: boolean): boolean {
+  if (!b) return true;
+  const diff = a.questionIds.length - b.questionIds.length;
+  if (diff !== 0) return longer ? diff > 0 : diff < 0;
+  return pathKey(a) < pathKey(b);
+}
+
+function pathKey(p: FlowPath): string {
+  return p.questionIds.map((id, i) => `${id}:${p.optionIds[i] ?? ""}`).join(" ");
+}
+
+/**
+ * Path counts and extremes over the simple paths (no question twice) from the entries: a
+ * route back to a question already on the path is not taken. What a question contributes
+ * depends only on which members of its own loop are on the path, so summaries are memoized
+ * by that set and the result does not depend on which entry is walked first.
+ */
+function summarizePaths(entryIds: string[], routesFrom: Map<string, FlowRoute[]>, loops: string[][]): PathSummary {
+  const loopOf = new Map<string, string[]>();
+  for (const loop of loops) for (const id of loop) loopOf.set(id, loop);
+  const onPath = new Set<string>();
+  const memo = new Map<string, PathSummary>();
+  const isExit = (r: FlowRoute) => r.to.type === "end" || r.to.type === "subprocess";
+
+  const walk = (id: string): PathSummary => {
+    const loop = loopOf.get(id);
+    const key = loop ? `${id}|${loop.filter((m) => onPath.has(m)).join(",")}` : id;
+    const known = memo.get(key);
+    if (known) return known;
+    onPath.add(id);
+    let count = 0;
+    let shortest: FlowPath | null = null;
+    let longest: FlowPath | null = null;
+    for (const r of routesFrom.get(id) ?? []) {
+      let tail: PathSummary | null = null;
+      if (isExit(r)) tail = { count: 1, shortest: { questionIds: [], optionIds: [], exit: r.to }, longest: { questionIds: [], optionIds: [], exit: r.to } };
+      else if (r.to.type === "question" && !onPath.has(r.to.id)) tail = walk(r.to.id);
+      if (!tail || tail.count === 0) continue;
+      count += tail.count;
+      const extend = (p: FlowPath): FlowPath => ({ questionIds: [id, ...p.questionIds], optionIds: [r.optionId, ...p.optionIds], exit: p.exit });
+      if (tail.shortest) {
+        const candidate = extend(tail.shortest);
+        if (preferred(candidate, shortest, false)) shortest = candidate;
+      }
+      if (tail.longest) {
+        const candidate = extend(tail.longest);
+        if (preferred(candidate, longest, true)) longest = candidate;
+      }
+    }
+    onPath.delete(id);
+    const summary = { count, shortest, longest };
+    memo.set(key, summary);
+    return summary;
+  };
+
+  const out: PathSummary = { count: 0, shortest: null, longest: null };
+  for (const id of entryIds) {
+    const s = walk(id);
+    out.count += s.count;
+    if (s.shortest && preferred(s.shortest, out.shortest, false)) out.shortest = s.shortest;
+    if (s.longest && preferred(s.longest, out.longest, true)) out.longest = s.longest;
+  }
+  return out;
+}
+
+export function analyzeFlow(questions: Question[], firstQuestions: string[]): FlowAnalysis {
+  const ids = questions.map((q) => q.questionId);
+  const entryIds = entryQuestionIds(questions, firstQuestions);
+  const routes = flowRoutes(questions);
+  const routesFrom = new Map<string, FlowRoute[]>();
+  const next = new Map<string, string[]>();
+  const prev = new Map<string, string[]>();
+  const canExit = new Set<string>();
+  for (const r of routes) {
+    if (!routesFrom.has(r.from)) routesFrom.set(r.from, []);
+    routesFrom.get(r.from)!.push(r);
+    if (r.to.type === "question") {
+      if (!next.has(r.from)) next.set(r.from, []);
+      next.get(r.from)!.push(r.to.id);
+      if (!prev.has(r.to.id)) prev.set(r.to.id, []);
+      prev.get(r.to.id)!.push(r.from);
+    } else if (r.to.type !== "missing") {
+      canExit.add(r.from);
+    }
+  }
+
+  const reachable = reachableFrom(entryIds, next);
+  // Questions that can still finish: those with an exit and everything leading to them
+  const finishing = reachableFrom([...canExit], prev);
+  const loops = findLoops(ids, next);
+  const issues: FlowIssue[] = [];
+  const label = (id: string) => `"${id}"`;
+
+  for (const loop of loops) {
+    const members = loop.map(label).join(" → ");
+    if (loop.some((id) => finishing.has(id))) {
+      issues.push({ kind: "loop", severity: "warning", message: `Loop ${members} – answers can send respondents back to a question they already answered`, questionIds: loop });
+    } else {
+      issues.push({ kind: "endlessLoop", severity: "error", message: `Loop ${members} never ends – no answer leads out of it`, questionIds: loop });
+    }
+  }
+  const inLoop = new Set(loops.flat());
+  for (const q of questions) {
+    const id = q.questionId;
+    if (!reachable.has(id)) {
+      issues.push({ kind: "unreachable", severity: "warning", message: `Question ${label(id)} is not reached from any entry point`, questionIds: [id] });
+    }
+    if (!finishing.has(id) && !inLoop.has(id)) {
+      issues.push({ kind: "deadEnd", severity: "error", message: `Question ${label(id)} is a dead end – no answer leads to an end`, questionIds: [id] });
+    }
+  }
+  for (const r of routes) {
+    if (!r.implicit || r.optionId === null) continue;
+    const q = questions.find((x) => x.questionId === r.from)!;
+    const opt = q.options.find((o) => o.id === r.optionId);
+    const then = r.to.type === "question" ? `continues with ${label(r.to.id)} by list order` : "ends the questionnaire";
+    issues.push({
+      kind: "unroutedOption", severity: "warning",
+      message: `Option "${opt?.display || r.optionId}" of ${label(r.from)} has no route and ${then}`,
+      questionIds: [r.from], optionId: r.optionId,
+    });
+  }
+
+  const paths = summarizePaths(entryIds, routesFrom, loops);
+  return { entryIds, routes, reachable, loops, issues, pathCount: paths.count, shortest: paths.shortest, longest: paths.longest };
+}
+
+/** Analysis issues in the shape of the store's validation report */
+export function flowValidationIssues(analysis: FlowAnalysis): ValidationIssue[] {
+  return analysis.issues.map((i) => ({ type: i.severity, message: i.message, questionId: i.questionIds[0] }));
+}
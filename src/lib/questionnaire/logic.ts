@@ -0,0 +1,74 @@
+/**
+ * Questionnaire logic – show/hide conditions and computed values on questions. Both are
+ * FEEL expressions over the answers to earlier questions, referenced by question ID
+ * (`Q002 = "Yes" and Q004 > 10000`, `Q004 * 12`).
+ *
+ * Answers reach the expressions as FEEL values: numbers for number inputs, a list of the
+ * chosen options for multi-selects, the ISO text for dates (use `date(Q005)` for date
+ * arithmetic) and null for unanswered or hidden questions.
+ */
+import type { Question, ValidationIssue } from "@/types/questionnaire";
+import { checkFeelCell, visitNodes } from "@/lib/expression/diagnostics";
+import { parseFeel } from "@/lib/expression/parser";
+import { ExpressionError } from "@/lib/expression/types";
+
+export {
+  answerValue, evaluateLogic, formatLogicValue,
+  type Answers, type LogicQuestion, type QuestionnaireLogic,
+} from "./evaluation";
+
+export interface RuleProblem {
+  severity: "error" | "warning";
+  message: string;
+}
+
+/** Names FEEL binds itself: `item` in list filters, `?` in unary tests */
+const IMPLICIT_NAMES = new Set(["item", "?"]);
+
+export function hasLogic(q: Question): boolean {
+  return Boolean(q.visibleWhen?.trim() || q.computedValue?.trim());
+}
+
+/** Question IDs and other names a rule refers to; empty when it does not parse */
+export function referencedNames(text: string): string[] {
+  const names = new Set<string>();
+  try {
+    visitNodes(parseFeel(text), (node) => {
+      if (node.kind === "name") names.add(node.name);
+    });
+  } catch (e) {
+    if (!(e instanceof ExpressionError)) throw e;
+  }
+  return [...names];
+}
+
+/** Problems of one rule of the question at `index` */
+export function ruleProblems(questions: Question[], index: number, text: string): RuleProblem[] {
+  if (!text.trim()) return [];
+  const problems: RuleProblem[] = checkFeelCell(text, "output").map(({ severity, message }) => ({ severity, message }));
+  if (problems.some((p) => p.severity === "error")) return problems;
+  const self = questions[index].questionId;
+  const earlier = new Set(questions.slice(0, index).map((q) => q.questionId));
+  const later = new Set(questions.slice(index + 1).map((q) => q.questionId));
+  for (const name of referencedNames(text)) {
+    if (earlier.has(name) || IMPLICIT_NAMES.has(name)) continue;
+    if (name === self) problems.push({ severity: "error", message: `Refers to its own question "${name}"` });
+    else if (later.has(name)) problems.push({ severity: "error", message: `"${name}" comes later in the questionnaire – only earlier answers are known` });
+    else problems.push({ severity: "warning", message: `"${name}" is not a question ID` });
+  }
+  return problems;
+}
+
+/** Rule problems of all questions in the shape of the store's validation report */
+export function logicValidationIssues(questions: Question[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  questions.forEach((q, i) => {
+    const rules: [string, string | undefined][] = [["Show when", q.visibleWhen], ["Computed value", q.computedValue]];
+    for (const [label, text] of rules) {
+      for (const p of ruleProblems(questions, i, text ?? "")) {
+        issues.push({ type: p.severity, message: `${label} of "${q.questionId}": ${p.message}`, questionId: q.questionId });
+      }
+    }
+  });
+  return issues;
+}
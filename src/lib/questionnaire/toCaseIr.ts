@@ -0,0 +1,219 @@
+/**
+ * Questionnaire → Case IR – turns a questionnaire's branching flow into a case skeleton for
+ * the Studio. Every question becomes a user step with a one-field form template, a question
+ * whose options branch gets a decision step right after it, and subprocess targets become
+ * call activities.
+ *
+ * Steps keep the questionnaire's list order, so a decision's default branch falls through
+ * to the next question exactly as an unrouted answer does in the questionnaire. Options
+ * routed to the end target the case's end event. Answers are process variables named by
+ * question ID, the same names a questionnaire submission uses.
+ */
+import type {
+  CallActivityStep, CaseIR, DataField, DataFieldType, DecisionBranch, DecisionStep,
+  FormFieldType, FormTemplate, Group, ModuleConfigField, Stage, Step, UserStep,
+} from "@/types/caseIr";
+import type { Question, QuestionnaireDocument, QuestionType } from "@/types/questionnaire";
+
+export interface QuestionnaireConversion {
+  caseIr: CaseIR;
+  warnings: string[];
+}
+
+const FIELD_TYPES: Record<QuestionType, FormFieldType> = {
+  Dropdown: "select",
+  RadioButton: "radio",
+  TextInput: "string",
+  TextArea: "multiline",
+  DatePicker: "date",
+  MultiSelect: "checkbox-group",
+  NumberInput: "number",
+  FileUpload: "file",
+};
+
+const DATA_TYPES: Record<QuestionType, DataFieldType> = {
+  Dropdown: "string",
+  RadioButton: "string",
+  TextInput: "string",
+  TextArea: "string",
+  DatePicker: "date",
+  MultiSelect: "array",
+  NumberInput: "number",
+  FileUpload: "string",
+};
+
+const OPTION_TYPES: QuestionType[] = ["Dropdown", "RadioButton", "MultiSelect"];
+
+/** A BPMN-safe id fragment */
+function idPart(text: string): string {
+  return text.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+/** Process ids must be XML names */
+function processId(flowId: string): string {
+  const id = idPart(flowId.trim());
+  return /^[A-Za-z_]/.test(id) ? id : `questionnaire_${id}`;
+}
+
+/** JUEL string literal */
+function juelString(text: string): string {
+  return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+const userStepId = (questionId: string) => `step_${idPart(questionId)}`;
+
+function formTemplate(q: Question): FormTemplate {
+  const defaultOption = q.options.find((o) => o.default)?.display;
+  const field: ModuleConfigField = {
+    key: q.questionId,
+    label: q.content || q.questionId,
+    type: FIELD_TYPES[q.questionType] ?? "string",
+    required: q.mandatory === "True",
+    ...(OPTION_TYPES.includes(q.questionType) ? { options: q.options.map((o) => o.display) } : {}),
+    ...(q.default || defaultOption ? { defaultValue: q.default || defaultOption } : {}),
+    ...(q.contentAbstract ? { hint: q.contentAbstract } : {}),
+  };
+  return {
+    id: `form_${idPart(q.questionId)}`,
+    name: q.content || q.questionId,
+    ...(q.contentAbstract ? { description: q.contentAbstract } : {}),
+    fields: [field],
+  };
+}
+
+/** Consecutive runs of items with the same key, in order */
+function runs<T>(items: T[], key: (item: T) => string): { key: string; items: T[] }[] {
+  const out: { key: string; items: T[] }[] = [];
+  for (const item of items) {
+    const k = key(item);
+    if (out.length > 0 && out[out.length - 1].key === k) out[out.length - 1].items.push(item);
+    else out.push({ key: k, items: [item] });
+  }
+  return out;
+}
+
+export function questionnaireToCaseIr(doc: QuestionnaireDocument): QuestionnaireConversion {
+  const { flow, questions } = doc;
+  const warnings: string[] = [];
+  const id = processId(flow.flowId || "questionnaire");
+  const endId = `end_${id}`;
+  const known = new Set(questions.map((q) => q.questionId));
+  const routes = new Map((flow.path ?? []).map((node) => [node.id, node]));
+  const calls = new Map<string, CallActivityStep>();
+
+  const entry = flow.firstQuestions.find((qid) => known.has(qid));
+  if (flow.firstQuestions.length > 1) {
+    warnings.push(`The questionnaire starts with ${flow.firstQuestions.length} questions on one page; the case asks them one after another`);
+  }
+  if (entry && entry !== questions[0]?.questionId) {
+    warnings.push(`The first question "${entry}" is not first in the list; the case starts with "${questions[0].questionId}"`);
+  }
+
+  const stepsOf = (q: Question): Step[] => {
+    const user: UserStep = {
+      id: userStepId(q.questionId),
+      name: q.content || q.questionId,
+      type: "user",
+      ...(q.contentAbstract ? { description: q.contentAbstract } : {}),
+      formRef: { formId: `form_${idPart(q.questionId)}` },
+    };
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(q.questionId)) {
+      warnings.push(`"${q.questionId}" is not a valid variable name; conditions on its answer will not evaluate`);
+    }
+    if (q.visibleWhen?.trim()) {
+      warnings.push(`The show-when condition of "${q.questionId}" is not converted; the step always runs`);
+    }
+    if (q.computedValue?.trim()) {
+      warnings.push(`The computed value of "${q.questionId}" is not converted; it becomes an ordinary form field`);
+    }
+    if (!OPTION_TYPES.includes(q.questionType)) return [user];
+
+    const branches: DecisionBranch[] = [];
+    for (const opt of q.options) {
+      const next = routes.get(q.questionId)?.options?.find((o) => o.id === opt.id)?.next?.[0];
+      if (!next) continue;
+      let targetStepId: string;
+      if (next.nextEntityType === "end") {
+        targetStepId = endId;
+      } else if (next.nextEntityType === "subprocess") {
+        const callId = `call_${idPart(next.id)}`;
+        if (!calls.has(next.id)) calls.set(next.id, { id: callId, name: `Subprocess ${next.id}`, type: "callActivity", calledElement: next.id });
+        targetStepId = callId;
+      } else if (known.has(next.id)) {
+        targetStepId = userStepId(next.id);
+      } else {
+        warnings.push(`Option "${opt.display}" of "${q.questionId}" leads to missing question "${next.id}"; it falls through to the next step`);
+        continue;
+      }
+      const condition = q.questionType === "MultiSelect"
+        ? `\${${q.questionId}.contains(${juelString(opt.display)})}`
+        : `\${${q.questionId} == ${juelString(opt.display)}}`;
+      branches.push({ id: `br_${idPart(opt.id)}`, label: opt.display, condition, targetStepId });
+    }
+    if (branches.length === 0) return [user];
+
+    // Unrouted options and empty answers continue in list order, like the questionnaire
+    const otherwise: DecisionBranch = { id: `br_${idPart(q.questionId)}_default`, label: "Otherwise", condition: "${default}" };
+    const decision: DecisionStep = {
+      id: `dec_${idPart(q.questionId)}`,
+      name: `Route by ${q.questionId}`,
+      type: "decision",
+      branches: [...branches, otherwise],
+      defaultBranchId: otherwise.id,
+    };
+    return [user, decision];
+  };
+
+  // One stage per run of questions in the same category, one group per subcategory
+  const stages: Stage[] = runs(questions, (q) => q.category.trim()).map((run, si) => ({
+    id: `stage_${si + 1}`,
+    name: run.key || flow.flowName || "Questionnaire",
+    groups: runs(run.items, (q) => q.subcategory.trim()).map((sub, gi): Group => ({
+      id: `grp_${si + 1}_${gi + 1}`,
+      name: sub.key || run.key || "Questions",
+      steps: sub.items.flatMap(stepsOf),
+    })),
+  }));
+
+  // The alternative lane is a single chain, so each call activity but the last ends the case explicitly
+  const callSteps = [...calls.values()];
+  const alternativePaths: Stage[] = callSteps.length === 0 ? [] : [{
+    id: "stage_subprocesses",
+    name: "Subprocesses",
+    groups: callSteps.map((call, i): Group => ({
+      id: `grp_${call.id}`,
+      name: call.name,
+      steps: i === callSteps.length - 1 ? [call] : [call, {
+        id: `dec_${call.id}_end`,
+        name: "Done",
+        type: "decision",
+        branches: [{ id: `br_${call.id}_end`, label: "End", condition: "${default}", targetStepId: endId }],
+        defaultBranchId: `br_${call.id}_end`,
+      } satisfies DecisionStep],
+    })),
+  }];
+
+  const dataModel: DataField[] = questions.map((q) => ({
+    id: `data_${idPart(q.questionId)}`,
+    name: q.questionId,
+    dataType: DATA_TYPES[q.questionType] ?? "string",
+    required: q.mandatory === "True",
+    ...(q.content ? { description: q.content } : {}),
+  }));
+
+  const now = new Date().toISOString();
+  const caseIr: CaseIR = {
+    id,
+    name: flow.flowName || flow.flowId || "Questionnaire",
+    version: "1.0.0",
+    trigger: { type: "none" },
+    endEvent: { id: endId, eventType: "none", name: "Completed" },
+    processProperties: { isExecutable: true },
+    stages,
+    ...(alternativePaths.length > 0 ? { alternativePaths } : {}),
+    dataModel,
+    formTemplates: questions.map(formTemplate),
+    metadata: { createdAt: now, updatedAt: now, exportedFrom: "manual" },
+  };
+  return { caseIr, warnings };
+}
@@ -0,0 +1,304 @@
+/**
+ * Questionnaire translations – per-locale texts of question labels, help texts and option
+ * labels kept in `Question.translations`, the missing-translation report, and the CSV and
+ * XLIFF files translators work on outside the builder.
+ *
+ * Every translatable text is a unit with a stable key (`Q001/content`,
+ * `Q001/contentAbstract`, `Q001/option/Q001_opt1`) that both file formats carry, so an
+ * export can be translated and imported back even after questions were reordered.
+ */
+import type { Question, QuestionTranslation, ValidationIssue } from "@/types/questionnaire";
+
+export type TranslationField = "content" | "contentAbstract" | "option";
+
+export interface TranslationUnit {
+  key: string;
+  questionId: string;
+  field: TranslationField;
+  optionId?: string;
+  /** Text in the source language */
+  source: string;
+  /** What the text is, for reports: label, help text or the option */
+  label: string;
+}
+
+export interface TranslationEntry {
+  key: string;
+  locale: string;
+  text: string;
+}
+
+export interface ImportedTranslations {
+  locales: string[];
+  entries: TranslationEntry[];
+}
+
+export interface MissingTranslation {
+  locale: string;
+  unit: TranslationUnit;
+}
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+/** `de_de` → `de-DE`; null when the text is not a locale tag */
+export function normalizeLocale(text: string): string | null {
+  const tag = text.trim().replace(/_/g, "-");
+  if (!LOCALE_PATTERN.test(tag)) return null;
+  return tag.split("-").map((part, i) => {
+    if (i === 0) return part.toLowerCase();
+    if (part.length === 2) return part.toUpperCase();
+    // Script subtags: zh-hant → zh-Hant
+    return part.length === 4 ? part[0].toUpperCase() + part.slice(1).toLowerCase() : part;
+  }).join("-");
+}
+
+/** The language the questions' own fields are written in */
+export function sourceLocale(questions: Question[]): string {
+  const first = questions[0];
+  if (!first?.language) return "en";
+  return normalizeLocale(first.region ? `${first.language}-${first.region}` : first.language) ?? first.language;
+}
+
+export function unitKey(questionId: string, field: TranslationField, optionId?: string): string {
+  return field === "option" ? `${questionId}/option/${optionId}` : `${questionId}/${field}`;
+}
+
+function parseUnitKey(key: string): { questionId: string; field: TranslationField; optionId?: string } | null {
+  const option = /^(.+)\/option\/(.+)$/.exec(key);
+  if (option) return { questionId: option[1], field: "option", optionId: option[2] };
+  const plain = /^(.+)\/(content|contentAbstract)$/.exec(key);
+  return plain ? { questionId: plain[1], field: plain[2] as TranslationField } : null;
+}
+
+/** All texts of the questionnaire that need translating; empty texts are left out */
+export function translationUnits(questions: Question[]): TranslationUnit[] {
+  const units: TranslationUnit[] = [];
+  for (const q of questions) {
+    const id = q.questionId;
+    if (q.content.trim()) units.push({ key: unitKey(id, "content"), questionId: id, field: "content", source: q.content, label: "label" });
+    if (q.contentAbstract.trim()) {
+      units.push({ key: unitKey(id, "contentAbstract"), questionId: id, field: "contentAbstract", source: q.contentAbstract, label: "help text" });
+    }
+    for (const opt of q.options) {
+      if (!opt.display.trim()) continue;
+      units.push({ key: unitKey(id, "option", opt.id), questionId: id, field: "option", optionId: opt.id, source: opt.display, label: `option "${opt.display}"` });
+    }
+  }
+  return units;
+}
+
+export function getTranslation(q: Question, locale: string, field: TranslationField, optionId?: string): string {
+  const t = q.translations?.[locale];
+  if (!t) return "";
+  return (field === "option" ? t.options?.[optionId ?? ""] : t[field]) ?? "";
+}
+
+/** The question with one text of one locale set; an empty text removes the translation */
+export function withTranslation(q: Question, locale: string, field: TranslationField, text: string, optionId?: string): Question {
+  const current: QuestionTranslation = { ...q.translations?.[locale] };
+  if (field === "option") {
+    const options = { ...current.options };
+    if (text) options[optionId ?? ""] = text;
+    else delete options[optionId ?? ""];
+    current.options = options;
+    if (Object.keys(options).length === 0) delete current.options;
+  } else if (text) {
+    current[field] = text;
+  } else {
+    delete current[field];
+  }
+  const translations = { ...q.translations };
+  if (Object.keys(current).length > 0) translations[locale] = current;
+  else delete translations[locale];
+  return { ...q, translations };
+}
+
+/** The question as shown in `locale`: translated texts where present, the source text elsewhere */
+export function localizeQuestion(q: Question, locale: string | null): Question {
+  const t = locale ? q.translations?.[locale] : undefined;
+  if (!t) return q;
+  return {
+    ...q,
+    content: t.content || q.content,
+    contentAbstract: t.contentAbstract || q.contentAbstract,
+    options: q.options.map((o) => ({ ...o, display: t.options?.[o.id] || o.display })),
+  };
+}
+
+export function missingTranslations(questions: Question[], locales: string[]): MissingTranslation[] {
+  const byId = new Map(questions.map((q) => [q.questionId, q]));
+  const out: MissingTranslation[] = [];
+  for (const locale of locales) {
+    for (const unit of translationUnits(questions)) {
+      if (!getTranslation(byId.get(unit.questionId)!, locale, unit.field, unit.optionId).trim()) out.push({ locale, unit });
+    }
+  }
+  return out;
+}
+
+/** Missing translations in the shape of the store's validation report, one warning per question and locale */
+export function translationValidationIssues(questions: Question[], locales: string[]): ValidationIssue[] {
+  const grouped = new Map<string, MissingTranslation[]>();
+  for (const m of missingTranslations(questions, locales)) {
+    const key = `${m.locale}\u0000${m.unit.questionId}`;
+    if (!grouped.has(key)) grouped.set(key, []);
+    grouped.get(key)!.push(m);
+  }
+  return [...grouped.values()].map((ms) => ({
+    type: "warning" as const,
+    message: `Question "${ms[0].unit.questionId}" is missing ${ms[0].locale} translations: ${ms.map((m) => m.unit.label).join(", ")}`,
+    questionId: ms[0].unit.questionId,
+  }));
+}
+
+/** Apply imported texts; keys that match no question or option are returned as unknown */
+export function applyTranslations(questions: Question[], entries: TranslationEntry[]): { questions: Question[]; applied: number; unknown: string[] } {
+  const next = [...questions];
+  const index = new Map(questions.map((q, i) => [q.questionId, i]));
+  const unknown = new Set<string>();
+  let applied = 0;
+  for (const entry of entries) {
+    const parsed = parseUnitKey(entry.key);
+    const i = parsed ? index.get(parsed.questionId) : undefined;
+    if (!parsed || i === undefined || (parsed.field === "option" && !next[i].options.some((o) => o.id === parsed.optionId))) {
+      unknown.add(entry.key);
+      continue;
+    }
+    next[i] = withTranslation(next[i], entry.locale, parsed.field, entry.text, parsed.optionId);
+    applied++;
+  }
+  return { questions: next, applied, unknown: [...unknown] };
+}
+
+/* ── CSV ── */
+
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 rows: quoted cells may hold commas, quotes ("") and line breaks */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+/** One row per text: key, source text, then one column per locale */
+export function translationsToCsv(questions: Question[], locales: string[]): string {
+  const byId = new Map(questions.map((q) => [q.questionId, q]));
+  const lines = [["key", "source", ...locales].map(csvCell).join(",")];
+  for (const unit of translationUnits(questions)) {
+    const q = byId.get(unit.questionId)!;
+    lines.push([unit.key, unit.source, ...locales.map((l) => getTranslation(q, l, unit.field, unit.optionId))].map(csvCell).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function translationsFromCsv(text: string): ImportedTranslations {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || header[0]?.trim().toLowerCase() !== "key") throw new Error('The first column must be "key", as in an exported translation file');
+  const columns: { index: number; locale: string }[] = [];
+  header.forEach((name, index) => {
+    if (index === 0 || name.trim().toLowerCase() === "source") return;
+    const locale = normalizeLocale(name);
+    if (!locale) throw new Error(`Column "${name}" is not a locale such as de or fr-CA`);
+    columns.push({ index, locale });
+  });
+  const entries: TranslationEntry[] = [];
+  for (const row of rows) {
+    for (const { index, locale } of columns) {
+      const value = row[index]?.trim();
+      if (value) entries.push({ key: row[0].trim(), locale, text: value });
+    }
+  }
+  return { locales: columns.map((c) => c.locale), entries };
+}
+
+/* ── XLIFF ── */
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** XLIFF 1.2 for one target locale; untranslated units carry an empty target marked for translation */
+export function translationsToXliff(questions: Question[], locale: string, original: string): string {
+  const byId = new Map(questions.map((q) => [q.questionId, q]));
+  const units = translationUnits(questions).map((unit) => {
+    const target = getTranslation(byId.get(unit.questionId)!, locale, unit.field, unit.optionId);
+    return [
+      `      <trans-unit id="${escapeXml(unit.key)}">`,
+      `        <source>${escapeXml(unit.source)}</source>`,
+      `        <target state="${target ? "translated" : "needs-translation"}">${escapeXml(target)}</target>`,
+      `        <note>${escapeXml(`${unit.questionId} ${unit.label}`)}</note>`,
+      "      </trans-unit>",
+    ].join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file original="${escapeXml(original)}" source-language="${escapeXml(sourceLocale(questions))}" target-language="${escapeXml(locale)}" datatype="plaintext">`,
+    "    <body>",
+    ...units,
+    "    </body>",
+    "  </file>",
+    "</xliff>",
+    "",
+  ].join("\n");
+}
+
+/** Targets of an XLIFF 1.2 (`trans-unit`) or 2.0 (`unit`/`segment`) file */
+export function translationsFromXliff(text: string): ImportedTranslations {
+  const doc = new DOMParser().parseFromString(text, "text/xml");
+  if (doc.querySelector("parsererror")) throw new Error("The file is not well-formed XML");
+  const root = doc.documentElement;
+  if (root.localName !== "xliff") throw new Error("The file is not XLIFF");
+  const locales = new Set<string>();
+  const entries: TranslationEntry[] = [];
+  const v2Locale = root.getAttribute("trgLang");
+  for (const file of Array.from(root.getElementsByTagNameNS("*", "file"))) {
+    const raw = v2Locale ?? file.getAttribute("target-language");
+    const locale = raw ? normalizeLocale(raw) : null;
+    if (!locale) throw new Error("The file has no target language");
+    locales.add(locale);
+    const units = Array.from(file.getElementsByTagNameNS("*", v2Locale ? "unit" : "trans-unit"));
+    for (const unit of units) {
+      const key = unit.getAttribute("id");
+      const target = unit.getElementsByTagNameNS("*", "target")[0]?.textContent?.trim();
+      if (key && target) entries.push({ key, locale, text: target });
+    }
+  }
+  return { locales: [...locales], entries };
+}
@@ -0,0 +1,204 @@
+/**
+ * Structured diff between two CaseIR revisions.
+ * Elements are matched by id, so a step moved to another group shows up as a
+ * `location` change rather than a remove + add. `tech` is compared per field.
+ */
+import type { CaseIR, Stage, Step } from "@/types/caseIr";
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export type DiffElementType =
+  | "process" | "trigger" | "endEvent" | "stage" | "group" | "step"
+  | "eventSubProcess" | "formTemplate" | "persona" | "businessRule" | "dataField";
+
+export interface FieldChange {
+  /** Dotted field name, e.g. `name` or `tech.topic` */
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ElementChange {
+  kind: ChangeKind;
+  elementType: DiffElementType;
+  id: string;
+  name: string;
+  /** Human-readable position, e.g. "Main › Intake › Review" (steps and groups only) */
+  location?: string;
+  /** Per-field changes; empty for added / removed elements */
+  fields: FieldChange[];
+}
+
+export interface RevisionDiff {
+  changes: ElementChange[];
+  counts: Record<ChangeKind, number>;
+}
+
+/** Bookkeeping keys that never count as a user-visible change */
+const IGNORED_KEYS = new Set(["id", "source", "joinSource", "startSource", "boundarySource"]);
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** Field-level diff of two plain objects; `tech` (and other nested records listed in `expand`) are compared per key. */
+function diffFields(before: object, after: object, expand: string[] = ["tech"]): FieldChange[] {
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const out: FieldChange[] = [];
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+  for (const key of keys) {
+    if (IGNORED_KEYS.has(key)) continue;
+    const av = a[key];
+    const bv = b[key];
+    if (same(av, bv)) continue;
+    if (expand.includes(key) && (isRecord(av) || isRecord(bv))) {
+      const sub = diffFields(isRecord(av) ? av : {}, isRecord(bv) ? bv : {}, []);
+      out.push(...sub.map(f => ({ ...f, field: `${key}.${f.field}` })));
+    } else {
+      out.push({ field: key, before: av, after: bv });
+    }
+  }
+  return out;
+}
+
+// ─── Step flattening ──────────────────────────────────────────────────────────
+
+interface LocatedStep {
+  step: Step;
+  location: string;
+}
+
+/** The step without its nested step lists — nested steps are diffed as elements of their own. */
+function ownFields(step: Step): object {
+  if (step.type === "foreach") {
+    const { steps: _steps, ...rest } = step;
+    return rest;
+  }
+  if (step.type === "parallel" || step.type === "inclusive") {
+    return { ...step, branches: step.branches.map(({ steps: _steps, ...b }) => b) };
+  }
+  return step;
+}
+
+function collectSteps(steps: Step[], location: string, out: Map<string, LocatedStep>) {
+  for (const step of steps) {
+    out.set(step.id, { step, location });
+    if (step.type === "foreach") collectSteps(step.steps, `${location} › ${step.name}`, out);
+    if (step.type === "parallel" || step.type === "inclusive") {
+      for (const b of step.branches) collectSteps(b.steps, `${location} › ${step.name} › ${b.label}`, out);
+    }
+  }
+}
+
+function laneStages(ir: CaseIR): Array<{ stage: Stage; lane: string }> {
+  return [
+    ...ir.stages.map(stage => ({ stage, lane: "Main" })),
+    ...(ir.alternativePaths ?? []).map(stage => ({ stage, lane: "Alternative" })),
+  ];
+}
+
+function flattenSteps(ir: CaseIR): Map<string, LocatedStep> {
+  const out = new Map<string, LocatedStep>();
+  for (const { stage, lane } of laneStages(ir)) {
+    for (const group of stage.groups) collectSteps(group.steps, `${lane} › ${stage.name} › ${group.name}`, out);
+  }
+  for (const esp of ir.eventSubProcesses ?? []) collectSteps(esp.steps, `Event handler › ${esp.name}`, out);
+  return out;
+}
+
+// ─── Collection diff ──────────────────────────────────────────────────────────
+
+interface Keyed {
+  id: string;
+  name?: string;
+}
+
+/** Diff two id-keyed collections; `fieldsOf` strips nested content that is diffed elsewhere. */
+function diffById<T extends Keyed>(
+  elementType: DiffElementType,
+  before: T[], after: T[],
+  fieldsOf: (item: T) => object = item => item,
+  locationOf?: (item: T, side: "before" | "after") => string | undefined,
+): ElementChange[] {
+  const out: ElementChange[] = [];
+  const prev = new Map(before.map(item => [item.id, item]));
+  const next = new Map(after.map(item => [item.id, item]));
+  for (const item of after) {
+    const old = prev.get(item.id);
+    const location = locationOf?.(item, "after");
+    if (!old) {
+      out.push({ kind: "added", elementType, id: item.id, name: item.name ?? item.id, location, fields: [] });
+      continue;
+    }
+    const fields = diffFields(fieldsOf(old), fieldsOf(item));
+    const oldLocation = locationOf?.(old, "before");
+    if (oldLocation !== location) fields.unshift({ field: "location", before: oldLocation, after: location });
+    if (fields.length > 0) out.push({ kind: "changed", elementType, id: item.id, name: item.name ?? item.id, location, fields });
+  }
+  for (const item of before) {
+    if (!next.has(item.id)) {
+      out.push({ kind: "removed", elementType, id: item.id, name: item.name ?? item.id, location: locationOf?.(item, "before"), fields: [] });
+    }
+  }
+  return out;
+}
+
+function diffSingleton(elementType: DiffElementType, id: string, name: string, before: object | undefined, after: object | undefined): ElementChange[] {
+  const fields = diffFields(before ?? {}, after ?? {});
+  return fields.length > 0 ? [{ kind: "changed", elementType, id, name, fields }] : [];
+}
+
+// ─── Entry point ──────────────────────────────────────────────────────────────
+
+export function diffCaseIr(before: CaseIR, after: CaseIR): RevisionDiff {
+  const changes: ElementChange[] = [];
+
+  changes.push(...diffSingleton("process", after.id, after.name,
+    { name: before.name, version: before.version, ...before.processProperties },
+    { name: after.name, version: after.version, ...after.processProperties }));
+  changes.push(...diffSingleton("trigger", "trigger", "Trigger", before.trigger, after.trigger));
+  changes.push(...diffSingleton("endEvent", "endEvent", "End Event", before.endEvent, after.endEvent));
+
+  // Stages: groups are diffed separately, lane membership is a field
+  const stageLane = (ir: CaseIR) => new Map(laneStages(ir).map(({ stage, lane }) => [stage.id, lane]));
+  const beforeLanes = stageLane(before);
+  const afterLanes = stageLane(after);
+  changes.push(...diffById(
+    "stage",
+    laneStages(before).map(s => s.stage), laneStages(after).map(s => s.stage),
+    ({ groups: _groups, ...rest }) => rest,
+    (stage, side) => (side === "before" ? beforeLanes : afterLanes).get(stage.id),
+  ));
+
+  const groupsOf = (ir: CaseIR) => laneStages(ir).flatMap(({ stage, lane }) =>
+    stage.groups.map(g => ({ ...g, location: `${lane} › ${stage.name}` })));
+  changes.push(...diffById(
+    "group", groupsOf(before), groupsOf(after),
+    ({ steps: _steps, location: _location, ...rest }) => rest,
+    g => g.location,
+  ));
+
+  const beforeSteps = flattenSteps(before);
+  const afterSteps = flattenSteps(after);
+  changes.push(...diffById(
+    "step",
+    [...beforeSteps.values()].map(s => s.step), [...afterSteps.values()].map(s => s.step),
+    ownFields,
+    (step, side) => (side === "before" ? beforeSteps : afterSteps).get(step.id)?.location,
+  ));
+
+  changes.push(...diffById("eventSubProcess", before.eventSubProcesses ?? [], after.eventSubProcesses ?? [], ({ steps: _steps, ...rest }) => rest));
+  changes.push(...diffById("formTemplate", before.formTemplates ?? [], after.formTemplates ?? []));
+  changes.push(...diffById("persona", before.personas ?? [], after.personas ?? []));
+  changes.push(...diffById("businessRule", before.businessRules ?? [], after.businessRules ?? []));
+  changes.push(...diffById("dataField", before.dataModel ?? [], after.dataModel ?? []));
+
+  const counts: Record<ChangeKind, number> = { added: 0, removed: 0, changed: 0 };
+  for (const c of changes) counts[c.kind]++;
+  return { changes, counts };
+}
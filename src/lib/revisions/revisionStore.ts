@@ -0,0 +1,130 @@
+/**
+ * Supabase access for workflow revisions.
+ * Rows are insert-only: numbers are assigned by a trigger and RLS requires
+ * author_id == auth.uid() plus edit rights on the workflow.
+ */
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { CaseIR } from "@/types/caseIr";
+
+export interface WorkflowRevisionSummary {
+  id: string;
+  workflowId: string;
+  revisionNumber: number;
+  message: string;
+  authorId: string | null;
+  authorEmail?: string;
+  authorName?: string | null;
+  restoredFrom: string | null;
+  createdAt: string;
+}
+
+export interface WorkflowRevision extends WorkflowRevisionSummary {
+  caseIr: CaseIR;
+}
+
+const SUMMARY_COLUMNS = "id,workflow_id,revision_number,message,author_id,restored_from,created_at";
+
+interface RevisionRow {
+  id: string;
+  workflow_id: string;
+  revision_number: number;
+  message: string;
+  author_id: string | null;
+  restored_from: string | null;
+  created_at: string;
+  case_ir?: Json;
+}
+
+function toSummary(row: RevisionRow): WorkflowRevisionSummary {
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    revisionNumber: row.revision_number,
+    message: row.message,
+    authorId: row.author_id,
+    restoredFrom: row.restored_from,
+    createdAt: row.created_at,
+  };
+}
+
+function toRevision(row: RevisionRow): WorkflowRevision {
+  return { ...toSummary(row), caseIr: row.case_ir as unknown as CaseIR };
+}
+
+/** Attach author email / name from profiles (author_id references auth.users, so no embed). */
+async function withAuthors<T extends WorkflowRevisionSummary>(revisions: T[]): Promise<T[]> {
+  const ids = [...new Set(revisions.flatMap(r => (r.authorId ? [r.authorId] : [])))];
+  if (ids.length === 0) return revisions;
+  const { data } = await supabase.from("profiles").select("id,email,name").in("id", ids);
+  const byId = new Map((data ?? []).map(p => [p.id, p]));
+  return revisions.map(r => {
+    const p = r.authorId ? byId.get(r.authorId) : undefined;
+    return p ? { ...r, authorEmail: p.email, authorName: p.name } : r;
+  });
+}
+
+/** Newest first, without the CaseIR payload. */
+export async function listRevisions(workflowId: string): Promise<WorkflowRevisionSummary[]> {
+  const { data, error } = await supabase
+    .from("workflow_revisions")
+    .select(SUMMARY_COLUMNS)
+    .eq("workflow_id", workflowId)
+    .order("revision_number", { ascending: false });
+  if (error) throw new Error(error.message);
+  return withAuthors((data ?? []).map(toSummary));
+}
+
+export async function getRevision(revisionId: string): Promise<WorkflowRevision> {
+  const { data, error } = await supabase
+    .from("workflow_revisions")
+    .select(`${SUMMARY_COLUMNS},case_ir`)
+    .eq("id", revisionId)
+    .single();
+  if (error) throw new Error(error.message);
+  const [rev] = await withAuthors([toRevision(data)]);
+  return rev;
+}
+
+/** The latest revision, or null when the workflow has never been saved. */
+export async function getLatestRevision(workflowId: string): Promise<WorkflowRevision | null> {
+  const { data, error } = await supabase
+    .from("workflow_revisions")
+    .select(`${SUMMARY_COLUMNS},case_ir`)
+    .eq("workflow_id", workflowId)
+    .order("revision_number", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? toRevision(data) : null;
+}
+
+export async function createRevision(
+  workflowId: string, caseIr: CaseIR, message: string, restoredFrom?: string,
+): Promise<WorkflowRevision> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("You must be signed in to save a revision");
+  const { data, error } = await supabase
+    .from("workflow_revisions")
+    .insert({
+      workflow_id: workflowId,
+      case_ir: caseIr as unknown as Json,
+      message,
+      author_id: user.id,
+      restored_from: restoredFrom ?? null,
+    })
+    .select(`${SUMMARY_COLUMNS},case_ir`)
+    .single();
+  if (error) throw new Error(error.message);
+  return { ...toRevision(data), authorEmail: user.email ?? undefined };
+}
+
+/** Restoring never rewrites history: the old snapshot becomes the newest revision. */
+export async function restoreRevision(revision: WorkflowRevision, message?: string): Promise<WorkflowRevision> {
+  return createRevision(
+    revision.workflowId,
+    revision.caseIr,
+    message ?? `Restored revision #${revision.revisionNumber}`,
+    revision.id,
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * Three-way merge of CaseIR documents.
+ * Arrays of `{ id }` objects are merged by element id, never by index, so two
+ * designers editing different steps, stages or rules merge cleanly. Elements
+ * moved to another container (e.g. a step dragged to another group) are tracked
+ * by id as well. Only the same field changed two ways, delete-vs-edit,
+ * move-vs-move and an array reordered two ways are reported as conflicts;
+ * timestamps every edit bumps take the later value instead.
+ */
+import { compare } from "fast-json-patch";
+import type { CaseIR, JsonPatch } from "@/types/caseIr";
+
+export type ConflictChoice = "ours" | "theirs";
+
+export interface MergeConflict {
+  /** Stable key built from element ids, e.g. `stages[st_1].groups[g_1].steps[s_1].name` */
+  key: string;
+  /** Name of the nearest enclosing element ("Process" at the top level) */
+  element: string;
+  /** Field inside that element, or a description for structural conflicts */
+  field: string;
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface MergeResult {
+  merged: CaseIR;
+  /** Every true conflict, resolved in `merged` by the given choice ("ours" by default) */
+  conflicts: MergeConflict[];
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+type Rec = Record<string, unknown>;
+
+interface Keyed extends Rec {
+  id: string;
+}
+
+function isRecord(v: unknown): v is Rec {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** JSON text with sorted keys, so key order never counts as a change */
+function canonical(v: unknown): string {
+  return JSON.stringify(v, (_k, val) => (isRecord(val)
+    ? Object.fromEntries(Object.keys(val).sort().map(k => [k, val[k]]))
+    : val));
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return canonical(a) === canonical(b);
+}
+
+function isIdArray(v: unknown): v is Keyed[] {
+  if (!Array.isArray(v) || !v.every(el => isRecord(el) && typeof el.id === "string")) return false;
+  return new Set(v.map(el => (el as Keyed).id)).size === v.length;
+}
+
+function elementName(el: Rec): string {
+  for (const k of ["name", "label", "title"]) if (typeof el[k] === "string" && el[k]) return el[k] as string;
+  return el.id as string;
+}
+
+// ─── Element index (for cross-container moves) ────────────────────────────────
+
+interface IndexedElement {
+  value: Keyed;
+  /** Key of the array holding the element */
+  container: string;
+  /** Property name of that array, e.g. `steps` */
+  prop: string;
+}
+
+type ElementIndex = Map<string, IndexedElement>;
+
+function indexElements(value: unknown, key: string, prop: string, out: ElementIndex) {
+  if (isIdArray(value)) {
+    for (const el of value) {
+      if (!out.has(el.id)) out.set(el.id, { value: el, container: key, prop });
+      indexElements(el, `${key}[${el.id}]`, prop, out);
+    }
+  } else if (isRecord(value)) {
+    for (const [k, v] of Object.entries(value)) indexElements(v, key ? `${key}.${k}` : k, k, out);
+  }
+}
+
+function buildIndex(doc: unknown): ElementIndex {
+  const out: ElementIndex = new Map();
+  indexElements(doc, "", "", out);
+  return out;
+}
+
+/** Fields every edit bumps; the later of the two values wins instead of conflicting */
+const VOLATILE_TIMESTAMPS = new Set(["metadata.updatedAt"]);
+
+// ─── Merge ────────────────────────────────────────────────────────────────────
+
+interface MergeState {
+  index: { base: ElementIndex; ours: ElementIndex; theirs: ElementIndex };
+  choices: Record<string, ConflictChoice>;
+  conflicts: MergeConflict[];
+}
+
+interface Ctx {
+  key: string;
+  element: string;
+  field: string;
+}
+
+function child(ctx: Ctx, prop: string): Ctx {
+  return {
+    key: ctx.key ? `${ctx.key}.${prop}` : prop,
+    element: ctx.element,
+    field: ctx.field ? `${ctx.field}.${prop}` : prop,
+  };
+}
+
+function conflict(state: MergeState, ctx: Ctx, base: unknown, ours: unknown, theirs: unknown): ConflictChoice {
+  if (!state.conflicts.some(c => c.key === ctx.key)) {
+    state.conflicts.push({ key: ctx.key, element: ctx.element, field: ctx.field, base, ours, theirs });
+  }
+  return state.choices[ctx.key] ?? "ours";
+}
+
+function mergeValue(state: MergeState, ctx: Ctx, base: unknown, ours: unknown, theirs: unknown): unknown {
+  if (same(ours, theirs)) return ours;
+  // Containers are always walked, even when one side left them untouched:
+  // an element moved in from elsewhere may carry edits from the other side
+  if (isRecord(ours) && isRecord(theirs)) {
+    return mergeRecords(state, ctx, isRecord(base) ? base : {}, ours, theirs);
+  }
+  if (isIdArray(ours) && isIdArray(theirs)) {
+    return mergeIdArrays(state, ctx, isIdArray(base) ? base : [], ours, theirs);
+  }
+  if (same(base, ours)) return theirs;
+  if (same(base, theirs)) return ours;
+  if (VOLATILE_TIMESTAMPS.has(ctx.key) && typeof ours === "string" && typeof theirs === "string") {
+    return Date.parse(theirs) > Date.parse(ours) ? theirs : ours;
+  }
+  return conflict(state, ctx, base, ours, theirs) === "ours" ? ours : theirs;
+}
+
+function mergeRecords(state: MergeState, ctx: Ctx, base: Rec, ours: Rec, theirs: Rec): Rec {
+  const out: Rec = {};
+  const keys = [...new Set([...Object.keys(ours), ...Object.keys(theirs), ...Object.keys(base)])];
+  for (const k of keys) {
+    const v = mergeValue(state, child(ctx, k), base[k], ours[k], theirs[k]);
+    if (v !== undefined) out[k] = v;
+  }
+  return out;
+}
+
+/** True when the elements both sides kept appear in the same relative order */
+function sameOrder(a: Keyed[], b: Keyed[]): boolean {
+  const inB = new Set(b.map(el => el.id));
+  const inA = new Set(a.map(el => el.id));
+  const seqA = a.map(el => el.id).filter(id => inB.has(id));
+  const seqB = b.map(el => el.id).filter(id => inA.has(id));
+  return seqA.join("\u0000") === seqB.join("\u0000");
+}
+
+function mergeIdArrays(state: MergeState, ctx: Ctx, base: Keyed[], ours: Keyed[], theirs: Keyed[]): Keyed[] {
+  const prop = ctx.key.slice(ctx.key.lastIndexOf(".") + 1);
+  const local = {
+    base: new Map(base.map(el => [el.id, el])),
+    ours: new Map(ours.map(el => [el.id, el])),
+    theirs: new Map(theirs.map(el => [el.id, el])),
+  };
+  /** Where the element lives in that side's document (same kind of collection only) */
+  const anywhere = (side: keyof MergeState["index"], id: string) => {
+    const hit = state.index[side].get(id);
+    return hit && hit.prop === prop ? hit : undefined;
+  };
+
+  const kept = new Map<string, Keyed>();
+  const ids = [...new Set([...ours, ...theirs].map(el => el.id))];
+
+  for (const id of ids) {
+    const b = local.base.get(id) ?? anywhere("base", id)?.value;
+    const o = local.ours.get(id);
+    const t = local.theirs.get(id);
+    const elCtx: Ctx = { key: `${ctx.key}[${id}]`, element: elementName((b ?? o ?? t)!), field: "" };
+    const mergeElement = (ov: Keyed | undefined, tv: Keyed | undefined) =>
+      mergeValue(state, elCtx, b, ov, tv) as Keyed | undefined;
+
+    if (o && t) {
+      const v = mergeElement(o, t);
+      if (v) kept.set(id, v);
+      continue;
+    }
+
+    const [here, side, other] = o ? [o, "ours", "theirs"] as const : [t!, "theirs", "ours"] as const;
+    const elsewhere = anywhere(other, id);
+    const stayedHere = local.base.has(id);
+
+    if (elsewhere) {
+      // The other side moved it away from here
+      if (stayedHere) continue;
+      // This side moved it here; a conflict only if the other side moved it somewhere else too
+      const otherMoved = elsewhere.container !== anywhere("base", id)?.container;
+      if (otherMoved) {
+        const moveCtx: Ctx = { key: `${prop}[${id}]@move`, element: elCtx.element, field: "location" };
+        const where = { ours: side === "ours" ? ctx.key : elsewhere.container, theirs: side === "theirs" ? ctx.key : elsewhere.container };
+        if (conflict(state, moveCtx, anywhere("base", id)?.container, where.ours, where.theirs) !== side) continue;
+      }
+      const v = side === "ours" ? mergeElement(here, elsewhere.value) : mergeElement(elsewhere.value, here);
+      if (v) kept.set(id, v);
+      continue;
+    }
+
+    if (!b) {
+      kept.set(id, here); // added on one side
+      continue;
+    }
+    if (stayedHere && same(b, here)) continue; // deleted on the other side, untouched here
+
+    const delCtx: Ctx = { key: elCtx.key, element: elCtx.element, field: "(element)" };
+    const choice = conflict(state, delCtx, b, o, t);
+    if (choice === side) kept.set(id, here);
+  }
+
+  // Follow whichever side reordered; the other side's additions go after their predecessor
+  let followOurs = !sameOrder(base, ours);
+  if (followOurs && !sameOrder(base, theirs) && !sameOrder(ours, theirs)) {
+    const orderCtx: Ctx = { key: `${ctx.key}@order`, element: ctx.element, field: `${ctx.field} (order)` };
+    const order = (list: Keyed[]) => list.map(el => el.id);
+    followOurs = conflict(state, orderCtx, order(base), order(ours), order(theirs)) === "ours";
+  }
+  const [skeleton, extra] = followOurs ? [ours, theirs] : [theirs, ours];
+  const order = skeleton.map(el => el.id).filter(id => kept.has(id));
+  extra.forEach((el, i) => {
+    if (!kept.has(el.id) || order.includes(el.id)) return;
+    let at = 0;
+    for (let j = i - 1; j >= 0; j--) {
+      const p = order.indexOf(extra[j].id);
+      if (p >= 0) { at = p + 1; break; }
+    }
+    order.splice(at, 0, el.id);
+  });
+  return order.map(id => kept.get(id)!);
+}
+
+// ─── Entry points ─────────────────────────────────────────────────────────────
+
+/**
+ * Merge `ours` and `theirs`, both edited from `base`.
+ * Pass `choices` (keyed by `MergeConflict.key`) to resolve conflicts; unresolved ones keep ours.
+ */
+export function mergeCaseIr(
+  base: CaseIR, ours: CaseIR, theirs: CaseIR, choices: Record<string, ConflictChoice> = {},
+): MergeResult {
+  const state: MergeState = {
+    index: { base: buildIndex(base), ours: buildIndex(ours), theirs: buildIndex(theirs) },
+    choices,
+    conflicts: [],
+  };
+  const merged = mergeValue(state, { key: "", element: "Process", field: "" }, base, ours, theirs) as CaseIR;
+  return { merged, conflicts: state.conflicts };
+}
+
+/** Patch turning `current` into `merged`, for applying a merge through the edit history. */
+export function mergePatch(current: CaseIR, merged: CaseIR): JsonPatch {
+  return compare(current, merged) as JsonPatch;
+}
@@ -0,0 +1,397 @@
+/**
+ * Case IR token simulator.
+ * Walks stages → groups → steps in order, evaluating decision branches, expanding
+ * foreach collections, running parallel / inclusive branches one after another and
+ * firing boundary events on demand. Every function is pure: it takes a state and
+ * returns a new one, so the Studio can keep the full history.
+ *
+ * Routing mirrors the BPMN exporter: steps run in document order within a lane,
+ * decision targets may jump anywhere (including into alternative paths), and the
+ * end of either lane ends the case.
+ *
+ * A simulated clock only moves on timer waits. Durations count in the step's business
+ * calendar when it has one, so due dates, SLA deadlines and waits land where the engine
+ * would put them.
+ */
+import type { CaseIR, Step, ForeachStep, BoundaryEvent, DecisionBranch, DecisionStep, GatewayBlockStep } from "@/types/caseIr";
+import { evaluateExpression, evaluateCondition } from "@/lib/expression/evaluate";
+import { ExpressionError } from "@/lib/expression/types";
+import type { BusinessCalendar } from "@/lib/calendar/types";
+import { addBusinessTime, findCalendar, formatInTimeZone, parseBusinessDuration, STANDARD_CALENDAR } from "@/lib/calendar/calculator";
+import { durationMs, effectiveStepSla } from "@/lib/sla/policy";
+import type { ScopeFrame, SimulationState, SimulationVariables, StepLocation, TraceKind } from "./types";
+
+const DEFAULT_MAX_STEPS = 500;
+
+function clone<T>(v: T): T {
+  return JSON.parse(JSON.stringify(v)) as T;
+}
+
+/** All top-level step positions, main flow first then alternative paths. */
+export function listStepLocations(ir: CaseIR): StepLocation[] {
+  const out: StepLocation[] = [];
+  for (const stage of ir.stages) {
+    for (const group of stage.groups) {
+      for (const step of group.steps) out.push({ lane: "main", stageId: stage.id, groupId: group.id, stepId: step.id });
+    }
+  }
+  for (const stage of ir.alternativePaths ?? []) {
+    for (const group of stage.groups) {
+      for (const step of group.steps) out.push({ lane: "alt", stageId: stage.id, groupId: group.id, stepId: step.id });
+    }
+  }
+  return out;
+}
+
+function findTopLevelStep(ir: CaseIR, loc: StepLocation): Step | undefined {
+  const stages = loc.lane === "main" ? ir.stages : ir.alternativePaths ?? [];
+  return stages.find(s => s.id === loc.stageId)?.groups.find(g => g.id === loc.groupId)?.steps.find(s => s.id === loc.stepId);
+}
+
+/** The nested step list a frame walks: the foreach body or the current gateway branch. */
+function frameBody(step: Step | undefined, frame: ScopeFrame): Step[] | null {
+  if (!step) return null;
+  if (frame.kind === "foreach") return step.type === "foreach" ? step.steps : null;
+  if (step.type !== "parallel" && step.type !== "inclusive") return null;
+  return step.branches.find(b => b.id === frame.branchIds[frame.index])?.steps ?? null;
+}
+
+/** The step the token currently sits on, descending through active scope frames. */
+export function getActiveStep(ir: CaseIR, state: SimulationState): Step | undefined {
+  if (!state.cursor) return undefined;
+  let step = findTopLevelStep(ir, state.cursor);
+  for (const frame of state.foreachStack) {
+    step = frameBody(step, frame)?.[frame.nestedIndex];
+  }
+  return step;
+}
+
+/** Steps that share the innermost scope (foreach body or gateway branch) with the active step (or null at top level). */
+function innermostBody(ir: CaseIR, state: SimulationState): Step[] | null {
+  if (!state.cursor || state.foreachStack.length === 0) return null;
+  let step = findTopLevelStep(ir, state.cursor);
+  for (let i = 0; i < state.foreachStack.length - 1; i++) {
+    const frame = state.foreachStack[i];
+    step = frameBody(step, frame)?.[frame.nestedIndex];
+  }
+  return frameBody(step, state.foreachStack[state.foreachStack.length - 1]);
+}
+
+/** Index of the next branch at or after `from` that has steps to run (or branchIds.length). */
+function nextNonEmptyBranch(step: GatewayBlockStep, branchIds: string[], from: number): number {
+  let i = from;
+  while (i < branchIds.length && !step.branches.find(b => b.id === branchIds[i])?.steps.length) i++;
+  return i;
+}
+
+/** The foreach / gateway step that owns the innermost frame. */
+function scopeOwner(ir: CaseIR, state: SimulationState): Step | undefined {
+  if (!state.cursor) return undefined;
+  let step = findTopLevelStep(ir, state.cursor);
+  for (let i = 0; i < state.foreachStack.length - 1; i++) {
+    const frame = state.foreachStack[i];
+    step = frameBody(step, frame)?.[frame.nestedIndex];
+  }
+  return step;
+}
+
+function record(state: SimulationState, kind: TraceKind, detail: string, step?: Step) {
+  state.trace.push({
+    seq: state.trace.length + 1,
+    kind,
+    stepId: step?.id,
+    stepName: step?.name,
+    stageId: state.cursor?.stageId,
+    detail,
+    at: state.clock,
+    variables: clone(state.variables),
+  });
+}
+
+function fail(state: SimulationState, message: string, step?: Step): SimulationState {
+  state.status = "failed";
+  state.error = message;
+  record(state, "error", message, step);
+  return state;
+}
+
+function complete(state: SimulationState, detail: string): SimulationState {
+  state.status = "completed";
+  record(state, "end", detail);
+  state.cursor = null;
+  state.foreachStack = [];
+  return state;
+}
+
+/** Move the token to the next position after the active step. Mutates the (already cloned) state. */
+function advance(ir: CaseIR, state: SimulationState): SimulationState {
+  while (state.foreachStack.length > 0) {
+    const body = innermostBody(ir, state) ?? [];
+    const frame = state.foreachStack[state.foreachStack.length - 1];
+    frame.nestedIndex++;
+    if (frame.nestedIndex < body.length) return state;
+    if (frame.kind === "gateway") {
+      const block = scopeOwner(ir, state) as GatewayBlockStep | undefined;
+      frame.index = block ? nextNonEmptyBranch(block, frame.branchIds, frame.index + 1) : frame.branchIds.length;
+      if (frame.index < frame.branchIds.length) {
+        frame.nestedIndex = 0;
+        return state;
+      }
+      state.foreachStack.pop();
+      continue;
+    }
+    frame.index++;
+    if (frame.index < frame.items.length) {
+      frame.nestedIndex = 0;
+      state.variables[frame.elementVariable] = frame.items[frame.index];
+      return state;
+    }
+    state.foreachStack.pop();
+    // fall through: advance past the foreach step itself at the parent level
+  }
+  if (!state.cursor) return complete(state, "Case completed");
+  const locations = listStepLocations(ir);
+  const idx = locations.findIndex(l => l.lane === state.cursor!.lane && l.stepId === state.cursor!.stepId);
+  const next = idx >= 0 ? locations[idx + 1] : undefined;
+  if (!next || next.lane !== state.cursor.lane) {
+    return complete(state, state.cursor.lane === "alt" ? "Case completed (alternative path)" : "Case completed");
+  }
+  state.cursor = next;
+  return state;
+}
+
+/** Decisions may target the case's end event instead of a step, under any id the exporter gives it */
+function isEndEventId(ir: CaseIR, id: string): boolean {
+  return id === ir.endEvent.id || id === ir.endEvent.source?.bpmnElementId || id === (ir.metadata.originalEndEventId ?? `end_${ir.id}`);
+}
+
+/** Jump to a step by id: first within the current foreach body, then anywhere at top level. */
+function jumpTo(ir: CaseIR, state: SimulationState, targetStepId: string): boolean {
+  const body = innermostBody(ir, state);
+  if (body) {
+    const nestedIdx = body.findIndex(s => s.id === targetStepId);
+    if (nestedIdx >= 0) {
+      state.foreachStack[state.foreachStack.length - 1].nestedIndex = nestedIdx;
+      return true;
+    }
+  }
+  const loc = listStepLocations(ir).find(l => l.stepId === targetStepId);
+  if (!loc) return false;
+  state.cursor = loc;
+  state.foreachStack = [];
+  return true;
+}
+
+function applyOutputParameters(step: Step, vars: SimulationVariables) {
+  for (const p of step.tech?.outputParameters ?? []) {
+    if (p.name) vars[p.name] = evaluateExpression(p.value ?? "", vars);
+  }
+}
+
+/**
+ * Does the branch condition hold? One that is not an expression or fails to evaluate counts
+ * as not matching and leaves a warning in the trace, so the run never takes a branch by accident.
+ */
+function branchMatches(state: SimulationState, step: Step, label: string, condition: string): boolean {
+  try {
+    return evaluateCondition(condition, state.variables);
+  } catch (e) {
+    if (!(e instanceof ExpressionError)) throw e;
+    record(state, "warning", `Condition of branch "${label}" skipped: ${e.reason}`, step);
+    return false;
+  }
+}
+
+function pickBranch(state: SimulationState, step: DecisionStep): DecisionBranch | undefined {
+  const { branches, defaultBranchId } = step;
+  const matched = branches.find(b => branchMatches(state, step, b.label, b.condition));
+  if (matched) return matched;
+  return branches.find(b => b.id === defaultBranchId) ?? branches.find(b => b.condition.trim() === "${default}");
+}
+
+/** Branches an inclusive split takes: every matching condition, else the default branch. */
+function pickInclusiveBranches(state: SimulationState, step: GatewayBlockStep): string[] {
+  const matched = step.branches.filter(b => branchMatches(state, step, b.label, b.condition ?? ""));
+  if (matched.length > 0) return matched.map(b => b.id);
+  const fallback = step.type === "inclusive" ? step.branches.find(b => b.id === step.defaultBranchId) : undefined;
+  return fallback ? [fallback.id] : [];
+}
+
+/**
+ * `duration` after `from`, counted in `calendarRef` when set (standard hours when the
+ * calendar is unknown) and in wall-clock time otherwise; null when it is not a duration.
+ */
+function later(from: string, duration: string, calendarRef: string | undefined, calendars: BusinessCalendar[]): Date | null {
+  if (calendarRef) {
+    const d = parseBusinessDuration(duration);
+    if (d) return addBusinessTime(new Date(from), d, findCalendar(calendars, calendarRef) ?? STANDARD_CALENDAR);
+  }
+  const ms = durationMs(duration);
+  return ms === null ? null : new Date(new Date(from).getTime() + ms);
+}
+
+/** A moment in the calendar's time zone, or UTC for wall-clock time */
+function stamp(at: Date, calendarRef: string | undefined, calendars: BusinessCalendar[]): string {
+  const timeZone = calendarRef ? (findCalendar(calendars, calendarRef) ?? STANDARD_CALENDAR).timeZone : "UTC";
+  return `${formatInTimeZone(at, timeZone)} ${timeZone}`;
+}
+
+/** Deadlines the step would get if it started now: due / follow-up dates and the SLA breach */
+function deadlines(ir: CaseIR, step: Step, state: SimulationState, calendars: BusinessCalendar[]): string {
+  const parts: string[] = [];
+  const at = (label: string, duration: string | undefined, calendarRef: string | undefined) => {
+    const when = duration ? later(state.clock, duration, calendarRef, calendars) : null;
+    if (when) parts.push(`${label} ${stamp(when, calendarRef, calendars)}`);
+  };
+  if (step.type === "user") {
+    at("due", step.tech?.dueDate, step.calendarRef);
+    at("follow-up", step.tech?.followUpDate, step.calendarRef);
+  }
+  const sla = effectiveStepSla(step, ir.businessRules);
+  if (sla) at("SLA breach", sla.target, sla.calendarRef);
+  return parts.length ? ` · ${parts.join(", ")}` : "";
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return "undefined";
+  return JSON.stringify(value);
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/** Place a token on the first main-flow step, with the clock at `start`. */
+export function startSimulation(ir: CaseIR, variables: SimulationVariables = {}, start: Date = new Date()): SimulationState {
+  const state: SimulationState = {
+    status: "running", cursor: null, foreachStack: [], variables: clone(variables), clock: start.toISOString(), trace: [],
+  };
+  record(state, "step", `Case started (${ir.trigger.type} trigger)`);
+  const first = listStepLocations(ir).find(l => l.lane === "main");
+  if (!first) return complete(state, "Case has no steps");
+  state.cursor = first;
+  return state;
+}
+
+/** Execute the active step and move the token on. `calendars` resolve the steps' business calendars. */
+export function stepSimulation(ir: CaseIR, current: SimulationState, calendars: BusinessCalendar[] = []): SimulationState {
+  if (current.status !== "running") return current;
+  const state = clone(current);
+  const step = getActiveStep(ir, state);
+  if (!step) return fail(state, `Step ${state.cursor?.stepId ?? "?"} no longer exists in the case`);
+
+  try {
+    switch (step.type) {
+      case "decision": {
+        const branch = pickBranch(state, step);
+        if (!branch) return fail(state, `No branch of "${step.name}" matched and no default is set`, step);
+        record(state, "decision", `Took branch "${branch.label}"`, step);
+        if (branch.targetStepId && isEndEventId(ir, branch.targetStepId)) return complete(state, "Case completed");
+        if (branch.targetStepId) {
+          if (!jumpTo(ir, state, branch.targetStepId)) {
+            return fail(state, `Branch "${branch.label}" targets missing step ${branch.targetStepId}`, step);
+          }
+          return state;
+        }
+        return advance(ir, state);
+      }
+      case "foreach": {
+        const fs = step as ForeachStep;
+        const collection = evaluateExpression(fs.collectionExpression, state.variables);
+        if (!Array.isArray(collection)) {
+          return fail(state, `Collection ${fs.collectionExpression || "(empty)"} evaluated to ${describe(collection)}, expected a list`, step);
+        }
+        if (collection.length === 0 || fs.steps.length === 0) {
+          record(state, "foreach", "Collection is empty — skipped", step);
+          return advance(ir, state);
+        }
+        state.foreachStack.push({ kind: "foreach", stepId: fs.id, items: clone(collection), index: 0, nestedIndex: 0, elementVariable: fs.elementVariable });
+        state.variables[fs.elementVariable] = collection[0];
+        record(state, "foreach", `Expanding ${collection.length} item(s) ${fs.isSequential ? "sequentially" : "(parallel, simulated in order)"}`, step);
+        return state;
+      }
+      case "parallel":
+      case "inclusive": {
+        const branchIds = step.type === "parallel" ? step.branches.map(b => b.id) : pickInclusiveBranches(state, step);
+        if (step.type === "inclusive" && branchIds.length === 0) {
+          return fail(state, `No branch of "${step.name}" matched and no default is set`, step);
+        }
+        const labels = branchIds.map(id => step.branches.find(b => b.id === id)?.label ?? id);
+        record(state, "gateway", `Split into ${labels.length} branch(es): ${labels.map(l => `"${l}"`).join(", ")}${step.type === "parallel" ? " (simulated in order)" : ""}`, step);
+        const first = nextNonEmptyBranch(step, branchIds, 0);
+        if (first >= branchIds.length) return advance(ir, state);
+        state.foreachStack.push({ kind: "gateway", stepId: step.id, branchIds, index: first, nestedIndex: 0 });
+        return state;
+      }
+      case "intermediateEvent": {
+        const until = step.eventSubType === "timer" && step.timerExpression
+          ? later(state.clock, step.timerExpression, step.calendarRef, calendars)
+          : null;
+        if (until) state.clock = until.toISOString();
+        applyOutputParameters(step, state.variables);
+        record(state, "step", until ? `Waited ${step.timerExpression} until ${stamp(until, step.calendarRef, calendars)}` : `Completed ${step.type} step`, step);
+        return advance(ir, state);
+      }
+      default: {
+        applyOutputParameters(step, state.variables);
+        record(state, "step", `Completed ${step.type} step${deadlines(ir, step, state, calendars)}`, step);
+        return advance(ir, state);
+      }
+    }
+  } catch (e) {
+    if (e instanceof ExpressionError) return fail(state, e.message, step);
+    throw e;
+  }
+}
+
+/** Step repeatedly until the case ends or the step limit is hit. */
+export function runSimulation(ir: CaseIR, current: SimulationState, calendars: BusinessCalendar[] = [], maxSteps = DEFAULT_MAX_STEPS): SimulationState {
+  let state = current;
+  for (let i = 0; i < maxSteps && state.status === "running"; i++) state = stepSimulation(ir, state, calendars);
+  if (state.status === "running") return fail(clone(state), `Stopped after ${maxSteps} steps — the case may loop forever`);
+  return state;
+}
+
+/** Boundary events attached to the active step. */
+export function getAvailableBoundaryEvents(ir: CaseIR, state: SimulationState): BoundaryEvent[] {
+  if (state.status !== "running") return [];
+  return getActiveStep(ir, state)?.boundaryEvents ?? [];
+}
+
+/**
+ * Fire a boundary event on the active step.
+ * Interrupting events cancel the step and route to `targetStageId` (an alternative path),
+ * defaulting to the first alternative path; with none defined, the case ends.
+ * Non-interrupting events are recorded and the token stays put. Timer events move the
+ * clock on by their duration, counted in the step's business calendar.
+ */
+export function fireBoundaryEvent(
+  ir: CaseIR, current: SimulationState, boundaryEventId: string, targetStageId?: string, calendars: BusinessCalendar[] = [],
+): SimulationState {
+  if (current.status !== "running") return current;
+  const state = clone(current);
+  const step = getActiveStep(ir, state);
+  const be = step?.boundaryEvents?.find(b => b.id === boundaryEventId);
+  if (!step || !be) throw new Error(`Boundary event ${boundaryEventId} is not attached to the active step`);
+  const until = be.eventType === "timer" && be.expression ? later(state.clock, be.expression, step.calendarRef, calendars) : null;
+  if (until) state.clock = until.toISOString();
+
+  if (be.cancelActivity === false) {
+    record(state, "boundary", `Non-interrupting ${be.eventType} event "${be.name}" fired`, step);
+    return state;
+  }
+
+  const alt = targetStageId
+    ? (ir.alternativePaths ?? []).find(s => s.id === targetStageId)
+    : (ir.alternativePaths ?? []).find(s => s.groups.some(g => g.steps.length > 0));
+  if (targetStageId && !alt) throw new Error(`Alternative path ${targetStageId} not found`);
+  record(state, "boundary", `Interrupting ${be.eventType} event "${be.name}" fired${alt ? ` → ${alt.name}` : ""}`, step);
+  state.foreachStack = [];
+  const first = alt ? listStepLocations(ir).find(l => l.lane === "alt" && l.stageId === alt.id) : undefined;
+  if (!first) return complete(state, `Case ended by ${be.eventType} event`);
+  state.cursor = first;
+  return state;
+}
+
+/** Replace the variable map mid-run (e.g. to supply a user task's outcome). */
+export function setSimulationVariables(current: SimulationState, variables: SimulationVariables): SimulationState {
+  return { ...current, variables: clone(variables) };
+}
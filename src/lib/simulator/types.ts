@@ -0,0 +1,69 @@
+/**
+ * Token simulator types — a local, engine-free walk through a CaseIR.
+ * State is plain JSON so it can be snapshotted, diffed and shown in the Studio.
+ */
+import type { ExpressionVariables } from "@/lib/expression/types";
+
+export type SimulationVariables = ExpressionVariables;
+
+export type SimulationLane = "main" | "alt";
+
+/** Top-level position of the token: a step directly inside a stage group. */
+export interface StepLocation {
+  lane: SimulationLane;
+  stageId: string;
+  groupId: string;
+  stepId: string;
+}
+
+/** One active `foreach` iteration; frames nest for foreach-in-foreach. */
+export interface ForeachFrame {
+  kind: "foreach";
+  stepId: string;
+  items: unknown[];
+  index: number;
+  nestedIndex: number;
+  elementVariable: string;
+}
+
+/** A parallel / inclusive block: the selected branches run one after another (simulated in order). */
+export interface GatewayFrame {
+  kind: "gateway";
+  stepId: string;
+  branchIds: string[];
+  /** Position in `branchIds` */
+  index: number;
+  nestedIndex: number;
+}
+
+export type ScopeFrame = ForeachFrame | GatewayFrame;
+
+export type SimulationStatus = "running" | "completed" | "failed";
+
+/** `warning`: something the run stepped over, e.g. a branch condition that could not be evaluated */
+export type TraceKind = "step" | "decision" | "gateway" | "foreach" | "boundary" | "end" | "warning" | "error";
+
+export interface SimulationTraceEntry {
+  seq: number;
+  kind: TraceKind;
+  stepId?: string;
+  stepName?: string;
+  stageId?: string;
+  detail: string;
+  /** Simulated time of the entry, ISO 8601 */
+  at: string;
+  /** Variable state after this entry was applied */
+  variables: SimulationVariables;
+}
+
+export interface SimulationState {
+  status: SimulationStatus;
+  cursor: StepLocation | null;
+  /** Scopes the token has descended into, outermost first (foreach iterations and gateway branches) */
+  foreachStack: ScopeFrame[];
+  variables: SimulationVariables;
+  /** Simulated time, ISO 8601; only timer waits move it on */
+  clock: string;
+  trace: SimulationTraceEntry[];
+  error?: string;
+}
@@ -0,0 +1,132 @@
+/**
+ * SLA compiler – turns an SLA policy into the BPMN both exporters emit for it: one
+ * non-interrupting timer boundary event per milestone (warning, breach, each escalation
+ * level), each leading to an external task for the SLA worker and its own end event.
+ *
+ * Generated ids hang off the host id (`<host>_sla_breach`, `<host>_sla_breach_task`, …)
+ * so re-exports update them in place and the importer can recognise and skip them. The
+ * policy itself travels as a `sla` camunda:property on the host. Policies counted in a
+ * business calendar compile to calendar date expressions instead of plain durations when
+ * the engine has the calendar bean.
+ */
+import type { IoParam, SlaPolicy } from "@/types/caseIr";
+import type { BusinessCalendar } from "@/lib/calendar/types";
+import { formatDuration } from "@/lib/expression/builtins";
+import { formatBusinessDuration, parseBusinessDuration } from "@/lib/calendar/calculator";
+import { businessTimeExpression, chainedBusinessTimeExpression, countsInCalendar, workingMsIn } from "@/lib/calendar/timerExpression";
+import { durationMs, slaProblems } from "./policy";
+
+export const SLA_PROPERTY = "sla";
+
+export const SLA_TOPICS = {
+  warning: "sla-warning",
+  breach: "sla-breach",
+  escalation: "sla-escalation",
+} as const;
+
+export type SlaMilestone = keyof typeof SLA_TOPICS;
+
+export interface SlaTimerSpec {
+  /** Boundary event id */
+  id: string;
+  name: string;
+  milestone: SlaMilestone;
+  timer: { type: "timeDuration" | "timeDate"; expression: string };
+  task: { id: string; name: string; topic: string; inputs: IoParam[] };
+  endId: string;
+}
+
+const SLA_ID = /_sla_(?:warning|breach|esc\d+)(?:_task|_end)?$/;
+
+/** Is this one of the elements compileSla generates? */
+export function isSlaElementId(id: string): boolean {
+  return SLA_ID.test(id);
+}
+
+function iso(ms: number): string {
+  return ms === 0 ? "PT0S" : formatDuration({ kind: "duration", months: 0, ms });
+}
+
+/** Normalised ISO form of a business duration the policy was validated with */
+function business(text: string): string {
+  return formatBusinessDuration(parseBusinessDuration(text)!);
+}
+
+/**
+ * Timer per milestone. Wall-clock policies add plain durations; calendar policies count
+ * the breach and each escalation in the calendar, and the warning as its share of the
+ * target's working time. Without the engine's calendar bean a calendar policy falls back
+ * to its durations in wall-clock time.
+ */
+function timersFor(policy: SlaPolicy, calendars: BusinessCalendar[], calendarBean: boolean): {
+  warning: (percent: number) => SlaTimerSpec["timer"];
+  breach: SlaTimerSpec["timer"];
+  escalation: (after: string) => SlaTimerSpec["timer"];
+} {
+  const key = policy.calendarRef;
+  if (!countsInCalendar(key, calendarBean)) {
+    const ms = (d: string) => durationMs(key ? business(d) : d)!;
+    const target = ms(policy.target);
+    const duration = (n: number): SlaTimerSpec["timer"] => ({ type: "timeDuration", expression: iso(n) });
+    return {
+      warning: percent => duration(Math.round(target * percent / 100)),
+      breach: duration(target),
+      escalation: after => duration(target + ms(after)),
+    };
+  }
+  const target = business(policy.target);
+  const working = workingMsIn(policy.target, key, calendars)!;
+  return {
+    warning: percent => ({ type: "timeDate", expression: businessTimeExpression(formatBusinessDuration({ days: 0, ms: Math.round(working * percent / 100_000) * 1000 }), key) }),
+    breach: { type: "timeDate", expression: businessTimeExpression(target, key) },
+    escalation: after => ({ type: "timeDate", expression: chainedBusinessTimeExpression([target, business(after)], key) }),
+  };
+}
+
+/**
+ * Boundary timers for an SLA on `hostId`; empty when the policy is invalid. `calendarBean`
+ * says whether the engine can count calendar policies (see calendar/timerExpression).
+ */
+export function compileSla(hostId: string, hostName: string, policy: SlaPolicy, calendars: BusinessCalendar[] = [], calendarBean = false): SlaTimerSpec[] {
+  if (slaProblems(policy).length) return [];
+  const timer = timersFor(policy, calendars, calendarBean);
+  const base: IoParam[] = [
+    { name: "slaElement", value: hostId },
+    { name: "slaTarget", value: policy.target },
+    ...(policy.calendarRef ? [{ name: "slaCalendar", value: policy.calendarRef }] : []),
+  ];
+  const spec = (suffix: string, name: string, milestone: SlaMilestone, t: SlaTimerSpec["timer"], inputs: IoParam[]): SlaTimerSpec => {
+    const id = `${hostId}_sla_${suffix}`;
+    return {
+      id,
+      name,
+      milestone,
+      timer: t,
+      task: { id: `${id}_task`, name: `${name}: ${hostName}`, topic: SLA_TOPICS[milestone], inputs: [...base, ...inputs] },
+      endId: `${id}_end`,
+    };
+  };
+
+  const timers: SlaTimerSpec[] = [];
+  if (policy.warningPercent) {
+    timers.push(spec("warning", "SLA warning", "warning", timer.warning(policy.warningPercent), []));
+  }
+  timers.push(spec("breach", "SLA breached", "breach", timer.breach, []));
+  (policy.escalations ?? []).forEach((e, i) => {
+    timers.push(spec(`esc${i + 1}`, `Escalation ${i + 1}`, "escalation", timer.escalation(e.after), [
+      { name: "escalationLevel", value: String(i + 1) },
+      { name: "escalationAction", value: e.action },
+      { name: "escalateTo", value: e.to },
+    ]));
+  });
+  return timers;
+}
+
+export function parseSlaProperty(value: string): SlaPolicy | undefined {
+  try {
+    const policy = JSON.parse(value) as SlaPolicy;
+    return typeof policy?.target === "string" ? policy : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * SLA estimates – expected duration of stages and paths from step SLA targets and
+ * timer waits. Targets and waits counted in a business calendar are converted to their
+ * average wall-clock length (standard calendar when the key is unknown);
+ * parallel and inclusive blocks take their slowest branch, for-each bodies count once.
+ */
+import type { BusinessRule, Stage, Step } from "@/types/caseIr";
+import type { BusinessCalendar } from "@/lib/calendar/types";
+import { findCalendar, parseBusinessDuration, STANDARD_CALENDAR, wallClockEstimate } from "@/lib/calendar/calculator";
+import { durationMs, effectiveStageSla, effectiveStepSla } from "./policy";
+
+export interface DurationEstimate {
+  expectedMs: number;
+  /** Steps that take time but have no SLA or timer to estimate them by */
+  unestimated: number;
+}
+
+export interface StageEstimate extends DurationEstimate {
+  stageId: string;
+  /** Wall-clock length of the stage's own SLA target */
+  targetMs: number | null;
+}
+
+export interface PathEstimate extends DurationEstimate {
+  stages: StageEstimate[];
+}
+
+const NONE: DurationEstimate = { expectedMs: 0, unestimated: 0 };
+
+function plus(a: DurationEstimate, b: DurationEstimate): DurationEstimate {
+  return { expectedMs: a.expectedMs + b.expectedMs, unestimated: a.unestimated + b.unestimated };
+}
+
+function spanMs(duration: string, calendarRef: string | undefined, calendars: BusinessCalendar[]): number | null {
+  if (!calendarRef) return durationMs(duration);
+  const d = parseBusinessDuration(duration);
+  return d ? wallClockEstimate(d, findCalendar(calendars, calendarRef) ?? STANDARD_CALENDAR) : durationMs(duration);
+}
+
+function estimateStep(step: Step, rules: BusinessRule[], calendars: BusinessCalendar[]): DurationEstimate {
+  switch (step.type) {
+    case "decision":
+      return NONE;
+    case "parallel":
+    case "inclusive": {
+      const branches = step.branches.map(b => estimateSteps(b.steps, rules, calendars));
+      return {
+        expectedMs: Math.max(0, ...branches.map(b => b.expectedMs)),
+        unestimated: branches.reduce((n, b) => n + b.unestimated, 0),
+      };
+    }
+    case "foreach":
+      return estimateSteps(step.steps ?? [], rules, calendars);
+    case "intermediateEvent": {
+      const ms = step.eventSubType === "timer" && step.timerExpression ? spanMs(step.timerExpression, step.calendarRef, calendars) : null;
+      return ms === null ? { expectedMs: 0, unestimated: step.eventSubType === "timer" ? 1 : 0 } : { expectedMs: ms, unestimated: 0 };
+    }
+    default: {
+      const sla = effectiveStepSla(step, rules);
+      const ms = sla ? spanMs(sla.target, sla.calendarRef, calendars) : null;
+      return ms === null ? { expectedMs: 0, unestimated: 1 } : { expectedMs: ms, unestimated: 0 };
+    }
+  }
+}
+
+export function estimateSteps(steps: Step[], rules: BusinessRule[] = [], calendars: BusinessCalendar[] = []): DurationEstimate {
+  return steps.reduce((total, s) => plus(total, estimateStep(s, rules, calendars)), NONE);
+}
+
+export function estimateStage(stage: Stage, rules: BusinessRule[] = [], calendars: BusinessCalendar[] = []): StageEstimate {
+  const own = estimateSteps(stage.groups.flatMap(g => g.steps), rules, calendars);
+  const sla = effectiveStageSla(stage, rules);
+  return { ...own, stageId: stage.id, targetMs: sla ? spanMs(sla.target, sla.calendarRef, calendars) : null };
+}
+
+/** A path's stages run one after another */
+export function estimatePath(stages: Stage[], rules: BusinessRule[] = [], calendars: BusinessCalendar[] = []): PathEstimate {
+  const estimates = stages.map(s => estimateStage(s, rules, calendars));
+  return { ...estimates.reduce<DurationEstimate>(plus, NONE), stages: estimates };
+}
+
+/** Short human form, e.g. "2d 4h", "45m" */
+export function formatSpan(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  if (days) return hours ? `${days}d ${hours}h` : `${days}d`;
+  return mins ? `${hours}h ${mins}m` : `${hours}h`;
+}
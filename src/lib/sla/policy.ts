@@ -0,0 +1,82 @@
+/**
+ * SLA policy – the single SLA view of a step or stage. An explicit `sla` wins; otherwise
+ * the approval node's `slaHours`/`escalateTo` and `sla` business rules (whose
+ * `appliesTo` names the step or stage and whose expression is an ISO duration) apply.
+ * A policy without its own calendar counts in the step's calendar, if it has one.
+ */
+import type { BusinessRule, SlaPolicy, Stage, Step, StepType } from "@/types/caseIr";
+import { parseDuration } from "@/lib/expression/builtins";
+import { parseBusinessDuration } from "@/lib/calendar/calculator";
+
+/** Step types that take time and can carry boundary timers */
+export const SLA_STEP_TYPES = new Set<StepType>(["automation", "user"]);
+
+const MS_PER_MONTH = 30 * 24 * 3_600_000;
+
+/** Length of an ISO 8601 duration in ms (a month counts as 30 days); null when malformed or negative */
+export function durationMs(iso: string): number | null {
+  const d = parseDuration(iso);
+  if (!d) return null;
+  const ms = d.months * MS_PER_MONTH + d.ms;
+  return ms < 0 ? null : ms;
+}
+
+function fromRules(id: string, rules: BusinessRule[]): SlaPolicy | null {
+  const rule = rules.find(r => r.ruleType === "sla" && r.appliesTo === id &&
+    (r.calendarRef ? parseBusinessDuration(r.expression) : durationMs(r.expression)) !== null);
+  if (!rule) return null;
+  return rule.calendarRef ? { target: rule.expression.trim(), calendarRef: rule.calendarRef } : { target: rule.expression.trim() };
+}
+
+function fromApproval(step: Step): SlaPolicy | null {
+  if (step.moduleRef?.moduleId !== "approval") return null;
+  const config = step.moduleRef.instanceConfig;
+  const hours = Number(config.slaHours);
+  if (!Number.isFinite(hours) || hours <= 0) return null;
+  const escalateTo = typeof config.escalateTo === "string" ? config.escalateTo.trim() : "";
+  return {
+    target: `PT${hours}H`,
+    escalations: escalateTo ? [{ id: "approval_escalation", after: "PT0S", action: "reassign", to: escalateTo }] : undefined,
+  };
+}
+
+export function effectiveStepSla(step: Step, rules: BusinessRule[] = []): SlaPolicy | null {
+  if (!SLA_STEP_TYPES.has(step.type)) return null;
+  const policy = step.sla ?? fromApproval(step) ?? fromRules(step.id, rules);
+  return policy && !policy.calendarRef && step.calendarRef ? { ...policy, calendarRef: step.calendarRef } : policy;
+}
+
+export function effectiveStageSla(stage: Stage, rules: BusinessRule[] = []): SlaPolicy | null {
+  return stage.sla ?? fromRules(stage.id, rules);
+}
+
+/** Where an effective SLA came from, for display */
+export function slaSourceOf(step: Step, rules: BusinessRule[] = []): "step" | "approval" | "rule" | null {
+  if (!SLA_STEP_TYPES.has(step.type)) return null;
+  if (step.sla) return "step";
+  if (fromApproval(step)) return "approval";
+  return fromRules(step.id, rules) ? "rule" : null;
+}
+
+/** Problems that stop a policy from compiling; empty when it is valid */
+export function slaProblems(policy: SlaPolicy): string[] {
+  const problems: string[] = [];
+  if (policy.calendarRef) {
+    const target = parseBusinessDuration(policy.target);
+    if (!target || (!target.days && !target.ms)) {
+      problems.push(`Target "${policy.target}" is not a positive business duration (days, hours, minutes)`);
+    }
+  } else {
+    const target = durationMs(policy.target);
+    if (target === null || target === 0) problems.push(`Target "${policy.target}" is not a positive ISO 8601 duration`);
+  }
+  if (policy.warningPercent !== undefined && !(policy.warningPercent >= 1 && policy.warningPercent <= 99)) {
+    problems.push("Warning threshold must be between 1 and 99 %");
+  }
+  (policy.escalations ?? []).forEach((e, i) => {
+    const valid = policy.calendarRef ? parseBusinessDuration(e.after) !== null : durationMs(e.after) !== null;
+    if (!valid) problems.push(`Escalation ${i + 1}: "${e.after}" is not ${policy.calendarRef ? "a business" : "an ISO 8601"} duration`);
+    if (!e.to.trim()) problems.push(`Escalation ${i + 1} has no recipient`);
+  });
+  return problems;
+}
@@ -0,0 +1,55 @@
+/**
+ * Studio state parked in sessionStorage while the user is on the form builder or module
+ * config page: the Case IR with its unsaved edits, and the workflow revision it is based on,
+ * so coming back reopens the same workflow and a later save still merges against that revision.
+ */
+import type { CaseIR } from "@/types/caseIr";
+
+const IR_KEY = "studio_caseIr";
+const BASE_KEY = "studio_base";
+
+interface StudioBase {
+  workflowId?: string;
+  revisionId?: string;
+}
+
+function readBase(): StudioBase {
+  try {
+    return JSON.parse(sessionStorage.getItem(BASE_KEY) ?? "{}") as StudioBase;
+  } catch {
+    return {};
+  }
+}
+
+/** Record which workflow and revision the open Studio edits; WorkflowStudio keeps this current. */
+export function setStudioBase(workflowId: string | undefined, revisionId: string | null | undefined): void {
+  sessionStorage.setItem(BASE_KEY, JSON.stringify({ workflowId, revisionId: revisionId ?? undefined }));
+}
+
+/** Save the Case IR before navigating away from the Studio. */
+export function parkStudioIr(caseIr: CaseIR): void {
+  sessionStorage.setItem(IR_KEY, JSON.stringify(caseIr));
+}
+
+/** The Studio location to return to, with the same workflow open. */
+export function studioReturnPath(): string {
+  const { workflowId } = readBase();
+  return workflowId ? `/studio?workflow=${encodeURIComponent(workflowId)}` : "/studio";
+}
+
+/**
+ * Read the parked Case IR once (the entry is removed) together with the revision it was based
+ * on — only when it was parked for `workflowId`, so another workflow's revision is never used.
+ */
+export function takeParkedStudio(workflowId: string | null): { caseIr: CaseIR; revisionId?: string } | null {
+  const saved = sessionStorage.getItem(IR_KEY);
+  if (!saved) return null;
+  sessionStorage.removeItem(IR_KEY);
+  try {
+    const caseIr = JSON.parse(saved) as CaseIR;
+    const base = readBase();
+    return { caseIr, revisionId: workflowId && base.workflowId === workflowId ? base.revisionId : undefined };
+  } catch {
+    return null;
+  }
+}
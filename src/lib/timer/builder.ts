@@ -0,0 +1,74 @@
+/**
+ * Timer builder – turns the choices of the timer editor's builder (after, every, at, daily,
+ * weekly, monthly) into the ISO 8601 or Camunda cron text the timer fields store.
+ */
+import { formatDuration } from "@/lib/expression/builtins";
+import type { TimerUsage } from "./schedule";
+
+export type TimerBuilderMode = "after" | "every" | "at" | "daily" | "weekly" | "monthly";
+export type TimerUnit = "S" | "M" | "H" | "D" | "W";
+
+export interface TimerDraft {
+  mode: TimerBuilderMode;
+  /** after / every */
+  amount: number;
+  unit: TimerUnit;
+  /** every: number of fires, 0 = forever */
+  times: number;
+  /** at: local date-time, as a datetime-local input gives it (2026-11-02T09:00) */
+  at: string;
+  /** daily / weekly / monthly: HH:mm */
+  time: string;
+  /** weekly: MON … SUN */
+  weekdays: string[];
+  /** monthly: 1–31, or "L" for the last day */
+  dayOfMonth: string;
+}
+
+export const TIMER_UNITS: { label: string; value: TimerUnit }[] = [
+  { label: "seconds", value: "S" }, { label: "minutes", value: "M" }, { label: "hours", value: "H" },
+  { label: "days", value: "D" }, { label: "weeks", value: "W" },
+];
+
+export const BUILDER_WEEKDAYS = ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"];
+
+const UNIT_MS: Record<TimerUnit, number> = { S: 1000, M: 60_000, H: 3_600_000, D: 86_400_000, W: 7 * 86_400_000 };
+
+export const DEFAULT_TIMER_DRAFT: TimerDraft = {
+  mode: "every", amount: 5, unit: "M", times: 0, at: "", time: "09:00", weekdays: ["MON", "TUE", "WED", "THU", "FRI"], dayOfMonth: "1",
+};
+
+/** Builder modes that make sense where the timer sits: a wait fires once, so it does not repeat */
+export function builderModes(usage: TimerUsage): { label: string; value: TimerBuilderMode }[] {
+  const all: { label: string; value: TimerBuilderMode }[] = [
+    { label: "After a duration", value: "after" }, { label: "Every …", value: "every" }, { label: "At a date", value: "at" },
+    { label: "Daily at", value: "daily" }, { label: "Weekly on", value: "weekly" }, { label: "Monthly on", value: "monthly" },
+  ];
+  return usage === "wait" ? all.filter(m => m.value !== "every") : all;
+}
+
+function cronTime(time: string): [string, string] {
+  const [h = "0", m = "0"] = time.split(":");
+  return [String(Number(m)), String(Number(h))];
+}
+
+/** Timer text for a draft; an empty string while the draft is incomplete */
+export function buildTimerExpression(draft: TimerDraft): string {
+  const duration = formatDuration({ kind: "duration", months: 0, ms: Math.max(0, draft.amount) * UNIT_MS[draft.unit] });
+  const [minute, hour] = cronTime(draft.time);
+  switch (draft.mode) {
+    case "after":
+      return draft.amount > 0 ? duration : "";
+    case "every":
+      return draft.amount > 0 ? `R${draft.times > 0 ? draft.times : ""}/${duration}` : "";
+    case "at":
+      // datetime-local leaves out the seconds
+      return draft.at ? (draft.at.length === 16 ? `${draft.at}:00` : draft.at) : "";
+    case "daily":
+      return `0 ${minute} ${hour} * * ?`;
+    case "weekly":
+      return draft.weekdays.length ? `0 ${minute} ${hour} ? * ${BUILDER_WEEKDAYS.filter(d => draft.weekdays.includes(d)).join(",")}` : "";
+    case "monthly":
+      return `0 ${minute} ${hour} ${draft.dayOfMonth} * ?`;
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Camunda cron – the Quartz dialect the engine's timers accept: six or seven fields
+ * (seconds minutes hours day-of-month month day-of-week [year]), `?` in exactly one of
+ * the two day fields, day-of-week 1 = Sunday, and the `L`, `W` and `#` day modifiers.
+ * Fire times are computed in the local time zone, as the engine does in its own.
+ */
+
+export interface CronDayOfMonth {
+  days: Set<number>;
+  /** `L` / `L-3`: days before the last day of the month */
+  last: number | null;
+  /** `15W`: weekday nearest to that day */
+  nearestWeekday: number | null;
+  /** `LW`: last weekday of the month */
+  lastWeekday: boolean;
+}
+
+export interface CronDayOfWeek {
+  /** 1 = Sunday … 7 = Saturday */
+  days: Set<number>;
+  /** `6L`: last such weekday of the month */
+  last: number | null;
+  /** `2#1`: first Monday of the month */
+  nth: { day: number; n: number } | null;
+}
+
+export interface CronSchedule {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  /** null for `?` */
+  dayOfMonth: CronDayOfMonth | null;
+  months: Set<number>;
+  /** null for `?` */
+  dayOfWeek: CronDayOfWeek | null;
+  /** null when the year field is left out */
+  years: Set<number> | null;
+}
+
+export type CronParseResult = { cron: CronSchedule } | { error: string; fix?: string };
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const SECONDS: FieldSpec = { label: "Seconds", min: 0, max: 59 };
+const MINUTES: FieldSpec = { label: "Minutes", min: 0, max: 59 };
+const HOURS: FieldSpec = { label: "Hours", min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { label: "Day-of-month", min: 1, max: 31 };
+const MONTH: FieldSpec = { label: "Month", min: 1, max: 12, names: MONTH_NAMES };
+const DAY_OF_WEEK: FieldSpec = { label: "Day-of-week", min: 1, max: 7, names: DAY_NAMES };
+const YEAR: FieldSpec = { label: "Year", min: 1970, max: 2099 };
+
+/** How far ahead `nextCronTimes` looks before deciding a schedule never fires */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+class CronFieldError extends Error {}
+
+function value(token: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+  const n = named >= 0 ? named + 1 : /^\d+$/.test(token) ? Number(token) : NaN;
+  if (Number.isNaN(n)) throw new CronFieldError(`${spec.label}: "${token}" is not a number${spec.names ? " or name" : ""}`);
+  if (n < spec.min || n > spec.max) throw new CronFieldError(`${spec.label}: ${n} is outside ${spec.min}–${spec.max}`);
+  return n;
+}
+
+/** `*`, `5`, `1-5`, `MON-FRI`, `*\/15`, `10/5`, `1-30/2` and comma lists of those; ranges may wrap (`22-2`) */
+function parseSet(text: string, spec: FieldSpec): Set<number> {
+  const out = new Set<number>();
+  for (const part of text.split(",")) {
+    if (!part) throw new CronFieldError(`${spec.label}: empty list entry`);
+    const [range, stepText, extra] = part.split("/");
+    if (extra !== undefined) throw new CronFieldError(`${spec.label}: "${part}" has more than one "/"`);
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new CronFieldError(`${spec.label}: step "${stepText}" must be a positive number`);
+    let from: number, to: number;
+    if (range === "*") [from, to] = [spec.min, spec.max];
+    else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      [from, to] = [value(a, spec), value(b, spec)];
+    } else {
+      from = value(range, spec);
+      to = stepText === undefined ? from : spec.max;
+    }
+    const span = to >= from ? to - from : spec.max - from + 1 + to - spec.min;
+    for (let i = 0; i <= span; i += step) out.add(from + i > spec.max ? from + i - spec.max - 1 + spec.min : from + i);
+  }
+  return out;
+}
+
+function parseDayOfMonth(text: string): CronDayOfMonth | null {
+  if (text === "?") return null;
+  const none = { days: new Set<number>(), last: null, nearestWeekday: null, lastWeekday: false };
+  if (text === "LW") return { ...none, lastWeekday: true };
+  const last = /^L(?:-(\d+))?$/.exec(text);
+  if (last) {
+    const offset = Number(last[1] ?? 0);
+    if (offset > 30) throw new CronFieldError(`${DAY_OF_MONTH.label}: offset in "${text}" must be at most 30`);
+    return { ...none, last: offset };
+  }
+  const weekday = /^(\d+)W$/.exec(text);
+  if (weekday) return { ...none, nearestWeekday: value(weekday[1], DAY_OF_MONTH) };
+  if (/[LW#]/i.test(text)) throw new CronFieldError(`${DAY_OF_MONTH.label}: "${text}" – L and W stand alone (L, L-3, 15W, LW)`);
+  return { ...none, days: parseSet(text, DAY_OF_MONTH) };
+}
+
+function parseDayOfWeek(text: string): CronDayOfWeek | null {
+  if (text === "?") return null;
+  const none = { days: new Set<number>(), last: null, nth: null };
+  // A lone L is Saturday, the last day of the week
+  if (text === "L") return { ...none, days: new Set([7]) };
+  const last = /^(\w+)L$/.exec(text);
+  if (last) return { ...none, last: value(last[1], DAY_OF_WEEK) };
+  const nth = /^(\w+)#(\d+)$/.exec(text);
+  if (nth) {
+    const n = Number(nth[2]);
+    if (n < 1 || n > 5) throw new CronFieldError(`${DAY_OF_WEEK.label}: "#${n}" must be 1–5`);
+    return { ...none, nth: { day: value(nth[1], DAY_OF_WEEK), n } };
+  }
+  if (/[L#]/.test(text)) throw new CronFieldError(`${DAY_OF_WEEK.label}: "${text}" – L and # stand alone (6L, 2#1)`);
+  return { ...none, days: parseSet(text, DAY_OF_WEEK) };
+}
+
+/**
+ * Unix day-of-week numbers (0/7 = Sunday) renumbered for Quartz (1 = Sunday). Only the
+ * days move, not the steps after `/`; a range ending on Sunday 7 wraps round to Quartz 1,
+ * so it is split (`5-7` → `6-7,1`) or, with a step, spelled out day by day.
+ */
+function quartzDayOfWeek(unix: string): string {
+  const day = (n: string) => /^\d+$/.test(n) ? String((Number(n) % 7) + 1) : n;
+  return unix.split(",").map(item => {
+    const [range, step] = item.split("/");
+    const [from, to] = range.split("-");
+    if (to === undefined) return [day(from), step].filter(p => p !== undefined).join("/");
+    if (to !== "7" || !/^\d+$/.test(from)) return `${day(from)}-${day(to)}${step ? `/${step}` : ""}`;
+    if (!step) return from === "6" ? "7,1" : `${day(from)}-7,1`;
+    const days: string[] = [];
+    for (let n = Number(from); n <= 7; n += Math.max(1, Number(step) || 1)) days.push(day(String(n)));
+    return days.join(",");
+  }).join(",");
+}
+
+/**
+ * Quartz spelling of a five-field Unix cron (`0 0 * * *` → `0 0 0 * * ?`); null when both
+ * day fields are restricted, which Quartz cannot express.
+ */
+export function unixToQuartz(fields: string[]): string | null {
+  const [minute, hour, dom, month, dow] = fields;
+  if (dom !== "*" && dom !== "?" && dow !== "*" && dow !== "?") return null;
+  const days = dow === "*" || dow === "?" ? [dom === "?" ? "*" : dom, "?"] : ["?", quartzDayOfWeek(dow)];
+  return ["0", minute, hour, days[0], month, days[1]].join(" ");
+}
+
+/** True when the text has the shape of a cron expression rather than an ISO 8601 value */
+export function looksLikeCron(text: string): boolean {
+  return /\s/.test(text.trim());
+}
+
+export function parseCron(text: string): CronParseResult {
+  const fields = text.trim().toUpperCase().split(/\s+/);
+  if (fields.length === 5) {
+    const fix = unixToQuartz(fields);
+    return {
+      error: "This is a five-field Unix cron; Camunda expects seconds first and ? in one of the day fields",
+      ...(fix ? { fix } : {}),
+    };
+  }
+  if (fields.length < 6 || fields.length > 7) return { error: `Camunda cron has 6 or 7 fields (seconds minutes hours day-of-month month day-of-week [year]), got ${fields.length}` };
+  const [sec, min, hour, dom, month, dow, year] = fields;
+  if ((dom === "?") === (dow === "?")) {
+    const fix = dow === "*" ? fields.map((f, i) => (i === 5 ? "?" : f)).join(" ")
+      : dom === "*" ? fields.map((f, i) => (i === 3 ? "?" : f)).join(" ")
+        : undefined;
+    return {
+      error: dom === "?" ? "Only one of day-of-month and day-of-week can be ?" : "Put ? in day-of-month or day-of-week – Camunda cannot combine both",
+      ...(fix ? { fix } : {}),
+    };
+  }
+  try {
+    return {
+      cron: {
+        seconds: parseSet(sec, SECONDS),
+        minutes: parseSet(min, MINUTES),
+        hours: parseSet(hour, HOURS),
+        dayOfMonth: parseDayOfMonth(dom),
+        months: parseSet(month, MONTH),
+        dayOfWeek: parseDayOfWeek(dow),
+        years: year === undefined ? null : parseSet(year, YEAR),
+      },
+    };
+  } catch (e) {
+    if (e instanceof CronFieldError) return { error: e.message };
+    throw e;
+  }
+}
+
+function daysIn(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function isWeekday(year: number, month: number, day: number): boolean {
+  const dow = new Date(year, month, day).getDay();
+  return dow !== 0 && dow !== 6;
+}
+
+/** `month` is 0-based, as in Date */
+function dayMatches(cron: CronSchedule, year: number, month: number, day: number): boolean {
+  const last = daysIn(year, month);
+  const dom = cron.dayOfMonth;
+  if (dom) {
+    if (dom.last !== null) return day === last - dom.last;
+    if (dom.lastWeekday) {
+      let d = last;
+      while (!isWeekday(year, month, d)) d--;
+      return day === d;
+    }
+    if (dom.nearestWeekday !== null) {
+      // Nearest weekday within the same month
+      const target = Math.min(dom.nearestWeekday, last);
+      const dow = new Date(year, month, target).getDay();
+      const nearest = dow === 6 ? (target === 1 ? 3 : target - 1) : dow === 0 ? (target === last ? target - 2 : target + 1) : target;
+      return day === nearest;
+    }
+    return dom.days.has(day);
+  }
+  const dow = cron.dayOfWeek!;
+  const weekday = new Date(year, month, day).getDay() + 1;
+  if (dow.last !== null) return weekday === dow.last && day + 7 > last;
+  if (dow.nth) return weekday === dow.nth.day && Math.ceil(day / 7) === dow.nth.n;
+  return dow.days.has(weekday);
+}
+
+const sorted = (s: Set<number>) => [...s].sort((a, b) => a - b);
+
+/** The next `count` fire times strictly after `from` (fewer when the schedule runs out) */
+export function nextCronTimes(cron: CronSchedule, from: Date, count: number): Date[] {
+  const out: Date[] = [];
+  const [hours, minutes, seconds] = [sorted(cron.hours), sorted(cron.minutes), sorted(cron.seconds)];
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  for (let i = 0; i < MAX_SEARCH_DAYS && out.length < count; i++, day.setDate(day.getDate() + 1)) {
+    const [y, m, d] = [day.getFullYear(), day.getMonth(), day.getDate()];
+    if (cron.years && !cron.years.has(y)) {
+      if (y > Math.max(...cron.years)) break;
+      continue;
+    }
+    if (!cron.months.has(m + 1) || !dayMatches(cron, y, m, d)) continue;
+    for (const h of hours) {
+      if (new Date(y, m, d, h, 59, 59) <= from) continue;
+      for (const mi of minutes) {
+        for (const s of seconds) {
+          const at = new Date(y, m, d, h, mi, s);
+          // Skip times a daylight-saving jump removes from the day
+          if (at <= from || at.getHours() !== h || at.getDate() !== d) continue;
+          out.push(at);
+          if (out.length === count) return out;
+        }
+      }
+    }
+  }
+  return out;
+}
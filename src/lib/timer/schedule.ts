@@ -0,0 +1,297 @@
+/**
+ * Timer schedules – what a timer field may hold: an ISO 8601 duration, date or repeating
+ * cycle, a Camunda cron, a duration counted in a business calendar, or an engine
+ * expression. Parses and validates them, previews when they fire and flags schedules the
+ * engine would reject or that fire more often than the job executor should be asked to.
+ */
+import type { Duration } from "@/lib/expression/types";
+import { addDuration, parseDuration } from "@/lib/expression/builtins";
+import type { BusinessCalendar } from "@/lib/calendar/types";
+import {
+  addBusinessTime, findCalendar, formatBusinessDuration, formatInTimeZone, parseBusinessDuration, STANDARD_CALENDAR,
+} from "@/lib/calendar/calculator";
+import { parseBusinessTimeExpression } from "@/lib/calendar/timerExpression";
+import { looksLikeCron, nextCronTimes, parseCron, type CronSchedule } from "./cron";
+
+/** Where the timer sits – decides which schedules make sense */
+export type TimerUsage = "start" | "wait" | "boundary" | "handler";
+
+export type TimerSchedule =
+  | { kind: "duration"; duration: Duration }
+  | { kind: "date"; date: Date }
+  /** `repeat` null repeats forever */
+  | { kind: "cycle"; repeat: number | null; period: Duration; start?: Date; end?: Date }
+  | { kind: "cron"; cron: CronSchedule; text: string }
+  | { kind: "businessTime"; duration: string; calendarKey: string }
+  | { kind: "expression" };
+
+export interface TimerProblem {
+  severity: "error" | "warning" | "info";
+  message: string;
+  /** Corrected expression to offer in place of the current one */
+  fix?: string;
+}
+
+export interface TimerOptions {
+  usage: TimerUsage;
+  /** Business calendar of the owning step; durations of waits and boundary timers count in it */
+  calendarRef?: string;
+  now?: Date;
+}
+
+export interface TimerAnalysis {
+  schedule: TimerSchedule | null;
+  problems: TimerProblem[];
+}
+
+/** Fire times the editor previews */
+export const PREVIEW_COUNT = 10;
+/** Schedules firing more often than this get a warning */
+export const MIN_TIMER_INTERVAL_MS = 60_000;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/** ISO 8601 date or date-time; without an offset it is local time. Null when malformed or out of range */
+export function parseIsoDate(text: string): Date | null {
+  const m = ISO_DATE.exec(text.trim());
+  if (!m) return null;
+  const [, y, mo, d, h = "0", mi = "0", s = "0", ms = "0", zone] = m;
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s), Number(ms.padEnd(3, "0"))] as const;
+  const utc = new Date(Date.UTC(...parts));
+  const valid = utc.getUTCMonth() === parts[1] && utc.getUTCDate() === parts[2] && parts[3] < 24 && parts[4] < 60 && parts[5] < 60;
+  if (!valid) return null;
+  if (!zone) return new Date(...parts);
+  if (zone === "Z") return utc;
+  const [, sign, oh, om] = /^([+-])(\d{2}):?(\d{2})$/.exec(zone)!;
+  return new Date(utc.getTime() - (sign === "-" ? -1 : 1) * (Number(oh) * 60 + Number(om)) * 60_000);
+}
+
+type Parsed = { schedule: TimerSchedule } | { problem: TimerProblem };
+
+function fail(message: string, fix?: string): Parsed {
+  return { problem: { severity: "error", message, ...(fix ? { fix } : {}) } };
+}
+
+/** `R[n]/duration`, `R[n]/start/duration` or `R[n]/duration/end` */
+function parseCycle(text: string): Parsed {
+  const parts = text.split("/");
+  const repeatText = parts[0].slice(1);
+  if (repeatText && !/^\d+$/.test(repeatText)) return fail(`"${parts[0]}" – repetitions are written R or R<count>, e.g. R3`);
+  if (parts.length < 2 || parts.length > 3) return fail("A cycle is R/<duration>, R/<start>/<duration> or R/<duration>/<end>, e.g. R/PT5M");
+  const repeat = repeatText ? Number(repeatText) : null;
+  const [first, second] = parts.slice(1);
+  const firstDuration = parseDuration(first);
+  const period = firstDuration ?? (second !== undefined ? parseDuration(second) : null);
+  if (!period) return fail(`No valid ISO 8601 duration in "${text}", e.g. R/PT5M`);
+  let start: Date | undefined, end: Date | undefined;
+  if (second !== undefined) {
+    const dateText = firstDuration ? second : first;
+    const date = parseIsoDate(dateText);
+    if (!date) return fail(`"${dateText}" is not an ISO 8601 date, e.g. 2026-11-02T09:00:00`);
+    if (firstDuration) end = date; else start = date;
+  }
+  return { schedule: { kind: "cycle", repeat, period, ...(start ? { start } : {}), ...(end ? { end } : {}) } };
+}
+
+function parse(text: string, options: TimerOptions): Parsed {
+  const business = parseBusinessTimeExpression(text);
+  if (business) return { schedule: { kind: "businessTime", duration: business.duration, calendarKey: business.calendarKey } };
+  if (/^[$#]\{/.test(text)) return { schedule: { kind: "expression" } };
+  const counted = options.calendarRef && (options.usage === "wait" || options.usage === "boundary") ? parseBusinessDuration(text) : null;
+  if (counted) return { schedule: { kind: "businessTime", duration: formatBusinessDuration(counted), calendarKey: options.calendarRef! } };
+  if (parseBusinessDuration(text) && !parseDuration(text.toUpperCase())) return fail("Business durations need a business calendar on the step (Working Time)");
+  if (looksLikeCron(text)) {
+    const parsed = parseCron(text);
+    return "cron" in parsed ? { schedule: { kind: "cron", cron: parsed.cron, text } } : fail(parsed.error, parsed.fix);
+  }
+  if (/^R/i.test(text)) return parseCycle(text.toUpperCase());
+  if (/^-?P/i.test(text)) {
+    const duration = parseDuration(text.toUpperCase());
+    return duration ? { schedule: { kind: "duration", duration } } : fail(`"${text}" is not an ISO 8601 duration, e.g. PT5M or P1DT12H`);
+  }
+  if (/^\d{4}-/.test(text)) {
+    const date = parseIsoDate(text);
+    return date ? { schedule: { kind: "date", date } } : fail(`"${text}" is not a valid ISO 8601 date, e.g. 2026-11-02T09:00:00`);
+  }
+  return fail("Not a timer – use an ISO 8601 duration (PT5M), date (2026-11-02T09:00), cycle (R/PT1H) or Camunda cron (0 0 9 ? * MON-FRI)");
+}
+
+/** Parse a timer value; null schedule with an error problem when it cannot be parsed */
+export function parseTimer(expression: string, options: TimerOptions): TimerAnalysis {
+  const parsed = parse(expression.trim(), options);
+  return "schedule" in parsed ? { schedule: parsed.schedule, problems: [] } : { schedule: null, problems: [parsed.problem] };
+}
+
+function isNegative(d: Duration): boolean {
+  return d.months < 0 || d.ms < 0;
+}
+
+function isZero(d: Duration): boolean {
+  return d.months === 0 && d.ms === 0;
+}
+
+/** The first `count` cycle fires after `from` */
+function cycleTimes(s: Extract<TimerSchedule, { kind: "cycle" }>, from: Date, count: number): Date[] {
+  if (isZero(s.period) || isNegative(s.period)) return [];
+  const out: Date[] = [];
+  // Without a start date the first fire is one period after the timer starts
+  let at = s.start ?? addDuration(from, s.period);
+  let index = 0;
+  if (s.start && s.period.months === 0 && at < from) {
+    const skip = Math.floor((from.getTime() - at.getTime()) / s.period.ms);
+    index = skip;
+    at = new Date(at.getTime() + skip * s.period.ms);
+  }
+  for (let guard = 0; out.length < count && guard < 100_000; guard++, index++) {
+    if (s.repeat !== null && index >= s.repeat) break;
+    if (s.end && at > s.end) break;
+    if (at > from) out.push(at);
+    at = addDuration(at, s.period);
+  }
+  return out;
+}
+
+/**
+ * When the timer would fire if it started at `from`: at most `count` times, fewer when the
+ * schedule runs out, none for engine expressions and dates already passed.
+ */
+export function nextFireTimes(schedule: TimerSchedule, from: Date, count = PREVIEW_COUNT, calendars: BusinessCalendar[] = []): Date[] {
+  switch (schedule.kind) {
+    case "duration":
+      return isNegative(schedule.duration) ? [] : [addDuration(from, schedule.duration)];
+    case "date":
+      return schedule.date > from ? [schedule.date] : [];
+    case "cycle":
+      return cycleTimes(schedule, from, count);
+    case "cron":
+      return nextCronTimes(schedule.cron, from, count);
+    case "businessTime":
+      try {
+        return [addBusinessTime(from, schedule.duration, findCalendar(calendars, schedule.calendarKey) ?? STANDARD_CALENDAR)];
+      } catch {
+        return [];
+      }
+    case "expression":
+      return [];
+  }
+}
+
+/** "1 day 2 hours", "30 seconds" */
+export function describeDuration(d: Duration): string {
+  const parts: string[] = [];
+  const unit = (n: number, name: string) => n && parts.push(`${n} ${name}${n === 1 ? "" : "s"}`);
+  unit(Math.floor(Math.abs(d.months) / 12), "year");
+  unit(Math.abs(d.months) % 12, "month");
+  let ms = Math.abs(d.ms);
+  for (const [size, name] of [[86_400_000, "day"], [3_600_000, "hour"], [60_000, "minute"], [1000, "second"]] as const) {
+    unit(Math.floor(ms / size), name);
+    ms %= size;
+  }
+  if (ms) parts.push(`${ms} ms`);
+  return parts.length ? parts.join(" ") : "0 seconds";
+}
+
+function describeGap(ms: number): string {
+  return describeDuration({ kind: "duration", months: 0, ms });
+}
+
+/** The browser's IANA time zone, the one previews are shown in */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/** Fire time for display, with seconds only when the schedule uses them */
+export function formatFireTime(at: Date, timeZone: string): string {
+  const seconds = at.getUTCSeconds();
+  return seconds ? `${formatInTimeZone(at, timeZone)}:${String(seconds).padStart(2, "0")}` : formatInTimeZone(at, timeZone);
+}
+
+/** One-line summary, e.g. "Every 5 minutes, 3 times" */
+export function describeTimer(schedule: TimerSchedule, timeZone: string): string {
+  switch (schedule.kind) {
+    case "duration":
+      return `Once, ${describeDuration(schedule.duration)} after the timer starts`;
+    case "date":
+      return `Once, at ${formatFireTime(schedule.date, timeZone)}`;
+    case "cycle": {
+      const parts = [`Every ${describeDuration(schedule.period)}`];
+      if (schedule.repeat !== null) parts.push(`${schedule.repeat} time${schedule.repeat === 1 ? "" : "s"}`);
+      if (schedule.start) parts.push(`from ${formatFireTime(schedule.start, timeZone)}`);
+      if (schedule.end) parts.push(`until ${formatFireTime(schedule.end, timeZone)}`);
+      return parts.join(", ");
+    }
+    case "cron":
+      return "Cron schedule, evaluated in the engine's time zone";
+    case "businessTime":
+      return `Once, ${schedule.duration} of working time after the timer starts (calendar "${schedule.calendarKey}")`;
+    case "expression":
+      return "Engine expression, evaluated when the timer starts";
+  }
+}
+
+/** Smallest gap between consecutive fires, null when the schedule fires at most once */
+function minGapMs(schedule: TimerSchedule, now: Date): number | null {
+  if (schedule.kind === "cycle" && schedule.period.months === 0 && schedule.repeat !== 1) return schedule.period.ms;
+  if (schedule.kind !== "cycle" && schedule.kind !== "cron") return null;
+  const times = nextFireTimes(schedule, now, PREVIEW_COUNT + 1);
+  let gap: number | null = null;
+  for (let i = 1; i < times.length; i++) {
+    const g = times[i].getTime() - times[i - 1].getTime();
+    gap = gap === null ? g : Math.min(gap, g);
+  }
+  return gap;
+}
+
+function scheduleProblems(schedule: TimerSchedule, options: TimerOptions, now: Date): TimerProblem[] {
+  const out: TimerProblem[] = [];
+  const tz = localTimeZone();
+  switch (schedule.kind) {
+    case "duration":
+      if (isNegative(schedule.duration)) out.push({ severity: "error", message: "A timer duration cannot be negative" });
+      else if (options.usage === "start") out.push({ severity: "info", message: "A duration on a start event fires once, that long after deployment – use R/… to repeat" });
+      break;
+    case "date":
+      if (schedule.date <= now) out.push({ severity: "warning", message: `${formatFireTime(schedule.date, tz)} has passed; the engine fires the timer right away` });
+      break;
+    case "cycle":
+      if (schedule.repeat === 0) out.push({ severity: "error", message: "R0 never fires; leave the count out to repeat forever" });
+      if (isZero(schedule.period) || isNegative(schedule.period)) out.push({ severity: "error", message: "A cycle needs a positive duration" });
+      if (schedule.end && schedule.end <= now) out.push({ severity: "warning", message: `The cycle ended at ${formatFireTime(schedule.end, tz)}; it no longer fires` });
+      if (options.usage === "wait") out.push({ severity: "warning", message: "A wait only fires once; the repetition is ignored – use a duration or date" });
+      break;
+    case "cron": {
+      const dow = schedule.text.trim().split(/\s+/)[5];
+      if (dow === "1-5") {
+        out.push({
+          severity: "warning",
+          message: "Day-of-week 1-5 is Sunday to Thursday in Camunda cron (1 = Sunday)",
+          fix: schedule.text.trim().split(/\s+/).map((f, i) => (i === 5 ? "MON-FRI" : f)).join(" "),
+        });
+      }
+      if (nextFireTimes(schedule, now, 1).length === 0) out.push({ severity: "warning", message: "This cron never fires in the next eight years" });
+      break;
+    }
+    case "businessTime":
+      if (options.usage === "start" || options.usage === "handler") {
+        out.push({ severity: "error", message: "Business-calendar durations only work on waits and boundary timers" });
+      }
+      break;
+    case "expression":
+      out.push({ severity: "info", message: "The engine evaluates this expression at runtime; no preview" });
+      break;
+  }
+  const gap = minGapMs(schedule, now);
+  if (gap !== null && gap > 0 && gap < MIN_TIMER_INTERVAL_MS) {
+    out.push({ severity: "warning", message: `Fires every ${describeGap(gap)}; schedules more frequent than once a minute load the job executor` });
+  }
+  return out;
+}
+
+/** Parse, validate and check the frequency of a timer value; empty values have no problems */
+export function analyzeTimer(expression: string, options: TimerOptions): TimerAnalysis {
+  if (!expression.trim()) return { schedule: null, problems: [] };
+  const parsed = parseTimer(expression, options);
+  if (!parsed.schedule) return parsed;
+  return { schedule: parsed.schedule, problems: scheduleProblems(parsed.schedule, options, options.now ?? new Date()) };
+}
+
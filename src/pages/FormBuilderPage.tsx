@@ -7,7 +7,7 @@ import { useNavigate } from "react-router-dom";
 import {
   ArrowLeft, Download, Upload, Eye, FileJson, Copy, Check, X,
   AlertTriangle, AlertCircle, Info, Zap, Trash2, PanelLeftClose, PanelLeft,
-  HelpCircle, Link2, Flag,
+  HelpCircle, Link2, Flag, Languages, Globe, Workflow,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -19,6 +19,9 @@ import { useQuestionnaireStore } from "@/stores/questionnaireStore";
 import LeftPanel from "@/components/form-builder/LeftPanel";
 import CenterPanel from "@/components/form-builder/CenterPanel";
 import QuestionnairePreview from "@/components/form-builder/QuestionnairePreview";
+import TranslationDialog from "@/components/form-builder/TranslationDialog";
+import PublishDialog from "@/components/form-builder/PublishDialog";
+import { questionnaireToCaseIr } from "@/lib/questionnaire/toCaseIr";
 import type { QuestionnaireDocument, ValidationIssue } from "@/types/questionnaire";
 
 export default function FormBuilderPage() {
@@ -30,6 +33,8 @@ export default function FormBuilderPage() {
   const [importOpen, setImportOpen] = useState(false);
   const [validationOpen, setValidationOpen] = useState(false);
   const [previewOpen, setPreviewOpen] = useState(false);
+  const [translationsOpen, setTranslationsOpen] = useState(false);
+  const [publishOpen, setPublishOpen] = useState(false);
   const [importJson, setImportJson] = useState("");
   const [importError, setImportError] = useState("");
   const [copied, setCopied] = useState(false);
@@ -102,6 +107,15 @@ export default function FormBuilderPage() {
     setValidationOpen(true);
   }, [store]);
 
+  // Generate a case skeleton from the branching flow and open it in the Studio
+  const handleCreateWorkflow = useCallback(() => {
+    if (store.questions.length === 0) return;
+    const errors = store.validate().filter((i) => i.type === "error");
+    if (errors.length > 0 && !confirm(`The questionnaire has ${errors.length} validation error(s). Create a workflow from it anyway?`)) return;
+    const { caseIr, warnings } = questionnaireToCaseIr(store.exportDocument());
+    navigate("/studio", { state: { generatedIr: caseIr, generatedWarnings: warnings } });
+  }, [store, navigate]);
+
   // Stats
   const linkCount = store.questions.reduce((acc, q) => {
     const branches = q._branches ?? {};
@@ -147,6 +161,10 @@ export default function FormBuilderPage() {
             <Trash2 size={11} />
           </Button>
           <div className="w-px h-4 bg-border" />
+          <Button variant="outline" size="sm" className="h-6 text-[10px]" onClick={() => setTranslationsOpen(true)}>
+            <Languages size={10} className="mr-1" /> Translations
+            {(store.flow.locales?.length ?? 0) > 0 && ` (${store.flow.locales!.length})`}
+          </Button>
           <Button variant="outline" size="sm" className="h-6 text-[10px]" onClick={() => setPreviewOpen(true)}>
             <Eye size={10} className="mr-1" /> Preview
           </Button>
@@ -156,6 +174,15 @@ export default function FormBuilderPage() {
           <Button variant="outline" size="sm" className="h-6 text-[10px]" onClick={() => setExportOpen(true)}>
             <Download size={10} className="mr-1" /> Export
           </Button>
+          <Button
+            variant="outline" size="sm" className="h-6 text-[10px]" onClick={handleCreateWorkflow}
+            disabled={store.questions.length === 0} title="Generate a workflow from the questionnaire and open it in the Studio"
+          >
+            <Workflow size={10} className="mr-1" /> Create Workflow
+          </Button>
+          <Button size="sm" className="h-6 text-[10px]" onClick={() => setPublishOpen(true)}>
+            <Globe size={10} className="mr-1" /> Publish
+          </Button>
         </div>
       </div>
 
@@ -259,6 +286,9 @@ export default function FormBuilderPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      <TranslationDialog open={translationsOpen} onOpenChange={setTranslationsOpen} />
+      <PublishDialog open={publishOpen} onOpenChange={setPublishOpen} />
+
       {/* Preview Dialog */}
       <Dialog open={previewOpen} onOpenChange={setPreviewOpen}>
         <DialogContent className="max-w-2xl h-[80vh] flex flex-col p-0">
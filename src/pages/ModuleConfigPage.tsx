@@ -9,6 +9,7 @@ import { ArrowLeft, Save, Package } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import FormBuilderPanel from "@/components/studio/FormBuilderPanel";
 import type { ModuleConfigField, ModuleRef } from "@/types/caseIr";
+import { studioReturnPath } from "@/lib/studioSession";
 
 export default function ModuleConfigPage() {
   const navigate = useNavigate();
@@ -49,7 +50,7 @@ export default function ModuleConfigPage() {
       }
     }
 
-    navigate(state?.returnTo ?? "/studio", {
+    navigate(state?.returnTo ?? studioReturnPath(), {
       state: {
         savedModuleConfig: config,
         savedModuleSchema: fields,
@@ -60,7 +61,7 @@ export default function ModuleConfigPage() {
   }, [fields, state, navigate]);
 
   const handleCancel = () => {
-    navigate(state?.returnTo ?? "/studio", {
+    navigate(state?.returnTo ?? studioReturnPath(), {
       state: { restoreStudio: true },
     });
   };
@@ -0,0 +1,230 @@
+/**
+ * QuestionnaireFillPage – Public fill-in page of a published questionnaire (/fill/:flowId).
+ * Answers are saved as the respondent goes; the resume link (or this browser) picks up
+ * where they left off. Opened with ?task=<id> it fills the user task bound to the
+ * questionnaire for its signed-in assignee or candidate, and submitting completes that task.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { toast } from "sonner";
+import { AlertCircle, Check, CheckCircle2, Cloud, CloudOff, Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import QuestionnairePreview from "@/components/form-builder/QuestionnairePreview";
+import { questionsFromDocument } from "@/stores/questionnaireStore";
+import {
+  FillError,
+  fillUrl,
+  loadQuestionnaire,
+  openTask,
+  saveAnswers,
+  submitAnswers,
+  type FillProblem,
+  type FillProgress,
+  type LoadedQuestionnaire,
+  type SubmitResult,
+} from "@/lib/questionnaire/fillApi";
+import type { Answers } from "@/lib/questionnaire/logic";
+
+type Snapshot = { answers: Answers; progress: FillProgress; locale: string | null };
+
+type PageState =
+  | { kind: "loading" }
+  | { kind: "unavailable"; message: string }
+  | { kind: "filling"; loaded: LoadedQuestionnaire }
+  | { kind: "submitted"; result?: SubmitResult };
+
+const SAVE_DELAY_MS = 800;
+
+export default function QuestionnaireFillPage() {
+  const { flowId = "" } = useParams();
+  const [searchParams] = useSearchParams();
+  const taskId = searchParams.get("task");
+  const storageKey = `questionnaire-resume:${flowId}${taskId ? `:${taskId}` : ""}`;
+
+  const [page, setPage] = useState<PageState>({ kind: "loading" });
+  const [token, setToken] = useState<string | null>(() => searchParams.get("resume") || localStorage.getItem(storageKey));
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const [submitting, setSubmitting] = useState(false);
+  const [problems, setProblems] = useState<FillProblem[]>([]);
+  const [copied, setCopied] = useState(false);
+
+  // Saves run one at a time so the first one's token is used by the next
+  const tokenRef = useRef(token);
+  const latest = useRef<Snapshot | null>(null);
+  const saving = useRef(false);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  const skipFirstChange = useRef(true);
+
+  const rememberToken = useCallback((next: string | null) => {
+    tokenRef.current = next;
+    setToken(next);
+    if (next) localStorage.setItem(storageKey, next);
+    else localStorage.removeItem(storageKey);
+  }, [storageKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const loaded = await loadQuestionnaire(flowId, tokenRef.current);
+      if (!taskId || loaded.response) return loaded;
+      // A task is bound to its response on the server, so it is opened before any answer is saved
+      rememberToken(await openTask(flowId, taskId));
+      return loadQuestionnaire(flowId, tokenRef.current);
+    };
+    load()
+      .then((loaded) => {
+        if (cancelled) return;
+        if (!loaded.response && tokenRef.current) rememberToken(null);
+        if (loaded.response?.status === "submitted") {
+          setPage({ kind: "submitted" });
+          return;
+        }
+        if (loaded.response?.outdated) toast.info("This questionnaire was updated since your answers were saved. Please check them before submitting.");
+        setPage({ kind: "filling", loaded });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to load questionnaire:", err);
+        setPage({ kind: "unavailable", message: err instanceof Error ? err.message : "The questionnaire could not be loaded" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [flowId, taskId, rememberToken]);
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  const flush = useCallback(async () => {
+    if (saving.current || !latest.current) return;
+    const snapshot = latest.current;
+    latest.current = null;
+    saving.current = true;
+    setSaveState("saving");
+    try {
+      rememberToken(await saveAnswers(flowId, tokenRef.current, snapshot));
+      setSaveState("saved");
+    } catch (err) {
+      console.error("Failed to save answers:", err);
+      setSaveState("error");
+    } finally {
+      saving.current = false;
+    }
+    if (latest.current) flush();
+  }, [flowId, rememberToken]);
+
+  const handleChange = useCallback((snapshot: Snapshot) => {
+    // The first change is the restored state itself
+    if (skipFirstChange.current) {
+      skipFirstChange.current = false;
+      return;
+    }
+    if (!tokenRef.current && Object.keys(snapshot.answers).length === 0) return;
+    latest.current = snapshot;
+    clearTimeout(timer.current);
+    timer.current = setTimeout(flush, SAVE_DELAY_MS);
+  }, [flush]);
+
+  const handleSubmit = useCallback(async (submission: { answers: Answers; path: string[]; locale: string | null }) => {
+    clearTimeout(timer.current);
+    latest.current = null;
+    setSubmitting(true);
+    setProblems([]);
+    try {
+      const result = await submitAnswers(flowId, tokenRef.current, submission);
+      rememberToken(null);
+      setPage({ kind: "submitted", result });
+    } catch (err) {
+      if (err instanceof FillError && err.status === 409) {
+        rememberToken(null);
+        setPage({ kind: "submitted" });
+      } else if (err instanceof FillError && err.problems.length > 0) {
+        setProblems(err.problems);
+        toast.error(err.message);
+      } else {
+        console.error("Failed to submit answers:", err);
+        toast.error(err instanceof Error ? err.message : "Your answers could not be submitted");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  }, [flowId, rememberToken]);
+
+  const source = useMemo(() => {
+    if (page.kind !== "filling") return undefined;
+    const doc = page.loaded.questionnaire.document;
+    return { flow: doc.flow, questions: questionsFromDocument(doc) };
+  }, [page]);
+
+  const handleCopy = () => {
+    if (!token) return;
+    navigator.clipboard.writeText(fillUrl(flowId, { resume: token, task: taskId ?? undefined }));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (page.kind === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30">
+        <Loader2 size={24} className="animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (page.kind === "unavailable" || page.kind === "submitted") {
+    const done = page.kind === "submitted";
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+        <div className="w-full max-w-md bg-card border rounded-xl p-6 shadow-sm text-center space-y-3">
+          {done ? <CheckCircle2 size={40} className="mx-auto text-primary" /> : <AlertCircle size={40} className="mx-auto text-muted-foreground" />}
+          <h1 className="text-xl font-semibold">{done ? "Thank you" : "Questionnaire unavailable"}</h1>
+          <p className="text-sm text-muted-foreground">
+            {done
+              ? page.result
+                ? "Your answers have been submitted."
+                : "These answers have already been submitted."
+              : page.message}
+          </p>
+          {page.kind === "submitted" && page.result?.dispatchStatus === "failed" && (
+            <p className="text-xs text-muted-foreground">Your answers are saved; processing them will be retried by the team.</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { questionnaire, response } = page.loaded;
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+      <div className="w-full max-w-2xl h-[90vh] bg-card border rounded-xl shadow-sm flex flex-col overflow-hidden">
+        <header className="px-6 pt-5 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold">{questionnaire.name}</h1>
+            {questionnaire.document.flow.flowAbstract && (
+              <p className="text-sm text-muted-foreground mt-1">{questionnaire.document.flow.flowAbstract}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground flex-shrink-0">
+            {saveState === "saving" && <><Loader2 size={12} className="animate-spin" /> Saving…</>}
+            {saveState === "saved" && <><Cloud size={12} /> Saved</>}
+            {saveState === "error" && <span className="flex items-center gap-1 text-destructive"><CloudOff size={12} /> Not saved</span>}
+            {token && (
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleCopy} title="Copy a link to continue later">
+                {copied ? <Check size={12} className="mr-1" /> : <Copy size={12} className="mr-1" />} Resume link
+              </Button>
+            )}
+          </div>
+        </header>
+        <div className="flex-1 min-h-0">
+          <QuestionnairePreview
+            source={source}
+            initial={response ? { answers: response.answers, progress: response.progress, locale: response.locale } : undefined}
+            onChange={handleChange}
+            onSubmit={handleSubmit}
+            submitting={submitting}
+            problems={problems}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import WorkflowStudio from "@/components/studio/WorkflowStudio";
 import { importBpmn } from "@/lib/bpmnImporter";
 import { EMAIL_FETCHER_BPMN } from "@/lib/sampleBpmn";
 import { createApprovalPipelineCaseIR } from "@/lib/sampleApprovalPipeline";
+import { getLatestRevision, getRevision } from "@/lib/revisions/revisionStore";
+import { takeParkedStudio } from "@/lib/studioSession";
+import { supabase } from "@/integrations/supabase/client";
 import type { CaseIR, FormTemplate } from "@/types/caseIr";
 
 // Inline the file processing BPMN for template loading
@@ -90,32 +93,20 @@ export default function StudioPage() {
     restoreStudio?: boolean;
   } | null;
 
-  // Restore CaseIR from sessionStorage when returning from form builder
-  const restoredIr = (() => {
-    if (routerState?.restoreStudio) {
-      try {
-        const saved = sessionStorage.getItem("studio_caseIr");
-        if (saved) {
-          const parsed = JSON.parse(saved) as CaseIR;
-          // Clean up after restore
-          sessionStorage.removeItem("studio_caseIr");
-          return parsed;
-        }
-      } catch {
-        // ignore parse errors
-      }
-    }
-    return null;
-  })();
+  // Restore CaseIR from sessionStorage when returning from form builder (read once: the entry is removed)
+  const [restored] = useState(() => (routerState?.restoreStudio ? takeParkedStudio(workflowId) : null));
+  const restoredIr = restored?.caseIr ?? null;
 
-  const [initialIr, setInitialIr] = useState<{ ir: CaseIR; warnings: string[] } | null>(
+  const [initialIr, setInitialIr] = useState<{ ir: CaseIR; warnings: string[]; revisionId?: string; baseIr?: CaseIR } | null>(
     routerState?.generatedIr
       ? { ir: routerState.generatedIr, warnings: routerState.generatedWarnings ?? [] }
       : restoredIr
         ? { ir: restoredIr, warnings: [] }
         : null
   );
-  const [loading, setLoading] = useState(!!templateId && !routerState?.generatedIr && !restoredIr);
+  const [loading, setLoading] = useState(
+    (!!templateId || !!workflowId) && !routerState?.generatedIr && (!restoredIr || !!restored?.revisionId)
+  );
 
   // Pass saved form template from form builder page
   const [pendingFormTemplate, setPendingFormTemplate] = useState<{
@@ -137,6 +128,43 @@ export default function StudioPage() {
       : null
   );
 
+  // A saved workflow opens at its latest revision, falling back to its BPMN template
+  useEffect(() => {
+    if (routerState?.generatedIr || restoredIr || templateId || !workflowId) return;
+    let active = true;
+    (async () => {
+      try {
+        const latest = await getLatestRevision(workflowId);
+        if (latest) {
+          if (active) setInitialIr({ ir: latest.caseIr, warnings: [], revisionId: latest.id });
+          return;
+        }
+        const { data } = await supabase.from("workflows").select("name,bpmn_template").eq("id", workflowId).maybeSingle();
+        if (data?.bpmn_template) {
+          const result = await importBpmn(data.bpmn_template, `${data.name}.bpmn`);
+          if (active) setInitialIr({ ir: result.caseIr, warnings: result.warnings });
+        }
+      } catch (e) {
+        console.error("Failed to load workflow:", e);
+      } finally {
+        if (active) setLoading(false);
+      }
+    })();
+    return () => { active = false; };
+  }, [workflowId, templateId, routerState, restoredIr]);
+
+  // A restored IR may carry unsaved edits: its revision is the base the next save merges against
+  useEffect(() => {
+    const revisionId = restored?.revisionId;
+    if (!restored || !revisionId) return;
+    let active = true;
+    getRevision(revisionId)
+      .then(base => { if (active) setInitialIr({ ir: restored.caseIr, warnings: [], revisionId, baseIr: base.caseIr }); })
+      .catch(e => console.error("Failed to load the base revision:", e))
+      .finally(() => { if (active) setLoading(false); });
+    return () => { active = false; };
+  }, [restored]);
+
   useEffect(() => {
     if (routerState?.generatedIr || restoredIr || !templateId) return;
 
@@ -156,7 +184,7 @@ export default function StudioPage() {
       setInitialIr({ ir: result.caseIr, warnings: result.warnings });
       setLoading(false);
     }).catch(() => setLoading(false));
-  }, [templateId, routerState]);
+  }, [templateId, routerState, restoredIr]);
 
   if (loading) {
     return (
@@ -171,6 +199,8 @@ export default function StudioPage() {
       workflowId={workflowId ?? undefined}
       initialCaseIr={initialIr?.ir}
       initialWarnings={initialIr?.warnings}
+      baseRevisionId={initialIr?.revisionId}
+      baseCaseIr={initialIr?.baseIr}
       pendingFormTemplate={pendingFormTemplate ?? undefined}
       onFormTemplateConsumed={() => setPendingFormTemplate(null)}
       pendingModuleConfig={pendingModuleConfig ?? undefined}
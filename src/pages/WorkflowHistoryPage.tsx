@@ -0,0 +1,145 @@
+/**
+ * WorkflowHistoryPage – saved revisions of one workflow.
+ * Pick any two revisions to diff them; restoring copies an old snapshot into a new revision.
+ */
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, GitCommitVertical, RotateCcw, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import PageLoader from "@/components/layout/PageLoader";
+import RevisionDiffView from "@/components/studio/RevisionDiffView";
+import { useWorkflowRole } from "@/hooks/use-workflow-role";
+import { auditLog } from "@/lib/audit/log";
+import { diffCaseIr } from "@/lib/revisions/revisionDiff";
+import {
+  listRevisions, getRevision, restoreRevision,
+  type WorkflowRevision, type WorkflowRevisionSummary,
+} from "@/lib/revisions/revisionStore";
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function WorkflowHistoryPage() {
+  const { workflowId = "" } = useParams();
+  const navigate = useNavigate();
+  const { canEdit } = useWorkflowRole(workflowId);
+  const [revisions, setRevisions] = useState<WorkflowRevisionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState<Record<string, WorkflowRevision>>({});
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const list = await listRevisions(workflowId);
+      setRevisions(list);
+      // Default view: what the latest save changed
+      setCompareId(list[0]?.id ?? null);
+      setBaseId(list[1]?.id ?? null);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to load revisions");
+    } finally {
+      setLoading(false);
+    }
+  }, [workflowId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  // Fetch the CaseIR payloads of the selected pair on demand
+  useEffect(() => {
+    const missing = [baseId, compareId].filter((id): id is string => !!id && !loaded[id]);
+    if (missing.length === 0) return;
+    let active = true;
+    Promise.all(missing.map(getRevision))
+      .then(revs => { if (active) setLoaded(prev => ({ ...prev, ...Object.fromEntries(revs.map(r => [r.id, r])) })); })
+      .catch(e => toast.error(e instanceof Error ? e.message : "Failed to load revision"));
+    return () => { active = false; };
+  }, [baseId, compareId, loaded]);
+
+  const base = baseId ? loaded[baseId] : undefined;
+  const compare = compareId ? loaded[compareId] : undefined;
+  const diff = useMemo(() => (base && compare ? diffCaseIr(base.caseIr, compare.caseIr) : null), [base, compare]);
+
+  const handleRestore = async (summary: WorkflowRevisionSummary) => {
+    if (!confirm(`Restore revision #${summary.revisionNumber}? It will be saved as a new revision; nothing is overwritten.`)) return;
+    setRestoring(summary.id);
+    try {
+      const full = loaded[summary.id] ?? await getRevision(summary.id);
+      const created = await restoreRevision(full);
+      await auditLog({
+        action: "workflow.revision.restore", resourceType: "workflow_revision", resourceId: created.id, workflowId,
+        decision: "ALLOW", metadata: { restoredFrom: summary.id, revisionNumber: summary.revisionNumber },
+      });
+      toast.success(`Restored as revision #${created.revisionNumber}`);
+      await load();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Restore failed");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const revisionNumber = (id: string | null) => revisions.find(r => r.id === id)?.revisionNumber;
+
+  if (loading) return <PageLoader />;
+
+  return (
+    <div className="flex h-full overflow-hidden">
+      <aside className="w-[340px] flex-shrink-0 border-r flex flex-col">
+        <div className="px-4 py-3 border-b space-y-2">
+          <Button variant="ghost" size="sm" className="h-7 px-2 -ml-2 text-xs" onClick={() => navigate(`/studio?workflow=${workflowId}`)}>
+            <ArrowLeft size={12} /> Back to Studio
+          </Button>
+          <h2 className="text-base font-semibold flex items-center gap-2"><GitCommitVertical size={16} /> Revision History</h2>
+          <p className="text-xs text-muted-foreground">Select a base (A) and a revision to compare (B).</p>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {revisions.length === 0 && (
+            <p className="px-4 py-6 text-xs text-muted-foreground">No revisions yet. Save the workflow in the Studio to create one.</p>
+          )}
+          {revisions.map((r, i) => (
+            <div key={r.id} className="px-4 py-2.5 border-b space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-[12px] font-semibold">#{r.revisionNumber}</span>
+                {i === 0 && <Badge variant="secondary" className="text-[9px]">Latest</Badge>}
+                {r.restoredFrom && <Badge variant="outline" className="text-[9px]">Restore of #{revisionNumber(r.restoredFrom) ?? "?"}</Badge>}
+                <span className="ml-auto text-[10px] text-muted-foreground">{formatDate(r.createdAt)}</span>
+              </div>
+              <p className="text-[12px]">{r.message || <span className="text-muted-foreground italic">No message</span>}</p>
+              <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+                <span className="truncate">{r.authorName || r.authorEmail || "Unknown author"}</span>
+                <div className="ml-auto flex items-center gap-1">
+                  <Button size="sm" variant={baseId === r.id ? "default" : "outline"} className="h-6 px-2 text-[10px]"
+                    onClick={() => setBaseId(r.id)} title="Use as base (A)">A</Button>
+                  <Button size="sm" variant={compareId === r.id ? "default" : "outline"} className="h-6 px-2 text-[10px]"
+                    onClick={() => setCompareId(r.id)} title="Compare against base (B)">B</Button>
+                  {canEdit && i > 0 && (
+                    <Button size="sm" variant="ghost" className="h-6 px-2 text-[10px]" disabled={restoring !== null}
+                      onClick={() => handleRestore(r)} title="Restore as a new revision">
+                      {restoring === r.id ? <Loader2 size={10} className="animate-spin" /> : <RotateCcw size={10} />}
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+      <main className="flex-1 overflow-y-auto p-5 space-y-3">
+        <h3 className="text-sm font-semibold">
+          {baseId && compareId
+            ? <>Changes from #{revisionNumber(baseId)} to #{revisionNumber(compareId)}</>
+            : "Select two revisions to compare"}
+        </h3>
+        {baseId && compareId && !diff && <Loader2 size={16} className="animate-spin text-muted-foreground" />}
+        {diff && <RevisionDiffView diff={diff} />}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2, Plus, Pencil, Calculator } from "lucide-react";
+import { toast } from "sonner";
+import { recordAudit } from "@/lib/authz/audit";
+import { useBusinessCalendars } from "@/stores/businessCalendarStore";
+import type { BusinessCalendar, Holiday, WorkingInterval } from "@/lib/calendar/types";
+import {
+  addBusinessTime, calendarProblems, describeHours, formatInTimeZone, parseBusinessDuration,
+  parseZonedDateTime, STANDARD_CALENDAR, WEEKDAY_LABELS,
+} from "@/lib/calendar/calculator";
+import { ENGINE_HAS_CALENDAR_BEAN } from "@/lib/calendar/timerExpression";
+
+/** Monday first, as people read a week */
+const WEEK = [1, 2, 3, 4, 5, 6, 0];
+
+interface Draft {
+  calendar: BusinessCalendar;
+  /** Per weekday, "09:00-12:00, 13:00-17:00" */
+  hoursText: string[];
+  isNew: boolean;
+}
+
+function hoursToText(intervals: WorkingInterval[]): string {
+  return intervals.map(i => `${i.start}-${i.end}`).join(", ");
+}
+
+/** Unparseable ranges are kept as-is so calendarProblems reports them */
+function textToHours(text: string): WorkingInterval[] {
+  return text.split(",").map(s => s.trim()).filter(Boolean).map(range => {
+    const m = /^(\S+)\s*[-–]\s*(\S+)$/.exec(range);
+    return m ? { start: m[1], end: m[2] } : { start: range, end: "" };
+  });
+}
+
+function draftOf(calendar: BusinessCalendar, isNew: boolean): Draft {
+  return { calendar: { ...calendar, holidays: [...calendar.holidays] }, hoursText: calendar.hours.map(hoursToText), isNew };
+}
+
+function CalculatorCard({ calendars }: { calendars: BusinessCalendar[] }) {
+  const [key, setKey] = useState(STANDARD_CALENDAR.key);
+  const [start, setStart] = useState("");
+  const [duration, setDuration] = useState("3 business days");
+  const calendar = calendars.find(c => c.key === key) ?? calendars[0];
+
+  const result = useMemo(() => {
+    if (!calendar || !start) return null;
+    const from = parseZonedDateTime(start, calendar.timeZone);
+    const d = parseBusinessDuration(duration);
+    if (!from) return { error: "Pick a start date and time" };
+    if (!d) return { error: `"${duration}" is not a business duration, try "3 business days" or PT4H` };
+    try {
+      const due = addBusinessTime(from, d, calendar);
+      return { local: formatInTimeZone(due, calendar.timeZone), utc: due.toISOString() };
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+  }, [calendar, start, duration]);
+
+  return (
+    <div className="mt-6 p-4 rounded-lg border bg-muted/30 space-y-3">
+      <h3 className="text-sm font-semibold flex items-center gap-1.5"><Calculator size={14} /> Calculator</h3>
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label>Calendar</Label>
+          <Select value={calendar?.key} onValueChange={setKey}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {calendars.map(c => <SelectItem key={c.key} value={c.key}>{c.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Start ({calendar?.timeZone})</Label>
+          <Input type="datetime-local" value={start} onChange={e => setStart(e.target.value)} />
+        </div>
+        <div>
+          <Label>Duration</Label>
+          <Input value={duration} onChange={e => setDuration(e.target.value)} placeholder="3 business days" />
+        </div>
+      </div>
+      {result && ("error" in result
+        ? <p className="text-sm text-destructive">{result.error}</p>
+        : <p className="text-sm">Due <span className="font-medium">{result.local}</span> <span className="text-muted-foreground font-mono text-xs">({result.utc})</span></p>)}
+    </div>
+  );
+}
+
+export default function AdminCalendarsPage() {
+  const calendars = useBusinessCalendars(s => s.calendars);
+  const load = useBusinessCalendars(s => s.load);
+  const saveCalendar = useBusinessCalendars(s => s.save);
+  const removeCalendar = useBusinessCalendars(s => s.remove);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [holidayDate, setHolidayDate] = useState(""); const [holidayName, setHolidayName] = useState("");
+
+  useEffect(() => { load(); }, [load]);
+
+  const edited: BusinessCalendar | null = draft && { ...draft.calendar, hours: draft.hoursText.map(textToHours) };
+  const problems = edited ? calendarProblems(edited) : [];
+  const keyTaken = !!draft?.isNew && calendars.some(c => c.key === draft.calendar.key && c !== STANDARD_CALENDAR);
+
+  const setCalendar = (patch: Partial<BusinessCalendar>) => draft && setDraft({ ...draft, calendar: { ...draft.calendar, ...patch } });
+  const setHolidays = (holidays: Holiday[]) => setCalendar({ holidays: [...holidays].sort((a, b) => a.date.localeCompare(b.date)) });
+
+  const save = async () => {
+    if (!draft || !edited || problems.length || keyTaken) return;
+    try {
+      await saveCalendar(edited);
+    } catch (e) {
+      toast.error((e as Error).message);
+      return;
+    }
+    await recordAudit({
+      action: draft.isNew ? "calendar.create" : "calendar.update", decision: "ALLOW", resource_type: "business_calendar", resource_id: edited.key,
+      metadata: { timeZone: edited.timeZone, holidays: edited.holidays.length },
+    });
+    toast.success("Calendar saved");
+    setDraft(null);
+  };
+  const del = async (c: BusinessCalendar) => {
+    if (!confirm(`Delete "${c.name}"? Steps and SLAs that reference "${c.key}" fall back to the standard calendar.`)) return;
+    try {
+      await removeCalendar(c.key);
+    } catch (e) {
+      toast.error((e as Error).message);
+      return;
+    }
+    await recordAudit({ action: "calendar.delete", decision: "ALLOW", resource_type: "business_calendar", resource_id: c.key });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-base font-semibold">Business Calendars</h2>
+          <p className="text-sm text-muted-foreground">Working hours, time zone and holidays that due dates, timers and SLAs count in.</p>
+          {!ENGINE_HAS_CALENDAR_BEAN && (
+            <p className="text-xs text-muted-foreground mt-1">
+              The engine has no <code>businessCalendar</code> bean (VITE_CAMUNDA_CALENDAR_BEAN is not set), so exported BPMN counts these durations in wall-clock time.
+            </p>
+          )}
+        </div>
+        <Button onClick={() => setDraft(draftOf({ ...STANDARD_CALENDAR, key: "", name: "" }, true))}><Plus size={14} /> New calendar</Button>
+      </div>
+      <Table>
+        <TableHeader><TableRow><TableHead>Name</TableHead><TableHead>Key</TableHead><TableHead>Time zone</TableHead><TableHead>Working hours</TableHead><TableHead>Holidays</TableHead><TableHead className="w-[100px]"></TableHead></TableRow></TableHeader>
+        <TableBody>
+          {calendars.map(c => (
+            <TableRow key={c.key}>
+              <TableCell className="font-medium">
+                {c.name}
+                {c === STANDARD_CALENDAR && <Badge variant="secondary" className="ml-2 text-[10px]">built-in</Badge>}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{c.key}</TableCell>
+              <TableCell className="text-sm">{c.timeZone}</TableCell>
+              <TableCell className="text-sm text-muted-foreground">{describeHours(c)}</TableCell>
+              <TableCell className="text-sm">{c.holidays.length || "—"}</TableCell>
+              <TableCell className="flex gap-1">
+                <Button size="icon" variant="ghost" className="h-7 w-7" title="Edit" onClick={() => setDraft(draftOf(c, false))}><Pencil size={13} /></Button>
+                {c !== STANDARD_CALENDAR && (
+                  <Button size="icon" variant="ghost" className="h-7 w-7" title="Delete" onClick={() => del(c)}><Trash2 size={13} className="text-destructive" /></Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <CalculatorCard calendars={calendars} />
+
+      <Dialog open={!!draft} onOpenChange={(o) => !o && setDraft(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader><DialogTitle>{draft?.isNew ? "New calendar" : `Edit ${draft?.calendar.name}`}</DialogTitle></DialogHeader>
+          {draft && (
+            <div className="space-y-3 max-h-[65vh] overflow-auto pr-2">
+              <div className="grid grid-cols-3 gap-2">
+                <div><Label>Name</Label><Input value={draft.calendar.name} onChange={e => setCalendar({ name: e.target.value })} /></div>
+                <div>
+                  <Label>Key</Label>
+                  <Input className="font-mono" value={draft.calendar.key} disabled={!draft.isNew} onChange={e => setCalendar({ key: e.target.value })} placeholder="emea-support" />
+                </div>
+                <div><Label>Time zone</Label><Input value={draft.calendar.timeZone} onChange={e => setCalendar({ timeZone: e.target.value })} placeholder="Europe/Berlin" /></div>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Working hours (comma separated, e.g. 08:00-12:00, 13:00-17:00; empty = day off)</Label>
+                {WEEK.map(day => (
+                  <div key={day} className="flex items-center gap-2">
+                    <span className="w-10 text-sm text-muted-foreground">{WEEKDAY_LABELS[day]}</span>
+                    <Input
+                      className="font-mono"
+                      value={draft.hoursText[day]}
+                      onChange={e => setDraft({ ...draft, hoursText: draft.hoursText.map((t, i) => (i === day ? e.target.value : t)) })}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1.5">
+                <Label>Holidays</Label>
+                {draft.calendar.holidays.map(h => (
+                  <div key={h.date} className="flex items-center gap-2 text-sm">
+                    <span className="font-mono w-28">{h.date}</span>
+                    <span className="flex-1">{h.name || "—"}</span>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setHolidays(draft.calendar.holidays.filter(x => x !== h))}>
+                      <Trash2 size={13} className="text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Input type="date" className="w-44" value={holidayDate} onChange={e => setHolidayDate(e.target.value)} />
+                  <Input placeholder="Name" value={holidayName} onChange={e => setHolidayName(e.target.value)} />
+                  <Button
+                    variant="outline"
+                    disabled={!holidayDate || draft.calendar.holidays.some(h => h.date === holidayDate)}
+                    onClick={() => {
+                      setHolidays([...draft.calendar.holidays, { date: holidayDate, name: holidayName.trim() }]);
+                      setHolidayDate(""); setHolidayName("");
+                    }}
+                  >
+                    <Plus size={14} /> Add
+                  </Button>
+                </div>
+              </div>
+              {keyTaken && <p className="text-sm text-destructive">A calendar with key "{draft.calendar.key}" already exists</p>}
+              {problems.map(p => <p key={p} className="text-sm text-destructive">{p}</p>)}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={save} disabled={!!problems.length || keyTaken}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { NavLink, Outlet } from "react-router-dom";
-import { Users, Building2, UserCircle, ShieldCheck, FileWarning, ScrollText, Layers } from "lucide-react";
+import { Users, Building2, UserCircle, ShieldCheck, FileWarning, ScrollText, Layers, CalendarDays } from "lucide-react";
 
 const tabs = [
   { to: "/admin/users",          icon: Users,        label: "Users" },
@@ -8,6 +8,7 @@ const tabs = [
   { to: "/admin/roles",          icon: ShieldCheck,  label: "Roles" },
   { to: "/admin/role-templates", icon: Layers,       label: "Role Templates" },
   { to: "/admin/policies",       icon: FileWarning,  label: "Policies" },
+  { to: "/admin/calendars",      icon: CalendarDays, label: "Calendars" },
   { to: "/admin/audit",          icon: ScrollText,   label: "Audit Log" },
 ];
 
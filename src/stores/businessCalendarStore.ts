@@ -0,0 +1,92 @@
+/**
+ * Business calendar store – the calendars steps, SLA policies and SLA rules can reference.
+ * Seeded with the built-in standard calendar; admins manage further calendars in the
+ * business_calendars table (a stored calendar with key "standard" replaces the built-in).
+ */
+import { create } from "zustand";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { BusinessCalendar, Holiday, WorkingInterval } from "@/lib/calendar/types";
+import { calendarProblems, STANDARD_CALENDAR } from "@/lib/calendar/calculator";
+
+interface CalendarRow {
+  key: string;
+  name: string;
+  time_zone: string;
+  hours: Json;
+  holidays: Json;
+}
+
+interface BusinessCalendarState {
+  /** Built-in and stored calendars, by name */
+  calendars: BusinessCalendar[];
+  status: "idle" | "loading" | "ready" | "error";
+  load: () => Promise<void>;
+  save: (calendar: BusinessCalendar) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+function toCalendar(row: CalendarRow): BusinessCalendar {
+  return {
+    key: row.key,
+    name: row.name,
+    timeZone: row.time_zone,
+    hours: row.hours as unknown as WorkingInterval[][],
+    holidays: row.holidays as unknown as Holiday[],
+  };
+}
+
+function withBuiltIn(stored: BusinessCalendar[]): BusinessCalendar[] {
+  const all = stored.some(c => c.key === STANDARD_CALENDAR.key) ? stored : [STANDARD_CALENDAR, ...stored];
+  return [...all].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const useBusinessCalendars = create<BusinessCalendarState>((set, get) => ({
+  calendars: [STANDARD_CALENDAR],
+  status: "idle",
+
+  load: async () => {
+    set({ status: "loading" });
+    const { data, error } = await supabase
+      .from("business_calendars")
+      .select("key,name,time_zone,hours,holidays");
+    if (error) {
+      // Keep the standard calendar usable
+      console.error("Failed to load business calendars:", error.message);
+      set({ status: "error" });
+      return;
+    }
+    const calendars = (data ?? []).map(toCalendar).filter(c => {
+      const problems = calendarProblems(c);
+      if (problems.length) console.error(`Skipping business calendar ${c.key}:`, problems.join("; "));
+      return problems.length === 0;
+    });
+    set({ calendars: withBuiltIn(calendars), status: "ready" });
+  },
+
+  save: async (calendar) => {
+    const problems = calendarProblems(calendar);
+    if (problems.length) throw new Error(problems[0]);
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from("business_calendars")
+      .upsert({
+        key: calendar.key,
+        name: calendar.name,
+        time_zone: calendar.timeZone,
+        hours: calendar.hours as unknown as Json,
+        holidays: calendar.holidays as unknown as Json,
+        updated_by: user?.id ?? null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: "key" });
+    if (error) throw new Error(error.message);
+    const stored = get().calendars.filter(c => c !== STANDARD_CALENDAR && c.key !== calendar.key);
+    set({ calendars: withBuiltIn([...stored, calendar]) });
+  },
+
+  remove: async (key) => {
+    const { error } = await supabase.from("business_calendars").delete().eq("key", key);
+    if (error) throw new Error(error.message);
+    set({ calendars: withBuiltIn(get().calendars.filter(c => c !== STANDARD_CALENDAR && c.key !== key)) });
+  },
+}));
@@ -0,0 +1,171 @@
+/**
+ * Automation node registry – every version of every node the Studio can place.
+ * Seeded with the built-in AUTOMATION_NODES; teams publish further nodes and
+ * versions to the automation_node_versions table (insert-only, one row per version).
+ */
+import { create } from "zustand";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { AUTOMATION_NODES, type AutomationNodeDef, type NodeIoField } from "@/components/studio/automationNodes";
+import { compareSemver, normalizeNodeDef, parseSemver, validateNodeDef } from "@/components/studio/nodeVersions";
+import type { DataFlowNode, NodeResolver, VariableType } from "@/lib/dataflow/types";
+
+export interface NodeVersionRecord {
+  def: AutomationNodeDef;
+  source: "built-in" | "published";
+  changelog: string;
+  publishedBy: string | null;
+  createdAt: string | null;
+}
+
+interface NodeVersionRow {
+  node_id: string;
+  version: string;
+  definition: Json;
+  changelog: string;
+  published_by: string | null;
+  created_at: string;
+}
+
+interface NodeRegistryState {
+  /** Node id → versions, newest first */
+  versions: Record<string, NodeVersionRecord[]>;
+  status: "idle" | "loading" | "ready" | "error";
+  load: () => Promise<void>;
+  publish: (def: AutomationNodeDef, changelog: string) => Promise<NodeVersionRecord>;
+}
+
+function builtIns(): NodeVersionRecord[] {
+  return AUTOMATION_NODES.map(def => ({ def, source: "built-in", changelog: "", publishedBy: null, createdAt: null }));
+}
+
+function toRecord(row: NodeVersionRow): NodeVersionRecord {
+  const def = normalizeNodeDef({ ...(row.definition as unknown as AutomationNodeDef), id: row.node_id, version: row.version });
+  return { def, source: "published", changelog: row.changelog, publishedBy: row.published_by, createdAt: row.created_at };
+}
+
+function group(records: NodeVersionRecord[]): Record<string, NodeVersionRecord[]> {
+  const out: Record<string, NodeVersionRecord[]> = {};
+  for (const r of records) {
+    const list = (out[r.def.id] ??= []);
+    // Built-ins come first and are immutable; a later record with the same version is ignored
+    if (!list.some(x => x.def.version === r.def.version)) list.push(r);
+  }
+  for (const list of Object.values(out)) list.sort((a, b) => compareSemver(b.def.version, a.def.version));
+  return out;
+}
+
+export const useNodeRegistry = create<NodeRegistryState>((set, get) => ({
+  versions: group(builtIns()),
+  status: "idle",
+
+  load: async () => {
+    set({ status: "loading" });
+    const { data, error } = await supabase
+      .from("automation_node_versions")
+      .select("node_id,version,definition,changelog,published_by,created_at");
+    if (error) {
+      // Keep the built-in nodes usable
+      console.error("Failed to load node registry:", error.message);
+      set({ status: "error" });
+      return;
+    }
+    // Rows can be inserted through the API directly; skip any that would break the Studio
+    // or shadow a built-in version
+    const builtInVersions = new Set(AUTOMATION_NODES.map(def => `${def.id}@${def.version}`));
+    const rows = (data ?? []).filter(row => {
+      if (builtInVersions.has(`${row.node_id}@${row.version}`)) {
+        console.error(`Skipping node ${row.node_id}@${row.version}: a built-in node has this version`);
+        return false;
+      }
+      const errors = validateNodeDef({ ...(row.definition as object), id: row.node_id, version: row.version });
+      if (errors.length) console.error(`Skipping node ${row.node_id}@${row.version}:`, errors.join("; "));
+      return errors.length === 0;
+    });
+    set({ versions: group([...builtIns(), ...rows.map(toRecord)]), status: "ready" });
+  },
+
+  publish: async (def, changelog) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("Sign in to publish nodes");
+    const [major, minor, patch] = parseSemver(def.version) ?? [0, 0, 0];
+    const { id, version, ...definition } = def;
+    const { data, error } = await supabase
+      .from("automation_node_versions")
+      .insert({
+        node_id: id, version, version_major: major, version_minor: minor, version_patch: patch,
+        definition: definition as unknown as Json, changelog, published_by: user.id,
+      })
+      .select("node_id,version,definition,changelog,published_by,created_at")
+      .single();
+    if (error) throw new Error(error.message);
+    const record = toRecord(data);
+    const all = Object.values(get().versions).flat();
+    set({ versions: group([...all, record]) });
+    return record;
+  },
+}));
+
+/** Newest version of every node, for the palette */
+export function latestNodeDefs(versions: Record<string, NodeVersionRecord[]>): AutomationNodeDef[] {
+  return Object.values(versions).map(list => list[0].def);
+}
+
+/** Definition of `nodeId` at `version`, or its newest version when none is given */
+export function getNodeDef(nodeId: string, version?: string): AutomationNodeDef | undefined {
+  const list = useNodeRegistry.getState().versions[nodeId];
+  if (!version) return list?.[0]?.def;
+  return list?.find(r => r.def.version === version)?.def;
+}
+
+/**
+ * Definition a step is pinned to. Steps created before versioning have no
+ * version and resolve to the node's first one.
+ */
+export function getPinnedNodeDef(moduleRef: { moduleId: string; version?: string }): AutomationNodeDef | undefined {
+  return pinnedIn(useNodeRegistry.getState().versions, moduleRef);
+}
+
+function pinnedIn(versions: Record<string, NodeVersionRecord[]>, moduleRef: { moduleId: string; version?: string }): AutomationNodeDef | undefined {
+  const list = versions[moduleRef.moduleId];
+  if (moduleRef.version) return list?.find(r => r.def.version === moduleRef.version)?.def;
+  return list?.[list.length - 1]?.def;
+}
+
+/** Newer version than the step's pin, if any */
+export function getNodeUpgrade(moduleRef: { moduleId: string; version?: string }): AutomationNodeDef | undefined {
+  const pinned = getPinnedNodeDef(moduleRef);
+  const latest = getNodeDef(moduleRef.moduleId);
+  return pinned && latest && compareSemver(latest.version, pinned.version) > 0 ? latest : undefined;
+}
+
+function schemaType(type: string): VariableType {
+  if (type === "integer" || type === "number") return "number";
+  return type === "string" || type === "boolean" || type === "array" || type === "object" ? type : "unknown";
+}
+
+function ioType(type: NodeIoField["type"]): VariableType {
+  return type === "file" ? "string" : type;
+}
+
+function toDataFlowNode(def: AutomationNodeDef): DataFlowNode {
+  const inputs: Record<string, VariableType> = {};
+  for (const [key, prop] of Object.entries(def.inputSchema.properties)) inputs[key] = schemaType(prop.type);
+  for (const io of def.inputs) inputs[io.name] = ioType(io.type);
+  const outputs: Record<string, VariableType> = {};
+  for (const [key, prop] of Object.entries(def.outputSchema.properties)) outputs[key] = schemaType(prop.type);
+  for (const io of [...def.outputs, ...(def.additionalOutputs ?? [])]) outputs[io.name] ??= ioType(io.type);
+  const configured = def.defaultConfig.outputVariable;
+  return {
+    name: def.name, inputs, outputs,
+    defaultOutputVariable: typeof configured === "string" && configured ? configured : `${def.id}Result`,
+  };
+}
+
+/** Variable types of the node versions steps are pinned to, for the data-flow analysis */
+export function dataFlowNodeResolver(versions: Record<string, NodeVersionRecord[]>): NodeResolver {
+  return moduleRef => {
+    const def = pinnedIn(versions, moduleRef);
+    return def && toDataFlowNode(def);
+  };
+}
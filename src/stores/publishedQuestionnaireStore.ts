@@ -0,0 +1,104 @@
+/**
+ * Published questionnaire store – the questionnaires respondents can fill in at /fill/:flowId
+ * and user tasks can bind through their form reference. Designers publish the builder's
+ * document into the questionnaires table; republishing replaces the document and bumps its
+ * version.
+ */
+import { create } from "zustand";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { FlowStatus, QuestionnaireDocument } from "@/types/questionnaire";
+
+export interface PublishedQuestionnaire {
+  flowId: string;
+  name: string;
+  status: FlowStatus;
+  version: number;
+  /** Process started by each submission; null records submissions only */
+  startProcessKey: string | null;
+  updatedAt: string;
+}
+
+interface QuestionnaireRow {
+  flow_id: string;
+  name: string;
+  status: string;
+  version: number;
+  start_process_key: string | null;
+  updated_at: string;
+}
+
+interface PublishedQuestionnaireState {
+  questionnaires: PublishedQuestionnaire[];
+  status: "idle" | "loading" | "ready" | "error";
+  load: () => Promise<void>;
+  publish: (doc: QuestionnaireDocument, startProcessKey: string | null) => Promise<PublishedQuestionnaire>;
+  /** Stop accepting answers; saved responses and submissions are kept */
+  archive: (flowId: string) => Promise<void>;
+}
+
+const COLUMNS = "flow_id,name,status,version,start_process_key,updated_at";
+
+function toQuestionnaire(row: QuestionnaireRow): PublishedQuestionnaire {
+  return {
+    flowId: row.flow_id,
+    name: row.name,
+    status: row.status as FlowStatus,
+    version: row.version,
+    startProcessKey: row.start_process_key,
+    updatedAt: row.updated_at,
+  };
+}
+
+function withRow(list: PublishedQuestionnaire[], q: PublishedQuestionnaire): PublishedQuestionnaire[] {
+  return [...list.filter(x => x.flowId !== q.flowId), q].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const usePublishedQuestionnaires = create<PublishedQuestionnaireState>((set, get) => ({
+  questionnaires: [],
+  status: "idle",
+
+  load: async () => {
+    set({ status: "loading" });
+    const { data, error } = await supabase.from("questionnaires").select(COLUMNS).order("name");
+    if (error) {
+      console.error("Failed to load questionnaires:", error.message);
+      set({ status: "error" });
+      return;
+    }
+    set({ questionnaires: (data ?? []).map(toQuestionnaire), status: "ready" });
+  },
+
+  publish: async (doc, startProcessKey) => {
+    const flowId = doc.flow.flowId.trim();
+    if (!/^[A-Za-z0-9_-]+$/.test(flowId)) throw new Error("The flow ID may only contain letters, digits, - and _");
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from("questionnaires")
+      .upsert({
+        flow_id: flowId,
+        name: doc.flow.flowName.trim() || flowId,
+        status: "Published",
+        document: { ...doc, flow: { ...doc.flow, status: "Published" } } as unknown as Json,
+        start_process_key: startProcessKey?.trim() || null,
+        updated_by: user?.id ?? null,
+      }, { onConflict: "flow_id" })
+      .select(COLUMNS)
+      .single();
+    if (error) throw new Error(error.message);
+    const published = toQuestionnaire(data);
+    set({ questionnaires: withRow(get().questionnaires, published) });
+    return published;
+  },
+
+  archive: async (flowId) => {
+    const { data, error } = await supabase
+      .from("questionnaires")
+      .update({ status: "Archived" })
+      .eq("flow_id", flowId)
+      .select(COLUMNS)
+      .single();
+    if (error) throw new Error(error.message);
+    set({ questionnaires: withRow(get().questionnaires, toQuestionnaire(data)) });
+  },
+}));
@@ -9,6 +9,15 @@ import type {
   ValidationIssue,
   OptionBranch,
 } from "@/types/questionnaire";
+import { analyzeFlow, flowValidationIssues } from "@/lib/questionnaire/flowAnalysis";
+import { logicValidationIssues } from "@/lib/questionnaire/logic";
+import {
+  applyTranslations,
+  translationValidationIssues,
+  withTranslation,
+  type ImportedTranslations,
+  type TranslationField,
+} from "@/lib/questionnaire/translations";
 
 function uid() {
   return Math.random().toString(36).slice(2, 10);
@@ -87,6 +96,12 @@ interface QuestionnaireStore {
   // Branching
   setBranch: (questionId: string, optionId: string, branch: OptionBranch) => void;
 
+  // Translations
+  addLocale: (locale: string) => void;
+  removeLocale: (locale: string) => void;
+  setTranslation: (questionId: string, locale: string, field: TranslationField, text: string, optionId?: string) => void;
+  importTranslations: (imported: ImportedTranslations) => { applied: number; unknown: string[] };
+
   // Import / Export
   importDocument: (doc: QuestionnaireDocument) => void;
   exportDocument: () => QuestionnaireDocument;
@@ -99,6 +114,32 @@ interface QuestionnaireStore {
   clearAll: () => void;
 }
 
+/** The document's questions with their editing branches reconstructed from the flow path */
+export function questionsFromDocument(doc: QuestionnaireDocument): Question[] {
+  const pathMap = new Map<string, FlowNode>();
+  for (const node of doc.flow.path ?? []) {
+    pathMap.set(node.id, node);
+  }
+
+  return doc.questions.map((q) => {
+    const branches: Record<string, OptionBranch> = {};
+    const pathNode = pathMap.get(q.questionId);
+    if (pathNode?.options) {
+      for (const pOpt of pathNode.options) {
+        if (pOpt.next && pOpt.next.length > 0) {
+          const n = pOpt.next[0];
+          branches[pOpt.id] = {
+            id: pOpt.id,
+            nextEntityType: n.nextEntityType,
+            targetId: n.id,
+          };
+        }
+      }
+    }
+    return { ...q, _branches: branches };
+  });
+}
+
 export const useQuestionnaireStore = create<QuestionnaireStore>((set, get) => ({
   flow: makeEmptyFlow(),
   questions: [],
@@ -235,30 +276,41 @@ export const useQuestionnaireStore = create<QuestionnaireStore>((set, get) => ({
       }),
     })),
 
-  importDocument: (doc) => {
-    // Reconstruct _branches from path data
-    const pathMap = new Map<string, FlowNode>();
-    for (const node of doc.flow.path ?? []) {
-      pathMap.set(node.id, node);
-    }
+  addLocale: (locale) =>
+    set((s) => {
+      const locales = s.flow.locales ?? [];
+      if (locales.includes(locale)) return s;
+      return { flow: { ...s.flow, locales: [...locales, locale] } };
+    }),
 
-    const questions: Question[] = doc.questions.map((q) => {
-      const branches: Record<string, OptionBranch> = {};
-      const pathNode = pathMap.get(q.questionId);
-      if (pathNode?.options) {
-        for (const pOpt of pathNode.options) {
-          if (pOpt.next && pOpt.next.length > 0) {
-            const n = pOpt.next[0];
-            branches[pOpt.id] = {
-              id: pOpt.id,
-              nextEntityType: n.nextEntityType,
-              targetId: n.id,
-            };
-          }
-        }
-      }
-      return { ...q, _branches: branches };
-    });
+  removeLocale: (locale) =>
+    set((s) => ({
+      flow: { ...s.flow, locales: (s.flow.locales ?? []).filter((l) => l !== locale) },
+      questions: s.questions.map((q) => {
+        if (!q.translations?.[locale]) return q;
+        const { [locale]: _removed, ...translations } = q.translations;
+        return { ...q, translations };
+      }),
+    })),
+
+  setTranslation: (questionId, locale, field, text, optionId) =>
+    set((s) => ({
+      questions: s.questions.map((q) =>
+        q.questionId === questionId ? withTranslation(q, locale, field, text, optionId) : q
+      ),
+    })),
+
+  importTranslations: (imported) => {
+    const { flow, questions } = get();
+    const result = applyTranslations(questions, imported.entries);
+    const locales = [...(flow.locales ?? [])];
+    for (const l of imported.locales) if (!locales.includes(l)) locales.push(l);
+    set({ flow: { ...flow, locales }, questions: result.questions });
+    return { applied: result.applied, unknown: result.unknown };
+  },
+
+  importDocument: (doc) => {
+    const questions = questionsFromDocument(doc);
 
     set({
       flow: doc.flow,
@@ -329,8 +381,12 @@ export const useQuestionnaireStore = create<QuestionnaireStore>((set, get) => ({
       });
     }
 
-    // Clean questions (remove _branches)
-    const cleanQuestions = questions.map(({ _branches, ...rest }) => rest);
+    // Clean questions (remove _branches and empty logic rules)
+    const cleanQuestions = questions.map(({ _branches, visibleWhen, computedValue, ...rest }) => ({
+      ...rest,
+      ...(visibleWhen?.trim() ? { visibleWhen } : {}),
+      ...(computedValue?.trim() ? { computedValue } : {}),
+    }));
 
     return {
       flow: {
@@ -385,6 +441,13 @@ export const useQuestionnaireStore = create<QuestionnaireStore>((set, get) => ({
       }
     }
 
+    // Loops, unreachable and dead-end questions, options without a route
+    issues.push(...flowValidationIssues(analyzeFlow(questions, flow.firstQuestions)));
+    // Show-when conditions and computed values
+    issues.push(...logicValidationIssues(questions));
+    // Texts not yet translated into the questionnaire's locales
+    issues.push(...translationValidationIssues(questions, flow.locales ?? []));
+
     return issues;
   },
 
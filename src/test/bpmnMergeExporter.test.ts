@@ -0,0 +1,172 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { describe, it, expect } from "vitest";
+import type { CaseIR, Step } from "@/types/caseIr";
+import { importBpmn } from "@/lib/bpmnImporter";
+import { mergeBpmn } from "@/lib/bpmnMergeExporter";
+import { exportBpmn, BpmnMergeError } from "@/lib/bpmnExporter";
+import { automation } from "./fixtures";
+
+const SAMPLE = readFileSync(resolve(process.cwd(), "public/samples/FileProcessingWorkflowV1-4.bpmn"), "utf8");
+const BPMN_NS = "http://www.omg.org/spec/BPMN/20100524/MODEL";
+const BPMNDI_NS = "http://www.omg.org/spec/BPMN/20100524/DI";
+
+async function sample(): Promise<CaseIR> {
+  return (await importBpmn(SAMPLE)).caseIr;
+}
+
+/** The fetch stage's steps and the sub-process stage's steps */
+const fetchSteps = (ir: CaseIR) => ir.stages[0].groups[0].steps;
+const loopSteps = (ir: CaseIR) => ir.stages[1].groups[0].steps;
+
+const parse = (xml: string) => new DOMParser().parseFromString(xml, "text/xml");
+const shapeIds = (xml: string) =>
+  Array.from(parse(xml).getElementsByTagNameNS(BPMNDI_NS, "BPMNShape")).map((s) => s.getAttribute("bpmnElement")).sort();
+const element = (xml: string, id: string) =>
+  Array.from(parse(xml).getElementsByTagNameNS(BPMN_NS, "*")).find((el) => el.getAttribute("id") === id);
+const timer = (xml: string, id: string) => element(xml, id)?.getElementsByTagNameNS(BPMN_NS, "timeDuration")[0]?.textContent;
+const flows = (xml: string) =>
+  Array.from(parse(xml).getElementsByTagNameNS(BPMN_NS, "sequenceFlow"))
+    .map((f) => `${f.getAttribute("sourceRef")}->${f.getAttribute("targetRef")}`).sort();
+
+/** Step ids in flow order after exporting and importing again; gateway branches in brackets */
+async function reimported(xml: string): Promise<unknown[]> {
+  const ir = (await importBpmn(xml)).caseIr;
+  const ids = (steps: Step[]): unknown[] => steps.map((s) => ("branches" in s && s.type !== "decision" ? [s.id, s.branches.map((b) => ids(b.steps))] : s.id));
+  return ir.stages.flatMap((stage) => stage.groups.flatMap((g) => ids(g.steps)));
+}
+
+describe("mergeBpmn", () => {
+  it("returns the original XML verbatim when nothing changed", async () => {
+    expect(mergeBpmn(await sample())).toBe(SAMPLE);
+  });
+
+  it("renames in place and keeps every diagram shape", async () => {
+    const ir = await sample();
+    loopSteps(ir)[2].name = "Notify";
+    const xml = mergeBpmn(ir);
+    expect(element(xml, "Task_SendEmail")?.getAttribute("name")).toBe("Notify");
+    expect(shapeIds(xml)).toEqual(shapeIds(SAMPLE));
+    expect(flows(xml)).toEqual(flows(SAMPLE));
+  });
+
+  it("gives an inserted step a shape and wires it in order", async () => {
+    const ir = await sample();
+    fetchSteps(ir).push(automation("Task_Archive"));
+    loopSteps(ir).splice(1, 0, automation("Task_Classify"));
+    const xml = mergeBpmn(ir);
+    expect(shapeIds(xml)).toEqual([...shapeIds(SAMPLE), "Task_Archive", "Task_Classify"].sort());
+    expect(await reimported(xml)).toEqual([
+      "Task_FetchEmails", "Task_Archive", "Task_ProcessAttachments", "Task_Classify", "Event_0h13toy", "Task_SendEmail",
+    ]);
+  });
+
+  it("removes a deleted step with its shape and reconnects its neighbours", async () => {
+    const ir = await sample();
+    ir.stages[1].groups[0].steps = loopSteps(ir).filter((s) => s.id !== "Event_0h13toy");
+    const xml = mergeBpmn(ir);
+    expect(element(xml, "Event_0h13toy")).toBeUndefined();
+    expect(shapeIds(xml)).not.toContain("Event_0h13toy");
+    expect(flows(xml)).toContain("Task_ProcessAttachments->Task_SendEmail");
+    expect(await reimported(xml)).toEqual(["Task_FetchEmails", "Task_ProcessAttachments", "Task_SendEmail"]);
+  });
+
+  it("rewires reordered steps and keeps their shapes", async () => {
+    const ir = await sample();
+    loopSteps(ir).reverse();
+    const xml = mergeBpmn(ir);
+    expect(await reimported(xml)).toEqual(["Task_FetchEmails", "Task_SendEmail", "Event_0h13toy", "Task_ProcessAttachments"]);
+    expect(flows(xml)).toEqual(expect.arrayContaining(["Task_SendEmail->Event_0h13toy", "Event_0h13toy->Task_ProcessAttachments"]));
+    expect(flows(xml)).toHaveLength(flows(SAMPLE).length);
+    expect(shapeIds(xml)).toEqual(shapeIds(SAMPLE));
+    expect(mergeBpmn((await importBpmn(xml)).caseIr)).toBe(xml);
+  });
+
+  it("exports a parallel block with its join and re-imports it as one step", async () => {
+    const ir = await sample();
+    fetchSteps(ir).push({
+      id: "Gateway_Scan", name: "Scan", type: "parallel",
+      branches: [
+        { id: "virus", label: "Virus", steps: [automation("Task_Virus")] },
+        { id: "size", label: "Size", steps: [automation("Task_Size")] },
+      ],
+    });
+    const xml = mergeBpmn(ir);
+    expect(element(xml, "Gateway_Scan")?.localName).toBe("parallelGateway");
+    expect(flows(xml)).toEqual(expect.arrayContaining([
+      "Gateway_Scan->Task_Virus", "Gateway_Scan->Task_Size", "Task_FetchEmails->Gateway_Scan",
+    ]));
+    expect(shapeIds(xml)).toEqual(expect.arrayContaining(["Gateway_Scan", "Task_Virus", "Task_Size"]));
+    expect(await reimported(xml)).toEqual([
+      "Task_FetchEmails", ["Gateway_Scan", [["Task_Virus"], ["Task_Size"]]],
+      "Task_ProcessAttachments", "Event_0h13toy", "Task_SendEmail",
+    ]);
+    expect(mergeBpmn((await importBpmn(xml)).caseIr)).toBe(xml);
+  });
+
+  it("renames a branch of an imported block without touching its join", async () => {
+    const ir = await sample();
+    fetchSteps(ir).push({
+      id: "Gateway_Scan", name: "Scan", type: "inclusive", defaultBranchId: "size",
+      branches: [
+        { id: "virus", label: "Virus", condition: "${hasAttachments}", steps: [automation("Task_Virus")] },
+        { id: "size", label: "Size", steps: [automation("Task_Size")] },
+      ],
+    });
+    const first = mergeBpmn(ir);
+    const again = (await importBpmn(first)).caseIr;
+    const block = fetchSteps(again)[1];
+    if (block.type !== "inclusive") throw new Error(`expected an inclusive block, got ${block.type}`);
+    block.branches[0].steps[0].name = "Antivirus";
+    const xml = mergeBpmn(again);
+    expect(element(xml, "Task_Virus")?.getAttribute("name")).toBe("Antivirus");
+    expect(element(xml, "Gateway_Scan")?.localName).toBe("inclusiveGateway");
+    expect(flows(xml)).toEqual(flows(first));
+    expect(shapeIds(xml)).toEqual(shapeIds(first));
+  });
+
+  it("compiles an SLA to timer boundaries that survive a round trip", async () => {
+    const ir = await sample();
+    fetchSteps(ir)[0].sla = { target: "PT8H", warningPercent: 75 };
+    const xml = mergeBpmn(ir);
+    const breach = element(xml, "Task_FetchEmails_sla_breach");
+    expect(breach?.getAttribute("attachedToRef")).toBe("Task_FetchEmails");
+    expect(breach?.getAttribute("cancelActivity")).toBe("false");
+    expect(timer(xml, "Task_FetchEmails_sla_breach")).toBe("PT8H");
+    expect(timer(xml, "Task_FetchEmails_sla_warning")).toBe("PT6H");
+    expect(element(xml, "Task_FetchEmails_sla_breach_task")?.getAttribute("camunda:topic")).toBe("sla-breach");
+
+    const again = (await importBpmn(xml)).caseIr;
+    expect(fetchSteps(again)[0].sla).toEqual({ target: "PT8H", warningPercent: 75 });
+    expect(fetchSteps(again)[0].boundaryEvents ?? []).toEqual([]);
+    expect(await reimported(xml)).toEqual(await reimported(SAMPLE));
+    expect(mergeBpmn(again)).toBe(xml);
+  });
+
+  it("updates SLA timers in place and drops them with the policy", async () => {
+    const ir = await sample();
+    fetchSteps(ir)[0].sla = { target: "PT8H", warningPercent: 75 };
+    const first = (await importBpmn(mergeBpmn(ir))).caseIr;
+    fetchSteps(first)[0].sla = { target: "PT4H" };
+    const xml = mergeBpmn(first);
+    expect(timer(xml, "Task_FetchEmails_sla_breach")).toBe("PT4H");
+    expect(element(xml, "Task_FetchEmails_sla_warning")).toBeUndefined();
+    expect(element(xml, "Task_FetchEmails_sla_warning_task")).toBeUndefined();
+
+    const cleared = (await importBpmn(xml)).caseIr;
+    delete fetchSteps(cleared)[0].sla;
+    const plain = mergeBpmn(cleared);
+    expect(element(plain, "Task_FetchEmails_sla_breach")).toBeUndefined();
+    expect(flows(plain)).toEqual(flows(SAMPLE));
+  });
+});
+
+describe("exportBpmn", () => {
+  it("reports a failed merge instead of regenerating unless asked to", async () => {
+    const ir = await sample();
+    ir.metadata.originalBpmnXml = `<bpmn:definitions xmlns:bpmn="${BPMN_NS}" id="Empty" />`;
+    expect(() => exportBpmn(ir)).toThrow(BpmnMergeError);
+    const xml = exportBpmn(ir, [], { rebuildOnMergeFailure: true });
+    expect(element(xml, "Task_FetchEmails")).toBeDefined();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import type { BusinessCalendar } from "@/lib/calendar/types";
+import {
+  STANDARD_CALENDAR, addBusinessTime, formatBusinessDuration, formatInTimeZone, parseBusinessDuration, parseZonedDateTime,
+} from "@/lib/calendar/calculator";
+import { businessTimeExpression, calendarDateAttr, calendarTimer, parseCalendarDateAttr } from "@/lib/calendar/timerExpression";
+
+function calendar(timeZone: string, patch: Partial<BusinessCalendar> = {}): BusinessCalendar {
+  return { ...STANDARD_CALENDAR, key: "test", name: "Test", timeZone, ...patch };
+}
+
+/** Adds `duration` to a wall-clock time of `cal` and formats the result in the same zone */
+function add(cal: BusinessCalendar, from: string, duration: string): string {
+  const start = parseZonedDateTime(from, cal.timeZone);
+  if (!start) throw new Error(`bad test input ${from}`);
+  return formatInTimeZone(addBusinessTime(start, duration, cal), cal.timeZone);
+}
+
+describe("parseBusinessDuration", () => {
+  it("reads ISO durations and phrases", () => {
+    expect(parseBusinessDuration("P3D")).toEqual({ days: 3, ms: 0 });
+    expect(parseBusinessDuration("PT4H30M")).toEqual({ days: 0, ms: 4.5 * 3_600_000 });
+    expect(parseBusinessDuration("2 business days and 3 working hours")).toEqual({ days: 2, ms: 3 * 3_600_000 });
+  });
+
+  it("rejects weeks, bare designators and fractional days", () => {
+    expect(parseBusinessDuration("P1W")).toBeNull();
+    expect(parseBusinessDuration("PT")).toBeNull();
+    expect(parseBusinessDuration("1.5 business days")).toBeNull();
+  });
+
+  it("never rolls hours over into days", () => {
+    expect(formatBusinessDuration({ days: 1, ms: 30 * 3_600_000 })).toBe("P1DT30H");
+  });
+});
+
+describe("addBusinessTime – weekends", () => {
+  const utc = calendar("UTC");
+
+  it("carries working hours over a weekend", () => {
+    expect(add(utc, "2026-10-16T16:00", "PT2H")).toBe("Mon 2026-10-19 10:00");
+  });
+
+  it("starts counting at the next working moment when added on a Saturday", () => {
+    expect(add(utc, "2026-10-17T11:00", "PT1H")).toBe("Mon 2026-10-19 10:00");
+  });
+
+  it("moves business days to the same time of day, skipping the weekend", () => {
+    expect(add(utc, "2026-10-16T10:30", "P1D")).toBe("Mon 2026-10-19 10:30");
+    expect(add(utc, "2026-10-14T10:30", "P5D")).toBe("Wed 2026-10-21 10:30");
+  });
+
+  it("clamps a business day added after hours to the close of the target day", () => {
+    expect(add(utc, "2026-10-15T16:30", "P1D")).toBe("Fri 2026-10-16 16:30");
+    expect(add(utc, "2026-10-15T18:00", "P1D")).toBe("Mon 2026-10-19 09:00");
+  });
+
+  it("counts only time inside split working intervals", () => {
+    const split = calendar("UTC", {
+      hours: [[], ...Array.from({ length: 5 }, () => [{ start: "08:00", end: "12:00" }, { start: "13:00", end: "17:00" }]), []],
+    });
+    expect(add(split, "2026-10-16T11:00", "PT2H")).toBe("Fri 2026-10-16 14:00");
+    expect(add(split, "2026-10-16T16:00", "PT6H")).toBe("Mon 2026-10-19 14:00");
+  });
+});
+
+describe("addBusinessTime – holidays", () => {
+  const cal = calendar("UTC", { holidays: [{ date: "2026-10-19", name: "Founders' Day" }, { date: "2026-10-20", name: "Bridge day" }] });
+
+  it("skips holidays when counting working hours", () => {
+    expect(add(cal, "2026-10-16T16:00", "PT2H")).toBe("Wed 2026-10-21 10:00");
+  });
+
+  it("skips holidays when counting business days", () => {
+    expect(add(cal, "2026-10-16T10:00", "P1D")).toBe("Wed 2026-10-21 10:00");
+  });
+
+  it("starts on the next working day when added on a holiday", () => {
+    expect(add(cal, "2026-10-19T10:00", "PT30M")).toBe("Wed 2026-10-21 09:30");
+  });
+});
+
+describe("addBusinessTime – daylight saving time", () => {
+  const berlin = calendar("Europe/Berlin");
+  const newYork = calendar("America/New_York");
+
+  it("keeps local office hours across the spring change in Berlin", () => {
+    const from = parseZonedDateTime("2026-03-27T16:00", "Europe/Berlin")!;
+    expect(from.toISOString()).toBe("2026-03-27T15:00:00.000Z");
+    const due = addBusinessTime(from, "PT2H", berlin);
+    expect(due.toISOString()).toBe("2026-03-30T08:00:00.000Z");
+    expect(formatInTimeZone(due, "Europe/Berlin")).toBe("Mon 2026-03-30 10:00");
+  });
+
+  it("keeps the time of day for business days across the autumn change in Berlin", () => {
+    expect(add(berlin, "2026-10-23T10:00", "P1D")).toBe("Mon 2026-10-26 10:00");
+  });
+
+  it("keeps the time of day across the spring change in New York", () => {
+    expect(add(newYork, "2026-03-06T15:00", "P1DT3H")).toBe("Tue 2026-03-10 10:00");
+  });
+
+  it("counts real time inside a working interval that spans the change", () => {
+    const sundays = calendar("Europe/Berlin", { hours: [[{ start: "01:00", end: "05:00" }], [], [], [], [], [], []] });
+    // 02:00–03:00 does not exist on 29 March, so two working hours after 01:00 end at 04:00
+    expect(add(sundays, "2026-03-29T01:00", "PT2H")).toBe("Sun 2026-03-29 04:00");
+    // 02:00–03:00 happens twice on 25 October, so two working hours after 01:00 end at the second 02:00
+    const due = addBusinessTime(parseZonedDateTime("2026-10-25T01:00", "Europe/Berlin")!, "PT2H", sundays);
+    expect(due.toISOString()).toBe("2026-10-25T01:00:00.000Z");
+  });
+});
+
+describe("addBusinessTime – errors", () => {
+  it("rejects durations it cannot read", () => {
+    expect(() => addBusinessTime(new Date(), "soon", STANDARD_CALENDAR)).toThrow(RangeError);
+  });
+
+  it("rejects broken calendars", () => {
+    expect(() => addBusinessTime(new Date(), "PT1H", calendar("Mars/Olympus"))).toThrow(/not a known time zone/);
+  });
+
+  it("returns the start for a zero duration", () => {
+    const from = new Date("2026-10-17T12:00:00Z");
+    expect(addBusinessTime(from, "PT0S", STANDARD_CALENDAR).getTime()).toBe(from.getTime());
+  });
+});
+
+describe("calendarTimer", () => {
+  it("counts business durations with the engine's calendar bean", () => {
+    expect(calendarTimer("3 business days", "emea-support", true)).toEqual({ type: "timeDate", expression: '${businessCalendar.add(now(), "P3D", "emea-support")}' });
+    expect(parseCalendarDateAttr(calendarDateAttr("P3D", "emea-support", true))).toEqual({ value: "P3D", calendarKey: "emea-support" });
+  });
+
+  it("falls back to the plain ISO duration without the bean or with an invalid key", () => {
+    expect(calendarTimer("3 business days", "emea-support")).toEqual({ type: "timeDuration", expression: "P3D" });
+    expect(calendarTimer("P3D", 'x"), evil("', true)).toEqual({ type: "timeDuration", expression: "P3D" });
+    expect(calendarDateAttr("PT4H", "emea-support")).toBe("PT4H");
+  });
+
+  it("leaves values that are not business durations or have no calendar as written", () => {
+    expect(calendarTimer("2026-10-20T09:00:00Z", "emea-support", true)).toBeNull();
+    expect(calendarTimer("P3D", undefined, true)).toBeNull();
+  });
+
+  it("never writes an invalid key into an expression", () => {
+    expect(() => businessTimeExpression("P3D", 'x"), evil("')).toThrow('"x"), evil("" is not a valid calendar key');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import type { BusinessRule, BusinessRuleScenario, DataField } from "@/types/caseIr";
+import { ScenarioError, evaluateRule, runRuleSuites, runScenario, scenarioFacts } from "@/lib/businessRules/scenarios";
+import { caseOf } from "./fixtures";
+
+const dataModel: DataField[] = [
+  { id: "f1", name: "amount", dataType: "number", required: true },
+  { id: "f2", name: "tier", dataType: "string", required: false },
+];
+
+const rule = (expression: string, scenarios?: BusinessRuleScenario[]): BusinessRule => ({
+  id: "r1", name: "High value", ruleType: "condition", expression, scenarios,
+});
+
+const scenario = (name: string, facts: Record<string, string>, expected: string): BusinessRuleScenario => ({
+  id: name, name, facts, expected,
+});
+
+describe("scenarioFacts", () => {
+  it("reads FEEL literals for data model fields only", () => {
+    const s = scenario("s", { amount: "1500", tier: '"gold"', renamed: "1" }, "true");
+    expect(scenarioFacts(dataModel, s)).toEqual({ amount: 1500, tier: "gold" });
+  });
+
+  it("names the fact that does not parse", () => {
+    expect(() => scenarioFacts(dataModel, scenario("s", { amount: "15 00" }, "true"))).toThrow(ScenarioError);
+    expect(() => scenarioFacts(dataModel, scenario("s", { amount: "15 00" }, "true"))).toThrow(/^Fact 'amount': /);
+  });
+});
+
+describe("evaluateRule", () => {
+  it("takes bare text as a JUEL expression body", () => {
+    expect(evaluateRule(rule("amount > 1000"), { amount: 1500 })).toBe(true);
+  });
+
+  it("evaluates JUEL and FEEL expressions as written", () => {
+    expect(evaluateRule(rule("${amount > 1000 && tier == 'gold'}"), { amount: 1500, tier: "silver" })).toBe(false);
+    expect(evaluateRule(rule("= amount * 2"), { amount: 21 })).toBe(42);
+  });
+
+  it("rejects an empty expression", () => {
+    expect(() => evaluateRule(rule("  "), {})).toThrow(new ScenarioError("Rule has no expression"));
+  });
+});
+
+describe("runScenario", () => {
+  it("passes when the rule yields the expected value", () => {
+    expect(runScenario(rule("amount > 1000"), scenario("big", { amount: "1500" }, "true"), dataModel)).toEqual({ passed: true, actual: true });
+  });
+
+  it("fails with the actual value when it does not", () => {
+    expect(runScenario(rule("amount > 1000"), scenario("small", { amount: "500" }, "true"), dataModel)).toEqual({ passed: false, actual: false });
+  });
+
+  it("reports evaluation errors instead of throwing", () => {
+    const result = runScenario(rule("amount >"), scenario("broken", { amount: "1" }, "true"), dataModel);
+    expect(result.passed).toBe(false);
+    expect(result.actual).toBeUndefined();
+    expect(result.error).toMatch(/^Expression: /);
+    expect(runScenario(rule("amount > 1"), scenario("bad", {}, "tru e"), dataModel).error).toMatch(/^Expected: /);
+  });
+});
+
+describe("runRuleSuites", () => {
+  it("runs every scenario of the rules that have any", () => {
+    const withScenarios = rule("amount > 1000", [scenario("big", { amount: "1500" }, "true"), scenario("small", { amount: "10" }, "true")]);
+    const without = { ...rule("tier == 'gold'"), id: "r2" };
+    const suites = runRuleSuites(caseOf([], { dataModel, businessRules: [withScenarios, without] }));
+    expect(suites.map((s) => s.rule.id)).toEqual(["r1"]);
+    expect(suites[0].results.map((r) => [r.scenario.name, r.result.passed])).toEqual([["big", true], ["small", false]]);
+  });
+});
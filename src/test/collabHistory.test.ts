@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import type { CaseIR, JsonPatch } from "@/types/caseIr";
+import { EMPTY_HISTORY, appliedPatch, recordPatch, undo } from "@/lib/history/patchHistory";
+import { fromIdOps, toIdOps } from "@/lib/collab/idOps";
+import { applyCaseIRPatch } from "@/lib/patchUtils";
+import { automation, stage, twoStageCase, stepIds } from "./fixtures";
+
+/** A peer's edit as it arrives over the channel, applied like WorkflowStudio's handleRemotePatch */
+function receive(local: CaseIR, peer: CaseIR, patch: JsonPatch): CaseIR {
+  const ops = toIdOps(peer, patch);
+  return applyCaseIRPatch(local, fromIdOps(local, ops));
+}
+
+describe("local undo after remote edits", () => {
+  it("undoes an added step after a peer inserted a stage and a step in front of it", () => {
+    const local = recordPatch(EMPTY_HISTORY, twoStageCase(), [{ op: "add", path: "/stages/1/groups/0/steps/1", value: automation("x") }]);
+    const peer = twoStageCase();
+    let caseIr = receive(local.caseIr, peer, [{ op: "add", path: "/stages/0", value: stage("s0", ["n"]) }]);
+    caseIr = receive(caseIr, peer, [{ op: "add", path: "/stages/1/groups/0/steps/0", value: automation("m") }]);
+    expect(stepIds(caseIr, "s2")).toEqual(["m", "d", "x"]);
+
+    const undone = undo(local.history, caseIr)!;
+    expect(undone.caseIr.stages.map((s) => s.id)).toEqual(["s0", "s1", "s2"]);
+    expect(stepIds(undone.caseIr, "s2")).toEqual(["m", "d"]);
+  });
+
+  it("undoes a rename after a peer inserted and reordered stages", () => {
+    const local = recordPatch(EMPTY_HISTORY, twoStageCase(), [{ op: "replace", path: "/stages/0/groups/0/steps/2/name", value: "Decide" }]);
+    const peer = twoStageCase();
+    let caseIr = receive(local.caseIr, peer, [{ op: "add", path: "/stages/0", value: stage("s0", []) }]);
+    caseIr = receive(caseIr, { ...peer, stages: [stage("s0", []), ...peer.stages] }, [{ op: "move", from: "/stages/1", path: "/stages/2" }]);
+    expect(caseIr.stages.map((s) => s.id)).toEqual(["s0", "s2", "s1"]);
+
+    const undone = undo(local.history, caseIr)!;
+    expect(undone.caseIr.stages[2].groups[0].steps.map((s) => s.name)).toEqual(["A", "B", "C"]);
+    expect(undone.caseIr.stages[1].groups[0].steps[0].name).toBe("D");
+  });
+
+  it("re-adds a removed step to its own stage after a peer's inserts", () => {
+    const local = recordPatch(EMPTY_HISTORY, twoStageCase(), [{ op: "remove", path: "/stages/0/groups/0/steps/2" }]);
+    const caseIr = receive(local.caseIr, twoStageCase(), [{ op: "add", path: "/stages/0", value: stage("s0", ["n"]) }]);
+    const undone = undo(local.history, caseIr)!;
+    expect(stepIds(undone.caseIr, "s1")).toEqual(["a", "b", "c"]);
+    expect(stepIds(undone.caseIr, "s0")).toEqual(["n"]);
+  });
+
+  it("reports a short error when a peer deleted the element", () => {
+    const local = recordPatch(EMPTY_HISTORY, twoStageCase(), [{ op: "replace", path: "/stages/1/name", value: "Review" }]);
+    const caseIr = receive(local.caseIr, twoStageCase(), [{ op: "remove", path: "/stages/1" }]);
+    expect(() => undo(local.history, caseIr)).toThrow(new Error('Cannot undo "Renamed stage" — later edits removed an element it changed'));
+  });
+
+  it("broadcasts an undo that peers can apply", () => {
+    const start = twoStageCase();
+    const local = recordPatch(EMPTY_HISTORY, start, [{ op: "remove", path: "/stages/0/groups/0/steps/0" }]);
+    const undone = undo(local.history, local.caseIr)!;
+    const patch = appliedPatch(local.history, undone.history)!;
+    const peer = local.caseIr;
+    expect(applyCaseIRPatch(peer, fromIdOps(peer, toIdOps(local.caseIr, patch)))).toEqual(start);
+  });
+});
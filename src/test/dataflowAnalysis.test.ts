@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import type { CaseIR, Step } from "@/types/caseIr";
+import { analyzeDataFlow } from "@/lib/dataflow/analysis";
+import type { DataFlowNode } from "@/lib/dataflow/types";
+import { automation, caseOf } from "./fixtures";
+
+/** A step that writes `name` from `value` through an output parameter */
+const writes = (id: string, name: string, value: string): Step => automation(id, { tech: { outputParameters: [{ name, value }] } });
+
+/** A step that passes `value` to input parameter `p` */
+const reads = (id: string, value: string): Step => automation(id, { tech: { inputParameters: [{ name: "p", value }] } });
+
+function flow(steps: Step[], extra: Partial<CaseIR> = {}): CaseIR {
+  return caseOf([{ id: "s1", name: "S1", groups: [{ id: "g1", name: "Main", steps }] }], extra);
+}
+
+const visible = (result: ReturnType<typeof analyzeDataFlow>, stepId: string) => result.scopes.get(stepId)!.map((d) => `${d.name}:${d.type}`);
+const messages = (result: ReturnType<typeof analyzeDataFlow>) => result.issues.map((i) => `${i.severity} ${i.stepId}: ${i.message}`);
+
+describe("analyzeDataFlow", () => {
+  it("makes the data model and earlier outputs visible to later steps", () => {
+    const result = analyzeDataFlow(flow([writes("a", "amount", "42"), writes("b", "label", "${amount}"), reads("c", "${label}")], {
+      dataModel: [{ id: "f1", name: "claimId", dataType: "string", required: false }],
+    }));
+    expect(visible(result, "a")).toEqual(["claimId:string"]);
+    expect(visible(result, "c")).toEqual(["claimId:string", "amount:number", "label:number"]);
+    expect(result.outputs.get("b")).toEqual([
+      { name: "label", type: "number", origin: "outputParameter", stepId: "b", stepName: "B", path: "/stages/0/groups/0/steps/1/tech/outputParameters/0/name" },
+    ]);
+    expect(result.issues).toEqual([]);
+  });
+
+  it("tells a variable set later from one nothing sets", () => {
+    const result = analyzeDataFlow(flow([reads("a", "${total}"), reads("b", "${missing}"), writes("c", "total", "1")]));
+    expect(result.issues).toEqual([
+      { kind: "undefined", severity: "warning", message: '${total} in "A" is not set yet at this point; it is set by "C"', path: "/stages/0/groups/0/steps/0/tech/inputParameters/0/value", stepId: "a" },
+      { kind: "undefined", severity: "error", message: '${missing} in "B" reads "missing", which no earlier step sets and the data model does not declare', path: "/stages/0/groups/0/steps/1/tech/inputParameters/0/value", stepId: "b" },
+    ]);
+  });
+
+  it("types form fields and checks how decisions use them", () => {
+    const result = analyzeDataFlow(flow([
+      { id: "form", name: "Form", type: "user", formRef: { formId: "claim" } },
+      { id: "dec", name: "Route", type: "decision", branches: [
+        { id: "b1", label: "Big", condition: "${amount > 1000}" },
+        { id: "b2", label: "Urgent", condition: "${urgent == 'yes'}" },
+        { id: "b3", label: "Note", condition: "${note}" },
+      ] },
+    ], {
+      formTemplates: [{ id: "claim", name: "Claim", fields: [
+        { key: "amount", label: "Amount", type: "number", required: true },
+        { key: "urgent", label: "Urgent", type: "boolean", required: false },
+        { key: "note", label: "Note", type: "multiline", required: false },
+      ] }],
+    }));
+    expect(visible(result, "dec")).toEqual(["amount:number", "urgent:boolean", "note:string"]);
+    expect(messages(result)).toEqual([
+      'warning dec: ${urgent} in "Route" is a boolean but is compared with a string',
+      'warning dec: ${note} in "Route" is a string, but a boolean is expected here',
+    ]);
+  });
+
+  it("merges parallel branches at the join", () => {
+    const result = analyzeDataFlow(flow([
+      { id: "split", name: "Split", type: "parallel", branches: [
+        { id: "p1", label: "One", steps: [writes("x", "left", "1")] },
+        { id: "p2", label: "Two", steps: [reads("y", "${left}"), writes("z", "right", "true")] },
+      ] },
+      reads("after", "${left} ${right}"),
+    ]));
+    expect(visible(result, "y")).toEqual([]);
+    expect(visible(result, "after")).toEqual(["left:number", "right:boolean"]);
+    expect(messages(result)).toEqual(['warning y: ${left} in "Y" is not set yet at this point; it is set by "X"']);
+  });
+
+  it("scopes a foreach element to its body and reports what it hides", () => {
+    const result = analyzeDataFlow(flow([
+      writes("init", "item", "'none'"),
+      { id: "loop", name: "Each", type: "foreach", collectionExpression: "${items}", elementVariable: "item", steps: [reads("body", "${item} ${loopCounter}")] },
+      reads("after", "${item}"),
+    ], { dataModel: [{ id: "f1", name: "items", dataType: "array", required: false }] }));
+    expect(visible(result, "body")).toContain("loopCounter:number");
+    expect(visible(result, "after")).toEqual(["items:array", "item:string"]);
+    expect(messages(result)).toEqual(['warning body: ${item} in "BODY" reads "item" from the loop element of "Each", which hides the string from "INIT"']);
+  });
+
+  it("checks reads against the outputs of the node a step is pinned to", () => {
+    const node: DataFlowNode = { name: "OCR", inputs: { pages: "number" }, outputs: { text: "string", pages: "number" }, defaultOutputVariable: "ocrResult" };
+    const result = analyzeDataFlow(flow([
+      automation("ocr", { moduleRef: { moduleId: "ocr", instanceConfig: {} } }),
+      reads("ok", "${ocrResult.text}"),
+      reads("typo", "${ocrResult.txt}"),
+      automation("next", { moduleRef: { moduleId: "ocr", instanceConfig: { outputVariable: "second" }, inputMappings: [{ sourceVariable: "${ocrResult.text}", sourceField: "", targetField: "pages" }] } }),
+    ]), (ref) => (ref.moduleId === "ocr" ? node : undefined));
+    expect(result.outputs.get("ocr")?.[0]).toMatchObject({ name: "ocrResult", type: "object", origin: "nodeOutput", fields: node.outputs });
+    expect(messages(result)).toEqual([
+      'error typo: ${ocrResult.txt} in "TYPO": "OCR" output has no field "txt" (fields: text, pages)',
+      'warning next: ${ocrResult.text} in "NEXT" is a string, but a number is expected here',
+    ]);
+  });
+
+  it("warns when a step writes a data model variable with another type", () => {
+    const result = analyzeDataFlow(flow([writes("a", "approved", "'maybe'")], {
+      dataModel: [{ id: "f1", name: "approved", dataType: "boolean", required: false }],
+    }));
+    expect(messages(result)).toEqual(['warning a: "A" writes string to "approved", which the data model declares as boolean']);
+  });
+
+  it("lets alternative paths see everything the main flow produces", () => {
+    const result = analyzeDataFlow({
+      ...flow([writes("a", "amount", "5")]),
+      alternativePaths: [{ id: "alt", name: "Alt", groups: [{ id: "ag", name: "Main", steps: [reads("fix", "${amount + 1}")] }] }],
+    });
+    expect(visible(result, "fix")).toEqual(["amount:number"]);
+    expect(result.issues).toEqual([]);
+  });
+});
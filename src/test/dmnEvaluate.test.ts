@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import type { DecisionTable, DmnHitPolicy, DmnRule } from "@/types/caseIr";
+import { DecisionTableError, evaluateDecisionTable, formatValue, runTestCase } from "@/lib/dmn/evaluate";
+
+const rule = (id: string, inputEntries: string[], outputEntries: string[]): DmnRule => ({ id, inputEntries, outputEntries });
+
+/** Discount by customer tier and order total */
+function discounts(hitPolicy: DmnHitPolicy, rules: DmnRule[], extra: Partial<DecisionTable> = {}): DecisionTable {
+  return {
+    id: "discount", name: "Discount", hitPolicy,
+    inputs: [
+      { id: "in_tier", label: "Tier", expression: "customer.tier", typeRef: "string" },
+      { id: "in_total", label: "Total", expression: "total", typeRef: "double" },
+    ],
+    outputs: [{ id: "out_rate", label: "Rate", name: "rate", typeRef: "double" }],
+    rules,
+    ...extra,
+  };
+}
+
+const gold = { customer: { tier: "gold" }, total: 250 };
+
+describe("evaluateDecisionTable", () => {
+  it("matches rules with unary tests and returns the single hit", () => {
+    const table = discounts("UNIQUE", [
+      rule("r1", ['"gold"', ">= 100"], ["0.1"]),
+      rule("r2", ['"gold"', "< 100"], ["0.05"]),
+      rule("r3", ['not("gold")', "-"], ["0"]),
+    ]);
+    expect(evaluateDecisionTable(table, gold)).toEqual({ matched: [0], outputs: [{ rate: 0.1 }], result: { rate: 0.1 } });
+    expect(evaluateDecisionTable(table, { customer: { tier: "silver" }, total: 5 }).result).toEqual({ rate: 0 });
+  });
+
+  it("takes input values by id over the input expressions", () => {
+    const table = discounts("UNIQUE", [rule("r1", ['"gold"', "[0..99]"], ["0.05"])]);
+    expect(evaluateDecisionTable(table, gold, { in_total: 50 }).matched).toEqual([0]);
+  });
+
+  it("returns null when no rule matches a single-hit table", () => {
+    const table = discounts("FIRST", [rule("r1", ['"platinum"', "-"], ["0.2"])]);
+    expect(evaluateDecisionTable(table, gold)).toEqual({ matched: [], outputs: [], result: null });
+  });
+
+  it("throws when more than one rule matches a UNIQUE table", () => {
+    const table = discounts("UNIQUE", [rule("r1", ['"gold"', "-"], ["0.1"]), rule("r2", ["-", "> 200"], ["0.15"])]);
+    expect(() => evaluateDecisionTable(table, gold)).toThrow(new DecisionTableError("UNIQUE hit policy violated: rules 1, 2 all match", 1));
+  });
+
+  it("allows overlapping ANY rules only when their outputs agree", () => {
+    const agree = discounts("ANY", [rule("r1", ['"gold"', "-"], ["0.1"]), rule("r2", ["-", "> 200"], ["0.1"])]);
+    expect(evaluateDecisionTable(agree, gold).result).toEqual({ rate: 0.1 });
+    const disagree = discounts("ANY", [rule("r1", ['"gold"', "-"], ["0.1"]), rule("r2", ["-", "> 200"], ["0.15"])]);
+    expect(() => evaluateDecisionTable(disagree, gold)).toThrow(/ANY hit policy violated: rules 1, 2 match with different outputs/);
+  });
+
+  it("picks the first matching rule in table order for FIRST", () => {
+    const table = discounts("FIRST", [rule("r1", ["-", "> 500"], ["0.2"]), rule("r2", ['"gold"', "-"], ["0.1"]), rule("r3", ["-", "-"], ["0"])]);
+    expect(evaluateDecisionTable(table, gold)).toEqual({ matched: [1, 2], outputs: [{ rate: 0.1 }], result: { rate: 0.1 } });
+  });
+
+  it("ranks PRIORITY and OUTPUT ORDER results by the output values list", () => {
+    const ranked = { outputs: [{ id: "out_rate", label: "Rate", name: "rate", typeRef: "double" as const, outputValues: ["0.15", "0.1", "0"] }] };
+    const rules = [rule("r1", ["-", "-"], ["0"]), rule("r2", ['"gold"', "-"], ["0.1"]), rule("r3", ["-", "> 200"], ["0.15"])];
+    expect(evaluateDecisionTable(discounts("PRIORITY", rules, ranked), gold).result).toEqual({ rate: 0.15 });
+    expect(evaluateDecisionTable(discounts("OUTPUT ORDER", rules, ranked), gold).result).toEqual([{ rate: 0.15 }, { rate: 0.1 }, { rate: 0 }]);
+  });
+
+  it("returns every match in rule order for RULE ORDER and COLLECT", () => {
+    const rules = [rule("r1", ["-", "> 200"], ["0.15"]), rule("r2", ['"silver"', "-"], ["0.02"]), rule("r3", ['"gold"', "-"], ["0.1"])];
+    expect(evaluateDecisionTable(discounts("RULE ORDER", rules), gold).result).toEqual([{ rate: 0.15 }, { rate: 0.1 }]);
+    expect(evaluateDecisionTable(discounts("COLLECT", rules), gold).result).toEqual([{ rate: 0.15 }, { rate: 0.1 }]);
+  });
+
+  it("aggregates COLLECT outputs", () => {
+    const rules = [rule("r1", ["-", "> 200"], ["0.15"]), rule("r2", ['"gold"', "-"], ["0.1"])];
+    expect(evaluateDecisionTable(discounts("COLLECT", rules, { aggregation: "SUM" }), gold).result).toBeCloseTo(0.25);
+    expect(evaluateDecisionTable(discounts("COLLECT", rules, { aggregation: "MIN" }), gold).result).toBe(0.1);
+    expect(evaluateDecisionTable(discounts("COLLECT", rules, { aggregation: "MAX" }), gold).result).toBe(0.15);
+    expect(evaluateDecisionTable(discounts("COLLECT", rules, { aggregation: "COUNT" }), gold).result).toBe(2);
+    expect(evaluateDecisionTable(discounts("COLLECT", rules, { aggregation: "SUM" }), { customer: { tier: "none" }, total: 0 }).result).toBeNull();
+  });
+
+  it("rejects COLLECT aggregation of non-numeric outputs", () => {
+    const table = discounts("COLLECT", [rule("r1", ["-", "-"], ['"high"'])], { aggregation: "MAX" });
+    expect(() => evaluateDecisionTable(table, gold)).toThrow("COLLECT MAX needs numeric outputs");
+  });
+
+  it("reports the rule and input of an invalid cell", () => {
+    const table = discounts("FIRST", [rule("r1", ["-", "-"], ["0"]), rule("r2", ["-", ">> 1"], ["0"])]);
+    try {
+      evaluateDecisionTable(table, gold);
+      expect.fail("expected a DecisionTableError");
+    } catch (e) {
+      expect(e).toBeInstanceOf(DecisionTableError);
+      expect((e as DecisionTableError).message).toMatch(/^Rule 2, input 'Total': /);
+      expect((e as DecisionTableError).ruleIndex).toBe(1);
+    }
+  });
+});
+
+describe("runTestCase", () => {
+  const table = discounts("UNIQUE", [
+    rule("r1", ['"gold"', ">= 100"], ["total * 0.1"]),
+    rule("r2", ['not("gold")', "-"], ["0"]),
+  ]);
+
+  it("passes when the outputs equal the expectations, exposing inputs as variables", () => {
+    expect(runTestCase(table, { id: "t1", name: "Gold", inputs: { in_tier: '"gold"', in_total: "300" }, expected: { out_rate: "30" } }))
+      .toEqual({ passed: true, actual: { out_rate: 30 }, failed: [], matched: [0] });
+  });
+
+  it("lists the outputs that differ", () => {
+    const result = runTestCase(table, { id: "t2", name: "Silver", inputs: { in_tier: '"silver"', in_total: "300" }, expected: { out_rate: "5" } });
+    expect(result).toMatchObject({ passed: false, actual: { out_rate: 0 }, failed: ["out_rate"] });
+  });
+
+  it("turns table errors into a failed result", () => {
+    const overlapping = discounts("UNIQUE", [rule("r1", ["-", "-"], ["1"]), rule("r2", ["-", "-"], ["2"])]);
+    const result = runTestCase(overlapping, { id: "t3", name: "Any", inputs: {}, expected: {} });
+    expect(result.passed).toBe(false);
+    expect(result.error).toBe("UNIQUE hit policy violated: rules 1, 2 all match");
+  });
+});
+
+describe("formatValue", () => {
+  it("writes values as FEEL literals", () => {
+    expect(formatValue(null)).toBe("null");
+    expect(formatValue("gold")).toBe('"gold"');
+    expect(formatValue([1, "a"])).toBe('[1, "a"]');
+    expect(formatValue({ rate: 0.1 })).toBe("{rate: 0.1}");
+    expect(formatValue(new Date("2026-10-01T00:00:00Z"))).toBe('date and time("2026-10-01T00:00:00.000Z")');
+  });
+});
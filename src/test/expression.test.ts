@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { evaluateCondition, evaluateExpression, evaluateUnaryTests } from "@/lib/expression/evaluate";
+import { parseFeel, parseJuel } from "@/lib/expression/parser";
+import { ExpressionError } from "@/lib/expression/types";
+
+const vars = { n: 5, t: true, f: false, s: "abc", list: [1, 2, 3], x: { a: 1 } };
+const run = (text: string) => evaluateExpression(text, vars);
+
+/** The error an expression raises, with the part of the text it points at */
+function failure(parse: () => unknown): { reason: string; range?: { start: number; end: number } } {
+  try {
+    parse();
+  } catch (e) {
+    if (e instanceof ExpressionError) return { reason: e.reason, range: e.range };
+    throw e;
+  }
+  throw new Error("expected an ExpressionError");
+}
+
+describe("operator precedence", () => {
+  it("binds JUEL arithmetic, comparison and logic in the usual order", () => {
+    expect(run("${1 + 2 * 3}")).toBe(7);
+    expect(run("${(1 + 2) * 3}")).toBe(9);
+    expect(run("${10 - 4 - 3}")).toBe(3);
+    expect(run("${2 * 3 % 4}")).toBe(2);
+    expect(run("${-n + 1}")).toBe(-4);
+    expect(run("${1 < 2 == true}")).toBe(true);
+    expect(run("${t || f && f}")).toBe(true);
+    expect(run("${!f && f}")).toBe(false);
+    expect(run("${n > 3 ? 'big' : 'small'}")).toBe("big");
+  });
+
+  it("binds FEEL equality below arithmetic and `or` below `and`", () => {
+    expect(run("=1 + 2 * 3")).toBe(7);
+    expect(run("=1 + 2 = 3")).toBe(true);
+    expect(run("=n > 3 and n < 10 or false")).toBe(true);
+    expect(run("=not(true) or true")).toBe(true);
+    expect(run("=2 ** 3 ** 2")).toBe(64);
+    expect(run('=if n > 3 then "a" else "b"')).toBe("a");
+  });
+});
+
+describe("FEEL values", () => {
+  it("tests ranges with open and closed ends", () => {
+    expect(run("=5 in [1..10]")).toBe(true);
+    expect(run("=5 in ]5..10]")).toBe(false);
+    expect(run("=n between 1 and 5")).toBe(true);
+  });
+
+  it("filters and indexes lists from 1 and from the end", () => {
+    expect(run("=list[item > 1]")).toEqual([2, 3]);
+    expect(run("=list[1]")).toBe(1);
+    expect(run("=list[-1]")).toBe(3);
+  });
+
+  it("yields null for operands of the wrong type instead of throwing", () => {
+    expect(run('="a" + 1')).toBeNull();
+    expect(run("=s - 1")).toBeNull();
+  });
+});
+
+describe("evaluateUnaryTests", () => {
+  it("matches ranges by their end points", () => {
+    expect(evaluateUnaryTests("[1..10]", 10)).toBe(true);
+    expect(evaluateUnaryTests("[1..10[", 10)).toBe(false);
+    expect(evaluateUnaryTests("]1..10]", 1)).toBe(false);
+  });
+
+  it("reads comparisons as tests of the input", () => {
+    expect(evaluateUnaryTests("< 5", 3)).toBe(true);
+    expect(evaluateUnaryTests(">= 5", 4)).toBe(false);
+    expect(evaluateUnaryTests("? > 3", 4)).toBe(true);
+  });
+
+  it("matches any test of a list and negates with not()", () => {
+    expect(evaluateUnaryTests('"a","b"', "b")).toBe(true);
+    expect(evaluateUnaryTests("[1..3], > 10", 11)).toBe(true);
+    expect(evaluateUnaryTests('not("a","b")', "c")).toBe(true);
+    expect(evaluateUnaryTests('not("a","b")', "a")).toBe(false);
+  });
+
+  it("matches anything for - and an empty cell", () => {
+    expect(evaluateUnaryTests("-", 42)).toBe(true);
+    expect(evaluateUnaryTests("", 42)).toBe(true);
+    expect(evaluateUnaryTests("null", null)).toBe(true);
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("never matches the importer's default placeholder and rejects plain text", () => {
+    expect(evaluateCondition("${default}", vars)).toBe(false);
+    expect(evaluateCondition("${n > 3}", vars)).toBe(true);
+    expect(() => evaluateCondition("yes", vars)).toThrow(ExpressionError);
+  });
+});
+
+describe("error positions", () => {
+  it("points at the end of an incomplete expression", () => {
+    expect(failure(() => parseFeel("1 + "))).toEqual({ reason: "Expected a value at end of expression", range: { start: 4, end: 5 } });
+    expect(failure(() => parseFeel("a + (b * "))).toEqual({ reason: "Expected a value at end of expression", range: { start: 9, end: 10 } });
+    expect(failure(() => run("=(1 + 2"))).toEqual({ reason: "Expected ')' at end of expression", range: { start: 7, end: 8 } });
+    expect(failure(() => parseFeel("x."))).toEqual({ reason: "Expected a property name after '.' at end of expression", range: { start: 2, end: 3 } });
+  });
+
+  it("points at the unexpected token, counted in the full text", () => {
+    expect(failure(() => parseJuel("a +* b"))).toEqual({ reason: "Unexpected '*'", range: { start: 3, end: 4 } });
+    expect(failure(() => run("${a b}"))).toEqual({ reason: "Unexpected 'b'", range: { start: 4, end: 5 } });
+    expect(failure(() => run("${1 +}"))).toEqual({ reason: "Expected a value at end of expression", range: { start: 5, end: 6 } });
+  });
+
+  it("covers the whole call of an unknown function", () => {
+    expect(failure(() => run("=foo(1)"))).toEqual({ reason: "Unknown function 'foo'", range: { start: 1, end: 7 } });
+  });
+});
+
+describe("sandbox", () => {
+  it("hides constructors and prototypes from JUEL", () => {
+    for (const text of ["${x.constructor}", "${x.__proto__}", "${x['constructor']}", "${x.prototype}", "${s.constructor}", "${list.constructor}", "${constructor}", "${__proto__}"]) {
+      expect(run(text), text).toBeUndefined();
+    }
+  });
+
+  it("hides them from FEEL, where a missing value is null", () => {
+    for (const text of ["=x.constructor", "=x.__proto__", "=__proto__"]) {
+      expect(run(text), text).toBeNull();
+    }
+  });
+
+  it("reads only own properties of the variables", () => {
+    const inherited = Object.create({ secret: "leak" }) as Record<string, unknown>;
+    expect(evaluateExpression("${o.secret}", { o: inherited })).toBeUndefined();
+    expect(evaluateExpression("${x.a}", vars)).toBe(1);
+  });
+});
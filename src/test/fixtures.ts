@@ -0,0 +1,33 @@
+/**
+ * Case IR builders shared by the test suites.
+ */
+import type { CaseIR, Stage, Step } from "@/types/caseIr";
+
+/** An external-task step named after its id */
+export function automation(id: string, extra: Partial<Step> = {}): Step {
+  return { id, name: id.toUpperCase(), type: "automation", tech: { topic: id }, ...extra } as Step;
+}
+
+/** A stage with one "Main" group (`<id>_g`) of automation steps */
+export function stage(id: string, stepIds: string[]): Stage {
+  return { id, name: id.toUpperCase(), groups: [{ id: `${id}_g`, name: "Main", steps: stepIds.map((s) => automation(s)) }] };
+}
+
+export function caseOf(stages: Stage[], extra: Partial<CaseIR> = {}): CaseIR {
+  return {
+    id: "case", name: "Claims", version: "1",
+    trigger: { type: "none" },
+    endEvent: { id: "end", eventType: "none" },
+    stages,
+    metadata: { createdAt: "2026-10-01T00:00:00Z", updatedAt: "2026-10-01T00:00:00Z" },
+    ...extra,
+  };
+}
+
+/** Stage s1 with steps a, b, c and stage s2 with step d */
+export function twoStageCase(): CaseIR {
+  return caseOf([stage("s1", ["a", "b", "c"]), stage("s2", ["d"])]);
+}
+
+/** Step ids of a stage's first group, in order */
+export const stepIds = (ir: CaseIR, stageId: string) => ir.stages.find((s) => s.id === stageId)!.groups[0].steps.map((s) => s.id);
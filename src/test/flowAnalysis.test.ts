@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import type { OptionBranch, Question, QuestionType } from "@/types/questionnaire";
+import { analyzeFlow } from "@/lib/questionnaire/flowAnalysis";
+
+/** A question whose options route as given: a question ID, "end", or null for no route */
+function question(id: string, type: QuestionType = "RadioButton", routes: Record<string, string | null> = {}): Question {
+  const branches: Record<string, OptionBranch> = {};
+  for (const [opt, to] of Object.entries(routes)) {
+    if (to === null) continue;
+    branches[`${id}_${opt}`] = to === "end"
+      ? { id: `${id}_${opt}`, nextEntityType: "end", targetId: "end" }
+      : { id: `${id}_${opt}`, nextEntityType: "question", targetId: to };
+  }
+  return {
+    _id: id, questionId: id, content: id, contentAbstract: "", questionType: type, mandatory: "False",
+    options: Object.keys(routes).map((opt) => ({ id: `${id}_${opt}`, display: opt })),
+    category: "", subcategory: "", accessRoles: "", tags: [], default: "", language: "en", region: "", status: "",
+    _branches: branches,
+  };
+}
+
+describe("questionnaire flow analysis", () => {
+  // A → B; B: back to C or end; C: back to A or end
+  const looping = [
+    question("A", "TextInput"),
+    question("B", "RadioButton", { toC: "C", done: "end" }),
+    question("C", "RadioButton", { toA: "A", done: "end" }),
+  ];
+
+  it("counts simple paths regardless of entry order", () => {
+    const forward = analyzeFlow(looping, ["A", "C"]);
+    const backward = analyzeFlow(looping, ["C", "A"]);
+    // From A: A B end, A B C end; from C: C end, C A B end
+    expect(forward.pathCount).toBe(4);
+    expect(backward.pathCount).toBe(4);
+    expect(backward.shortest).toEqual(forward.shortest);
+    expect(backward.longest).toEqual(forward.longest);
+    expect(forward.shortest?.questionIds).toEqual(["C"]);
+    expect(forward.longest?.questionIds).toHaveLength(3);
+  });
+
+  it("reports a loop that can be left as a warning", () => {
+    const analysis = analyzeFlow(looping, ["A"]);
+    expect(analysis.loops).toHaveLength(1);
+    expect(analysis.loops[0].sort()).toEqual(["A", "B", "C"]);
+    expect(analysis.issues.filter((i) => i.kind === "loop")).toHaveLength(1);
+    expect(analysis.issues.some((i) => i.kind === "endlessLoop")).toBe(false);
+  });
+
+  it("reports a loop without a way out as endless", () => {
+    const questions = [
+      question("A", "RadioButton", { next: "B" }),
+      question("B", "RadioButton", { back: "A" }),
+    ];
+    const analysis = analyzeFlow(questions, ["A"]);
+    expect(analysis.issues.map((i) => i.kind)).toContain("endlessLoop");
+    expect(analysis.pathCount).toBe(0);
+  });
+
+  it("finds unreachable questions and unrouted options", () => {
+    const questions = [
+      question("A", "RadioButton", { yes: "end", no: null }),
+      question("B", "TextInput"),
+    ];
+    const analysis = analyzeFlow(questions, ["A"]);
+    // "no" falls through to B, which ends the questionnaire as the last question
+    expect(analysis.pathCount).toBe(2);
+    expect(analysis.issues.some((i) => i.kind === "unroutedOption" && i.optionId === "A_no")).toBe(true);
+    expect(analyzeFlow([question("A", "RadioButton", { yes: "end" }), question("B", "TextInput")], ["A"])
+      .issues.some((i) => i.kind === "unreachable" && i.questionIds[0] === "B")).toBe(true);
+  });
+
+  it("flags a route to a missing question as a dead end", () => {
+    const analysis = analyzeFlow([question("A", "RadioButton", { go: "Z" })], ["A"]);
+    expect(analysis.issues.map((i) => i.kind)).toContain("deadEnd");
+  });
+});
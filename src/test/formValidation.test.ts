@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import type { ModuleConfigField } from "@/types/caseIr";
+import { compilePattern, fieldRuleProblems, requiredKeys, validateForm } from "@/lib/forms/validation";
+
+const field = (key: string, type: ModuleConfigField["type"], extra: Partial<ModuleConfigField> = {}): ModuleConfigField =>
+  ({ key, label: key, type, required: false, ...extra });
+
+describe("form validation", () => {
+  describe("pattern", () => {
+    it("matches the whole value", () => {
+      const fields = [field("code", "string", { pattern: "[A-Z]{2}[0-9]{3}" })];
+      expect(validateForm(fields, { code: "AB123" })).toEqual({});
+      expect(validateForm(fields, { code: "xAB123" }).code).toBe("code does not have the expected format");
+    });
+
+    it("accepts escapes that unicode mode rejects", () => {
+      const fields = [field("ref", "string", { pattern: "[A-Z\\-]+\\.\\d+" })];
+      expect(compilePattern("[A-Z\\-]+")).not.toBeNull();
+      expect(compilePattern("\\-x")).not.toBeNull();
+      expect(validateForm(fields, { ref: "AB-C.12" })).toEqual({});
+      expect(validateForm(fields, { ref: "AB-C12" }).ref).toBeDefined();
+    });
+
+    it("uses the custom message and reports invalid patterns to the designer", () => {
+      const fields = [field("zip", "string", { pattern: "\\d{5}", messages: { pattern: "Five digits" } })];
+      expect(validateForm(fields, { zip: "12" }).zip).toBe("Five digits");
+      const broken = field("x", "string", { pattern: "(" });
+      expect(compilePattern("(")).toBeNull();
+      expect(validateForm([broken], { x: "anything" })).toEqual({});
+      expect(fieldRuleProblems(broken, [broken])[0].message).toContain("invalid pattern");
+    });
+  });
+
+  describe("conditional requirement", () => {
+    const fields = [
+      field("country", "select", { options: ["US", "DE"] }),
+      field("ssn", "string", { requiredWhen: 'country = "US"', messages: { required: "SSN needed in the US" } }),
+    ];
+
+    it("requires the field only while the condition holds", () => {
+      expect(validateForm(fields, { country: "US" }).ssn).toBe("SSN needed in the US");
+      expect(validateForm(fields, { country: "DE" })).toEqual({});
+      expect(requiredKeys(fields, { country: "US" }).has("ssn")).toBe(true);
+      expect(requiredKeys(fields, {}).has("ssn")).toBe(false);
+    });
+
+    it("flags conditions on unknown fields", () => {
+      const f = field("a", "string", { requiredWhen: "missing = 1" });
+      expect(fieldRuleProblems(f, [f]).map((p) => p.severity)).toEqual(["warning"]);
+    });
+  });
+
+  describe("cross-field rules", () => {
+    const fields = [
+      field("start", "date"),
+      field("end", "date", { compare: [{ operator: ">", field: "start" }] }),
+    ];
+
+    it("compares dates", () => {
+      expect(validateForm(fields, { start: "2024-05-01", end: "2024-04-30" }).end).toBe("end must be after start");
+      expect(validateForm(fields, { start: "2024-05-01", end: "2024-05-02" })).toEqual({});
+    });
+
+    it("skips the rule while the other field is empty", () => {
+      expect(validateForm(fields, { end: "2024-04-30" })).toEqual({});
+    });
+
+    it("reports comparisons with missing fields", () => {
+      const f = field("a", "number", { compare: [{ operator: "<", field: "nope" }] });
+      expect(fieldRuleProblems(f, [f])[0].severity).toBe("error");
+    });
+  });
+
+  describe("unique within a repeatable group", () => {
+    const fields = [
+      field("people", "repeatable", {
+        uniqueFields: ["email"],
+        repeatableFields: [field("email", "email", { required: true })],
+      }),
+    ];
+
+    it("flags later rows repeating a value, ignoring case", () => {
+      const errors = validateForm(fields, { people: [{ email: "a@x.com" }, { email: "b@x.com" }, { email: "A@x.com " }] });
+      expect(Object.keys(errors)).toEqual(["people[2].email"]);
+      expect(errors["people[2].email"]).toContain("row 1");
+    });
+
+    it("validates the fields of each row", () => {
+      expect(validateForm(fields, { people: [{}] })).toEqual({ "people[0].email": "email is required" });
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import type { CaseIR, Step } from "@/types/caseIr";
+import { lintCaseIr } from "@/lib/linter/linter";
+import { BUILT_IN_RULES } from "@/lib/linter/rules";
+import type { LintOptions } from "@/lib/linter/types";
+
+/** A small case every built-in rule accepts; tests break one thing at a time */
+function fixture(): CaseIR {
+  return {
+    id: "case", name: "Claims", version: "1",
+    trigger: { type: "none" },
+    endEvent: { id: "end", eventType: "none" },
+    stages: [{
+      id: "s1", name: "Intake",
+      groups: [{
+        id: "g1", name: "Main",
+        steps: [
+          { id: "fetch", name: "Fetch claim", type: "automation", tech: { topic: "fetch-claim" } },
+          { id: "route", name: "Route", type: "decision", branches: [
+            { id: "big", label: "Big", condition: "${amount > 100}", targetStepId: "review" },
+            { id: "small", label: "Small", condition: "${default}", targetStepId: "end" },
+          ] },
+          { id: "review", name: "Review", type: "user", formRef: { formId: "claim-form" }, personaIds: ["adjuster"] },
+          { id: "checks", name: "Checks", type: "parallel", branches: [
+            { id: "a", label: "A", steps: [{ id: "a1", name: "A1", type: "automation", tech: { topic: "a" } }] },
+            { id: "b", label: "B", steps: [{ id: "b1", name: "B1", type: "automation", tech: { topic: "b" } }] },
+          ] },
+          { id: "cool", name: "Cool off", type: "intermediateEvent", eventSubType: "timer", timerExpression: "PT1H" },
+        ],
+      }],
+    }],
+    personas: [{ id: "adjuster", name: "Adjuster", role: "adjuster", permissions: [] }],
+    dataModel: [{ id: "d1", name: "amount", dataType: "number", required: true }],
+    formTemplates: [{
+      id: "claim-form", name: "Claim",
+      fields: [{ key: "code", label: "Code", type: "string", required: true, pattern: "[A-Z]{2}\\d{4}" }],
+    }],
+    metadata: { createdAt: "2026-10-01T00:00:00Z", updatedAt: "2026-10-01T00:00:00Z" },
+  };
+}
+
+function step<T extends Step["type"]>(ir: CaseIR, id: string): Extract<Step, { type: T }> {
+  const found = ir.stages[0].groups[0].steps.find((s) => s.id === id);
+  if (!found) throw new Error(`no step ${id}`);
+  return found as Extract<Step, { type: T }>;
+}
+
+function lint(ir: CaseIR, ruleId: string, options: LintOptions = {}) {
+  const rule = BUILT_IN_RULES.find((r) => r.id === ruleId);
+  if (!rule) throw new Error(`no rule ${ruleId}`);
+  return lintCaseIr(ir, [rule], options);
+}
+
+describe("lintCaseIr", () => {
+  it("finds nothing in the clean fixture", () => {
+    expect(lintCaseIr(fixture())).toEqual([]);
+  });
+
+  it("orders issues by severity and reports a failing rule instead of throwing", () => {
+    const ir = fixture();
+    ir.stages.push({ id: "s2", name: "Empty", groups: [{ id: "g2", name: "Main", steps: [] }] });
+    step<"automation">(ir, "fetch").tech = {};
+    const broken = { id: "broken", description: "", check: () => { throw new Error("boom"); } };
+    const issues = lintCaseIr(ir, [...BUILT_IN_RULES, broken]);
+    expect(issues.map((i) => i.severity)).toEqual(["warning", "info", "info"]);
+    expect(issues).toContainEqual(expect.objectContaining({ ruleId: "broken", message: "Rule failed: boom" }));
+  });
+});
+
+describe("built-in rules", () => {
+  it("decision-branch-target flags missing targets", () => {
+    const ir = fixture();
+    step<"decision">(ir, "route").branches[0].targetStepId = "gone";
+    expect(lint(ir, "decision-branch-target")).toEqual([expect.objectContaining({
+      severity: "error", path: "/stages/0/groups/0/steps/1/branches/0/targetStepId",
+      target: { kind: "step", stageId: "s1", groupId: "g1", stepId: "route" },
+    })]);
+    expect(lint(fixture(), "decision-branch-target")).toEqual([]);
+  });
+
+  it("decision-branch-target warns about jumps into a nested scope", () => {
+    const ir = fixture();
+    step<"decision">(ir, "route").branches[0].targetStepId = "a1";
+    expect(lint(ir, "decision-branch-target")).toEqual([expect.objectContaining({ severity: "warning" })]);
+  });
+
+  it("gateway-default-branch flags decisions without a default", () => {
+    const ir = fixture();
+    step<"decision">(ir, "route").branches[1].condition = "${amount <= 100}";
+    expect(lint(ir, "gateway-default-branch")).toEqual([expect.objectContaining({ severity: "warning", path: "/stages/0/groups/0/steps/1" })]);
+    expect(lint(fixture(), "gateway-default-branch")).toEqual([]);
+  });
+
+  it("gateway-branches flags splits with one branch", () => {
+    const ir = fixture();
+    step<"parallel">(ir, "checks").branches.pop();
+    expect(lint(ir, "gateway-branches")).toEqual([expect.objectContaining({ message: '"Checks" has 1 branch(es); a split needs at least two' })]);
+    expect(lint(fixture(), "gateway-branches")).toEqual([]);
+  });
+
+  it("duplicate-id flags ids used twice, also in nested steps", () => {
+    const ir = fixture();
+    step<"parallel">(ir, "checks").branches[1].steps[0].id = "fetch";
+    expect(lint(ir, "duplicate-id")).toEqual([expect.objectContaining({
+      message: 'Duplicate id "fetch" (first used at /stages/0/groups/0/steps/0)',
+      path: "/stages/0/groups/0/steps/3/branches/1/steps/0/id",
+    })]);
+    expect(lint(fixture(), "duplicate-id")).toEqual([]);
+  });
+
+  it("automation-topic flags automation steps no worker picks up", () => {
+    const ir = fixture();
+    step<"automation">(ir, "fetch").tech = {};
+    expect(lint(ir, "automation-topic")).toEqual([expect.objectContaining({ path: "/stages/0/groups/0/steps/0/tech/topic" })]);
+    step<"automation">(ir, "fetch").tech = { implementationType: "delegateExpression", delegateExpression: "${fetcher}" };
+    expect(lint(ir, "automation-topic")).toEqual([]);
+  });
+
+  it("form-ref flags missing templates but accepts questionnaire bindings", () => {
+    const ir = fixture();
+    step<"user">(ir, "review").formRef = { formId: "other-form" };
+    expect(lint(ir, "form-ref")).toEqual([expect.objectContaining({ severity: "error", path: "/stages/0/groups/0/steps/2/formRef/formId" })]);
+    step<"user">(ir, "review").formRef = { formId: "questionnaire:intake" };
+    expect(lint(ir, "form-ref")).toEqual([]);
+  });
+
+  it("form-field-rules flags broken rules once per template", () => {
+    const ir = fixture();
+    ir.formTemplates![0].fields[0].pattern = "[A-Z";
+    ir.stages[0].groups[0].steps.push({ id: "review2", name: "Second review", type: "user", formRef: { formId: "claim-form" } });
+    expect(lint(ir, "form-field-rules")).toEqual([expect.objectContaining({ severity: "error", path: "/formTemplates/0/fields/0" })]);
+    expect(lint(fixture(), "form-field-rules")).toEqual([]);
+  });
+
+  it("form-field-rules reports step overrides at the override", () => {
+    const ir = fixture();
+    step<"user">(ir, "review").formRef = { formId: "claim-form", fieldOverrides: { code: { compare: [{ operator: ">", field: "nope" }] } } };
+    expect(lint(ir, "form-field-rules")).toEqual([expect.objectContaining({ path: "/stages/0/groups/0/steps/2/formRef/fieldOverrides/code" })]);
+  });
+
+  it("persona-ref flags unknown personas", () => {
+    const ir = fixture();
+    step<"user">(ir, "review").personaIds = ["adjuster", "ghost"];
+    expect(lint(ir, "persona-ref")).toEqual([expect.objectContaining({ path: "/stages/0/groups/0/steps/2/personaIds/1" })]);
+    expect(lint(fixture(), "persona-ref")).toEqual([]);
+  });
+
+  it("required-expression flags empty timers and event handler triggers", () => {
+    const ir = fixture();
+    step<"intermediateEvent">(ir, "cool").timerExpression = " ";
+    ir.eventSubProcesses = [{ id: "esp", name: "On cancel", triggerType: "message", steps: [] }];
+    expect(lint(ir, "required-expression").map((i) => i.path)).toEqual([
+      "/stages/0/groups/0/steps/4/timerExpression",
+      "/eventSubProcesses/0/expression",
+    ]);
+    expect(lint(fixture(), "required-expression")).toEqual([]);
+  });
+
+  it("timer-schedule flags invalid and too frequent timers", () => {
+    const ir = fixture();
+    step<"intermediateEvent">(ir, "cool").timerExpression = "tomorrow";
+    ir.trigger = { type: "timer", expression: "R/PT10S" };
+    const issues = lint(ir, "timer-schedule");
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: "error", path: "/stages/0/groups/0/steps/4/timerExpression" }),
+      expect.objectContaining({ severity: "warning", path: "/trigger/expression", target: { kind: "trigger" } }),
+    ]);
+    expect(lint(fixture(), "timer-schedule")).toEqual([]);
+  });
+
+  it("timer-schedule selects the boundary event of a timer on a step", () => {
+    const ir = fixture();
+    step<"user">(ir, "review").boundaryEvents = [{ id: "late", name: "Late", eventType: "timer", expression: "0 9 * * *" }];
+    expect(lint(ir, "timer-schedule")).toEqual([expect.objectContaining({
+      target: { kind: "boundaryEvent", stageId: "s1", groupId: "g1", stepId: "review", boundaryEventId: "late" },
+    })]);
+  });
+
+  it("calendar-timer warns that calendar durations run in wall-clock time without the bean", () => {
+    const ir = fixture();
+    Object.assign(step<"intermediateEvent">(ir, "cool"), { calendarRef: "standard", timerExpression: "2 business days" });
+    Object.assign(step<"user">(ir, "review"), { calendarRef: "standard", tech: { dueDate: "P3D" }, sla: { target: "PT8H" } });
+    ir.stages[0].sla = { target: "P5D", calendarRef: "standard" };
+    expect(lint(ir, "calendar-timer").map((i) => [i.path, i.message])).toEqual([
+      ["/stages/0/groups/0/steps/2/calendarRef", '"Review" counts its due date and SLA in calendar "standard", but the engine has no businessCalendar bean; it exports as a plain ISO duration in wall-clock time'],
+      ["/stages/0/groups/0/steps/4/calendarRef", '"Cool off" counts its timer in calendar "standard", but the engine has no businessCalendar bean; it exports as a plain ISO duration in wall-clock time'],
+      ["/stages/0/sla/calendarRef", '"Intake" counts its SLA in calendar "standard", but the engine has no businessCalendar bean; it exports as a plain ISO duration in wall-clock time'],
+    ]);
+    expect(lint(ir, "calendar-timer", { calendarBean: true })).toEqual([]);
+  });
+
+  it("calendar-timer flags calendar keys that cannot be exported", () => {
+    const ir = fixture();
+    Object.assign(step<"intermediateEvent">(ir, "cool"), { calendarRef: 'x", "y' });
+    expect(lint(ir, "calendar-timer", { calendarBean: true }).map((i) => i.message)).toEqual([
+      '"Cool off" counts its timer in calendar "x", "y", which is not a valid calendar key; it exports as a plain ISO duration in wall-clock time',
+    ]);
+  });
+
+  it("empty-container flags stages and loops without steps", () => {
+    const ir = fixture();
+    ir.stages[0].groups[0].steps.push({ id: "loop", name: "Each item", type: "foreach", collectionExpression: "${items}", elementVariable: "item", steps: [] });
+    ir.alternativePaths = [{ id: "alt", name: "Fallback", groups: [] }];
+    expect(lint(ir, "empty-container").map((i) => i.path)).toEqual(["/alternativePaths/0/groups", "/stages/0/groups/0/steps/5/steps"]);
+    expect(lint(fixture(), "empty-container")).toEqual([]);
+  });
+
+  it("variable-flow flags variables nothing sets", () => {
+    const ir = fixture();
+    ir.dataModel = [];
+    expect(lint(ir, "variable-flow")).toEqual([expect.objectContaining({
+      severity: "error", target: { kind: "step", stageId: "s1", groupId: "g1", stepId: "route" },
+    })]);
+    expect(lint(fixture(), "variable-flow")).toEqual([]);
+  });
+});
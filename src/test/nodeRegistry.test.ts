@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AUTOMATION_NODES, type AutomationNodeDef } from "@/components/studio/automationNodes";
+import { dataFlowNodeResolver, getNodeDef, getNodeUpgrade, getPinnedNodeDef, latestNodeDefs, useNodeRegistry } from "@/stores/nodeRegistryStore";
+
+/** Rows the mocked automation_node_versions table returns */
+const table = vi.hoisted(() => ({ rows: [] as unknown[], error: null as { message: string } | null }));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    from: () => ({ select: async () => ({ data: table.rows, error: table.error }) }),
+  },
+}));
+
+const fetcher = AUTOMATION_NODES.find((n) => n.id === "email-fetcher")!;
+
+/** An automation_node_versions row publishing `def` as `nodeId@version` */
+function row(nodeId: string, version: string, def: Partial<AutomationNodeDef> = {}) {
+  const { id: _id, version: _version, ...definition } = { ...fetcher, ...def };
+  return { node_id: nodeId, version, definition, changelog: `Release ${version}`, published_by: "u1", created_at: "2026-10-01T00:00:00Z" };
+}
+
+async function load(rows: unknown[]) {
+  table.rows = rows;
+  await useNodeRegistry.getState().load();
+  return useNodeRegistry.getState();
+}
+
+describe("node registry", () => {
+  beforeEach(() => {
+    table.error = null;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("adds published versions newest first after the built-ins", async () => {
+    const state = await load([row("email-fetcher", "1.2.0", { topic: "fetch-v12" }), row("email-fetcher", "1.10.0", { topic: "fetch-v110" })]);
+    expect(state.status).toBe("ready");
+    expect(state.versions["email-fetcher"].map((r) => [r.def.version, r.source])).toEqual([
+      ["1.10.0", "published"], ["1.2.0", "published"], ["1.0.0", "built-in"],
+    ]);
+    expect(getNodeDef("email-fetcher")?.topic).toBe("fetch-v110");
+    expect(getNodeDef("email-fetcher", "1.2.0")?.topic).toBe("fetch-v12");
+    expect(latestNodeDefs(state.versions).find((d) => d.id === "email-fetcher")?.version).toBe("1.10.0");
+  });
+
+  it("never lets a published row shadow a built-in version", async () => {
+    const state = await load([row("email-fetcher", "1.0.0", { topic: "hijacked" }), row("email-fetcher", "1.1.0")]);
+    expect(state.versions["email-fetcher"].map((r) => r.def.version)).toEqual(["1.1.0", "1.0.0"]);
+    expect(getNodeDef("email-fetcher", "1.0.0")).toBe(fetcher);
+    expect(console.error).toHaveBeenCalledWith("Skipping node email-fetcher@1.0.0: a built-in node has this version");
+  });
+
+  it("skips rows with invalid definitions", async () => {
+    const state = await load([row("email-fetcher", "2.0.0", { topic: "" }), row("Bad Id", "1.0.0")]);
+    expect(state.versions["email-fetcher"].map((r) => r.def.version)).toEqual(["1.0.0"]);
+    expect(state.versions["Bad Id"]).toBeUndefined();
+  });
+
+  it("registers new nodes with presentation defaults filled in", async () => {
+    await load([row("sftp-upload", "1.0.0", { name: "SFTP upload", icon: "", configFields: [], outputs: undefined })]);
+    const def = getNodeDef("sftp-upload")!;
+    expect(def.icon).toBe("Puzzle");
+    expect(def.configFields.map((f) => f.key)).toEqual(Object.keys(fetcher.inputSchema.properties));
+    expect(def.outputs.map((o) => o.name)).toEqual(Object.keys(fetcher.outputSchema.properties));
+  });
+
+  it("keeps the nodes it has when loading fails", async () => {
+    const before = (await load([])).versions;
+    table.error = { message: "offline" };
+    const state = await load([row("email-fetcher", "1.1.0")]);
+    expect(state.status).toBe("error");
+    expect(state.versions).toBe(before);
+    expect(latestNodeDefs(state.versions).map((d) => d.id)).toEqual(AUTOMATION_NODES.map((d) => d.id));
+  });
+
+  it("resolves step pins and offers newer versions", async () => {
+    await load([row("email-fetcher", "1.1.0", { topic: "fetch-v11" })]);
+    // Steps from before versioning are pinned to the first version
+    expect(getPinnedNodeDef({ moduleId: "email-fetcher" })?.version).toBe("1.0.0");
+    expect(getNodeUpgrade({ moduleId: "email-fetcher" })?.version).toBe("1.1.0");
+    expect(getNodeUpgrade({ moduleId: "email-fetcher", version: "1.1.0" })).toBeUndefined();
+    expect(getPinnedNodeDef({ moduleId: "email-fetcher", version: "9.9.9" })).toBeUndefined();
+  });
+
+  it("gives the data-flow analysis the pinned version's variable types", async () => {
+    const state = await load([]);
+    const node = dataFlowNodeResolver(state.versions)({ moduleId: "email-fetcher", instanceConfig: {} });
+    expect(node).toMatchObject({ name: "Email Fetcher", defaultOutputVariable: "emailFetcherResult" });
+    expect(node?.inputs.maxEmails).toBe("number");
+    expect(node?.outputs.emails).toBe("array");
+  });
+});
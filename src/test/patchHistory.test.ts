@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import type { CaseIR, JsonPatch } from "@/types/caseIr";
+import { EMPTY_HISTORY, recordPatch, revertEntry, redo, undo, type PatchHistory } from "@/lib/history/patchHistory";
+import { applyCaseIRPatchWithInverse } from "@/lib/patchUtils";
+import { automation, stage, twoStageCase, stepIds } from "./fixtures";
+
+/** Records patches one after another, as the Studio does for separate edits */
+function edit(start: CaseIR, ...patches: JsonPatch[]) {
+  let caseIr = start;
+  let history: PatchHistory = EMPTY_HISTORY;
+  for (const patch of patches) ({ caseIr, history } = recordPatch(history, caseIr, patch));
+  return { caseIr, history };
+}
+
+describe("applyCaseIRPatchWithInverse", () => {
+  it("addresses elements in the inverse by id", () => {
+    const { inverse } = applyCaseIRPatchWithInverse(twoStageCase(), [{ op: "replace", path: "/stages/1/groups/0/steps/0/name", value: "Review" }]);
+    expect(inverse).toEqual([
+      { op: "test", path: "/stages[id=s2]/groups[id=s2_g]/steps[id=d]/name", value: "Review" },
+      { op: "replace", path: "/stages[id=s2]/groups[id=s2_g]/steps[id=d]/name", value: "D" },
+    ]);
+  });
+
+  it("guards a re-add with the identity of the list's owner", () => {
+    const { inverse } = applyCaseIRPatchWithInverse(twoStageCase(), [{ op: "remove", path: "/stages/0/groups/0/steps/1" }]);
+    expect(inverse).toEqual([
+      { op: "test", path: "/stages[id=s1]/groups[id=s1_g]/id", value: "s1_g" },
+      { op: "add", path: "/stages[id=s1]/groups[id=s1_g]/steps/1", value: automation("b") },
+    ]);
+  });
+});
+
+describe("revertEntry", () => {
+  it("re-adds a removed step to its own stage after the stages were reordered", () => {
+    const { caseIr, history } = edit(twoStageCase(),
+      [{ op: "remove", path: "/stages/0/groups/0/steps/1" }],
+      [{ op: "move", from: "/stages/1", path: "/stages/0" }],
+    );
+    const reverted = revertEntry(history, caseIr, history.past[0].id);
+    expect(reverted.caseIr.stages.map((s) => s.id)).toEqual(["s2", "s1"]);
+    expect(stepIds(reverted.caseIr, "s1")).toEqual(["a", "b", "c"]);
+    expect(stepIds(reverted.caseIr, "s2")).toEqual(["d"]);
+  });
+
+  it("reverts a rename after a stage was inserted in front", () => {
+    const { caseIr, history } = edit(twoStageCase(),
+      [{ op: "replace", path: "/stages/1/name", value: "Review" }],
+      [{ op: "add", path: "/stages/0", value: stage("s0", []) }],
+    );
+    const reverted = revertEntry(history, caseIr, history.past[0].id);
+    expect(reverted.caseIr.stages.map((s) => [s.id, s.name])).toEqual([["s0", "S0"], ["s1", "S1"], ["s2", "S2"]]);
+  });
+
+  it("removes an added step after an earlier sibling was deleted", () => {
+    const { caseIr, history } = edit(twoStageCase(),
+      [{ op: "add", path: "/stages/0/groups/0/steps/2", value: automation("x") }],
+      [{ op: "remove", path: "/stages/0/groups/0/steps/0" }],
+    );
+    const reverted = revertEntry(history, caseIr, history.past[0].id);
+    expect(stepIds(reverted.caseIr, "s1")).toEqual(["b", "c"]);
+    expect(reverted.history.past[0].revertedBy).toBe(reverted.history.past[2].id);
+  });
+
+  it("keeps the revert undoable", () => {
+    const { caseIr, history } = edit(twoStageCase(), [{ op: "replace", path: "/stages/0/name", value: "Intake" }], [{ op: "replace", path: "/name", value: "Cases" }]);
+    const reverted = revertEntry(history, caseIr, history.past[0].id);
+    const undone = undo(reverted.history, reverted.caseIr)!;
+    expect(undone.caseIr.stages[0].name).toBe("Intake");
+    expect(undone.caseIr.name).toBe("Cases");
+    expect(undone.history.past[0].revertedBy).toBeUndefined();
+  });
+
+  it("refuses with a short message when a later edit changed the same field", () => {
+    const { caseIr, history } = edit(twoStageCase(),
+      [{ op: "replace", path: "/stages/0/name", value: "Intake" }],
+      [{ op: "replace", path: "/stages/0/name", value: "Triage" }],
+    );
+    expect(() => revertEntry(history, caseIr, history.past[0].id))
+      .toThrow(new Error('Cannot revert "Renamed stage" — later edits changed the same elements'));
+  });
+
+  it("refuses with a short message when a later edit deleted the element", () => {
+    const { caseIr, history } = edit(twoStageCase(),
+      [{ op: "replace", path: "/stages/0/groups/0/steps/1/name", value: "Score" }],
+      [{ op: "remove", path: "/stages/0" }],
+    );
+    expect(() => revertEntry(history, caseIr, history.past[0].id))
+      .toThrow(new Error('Cannot revert "Renamed step" — later edits removed an element it changed'));
+  });
+});
+
+describe("recordPatch", () => {
+  it("stores the patch with element-ID paths", () => {
+    const { history } = edit(twoStageCase(), [{ op: "replace", path: "/stages/0/groups/0/steps/2/name", value: "Decide" }]);
+    expect(history.past[0].patch).toEqual([{ op: "replace", path: "/stages[id=s1]/groups[id=s1_g]/steps[id=c]/name", value: "Decide" }]);
+    expect(history.past[0].label).toBe("Renamed step");
+  });
+});
+
+describe("undo and redo", () => {
+  it("redo finds its element after the stages were reordered", () => {
+    const { caseIr, history } = edit(twoStageCase(), [{ op: "replace", path: "/stages/1/name", value: "Review" }]);
+    const undone = undo(history, caseIr)!;
+    const reordered = { ...undone.caseIr, stages: [...undone.caseIr.stages].reverse() };
+    const redone = redo(undone.history, reordered)!;
+    expect(redone.caseIr.stages.map((s) => s.name)).toEqual(["Review", "S1"]);
+  });
+
+  it("round-trip a move", () => {
+    const start = twoStageCase();
+    const { caseIr, history } = edit(start, [{ op: "move", from: "/stages/0/groups/0/steps/0", path: "/stages/1/groups/0/steps/1" }]);
+    expect(stepIds(caseIr, "s2")).toEqual(["d", "a"]);
+    const undone = undo(history, caseIr)!;
+    expect(undone.caseIr).toEqual(start);
+    expect(redo(undone.history, undone.caseIr)!.caseIr).toEqual(caseIr);
+  });
+});
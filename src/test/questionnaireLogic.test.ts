@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import type { Question, QuestionType } from "@/types/questionnaire";
+import { answerValue, evaluateLogic, formatLogicValue, logicValidationIssues, ruleProblems } from "@/lib/questionnaire/logic";
+
+function question(id: string, type: QuestionType, extra: Partial<Question> = {}): Question {
+  return {
+    _id: id, questionId: id, content: `Question ${id}`, contentAbstract: "", questionType: type, mandatory: "False", options: [],
+    category: "Claim", subcategory: "", accessRoles: "", tags: [], default: "", language: "en", region: "", status: "",
+    ...extra,
+  };
+}
+
+/** Q005 only shows for a "Yes" to Q002 with an amount over 10 000; Q006 and Q007 are computed */
+const claim = () => [
+  question("Q002", "RadioButton"),
+  question("Q004", "NumberInput"),
+  question("Q005", "NumberInput", { visibleWhen: 'Q002 = "Yes" and Q004 > 10000' }),
+  question("Q006", "NumberInput", { computedValue: "Q004 * 12" }),
+  question("Q007", "NumberInput", { computedValue: "Q006 + (if Q005 = null then 0 else Q005)" }),
+];
+
+describe("evaluateLogic", () => {
+  it("shows a question only when every answer its condition reads agrees", () => {
+    const hiddenFor = (answers: Record<string, string>) => [...evaluateLogic(claim(), answers).hidden];
+    expect(hiddenFor({ Q002: "Yes", Q004: "25000" })).toEqual([]);
+    expect(hiddenFor({ Q002: "No", Q004: "25000" })).toEqual(["Q005"]);
+    expect(hiddenFor({ Q002: "Yes", Q004: "9000" })).toEqual(["Q005"]);
+    // Unanswered questions are null, so the comparison is not true
+    expect(hiddenFor({ Q002: "Yes" })).toEqual(["Q005"]);
+  });
+
+  it("chains computed values through earlier computed values", () => {
+    const { values, errors } = evaluateLogic(claim(), { Q002: "Yes", Q004: "25000", Q005: "500" });
+    expect(values).toEqual({ Q002: "Yes", Q004: 25000, Q005: 500, Q006: 300000, Q007: 300500 });
+    expect(errors).toEqual({});
+  });
+
+  it("drops the answers of hidden questions", () => {
+    const { values, hidden } = evaluateLogic(claim(), { Q002: "No", Q004: "25000", Q005: "500" });
+    expect(hidden.has("Q005")).toBe(true);
+    expect(values.Q005).toBeNull();
+    expect(values.Q007).toBe(300000);
+  });
+
+  it("computes nothing for a hidden computed question", () => {
+    const questions = [question("Q001", "NumberInput"), question("Q002", "NumberInput", { visibleWhen: "Q001 > 0", computedValue: "Q001 * 2" })];
+    expect(evaluateLogic(questions, { Q001: "0" }).values).toEqual({ Q001: 0, Q002: null });
+    expect(evaluateLogic(questions, { Q001: "3" }).values).toEqual({ Q001: 3, Q002: 6 });
+  });
+
+  it("reads multi-select answers as lists", () => {
+    const questions = [
+      question("Q001", "MultiSelect"),
+      question("Q002", "TextInput", { visibleWhen: 'list contains(Q001, "Theft")' }),
+    ];
+    expect(evaluateLogic(questions, { Q001: ["Fire", "Theft"] }).hidden.size).toBe(0);
+    expect(evaluateLogic(questions, { Q001: ["Fire"] }).hidden).toEqual(new Set(["Q002"]));
+  });
+
+  it("keeps a question visible and reports the rule when a condition fails", () => {
+    const questions = [
+      question("Q001", "NumberInput"),
+      question("Q002", "NumberInput", { visibleWhen: "Q001 >" }),
+      question("Q003", "NumberInput", { computedValue: "Q001 / " }),
+    ];
+    const { hidden, values, errors } = evaluateLogic(questions, { Q001: "1", Q002: "2" });
+    expect(hidden.size).toBe(0);
+    expect(values).toEqual({ Q001: 1, Q002: 2, Q003: null });
+    expect(errors.Q002).toMatch(/^Show when: /);
+    expect(errors.Q003).toMatch(/^Computed value: /);
+  });
+});
+
+describe("answers and computed values", () => {
+  it("turns raw answers into FEEL values", () => {
+    expect(answerValue({ questionType: "NumberInput" }, "12.5")).toBe(12.5);
+    expect(answerValue({ questionType: "NumberInput" }, "twelve")).toBeNull();
+    expect(answerValue({ questionType: "TextInput" }, "  ")).toBeNull();
+    expect(answerValue({ questionType: "DatePicker" }, "2026-10-18")).toBe("2026-10-18");
+    expect(answerValue({ questionType: "TextInput" }, undefined)).toBeNull();
+  });
+
+  it("formats computed values for the preview", () => {
+    expect(formatLogicValue(null)).toBe("");
+    expect(formatLogicValue(["Fire", 2])).toBe("Fire, 2");
+    expect(formatLogicValue(new Date("2026-10-18T00:00:00Z"))).toBe("2026-10-18");
+    expect(formatLogicValue({ a: 1 })).toBe('{"a":1}');
+  });
+});
+
+describe("ruleProblems", () => {
+  it("accepts rules over earlier questions", () => {
+    expect(ruleProblems(claim(), 2, 'Q002 = "Yes" and Q004 > 10000')).toEqual([]);
+  });
+
+  it("flags references to the question itself, later questions and unknown names", () => {
+    expect(ruleProblems(claim(), 2, "Q005 > 1 or Q006 > 1 or Q099 > 1")).toEqual([
+      { severity: "error", message: 'Refers to its own question "Q005"' },
+      { severity: "error", message: '"Q006" comes later in the questionnaire – only earlier answers are known' },
+      { severity: "warning", message: '"Q099" is not a question ID' },
+    ]);
+  });
+
+  it("reports every rule of every question for the validation report", () => {
+    const questions = [question("Q001", "NumberInput", { computedValue: "Q002 + 1" }), question("Q002", "NumberInput")];
+    expect(logicValidationIssues(questions)).toEqual([
+      { type: "error", message: 'Computed value of "Q001": "Q002" comes later in the questionnaire – only earlier answers are known', questionId: "Q001" },
+    ]);
+  });
+});
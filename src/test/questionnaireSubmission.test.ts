@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertNotSubmitted, checkTask, HttpError, submissionInsertError, validateSubmission,
+  type EngineTask, type FillDocument, type FillQuestion, type TaskLookup,
+} from "@/lib/questionnaire/submission";
+
+function question(id: string, questionType: string, extra: Partial<FillQuestion> = {}): FillQuestion {
+  return { questionId: id, content: `Question ${id}`, questionType, mandatory: "True", options: [], ...extra };
+}
+
+/** Q1 asks for a claim type: "Car" goes on to Q2, "Home" to Q3, which ends the questionnaire; Q4 only shows for amounts over 1000 */
+function claim(): FillDocument {
+  return {
+    flow: {
+      flowId: "claim-intake",
+      firstQuestions: ["Q1"],
+      path: [{
+        id: "Q1",
+        options: [
+          { id: "car", next: [{ id: "Q2", nextEntityType: "question" }] },
+          { id: "home", next: [{ id: "Q3", nextEntityType: "question" }] },
+        ],
+      }, {
+        id: "Q3",
+        options: [{ id: "owner", next: [{ id: "end", nextEntityType: "end" }] }],
+      }],
+    },
+    questions: [
+      question("Q1", "RadioButton", { options: [{ id: "car", display: "Car" }, { id: "home", display: "Home" }] }),
+      question("Q3", "RadioButton", { content: "Occupancy", options: [{ id: "owner", display: "Owner" }] }),
+      question("Q2", "NumberInput", { content: "Amount" }),
+      question("Q4", "TextInput", { content: "Receipt number", visibleWhen: "Q2 > 1000" }),
+      question("Q5", "NumberInput", { content: "Yearly", computedValue: "Q2 * 12" }),
+    ],
+  };
+}
+
+const messages = (result: ReturnType<typeof validateSubmission>) => result.problems.map((p) => `${p.questionId ?? "-"}: ${p.message}`);
+
+describe("validateSubmission", () => {
+  it("accepts answers that follow the branches and recomputes computed values", () => {
+    const result = validateSubmission(claim(), { Q1: "Car", Q2: "1500", Q4: "R-1", Q5: "1" }, ["Q1", "Q2", "Q4", "Q5"]);
+    expect(result).toEqual({ problems: [], answers: { Q1: "Car", Q2: "1500", Q4: "R-1", Q5: "18000" } });
+  });
+
+  it("requires mandatory answers on the path", () => {
+    const result = validateSubmission(claim(), { Q1: "Car", Q2: " " }, ["Q1", "Q2", "Q5"]);
+    // Q4 is hidden while there is no amount, so it is not asked and cannot be missing
+    expect(messages(result)).toEqual(['Q2: "Amount" is required']);
+  });
+
+  it("does not require file uploads, which this API does not store", () => {
+    const doc = { ...claim(), questions: [question("Q1", "FileUpload")] };
+    expect(validateSubmission(doc, {}, ["Q1"]).problems).toEqual([]);
+  });
+
+  it("rejects a path that leaves the branch the answers select", () => {
+    const result = validateSubmission(claim(), { Q1: "Car", Q3: "Owner" }, ["Q1", "Q3"]);
+    expect(messages(result)).toEqual([
+      'Q2: "Amount" was skipped, but the answers lead to it',
+      'Q5: "Yearly" was skipped, but the answers lead to it',
+      'Q3: "Occupancy" is not on the route the answers take',
+    ]);
+    expect(validateSubmission(claim(), { Q1: "Home", Q3: "Owner" }, ["Q1", "Q3"]).problems).toEqual([]);
+  });
+
+  it("rejects answers to hidden questions", () => {
+    const result = validateSubmission(claim(), { Q1: "Car", Q2: "200", Q4: "R-1" }, ["Q1", "Q2", "Q4", "Q5"]);
+    expect(messages(result)).toEqual(['Q4: "Receipt number" is hidden by its show-when condition']);
+    expect(result.answers).toEqual({ Q1: "Car", Q2: "200", Q5: "2400" });
+  });
+
+  it("checks answers against the question type", () => {
+    const result = validateSubmission(claim(), { Q1: ["Car", "Home"], Q2: "lots" }, ["Q1", "Q2", "Q5"]);
+    expect(messages(result)).toContain('Q1: "Question Q1" takes a single option');
+    expect(messages(result)).toContain('Q2: "Amount" must be a number');
+    expect(messages(validateSubmission(claim(), { Q1: "Boat" }, ["Q1", "Q2", "Q5"]))).toContain('Q1: "Boat" is not an option of "Question Q1"');
+  });
+
+  it("rejects unknown and repeated questions before anything else", () => {
+    expect(validateSubmission(claim(), { Q1: "Car" }, ["Q1", "Q9", "Q1"])).toEqual({
+      problems: [{ message: 'Unknown question "Q9"' }, { message: "A question appears on the path twice" }],
+      answers: {},
+    });
+  });
+});
+
+/** An engine that knows one task and which emails are its candidates */
+function engine(task: Partial<EngineTask> | null, candidates: string[] = []): TaskLookup {
+  return {
+    task: async (id) => (task ? { id, assignee: null, formKey: "questionnaire:claim-intake", suspended: false, ...task } : null),
+    isCandidate: async (_id, email) => candidates.includes(email),
+  };
+}
+
+async function refusal(promise: Promise<void>): Promise<[number, string] | null> {
+  try {
+    await promise;
+    return null;
+  } catch (e) {
+    if (!(e instanceof HttpError)) throw e;
+    return [e.status, e.message];
+  }
+}
+
+describe("checkTask", () => {
+  it("lets the assignee or, while unassigned, a candidate fill the task", async () => {
+    expect(await refusal(checkTask("t1", "claim-intake", "ann@example.com", engine({ assignee: "ann@example.com" })))).toBeNull();
+    expect(await refusal(checkTask("t1", "claim-intake", "bob@example.com", engine({}, ["bob@example.com"])))).toBeNull();
+  });
+
+  it("refuses everyone else", async () => {
+    expect(await refusal(checkTask("t1", "claim-intake", "bob@example.com", engine({ assignee: "ann@example.com" }, ["bob@example.com"]))))
+      .toEqual([403, "This task is assigned to someone else"]);
+    expect(await refusal(checkTask("t1", "claim-intake", "eve@example.com", engine({}, ["bob@example.com"]))))
+      .toEqual([403, "You are not a candidate for this task"]);
+    expect(await refusal(checkTask("t1", "claim-intake", null, engine({})))).toEqual([401, "Sign in to fill this task"]);
+  });
+
+  it("refuses tasks that are gone, suspended or bound to another questionnaire", async () => {
+    expect(await refusal(checkTask("t1", "claim-intake", "ann@example.com", engine(null)))).toEqual([404, "This task does not exist or is already completed"]);
+    expect(await refusal(checkTask("t1", "claim-intake", "ann@example.com", engine({ suspended: true })))).toEqual([409, "This task is suspended"]);
+    expect(await refusal(checkTask("t1", "claim-intake", "ann@example.com", engine({ formKey: "questionnaire:other" }))))
+      .toEqual([403, "This task is not filled with this questionnaire"]);
+    expect(await refusal(checkTask("t1", "claim-intake", "ann@example.com", null))).toEqual([503, "Tasks cannot be filled while no engine is configured"]);
+  });
+});
+
+describe("repeated submits", () => {
+  it("refuses answers for a response that was already submitted", () => {
+    expect(() => assertNotSubmitted({ status: "in_progress" })).not.toThrow();
+    expect(() => assertNotSubmitted(null)).not.toThrow();
+    expect(() => assertNotSubmitted({ status: "submitted" })).toThrow(new HttpError(409, "These answers were already submitted"));
+  });
+
+  it("answers a concurrent submit that lost the unique response_id with 409", () => {
+    expect(submissionInsertError({ code: "23505", message: "duplicate key value violates unique constraint" })).toMatchObject({
+      status: 409, message: "These answers were already submitted",
+    });
+    expect(submissionInsertError({ code: "42501", message: "permission denied" })).toMatchObject({ status: 500, message: "permission denied" });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import type { Step } from "@/types/caseIr";
+import type { FlowNode, Question, QuestionnaireDocument, QuestionType } from "@/types/questionnaire";
+import { questionnaireToCaseIr } from "@/lib/questionnaire/toCaseIr";
+import { runSimulation, startSimulation } from "@/lib/simulator/engine";
+
+const START = new Date("2026-10-05T08:00:00Z");
+
+function question(id: string, type: QuestionType, options: string[] = [], extra: Partial<Question> = {}): Question {
+  return {
+    _id: id, questionId: id, content: `Question ${id}`, contentAbstract: "", questionType: type, mandatory: "True",
+    options: options.map((display) => ({ id: `${id}_${display}`, display })),
+    category: "Claim", subcategory: "", accessRoles: "", tags: [], default: "", language: "en", region: "", status: "",
+    ...extra,
+  };
+}
+
+/** Routes per question: option display → next question id, "end" or "sub:<process key>" */
+function doc(questions: Question[], routes: Record<string, Record<string, string>> = {}): QuestionnaireDocument {
+  const path: FlowNode[] = Object.entries(routes).map(([qid, byOption]) => ({
+    id: qid,
+    options: Object.entries(byOption).map(([display, to]) => ({
+      id: `${qid}_${display}`,
+      next: [to === "end"
+        ? { id: "end", nextEntityType: "end" as const }
+        : to.startsWith("sub:")
+          ? { id: to.slice(4), nextEntityType: "subprocess" as const }
+          : { id: to, nextEntityType: "question" as const }],
+    })),
+  }));
+  return {
+    flow: {
+      _id: "f1", flowId: "claim-intake", flowName: "Claim intake", status: "Draft", flowAbstract: "", accessRoles: "",
+      category: "", subCategory: "", tags: [], path, firstQuestions: [questions[0].questionId], links: [], nodes: [],
+      version: 1, createTime: "", updateTime: "",
+    },
+    questions,
+  };
+}
+
+const steps = (ir: { stages: Array<{ groups: Array<{ steps: Step[] }> }> }) => ir.stages.flatMap((s) => s.groups.flatMap((g) => g.steps));
+
+/** User steps the token passes through, as question ids */
+function asked(ir: ReturnType<typeof questionnaireToCaseIr>["caseIr"], answers: Record<string, unknown>): string[] {
+  const state = runSimulation(ir, startSimulation(ir, answers, START));
+  expect(state.status).toBe("completed");
+  return state.trace.filter((t) => t.stepId?.startsWith("step_") && t.kind !== "warning").map((t) => t.stepId!.slice("step_".length));
+}
+
+describe("questionnaireToCaseIr", () => {
+  const intake = doc([
+    question("Q1", "RadioButton", ["yes", "no"]),
+    question("Q2", "TextInput"),
+    question("Q3", "NumberInput", [], { category: "Payment" }),
+  ], { Q1: { yes: "Q3", no: "end" } });
+
+  it("makes a user step with a one-field form per question and a decision after routed options", () => {
+    const { caseIr, warnings } = questionnaireToCaseIr(intake);
+    expect(warnings).toEqual([]);
+    expect(caseIr.id).toBe("claim-intake");
+    expect(steps(caseIr).map((s) => s.id)).toEqual(["step_Q1", "dec_Q1", "step_Q2", "step_Q3"]);
+    const decision = steps(caseIr)[1];
+    if (decision.type !== "decision") throw new Error(`expected a decision, got ${decision.type}`);
+    expect(decision.branches.map((b) => [b.condition, b.targetStepId])).toEqual([
+      ["${Q1 == 'yes'}", "step_Q3"],
+      ["${Q1 == 'no'}", "end_claim-intake"],
+      ["${default}", undefined],
+    ]);
+    expect(decision.defaultBranchId).toBe("br_Q1_default");
+    expect(caseIr.formTemplates?.find((t) => t.id === "form_Q3")?.fields).toEqual([
+      { key: "Q3", label: "Question Q3", type: "number", required: true },
+    ]);
+    expect(caseIr.dataModel?.map((f) => [f.name, f.dataType])).toEqual([["Q1", "string"], ["Q2", "string"], ["Q3", "number"]]);
+  });
+
+  it("groups runs of questions in the same category into stages", () => {
+    const { caseIr } = questionnaireToCaseIr(intake);
+    expect(caseIr.stages.map((s) => [s.name, s.groups[0].steps.length])).toEqual([["Claim", 3], ["Payment", 1]]);
+  });
+
+  it("routes answers in the generated case the way the questionnaire does", () => {
+    const { caseIr } = questionnaireToCaseIr(intake);
+    expect(asked(caseIr, { Q1: "yes" })).toEqual(["Q1", "Q3"]);
+    expect(asked(caseIr, { Q1: "no" })).toEqual(["Q1"]);
+    // No answer falls through to the next question in list order
+    expect(asked(caseIr, { Q1: "" })).toEqual(["Q1", "Q2", "Q3"]);
+  });
+
+  it("checks multi-select options with contains", () => {
+    const { caseIr } = questionnaireToCaseIr(doc([
+      question("Q1", "MultiSelect", ["car", "home"]),
+      question("Q2", "TextInput"),
+    ], { Q1: { home: "end" } }));
+    const decision = steps(caseIr)[1];
+    if (decision.type !== "decision") throw new Error(`expected a decision, got ${decision.type}`);
+    expect(decision.branches[0].condition).toBe("${Q1.contains('home')}");
+  });
+
+  it("turns subprocess targets into call activities on the alternative lane", () => {
+    const { caseIr } = questionnaireToCaseIr(doc([
+      question("Q1", "Dropdown", ["fraud", "theft", "other"]),
+      question("Q2", "TextInput"),
+    ], { Q1: { fraud: "sub:fraud-check", theft: "sub:police-report" } }));
+    const lane = caseIr.alternativePaths?.[0];
+    expect(lane?.groups.map((g) => g.steps.map((s) => s.id))).toEqual([
+      ["call_fraud-check", "dec_call_fraud-check_end"],
+      ["call_police-report"],
+    ]);
+    const call = lane?.groups[0].steps[0];
+    expect(call?.type === "callActivity" && call.calledElement).toBe("fraud-check");
+  });
+
+  it("warns about what it cannot carry over", () => {
+    const { warnings } = questionnaireToCaseIr(doc([
+      question("Q1", "RadioButton", ["a"], { visibleWhen: "Q0 = 1" }),
+      question("Q 2", "NumberInput", [], { computedValue: "Q1 * 2" }),
+    ], { Q1: { a: "Q9" } }));
+    expect(warnings).toEqual([
+      'The show-when condition of "Q1" is not converted; the step always runs',
+      'Option "a" of "Q1" leads to missing question "Q9"; it falls through to the next step',
+      '"Q 2" is not a valid variable name; conditions on its answer will not evaluate',
+      'The computed value of "Q 2" is not converted; it becomes an ordinary form field',
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import type { Question } from "@/types/questionnaire";
+import {
+  applyTranslations, translationsFromCsv, translationsFromXliff, translationsToCsv, translationsToXliff,
+} from "@/lib/questionnaire/translations";
+
+function question(id: string, content: string, extra: Partial<Question> = {}): Question {
+  return {
+    _id: id, questionId: id, content, contentAbstract: "", questionType: "TextInput", mandatory: "True", options: [],
+    category: "Claim", subcategory: "", accessRoles: "", tags: [], default: "", language: "en", region: "", status: "",
+    ...extra,
+  };
+}
+
+/** Texts with every character the file formats must quote or escape; "No" and Q002 have no German yet */
+function questions(): Question[] {
+  return [
+    question("Q001", 'Name, as in "legal" name', {
+      contentAbstract: "First line\nsecond line",
+      questionType: "Dropdown",
+      options: [{ id: "Q001_yes", display: "Yes" }, { id: "Q001_no", display: "No" }],
+      translations: { de: { content: 'Name, wie im "amtlichen" Namen', contentAbstract: "Erste Zeile\nzweite Zeile", options: { Q001_yes: "Ja" } } },
+    }),
+    question("Q002", "Amount <in EUR> & cents"),
+  ];
+}
+
+/** The questions without any translations, as a translator's file finds them */
+const untranslated = () => questions().map(({ translations: _translations, ...q }) => q);
+
+describe("CSV translations", () => {
+  it("round-trips quoted commas, doubled quotes and line breaks", () => {
+    const csv = translationsToCsv(questions(), ["de"]);
+    expect(csv).toContain('"Name, wie im ""amtlichen"" Namen"');
+    expect(csv).toContain('"Erste Zeile\nzweite Zeile"');
+    const imported = translationsFromCsv(csv);
+    expect(imported.locales).toEqual(["de"]);
+    expect(applyTranslations(untranslated(), imported.entries).questions.map((q) => q.translations)).toEqual(questions().map((q) => q.translations));
+  });
+
+  it("leaves out texts without a translation", () => {
+    const imported = translationsFromCsv(translationsToCsv(questions(), ["de", "fr"]));
+    expect(imported.locales).toEqual(["de", "fr"]);
+    expect(imported.entries.map((e) => `${e.locale} ${e.key}`)).toEqual(["de Q001/content", "de Q001/contentAbstract", "de Q001/option/Q001_yes"]);
+  });
+
+  it("reads files saved with a byte order mark and normalises locale headers", () => {
+    const imported = translationsFromCsv("\uFEFFkey,source,de_de,FR-ca,zh-hant\r\nQ002/content,Amount,Betrag,Montant,金額\r\n");
+    expect(imported.locales).toEqual(["de-DE", "fr-CA", "zh-Hant"]);
+    expect(imported.entries).toEqual([
+      { key: "Q002/content", locale: "de-DE", text: "Betrag" },
+      { key: "Q002/content", locale: "fr-CA", text: "Montant" },
+      { key: "Q002/content", locale: "zh-Hant", text: "金額" },
+    ]);
+  });
+
+  it("rejects files that are not translation exports", () => {
+    expect(() => translationsFromCsv("id,de\nQ002/content,Betrag\n")).toThrow('The first column must be "key"');
+    expect(() => translationsFromCsv("key,source,German\nQ002/content,Amount,Betrag\n")).toThrow('Column "German" is not a locale');
+  });
+
+  it("reports keys that match no question", () => {
+    const { entries } = translationsFromCsv("key,de\nQ009/content,Fehlt\nQ001/option/Q001_maybe,Vielleicht\nQ002/content,Betrag\n");
+    const result = applyTranslations(untranslated(), entries);
+    expect(result.applied).toBe(1);
+    expect(result.unknown).toEqual(["Q009/content", "Q001/option/Q001_maybe"]);
+  });
+});
+
+describe("XLIFF translations", () => {
+  it("round-trips escaped markup and line breaks", () => {
+    const xliff = translationsToXliff(questions(), "de", "claim-intake");
+    expect(xliff).toContain("<source>Amount &lt;in EUR&gt; &amp; cents</source>");
+    const imported = translationsFromXliff(xliff);
+    expect(imported.locales).toEqual(["de"]);
+    expect(applyTranslations(untranslated(), imported.entries).questions.map((q) => q.translations)).toEqual(questions().map((q) => q.translations));
+  });
+
+  it("marks missing targets for translation and skips them on import", () => {
+    const xliff = translationsToXliff(questions(), "de", "claim-intake");
+    expect(xliff).toContain('<trans-unit id="Q002/content">\n        <source>Amount &lt;in EUR&gt; &amp; cents</source>\n        <target state="needs-translation"></target>');
+    expect(translationsFromXliff(xliff).entries.map((e) => e.key)).toEqual(["Q001/content", "Q001/contentAbstract", "Q001/option/Q001_yes"]);
+  });
+
+  it("reads XLIFF 2.0 segments and normalises the target language", () => {
+    const imported = translationsFromXliff([
+      '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de_at">',
+      '  <file id="f1"><unit id="Q002/content"><segment><source>Amount</source><target>Betrag</target></segment></unit></file>',
+      "</xliff>",
+    ].join("\n"));
+    expect(imported).toEqual({ locales: ["de-AT"], entries: [{ key: "Q002/content", locale: "de-AT", text: "Betrag" }] });
+  });
+
+  it("rejects files that are not XLIFF", () => {
+    expect(() => translationsFromXliff("<xliff>")).toThrow("The file is not well-formed XML");
+    expect(() => translationsFromXliff("<html/>")).toThrow("The file is not XLIFF");
+    expect(() => translationsFromXliff('<xliff version="1.2"><file><body/></file></xliff>')).toThrow("The file has no target language");
+  });
+});
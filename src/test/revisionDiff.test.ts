@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import type { CaseIR, Step } from "@/types/caseIr";
+import { diffCaseIr } from "@/lib/revisions/revisionDiff";
+import { automation, caseOf, stage, twoStageCase } from "./fixtures";
+
+/** A copy of the two-stage case with `edit` applied */
+function edited(edit: (ir: CaseIR) => void): CaseIR {
+  const ir = twoStageCase();
+  edit(ir);
+  return ir;
+}
+
+const steps = (ir: CaseIR, stageIndex = 0) => ir.stages[stageIndex].groups[0].steps;
+const summary = (before: CaseIR, after: CaseIR) => diffCaseIr(before, after).changes.map((c) => `${c.kind} ${c.elementType} ${c.id}`);
+
+describe("diffCaseIr", () => {
+  it("finds nothing between equal revisions", () => {
+    expect(diffCaseIr(twoStageCase(), twoStageCase())).toEqual({ changes: [], counts: { added: 0, removed: 0, changed: 0 } });
+  });
+
+  it("lists added and removed stages", () => {
+    const after = edited((ir) => {
+      ir.stages.splice(1, 1);
+      ir.stages.push(stage("s3", ["e"]));
+    });
+    expect(summary(twoStageCase(), after)).toEqual([
+      "added stage s3", "removed stage s2",
+      "added group s3_g", "removed group s2_g",
+      "added step e", "removed step d",
+    ]);
+    expect(diffCaseIr(twoStageCase(), after).counts).toEqual({ added: 3, removed: 3, changed: 0 });
+  });
+
+  it("reports a stage moved to the alternative paths as a lane change", () => {
+    const after = edited((ir) => { ir.alternativePaths = ir.stages.splice(1, 1); });
+    const stageChange = diffCaseIr(twoStageCase(), after).changes.find((c) => c.elementType === "stage");
+    expect(stageChange).toEqual({
+      kind: "changed", elementType: "stage", id: "s2", name: "S2", location: "Alternative",
+      fields: [{ field: "location", before: "Main", after: "Alternative" }],
+    });
+  });
+
+  it("lists added, removed and renamed steps with where they are", () => {
+    const after = edited((ir) => {
+      steps(ir).splice(1, 1);
+      steps(ir)[0].name = "Fetch";
+      steps(ir, 1).push(automation("x"));
+    });
+    expect(diffCaseIr(twoStageCase(), after).changes).toEqual([
+      { kind: "changed", elementType: "step", id: "a", name: "Fetch", location: "Main › S1 › Main", fields: [{ field: "name", before: "A", after: "Fetch" }] },
+      { kind: "added", elementType: "step", id: "x", name: "X", location: "Main › S2 › Main", fields: [] },
+      { kind: "removed", elementType: "step", id: "b", name: "B", location: "Main › S1 › Main", fields: [] },
+    ]);
+  });
+
+  it("shows a step moved to another stage as a location change", () => {
+    const after = edited((ir) => { steps(ir, 1).push(...steps(ir).splice(2, 1)); });
+    expect(diffCaseIr(twoStageCase(), after).changes).toEqual([{
+      kind: "changed", elementType: "step", id: "c", name: "C", location: "Main › S2 › Main",
+      fields: [{ field: "location", before: "Main › S1 › Main", after: "Main › S2 › Main" }],
+    }]);
+  });
+
+  it("compares tech per field", () => {
+    const after = edited((ir) => {
+      steps(ir)[0] = automation("a", { tech: { topic: "fetch-v2", asyncBefore: true } });
+      steps(ir)[1] = automation("b", { tech: undefined });
+    });
+    expect(diffCaseIr(twoStageCase(), after).changes.map((c) => [c.id, c.fields])).toEqual([
+      ["a", [{ field: "tech.asyncBefore", before: undefined, after: true }, { field: "tech.topic", before: "a", after: "fetch-v2" }]],
+      ["b", [{ field: "tech.topic", before: "b", after: undefined }]],
+    ]);
+  });
+
+  it("diffs steps nested in parallel branches on their own", () => {
+    const split = (inner: Step): Step => ({
+      id: "split", name: "Split", type: "parallel", branches: [{ id: "p1", label: "One", steps: [inner] }],
+    });
+    const before = caseOf([{ id: "s1", name: "S1", groups: [{ id: "g1", name: "Main", steps: [split(automation("n"))] }] }]);
+    const after = caseOf([{ id: "s1", name: "S1", groups: [{ id: "g1", name: "Main", steps: [split(automation("n", { name: "Notify" }))] }] }]);
+    expect(diffCaseIr(before, after).changes).toEqual([{
+      kind: "changed", elementType: "step", id: "n", name: "Notify", location: "Main › S1 › Main › Split › One",
+      fields: [{ field: "name", before: "N", after: "Notify" }],
+    }]);
+  });
+
+  it("ignores bookkeeping fields", () => {
+    const after = edited((ir) => { Object.assign(steps(ir)[0], { source: { elementId: "Task_1" } }); });
+    expect(diffCaseIr(twoStageCase(), after).changes).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Rule suites – runs the saved business rule scenarios and decision table test cases
+ * of exported Case IR JSON files. For CI:
+ *
+ *   CASE_IR=exports/onboarding-case-ir.json,exports/claims-case-ir.json npm run test:rules
+ *
+ * Skipped when CASE_IR is not set, so `npm test` is unaffected.
+ */
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { describe, it, expect } from "vitest";
+import type { CaseIR } from "@/types/caseIr";
+import { runScenario } from "@/lib/businessRules/scenarios";
+import { formatValue, runTestCase } from "@/lib/dmn/evaluate";
+
+const files = (process.env.CASE_IR ?? "").split(",").map(f => f.trim()).filter(Boolean);
+
+describe.skipIf(files.length === 0)("rule suites", () => {
+  for (const file of files) {
+    const caseIr = JSON.parse(readFileSync(resolve(process.cwd(), file), "utf8")) as CaseIR;
+
+    describe(`${caseIr.name} (${file})`, () => {
+      for (const rule of caseIr.businessRules ?? []) {
+        if (!rule.scenarios?.length) continue;
+        describe(`rule ${rule.name}`, () => {
+          for (const scenario of rule.scenarios!) {
+            it(scenario.name, () => {
+              const result = runScenario(rule, scenario, caseIr.dataModel);
+              expect(result.error, result.error).toBeUndefined();
+              expect(result.passed, `expected ${scenario.expected}, got ${formatValue(result.actual)}`).toBe(true);
+            });
+          }
+        });
+      }
+
+      for (const table of caseIr.decisionTables ?? []) {
+        if (!table.testCases?.length) continue;
+        describe(`decision ${table.name}`, () => {
+          for (const tc of table.testCases!) {
+            it(tc.name, () => {
+              const result = runTestCase(table, tc);
+              expect(result.error, result.error).toBeUndefined();
+              const mismatches = result.failed.map(id => {
+                const output = table.outputs.find(o => o.id === id)!;
+                return `${output.label}: expected ${tc.expected[id]}, got ${formatValue(result.actual[id])}`;
+              });
+              expect(mismatches).toEqual([]);
+            });
+          }
+        });
+      }
+    });
+  }
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import type { CaseIR, DecisionBranch, GatewayBranch, Step } from "@/types/caseIr";
+import {
+  fireBoundaryEvent, getActiveStep, getAvailableBoundaryEvents, runSimulation, startSimulation, stepSimulation,
+} from "@/lib/simulator/engine";
+import type { SimulationState } from "@/lib/simulator/types";
+import { automation, caseOf } from "./fixtures";
+
+const START = new Date("2026-10-05T08:00:00Z");
+
+function decision(id: string, branches: DecisionBranch[], defaultBranchId?: string): Step {
+  return { id, name: id, type: "decision", branches, defaultBranchId };
+}
+
+function lane(id: string, label: string, steps: Step[], condition?: string): GatewayBranch {
+  return { id, label, steps, condition };
+}
+
+function caseWith(steps: Step[], alternative: Step[] = []): CaseIR {
+  return caseOf([{ id: "s1", name: "Main", groups: [{ id: "g1", name: "Main", steps }] }], {
+    id: "claims",
+    alternativePaths: alternative.length ? [{ id: "alt", name: "Escalation", groups: [{ id: "ga", name: "Main", steps: alternative }] }] : [],
+  });
+}
+
+function run(ir: CaseIR, variables = {}): SimulationState {
+  return runSimulation(ir, startSimulation(ir, variables, START));
+}
+
+/** Steps the token executed, in order */
+const visited = (state: SimulationState) => state.trace.filter((t) => t.stepId && t.kind !== "warning").map((t) => t.stepId);
+const last = (state: SimulationState) => state.trace[state.trace.length - 1];
+
+describe("decisions", () => {
+  const routing = (defaultBranchId?: string) => caseWith([
+    automation("fetch"),
+    decision("route", [
+      { id: "big", label: "Big", condition: "${amount > 100}", targetStepId: "review" },
+      { id: "small", label: "Small", condition: "${default}", targetStepId: "approve" },
+    ], defaultBranchId),
+    automation("review"),
+    automation("approve"),
+  ]);
+
+  it("takes the branch whose condition holds", () => {
+    const state = run(routing(), { amount: 500 });
+    expect(state.status).toBe("completed");
+    expect(visited(state)).toEqual(["fetch", "route", "review", "approve"]);
+    expect(state.trace.find((t) => t.kind === "decision")?.detail).toBe('Took branch "Big"');
+  });
+
+  it("falls back to the ${default} branch when nothing matches", () => {
+    expect(visited(run(routing(), { amount: 50 }))).toEqual(["fetch", "route", "approve"]);
+  });
+
+  it("prefers the default branch id over a ${default} placeholder", () => {
+    const ir = routing("big");
+    expect(visited(run(ir, { amount: 50 }))).toEqual(["fetch", "route", "review", "approve"]);
+  });
+
+  it("fails when nothing matches and there is no default", () => {
+    const ir = caseWith([decision("route", [{ id: "big", label: "Big", condition: "${amount > 100}", targetStepId: "end" }])]);
+    const state = run(ir, { amount: 50 });
+    expect(state.status).toBe("failed");
+    expect(state.error).toBe('No branch of "route" matched and no default is set');
+  });
+
+  it("skips a branch whose condition is not an expression and warns about it", () => {
+    const ir = caseWith([
+      decision("route", [
+        { id: "bad", label: "Bad", condition: "amount > 100", targetStepId: "review" },
+        { id: "rest", label: "Rest", condition: "${default}" },
+      ]),
+      automation("review"),
+      automation("approve"),
+    ]);
+    const state = run(ir, { amount: 500 });
+    expect(state.trace.filter((t) => t.kind === "warning").map((t) => t.detail)).toEqual([
+      'Condition of branch "Bad" skipped: Not an expression – write ${...} for JUEL or =... for FEEL',
+    ]);
+    expect(visited(state)).toEqual(["route", "review", "approve"]);
+  });
+
+  it("fails on a branch that targets a missing step", () => {
+    const ir = caseWith([decision("route", [{ id: "a", label: "A", condition: "${true}", targetStepId: "gone" }])]);
+    expect(run(ir).error).toBe('Branch "A" targets missing step gone');
+  });
+});
+
+describe("ending the case", () => {
+  it("ends at the end event a branch targets", () => {
+    const ir = caseWith([decision("route", [{ id: "a", label: "A", condition: "${true}", targetStepId: "end" }]), automation("never")]);
+    const state = run(ir);
+    expect(state.status).toBe("completed");
+    expect(visited(state)).toEqual(["route"]);
+  });
+
+  it("ends at end_<process id>, the end event the exporter generates", () => {
+    const ir = caseWith([decision("route", [{ id: "a", label: "A", condition: "${true}", targetStepId: "end_claims" }]), automation("never")]);
+    const state = run(ir);
+    expect(state.status).toBe("completed");
+    expect(visited(state)).toEqual(["route"]);
+  });
+
+  it("ends after the last step of an alternative path", () => {
+    const ir = caseWith([decision("route", [{ id: "a", label: "A", condition: "${true}", targetStepId: "escalate" }])], [automation("escalate")]);
+    const state = run(ir);
+    expect(visited(state)).toEqual(["route", "escalate"]);
+    expect(last(state).detail).toBe("Case completed (alternative path)");
+  });
+});
+
+describe("gateway blocks", () => {
+  it("runs every parallel branch in order, then continues after the join", () => {
+    const ir = caseWith([
+      { id: "split", name: "split", type: "parallel", branches: [
+        lane("a", "A", [automation("a1"), automation("a2")]),
+        lane("empty", "Empty", []),
+        lane("b", "B", [automation("b1")]),
+      ] },
+      automation("after"),
+    ]);
+    const state = run(ir);
+    expect(visited(state)).toEqual(["split", "a1", "a2", "b1", "after"]);
+    expect(state.trace[1].detail).toBe('Split into 3 branch(es): "A", "Empty", "B" (simulated in order)');
+  });
+
+  const inclusive = (defaultBranchId?: string): CaseIR => caseWith([
+    { id: "split", name: "split", type: "inclusive", defaultBranchId, branches: [
+      lane("a", "A", [automation("a1")], "${x > 1}"),
+      lane("b", "B", [automation("b1")], "${x > 5}"),
+      lane("c", "C", [automation("c1")]),
+    ] },
+    automation("after"),
+  ]);
+
+  it("runs only the inclusive branches whose conditions hold", () => {
+    expect(visited(run(inclusive(), { x: 3 }))).toEqual(["split", "a1", "after"]);
+    expect(visited(run(inclusive(), { x: 9 }))).toEqual(["split", "a1", "b1", "after"]);
+  });
+
+  it("takes the inclusive default branch when no condition holds, and fails without one", () => {
+    expect(visited(run(inclusive("c"), { x: 0 }))).toEqual(["split", "c1", "after"]);
+    expect(run(inclusive(), { x: 0 }).error).toBe('No branch of "split" matched and no default is set');
+  });
+});
+
+describe("foreach", () => {
+  const loop = (collectionExpression: string): CaseIR => caseWith([
+    { id: "each", name: "each", type: "foreach", collectionExpression, elementVariable: "item", steps: [
+      automation("handle", { tech: { topic: "handle", outputParameters: [{ name: "seen", value: "${seen + item}" }] } }),
+    ] },
+    automation("after"),
+  ]);
+
+  it("runs the body once per item with the element variable set", () => {
+    const state = run(loop("${items}"), { items: [1, 2, 3], seen: 0 });
+    expect(visited(state)).toEqual(["each", "handle", "handle", "handle", "after"]);
+    expect(state.variables.seen).toBe(6);
+  });
+
+  it("skips an empty collection and fails on one that is not a list", () => {
+    expect(visited(run(loop("${items}"), { items: [] }))).toEqual(["each", "after"]);
+    expect(run(loop("${items}"), { items: "abc" }).error).toBe('Collection ${items} evaluated to "abc", expected a list');
+  });
+});
+
+describe("boundary events", () => {
+  const guarded = (): CaseIR => caseWith([
+    automation("work", { boundaryEvents: [
+      { id: "late", name: "Late", eventType: "timer", expression: "PT2H", cancelActivity: false },
+      { id: "cancel", name: "Cancel", eventType: "message" },
+    ] }),
+    automation("after"),
+  ], [automation("escalate")]);
+
+  it("keeps the token on the step for a non-interrupting timer and moves the clock", () => {
+    const ir = guarded();
+    const start = startSimulation(ir, {}, START);
+    expect(getAvailableBoundaryEvents(ir, start).map((b) => b.id)).toEqual(["late", "cancel"]);
+    const state = fireBoundaryEvent(ir, start, "late");
+    expect(getActiveStep(ir, state)?.id).toBe("work");
+    expect(state.clock).toBe("2026-10-05T10:00:00.000Z");
+    expect(last(state).detail).toBe('Non-interrupting timer event "Late" fired');
+  });
+
+  it("routes an interrupting event to the alternative path", () => {
+    const ir = guarded();
+    const state = runSimulation(ir, fireBoundaryEvent(ir, startSimulation(ir, {}, START), "cancel"));
+    expect(visited(state)).toEqual(["work", "escalate"]);
+    expect(state.status).toBe("completed");
+  });
+
+  it("ends the case when an interrupting event has nowhere to go", () => {
+    const ir = { ...guarded(), alternativePaths: [] };
+    const state = fireBoundaryEvent(ir, startSimulation(ir, {}, START), "cancel");
+    expect(state.status).toBe("completed");
+    expect(last(state).detail).toBe("Case ended by message event");
+  });
+
+  it("rejects events the active step does not have", () => {
+    const ir = guarded();
+    const state = stepSimulation(ir, startSimulation(ir, {}, START));
+    expect(() => fireBoundaryEvent(ir, state, "late")).toThrow("Boundary event late is not attached to the active step");
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import type { BusinessRule, Stage, Step } from "@/types/caseIr";
+import { compileSla, isSlaElementId, parseSlaProperty } from "@/lib/sla/compile";
+import { estimatePath, estimateSteps, formatSpan } from "@/lib/sla/estimate";
+import { durationMs, effectiveStageSla, effectiveStepSla, slaProblems, slaSourceOf } from "@/lib/sla/policy";
+import { automation, stage } from "./fixtures";
+
+const HOUR = 3_600_000;
+
+const slaRule = (appliesTo: string, expression: string, extra: Partial<BusinessRule> = {}): BusinessRule => ({
+  id: `sla_${appliesTo}`, name: `SLA ${appliesTo}`, ruleType: "sla", expression, appliesTo, ...extra,
+});
+
+const approval = (id: string, config: Record<string, unknown>): Step =>
+  automation(id, { moduleRef: { moduleId: "approval", instanceConfig: config } });
+
+describe("durationMs", () => {
+  it("measures ISO durations with 30-day months", () => {
+    expect(durationMs("PT8H")).toBe(8 * HOUR);
+    expect(durationMs("P1M")).toBe(30 * 24 * HOUR);
+    expect(durationMs("8 hours")).toBeNull();
+  });
+});
+
+describe("effectiveStepSla", () => {
+  it("prefers the step's own SLA, then the approval node's, then a matching rule", () => {
+    const rules = [slaRule("a", "PT2H"), slaRule("b", "PT3H")];
+    const own = automation("a", { sla: { target: "PT1H" } });
+    const approved = approval("b", { slaHours: 24, escalateTo: "manager@example.com" });
+    expect(effectiveStepSla(own, rules)).toEqual({ target: "PT1H" });
+    expect(slaSourceOf(own, rules)).toBe("step");
+    expect(effectiveStepSla(approved, rules)).toEqual({
+      target: "PT24H",
+      escalations: [{ id: "approval_escalation", after: "PT0S", action: "reassign", to: "manager@example.com" }],
+    });
+    expect(slaSourceOf(approved, rules)).toBe("approval");
+    expect(effectiveStepSla(automation("a"), rules)).toEqual({ target: "PT2H" });
+    expect(slaSourceOf(automation("a"), rules)).toBe("rule");
+  });
+
+  it("ignores rules whose expression is not a duration and steps that take no time", () => {
+    expect(effectiveStepSla(automation("a"), [slaRule("a", "amount > 5")])).toBeNull();
+    const decision: Step = { id: "a", name: "Route", type: "decision", branches: [] };
+    expect(effectiveStepSla(decision, [slaRule("a", "PT2H")])).toBeNull();
+    expect(slaSourceOf(decision, [slaRule("a", "PT2H")])).toBeNull();
+  });
+
+  it("counts in the step's calendar unless the policy names one", () => {
+    const step = automation("a", { calendarRef: "emea", sla: { target: "P1D" } });
+    expect(effectiveStepSla(step)).toEqual({ target: "P1D", calendarRef: "emea" });
+    expect(effectiveStepSla({ ...step, sla: { target: "P1D", calendarRef: "us" } })).toEqual({ target: "P1D", calendarRef: "us" });
+    expect(effectiveStepSla(automation("b"), [slaRule("b", "2 business days", { calendarRef: "emea" })])).toEqual({ target: "2 business days", calendarRef: "emea" });
+  });
+
+  it("takes stage SLAs from the stage or its rules", () => {
+    expect(effectiveStageSla({ ...stage("s1", []), sla: { target: "P5D" } })).toEqual({ target: "P5D" });
+    expect(effectiveStageSla(stage("s1", []), [slaRule("s1", "P3D")])).toEqual({ target: "P3D" });
+  });
+});
+
+describe("slaProblems", () => {
+  it("accepts a complete policy", () => {
+    expect(slaProblems({ target: "PT8H", warningPercent: 75, escalations: [{ id: "e1", after: "PT1H", action: "notify", to: "lead" }] })).toEqual([]);
+  });
+
+  it("lists every problem", () => {
+    expect(slaProblems({ target: "PT0S", warningPercent: 100, escalations: [{ id: "e1", after: "soon", action: "notify", to: " " }] })).toEqual([
+      'Target "PT0S" is not a positive ISO 8601 duration',
+      "Warning threshold must be between 1 and 99 %",
+      'Escalation 1: "soon" is not an ISO 8601 duration',
+      "Escalation 1 has no recipient",
+    ]);
+    expect(slaProblems({ target: "P1W", calendarRef: "standard" })).toEqual(['Target "P1W" is not a positive business duration (days, hours, minutes)']);
+  });
+});
+
+describe("compileSla", () => {
+  it("adds a timer per milestone after the wall-clock target", () => {
+    const timers = compileSla("review", "Review", {
+      target: "PT8H", warningPercent: 75,
+      escalations: [{ id: "e1", after: "PT2H", action: "reassign", to: "lead" }],
+    });
+    expect(timers.map((t) => [t.id, t.milestone, t.timer.type, t.timer.expression, t.task.topic])).toEqual([
+      ["review_sla_warning", "warning", "timeDuration", "PT6H", "sla-warning"],
+      ["review_sla_breach", "breach", "timeDuration", "PT8H", "sla-breach"],
+      ["review_sla_esc1", "escalation", "timeDuration", "PT10H", "sla-escalation"],
+    ]);
+    expect(timers[2].task).toEqual({
+      id: "review_sla_esc1_task", name: "Escalation 1: Review", topic: "sla-escalation",
+      inputs: [
+        { name: "slaElement", value: "review" }, { name: "slaTarget", value: "PT8H" },
+        { name: "escalationLevel", value: "1" }, { name: "escalationAction", value: "reassign" }, { name: "escalateTo", value: "lead" },
+      ],
+    });
+    expect(timers.every((t) => isSlaElementId(t.id) && isSlaElementId(t.task.id) && isSlaElementId(t.endId))).toBe(true);
+    expect(isSlaElementId("review")).toBe(false);
+  });
+
+  it("counts calendar policies in the calendar when the engine has the bean", () => {
+    const timers = compileSla("review", "Review", {
+      target: "P1D", calendarRef: "standard", warningPercent: 50,
+      escalations: [{ id: "e1", after: "PT4H", action: "notify", to: "lead" }],
+    }, [], true);
+    expect(timers.map((t) => t.timer)).toEqual([
+      { type: "timeDate", expression: '${businessCalendar.add(now(), "PT4H", "standard")}' },
+      { type: "timeDate", expression: '${businessCalendar.add(now(), "P1D", "standard")}' },
+      { type: "timeDate", expression: '${businessCalendar.add(businessCalendar.add(now(), "P1D", "standard"), "PT4H", "standard")}' },
+    ]);
+    expect(timers[1].task.inputs).toContainEqual({ name: "slaCalendar", value: "standard" });
+  });
+
+  it("falls back to wall-clock timers for the business time without the bean", () => {
+    const policy = { target: "P1D", calendarRef: "standard", warningPercent: 50, escalations: [{ id: "e1", after: "PT4H", action: "notify" as const, to: "lead" }] };
+    expect(compileSla("review", "Review", policy).map((t) => t.timer)).toEqual([
+      { type: "timeDuration", expression: "PT12H" },
+      { type: "timeDuration", expression: "P1D" },
+      { type: "timeDuration", expression: "P1DT4H" },
+    ]);
+    expect(compileSla("review", "Review", { ...policy, calendarRef: 'x"), evil("' }, [], true)[0].timer.type).toBe("timeDuration");
+  });
+
+  it("compiles nothing for an invalid policy", () => {
+    expect(compileSla("review", "Review", { target: "later" })).toEqual([]);
+  });
+
+  it("reads the policy back from its camunda:property", () => {
+    expect(parseSlaProperty(JSON.stringify({ target: "PT8H", warningPercent: 80 }))).toEqual({ target: "PT8H", warningPercent: 80 });
+    expect(parseSlaProperty("{")).toBeUndefined();
+    expect(parseSlaProperty("{}")).toBeUndefined();
+  });
+});
+
+describe("SLA estimates", () => {
+  it("adds step targets and counts steps without one", () => {
+    const steps = [automation("a", { sla: { target: "PT2H" } }), automation("b"), approval("c", { slaHours: 4 })];
+    expect(estimateSteps(steps)).toEqual({ expectedMs: 6 * HOUR, unestimated: 1 });
+  });
+
+  it("takes the slowest parallel branch and timer waits", () => {
+    const steps: Step[] = [
+      { id: "split", name: "Split", type: "parallel", branches: [
+        { id: "p1", label: "One", steps: [automation("a", { sla: { target: "PT1H" } })] },
+        { id: "p2", label: "Two", steps: [automation("b", { sla: { target: "PT3H" } }), automation("c")] },
+      ] },
+      { id: "wait", name: "Wait", type: "intermediateEvent", eventSubType: "timer", timerExpression: "PT30M" },
+    ];
+    expect(estimateSteps(steps)).toEqual({ expectedMs: 3.5 * HOUR, unestimated: 1 });
+  });
+
+  it("spreads business time over the calendar's working week", () => {
+    // 8 working hours in a 40-hour week take 8 * 168 / 40 wall-clock hours on average
+    expect(estimateSteps([automation("a", { sla: { target: "PT8H", calendarRef: "standard" } })]).expectedMs).toBeCloseTo(33.6 * HOUR);
+  });
+
+  it("runs a path's stages one after another with their targets", () => {
+    const stages: Stage[] = [
+      { ...stage("s1", ["a"]), sla: { target: "PT4H" } },
+      stage("s2", ["b"]),
+    ];
+    const rules = [slaRule("a", "PT1H"), slaRule("b", "PT2H")];
+    const path = estimatePath(stages, rules);
+    expect(path.expectedMs).toBe(3 * HOUR);
+    expect(path.stages.map((s) => [s.stageId, s.expectedMs, s.targetMs])).toEqual([["s1", HOUR, 4 * HOUR], ["s2", 2 * HOUR, null]]);
+  });
+
+  it("formats spans briefly", () => {
+    expect(formatSpan(45 * 60_000)).toBe("45m");
+    expect(formatSpan(90 * 60_000)).toBe("1h 30m");
+    expect(formatSpan(52 * HOUR)).toBe("2d 4h");
+    expect(formatSpan(48 * HOUR)).toBe("2d");
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import type { CaseIR } from "@/types/caseIr";
+import { mergeCaseIr } from "@/lib/revisions/threeWayMerge";
+import { automation } from "./fixtures";
+
+function base(): CaseIR {
+  return {
+    id: "case", name: "Claims", version: "1",
+    trigger: { type: "none" },
+    endEvent: { id: "end", eventType: "none" },
+    stages: [
+      { id: "s1", name: "Intake", groups: [{ id: "g1", name: "Main", steps: [automation("a"), automation("b"), automation("c")] }] },
+      { id: "s2", name: "Review", groups: [{ id: "g2", name: "Main", steps: [automation("d")] }] },
+    ],
+    metadata: { createdAt: "2026-10-01T00:00:00Z", updatedAt: "2026-10-01T00:00:00Z" },
+  };
+}
+
+/** A copy of the base with `edit` applied */
+function edited(edit: (ir: CaseIR) => void): CaseIR {
+  const ir = base();
+  edit(ir);
+  return ir;
+}
+
+const steps = (ir: CaseIR, stage = 0) => ir.stages[stage].groups[0].steps;
+const ids = (list: Array<{ id: string }>) => list.map((el) => el.id);
+
+describe("mergeCaseIr", () => {
+  it("merges edits to disjoint steps cleanly", () => {
+    const ours = edited((ir) => { steps(ir)[0].name = "Fetch"; });
+    const theirs = edited((ir) => {
+      steps(ir)[2].description = "Calls the scoring service";
+      steps(ir, 1)[0].tech = { topic: "review-claim" };
+    });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(steps(merged)[0].name).toBe("Fetch");
+    expect(steps(merged)[2].description).toBe("Calls the scoring service");
+    expect(steps(merged, 1)[0].tech).toEqual({ topic: "review-claim" });
+  });
+
+  it("reports the same field changed two ways and resolves it by choice", () => {
+    const ours = edited((ir) => { steps(ir)[1].name = "Score"; });
+    const theirs = edited((ir) => { steps(ir)[1].name = "Rate"; });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([{
+      key: "stages[s1].groups[g1].steps[b].name", element: "B", field: "name", base: "B", ours: "Score", theirs: "Rate",
+    }]);
+    expect(steps(merged)[1].name).toBe("Score");
+    const resolved = mergeCaseIr(base(), ours, theirs, { "stages[s1].groups[g1].steps[b].name": "theirs" });
+    expect(steps(resolved.merged)[1].name).toBe("Rate");
+  });
+
+  it("takes the same change made on both sides without a conflict", () => {
+    const change = (ir: CaseIR) => { steps(ir)[1].name = "Score"; };
+    const { merged, conflicts } = mergeCaseIr(base(), edited(change), edited(change));
+    expect(conflicts).toEqual([]);
+    expect(steps(merged)[1].name).toBe("Score");
+  });
+
+  it("reports a step deleted on one side and edited on the other", () => {
+    const ours = edited((ir) => { ir.stages[0].groups[0].steps = steps(ir).filter((s) => s.id !== "b"); });
+    const theirs = edited((ir) => { steps(ir)[1].name = "Score"; });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([expect.objectContaining({ key: "stages[s1].groups[g1].steps[b]", field: "(element)", ours: undefined })]);
+    expect(ids(steps(merged))).toEqual(["a", "c"]);
+    const kept = mergeCaseIr(base(), ours, theirs, { "stages[s1].groups[g1].steps[b]": "theirs" });
+    expect(ids(steps(kept.merged))).toEqual(["a", "b", "c"]);
+    expect(steps(kept.merged)[1].name).toBe("Score");
+  });
+
+  it("deletes a step the other side left untouched", () => {
+    const ours = edited((ir) => { ir.stages[0].groups[0].steps = steps(ir).filter((s) => s.id !== "b"); });
+    const theirs = edited((ir) => { steps(ir)[0].name = "Fetch"; });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(ids(steps(merged))).toEqual(["a", "c"]);
+  });
+
+  it("keeps inserts from both sides after their predecessors", () => {
+    const ours = edited((ir) => { steps(ir).splice(1, 0, automation("x")); });
+    const theirs = edited((ir) => {
+      steps(ir).splice(3, 0, automation("y"));
+      steps(ir).unshift(automation("z"));
+    });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(ids(steps(merged))).toEqual(["z", "a", "x", "b", "c", "y"]);
+  });
+
+  it("applies a rename to a step the other side reordered", () => {
+    const ours = edited((ir) => { ir.stages[0].groups[0].steps = [steps(ir)[2], steps(ir)[0], steps(ir)[1]]; });
+    const theirs = edited((ir) => {
+      steps(ir)[0].name = "Fetch";
+      ir.stages[1].name = "Approval";
+    });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(steps(merged).map((s) => s.name)).toEqual(["C", "Fetch", "B"]);
+    expect(merged.stages[1].name).toBe("Approval");
+  });
+
+  it("reports a conflict when both sides reorder the same steps differently", () => {
+    const ours = edited((ir) => { ir.stages[0].groups[0].steps = [steps(ir)[2], steps(ir)[0], steps(ir)[1]]; });
+    const theirs = edited((ir) => { ir.stages[0].groups[0].steps = [steps(ir)[1], steps(ir)[0], steps(ir)[2]]; });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([{
+      key: "stages[s1].groups[g1].steps@order", element: "Main", field: "steps (order)",
+      base: ["a", "b", "c"], ours: ["c", "a", "b"], theirs: ["b", "a", "c"],
+    }]);
+    expect(ids(steps(merged))).toEqual(["c", "a", "b"]);
+    const resolved = mergeCaseIr(base(), ours, theirs, { "stages[s1].groups[g1].steps@order": "theirs" });
+    expect(ids(steps(resolved.merged))).toEqual(["b", "a", "c"]);
+  });
+
+  it("merges the same reorder on both sides cleanly", () => {
+    const reorder = (ir: CaseIR) => { ir.stages[0].groups[0].steps = [steps(ir)[2], steps(ir)[0], steps(ir)[1]]; };
+    const { merged, conflicts } = mergeCaseIr(base(), edited(reorder), edited((ir) => { reorder(ir); steps(ir).push(automation("x")); }));
+    expect(conflicts).toEqual([]);
+    expect(ids(steps(merged))).toEqual(["c", "a", "b", "x"]);
+  });
+
+  it("follows a stage reorder while merging edits inside the stages", () => {
+    const ours = edited((ir) => { ir.stages.reverse(); });
+    const theirs = edited((ir) => { steps(ir)[2].name = "Decide"; });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(ids(merged.stages)).toEqual(["s2", "s1"]);
+    expect(steps(merged, 1)[2].name).toBe("Decide");
+  });
+
+  it("carries edits along with a step moved to another stage", () => {
+    const ours = edited((ir) => {
+      const [b] = steps(ir).splice(1, 1);
+      steps(ir, 1).push(b);
+    });
+    const theirs = edited((ir) => { steps(ir)[1].name = "Score"; });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(ids(steps(merged))).toEqual(["a", "c"]);
+    expect(steps(merged, 1).map((s) => s.name)).toEqual(["D", "Score"]);
+  });
+
+  it("merges unrelated edits that both bumped updatedAt, keeping the later time", () => {
+    const ours = edited((ir) => {
+      steps(ir)[0].name = "Fetch";
+      ir.metadata.updatedAt = "2026-10-02T09:00:00Z";
+    });
+    const theirs = edited((ir) => {
+      steps(ir, 1).push(automation("e"));
+      ir.metadata.updatedAt = "2026-10-02T10:30:00Z";
+    });
+    const { merged, conflicts } = mergeCaseIr(base(), ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(steps(merged)[0].name).toBe("Fetch");
+    expect(ids(steps(merged, 1))).toEqual(["d", "e"]);
+    expect(merged.metadata.updatedAt).toBe("2026-10-02T10:30:00Z");
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import { nextCronTimes, parseCron, unixToQuartz, type CronSchedule } from "@/lib/timer/cron";
+import { analyzeTimer, nextFireTimes, parseTimer } from "@/lib/timer/schedule";
+
+/** Cron fire times are local, so compare them as local wall-clock text */
+function local(at: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())} ${pad(at.getHours())}:${pad(at.getMinutes())}`;
+}
+
+function cron(text: string): CronSchedule {
+  const parsed = parseCron(text);
+  if (!("cron" in parsed)) throw new Error(parsed.error);
+  return parsed.cron;
+}
+
+function fires(text: string, from: Date, count = 3): string[] {
+  return nextCronTimes(cron(text), from, count).map(local);
+}
+
+const JAN_1 = new Date(2026, 0, 1);
+
+describe("parseCron – day modifiers", () => {
+  it("L fires on the last day of each month", () => {
+    expect(fires("0 0 12 L * ?", JAN_1)).toEqual(["2026-01-31 12:00", "2026-02-28 12:00", "2026-03-31 12:00"]);
+  });
+
+  it("L-n fires n days before the last day", () => {
+    expect(fires("0 0 12 L-3 2 ?", JAN_1, 1)).toEqual(["2026-02-25 12:00"]);
+  });
+
+  it("W moves to the nearest weekday within the month", () => {
+    // 15 Aug 2026 is a Saturday, 15 Nov 2026 a Sunday
+    expect(fires("0 0 9 15W 8 ?", JAN_1, 1)).toEqual(["2026-08-14 09:00"]);
+    expect(fires("0 0 9 15W 11 ?", JAN_1, 1)).toEqual(["2026-11-16 09:00"]);
+    // 1 Aug 2026 is a Saturday; the nearest weekday in August is Monday the 3rd
+    expect(fires("0 0 9 1W 8 ?", JAN_1, 1)).toEqual(["2026-08-03 09:00"]);
+  });
+
+  it("LW fires on the last weekday of the month", () => {
+    // 28 Feb and 31 Oct 2026 are Saturdays
+    expect(fires("0 0 9 LW 2,10 ?", JAN_1, 2)).toEqual(["2026-02-27 09:00", "2026-10-30 09:00"]);
+  });
+
+  it("# picks the nth weekday of the month and dL the last one", () => {
+    expect(fires("0 0 9 ? 10,11 6#3", JAN_1, 2)).toEqual(["2026-10-16 09:00", "2026-11-20 09:00"]);
+    expect(fires("0 0 9 ? 10 FRIL", JAN_1, 1)).toEqual(["2026-10-30 09:00"]);
+  });
+
+  it("numbers day-of-week from Sunday", () => {
+    expect(fires("0 0 9 ? * 1", new Date(2026, 9, 14), 1)).toEqual(["2026-10-18 09:00"]);
+  });
+
+  it("rejects misplaced modifiers", () => {
+    expect(parseCron("0 0 9 5L * ?")).toEqual({ error: expect.stringContaining("L and W stand alone") });
+    expect(parseCron("0 0 9 ? * 2#6")).toEqual({ error: expect.stringContaining("must be 1–5") });
+    expect(parseCron("0 0 9 L-31 * ?")).toEqual({ error: expect.stringContaining("at most 30") });
+  });
+});
+
+describe("parseCron – the ? rule", () => {
+  it("requires ? in exactly one day field", () => {
+    expect(parseCron("0 0 9 ? * ?")).toEqual({ error: "Only one of day-of-month and day-of-week can be ?" });
+    expect(parseCron("0 0 9 1 * MON")).toEqual({ error: expect.stringContaining("Put ? in day-of-month or day-of-week") });
+  });
+
+  it("offers a fix when one of the day fields is *", () => {
+    expect(parseCron("0 0 9 * * MON")).toMatchObject({ fix: "0 0 9 ? * MON" });
+    expect(parseCron("0 0 9 1 * *")).toMatchObject({ fix: "0 0 9 1 * ?" });
+  });
+});
+
+describe("parseCron – Unix cron", () => {
+  it("rejects five fields and offers the Quartz spelling", () => {
+    expect(parseCron("0 9 * * 1-5")).toEqual({
+      error: "This is a five-field Unix cron; Camunda expects seconds first and ? in one of the day fields",
+      fix: "0 0 9 ? * 2-6",
+    });
+    expect(parseCron("*/15 * 1 * *")).toMatchObject({ fix: "0 */15 * 1 * ?" });
+  });
+
+  it("renumbers days of the week but not their steps", () => {
+    const dow = (field: string) => unixToQuartz(["0", "9", "*", "*", field])?.split(" ")[5];
+    expect(dow("*/2")).toBe("*/2");
+    expect(dow("1-5/2")).toBe("2-6/2");
+    expect(dow("0,6")).toBe("1,7");
+    expect(dow("MON-FRI")).toBe("MON-FRI");
+  });
+
+  it("splits day ranges that wrap round to Sunday", () => {
+    const dow = (field: string) => unixToQuartz(["0", "9", "*", "*", field])?.split(" ")[5];
+    expect(dow("5-7")).toBe("6-7,1");
+    expect(dow("6-7")).toBe("7,1");
+    expect(dow("3-7/2")).toBe("4,6,1");
+    // Friday to Sunday still fires on those days once it is Quartz
+    expect(fires(`0 0 9 ? * ${dow("5-7")}`, JAN_1)).toEqual(["2026-01-02 09:00", "2026-01-03 09:00", "2026-01-04 09:00"]);
+  });
+
+  it("has no fix when both day fields are restricted", () => {
+    expect(unixToQuartz(["0", "9", "1", "*", "1"])).toBeNull();
+    expect(parseCron("0 9 1 * 1")).not.toHaveProperty("fix");
+  });
+
+  it("rejects other field counts", () => {
+    expect(parseCron("0 0 9 ?")).toEqual({ error: expect.stringContaining("got 4") });
+  });
+});
+
+describe("cycles", () => {
+  const from = new Date(Date.UTC(2026, 9, 19, 9));
+
+  it("R/n fires n times, one period apart", () => {
+    const { schedule } = parseTimer("R3/PT1H", { usage: "start" });
+    expect(schedule).toMatchObject({ kind: "cycle", repeat: 3 });
+    expect(nextFireTimes(schedule!, from).map((d) => d.toISOString())).toEqual([
+      "2026-10-19T10:00:00.000Z", "2026-10-19T11:00:00.000Z", "2026-10-19T12:00:00.000Z",
+    ]);
+  });
+
+  it("R without a count repeats until the preview is full", () => {
+    expect(nextFireTimes(parseTimer("R/PT1H", { usage: "start" }).schedule!, from, 5)).toHaveLength(5);
+  });
+
+  it("counts repetitions from the start date", () => {
+    const { schedule } = parseTimer("R3/2026-10-19T07:00:00Z/PT1H", { usage: "start" });
+    expect(nextFireTimes(schedule!, new Date(Date.UTC(2026, 9, 19, 7, 30))).map((d) => d.toISOString())).toEqual([
+      "2026-10-19T08:00:00.000Z", "2026-10-19T09:00:00.000Z",
+    ]);
+    expect(nextFireTimes(schedule!, from)).toEqual([]);
+  });
+
+  it("stops at the end date", () => {
+    const { schedule } = parseTimer("R/PT1H/2026-10-19T11:30:00Z", { usage: "start" });
+    expect(nextFireTimes(schedule!, from)).toHaveLength(2);
+  });
+
+  it("flags R0, zero periods and malformed counts", () => {
+    expect(analyzeTimer("R0/PT1H", { usage: "start", now: from }).problems).toContainEqual(
+      expect.objectContaining({ severity: "error", message: expect.stringContaining("R0 never fires") }),
+    );
+    expect(analyzeTimer("R/PT0S", { usage: "start", now: from }).problems).toContainEqual(
+      expect.objectContaining({ message: "A cycle needs a positive duration" }),
+    );
+    expect(analyzeTimer("Rx/PT1H", { usage: "start" }).problems[0].message).toContain("repetitions are written R or R<count>");
+  });
+
+  it("warns about cycles more frequent than once a minute", () => {
+    expect(analyzeTimer("R/PT30S", { usage: "start", now: from }).problems).toContainEqual(
+      expect.objectContaining({ severity: "warning", message: expect.stringContaining("Fires every") }),
+    );
+  });
+});
+
+describe("never-fires detection", () => {
+  const now = new Date(2026, 9, 19);
+
+  it("warns when a cron matches no real date", () => {
+    expect(analyzeTimer("0 0 9 30 2 ?", { usage: "start", now }).problems).toContainEqual(
+      expect.objectContaining({ message: "This cron never fires in the next eight years" }),
+    );
+  });
+
+  it("warns when the cron's years have passed", () => {
+    expect(analyzeTimer("0 0 9 1 1 ? 2020", { usage: "start", now }).problems).toContainEqual(
+      expect.objectContaining({ message: "This cron never fires in the next eight years" }),
+    );
+  });
+
+  it("stays quiet for schedules that fire", () => {
+    expect(analyzeTimer("0 0 9 29 2 ?", { usage: "start", now }).problems).toEqual([]);
+    expect(analyzeTimer("0 0 9 ? * MON-FRI", { usage: "start", now }).problems).toEqual([]);
+  });
+
+  it("flags day-of-week 1-5 as Sunday to Thursday", () => {
+    expect(analyzeTimer("0 0 9 ? * 1-5", { usage: "start", now }).problems).toContainEqual(
+      expect.objectContaining({ severity: "warning", fix: "0 0 9 ? * MON-FRI" }),
+    );
+  });
+});
@@ -11,7 +11,9 @@ export type StepType =
   | "decision"
   | "foreach"
   | "callActivity"
-  | "intermediateEvent";
+  | "intermediateEvent"
+  | "parallel"
+  | "inclusive";
 
 // ─── I/O Parameter ────────────────────────────────────────────────────────────
 
@@ -80,6 +82,15 @@ export interface DecisionBranch {
   targetStepId?: string;
 }
 
+/** One lane of a parallel/inclusive split; its steps run between the split and the join gateway */
+export interface GatewayBranch {
+  id: string;
+  label: string;
+  /** Inclusive gateways only — the branch runs when this evaluates true */
+  condition?: string;
+  steps: Step[];
+}
+
 export interface SourceMeta {
   bpmnElementId?: string;
   bpmnElementType?: string;
@@ -112,6 +123,27 @@ export interface EndEvent {
   source?: SourceMeta;
 }
 
+// ─── Event Sub-Process ────────────────────────────────────────────────────────
+
+export type EventSubProcessTrigger = "error" | "escalation" | "message" | "signal" | "timer" | "conditional" | "compensation";
+
+/** Handler that starts when its trigger fires anywhere in the case (BPMN subProcess triggeredByEvent) */
+export interface EventSubProcess {
+  id: string;
+  name: string;
+  description?: string;
+  triggerType: EventSubProcessTrigger;
+  /** Error / escalation code, message or signal name, timer expression or condition — by trigger type */
+  expression?: string;
+  /** Interrupting handlers cancel the rest of the case; default true */
+  interrupting?: boolean;
+  steps: Step[];
+  tech?: Camunda7Tech;
+  source?: SourceMeta;
+  /** BPMN id of the handler's start event */
+  startSource?: SourceMeta;
+}
+
 // ─── Process Properties ───────────────────────────────────────────────────────
 
 export interface ProcessProperties {
@@ -145,11 +177,55 @@ export interface ModuleConfigField {
   step?: number;
   accept?: string; // file accept types
   repeatableFields?: ModuleConfigField[]; // for repeatable groups
+  /** Regular expression (JavaScript syntax) the whole text value must match */
+  pattern?: string;
+  /** FEEL condition over the form's values, by field key, that makes the field required, e.g. `country = "US"` */
+  requiredWhen?: string;
+  /** Cross-field rules: this field's value compared with other fields of the form */
+  compare?: FieldComparison[];
+  /** Repeatable groups: keys of sub-fields whose values must differ from row to row */
+  uniqueFields?: string[];
+  /** Custom error messages replacing the built-in ones */
+  messages?: FieldValidationMessages;
+}
+
+export type FieldComparisonOperator = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+/** `this <operator> field`, e.g. an end date `>` the start date */
+export interface FieldComparison {
+  operator: FieldComparisonOperator;
+  /** Key of the other field */
+  field: string;
+  message?: string;
+}
+
+export interface FieldValidationMessages {
+  /** Also used when `requiredWhen` holds */
+  required?: string;
+  pattern?: string;
+  /** Outside min / max */
+  range?: string;
+  accept?: string;
+  unique?: string;
+}
+
+/** Automation node variable mapping, as edited in the node config dialog */
+export interface NodeIoMapping {
+  /** Input mappings: expression read, e.g. ${emailFetcherResult.attachmentPaths} */
+  sourceVariable: string;
+  /** Output mappings: the node output field written */
+  sourceField: string;
+  /** Input mappings: node input filled; output mappings: process variable written */
+  targetField: string;
 }
 
 export interface ModuleRef {
   moduleId: string;
+  /** Pinned automation node version (semver); absent on steps created before versioning = the node's first version */
+  version?: string;
   instanceConfig: Record<string, unknown>;
+  inputMappings?: NodeIoMapping[];
+  outputMappings?: NodeIoMapping[];
 }
 
 // ─── Form Template & Step Binding ─────────────────────────────────────────────
@@ -175,6 +251,39 @@ export interface StepPersonaVariant {
   configOverrides?: Record<string, unknown>;
 }
 
+/** Undo activity for a completed step, run when compensation is thrown (compensate end/intermediate event) */
+export interface CompensationHandler {
+  /** The compensation activity (BPMN isForCompensation task) */
+  activity: AutomationStep | UserStep;
+  /** BPMN compensation boundary event linking the step to the activity */
+  boundarySource?: SourceMeta;
+}
+
+// ─── SLA ──────────────────────────────────────────────────────────────────────
+
+export type SlaEscalationAction = "notify" | "reassign";
+
+/** One level of an escalation chain */
+export interface SlaEscalation {
+  id: string;
+  /** ISO 8601 duration after the breach; PT0S escalates at the breach itself */
+  after: string;
+  action: SlaEscalationAction;
+  /** Persona id or email */
+  to: string;
+}
+
+/** Deadline for a step or stage; compiled to timer boundary events on BPMN export */
+export interface SlaPolicy {
+  /** ISO 8601 duration, e.g. PT8H or P3D */
+  target: string;
+  /** Warn once this percentage of the target has elapsed */
+  warningPercent?: number;
+  /** Business calendar key to count working time in; absent = the step's calendar, else wall-clock time */
+  calendarRef?: string;
+  escalations?: SlaEscalation[];
+}
+
 export interface BaseStep {
   id: string;
   name: string;
@@ -188,6 +297,11 @@ export interface BaseStep {
   personaIds?: string[];
   /** Per-persona variant configs (optional) */
   personaVariants?: StepPersonaVariant[];
+  compensation?: CompensationHandler;
+  /** Automation and user steps only */
+  sla?: SlaPolicy;
+  /** Business calendar key that due dates, follow-up dates, timer waits and the SLA count in */
+  calendarRef?: string;
 }
 
 export interface AutomationStep extends BaseStep { type: "automation"; }
@@ -226,13 +340,33 @@ export interface IntermediateEventStep extends BaseStep {
   timerExpression?: string;
 }
 
+/** Parallel split (AND): every branch runs, then the join waits for all of them */
+export interface ParallelStep extends BaseStep {
+  type: "parallel";
+  branches: GatewayBranch[];
+  /** BPMN id of the matching join gateway */
+  joinSource?: SourceMeta;
+}
+
+/** Inclusive split (OR): every branch whose condition holds runs, then the join waits for those */
+export interface InclusiveStep extends BaseStep {
+  type: "inclusive";
+  branches: GatewayBranch[];
+  defaultBranchId?: string;
+  joinSource?: SourceMeta;
+}
+
+export type GatewayBlockStep = ParallelStep | InclusiveStep;
+
 export type Step =
   | AutomationStep
   | UserStep
   | DecisionStep
   | ForeachStep
   | CallActivityStep
-  | IntermediateEventStep;
+  | IntermediateEventStep
+  | ParallelStep
+  | InclusiveStep;
 
 // ─── Group & Stage ────────────────────────────────────────────────────────────
 
@@ -248,6 +382,7 @@ export interface Stage {
   color?: string;
   groups: Group[];
   source?: SourceMeta;
+  sla?: SlaPolicy;
 }
 
 // ─── Trigger ──────────────────────────────────────────────────────────────────
@@ -282,6 +417,16 @@ export interface TeamMember {
 
 export type BusinessRuleType = "validation" | "routing" | "sla" | "condition";
 
+/** A saved test for a business rule: facts about the case and the value the rule should yield */
+export interface BusinessRuleScenario {
+  id: string;
+  name: string;
+  /** FEEL literal per `dataModel` field name; fields left out are unset */
+  facts: Record<string, string>;
+  /** Expected outcome as a FEEL literal – `true`/`false` for conditions and validations */
+  expected: string;
+}
+
 export interface BusinessRule {
   id: string;
   name: string;
@@ -289,6 +434,66 @@ export interface BusinessRule {
   expression: string;
   description?: string;
   appliesTo?: string;
+  /** SLA rules: business calendar key the duration counts in */
+  calendarRef?: string;
+  scenarios?: BusinessRuleScenario[];
+}
+
+// ─── Decision Tables (DMN) ────────────────────────────────────────────────────
+
+export type DmnHitPolicy = "UNIQUE" | "FIRST" | "PRIORITY" | "ANY" | "COLLECT" | "RULE ORDER" | "OUTPUT ORDER";
+
+/** COLLECT aggregation; without one COLLECT returns every matching output */
+export type DmnAggregation = "SUM" | "MIN" | "MAX" | "COUNT";
+
+export type DmnTypeRef = "string" | "integer" | "double" | "boolean" | "date";
+
+export interface DmnInput {
+  id: string;
+  label: string;
+  /** FEEL input expression, usually a variable path such as `customer.tier` */
+  expression: string;
+  typeRef: DmnTypeRef;
+}
+
+export interface DmnOutput {
+  id: string;
+  label: string;
+  /** Result variable name */
+  name: string;
+  typeRef: DmnTypeRef;
+  /** Allowed values in priority order (FEEL literals) – ranks PRIORITY / OUTPUT ORDER */
+  outputValues?: string[];
+}
+
+export interface DmnRule {
+  id: string;
+  /** FEEL unary tests, one per input; `-` matches anything */
+  inputEntries: string[];
+  /** FEEL expressions, one per output */
+  outputEntries: string[];
+  description?: string;
+}
+
+export interface DmnTestCase {
+  id: string;
+  name: string;
+  /** FEEL literal per input id */
+  inputs: Record<string, string>;
+  /** Expected FEEL literal per output id; omitted outputs are not checked */
+  expected: Record<string, string>;
+}
+
+/** A DMN decision with a decision table; `id` is the key businessRuleTask `decisionRef`s point at */
+export interface DecisionTable {
+  id: string;
+  name: string;
+  hitPolicy: DmnHitPolicy;
+  aggregation?: DmnAggregation;
+  inputs: DmnInput[];
+  outputs: DmnOutput[];
+  rules: DmnRule[];
+  testCases?: DmnTestCase[];
 }
 
 export type DataFieldType = "string" | "number" | "boolean" | "date" | "object" | "array";
@@ -335,9 +540,11 @@ export interface CaseIR {
   processProperties?: ProcessProperties;
   stages: Stage[];
   alternativePaths?: Stage[];
+  eventSubProcesses?: EventSubProcess[];
   personas?: Persona[];
   teamMembers?: TeamMember[];
   businessRules?: BusinessRule[];
+  decisionTables?: DecisionTable[];
   dataModel?: DataField[];
   deployment?: DeploymentConfig;
   reusableModules?: ReusableModule[];
@@ -398,4 +605,5 @@ export type SelectionTarget =
   | { kind: "endEvent" }
   | { kind: "process" }
   | { kind: "boundaryEvent"; stageId: string; groupId: string; stepId: string; boundaryEventId: string }
+  | { kind: "eventSubProcess"; eventSubProcessId: string }
   | null;
@@ -9,6 +9,8 @@ const ioParamSchema = z.object({ name: z.string(), value: z.string() });
 
 export const camunda7TechSchema = z.object({
   topic: z.string().optional(),
+  dueDate: z.string().optional(),
+  followUpDate: z.string().optional(),
   asyncBefore: z.boolean().optional(),
   asyncAfter: z.boolean().optional(),
   inputParameters: z.array(ioParamSchema).optional(),
@@ -31,12 +33,38 @@ const sourceSchema = z.object({
   bpmnElementType: z.string().optional(),
 }).optional();
 
+const gatewayBranchSchema = z.object({
+  id: z.string(), label: z.string(),
+  condition: z.string().optional(),
+  steps: z.array(z.lazy(() => stepSchema)),
+});
+
+const compensationSchema = z.object({
+  activity: z.lazy(() => stepSchema),
+  boundarySource: sourceSchema,
+}).optional();
+
+const slaSchema = z.object({
+  target: z.string().min(1),
+  warningPercent: z.number().min(1).max(99).optional(),
+  calendarRef: z.string().optional(),
+  escalations: z.array(z.object({
+    id: z.string(),
+    after: z.string(),
+    action: z.enum(["notify", "reassign"]),
+    to: z.string(),
+  })).optional(),
+}).optional();
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export const stepSchema: z.ZodType<any> = z.lazy(() =>
   z.discriminatedUnion("type", [
     z.object({
       id: z.string().min(1), type: z.literal("automation"),
       name: z.string().min(1), description: z.string().optional(),
+      compensation: compensationSchema,
+      sla: slaSchema,
+      calendarRef: z.string().optional(),
       tech: camunda7TechSchema, source: sourceSchema,
     }),
     z.object({
@@ -44,6 +72,9 @@ export const stepSchema: z.ZodType<any> = z.lazy(() =>
       name: z.string().min(1), description: z.string().optional(),
       assignee: z.string().optional(),
       candidateGroups: z.array(z.string()).optional(),
+      compensation: compensationSchema,
+      sla: slaSchema,
+      calendarRef: z.string().optional(),
       tech: camunda7TechSchema, source: sourceSchema,
     }),
     z.object({
@@ -62,6 +93,7 @@ export const stepSchema: z.ZodType<any> = z.lazy(() =>
       collectionExpression: z.string(), elementVariable: z.string(),
       isSequential: z.boolean().optional(),
       steps: z.array(z.lazy(() => stepSchema)),
+      compensation: compensationSchema,
       tech: camunda7TechSchema, source: sourceSchema,
     }),
     z.object({
@@ -70,6 +102,7 @@ export const stepSchema: z.ZodType<any> = z.lazy(() =>
       calledElement: z.string(),
       inMappings: z.array(z.object({ source: z.string(), target: z.string() })).optional(),
       outMappings: z.array(z.object({ source: z.string(), target: z.string() })).optional(),
+      compensation: compensationSchema,
       tech: camunda7TechSchema, source: sourceSchema,
     }),
     z.object({
@@ -78,11 +111,40 @@ export const stepSchema: z.ZodType<any> = z.lazy(() =>
       eventSubType: z.string(),
       messageRef: z.string().optional(),
       timerExpression: z.string().optional(),
+      calendarRef: z.string().optional(),
+      tech: camunda7TechSchema, source: sourceSchema,
+    }),
+    z.object({
+      id: z.string().min(1), type: z.literal("parallel"),
+      name: z.string().min(1), description: z.string().optional(),
+      branches: z.array(gatewayBranchSchema),
+      joinSource: sourceSchema,
+      tech: camunda7TechSchema, source: sourceSchema,
+    }),
+    z.object({
+      id: z.string().min(1), type: z.literal("inclusive"),
+      name: z.string().min(1), description: z.string().optional(),
+      branches: z.array(gatewayBranchSchema),
+      defaultBranchId: z.string().optional(),
+      joinSource: sourceSchema,
       tech: camunda7TechSchema, source: sourceSchema,
     }),
   ])
 );
 
+const eventSubProcessSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  triggerType: z.enum(["error", "escalation", "message", "signal", "timer", "conditional", "compensation"]),
+  expression: z.string().optional(),
+  interrupting: z.boolean().optional(),
+  steps: z.array(stepSchema),
+  tech: camunda7TechSchema,
+  source: sourceSchema,
+  startSource: sourceSchema,
+});
+
 export const groupSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
@@ -98,6 +160,7 @@ export const stageSchema = z.object({
     bpmnElementId: z.string().optional(),
     bpmnElementType: z.string().optional(),
   }).optional(),
+  sla: slaSchema,
 });
 
 const endEventSchema = z.object({
@@ -137,6 +200,7 @@ export const caseIrSchema = z.object({
   processProperties: processPropertiesSchema,
   stages: z.array(stageSchema),
   alternativePaths: z.array(stageSchema).optional(),
+  eventSubProcesses: z.array(eventSubProcessSchema).optional(),
   metadata: z.object({
     createdAt: z.string(),
     updatedAt: z.string(),
@@ -31,6 +31,14 @@ export interface OptionBranch {
   targetId: string; // questionId, end-id, or subprocess-id
 }
 
+// Texts of a question in one locale; anything left out falls back to the source text
+export interface QuestionTranslation {
+  content?: string;
+  contentAbstract?: string;
+  // Option display text by option ID
+  options?: Record<string, string>;
+}
+
 export interface Question {
   _id: string;
   questionId: string;
@@ -47,6 +55,12 @@ export interface Question {
   language: string;
   region: string;
   status: string;
+  // Conditional logic: FEEL over earlier answers by question ID, e.g. `Q002 = "Yes" and Q004 > 10000`
+  visibleWhen?: string;
+  // Makes the question read-only; its answer is this FEEL expression, e.g. `Q004 * 12`
+  computedValue?: string;
+  // Translations by locale (e.g. "de", "fr-CA"); the fields above hold the source text in `language`
+  translations?: Record<string, QuestionTranslation>;
   // Internal editing state (not exported)
   _branches?: Record<string, OptionBranch>;
 }
@@ -94,6 +108,8 @@ export interface Flow {
   tags: string[];
   path: FlowNode[];
   firstQuestions: string[];
+  // Locales the questionnaire is translated into, besides the source language
+  locales?: string[];
   links: FlowLink[];
   nodes: FlowNode[];
   version: number;
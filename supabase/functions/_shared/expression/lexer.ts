@@ -0,0 +1,82 @@
+// Generated from src/lib/expression/lexer.ts by npm run sync:edge – do not edit
+/**
+ * Tokenizer for JUEL and FEEL expression bodies. Tokens keep their offsets in the
+ * full input so parse errors and syntax highlighting can point at the source.
+ */
+import { ExpressionError, type ExpressionDialect } from "./types.ts";
+
+export type TokenKind = "number" | "string" | "name" | "keyword" | "op" | "eof";
+
+export interface Token {
+  kind: TokenKind;
+  /** Normalized value: JUEL word operators map to their symbols (`and` → `&&`) */
+  value: string;
+  start: number;
+  end: number;
+}
+
+const JUEL_WORD_OPS: Record<string, string> = {
+  and: "&&", or: "||", not: "!", eq: "==", ne: "!=",
+  lt: "<", gt: ">", le: "<=", ge: ">=", div: "/", mod: "%",
+};
+const JUEL_KEYWORDS = new Set(["true", "false", "null", "empty"]);
+const JUEL_SYMBOLS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "+", "-", "*", "/", "%", "(", ")", "[", "]", ".", "?", ":", ","];
+
+export const FEEL_KEYWORDS = new Set([
+  "and", "or", "true", "false", "null", "if", "then", "else", "between", "in",
+  "for", "some", "every", "return", "satisfies", "instance", "of", "function",
+]);
+const FEEL_SYMBOLS = ["**", "..", "!=", "<=", ">=", "=", "<", ">", "+", "-", "*", "/", "(", ")", "[", "]", "{", "}", ".", ",", ":"];
+
+/**
+ * Tokenize `text.slice(start, end)`. Throws ExpressionError on characters the
+ * dialect does not allow and on unterminated strings.
+ */
+export function tokenize(text: string, dialect: ExpressionDialect, start = 0, end = text.length): Token[] {
+  const tokens: Token[] = [];
+  const symbols = dialect === "juel" ? JUEL_SYMBOLS : FEEL_SYMBOLS;
+  let i = start;
+  while (i < end) {
+    const ch = text[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(text[i + 1] ?? ""))) {
+      const m = /^\d*(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(text.slice(i, end))!;
+      tokens.push({ kind: "number", value: m[0], start: i, end: i + m[0].length });
+      i += m[0].length;
+      continue;
+    }
+    if (ch === '"' || (ch === "'" && dialect === "juel")) {
+      let j = i + 1;
+      let value = "";
+      while (j < end && text[j] !== ch) {
+        if (text[j] === "\\" && j + 1 < end) {
+          const next = text[j + 1];
+          value += next === "n" && dialect === "feel" ? "\n" : next === "t" && dialect === "feel" ? "\t" : next;
+          j += 2;
+          continue;
+        }
+        value += text[j++];
+      }
+      if (j >= end) throw new ExpressionError("Unterminated string", text, { start: i, end });
+      tokens.push({ kind: "string", value, start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(ch) || (dialect === "feel" && ch === "?")) {
+      let j = i + 1;
+      while (j < end && /[A-Za-z0-9_$]/.test(text[j])) j++;
+      const word = text.slice(i, j);
+      if (dialect === "juel" && Object.prototype.hasOwnProperty.call(JUEL_WORD_OPS, word)) tokens.push({ kind: "op", value: JUEL_WORD_OPS[word], start: i, end: j });
+      else if ((dialect === "juel" ? JUEL_KEYWORDS : FEEL_KEYWORDS).has(word)) tokens.push({ kind: "keyword", value: word, start: i, end: j });
+      else tokens.push({ kind: "name", value: word, start: i, end: j });
+      i = j;
+      continue;
+    }
+    const sym = symbols.find(op => text.startsWith(op, i));
+    if (!sym) throw new ExpressionError(`Unexpected character '${ch}'`, text, { start: i, end: i + 1 });
+    tokens.push({ kind: "op", value: sym, start: i, end: i + sym.length });
+    i += sym.length;
+  }
+  tokens.push({ kind: "eof", value: "", start: end, end });
+  return tokens;
+}
@@ -0,0 +1,485 @@
+// Generated from src/lib/expression/parser.ts by npm run sync:edge – do not edit
+/**
+ * Recursive-descent parsers for JUEL expression bodies, `${...}` templates and FEEL.
+ * Both build the same ExprNode tree so one evaluator and one checker serve both dialects.
+ */
+import { tokenize, type Token } from "./lexer.ts";
+import { FEEL_FUNCTION_NAMES } from "./builtins.ts";
+import {
+  ExpressionError, type BinaryOperator, type ExprNode, type ParsedExpression, type TemplatePart,
+} from "./types.ts";
+
+export const MULTI_WORD_FUNCTIONS = FEEL_FUNCTION_NAMES.filter(n => n.includes(" ")).map(n => n.split(" "));
+
+abstract class Parser {
+  protected pos = 0;
+  constructor(protected tokens: Token[], protected text: string) {}
+
+  protected peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  protected isOp(...ops: string[]): boolean {
+    const t = this.peek();
+    return t.kind === "op" && ops.includes(t.value);
+  }
+
+  protected isKeyword(word: string): boolean {
+    const t = this.peek();
+    return t.kind === "keyword" && t.value === word;
+  }
+
+  protected next(): Token {
+    const t = this.peek();
+    if (t.kind !== "eof") this.pos++;
+    return t;
+  }
+
+  protected fail(message: string, t: Token = this.peek()): never {
+    throw new ExpressionError(t.kind === "eof" ? `${message} at end of expression` : message, this.text, { start: t.start, end: Math.max(t.end, t.start + 1) });
+  }
+
+  protected expectOp(op: string): Token {
+    if (!this.isOp(op)) this.fail(`Expected '${op}'`);
+    return this.next();
+  }
+
+  protected expectKeyword(word: string): Token {
+    if (!this.isKeyword(word)) this.fail(`Expected '${word}'`);
+    return this.next();
+  }
+
+  protected binary(op: BinaryOperator, left: ExprNode, right: ExprNode): ExprNode {
+    return { kind: "binary", op, left, right, start: left.start, end: right.end };
+  }
+
+  protected literal(t: Token): ExprNode {
+    const value = t.kind === "number" ? Number(t.value)
+      : t.kind === "string" ? t.value
+      : t.value === "null" ? null : t.value === "true";
+    return { kind: "literal", value, start: t.start, end: t.end };
+  }
+
+  protected args(): { args: ExprNode[]; end: number } {
+    this.expectOp("(");
+    const args: ExprNode[] = [];
+    if (!this.isOp(")")) {
+      do args.push(this.expression()); while (this.isOp(",") && this.next());
+    }
+    return { args, end: this.expectOp(")").end };
+  }
+
+  abstract expression(): ExprNode;
+
+  parseAll(): ExprNode {
+    if (this.peek().kind === "eof") this.fail("Empty expression");
+    const node = this.expression();
+    if (this.peek().kind !== "eof") this.fail(`Unexpected '${this.text.slice(this.peek().start, this.peek().end)}'`);
+    return node;
+  }
+}
+
+// ─── JUEL ─────────────────────────────────────────────────────────────────────
+
+class JuelParser extends Parser {
+  expression(): ExprNode {
+    const test = this.or();
+    if (!this.isOp("?")) return test;
+    this.next();
+    const consequent = this.expression();
+    this.expectOp(":");
+    const alternate = this.expression();
+    return { kind: "conditional", test, consequent, alternate, start: test.start, end: alternate.end };
+  }
+
+  private or(): ExprNode {
+    let left = this.and();
+    while (this.isOp("||")) { this.next(); left = this.binary("||", left, this.and()); }
+    return left;
+  }
+
+  private and(): ExprNode {
+    let left = this.equality();
+    while (this.isOp("&&")) { this.next(); left = this.binary("&&", left, this.equality()); }
+    return left;
+  }
+
+  private equality(): ExprNode {
+    let left = this.relational();
+    while (this.isOp("==", "!=")) left = this.binary(this.next().value as BinaryOperator, left, this.relational());
+    return left;
+  }
+
+  private relational(): ExprNode {
+    let left = this.additive();
+    while (this.isOp("<", ">", "<=", ">=")) left = this.binary(this.next().value as BinaryOperator, left, this.additive());
+    return left;
+  }
+
+  private additive(): ExprNode {
+    let left = this.multiplicative();
+    while (this.isOp("+", "-")) left = this.binary(this.next().value as BinaryOperator, left, this.multiplicative());
+    return left;
+  }
+
+  private multiplicative(): ExprNode {
+    let left = this.unary();
+    while (this.isOp("*", "/", "%")) left = this.binary(this.next().value as BinaryOperator, left, this.unary());
+    return left;
+  }
+
+  private unary(): ExprNode {
+    const t = this.peek();
+    if (this.isOp("!", "-") || this.isKeyword("empty")) {
+      this.next();
+      const operand = this.unary();
+      const op = t.value === "empty" ? "empty" : t.value as "!" | "-";
+      return { kind: "unary", op, operand, start: t.start, end: operand.end };
+    }
+    return this.postfix();
+  }
+
+  private postfix(): ExprNode {
+    let node = this.primary();
+    for (;;) {
+      if (this.isOp(".")) {
+        this.next();
+        const name = this.next();
+        if (name.kind !== "name" && name.kind !== "keyword") this.fail("Expected a property name after '.'", name);
+        if (this.isOp("(")) {
+          const { args, end } = this.args();
+          node = { kind: "method", object: node, method: name.value, args, start: node.start, end };
+        } else {
+          node = { kind: "member", object: node, property: name.value, start: node.start, end: name.end };
+        }
+      } else if (this.isOp("[")) {
+        this.next();
+        const index = this.expression();
+        const close = this.expectOp("]");
+        node = { kind: "index", object: node, index, start: node.start, end: close.end };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private primary(): ExprNode {
+    const t = this.next();
+    if (t.kind === "number" || t.kind === "string" || (t.kind === "keyword" && t.value !== "empty")) return this.literal(t);
+    if (t.kind === "name") {
+      // `prefix:fn(...)` calls a mapped function; the prefix is not significant here
+      if (this.isOp(":") && this.peek(1).kind === "name" && this.peek(2).value === "(") {
+        this.next();
+        const fn = this.next();
+        const { args, end } = this.args();
+        return { kind: "call", callee: fn.value, args, start: t.start, end };
+      }
+      if (this.isOp("(")) {
+        const { args, end } = this.args();
+        return { kind: "call", callee: t.value, args, start: t.start, end };
+      }
+      return { kind: "name", name: t.value, start: t.start, end: t.end };
+    }
+    if (t.kind === "op" && t.value === "(") {
+      const inner = this.expression();
+      const close = this.expectOp(")");
+      return { ...inner, start: t.start, end: close.end };
+    }
+    this.pos--;
+    return this.fail(t.kind === "eof" ? "Expected a value" : `Unexpected '${this.text.slice(t.start, t.end)}'`, t);
+  }
+}
+
+/** Parse a JUEL expression body (the part between `${` and `}`) */
+export function parseJuel(text: string, start = 0, end = text.length): ExprNode {
+  return new JuelParser(tokenize(text, "juel", start, end), text).parseAll();
+}
+
+/** Offset of the `}` closing the body that starts at `from`, skipping string literals; -1 when missing */
+export function closingBrace(text: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "}") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Split text with embedded `${...}` / `#{...}` into literal text and parsed expressions */
+export function parseTemplate(text: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const open = text.slice(i).search(/[$#]\{/);
+    if (open < 0) break;
+    const at = i + open;
+    if (at > i) parts.push({ kind: "text", text: text.slice(i, at) });
+    const close = closingBrace(text, at + 2);
+    if (close < 0) throw new ExpressionError("Missing closing '}'", text, { start: at, end: text.length });
+    parts.push({ kind: "expression", node: parseJuel(text, at + 2, close), start: at, end: close + 1 });
+    i = close + 1;
+  }
+  if (i < text.length) parts.push({ kind: "text", text: text.slice(i) });
+  return parts;
+}
+
+// ─── FEEL ─────────────────────────────────────────────────────────────────────
+
+class FeelParser extends Parser {
+  private inRangeEnd = false;
+
+  /** Comma-separated positive unary tests; `< 10` becomes `? < 10` */
+  unaryTests(): ExprNode[] {
+    if (this.peek().kind === "eof") this.fail("Empty test");
+    const tests: ExprNode[] = [];
+    do {
+      if (this.isOp("<", "<=", ">", ">=", "=", "!=")) {
+        const t = this.next();
+        const endpoint = this.additive();
+        const input: ExprNode = { kind: "name", name: "?", start: t.start, end: t.start };
+        tests.push({ ...this.binary(t.value === "=" ? "==" : t.value as BinaryOperator, input, endpoint), start: t.start });
+      } else {
+        tests.push(this.expression());
+      }
+    } while (this.isOp(",") && this.next());
+    if (this.peek().kind !== "eof") this.fail(`Unexpected '${this.text.slice(this.peek().start, this.peek().end)}'`);
+    return tests;
+  }
+
+  expression(): ExprNode {
+    if (this.isKeyword("if")) {
+      const start = this.next().start;
+      const test = this.expression();
+      this.expectKeyword("then");
+      const consequent = this.expression();
+      this.expectKeyword("else");
+      const alternate = this.expression();
+      return { kind: "conditional", test, consequent, alternate, start, end: alternate.end };
+    }
+    for (const word of ["for", "some", "every", "function"]) {
+      if (this.isKeyword(word)) this.fail(`'${word}' expressions are not supported`);
+    }
+    return this.disjunction();
+  }
+
+  private disjunction(): ExprNode {
+    let left = this.conjunction();
+    while (this.isKeyword("or")) { this.next(); left = this.binary("||", left, this.conjunction()); }
+    return left;
+  }
+
+  private conjunction(): ExprNode {
+    let left = this.comparison();
+    while (this.isKeyword("and")) { this.next(); left = this.binary("&&", left, this.comparison()); }
+    return left;
+  }
+
+  private comparison(): ExprNode {
+    const left = this.additive();
+    if (this.isOp("=", "!=", "<", ">", "<=", ">=")) {
+      const op = this.next().value;
+      return this.binary(op === "=" ? "==" : op as BinaryOperator, left, this.additive());
+    }
+    if (this.isKeyword("between")) {
+      this.next();
+      const low = this.additive();
+      this.expectKeyword("and");
+      const high = this.additive();
+      return { kind: "between", value: left, low, high, start: left.start, end: high.end };
+    }
+    if (this.isKeyword("in")) {
+      this.next();
+      const tests: ExprNode[] = [];
+      let end: number;
+      if (this.isOp("(") && !this.isRangeAhead()) {
+        this.next();
+        do tests.push(this.additive()); while (this.isOp(",") && this.next());
+        end = this.expectOp(")").end;
+      } else {
+        const test = this.additive();
+        tests.push(test);
+        end = test.end;
+      }
+      return { kind: "in", value: left, tests, start: left.start, end };
+    }
+    return left;
+  }
+
+  /** `(` opens a range like (0..10] rather than a list of tests */
+  private isRangeAhead(): boolean {
+    for (let i = 1; this.peek(i).kind !== "eof"; i++) {
+      const t = this.peek(i);
+      if (t.kind === "op" && t.value === "..") return true;
+      if (t.kind === "op" && (t.value === "," || t.value === ")" || t.value === "(")) return false;
+    }
+    return false;
+  }
+
+  private additive(): ExprNode {
+    let left = this.multiplicative();
+    while (this.isOp("+", "-")) left = this.binary(this.next().value as BinaryOperator, left, this.multiplicative());
+    return left;
+  }
+
+  private multiplicative(): ExprNode {
+    let left = this.exponent();
+    while (this.isOp("*", "/")) left = this.binary(this.next().value as BinaryOperator, left, this.exponent());
+    return left;
+  }
+
+  private exponent(): ExprNode {
+    let left = this.unary();
+    while (this.isOp("**")) { this.next(); left = this.binary("**", left, this.unary()); }
+    return left;
+  }
+
+  private unary(): ExprNode {
+    if (this.isOp("-")) {
+      const t = this.next();
+      const operand = this.unary();
+      return { kind: "unary", op: "-", operand, start: t.start, end: operand.end };
+    }
+    return this.postfix();
+  }
+
+  private postfix(): ExprNode {
+    let node = this.primary();
+    for (;;) {
+      if (this.isOp(".")) {
+        this.next();
+        const name = this.next();
+        if (name.kind !== "name" && name.kind !== "keyword") this.fail("Expected a property name after '.'", name);
+        node = { kind: "member", object: node, property: name.value, start: node.start, end: name.end };
+      } else if (this.isOp("[") && !this.inRangeEnd && node.kind !== "range") {
+        this.next();
+        const index = this.expression();
+        const close = this.expectOp("]");
+        node = { kind: "index", object: node, index, start: node.start, end: close.end };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  /** Multi-word built-in such as `string length(` starting at the current token */
+  private multiWordCall(): string | null {
+    for (const words of MULTI_WORD_FUNCTIONS) {
+      if (words.every((w, i) => {
+        const t = this.peek(i);
+        return (t.kind === "name" || t.kind === "keyword") && t.value === w;
+      }) && this.peek(words.length).kind === "op" && this.peek(words.length).value === "(") {
+        return words.join(" ");
+      }
+    }
+    return null;
+  }
+
+  private rangeEnd(low: ExprNode, start: number, startIncluded: boolean): ExprNode {
+    // The closing bracket may be `[`, so the upper bound must not swallow it as an index
+    this.inRangeEnd = true;
+    let high: ExprNode;
+    try {
+      high = this.additive();
+    } finally {
+      this.inRangeEnd = false;
+    }
+    const t = this.next();
+    if (t.kind !== "op" || ![")", "]", "["].includes(t.value)) this.fail("Expected ']', '[' or ')' to close the range", t);
+    return { kind: "range", low, high, startIncluded, endIncluded: t.value === "]", start, end: t.end };
+  }
+
+  private primary(): ExprNode {
+    const multi = this.multiWordCall();
+    if (multi) {
+      const start = this.peek().start;
+      this.pos += multi.split(" ").length;
+      const { args, end } = this.args();
+      return { kind: "call", callee: multi, args, start, end };
+    }
+    const t = this.next();
+    if (t.kind === "number" || t.kind === "string") return this.literal(t);
+    if (t.kind === "keyword" && (t.value === "true" || t.value === "false" || t.value === "null")) return this.literal(t);
+    if (t.kind === "name") {
+      if (this.isOp("(")) {
+        const { args, end } = this.args();
+        return { kind: "call", callee: t.value, args, start: t.start, end };
+      }
+      return { kind: "name", name: t.value, start: t.start, end: t.end };
+    }
+    if (t.kind === "op") {
+      if (t.value === "[") {
+        if (this.isOp("]")) return { kind: "list", items: [], start: t.start, end: this.next().end };
+        const first = this.expression();
+        if (this.isOp("..")) { this.next(); return this.rangeEnd(first, t.start, true); }
+        const items = [first];
+        while (this.isOp(",")) { this.next(); items.push(this.expression()); }
+        return { kind: "list", items, start: t.start, end: this.expectOp("]").end };
+      }
+      if (t.value === "]") {
+        const low = this.additive();
+        this.expectOp("..");
+        return this.rangeEnd(low, t.start, false);
+      }
+      if (t.value === "(") {
+        const inner = this.expression();
+        if (this.isOp("..")) { this.next(); return this.rangeEnd(inner, t.start, false); }
+        const close = this.expectOp(")");
+        return { ...inner, start: t.start, end: close.end };
+      }
+      if (t.value === "{") {
+        const entries: Array<{ key: string; value: ExprNode }> = [];
+        if (!this.isOp("}")) {
+          do {
+            const key = this.next();
+            if (key.kind !== "name" && key.kind !== "string" && key.kind !== "keyword") this.fail("Expected a context key", key);
+            this.expectOp(":");
+            entries.push({ key: key.value, value: this.expression() });
+          } while (this.isOp(",") && this.next());
+        }
+        return { kind: "context", entries, start: t.start, end: this.expectOp("}").end };
+      }
+    }
+    this.pos--;
+    return this.fail(t.kind === "eof" ? "Expected a value" : `Unexpected '${this.text.slice(t.start, t.end)}'`, t);
+  }
+}
+
+/** Parse a FEEL expression, e.g. a DMN literal expression or an `=`-prefixed field */
+export function parseFeel(text: string, start = 0, end = text.length): ExprNode {
+  return new FeelParser(tokenize(text, "feel", start, end), text).parseAll();
+}
+
+/** A DMN input entry: no tests means any value matches (`-` or empty) */
+export interface UnaryTests {
+  negated: boolean;
+  tests: ExprNode[];
+}
+
+/** Parse FEEL unary tests such as `-`, `"gold","silver"`, `>= 18`, `[1..10]` or `not(< 0)` */
+export function parseUnaryTests(text: string): UnaryTests {
+  if (text.trim() === "" || text.trim() === "-") return { negated: false, tests: [] };
+  const not = /^(\s*not\s*\()[\s\S]*\)\s*$/.exec(text);
+  const start = not ? not[1].length : 0;
+  const end = not ? text.lastIndexOf(")") : text.length;
+  return { negated: !!not, tests: new FeelParser(tokenize(text, "feel", start, end), text).unaryTests() };
+}
+
+// ─── Field input ──────────────────────────────────────────────────────────────
+
+/**
+ * Parse what a designer typed into an expression field: `=`-prefixed input is FEEL
+ * (as in Zeebe), text with `${...}` is a JUEL template, anything else is plain text.
+ */
+export function parseExpression(text: string): ParsedExpression {
+  const lead = text.length - text.trimStart().length;
+  if (text.trimStart().startsWith("=")) return { dialect: "feel", node: parseFeel(text, lead + 1) };
+  if (/[$#]\{/.test(text)) return { dialect: "juel", parts: parseTemplate(text) };
+  return { dialect: "plain", text };
+}
@@ -0,0 +1,82 @@
+// Generated from src/lib/expression/types.ts by npm run sync:edge – do not edit
+/**
+ * Expression language types – the syntax tree shared by the JUEL and FEEL parsers,
+ * the errors they raise and the values the sandboxed evaluator produces.
+ */
+
+/** `juel` is Camunda 7's `${...}` language; `feel` is DMN's Friendly Enough Expression Language */
+export type ExpressionDialect = "juel" | "feel";
+
+export type ExpressionVariables = Record<string, unknown>;
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export class ExpressionError extends Error {
+  constructor(
+    /** What went wrong, without the expression (for inline display) */
+    public readonly reason: string,
+    public readonly expression: string,
+    /** Offending part of the expression, when known */
+    public readonly range?: SourceRange,
+  ) {
+    super(`${reason} in "${expression}"`);
+    this.name = "ExpressionError";
+  }
+}
+
+/** FEEL duration; day-time durations use `ms`, year-month durations use `months` */
+export interface Duration {
+  kind: "duration";
+  months: number;
+  ms: number;
+}
+
+/** FEEL range literal, e.g. [1..10] or ]0..1[ */
+export interface RangeValue {
+  kind: "range";
+  start: unknown;
+  end: unknown;
+  startIncluded: boolean;
+  endIncluded: boolean;
+}
+
+export type BinaryOperator =
+  | "+" | "-" | "*" | "/" | "%" | "**"
+  | "==" | "!=" | "<" | ">" | "<=" | ">="
+  | "&&" | "||";
+
+export type ExprNode = SourceRange & (
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "name"; name: string }
+  | { kind: "member"; object: ExprNode; property: string }
+  /** JUEL `a[b]`; FEEL `list[1]` (index) or `list[item > 1]` (filter) */
+  | { kind: "index"; object: ExprNode; index: ExprNode }
+  | { kind: "call"; callee: string; args: ExprNode[] }
+  /** JUEL method call on a value, e.g. `items.size()` */
+  | { kind: "method"; object: ExprNode; method: string; args: ExprNode[] }
+  | { kind: "unary"; op: "!" | "-" | "empty"; operand: ExprNode }
+  | { kind: "binary"; op: BinaryOperator; left: ExprNode; right: ExprNode }
+  /** JUEL `a ? b : c`; FEEL `if a then b else c` */
+  | { kind: "conditional"; test: ExprNode; consequent: ExprNode; alternate: ExprNode }
+  | { kind: "list"; items: ExprNode[] }
+  | { kind: "context"; entries: Array<{ key: string; value: ExprNode }> }
+  | { kind: "range"; low: ExprNode; high: ExprNode; startIncluded: boolean; endIncluded: boolean }
+  | { kind: "between"; value: ExprNode; low: ExprNode; high: ExprNode }
+  /** FEEL `x in (tests)`: true when any test matches */
+  | { kind: "in"; value: ExprNode; tests: ExprNode[] }
+);
+
+/** A `${...}` template: literal text interleaved with JUEL expressions */
+export type TemplatePart =
+  | { kind: "text"; text: string }
+  | { kind: "expression"; node: ExprNode; start: number; end: number };
+
+/** Parsed input as typed into an expression field */
+export type ParsedExpression =
+  | { dialect: "juel"; parts: TemplatePart[] }
+  | { dialect: "feel"; node: ExprNode }
+  /** Plain text such as "PT5M" or "50"; used verbatim */
+  | { dialect: "plain"; text: string };
@@ -0,0 +1,194 @@
+// Generated from src/lib/questionnaire/submission.ts by npm run sync:edge – do not edit
+/**
+ * Questionnaire submission checks – what the questionnaire-fill function decides before it
+ * stores anything: whether answers and path fit the questionnaire, whether the signed-in
+ * user may fill a user task, and when a response no longer takes answers. The function
+ * gets a copy (npm run sync:edge), so the engine and the database are reached through the
+ * caller; this module imports nothing outside src/lib.
+ */
+import { evaluateLogic, formatLogicValue, type Answers, type LogicQuestion } from "./evaluation.ts";
+
+type Answer = Answers[string];
+
+/** What the checks read of a question; the function passes its stored documents' questions */
+export interface FillQuestion extends LogicQuestion {
+  content: string;
+  mandatory: "True" | "False";
+  options: Array<{ id: string; display: string }>;
+}
+
+export interface FillPathNode {
+  id: string;
+  options?: Array<{ id: string; next: Array<{ id: string; nextEntityType: "question" | "end" | "subprocess" }> }>;
+}
+
+export interface FillDocument {
+  flow: { flowId: string; firstQuestions: string[]; path?: FillPathNode[] };
+  questions: FillQuestion[];
+}
+
+export interface Problem {
+  questionId?: string;
+  message: string;
+}
+
+/** A refusal with the HTTP status the function answers with */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string, public readonly problems?: Problem[]) {
+    super(message);
+  }
+}
+
+const OPTION_TYPES = ["Dropdown", "RadioButton", "MultiSelect"];
+const END = "__end__";
+export const MAX_TEXT_ANSWER = 10_000;
+
+/* ── Answers ── */
+
+const isBlank = (a: Answer | undefined) => a === undefined || (Array.isArray(a) ? a.length === 0 : a.trim() === "");
+const label = (q: FillQuestion) => `"${q.content || q.questionId}"`;
+
+/** Where a question leads for an answer: its option's branch, else the next question in list order, as the preview routes */
+function nextOf(doc: FillDocument, index: number, answer: Answer | undefined): string {
+  const q = doc.questions[index];
+  if (OPTION_TYPES.includes(q.questionType) && q.options.length > 0 && answer !== undefined) {
+    const chosen = Array.isArray(answer) ? answer[0] : answer;
+    const opt = q.options.find((o) => o.display === chosen || o.id === chosen);
+    const branch = opt && doc.flow.path?.find((n) => n.id === q.questionId)?.options?.find((o) => o.id === opt.id)?.next?.[0];
+    if (branch?.nextEntityType === "question" && branch.id) return branch.id;
+    if (branch?.nextEntityType === "end" || branch?.nextEntityType === "subprocess") return END;
+  }
+  return doc.questions[index + 1]?.questionId ?? END;
+}
+
+function answerProblem(q: FillQuestion, answer: Answer): string | null {
+  if (OPTION_TYPES.includes(q.questionType)) {
+    const values = Array.isArray(answer) ? answer : [answer];
+    if (q.questionType !== "MultiSelect" && values.length > 1) return `${label(q)} takes a single option`;
+    const bad = values.find((v) => !q.options.some((o) => o.display === v || o.id === v));
+    return bad === undefined ? null : `"${bad}" is not an option of ${label(q)}`;
+  }
+  if (Array.isArray(answer)) return `${label(q)} takes a single value`;
+  if (q.questionType === "NumberInput" && !Number.isFinite(Number(answer))) return `${label(q)} must be a number`;
+  if (q.questionType === "DatePicker" && (!/^\d{4}-\d{2}-\d{2}$/.test(answer) || Number.isNaN(Date.parse(answer)))) {
+    return `${label(q)} must be a date (yyyy-mm-dd)`;
+  }
+  if (answer.length > MAX_TEXT_ANSWER) return `${label(q)} is longer than ${MAX_TEXT_ANSWER} characters`;
+  return null;
+}
+
+/**
+ * Problems with a submission, and its answers narrowed to the path. Every visible question
+ * the answers route to must be on the path, and every question on the path must be a
+ * visible one they route to. Computed questions get their recomputed values, whatever the
+ * client sent for them.
+ */
+export function validateSubmission(doc: FillDocument, answers: Answers, path: string[]): { problems: Problem[]; answers: Answers } {
+  const problems: Problem[] = [];
+  const index = new Map(doc.questions.map((q, i) => [q.questionId, i]));
+  const onPath = new Set(path);
+  for (const id of path) {
+    if (!index.has(id)) problems.push({ message: `Unknown question "${id}"` });
+  }
+  if (onPath.size !== path.length) problems.push({ message: "A question appears on the path twice" });
+  if (problems.length > 0) return { problems, answers: {} };
+
+  const given: Answers = {};
+  for (const id of path) {
+    if (answers[id] !== undefined && !doc.questions[index.get(id)!].computedValue?.trim()) given[id] = answers[id];
+  }
+  const logic = evaluateLogic(doc.questions, given);
+  const computed = (q: FillQuestion) => formatLogicValue(logic.values[q.questionId]);
+
+  const entries = doc.flow.firstQuestions.filter((id) => index.has(id));
+  const queue = entries.length > 0 ? [...entries] : doc.questions.slice(0, 1).map((q) => q.questionId);
+  const reached = new Set<string>();
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reached.has(id) || !index.has(id)) continue;
+    reached.add(id);
+    const q = doc.questions[index.get(id)!];
+    const hidden = logic.hidden.has(id);
+    if (hidden && onPath.has(id)) {
+      problems.push({ questionId: id, message: `${label(q)} is hidden by its show-when condition` });
+    } else if (!hidden && !onPath.has(id)) {
+      problems.push({ questionId: id, message: `${label(q)} was skipped, but the answers lead to it` });
+    }
+    // Hidden questions route as if unanswered, as the preview skips them
+    const routed = hidden || !onPath.has(id) ? undefined : q.computedValue?.trim() ? computed(q) : given[id];
+    const next = nextOf(doc, index.get(id)!, routed);
+    if (next !== END) queue.push(next);
+  }
+
+  const kept: Answers = {};
+  for (const id of path) {
+    const q = doc.questions[index.get(id)!];
+    if (!reached.has(id)) problems.push({ questionId: id, message: `${label(q)} is not on the route the answers take` });
+    if (logic.hidden.has(id)) continue;
+    if (q.computedValue?.trim()) {
+      const value = computed(q);
+      if (value !== "") kept[id] = value;
+      continue;
+    }
+    const answer = given[id];
+    if (isBlank(answer)) {
+      // File uploads are not stored by this API, so they cannot be required here
+      if (q.mandatory === "True" && q.questionType !== "FileUpload") problems.push({ questionId: id, message: `${label(q)} is required` });
+      continue;
+    }
+    const problem = answerProblem(q, answer);
+    if (problem) problems.push({ questionId: id, message: problem });
+    kept[id] = answer;
+  }
+  return { problems, answers: kept };
+}
+
+/* ── Tasks ── */
+
+export interface EngineTask {
+  id: string;
+  assignee: string | null;
+  formKey: string | null;
+  suspended: boolean;
+}
+
+/** The engine calls the task check needs; failures to reach the engine are the caller's to raise */
+export interface TaskLookup {
+  /** The open task, or null when the engine does not know it */
+  task(taskId: string): Promise<EngineTask | null>;
+  /** Whether `email` is a candidate user of the task, directly or through a group */
+  isCandidate(taskId: string, email: string): Promise<boolean>;
+}
+
+/**
+ * Rejects unless the user signed in as `email` may fill the task with this questionnaire:
+ * the task is open, its form key binds the questionnaire and the user is its assignee or,
+ * while unassigned, a candidate. `engine` is null when no engine is configured.
+ */
+export async function checkTask(taskId: string, flowId: string, email: string | null | undefined, engine: TaskLookup | null): Promise<void> {
+  if (!email) throw new HttpError(401, "Sign in to fill this task");
+  if (!engine) throw new HttpError(503, "Tasks cannot be filled while no engine is configured");
+  const task = await engine.task(taskId);
+  if (!task) throw new HttpError(404, "This task does not exist or is already completed");
+  if (task.formKey !== `questionnaire:${flowId}`) throw new HttpError(403, "This task is not filled with this questionnaire");
+  if (task.suspended) throw new HttpError(409, "This task is suspended");
+  if (task.assignee) {
+    if (task.assignee !== email) throw new HttpError(403, "This task is assigned to someone else");
+    return;
+  }
+  if (!(await engine.isCandidate(taskId, email))) throw new HttpError(403, "You are not a candidate for this task");
+}
+
+/* ── Responses ── */
+
+const ALREADY_SUBMITTED = "These answers were already submitted";
+
+/** Rejects saving or submitting a response that was already submitted */
+export function assertNotSubmitted(response: { status: "in_progress" | "submitted" } | null): void {
+  if (response?.status === "submitted") throw new HttpError(409, ALREADY_SUBMITTED);
+}
+
+/** The refusal for a failed submission insert: a concurrent submit of the same response got there first when response_id is taken */
+export function submissionInsertError(error: { code?: string; message: string }): HttpError {
+  return error.code === "23505" ? new HttpError(409, ALREADY_SUBMITTED) : new HttpError(500, error.message);
+}
@@ -42,8 +42,9 @@ Step types:
 - callActivity: { id, type:"callActivity", name, calledElement }
 
 ## Patch Rules
-1. Use 0-based JSON Pointer paths: /stages/0/name, /stages/1/steps/2
-2. To append to an array use "-": /stages/-, /stages/0/steps/-, /personas/-, /teamMembers/-, /businessRules/-, /dataModel/-
+1. Address existing elements by their id, never by position: /stages[id=stage_x]/name, /stages[id=stage_x]/groups[id=grp_y]/steps[id=step_z]/name, /personas[id=persona_a]
+   Copy ids exactly from the current workflow; a path naming an id that doesn't exist is rejected
+2. To append to an array use "-": /stages/-, /stages[id=stage_x]/groups[id=grp_y]/steps/-, /personas/-, /teamMembers/-, /businessRules/-, /dataModel/-
 3. When adding a step, always include: id (short unique like "step_abc123"), type, name + type-required fields
 4. When adding a stage: id, name, steps:[]
 5. When adding a persona: id, name, role, permissions:[]
@@ -0,0 +1,326 @@
+/**
+ * questionnaire-fill – public API behind the /fill/:flowId route. Respondents load a
+ * published questionnaire, save their answers to resume later and submit them.
+ *
+ * Submissions are validated here, not trusted from the browser: answered questions must fit
+ * their type and options, required questions on the path must be answered, and the path
+ * must follow the branches the answers select. Show-when conditions and computed values are
+ * evaluated with the preview's own FEEL logic, so hidden questions are left out and computed
+ * answers are recomputed. These checks live in src/lib/questionnaire/submission.ts, copied
+ * to _shared. Valid submissions are recorded in questionnaire_submissions; when
+ * CAMUNDA_REST_URL is set they also start an instance of the questionnaire's process or
+ * complete the user task it was opened for.
+ *
+ * A user task is filled by its assignee or, while it is unassigned, one of its candidates,
+ * signed in under the email that is their engine user ID. "open" checks the task with the
+ * engine and binds it to a new response; later requests take the task from that response
+ * only, and submitting checks it again before completing it.
+ *
+ * POST { action: "open", flowId, taskId }                             → { token }
+ * POST { action: "load", flowId, token? }
+ * POST { action: "save", flowId, token?, answers, progress, locale? }  → { token }
+ * POST { action: "submit", flowId, token?, answers, path, locale? }   → { token, submissionId, dispatchStatus }
+ *      422 { error, problems: [{ questionId?, message }] } when validation fails
+ */
+import { createClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Answers } from "../_shared/questionnaire/evaluation.ts";
+import {
+  assertNotSubmitted, checkTask as checkTaskAccess, HttpError, submissionInsertError, validateSubmission,
+  type EngineTask, type FillDocument, type TaskLookup,
+} from "../_shared/questionnaire/submission.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+interface QuestionnaireRow {
+  id: string;
+  flow_id: string;
+  name: string;
+  status: string;
+  version: number;
+  document: FillDocument;
+  start_process_key: string | null;
+}
+
+interface ResponseRow {
+  id: string;
+  resume_token: string;
+  version: number;
+  respondent_id: string | null;
+  task_id: string | null;
+  locale: string | null;
+  answers: Answers;
+  progress: Record<string, unknown>;
+  status: "in_progress" | "submitted";
+}
+
+const RESPONSE_COLUMNS = "id,resume_token,version,respondent_id,task_id,locale,answers,progress,status";
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_PAYLOAD_CHARS = 200_000;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+/* ── Engine ── */
+
+/** The engine's REST API, or null when none is configured */
+function engine(): { base: string; headers: Record<string, string> } | null {
+  const base = Deno.env.get("CAMUNDA_REST_URL")?.replace(/\/$/, "");
+  if (!base) return null;
+  const credentials = Deno.env.get("CAMUNDA_REST_AUTH");
+  return { base, headers: { "Content-Type": "application/json", ...(credentials ? { Authorization: `Basic ${btoa(credentials)}` } : {}) } };
+}
+
+/** The task check's view of the engine's REST API */
+function taskLookup(): TaskLookup | null {
+  const api = engine();
+  if (!api) return null;
+  return {
+    async task(taskId) {
+      const res = await fetch(`${api.base}/task/${encodeURIComponent(taskId)}`, { headers: api.headers });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new HttpError(502, `The engine did not return the task (${res.status})`);
+      return (await res.json()) as EngineTask;
+    },
+    async isCandidate(taskId, email) {
+      const res = await fetch(`${api.base}/task?taskId=${encodeURIComponent(taskId)}&candidateUser=${encodeURIComponent(email)}`, { headers: api.headers });
+      if (!res.ok) throw new HttpError(502, `The engine did not return the task's candidates (${res.status})`);
+      return ((await res.json()) as EngineTask[]).length > 0;
+    },
+  };
+}
+
+/** Rejects unless `user` may fill the task (see checkTask in _shared/questionnaire/submission.ts) */
+function checkTask(taskId: string, flowId: string, user: User | null): Promise<void> {
+  return checkTaskAccess(taskId, flowId, user?.email, taskLookup());
+}
+
+function camundaVariables(answers: Answers, extra: Record<string, string>): Record<string, { value: unknown; type: string }> {
+  const out: Record<string, { value: unknown; type: string }> = {};
+  for (const [id, answer] of Object.entries(answers)) {
+    if (Array.isArray(answer)) out[id] = { value: JSON.stringify(answer), type: "Json" };
+    else out[id] = { value: answer, type: "String" };
+  }
+  for (const [name, value] of Object.entries(extra)) out[name] = { value, type: "String" };
+  return out;
+}
+
+/** Start the process or complete the task; "pending" leaves the submission to an external connector */
+async function dispatch(
+  kind: "start" | "task",
+  target: string,
+  variables: Record<string, unknown>,
+  businessKey: string,
+): Promise<{ status: "pending" | "dispatched" | "failed"; error?: string; instanceId?: string }> {
+  const api = engine();
+  if (!api) return { status: "pending" };
+  const url = kind === "start"
+    ? `${api.base}/process-definition/key/${encodeURIComponent(target)}/start`
+    : `${api.base}/task/${encodeURIComponent(target)}/complete`;
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: api.headers,
+      body: JSON.stringify(kind === "start" ? { variables, businessKey } : { variables }),
+    });
+    if (!res.ok) return { status: "failed", error: `${res.status} ${(await res.text()).slice(0, 500)}` };
+    const instanceId = kind === "start" ? ((await res.json()) as { id?: string }).id : undefined;
+    return { status: "dispatched", instanceId };
+  } catch (err) {
+    return { status: "failed", error: String(err) };
+  }
+}
+
+/* ── Handlers ── */
+
+async function findResponse(
+  db: ReturnType<typeof createClient>,
+  questionnaireId: string,
+  token: unknown,
+): Promise<ResponseRow | null> {
+  if (typeof token !== "string" || !UUID.test(token)) return null;
+  const { data, error } = await db
+    .from("questionnaire_responses")
+    .select(RESPONSE_COLUMNS)
+    .eq("questionnaire_id", questionnaireId)
+    .eq("resume_token", token)
+    .maybeSingle();
+  if (error) throw new HttpError(500, error.message);
+  return data as ResponseRow | null;
+}
+
+function readAnswers(value: unknown): Answers {
+  if (!value || typeof value !== "object" || Array.isArray(value)) throw new HttpError(400, "answers must be an object");
+  const out: Answers = {};
+  for (const [id, a] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof a === "string") out[id] = a;
+    else if (Array.isArray(a) && a.every((v) => typeof v === "string")) out[id] = a as string[];
+    else throw new HttpError(400, `Answer to "${id}" must be text or a list of texts`);
+  }
+  return out;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") return json({ error: "Use POST" }, 405);
+
+  try {
+    const raw = await req.text();
+    if (raw.length > MAX_PAYLOAD_CHARS) throw new HttpError(413, "Request is too large");
+    const body = JSON.parse(raw || "{}") as Record<string, unknown>;
+    const { action, flowId, token } = body;
+    if (typeof flowId !== "string" || !flowId) throw new HttpError(400, "flowId is required");
+
+    // Answers are stored with the service role; respondents never touch the tables directly
+    const db = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const jwt = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: auth } = jwt ? await db.auth.getUser(jwt) : { data: { user: null } };
+    const user = auth.user ?? null;
+    const respondentId = user?.id ?? null;
+
+    const { data: qData, error: qError } = await db
+      .from("questionnaires")
+      .select("id,flow_id,name,status,version,document,start_process_key")
+      .eq("flow_id", flowId)
+      .maybeSingle();
+    if (qError) throw new HttpError(500, qError.message);
+    const questionnaire = qData as QuestionnaireRow | null;
+    if (!questionnaire || questionnaire.status !== "Published") throw new HttpError(404, "This questionnaire is not published");
+
+    if (action === "open") {
+      const taskId = typeof body.taskId === "string" ? body.taskId.slice(0, 64) : "";
+      if (!taskId) throw new HttpError(400, "taskId is required");
+      await checkTask(taskId, questionnaire.flow_id, user);
+      const { data: open, error: openError } = await db
+        .from("questionnaire_responses")
+        .select("resume_token")
+        .eq("questionnaire_id", questionnaire.id)
+        .eq("task_id", taskId)
+        .eq("respondent_id", respondentId)
+        .eq("status", "in_progress")
+        .order("updated_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (openError) throw new HttpError(500, openError.message);
+      if (open) return json({ token: open.resume_token });
+      const { data, error } = await db
+        .from("questionnaire_responses")
+        .insert({ questionnaire_id: questionnaire.id, version: questionnaire.version, respondent_id: respondentId, task_id: taskId, answers: {}, progress: {} })
+        .select("resume_token")
+        .single();
+      if (error) throw new HttpError(500, error.message);
+      return json({ token: data.resume_token });
+    }
+
+    const response = await findResponse(db, questionnaire.id, token);
+    // Answers for a task stay with the user who opened it; the resume token alone does not hand them on
+    if (response?.task_id && response.respondent_id !== respondentId) {
+      throw new HttpError(403, "Sign in as the person who opened this task to continue");
+    }
+
+    if (action === "load") {
+      return json({
+        questionnaire: {
+          flowId: questionnaire.flow_id,
+          name: questionnaire.name,
+          version: questionnaire.version,
+          document: questionnaire.document,
+        },
+        response: response && {
+          token: response.resume_token,
+          status: response.status,
+          answers: response.answers,
+          progress: response.progress,
+          locale: response.locale,
+          outdated: response.version !== questionnaire.version,
+        },
+      });
+    }
+
+    if (action !== "save" && action !== "submit") throw new HttpError(400, `Unknown action "${String(action)}"`);
+    assertNotSubmitted(response);
+    const answers = readAnswers(body.answers);
+    const locale = typeof body.locale === "string" ? body.locale.slice(0, 35) : null;
+    const taskId = response?.task_id ?? null;
+
+    // Create the response on first save, so the respondent gets a resume token; tasks get theirs from "open"
+    let current = response;
+    if (!current) {
+      const { data, error } = await db
+        .from("questionnaire_responses")
+        .insert({ questionnaire_id: questionnaire.id, version: questionnaire.version, respondent_id: respondentId, locale, answers, progress: {} })
+        .select(RESPONSE_COLUMNS)
+        .single();
+      if (error) throw new HttpError(500, error.message);
+      current = data as ResponseRow;
+    }
+
+    if (action === "save") {
+      const progress = body.progress && typeof body.progress === "object" ? body.progress : {};
+      const { error } = await db
+        .from("questionnaire_responses")
+        .update({ answers, progress, locale, updated_at: new Date().toISOString() })
+        .eq("id", current.id);
+      if (error) throw new HttpError(500, error.message);
+      return json({ token: current.resume_token });
+    }
+
+    const path = Array.isArray(body.path) ? body.path.filter((id): id is string => typeof id === "string") : [];
+    if (path.length === 0) throw new HttpError(400, "path must list the answered questions in order");
+    const result = validateSubmission(questionnaire.document, answers, path);
+    if (result.problems.length > 0) {
+      // Keep what was entered so the respondent can fix it and resume
+      await db.from("questionnaire_responses").update({ answers, locale, updated_at: new Date().toISOString() }).eq("id", current.id);
+      throw new HttpError(422, "Some answers need attention", result.problems);
+    }
+
+    const kind = taskId ? "task" : questionnaire.start_process_key ? "start" : "record";
+    if (kind === "task") await checkTask(taskId!, questionnaire.flow_id, user);
+    const { data: submission, error: sError } = await db
+      .from("questionnaire_submissions")
+      .insert({
+        response_id: current.id,
+        questionnaire_id: questionnaire.id,
+        version: questionnaire.version,
+        answers: result.answers,
+        path,
+        kind,
+        process_key: kind === "start" ? questionnaire.start_process_key : null,
+        task_id: kind === "task" ? taskId : null,
+        dispatch_status: kind === "record" ? "none" : "pending",
+      })
+      .select("id")
+      .single();
+    if (sError) throw submissionInsertError(sError);
+    const now = new Date().toISOString();
+    await db.from("questionnaire_responses")
+      .update({ answers, locale, status: "submitted", submitted_at: now, updated_at: now })
+      .eq("id", current.id);
+
+    let dispatchStatus = kind === "record" ? "none" : "pending";
+    if (kind !== "record") {
+      const variables = camundaVariables(result.answers, { questionnaireFlowId: questionnaire.flow_id, questionnaireSubmissionId: submission.id });
+      const outcome = await dispatch(kind, kind === "start" ? questionnaire.start_process_key! : taskId!, variables, submission.id);
+      dispatchStatus = outcome.status;
+      if (outcome.status !== "pending") {
+        await db.from("questionnaire_submissions").update({
+          dispatch_status: outcome.status,
+          dispatch_error: outcome.error ?? null,
+          process_instance_id: outcome.instanceId ?? null,
+          dispatched_at: now,
+        }).eq("id", submission.id);
+      }
+    }
+    return json({ token: current.resume_token, submissionId: submission.id, dispatchStatus });
+  } catch (err) {
+    if (err instanceof HttpError) return json({ error: err.message, ...(err.problems ? { problems: err.problems } : {}) }, err.status);
+    if (err instanceof SyntaxError) return json({ error: "Request body must be JSON" }, 400);
+    return json({ error: String(err) }, 500);
+  }
+});
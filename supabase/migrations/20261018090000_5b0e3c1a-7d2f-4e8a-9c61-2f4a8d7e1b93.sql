@@ -0,0 +1,77 @@
+-- ============================================================
+-- Workflow revisions: immutable CaseIR snapshots, one per save
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.workflow_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workflow_id uuid NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+  revision_number int NOT NULL,
+  case_ir jsonb NOT NULL,
+  message text NOT NULL DEFAULT '',
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  restored_from uuid REFERENCES public.workflow_revisions(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (workflow_id, revision_number)
+);
+
+GRANT SELECT, INSERT ON public.workflow_revisions TO authenticated;
+GRANT ALL ON public.workflow_revisions TO service_role;
+ALTER TABLE public.workflow_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_wr_workflow ON public.workflow_revisions(workflow_id, revision_number DESC);
+
+-- Revision numbers are assigned server-side; the advisory lock serialises concurrent saves per workflow
+CREATE OR REPLACE FUNCTION public.assign_workflow_revision_number()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.workflow_id::text));
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO NEW.revision_number
+  FROM public.workflow_revisions WHERE workflow_id = NEW.workflow_id;
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_wr_number ON public.workflow_revisions;
+CREATE TRIGGER trg_wr_number BEFORE INSERT ON public.workflow_revisions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_workflow_revision_number();
+
+-- Revision content is immutable, even for the service role (author_id may still be nulled by ON DELETE SET NULL)
+CREATE OR REPLACE FUNCTION public.reject_workflow_revision_change()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF NEW.workflow_id IS DISTINCT FROM OLD.workflow_id
+     OR NEW.revision_number IS DISTINCT FROM OLD.revision_number
+     OR NEW.case_ir IS DISTINCT FROM OLD.case_ir
+     OR NEW.message IS DISTINCT FROM OLD.message
+     OR NEW.restored_from IS DISTINCT FROM OLD.restored_from
+     OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'workflow revisions are immutable';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_wr_immutable ON public.workflow_revisions;
+CREATE TRIGGER trg_wr_immutable BEFORE UPDATE ON public.workflow_revisions
+  FOR EACH ROW EXECUTE FUNCTION public.reject_workflow_revision_change();
+
+-- A new revision bumps the workflow's updated_at (the author may not have workflows_update rights)
+CREATE OR REPLACE FUNCTION public.touch_workflow_on_revision()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE public.workflows SET updated_at = NEW.created_at WHERE id = NEW.workflow_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_wr_touch_workflow ON public.workflow_revisions;
+CREATE TRIGGER trg_wr_touch_workflow AFTER INSERT ON public.workflow_revisions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_workflow_on_revision();
+
+DROP POLICY IF EXISTS wr_select ON public.workflow_revisions;
+CREATE POLICY wr_select ON public.workflow_revisions FOR SELECT TO authenticated
+  USING (public.can_view_workflow(auth.uid(), workflow_id));
+DROP POLICY IF EXISTS wr_insert ON public.workflow_revisions;
+CREATE POLICY wr_insert ON public.workflow_revisions FOR INSERT TO authenticated
+  WITH CHECK (author_id = auth.uid() AND public.can_edit_workflow(auth.uid(), workflow_id));
+-- No UPDATE / DELETE policies: rows disappear only with their workflow
@@ -0,0 +1,60 @@
+-- ============================================================
+-- Automation node registry: published node definitions, one row per semantic version
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.automation_node_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  node_id text NOT NULL CHECK (node_id ~ '^[a-z][a-z0-9-]*$'),
+  version text NOT NULL CHECK (version ~ '^\d+\.\d+\.\d+$'),
+  version_major int NOT NULL,
+  version_minor int NOT NULL,
+  version_patch int NOT NULL,
+  -- AutomationNodeDef without id / version
+  definition jsonb NOT NULL,
+  changelog text NOT NULL DEFAULT '',
+  published_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (node_id, version)
+);
+
+GRANT SELECT, INSERT ON public.automation_node_versions TO authenticated;
+GRANT ALL ON public.automation_node_versions TO service_role;
+ALTER TABLE public.automation_node_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_anv_node ON public.automation_node_versions(node_id, version_major DESC, version_minor DESC, version_patch DESC);
+
+-- Split the version for ordering and only accept versions above the node's latest
+CREATE OR REPLACE FUNCTION public.check_automation_node_version()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  parts text[] := string_to_array(NEW.version, '.');
+  latest record;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.node_id));
+  NEW.version_major := parts[1]::int;
+  NEW.version_minor := parts[2]::int;
+  NEW.version_patch := parts[3]::int;
+  NEW.created_at := now();
+  SELECT version, version_major, version_minor, version_patch INTO latest
+  FROM public.automation_node_versions WHERE node_id = NEW.node_id
+  ORDER BY version_major DESC, version_minor DESC, version_patch DESC LIMIT 1;
+  IF FOUND AND (NEW.version_major, NEW.version_minor, NEW.version_patch)
+               <= (latest.version_major, latest.version_minor, latest.version_patch) THEN
+    RAISE EXCEPTION 'version % of % must be greater than the latest published version %', NEW.version, NEW.node_id, latest.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_anv_version ON public.automation_node_versions;
+CREATE TRIGGER trg_anv_version BEFORE INSERT ON public.automation_node_versions
+  FOR EACH ROW EXECUTE FUNCTION public.check_automation_node_version();
+
+DROP POLICY IF EXISTS anv_select ON public.automation_node_versions;
+CREATE POLICY anv_select ON public.automation_node_versions FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS anv_insert ON public.automation_node_versions;
+CREATE POLICY anv_insert ON public.automation_node_versions FOR INSERT TO authenticated
+  WITH CHECK (
+    published_by = auth.uid()
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'designer'))
+  );
+-- No UPDATE / DELETE policies: a published version is immutable; publish a new one instead
@@ -0,0 +1,34 @@
+-- ============================================================
+-- Business calendars: working hours per weekday, time zone and holidays that
+-- due dates, timers and SLAs are counted in; referenced from case IR by key
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.business_calendars (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text NOT NULL UNIQUE CHECK (key ~ '^[a-z][a-z0-9-]*$'),
+  name text NOT NULL,
+  -- IANA zone, e.g. Europe/Berlin
+  time_zone text NOT NULL DEFAULT 'UTC',
+  -- 7 arrays (Sunday first) of { start, end } "HH:mm" intervals
+  hours jsonb NOT NULL DEFAULT '[[],[],[],[],[],[],[]]'::jsonb CHECK (jsonb_typeof(hours) = 'array' AND jsonb_array_length(hours) = 7),
+  -- [{ date: "yyyy-mm-dd", name }]
+  holidays jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(holidays) = 'array'),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.business_calendars TO authenticated;
+GRANT ALL ON public.business_calendars TO service_role;
+ALTER TABLE public.business_calendars ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS bc_select ON public.business_calendars;
+CREATE POLICY bc_select ON public.business_calendars FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS bc_insert ON public.business_calendars;
+CREATE POLICY bc_insert ON public.business_calendars FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+DROP POLICY IF EXISTS bc_update ON public.business_calendars;
+CREATE POLICY bc_update ON public.business_calendars FOR UPDATE TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+DROP POLICY IF EXISTS bc_delete ON public.business_calendars;
+CREATE POLICY bc_delete ON public.business_calendars FOR DELETE TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
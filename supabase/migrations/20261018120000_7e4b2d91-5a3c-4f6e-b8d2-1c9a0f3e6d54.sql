@@ -0,0 +1,114 @@
+-- ============================================================
+-- Questionnaires published from the form builder, the answers respondents
+-- save while filling them in, and the submissions that start a workflow
+-- instance or complete a user task. Respondents work through the
+-- questionnaire-fill edge function (service role); there are no anon policies.
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.questionnaires (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  flow_id text NOT NULL UNIQUE CHECK (flow_id ~ '^[A-Za-z0-9_-]+$'),
+  name text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'Draft' CHECK (status IN ('Draft', 'Published', 'Archived')),
+  -- Bumped by the trigger below whenever the document changes
+  version int NOT NULL DEFAULT 1,
+  -- QuestionnaireDocument as exported by the form builder
+  document jsonb NOT NULL,
+  -- Process definition key a submission starts an instance of; null records the answers only
+  start_process_key text,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.bump_questionnaire_version()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+BEGIN
+  IF NEW.document IS DISTINCT FROM OLD.document THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_questionnaire_version ON public.questionnaires;
+CREATE TRIGGER trg_questionnaire_version BEFORE UPDATE ON public.questionnaires
+  FOR EACH ROW EXECUTE FUNCTION public.bump_questionnaire_version();
+
+CREATE TABLE IF NOT EXISTS public.questionnaire_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  questionnaire_id uuid NOT NULL REFERENCES public.questionnaires(id) ON DELETE CASCADE,
+  -- Questionnaire version the respondent started on
+  version int NOT NULL,
+  -- Secret the respondent resumes with (part of the resume link)
+  resume_token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  respondent_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Camunda task the questionnaire was opened for, when it feeds a user task
+  task_id text,
+  locale text,
+  answers jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(answers) = 'object'),
+  -- Preview navigation: { pages: string[][], currentPage: number }
+  progress jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'submitted')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  submitted_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_qr_questionnaire ON public.questionnaire_responses(questionnaire_id, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.questionnaire_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  response_id uuid NOT NULL UNIQUE REFERENCES public.questionnaire_responses(id) ON DELETE CASCADE,
+  questionnaire_id uuid NOT NULL REFERENCES public.questionnaires(id) ON DELETE CASCADE,
+  version int NOT NULL,
+  -- Answers on the respondent's path, keyed by question ID
+  answers jsonb NOT NULL CHECK (jsonb_typeof(answers) = 'object'),
+  -- Visited question IDs in order
+  path jsonb NOT NULL CHECK (jsonb_typeof(path) = 'array'),
+  -- record: answers only; start: new instance of process_key; task: completes task_id
+  kind text NOT NULL CHECK (kind IN ('record', 'start', 'task')),
+  process_key text,
+  task_id text,
+  dispatch_status text NOT NULL DEFAULT 'none' CHECK (dispatch_status IN ('none', 'pending', 'dispatched', 'failed')),
+  dispatch_error text,
+  process_instance_id text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  dispatched_at timestamptz,
+  CHECK (kind <> 'start' OR process_key IS NOT NULL),
+  CHECK (kind <> 'task' OR task_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qs_pending ON public.questionnaire_submissions(created_at) WHERE dispatch_status = 'pending';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.questionnaires TO authenticated;
+GRANT SELECT ON public.questionnaire_responses TO authenticated;
+GRANT SELECT ON public.questionnaire_submissions TO authenticated;
+GRANT ALL ON public.questionnaires TO service_role;
+GRANT ALL ON public.questionnaire_responses TO service_role;
+GRANT ALL ON public.questionnaire_submissions TO service_role;
+ALTER TABLE public.questionnaires ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.questionnaire_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.questionnaire_submissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS q_select ON public.questionnaires;
+CREATE POLICY q_select ON public.questionnaires FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS q_insert ON public.questionnaires;
+CREATE POLICY q_insert ON public.questionnaires FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'designer'));
+DROP POLICY IF EXISTS q_update ON public.questionnaires;
+CREATE POLICY q_update ON public.questionnaires FOR UPDATE TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'designer'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'designer'));
+DROP POLICY IF EXISTS q_delete ON public.questionnaires;
+CREATE POLICY q_delete ON public.questionnaires FOR DELETE TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Designers read responses and submissions; respondents see their own. Writes go through the edge function.
+DROP POLICY IF EXISTS qr_select ON public.questionnaire_responses;
+CREATE POLICY qr_select ON public.questionnaire_responses FOR SELECT TO authenticated
+  USING (respondent_id = auth.uid() OR public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'designer'));
+DROP POLICY IF EXISTS qs_select ON public.questionnaire_submissions;
+CREATE POLICY qs_select ON public.questionnaire_submissions FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'designer'));
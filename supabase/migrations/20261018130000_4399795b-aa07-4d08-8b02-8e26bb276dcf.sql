@@ -0,0 +1,56 @@
+-- ============================================================
+-- Built-in automation nodes ship with the Studio (AUTOMATION_NODES) and are
+-- immutable: published versions must sort above the built-in one, so a row
+-- inserted through the API cannot shadow a built-in definition
+-- ============================================================
+CREATE TABLE IF NOT EXISTS public.automation_builtin_nodes (
+  node_id text PRIMARY KEY,
+  version text NOT NULL CHECK (version ~ '^\d+\.\d+\.\d+$')
+);
+
+GRANT SELECT ON public.automation_builtin_nodes TO authenticated;
+GRANT ALL ON public.automation_builtin_nodes TO service_role;
+ALTER TABLE public.automation_builtin_nodes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS abn_select ON public.automation_builtin_nodes;
+CREATE POLICY abn_select ON public.automation_builtin_nodes FOR SELECT TO authenticated USING (true);
+
+-- Keep in step with AUTOMATION_NODES in src/components/studio/automationNodes.ts
+INSERT INTO public.automation_builtin_nodes (node_id, version) VALUES
+  ('email-fetcher', '1.0.0'),
+  ('chunk-extractor', '1.0.0'),
+  ('ai-processor', '1.0.0'),
+  ('column-extractor', '1.0.0'),
+  ('email-notification', '1.0.0'),
+  ('approval', '1.0.0')
+ON CONFLICT (node_id) DO UPDATE SET version = EXCLUDED.version;
+
+-- Split the version for ordering and only accept versions above the node's
+-- latest published version and above its built-in version
+CREATE OR REPLACE FUNCTION public.check_automation_node_version()
+RETURNS trigger LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  parts text[] := string_to_array(NEW.version, '.');
+  latest record;
+  builtin int[];
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.node_id));
+  NEW.version_major := parts[1]::int;
+  NEW.version_minor := parts[2]::int;
+  NEW.version_patch := parts[3]::int;
+  NEW.created_at := now();
+  SELECT string_to_array(version, '.')::int[] INTO builtin
+  FROM public.automation_builtin_nodes WHERE node_id = NEW.node_id;
+  IF FOUND AND ARRAY[NEW.version_major, NEW.version_minor, NEW.version_patch] <= builtin THEN
+    RAISE EXCEPTION 'version % of % must be greater than the built-in version %', NEW.version, NEW.node_id, array_to_string(builtin, '.');
+  END IF;
+  SELECT version, version_major, version_minor, version_patch INTO latest
+  FROM public.automation_node_versions WHERE node_id = NEW.node_id
+  ORDER BY version_major DESC, version_minor DESC, version_patch DESC LIMIT 1;
+  IF FOUND AND (NEW.version_major, NEW.version_minor, NEW.version_patch)
+               <= (latest.version_major, latest.version_minor, latest.version_patch) THEN
+    RAISE EXCEPTION 'version % of % must be greater than the latest published version %', NEW.version, NEW.node_id, latest.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,76 @@
+/**
+ * generate-contracts – writes src/contracts.ts from the Studio's AUTOMATION_NODES.
+ * Run `npm run generate` after adding or changing an automation node.
+ */
+import { writeFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { AUTOMATION_NODES } from "../../src/components/studio/automationNodes";
+import type { JsonSchemaObject, JsonSchemaProperty, NodeContract } from "../src/schema";
+
+const OUT = fileURLToPath(new URL("../src/contracts.ts", import.meta.url));
+
+function pascal(id: string): string {
+  return id.split(/[^a-zA-Z0-9]+/).filter(Boolean).map(p => p[0].toUpperCase() + p.slice(1)).join("");
+}
+
+function tsType(prop: JsonSchemaProperty): string {
+  if (prop.enum?.length) return prop.enum.map(v => JSON.stringify(v)).join(" | ");
+  switch (prop.type) {
+    case "string": return "string";
+    case "integer":
+    case "number": return "number";
+    case "boolean": return "boolean";
+    case "array": return prop.items ? `${tsType({ type: prop.items.type })}[]` : "unknown[]";
+    case "object": return "Record<string, unknown>";
+    default: return "unknown";
+  }
+}
+
+/** A property is always present when it is required or has a default the worker fills in */
+function tsInterface(name: string, schema: JsonSchemaObject, defaults: Record<string, unknown>): string {
+  const fields = Object.entries(schema.properties).map(([key, prop]) => {
+    const optional = !schema.required.includes(key) && defaults[key] === undefined ? "?" : "";
+    const doc = prop.description ? `  /** ${prop.description} */\n` : "";
+    return `${doc}  ${key}${optional}: ${tsType(prop)};`;
+  });
+  return `export interface ${name} {\n${fields.join("\n")}\n}`;
+}
+
+const blocks: string[] = [];
+const entries: string[] = [];
+const contracts: Record<string, NodeContract> = {};
+
+for (const node of AUTOMATION_NODES) {
+  const base = pascal(node.id);
+  blocks.push(tsInterface(`${base}Input`, node.inputSchema, node.defaultConfig));
+  blocks.push(tsInterface(`${base}Output`, node.outputSchema, {}));
+  entries.push(`  ${JSON.stringify(node.id)}: { input: ${base}Input; output: ${base}Output };`);
+  contracts[node.id] = {
+    id: node.id,
+    version: node.version,
+    topic: node.topic,
+    inputSchema: node.inputSchema,
+    outputSchema: node.outputSchema,
+    defaultConfig: node.defaultConfig,
+  };
+}
+
+const source = `/**
+ * Node contracts generated from AUTOMATION_NODES (src/components/studio/automationNodes.ts).
+ * Do not edit by hand – run \`npm run generate\`.
+ */
+import type { NodeContract } from "./schema";
+
+${blocks.join("\n\n")}
+
+export interface NodeTypes {
+${entries.join("\n")}
+}
+
+export type NodeId = keyof NodeTypes;
+
+export const NODE_CONTRACTS: Record<NodeId, NodeContract> = ${JSON.stringify(contracts, null, 2)};
+`;
+
+writeFileSync(OUT, source);
+console.info(`Wrote ${AUTOMATION_NODES.length} node contracts to ${OUT}`);
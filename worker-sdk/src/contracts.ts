@@ -0,0 +1,739 @@
+/**
+ * Node contracts generated from AUTOMATION_NODES (src/components/studio/automationNodes.ts).
+ * Do not edit by hand – run `npm run generate`.
+ */
+import type { NodeContract } from "./schema";
+
+export interface EmailFetcherInput {
+  /** Email address / mailbox identifier */
+  emailId: string;
+  /** Filter emails by subject (contains) */
+  subjectFilter: string;
+  /** Filter emails by body content */
+  bodyFilter: string;
+  /** Whether to download email attachments */
+  downloadAttachment: boolean;
+  /** Maximum emails to fetch */
+  maxEmails: number;
+  /** Action after reading email */
+  moveAfterRead: "archive" | "trash" | "none" | "custom-folder";
+  /** Variable name for downstream nodes */
+  outputVariable: string;
+}
+
+export interface EmailFetcherOutput {
+  /** List of fetched email objects */
+  emails?: Record<string, unknown>[];
+  /** Document IDs of downloaded attachments */
+  attachmentDocIds?: string[];
+  /** File paths of downloaded attachments */
+  attachmentPaths?: string[];
+  /** Total number of emails fetched */
+  emailCount?: number;
+  /** ISO 8601 timestamp of fetch */
+  fetchedAt?: string;
+}
+
+export interface ChunkExtractorInput {
+  /** Variable from previous node (e.g. emailFetcherResult.attachmentPaths[0]) */
+  inputVariable: string;
+  /** Number of rows per chunk */
+  chunkSize: number;
+  /** Row number to start extraction from */
+  startRow: number;
+  /** Whether the file has a header row */
+  hasHeader: boolean;
+  /** Variable name for downstream nodes */
+  outputVariable: string;
+}
+
+export interface ChunkExtractorOutput {
+  /** Array of extracted data chunks */
+  chunks?: Record<string, unknown>[];
+  /** Total number of rows in the file */
+  totalRows?: number;
+  /** Number of chunks produced */
+  totalChunks?: number;
+  /** Column header names */
+  headers?: string[];
+}
+
+export interface AiProcessorInput {
+  /** Variable from previous node (e.g. chunkExtractorResult.chunks) */
+  inputVariable: string;
+  /** AI prompt template. Use ${variable} for interpolation. */
+  prompt: string;
+  /** Expected output format */
+  outputFormat: "json" | "csv" | "text" | "column-names";
+  /** AI model to use */
+  model: "auto" | "gpt-4" | "gpt-3.5" | "gemini-pro";
+  /** Sampling temperature */
+  temperature: number;
+  /** Variable name for downstream nodes */
+  outputVariable: string;
+}
+
+export interface AiProcessorOutput {
+  /** AI-generated response */
+  aiResponse?: Record<string, unknown>;
+  /** Extracted column names (when applicable) */
+  columnNames?: string[];
+  /** Total tokens consumed */
+  tokensUsed?: number;
+  /** Model used for processing */
+  model?: string;
+}
+
+export interface ColumnExtractorInput {
+  /** Variable pointing to the source file */
+  inputFileVariable: string;
+  /** Variable from AI processor with column names */
+  columnsVariable: string;
+  /** Comma-separated column names (if not using variable) */
+  manualColumns: string;
+  /** Output file format */
+  outputFormat: "csv" | "xlsx" | "json";
+  /** Include header row in output */
+  includeHeader: boolean;
+  /** Variable name for downstream nodes */
+  outputVariable: string;
+}
+
+export interface ColumnExtractorOutput {
+  /** Path to the generated output file */
+  outputFile?: string;
+  /** Document ID of the output file */
+  outputDocId?: string;
+  /** Confirmed list of extracted column names */
+  extractedColumns?: string[];
+  /** Number of rows in output */
+  totalRows?: number;
+}
+
+export interface EmailNotificationInput {
+  /** Comma-separated email addresses or ${variable} */
+  to: string;
+  /** CC recipients */
+  cc: string;
+  /** Email subject. Use ${variable} for dynamic values. */
+  subject: string;
+  /** Email body (HTML supported). Use ${variable} for interpolation. */
+  body: string;
+  /** Variable pointing to file from previous node */
+  attachFileVariable: string;
+  /** Display name for the sender */
+  fromAlias: string;
+  /** Email priority */
+  priority: "low" | "normal" | "high";
+  /** Variable name for downstream nodes */
+  outputVariable: string;
+}
+
+export interface EmailNotificationOutput {
+  /** Email send status */
+  sentStatus?: string;
+  /** Sent message ID */
+  messageId?: string;
+  /** Number of recipients */
+  recipients?: number;
+  /** Number of attachments sent */
+  attachmentCount?: number;
+  /** ISO 8601 timestamp of send */
+  sentAt?: string;
+}
+
+export interface ApprovalInput {
+  /** Variable from previous node to present for review (e.g. aiProcessorResult) */
+  inputVariable: string;
+  /** Persona/role that should review (from workflow personas) */
+  approverRole: string;
+  /** Specific reviewer email (overrides role) */
+  approverEmail: string;
+  /** Approval routing type */
+  approvalType: "single" | "sequential" | "parallel";
+  /** Hours before auto-escalation */
+  slaHours: number;
+  /** Persona/email for escalation on SLA breach */
+  escalateTo: string;
+  /** Behaviour when reviewer rejects */
+  onReject: "terminate" | "reroute" | "return";
+  /** Step ID to reroute to (when onReject = reroute) */
+  rerouteTo: string;
+  /** Instructions shown to the reviewer in the task form */
+  instructions: string;
+  /** Variable name for downstream nodes */
+  outputVariable: string;
+}
+
+export interface ApprovalOutput {
+  /** Reviewer decision: approved | rejected */
+  decision?: string;
+  /** Email of the person who decided */
+  reviewerEmail?: string;
+  /** Reviewer comments / reason */
+  comments?: string;
+  /** ISO 8601 timestamp of the decision */
+  decidedAt?: string;
+  /** Whether the task was escalated before decision */
+  escalated?: boolean;
+}
+
+export interface NodeTypes {
+  "email-fetcher": { input: EmailFetcherInput; output: EmailFetcherOutput };
+  "chunk-extractor": { input: ChunkExtractorInput; output: ChunkExtractorOutput };
+  "ai-processor": { input: AiProcessorInput; output: AiProcessorOutput };
+  "column-extractor": { input: ColumnExtractorInput; output: ColumnExtractorOutput };
+  "email-notification": { input: EmailNotificationInput; output: EmailNotificationOutput };
+  "approval": { input: ApprovalInput; output: ApprovalOutput };
+}
+
+export type NodeId = keyof NodeTypes;
+
+export const NODE_CONTRACTS: Record<NodeId, NodeContract> = {
+  "email-fetcher": {
+    "id": "email-fetcher",
+    "version": "1.0.0",
+    "topic": "email-fetcher-fetch",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "emailId": {
+          "type": "string",
+          "description": "Email address / mailbox identifier"
+        },
+        "subjectFilter": {
+          "type": "string",
+          "description": "Filter emails by subject (contains)"
+        },
+        "bodyFilter": {
+          "type": "string",
+          "description": "Filter emails by body content"
+        },
+        "downloadAttachment": {
+          "type": "boolean",
+          "description": "Whether to download email attachments",
+          "default": true
+        },
+        "maxEmails": {
+          "type": "integer",
+          "description": "Maximum emails to fetch",
+          "default": 10,
+          "minimum": 1,
+          "maximum": 100
+        },
+        "moveAfterRead": {
+          "type": "string",
+          "description": "Action after reading email",
+          "enum": [
+            "archive",
+            "trash",
+            "none",
+            "custom-folder"
+          ],
+          "default": "archive"
+        },
+        "outputVariable": {
+          "type": "string",
+          "description": "Variable name for downstream nodes",
+          "default": "emailFetcherResult"
+        }
+      },
+      "required": [
+        "emailId",
+        "outputVariable"
+      ]
+    },
+    "outputSchema": {
+      "type": "object",
+      "properties": {
+        "emails": {
+          "type": "array",
+          "description": "List of fetched email objects",
+          "items": {
+            "type": "object"
+          }
+        },
+        "attachmentDocIds": {
+          "type": "array",
+          "description": "Document IDs of downloaded attachments",
+          "items": {
+            "type": "string"
+          }
+        },
+        "attachmentPaths": {
+          "type": "array",
+          "description": "File paths of downloaded attachments",
+          "items": {
+            "type": "string"
+          }
+        },
+        "emailCount": {
+          "type": "integer",
+          "description": "Total number of emails fetched"
+        },
+        "fetchedAt": {
+          "type": "string",
+          "description": "ISO 8601 timestamp of fetch"
+        }
+      },
+      "required": []
+    },
+    "defaultConfig": {
+      "emailId": "",
+      "subjectFilter": "",
+      "bodyFilter": "",
+      "downloadAttachment": true,
+      "maxEmails": 10,
+      "moveAfterRead": "archive",
+      "outputVariable": "emailFetcherResult"
+    }
+  },
+  "chunk-extractor": {
+    "id": "chunk-extractor",
+    "version": "1.0.0",
+    "topic": "chunk-extractor-execute",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "inputVariable": {
+          "type": "string",
+          "description": "Variable from previous node (e.g. emailFetcherResult.attachmentPaths[0])"
+        },
+        "chunkSize": {
+          "type": "integer",
+          "description": "Number of rows per chunk",
+          "default": 100,
+          "minimum": 1,
+          "maximum": 10000
+        },
+        "startRow": {
+          "type": "integer",
+          "description": "Row number to start extraction from",
+          "default": 1,
+          "minimum": 1
+        },
+        "hasHeader": {
+          "type": "boolean",
+          "description": "Whether the file has a header row",
+          "default": true
+        },
+        "outputVariable": {
+          "type": "string",
+          "description": "Variable name for downstream nodes",
+          "default": "chunkExtractorResult"
+        }
+      },
+      "required": [
+        "inputVariable",
+        "chunkSize",
+        "outputVariable"
+      ]
+    },
+    "outputSchema": {
+      "type": "object",
+      "properties": {
+        "chunks": {
+          "type": "array",
+          "description": "Array of extracted data chunks",
+          "items": {
+            "type": "object"
+          }
+        },
+        "totalRows": {
+          "type": "integer",
+          "description": "Total number of rows in the file"
+        },
+        "totalChunks": {
+          "type": "integer",
+          "description": "Number of chunks produced"
+        },
+        "headers": {
+          "type": "array",
+          "description": "Column header names",
+          "items": {
+            "type": "string"
+          }
+        }
+      },
+      "required": []
+    },
+    "defaultConfig": {
+      "inputVariable": "",
+      "chunkSize": 100,
+      "startRow": 1,
+      "hasHeader": true,
+      "outputVariable": "chunkExtractorResult"
+    }
+  },
+  "ai-processor": {
+    "id": "ai-processor",
+    "version": "1.0.0",
+    "topic": "ai-processor-execute",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "inputVariable": {
+          "type": "string",
+          "description": "Variable from previous node (e.g. chunkExtractorResult.chunks)"
+        },
+        "prompt": {
+          "type": "string",
+          "description": "AI prompt template. Use ${variable} for interpolation."
+        },
+        "outputFormat": {
+          "type": "string",
+          "description": "Expected output format",
+          "enum": [
+            "json",
+            "csv",
+            "text",
+            "column-names"
+          ],
+          "default": "json"
+        },
+        "model": {
+          "type": "string",
+          "description": "AI model to use",
+          "enum": [
+            "auto",
+            "gpt-4",
+            "gpt-3.5",
+            "gemini-pro"
+          ],
+          "default": "auto"
+        },
+        "temperature": {
+          "type": "number",
+          "description": "Sampling temperature",
+          "default": 0.3,
+          "minimum": 0,
+          "maximum": 1
+        },
+        "outputVariable": {
+          "type": "string",
+          "description": "Variable name for downstream nodes",
+          "default": "aiProcessorResult"
+        }
+      },
+      "required": [
+        "inputVariable",
+        "prompt",
+        "outputFormat",
+        "outputVariable"
+      ]
+    },
+    "outputSchema": {
+      "type": "object",
+      "properties": {
+        "aiResponse": {
+          "type": "object",
+          "description": "AI-generated response"
+        },
+        "columnNames": {
+          "type": "array",
+          "description": "Extracted column names (when applicable)",
+          "items": {
+            "type": "string"
+          }
+        },
+        "tokensUsed": {
+          "type": "integer",
+          "description": "Total tokens consumed"
+        },
+        "model": {
+          "type": "string",
+          "description": "Model used for processing"
+        }
+      },
+      "required": []
+    },
+    "defaultConfig": {
+      "inputVariable": "",
+      "prompt": "",
+      "outputFormat": "json",
+      "model": "auto",
+      "temperature": 0.3,
+      "outputVariable": "aiProcessorResult"
+    }
+  },
+  "column-extractor": {
+    "id": "column-extractor",
+    "version": "1.0.0",
+    "topic": "column-extractor-execute",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "inputFileVariable": {
+          "type": "string",
+          "description": "Variable pointing to the source file"
+        },
+        "columnsVariable": {
+          "type": "string",
+          "description": "Variable from AI processor with column names"
+        },
+        "manualColumns": {
+          "type": "string",
+          "description": "Comma-separated column names (if not using variable)"
+        },
+        "outputFormat": {
+          "type": "string",
+          "description": "Output file format",
+          "enum": [
+            "csv",
+            "xlsx",
+            "json"
+          ],
+          "default": "csv"
+        },
+        "includeHeader": {
+          "type": "boolean",
+          "description": "Include header row in output",
+          "default": true
+        },
+        "outputVariable": {
+          "type": "string",
+          "description": "Variable name for downstream nodes",
+          "default": "columnExtractorResult"
+        }
+      },
+      "required": [
+        "inputFileVariable",
+        "outputFormat",
+        "outputVariable"
+      ]
+    },
+    "outputSchema": {
+      "type": "object",
+      "properties": {
+        "outputFile": {
+          "type": "string",
+          "description": "Path to the generated output file"
+        },
+        "outputDocId": {
+          "type": "string",
+          "description": "Document ID of the output file"
+        },
+        "extractedColumns": {
+          "type": "array",
+          "description": "Confirmed list of extracted column names",
+          "items": {
+            "type": "string"
+          }
+        },
+        "totalRows": {
+          "type": "integer",
+          "description": "Number of rows in output"
+        }
+      },
+      "required": []
+    },
+    "defaultConfig": {
+      "inputFileVariable": "",
+      "columnsVariable": "",
+      "manualColumns": "",
+      "outputFormat": "csv",
+      "includeHeader": true,
+      "outputVariable": "columnExtractorResult"
+    }
+  },
+  "email-notification": {
+    "id": "email-notification",
+    "version": "1.0.0",
+    "topic": "email-notification-send",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "to": {
+          "type": "string",
+          "description": "Comma-separated email addresses or ${variable}"
+        },
+        "cc": {
+          "type": "string",
+          "description": "CC recipients"
+        },
+        "subject": {
+          "type": "string",
+          "description": "Email subject. Use ${variable} for dynamic values."
+        },
+        "body": {
+          "type": "string",
+          "description": "Email body (HTML supported). Use ${variable} for interpolation."
+        },
+        "attachFileVariable": {
+          "type": "string",
+          "description": "Variable pointing to file from previous node"
+        },
+        "fromAlias": {
+          "type": "string",
+          "description": "Display name for the sender"
+        },
+        "priority": {
+          "type": "string",
+          "description": "Email priority",
+          "enum": [
+            "low",
+            "normal",
+            "high"
+          ],
+          "default": "normal"
+        },
+        "outputVariable": {
+          "type": "string",
+          "description": "Variable name for downstream nodes",
+          "default": "emailNotificationResult"
+        }
+      },
+      "required": [
+        "to",
+        "subject",
+        "body",
+        "outputVariable"
+      ]
+    },
+    "outputSchema": {
+      "type": "object",
+      "properties": {
+        "sentStatus": {
+          "type": "string",
+          "description": "Email send status"
+        },
+        "messageId": {
+          "type": "string",
+          "description": "Sent message ID"
+        },
+        "recipients": {
+          "type": "integer",
+          "description": "Number of recipients"
+        },
+        "attachmentCount": {
+          "type": "integer",
+          "description": "Number of attachments sent"
+        },
+        "sentAt": {
+          "type": "string",
+          "description": "ISO 8601 timestamp of send"
+        }
+      },
+      "required": []
+    },
+    "defaultConfig": {
+      "to": "",
+      "cc": "",
+      "subject": "",
+      "body": "",
+      "attachFileVariable": "",
+      "fromAlias": "",
+      "priority": "normal",
+      "outputVariable": "emailNotificationResult"
+    }
+  },
+  "approval": {
+    "id": "approval",
+    "version": "1.0.0",
+    "topic": "approval-review",
+    "inputSchema": {
+      "type": "object",
+      "properties": {
+        "inputVariable": {
+          "type": "string",
+          "description": "Variable from previous node to present for review (e.g. aiProcessorResult)"
+        },
+        "approverRole": {
+          "type": "string",
+          "description": "Persona/role that should review (from workflow personas)"
+        },
+        "approverEmail": {
+          "type": "string",
+          "description": "Specific reviewer email (overrides role)"
+        },
+        "approvalType": {
+          "type": "string",
+          "description": "Approval routing type",
+          "enum": [
+            "single",
+            "sequential",
+            "parallel"
+          ],
+          "default": "single"
+        },
+        "slaHours": {
+          "type": "integer",
+          "description": "Hours before auto-escalation",
+          "default": 24,
+          "minimum": 1,
+          "maximum": 720
+        },
+        "escalateTo": {
+          "type": "string",
+          "description": "Persona/email for escalation on SLA breach"
+        },
+        "onReject": {
+          "type": "string",
+          "description": "Behaviour when reviewer rejects",
+          "enum": [
+            "terminate",
+            "reroute",
+            "return"
+          ],
+          "default": "terminate"
+        },
+        "rerouteTo": {
+          "type": "string",
+          "description": "Step ID to reroute to (when onReject = reroute)"
+        },
+        "instructions": {
+          "type": "string",
+          "description": "Instructions shown to the reviewer in the task form"
+        },
+        "outputVariable": {
+          "type": "string",
+          "description": "Variable name for downstream nodes",
+          "default": "approvalResult"
+        }
+      },
+      "required": [
+        "inputVariable",
+        "approverRole",
+        "outputVariable"
+      ]
+    },
+    "outputSchema": {
+      "type": "object",
+      "properties": {
+        "decision": {
+          "type": "string",
+          "description": "Reviewer decision: approved | rejected"
+        },
+        "reviewerEmail": {
+          "type": "string",
+          "description": "Email of the person who decided"
+        },
+        "comments": {
+          "type": "string",
+          "description": "Reviewer comments / reason"
+        },
+        "decidedAt": {
+          "type": "string",
+          "description": "ISO 8601 timestamp of the decision"
+        },
+        "escalated": {
+          "type": "boolean",
+          "description": "Whether the task was escalated before decision"
+        }
+      },
+      "required": []
+    },
+    "defaultConfig": {
+      "inputVariable": "",
+      "approverRole": "",
+      "approverEmail": "",
+      "approvalType": "single",
+      "slaHours": 24,
+      "escalateTo": "",
+      "onReject": "terminate",
+      "rerouteTo": "",
+      "instructions": "",
+      "outputVariable": "approvalResult"
+    }
+  }
+};
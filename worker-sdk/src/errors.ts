@@ -0,0 +1,39 @@
+/**
+ * Errors a handler can throw to choose how a task fails.
+ * Anything else is treated as transient and retried until the task's retries run out.
+ */
+import type { SchemaViolation } from "./schema";
+
+/** Business error the process model catches with an error boundary event or event sub-process */
+export class BpmnError extends Error {
+  readonly code: string;
+  readonly variables: Record<string, unknown>;
+
+  constructor(code: string, message?: string, variables: Record<string, unknown> = {}) {
+    super(message ?? code);
+    this.name = "BpmnError";
+    this.code = code;
+    this.variables = variables;
+  }
+}
+
+/** Permanent technical failure: no retries, the engine raises an incident immediately */
+export class IncidentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IncidentError";
+  }
+}
+
+/** The task's variables or the handler's result do not match the node's schema */
+export class ContractViolationError extends Error {
+  readonly direction: "input" | "output";
+  readonly violations: SchemaViolation[];
+
+  constructor(direction: "input" | "output", nodeId: string, violations: SchemaViolation[]) {
+    super(`Invalid ${direction} for ${nodeId}: ${violations.map(v => `${v.path} ${v.message}`).join("; ")}`);
+    this.name = "ContractViolationError";
+    this.direction = direction;
+    this.violations = violations;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Worker SDK for the Studio's automation nodes.
+ * Register one handler per node id; the worker subscribes to the node's Camunda topic
+ * and enforces its input/output schema.
+ */
+export { createWorker } from "./worker";
+export type { Worker, WorkerOptions, NodeHandler, HandlerContext, HandlerOptions, TaskOutcome } from "./worker";
+export { BpmnError, IncidentError, ContractViolationError } from "./errors";
+export { createCamundaTaskSource } from "./taskSource";
+export type { TaskSource, ExternalTask, FetchRequest, FailureReport, CamundaTaskSourceOptions } from "./taskSource";
+export { createMemoryTaskSource } from "./memoryTaskSource";
+export type { MemoryTaskSource, MemoryTask, MemoryTaskState } from "./memoryTaskSource";
+export { validate, coerce } from "./schema";
+export type { NodeContract, JsonSchemaObject, JsonSchemaProperty, SchemaViolation } from "./schema";
+export { NODE_CONTRACTS } from "./contracts";
+export type * from "./contracts";
@@ -0,0 +1,75 @@
+/**
+ * In-memory TaskSource for unit-testing handlers without a Camunda engine.
+ * Push tasks onto a topic, run `worker.poll()`, then inspect each task's final state.
+ */
+import type { ExternalTask, FailureReport, TaskSource } from "./taskSource";
+
+export type MemoryTaskState = "open" | "locked" | "completed" | "bpmnError" | "incident";
+
+export interface MemoryTask extends ExternalTask {
+  state: MemoryTaskState;
+  /** Variables passed to complete / handleBpmnError */
+  result?: Record<string, unknown>;
+  errorCode?: string;
+  errorMessage?: string;
+  /** Every failure reported for this task, oldest first */
+  failures: FailureReport[];
+}
+
+export interface MemoryTaskSource extends TaskSource {
+  /** Queue a task on `topic`; returns its id */
+  push(topic: string, variables?: Record<string, unknown>, options?: { retries?: number | null }): string;
+  get(taskId: string): MemoryTask | undefined;
+  tasks(): MemoryTask[];
+}
+
+export function createMemoryTaskSource(): MemoryTaskSource {
+  const store = new Map<string, MemoryTask>();
+  let seq = 0;
+
+  const locked = (task: ExternalTask): MemoryTask => {
+    const t = store.get(task.id);
+    if (!t) throw new Error(`Unknown task ${task.id}`);
+    if (t.state !== "locked") throw new Error(`Task ${task.id} is not locked (state: ${t.state})`);
+    return t;
+  };
+
+  return {
+    push(topic, variables = {}, { retries = null } = {}) {
+      const id = `task_${++seq}`;
+      store.set(id, { id, topicName: topic, retries, variables: structuredClone(variables), state: "open", failures: [] });
+      return id;
+    },
+    get: id => store.get(id),
+    tasks: () => [...store.values()],
+
+    async fetchAndLock({ topics, maxTasks }) {
+      const open = [...store.values()].filter(t => t.state === "open" && topics.includes(t.topicName)).slice(0, maxTasks);
+      return open.map(t => {
+        t.state = "locked";
+        // Handlers get a copy, as they would from the engine
+        return { id: t.id, topicName: t.topicName, retries: t.retries, variables: structuredClone(t.variables) };
+      });
+    },
+    async complete(task, _workerId, variables) {
+      const t = locked(task);
+      t.state = "completed";
+      t.result = structuredClone(variables);
+    },
+    async handleBpmnError(task, _workerId, errorCode, errorMessage, variables) {
+      const t = locked(task);
+      t.state = "bpmnError";
+      t.errorCode = errorCode;
+      t.errorMessage = errorMessage;
+      t.result = structuredClone(variables);
+    },
+    async handleFailure(task, _workerId, failure) {
+      const t = locked(task);
+      t.failures.push(failure);
+      t.retries = failure.retries;
+      t.errorMessage = failure.errorMessage;
+      // The retry timeout is not simulated: a retryable task is fetchable again right away
+      t.state = failure.retries > 0 ? "open" : "incident";
+    },
+  };
+}
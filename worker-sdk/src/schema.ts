@@ -0,0 +1,117 @@
+/**
+ * Node I/O contracts and the JSON Schema subset used by AUTOMATION_NODES.
+ * The shapes mirror `JsonSchemaObject` in the Studio's automationNodes.ts.
+ */
+
+export interface JsonSchemaProperty {
+  type: string;
+  description?: string;
+  enum?: string[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  items?: { type: string };
+  pattern?: string;
+}
+
+export interface JsonSchemaObject {
+  type: "object";
+  properties: Record<string, JsonSchemaProperty>;
+  required: string[];
+}
+
+/** What a worker needs to know about one automation node */
+export interface NodeContract {
+  id: string;
+  version: string;
+  topic: string;
+  inputSchema: JsonSchemaObject;
+  outputSchema: JsonSchemaObject;
+  defaultConfig: Record<string, unknown>;
+}
+
+export interface SchemaViolation {
+  /** Property name, with `[i]` for array items */
+  path: string;
+  message: string;
+}
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number") return Number.isInteger(v) ? "integer" : "number";
+  return typeof v;
+}
+
+function matchesType(v: unknown, type: string): boolean {
+  const actual = typeOf(v);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function checkValue(path: string, v: unknown, prop: JsonSchemaProperty, out: SchemaViolation[]) {
+  if (!matchesType(v, prop.type)) {
+    out.push({ path, message: `expected ${prop.type}, got ${typeOf(v)}` });
+    return;
+  }
+  if (prop.enum && !prop.enum.includes(v as string)) {
+    out.push({ path, message: `must be one of ${prop.enum.join(", ")}` });
+  }
+  if (typeof v === "number") {
+    if (prop.minimum !== undefined && v < prop.minimum) out.push({ path, message: `must be ≥ ${prop.minimum}` });
+    if (prop.maximum !== undefined && v > prop.maximum) out.push({ path, message: `must be ≤ ${prop.maximum}` });
+  }
+  if (typeof v === "string" && prop.pattern && !new RegExp(prop.pattern).test(v)) {
+    out.push({ path, message: `must match ${prop.pattern}` });
+  }
+  if (Array.isArray(v) && prop.items) {
+    const items = prop.items;
+    v.forEach((item, i) => {
+      if (!matchesType(item, items.type)) out.push({ path: `${path}[${i}]`, message: `expected ${items.type}, got ${typeOf(item)}` });
+    });
+  }
+}
+
+/**
+ * Validate `value` against an object schema. Properties not in the schema are
+ * allowed (process variables travel alongside node config).
+ */
+export function validate(schema: JsonSchemaObject, value: Record<string, unknown>): SchemaViolation[] {
+  const out: SchemaViolation[] = [];
+  for (const key of schema.required) {
+    // defaultConfig uses "" for settings the designer must fill in
+    if (value[key] === undefined || value[key] === null || value[key] === "") out.push({ path: key, message: "is required" });
+  }
+  for (const [key, prop] of Object.entries(schema.properties)) {
+    const v = value[key];
+    if (v === undefined || v === null) continue;
+    checkValue(key, v, prop, out);
+  }
+  return out;
+}
+
+/**
+ * Convert string values to the schema type where the string is unambiguous.
+ * BPMN input parameters arrive as strings ("10", "true", "[...]"), so inputs are
+ * coerced before validation; outputs never are.
+ */
+export function coerce(schema: JsonSchemaObject, value: Record<string, unknown>): Record<string, unknown> {
+  const out = { ...value };
+  for (const [key, prop] of Object.entries(schema.properties)) {
+    const v = out[key];
+    if (typeof v !== "string" || prop.type === "string") continue;
+    const s = v.trim();
+    if ((prop.type === "integer" || prop.type === "number") && s !== "" && !Number.isNaN(Number(s))) {
+      out[key] = Number(s);
+    } else if (prop.type === "boolean" && (s === "true" || s === "false")) {
+      out[key] = s === "true";
+    } else if (prop.type === "array" || prop.type === "object") {
+      try {
+        const parsed: unknown = JSON.parse(s);
+        if (typeOf(parsed) === prop.type) out[key] = parsed;
+      } catch {
+        // Left as a string; validation reports the type mismatch
+      }
+    }
+  }
+  return out;
+}
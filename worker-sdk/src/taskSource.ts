@@ -0,0 +1,142 @@
+/**
+ * TaskSource – where a worker fetches external tasks and reports their outcome.
+ * `createCamundaTaskSource` talks to the Camunda 7 REST API; tests use
+ * `createMemoryTaskSource` from memoryTaskSource.ts instead.
+ */
+
+export interface ExternalTask {
+  id: string;
+  topicName: string;
+  /** Remaining retries; `null` until the task fails for the first time */
+  retries: number | null;
+  /** Process variables, already deserialized */
+  variables: Record<string, unknown>;
+  processInstanceId?: string;
+  activityId?: string;
+  businessKey?: string;
+}
+
+export interface FetchRequest {
+  workerId: string;
+  topics: string[];
+  maxTasks: number;
+  /** Lock duration in ms */
+  lockDuration: number;
+}
+
+export interface FailureReport {
+  errorMessage: string;
+  errorDetails?: string;
+  /** 0 makes the engine raise an incident */
+  retries: number;
+  /** Delay before the task can be fetched again, in ms */
+  retryTimeout: number;
+}
+
+export interface TaskSource {
+  fetchAndLock(request: FetchRequest): Promise<ExternalTask[]>;
+  complete(task: ExternalTask, workerId: string, variables: Record<string, unknown>): Promise<void>;
+  handleBpmnError(task: ExternalTask, workerId: string, errorCode: string, errorMessage: string, variables: Record<string, unknown>): Promise<void>;
+  handleFailure(task: ExternalTask, workerId: string, failure: FailureReport): Promise<void>;
+}
+
+// ─── Camunda 7 REST ───────────────────────────────────────────────────────────
+
+interface CamundaVariable {
+  type: string;
+  value: unknown;
+  valueInfo?: Record<string, unknown>;
+}
+
+interface CamundaExternalTask {
+  id: string;
+  topicName: string;
+  retries: number | null;
+  variables?: Record<string, CamundaVariable>;
+  processInstanceId?: string;
+  activityId?: string;
+  businessKey?: string;
+}
+
+export interface CamundaTaskSourceOptions {
+  /** e.g. `http://localhost:8080/engine-rest` */
+  baseUrl: string;
+  /** Extra request headers, e.g. `{ Authorization: "Basic ..." }` */
+  headers?: Record<string, string>;
+  /** Long-polling timeout for fetchAndLock in ms (0 = return immediately) */
+  asyncResponseTimeout?: number;
+}
+
+const INT_MIN = -(2 ** 31);
+const INT_MAX = 2 ** 31 - 1;
+
+function toCamundaVariable(value: unknown): CamundaVariable {
+  if (value === null || value === undefined) return { type: "Null", value: null };
+  if (typeof value === "string") return { type: "String", value };
+  if (typeof value === "boolean") return { type: "Boolean", value };
+  if (typeof value === "number") {
+    if (!Number.isInteger(value)) return { type: "Double", value };
+    return { type: value >= INT_MIN && value <= INT_MAX ? "Integer" : "Long", value };
+  }
+  return { type: "Json", value: JSON.stringify(value) };
+}
+
+function fromCamundaVariable(v: CamundaVariable): unknown {
+  const jsonObject = v.type === "Object" && v.valueInfo?.serializationDataFormat === "application/json";
+  if ((v.type === "Json" || jsonObject) && typeof v.value === "string") {
+    try {
+      return JSON.parse(v.value);
+    } catch {
+      return v.value;
+    }
+  }
+  return v.value;
+}
+
+function toCamundaVariables(vars: Record<string, unknown>): Record<string, CamundaVariable> {
+  return Object.fromEntries(Object.entries(vars).map(([k, v]) => [k, toCamundaVariable(v)]));
+}
+
+export function createCamundaTaskSource({ baseUrl, headers = {}, asyncResponseTimeout = 0 }: CamundaTaskSourceOptions): TaskSource {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const post = async (path: string, body: unknown): Promise<unknown> => {
+    const res = await fetch(`${root}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error(`POST ${path} failed: ${res.status} ${await res.text()}`);
+    return res.status === 204 ? null : res.json();
+  };
+
+  return {
+    async fetchAndLock({ workerId, topics, maxTasks, lockDuration }) {
+      const tasks = await post("/external-task/fetchAndLock", {
+        workerId,
+        maxTasks,
+        usePriority: true,
+        asyncResponseTimeout: asyncResponseTimeout || undefined,
+        topics: topics.map(topicName => ({ topicName, lockDuration })),
+      }) as CamundaExternalTask[];
+      return tasks.map(t => ({
+        id: t.id,
+        topicName: t.topicName,
+        retries: t.retries,
+        variables: Object.fromEntries(Object.entries(t.variables ?? {}).map(([k, v]) => [k, fromCamundaVariable(v)])),
+        processInstanceId: t.processInstanceId,
+        activityId: t.activityId,
+        businessKey: t.businessKey,
+      }));
+    },
+    async complete(task, workerId, variables) {
+      await post(`/external-task/${task.id}/complete`, { workerId, variables: toCamundaVariables(variables) });
+    },
+    async handleBpmnError(task, workerId, errorCode, errorMessage, variables) {
+      await post(`/external-task/${task.id}/bpmnError`, { workerId, errorCode, errorMessage, variables: toCamundaVariables(variables) });
+    },
+    async handleFailure(task, workerId, failure) {
+      await post(`/external-task/${task.id}/failure`, { workerId, ...failure });
+    },
+  };
+}
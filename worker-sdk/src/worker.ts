@@ -0,0 +1,199 @@
+/**
+ * Worker – runs registered node handlers against a TaskSource.
+ * For each fetched task: merge the node's defaultConfig with the task variables,
+ * validate against inputSchema, run the handler, validate the result against
+ * outputSchema and complete the task. Failures are mapped to BPMN errors,
+ * retries or incidents.
+ */
+import { NODE_CONTRACTS, type NodeId, type NodeTypes } from "./contracts";
+import { BpmnError, ContractViolationError, IncidentError } from "./errors";
+import { coerce, validate, type NodeContract } from "./schema";
+import type { ExternalTask, TaskSource } from "./taskSource";
+
+export interface HandlerContext {
+  task: ExternalTask;
+  /** All variables fetched with the task, not just the node's inputs */
+  variables: Record<string, unknown>;
+  contract: NodeContract;
+}
+
+export type NodeHandler<K extends NodeId> = (
+  input: NodeTypes[K]["input"],
+  ctx: HandlerContext,
+) => Promise<NodeTypes[K]["output"]> | NodeTypes[K]["output"];
+
+export interface HandlerOptions {
+  /** Retries for a transient failure when the engine has not set any yet (default 3) */
+  retries?: number;
+  /** Delay before a retry in ms, or a function of the retries left (default 10 s) */
+  retryTimeout?: number | ((retriesLeft: number) => number);
+  /** Report invalid input as this BPMN error so the model can catch it, instead of an incident */
+  invalidInputErrorCode?: string;
+}
+
+export interface WorkerOptions {
+  source: TaskSource;
+  workerId: string;
+  /** Tasks fetched per poll (default 10) */
+  maxTasks?: number;
+  /** Lock duration in ms (default 60 s) */
+  lockDuration?: number;
+  /** Pause between polls that found no work, in ms (default 1 s) */
+  pollInterval?: number;
+  logger?: Pick<Console, "info" | "error">;
+}
+
+export type TaskOutcome =
+  | { taskId: string; nodeId: string; kind: "completed"; variables: Record<string, unknown> }
+  | { taskId: string; nodeId: string; kind: "bpmnError"; errorCode: string; message: string }
+  | { taskId: string; nodeId: string; kind: "retry" | "incident"; message: string; retries: number };
+
+export interface Worker {
+  register<K extends NodeId>(nodeId: K, handler: NodeHandler<K>, options?: HandlerOptions): Worker;
+  /** Fetch one batch and process it; resolves once every task has been reported */
+  poll(): Promise<TaskOutcome[]>;
+  start(): void;
+  /** Stop polling; resolves after the current batch finishes */
+  stop(): Promise<void>;
+}
+
+interface Registration {
+  contract: NodeContract;
+  /** Erased to the contract level: inputs and outputs are checked at runtime */
+  handler: (input: Record<string, unknown>, ctx: HandlerContext) => unknown;
+  options: HandlerOptions;
+}
+
+/** The node's inputs: defaultConfig overlaid with the task's matching variables */
+function buildInput(contract: NodeContract, variables: Record<string, unknown>): Record<string, unknown> {
+  const input: Record<string, unknown> = { ...contract.defaultConfig };
+  for (const key of Object.keys(contract.inputSchema.properties)) {
+    const v = variables[key];
+    if (v !== undefined && v !== null) input[key] = v;
+  }
+  return coerce(contract.inputSchema, input);
+}
+
+/** Completion variables: the result under the node's `outputVariable`, else its fields as-is */
+function completionVariables(input: Record<string, unknown>, output: Record<string, unknown>): Record<string, unknown> {
+  const name = input.outputVariable;
+  return typeof name === "string" && name ? { [name]: output } : { ...output };
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+export function createWorker({
+  source, workerId, maxTasks = 10, lockDuration = 60_000, pollInterval = 1_000, logger = console,
+}: WorkerOptions): Worker {
+  const byTopic = new Map<string, Registration>();
+  let running: Promise<void> | null = null;
+  let stopping = false;
+
+  /** Run the handler; the thrown error (if any) is kept for the failure report */
+  const run = async (task: ExternalTask, { contract, handler, options }: Registration): Promise<{ outcome: TaskOutcome; error?: unknown }> => {
+    const base = { taskId: task.id, nodeId: contract.id };
+    try {
+      const input = buildInput(contract, task.variables);
+      const inputViolations = validate(contract.inputSchema, input);
+      if (inputViolations.length) throw new ContractViolationError("input", contract.id, inputViolations);
+
+      const output = ((await handler(input, { task, variables: task.variables, contract })) ?? {}) as Record<string, unknown>;
+      const outputViolations = validate(contract.outputSchema, output);
+      if (outputViolations.length) throw new ContractViolationError("output", contract.id, outputViolations);
+
+      return { outcome: { ...base, kind: "completed", variables: completionVariables(input, output) } };
+    } catch (error) {
+      if (error instanceof BpmnError) {
+        return { outcome: { ...base, kind: "bpmnError", errorCode: error.code, message: error.message }, error };
+      }
+      if (error instanceof ContractViolationError && error.direction === "input" && options.invalidInputErrorCode) {
+        return { outcome: { ...base, kind: "bpmnError", errorCode: options.invalidInputErrorCode, message: error.message }, error };
+      }
+      // Bad data or a broken handler won't fix itself on retry
+      if (error instanceof ContractViolationError || error instanceof IncidentError) {
+        return { outcome: { ...base, kind: "incident", message: error.message, retries: 0 }, error };
+      }
+      const retries = Math.max((task.retries ?? options.retries ?? 3) - 1, 0);
+      return { outcome: { ...base, kind: retries > 0 ? "retry" : "incident", message: errorMessage(error), retries }, error };
+    }
+  };
+
+  const report = async (task: ExternalTask, outcome: TaskOutcome, options: HandlerOptions, error?: unknown) => {
+    switch (outcome.kind) {
+      case "completed":
+        await source.complete(task, workerId, outcome.variables);
+        break;
+      case "bpmnError":
+        await source.handleBpmnError(task, workerId, outcome.errorCode, outcome.message, error instanceof BpmnError ? error.variables : {});
+        break;
+      case "retry":
+      case "incident": {
+        const { retryTimeout = 10_000 } = options;
+        await source.handleFailure(task, workerId, {
+          errorMessage: outcome.message,
+          errorDetails: error instanceof Error ? error.stack : undefined,
+          retries: outcome.retries,
+          retryTimeout: outcome.retries === 0 ? 0 : typeof retryTimeout === "function" ? retryTimeout(outcome.retries) : retryTimeout,
+        });
+        break;
+      }
+    }
+  };
+
+  const handleTask = async (task: ExternalTask): Promise<TaskOutcome | null> => {
+    const reg = byTopic.get(task.topicName);
+    if (!reg) return null;
+    const { outcome, error } = await run(task, reg);
+    try {
+      await report(task, outcome, reg.options, error);
+    } catch (e) {
+      // The lock expires and the engine hands the task out again
+      logger.error(`Could not report ${outcome.kind} for task ${task.id} (${reg.contract.id}):`, e);
+      return null;
+    }
+    if (outcome.kind !== "completed") logger.info(`Task ${task.id} (${reg.contract.id}): ${outcome.kind} – ${outcome.message}`);
+    return outcome;
+  };
+
+  const worker: Worker = {
+    register(nodeId, handler, options = {}) {
+      const contract = NODE_CONTRACTS[nodeId];
+      if (!contract) throw new Error(`Unknown automation node "${nodeId}"`);
+      if (byTopic.has(contract.topic)) throw new Error(`A handler for ${nodeId} is already registered`);
+      byTopic.set(contract.topic, { contract, handler: handler as unknown as Registration["handler"], options });
+      return worker;
+    },
+
+    async poll() {
+      if (byTopic.size === 0) return [];
+      const tasks = await source.fetchAndLock({ workerId, topics: [...byTopic.keys()], maxTasks, lockDuration });
+      const outcomes = await Promise.all(tasks.map(handleTask));
+      return outcomes.filter((o): o is TaskOutcome => o !== null);
+    },
+
+    start() {
+      if (running) return;
+      stopping = false;
+      running = (async () => {
+        while (!stopping) {
+          let handled = 0;
+          try {
+            handled = (await worker.poll()).length;
+          } catch (e) {
+            logger.error("Polling failed:", e);
+          }
+          if (handled === 0 && !stopping) await new Promise(resolve => setTimeout(resolve, pollInterval));
+        }
+      })();
+    },
+
+    async stop() {
+      stopping = true;
+      await running;
+      running = null;
+    },
+  };
+  return worker;
+}
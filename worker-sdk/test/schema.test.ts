@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { coerce, validate, type JsonSchemaObject } from "../src/schema";
+
+const schema: JsonSchemaObject = {
+  type: "object",
+  properties: {
+    name: { type: "string", pattern: "^[a-z]+$" },
+    size: { type: "integer", minimum: 1, maximum: 10 },
+    ratio: { type: "number" },
+    enabled: { type: "boolean" },
+    mode: { type: "string", enum: ["fast", "safe"] },
+    tags: { type: "array", items: { type: "string" } },
+    options: { type: "object" },
+  },
+  required: ["name", "size"],
+};
+
+describe("validate", () => {
+  it("accepts valid values and unknown properties", () => {
+    expect(validate(schema, { name: "abc", size: 3, ratio: 2, tags: ["a"], options: {}, extra: 1 })).toEqual([]);
+  });
+
+  it("reports missing required values, including blank strings", () => {
+    expect(validate(schema, { name: "" }).filter((v) => v.message === "is required")).toEqual([
+      { path: "name", message: "is required" },
+      { path: "size", message: "is required" },
+    ]);
+  });
+
+  it("reports types, enums, ranges, patterns and array items", () => {
+    expect(validate(schema, { name: "ABC", size: 2.5, mode: "slow", tags: ["a", 1], enabled: "yes" })).toEqual([
+      { path: "name", message: "must match ^[a-z]+$" },
+      { path: "size", message: "expected integer, got number" },
+      { path: "enabled", message: "expected boolean, got string" },
+      { path: "mode", message: "must be one of fast, safe" },
+      { path: "tags[1]", message: "expected string, got integer" },
+    ]);
+    expect(validate(schema, { name: "a", size: 11 })).toEqual([{ path: "size", message: "must be ≤ 10" }]);
+  });
+});
+
+describe("coerce", () => {
+  it("converts unambiguous strings to the schema type", () => {
+    expect(coerce(schema, { size: " 4 ", ratio: "0.5", enabled: "false", tags: '["a","b"]', options: '{"x":1}' })).toEqual({
+      size: 4, ratio: 0.5, enabled: false, tags: ["a", "b"], options: { x: 1 },
+    });
+  });
+
+  it("leaves strings alone when they do not convert", () => {
+    const value = { name: "42", size: "many", enabled: "yes", tags: '{"not":"an array"}', options: "{broken" };
+    expect(coerce(schema, value)).toEqual(value);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from "vitest";
+import { createWorker } from "../src/worker";
+import { BpmnError, IncidentError } from "../src/errors";
+import { createMemoryTaskSource } from "../src/memoryTaskSource";
+
+const TOPIC = "chunk-extractor-execute";
+const quiet = { info: () => {}, error: () => {} };
+
+function setup() {
+  const source = createMemoryTaskSource();
+  const worker = createWorker({ source, workerId: "test", logger: quiet });
+  return { source, worker };
+}
+
+describe("worker input", () => {
+  it("overlays task variables on the default config and coerces strings", async () => {
+    const { source, worker } = setup();
+    const handler = vi.fn(() => ({ totalRows: 0 }));
+    worker.register("chunk-extractor", handler);
+    source.push(TOPIC, { inputVariable: "rows.csv", chunkSize: "50", hasHeader: "false", other: "kept" });
+    await worker.poll();
+    expect(handler).toHaveBeenCalledWith(
+      { inputVariable: "rows.csv", chunkSize: 50, startRow: 1, hasHeader: false, outputVariable: "chunkExtractorResult" },
+      expect.objectContaining({ variables: expect.objectContaining({ other: "kept" }) }),
+    );
+  });
+
+  it("raises an incident for invalid input without running the handler", async () => {
+    const { source, worker } = setup();
+    const handler = vi.fn(() => ({}));
+    worker.register("chunk-extractor", handler);
+    const id = source.push(TOPIC, { inputVariable: "rows.csv", chunkSize: 0 });
+    const [outcome] = await worker.poll();
+    expect(handler).not.toHaveBeenCalled();
+    expect(outcome).toMatchObject({ kind: "incident", retries: 0, message: "Invalid input for chunk-extractor: chunkSize must be ≥ 1" });
+    expect(source.get(id)).toMatchObject({ state: "incident", failures: [{ retries: 0, retryTimeout: 0 }] });
+  });
+
+  it("reports invalid input as a BPMN error when asked to", async () => {
+    const { source, worker } = setup();
+    worker.register("chunk-extractor", () => ({}), { invalidInputErrorCode: "BAD_INPUT" });
+    const id = source.push(TOPIC, {});
+    await worker.poll();
+    expect(source.get(id)).toMatchObject({ state: "bpmnError", errorCode: "BAD_INPUT", errorMessage: expect.stringContaining("inputVariable is required") });
+  });
+});
+
+describe("worker outcomes", () => {
+  it("completes the task with the result under the output variable", async () => {
+    const { source, worker } = setup();
+    worker.register("chunk-extractor", (input) => ({ totalRows: 120, totalChunks: Math.ceil(120 / input.chunkSize) }));
+    const id = source.push(TOPIC, { inputVariable: "rows.csv", chunkSize: 50, outputVariable: "extract" });
+    const outcomes = await worker.poll();
+    expect(outcomes).toEqual([{ taskId: id, nodeId: "chunk-extractor", kind: "completed", variables: { extract: { totalRows: 120, totalChunks: 3 } } }]);
+    expect(source.get(id)).toMatchObject({ state: "completed", result: { extract: { totalRows: 120, totalChunks: 3 } } });
+  });
+
+  it("raises an incident when the handler's result breaks the output schema", async () => {
+    const { source, worker } = setup();
+    worker.register("chunk-extractor", () => ({ totalRows: "many" }) as never);
+    const id = source.push(TOPIC, { inputVariable: "rows.csv" });
+    await worker.poll();
+    expect(source.get(id)).toMatchObject({ state: "incident", errorMessage: "Invalid output for chunk-extractor: totalRows expected integer, got string" });
+  });
+
+  it("reports a BpmnError with its code and variables", async () => {
+    const { source, worker } = setup();
+    worker.register("chunk-extractor", () => {
+      throw new BpmnError("NO_ROWS", "File has no data rows", { file: "rows.csv" });
+    });
+    const id = source.push(TOPIC, { inputVariable: "rows.csv" });
+    const [outcome] = await worker.poll();
+    expect(outcome).toMatchObject({ kind: "bpmnError", errorCode: "NO_ROWS", message: "File has no data rows" });
+    expect(source.get(id)).toMatchObject({ state: "bpmnError", errorCode: "NO_ROWS", result: { file: "rows.csv" } });
+  });
+
+  it("raises an incident right away for an IncidentError", async () => {
+    const { source, worker } = setup();
+    worker.register("chunk-extractor", () => {
+      throw new IncidentError("Storage bucket is gone");
+    });
+    const id = source.push(TOPIC, { inputVariable: "rows.csv" }, { retries: 5 });
+    await worker.poll();
+    expect(source.get(id)).toMatchObject({ state: "incident", retries: 0, failures: [{ errorMessage: "Storage bucket is gone" }] });
+  });
+});
+
+describe("worker retries", () => {
+  it("retries with backoff and raises an incident once retries run out", async () => {
+    const { source, worker } = setup();
+    const handler = vi.fn(() => {
+      throw new Error("Connection reset");
+    });
+    worker.register("chunk-extractor", handler, { retries: 3, retryTimeout: (left) => 1_000 * 2 ** (3 - left) });
+    const id = source.push(TOPIC, { inputVariable: "rows.csv" });
+
+    expect((await worker.poll()).map((o) => o.kind)).toEqual(["retry"]);
+    expect(source.get(id)!.state).toBe("open");
+    await worker.poll();
+    const [last] = await worker.poll();
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(last).toMatchObject({ kind: "incident", retries: 0, message: "Connection reset" });
+    expect(source.get(id)).toMatchObject({ state: "incident", retries: 0 });
+    expect(source.get(id)!.failures.map((f) => [f.retries, f.retryTimeout])).toEqual([[2, 2_000], [1, 4_000], [0, 0]]);
+    expect(source.get(id)!.failures[0].errorDetails).toContain("Connection reset");
+    expect(await worker.poll()).toEqual([]);
+  });
+
+  it("counts down from the engine's retries once the task has failed before", async () => {
+    const { source, worker } = setup();
+    worker.register("chunk-extractor", () => {
+      throw new Error("Timeout");
+    }, { retryTimeout: 500 });
+    const id = source.push(TOPIC, { inputVariable: "rows.csv" }, { retries: 2 });
+    await worker.poll();
+    expect(source.get(id)).toMatchObject({ state: "open", retries: 1, failures: [{ retries: 1, retryTimeout: 500 }] });
+    await worker.poll();
+    expect(source.get(id)).toMatchObject({ state: "incident", retries: 0 });
+  });
+
+  it("leaves the task locked when its outcome cannot be reported", async () => {
+    const { source, worker } = setup();
+    worker.register("chunk-extractor", () => ({}));
+    const id = source.push(TOPIC, { inputVariable: "rows.csv" });
+    source.complete = () => Promise.reject(new Error("engine down"));
+    expect(await worker.poll()).toEqual([]);
+    expect(source.get(id)!.state).toBe("locked");
+  });
+});
+
+describe("worker registration", () => {
+  it("rejects unknown nodes and duplicate handlers", () => {
+    const { worker } = setup();
+    expect(() => worker.register("no-such-node" as never, () => ({}))).toThrow('Unknown automation node "no-such-node"');
+    worker.register("chunk-extractor", () => ({}));
+    expect(() => worker.register("chunk-extractor", () => ({}))).toThrow("A handler for chunk-extractor is already registered");
+  });
+
+  it("only fetches tasks of registered topics", async () => {
+    const { source, worker } = setup();
+    worker.register("chunk-extractor", () => ({}));
+    const other = source.push("ai-processor-execute", {});
+    await worker.poll();
+    expect(source.get(other)!.state).toBe("open");
+  });
+});
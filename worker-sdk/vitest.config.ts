@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Keeps vitest from picking up the Studio's vite config one directory up
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    environment: "node",
+  },
+});